@@ -19,9 +19,11 @@ import Repositorio from "./pages/Repositorio";
 import CareerPathfinder from "./pages/CareerPathfinder";
 import Flashcards from "./pages/Flashcards";
 import Arena from "./pages/Arena";
+import ArenaDuel from "./pages/ArenaDuel";
 import TiendaNova from "./pages/TiendaNova";
 import IcfesDashboard from "./pages/IcfesDashboard";
 import IcfesEntrenador from "./pages/IcfesEntrenador";
+import IcfesSimulacro from "./pages/IcfesSimulacro";
 import PanelControl from "./pages/PanelControl";
 import Admin from "./pages/Admin";
 import AdminTutorSessions from "./pages/AdminTutorSessions";
@@ -108,6 +110,11 @@ const App = () => (
                 <Arena />
               </RoleGuard>
             } />
+            <Route path="/app/arena/duelo/:id" element={
+              <RoleGuard allowedRoles={["student"]}>
+                <ArenaDuel />
+              </RoleGuard>
+            } />
             <Route path="/app/tienda-nova" element={
               <RoleGuard allowedRoles={["student"]}>
                 <TiendaNova />
@@ -123,6 +130,11 @@ const App = () => (
                 <IcfesEntrenador />
               </RoleGuard>
             } />
+            <Route path="/app/icfes/simulacro" element={
+              <RoleGuard allowedRoles={["student"]}>
+                <IcfesSimulacro />
+              </RoleGuard>
+            } />
             {/* Research Center */}
             <Route path="/app/research" element={
               <RoleGuard allowedRoles={["student"]}>
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { supabase } from "@/integrations/supabase/client";
+import { adjustCoins, coinErrorMessage } from "@/services/coins";
 import { toast } from "sonner";
 import { Loader2, Plus, Minus } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
@@ -32,44 +32,11 @@ export const AdjustCoinsModal = ({ open, onOpenChange, studentId, mode, onSucces
     try {
       const coinAmount = mode === 'add' ? Math.abs(parseInt(amount)) : -Math.abs(parseInt(amount));
 
-      // Create transaction
-      const { error: txError } = await supabase
-        .from('coin_transactions')
-        .insert({
-          student_id: studentId,
-          amount: coinAmount,
-          type: mode === 'add' ? 'earn' : 'adjust',
-          reason: reason || (mode === 'add' ? 'Ajuste positivo por admin' : 'Ajuste negativo por admin'),
-          created_by_admin_id: user.id
-        });
-
-      if (txError) throw txError;
-
-      // Update balance
-      const { data: currentCoins } = await supabase
-        .from('student_coins')
-        .select('balance, total_earned, total_spent')
-        .eq('student_id', studentId)
-        .maybeSingle();
-
-      const currentBalance = currentCoins?.balance || 0;
-      const currentEarned = currentCoins?.total_earned || 0;
-      const currentSpent = currentCoins?.total_spent || 0;
-
-      const newBalance = Math.max(0, currentBalance + coinAmount);
-      const newEarned = mode === 'add' ? currentEarned + Math.abs(coinAmount) : currentEarned;
-      const newSpent = mode === 'subtract' ? currentSpent + Math.abs(coinAmount) : currentSpent;
-
-      const { error: updateError } = await supabase
-        .from('student_coins')
-        .upsert({
-          student_id: studentId,
-          balance: newBalance,
-          total_earned: newEarned,
-          total_spent: newSpent
-        }, { onConflict: 'student_id' });
-
-      if (updateError) throw updateError;
+      await adjustCoins(
+        studentId,
+        coinAmount,
+        reason || (mode === 'add' ? 'Ajuste positivo por admin' : 'Ajuste negativo por admin')
+      );
 
       toast.success(mode === 'add' ? "Coins agregados" : "Coins ajustados");
       onSuccess();
@@ -77,8 +44,7 @@ export const AdjustCoinsModal = ({ open, onOpenChange, studentId, mode, onSucces
       setAmount("");
       setReason("");
     } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Error al ajustar coins";
-      toast.error(message);
+      toast.error(coinErrorMessage(error, "Error al ajustar coins"));
     } finally {
       setLoading(false);
     }
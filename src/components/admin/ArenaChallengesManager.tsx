@@ -0,0 +1,349 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CHALLENGE_DIFFICULTY_LABELS,
+  challengePhase,
+  challengeTimeLabel,
+  type ChallengeDifficulty,
+} from "@/lib/arena";
+import { ICFES_AREAS, ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+import {
+  arenaErrorMessage,
+  createChallenge,
+  deleteChallenge,
+  fetchChallenges,
+  settleDueChallenges,
+  type ArenaChallenge,
+} from "@/services/arena";
+import { toast } from "sonner";
+import { Plus, Trash2, Swords, Coins, Loader2 } from "lucide-react";
+
+const PHASE_LABELS = { upcoming: "Programado", open: "Abierto", ended: "Terminado" };
+
+// datetime-local wants local time without seconds or zone
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const emptyForm = () => {
+  const start = new Date();
+  const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+  return {
+    title: "",
+    description: "",
+    area: "matematicas" as IcfesArea,
+    difficulty: "medio" as ChallengeDifficulty,
+    question_count: "10",
+    grade_level: "",
+    starts_at: toLocalInput(start),
+    ends_at: toLocalInput(end),
+    prize_coins: "",
+    winner_count: "3"
+  };
+};
+
+// Challenges with a fixed question set drawn from the ICFES bank; prizes go through the coin ledger
+export const ArenaChallengesManager = () => {
+  const [challenges, setChallenges] = useState<ArenaChallenge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      await settleDueChallenges();
+      setChallenges(await fetchChallenges());
+    } catch (error) {
+      console.error('Error loading challenges:', error);
+      toast.error("Error al cargar los desafíos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (new Date(formData.ends_at) <= new Date(formData.starts_at)) {
+      toast.error("El desafío debe terminar después de empezar");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createChallenge({
+        title: formData.title.trim(),
+        description: formData.description,
+        area: formData.area,
+        difficulty: formData.difficulty,
+        question_count: parseInt(formData.question_count),
+        grade_level: formData.grade_level === "" ? null : parseInt(formData.grade_level),
+        starts_at: new Date(formData.starts_at).toISOString(),
+        ends_at: new Date(formData.ends_at).toISOString(),
+        prize_coins: parseInt(formData.prize_coins),
+        winner_count: parseInt(formData.winner_count)
+      });
+      toast.success("Desafío creado");
+      setShowModal(false);
+      fetchData();
+    } catch (error: unknown) {
+      toast.error(arenaErrorMessage(error, "Error al crear el desafío"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (challenge: ArenaChallenge) => {
+    const warning = challenge.settled_at
+      ? " Los premios ya entregados se conservan."
+      : challenge.participant_count > 0 ? ` Se perderá el progreso de ${challenge.participant_count} participantes.` : "";
+    if (!confirm(`¿Eliminar el desafío "${challenge.title}"?${warning}`)) return;
+
+    try {
+      await deleteChallenge(challenge.id);
+      toast.success("Desafío eliminado");
+      fetchData();
+    } catch {
+      toast.error("Error al eliminar");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Swords className="w-5 h-5 text-accent" />
+              Desafíos de la Arena
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Al terminar, los mejores puestos reciben el premio en monedas. Desempata quien termine primero.
+            </CardDescription>
+          </div>
+          <Button onClick={() => {
+            setFormData(emptyForm());
+            setShowModal(true);
+          }}>
+            <Plus className="w-4 h-4 mr-2" /> Nuevo Desafío
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : challenges.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No hay desafíos creados</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Desafío</TableHead>
+                <TableHead>Grado</TableHead>
+                <TableHead>Premio</TableHead>
+                <TableHead>Participantes</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {challenges.map(challenge => {
+                const phase = challengePhase(challenge);
+                return (
+                  <TableRow key={challenge.id}>
+                    <TableCell>
+                      <p className="font-medium">{challenge.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {ICFES_AREA_LABELS[challenge.area as IcfesArea] ?? challenge.area} ·{' '}
+                        {CHALLENGE_DIFFICULTY_LABELS[challenge.difficulty as ChallengeDifficulty] ?? challenge.difficulty} ·{' '}
+                        {challenge.question_count} preguntas
+                      </p>
+                    </TableCell>
+                    <TableCell>{challenge.grade_level ?? 'Todos'}</TableCell>
+                    <TableCell>
+                      <span className="flex items-center gap-1 text-gold">
+                        <Coins className="w-3 h-3" />
+                        {challenge.prize_coins} × {challenge.winner_count}
+                      </span>
+                    </TableCell>
+                    <TableCell>{challenge.participant_count}</TableCell>
+                    <TableCell>
+                      <Badge variant={phase === "open" ? "default" : "secondary"}>
+                        {challenge.settled_at ? 'Premios entregados' : PHASE_LABELS[phase]}
+                      </Badge>
+                      <p className="text-xs text-muted-foreground mt-1">{challengeTimeLabel(challenge)}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(challenge)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Nuevo Desafío</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <Label htmlFor="challenge-title">Título *</Label>
+              <Input
+                id="challenge-title"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="challenge-description">Descripción</Label>
+              <Textarea
+                id="challenge-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Área</Label>
+                <Select
+                  value={formData.area}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, area: value as IcfesArea }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ICFES_AREAS.map(area => (
+                      <SelectItem key={area} value={area}>{ICFES_AREA_LABELS[area]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Dificultad</Label>
+                <Select
+                  value={formData.difficulty}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, difficulty: value as ChallengeDifficulty }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHALLENGE_DIFFICULTY_LABELS) as ChallengeDifficulty[]).map(difficulty => (
+                      <SelectItem key={difficulty} value={difficulty}>{CHALLENGE_DIFFICULTY_LABELS[difficulty]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="challenge-questions">Preguntas *</Label>
+                <Input
+                  id="challenge-questions"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={formData.question_count}
+                  onChange={(e) => setFormData(prev => ({ ...prev, question_count: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="challenge-grade">Grado</Label>
+                <Input
+                  id="challenge-grade"
+                  type="number"
+                  min={1}
+                  max={11}
+                  value={formData.grade_level}
+                  onChange={(e) => setFormData(prev => ({ ...prev, grade_level: e.target.value }))}
+                  placeholder="Todos"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="challenge-start">Empieza *</Label>
+                <Input
+                  id="challenge-start"
+                  type="datetime-local"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, starts_at: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="challenge-end">Termina *</Label>
+                <Input
+                  id="challenge-end"
+                  type="datetime-local"
+                  value={formData.ends_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, ends_at: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="challenge-prize">Premio (coins) *</Label>
+                <Input
+                  id="challenge-prize"
+                  type="number"
+                  min={1}
+                  value={formData.prize_coins}
+                  onChange={(e) => setFormData(prev => ({ ...prev, prize_coins: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="challenge-winners">Ganadores *</Label>
+                <Input
+                  id="challenge-winners"
+                  type="number"
+                  min={1}
+                  value={formData.winner_count}
+                  onChange={(e) => setFormData(prev => ({ ...prev, winner_count: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setShowModal(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Crear
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { coinErrorMessage, reconcileCoinBalances, type CoinDrift } from "@/services/coins";
+import { toast } from "sonner";
+import { Scale, Loader2, Wrench } from "lucide-react";
+
+// Compares every cached balance with the coin_transactions ledger and rebuilds the ones that drifted
+export const CoinReconciliationCard = () => {
+  const [drift, setDrift] = useState<CoinDrift[] | null>(null);
+  const [loading, setLoading] = useState<'check' | 'apply' | null>(null);
+
+  const run = async (apply: boolean) => {
+    if (apply && !confirm("¿Reconstruir los balances desde el historial de transacciones?")) return;
+
+    setLoading(apply ? 'apply' : 'check');
+    try {
+      const rows = await reconcileCoinBalances(apply);
+      setDrift(rows);
+      if (apply) {
+        const fixed = rows.filter((r) => r.applied).length;
+        toast.success(`${fixed} balances corregidos`);
+      } else if (rows.length === 0) {
+        toast.success("Todos los balances coinciden con el historial");
+      }
+    } catch (error: unknown) {
+      toast.error(coinErrorMessage(error, "Error al revisar los balances"));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const pending = (drift || []).filter((r) => !r.applied);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-gold" />
+          Conciliar Nova Coins
+        </CardTitle>
+        <CardDescription>
+          Recalcula el balance de cada estudiante a partir de su historial de transacciones y muestra las diferencias.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => run(false)} disabled={!!loading}>
+            {loading === 'check' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Revisar balances
+          </Button>
+          <Button onClick={() => run(true)} disabled={!!loading || pending.length === 0}>
+            {loading === 'apply' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wrench className="w-4 h-4 mr-2" />}
+            Corregir diferencias
+          </Button>
+        </div>
+
+        {drift && drift.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Estudiante</TableHead>
+                <TableHead>Balance guardado</TableHead>
+                <TableHead>Según historial</TableHead>
+                <TableHead>Estado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drift.map((row) => (
+                <TableRow key={row.student_id}>
+                  <TableCell>{row.full_name}</TableCell>
+                  <TableCell>{row.stored_balance}</TableCell>
+                  <TableCell className={row.ledger_balance < 0 ? "text-destructive" : undefined}>
+                    {row.ledger_balance}
+                  </TableCell>
+                  <TableCell>
+                    {row.applied ? (
+                      <Badge>Corregido</Badge>
+                    ) : row.ledger_balance < 0 ? (
+                      <Badge variant="destructive">Requiere ajuste manual</Badge>
+                    ) : (
+                      <Badge variant="secondary">Diferencia</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
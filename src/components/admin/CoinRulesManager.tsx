@@ -0,0 +1,312 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  COIN_EVENTS,
+  COIN_EVENT_TYPES,
+  describeRuleConditions,
+  parseRuleConditions,
+  type CoinEventType,
+  type RuleConditions,
+} from "@/lib/coinRules";
+import {
+  deleteEarningRule,
+  fetchEarningRules,
+  saveEarningRule,
+  type CoinEarningRule,
+} from "@/services/coins";
+import { toast } from "sonner";
+import { Plus, Edit, Trash2, Coins, Loader2, Zap } from "lucide-react";
+
+interface RuleForm {
+  event_type: CoinEventType;
+  name: string;
+  amount: string;
+  daily_cap: string;
+  is_active: boolean;
+  conditions: RuleConditions;
+}
+
+const EMPTY_FORM: RuleForm = {
+  event_type: "tutor_session_understood",
+  name: "",
+  amount: "",
+  daily_cap: "",
+  is_active: true,
+  conditions: {},
+};
+
+// Rules that award coins automatically when a learning event happens
+export const CoinRulesManager = () => {
+  const [rules, setRules] = useState<CoinEarningRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<CoinEarningRule | null>(null);
+  const [formData, setFormData] = useState<RuleForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await fetchEarningRules());
+    } catch (error) {
+      console.error('Error loading coin rules:', error);
+      toast.error("Error al cargar las reglas");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (rule: CoinEarningRule | null) => {
+    setEditingRule(rule);
+    setFormData(rule
+      ? {
+        event_type: rule.event_type as CoinEventType,
+        name: rule.name,
+        amount: rule.amount.toString(),
+        daily_cap: rule.daily_cap?.toString() ?? "",
+        is_active: rule.is_active,
+        conditions: parseRuleConditions(rule.event_type as CoinEventType, rule.conditions),
+      }
+      : EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const setCondition = (key: string, value: number | boolean | string | null) => {
+    setFormData(prev => {
+      const conditions = { ...prev.conditions };
+      if (value === null || value === "") delete conditions[key];
+      else conditions[key] = value;
+      return { ...prev, conditions };
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await saveEarningRule({
+        event_type: formData.event_type,
+        name: formData.name.trim(),
+        amount: parseInt(formData.amount),
+        daily_cap: formData.daily_cap === "" ? null : parseInt(formData.daily_cap),
+        is_active: formData.is_active,
+        conditions: parseRuleConditions(formData.event_type, formData.conditions),
+      }, editingRule?.id);
+      toast.success(editingRule ? "Regla actualizada" : "Regla creada");
+      setShowModal(false);
+      fetchRules();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Error al guardar la regla";
+      toast.error(message);
+    }
+  };
+
+  const handleDelete = async (rule: CoinEarningRule) => {
+    if (!confirm(`¿Eliminar la regla "${rule.name}"? Las monedas ya otorgadas se conservan.`)) return;
+
+    try {
+      await deleteEarningRule(rule.id);
+      toast.success("Regla eliminada");
+      fetchRules();
+    } catch {
+      toast.error("Error al eliminar");
+    }
+  };
+
+  const eventConditions = COIN_EVENTS[formData.event_type].conditions;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="w-5 h-5 text-gold" />
+              Reglas para Ganar Coins
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Se aplican solas cuando ocurre el evento. Cada regla paga una sola vez por tutoría, tarea, semana, simulacro o duelo.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openModal(null)}>
+            <Plus className="w-4 h-4 mr-2" /> Nueva Regla
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No hay reglas configuradas</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Regla</TableHead>
+                <TableHead>Evento</TableHead>
+                <TableHead>Coins</TableHead>
+                <TableHead>Tope diario</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => {
+                const eventType = rule.event_type as CoinEventType;
+                const conditions = describeRuleConditions(eventType, rule.conditions);
+                return (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <p className="font-medium">{rule.name}</p>
+                      {conditions && <p className="text-xs text-muted-foreground">{conditions}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{COIN_EVENTS[eventType]?.label ?? rule.event_type}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <span className="flex items-center gap-1 text-gold">
+                        <Coins className="w-3 h-3" />
+                        {rule.amount}
+                      </span>
+                    </TableCell>
+                    <TableCell>{rule.daily_cap ?? '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={rule.is_active ? "default" : "secondary"}>
+                        {rule.is_active ? "Activa" : "Inactiva"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => openModal(rule)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Editar Regla' : 'Nueva Regla'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label>Evento</Label>
+              <Select
+                value={formData.event_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, event_type: value as CoinEventType, conditions: {} }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COIN_EVENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{COIN_EVENTS[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="rule-name">Nombre *</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Aparece como razón en el historial de coins"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-amount">Coins *</Label>
+                <Input
+                  id="rule-amount"
+                  type="number"
+                  min={1}
+                  value={formData.amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-cap">Tope diario por estudiante</Label>
+                <Input
+                  id="rule-cap"
+                  type="number"
+                  min={1}
+                  value={formData.daily_cap}
+                  onChange={(e) => setFormData(prev => ({ ...prev, daily_cap: e.target.value }))}
+                  placeholder="Sin tope"
+                />
+              </div>
+            </div>
+            {eventConditions.map(field => (
+              <div key={field.key}>
+                {field.kind === "boolean" ? (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={formData.conditions[field.key] === true}
+                      onCheckedChange={(checked) => setCondition(field.key, checked ? true : null)}
+                    />
+                    <Label>{field.label}</Label>
+                  </div>
+                ) : (
+                  <>
+                    <Label htmlFor={`rule-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`rule-${field.key}`}
+                      type={field.kind === "number" ? "number" : "text"}
+                      min={field.kind === "number" ? 0 : undefined}
+                      value={String(formData.conditions[field.key] ?? "")}
+                      onChange={(e) => setCondition(
+                        field.key,
+                        field.kind === "number" && e.target.value !== "" ? Number(e.target.value) : e.target.value
+                      )}
+                      placeholder="Cualquiera"
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label>Activa</Label>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setShowModal(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1">
+                {editingRule ? 'Actualizar' : 'Crear'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
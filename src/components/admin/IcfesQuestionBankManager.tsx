@@ -0,0 +1,925 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Edit, Trash2, ClipboardList, Loader2, Upload, Download, FileText, ImagePlus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { ICFES_AREAS, ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+import {
+  ANSWER_LETTERS,
+  QUESTION_FORMAT_LABELS,
+  STIMULUS_KIND_LABELS,
+  passageOptions,
+  type QuestionFormat,
+  type StimulusKind,
+} from "@/lib/icfesItemSets";
+import {
+  REVIEW_STATUS_LABELS,
+  REVIEW_TRANSITIONS,
+  matchingAnswerError,
+  normalizeStatement,
+  previewImport,
+  questionInputSchema,
+  type ImportPreview,
+  type QuestionInput,
+  type ReviewStatus,
+} from "@/lib/icfesQuestionBank";
+import {
+  deletePassage,
+  deleteQuestion,
+  exportBank,
+  fetchBank,
+  importBank,
+  savePassage,
+  saveQuestion,
+  setReviewStatus,
+  uploadIcfesMedia,
+  type BankPassage,
+  type BankQuestion,
+} from "@/services/icfesQuestionBank";
+
+const STATUS_VARIANTS: Record<ReviewStatus, "default" | "secondary" | "outline"> = {
+  draft: "outline",
+  reviewed: "secondary",
+  active: "default",
+};
+
+const NO_PASSAGE = "none";
+
+const emptyQuestionForm = {
+  area: "matematicas",
+  competencia: "",
+  enunciado: "",
+  imagen_url: "",
+  formato: "seleccion",
+  opcion_a: "",
+  opcion_b: "",
+  opcion_c: "",
+  opcion_d: "",
+  respuesta_correcta: "A",
+  dificultad: "3",
+  explicacion: "",
+  passage_id: NO_PASSAGE,
+  passage_order: "",
+};
+
+const emptyPassageForm = { area: "lectura_critica", kind: "text", title: "", content: "", imagen_url: "", options: "" };
+
+const areaLabel = (area: string) => ICFES_AREA_LABELS[area as IcfesArea] ?? area;
+
+export const IcfesQuestionBankManager = () => {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [passages, setPassages] = useState<BankPassage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [areaFilter, setAreaFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [search, setSearch] = useState("");
+
+  const [showQuestionModal, setShowQuestionModal] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<BankQuestion | null>(null);
+  const [questionForm, setQuestionForm] = useState(emptyQuestionForm);
+  const [uploading, setUploading] = useState(false);
+
+  const [showPassagesModal, setShowPassagesModal] = useState(false);
+  const [editingPassage, setEditingPassage] = useState<BankPassage | null>(null);
+  const [passageForm, setPassageForm] = useState(emptyPassageForm);
+
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const bank = await fetchBank();
+      setQuestions(bank.questions);
+      setPassages(bank.passages);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al cargar el banco");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredQuestions = useMemo(() => {
+    const term = normalizeStatement(search);
+    return questions.filter(
+      (q) =>
+        (areaFilter === "all" || q.area === areaFilter) &&
+        (statusFilter === "all" || q.review_status === statusFilter) &&
+        (!term ||
+          normalizeStatement(q.enunciado).includes(term) ||
+          normalizeStatement(q.competencia ?? "").includes(term)),
+    );
+  }, [questions, areaFilter, statusFilter, search]);
+
+  const passageById = useMemo(() => new Map(passages.map((p) => [p.id, p])), [passages]);
+
+  const openQuestionModal = (question: BankQuestion | null) => {
+    setEditingQuestion(question);
+    setQuestionForm(
+      question
+        ? {
+            area: question.area,
+            competencia: question.competencia || "",
+            enunciado: question.enunciado,
+            imagen_url: question.imagen_url || "",
+            formato: question.formato,
+            opcion_a: question.opcion_a || "",
+            opcion_b: question.opcion_b || "",
+            opcion_c: question.opcion_c || "",
+            opcion_d: question.opcion_d || "",
+            respuesta_correcta: question.respuesta_correcta,
+            dificultad: question.dificultad.toString(),
+            explicacion: question.explicacion || "",
+            passage_id: question.passage_id || NO_PASSAGE,
+            passage_order: question.passage_order?.toString() || "",
+          }
+        : emptyQuestionForm,
+    );
+    setShowQuestionModal(true);
+  };
+
+  const handleImageUpload = async (file: File | undefined, target: "question" | "passage") => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const url = await uploadIcfesMedia(file);
+      if (target === "question") setQuestionForm((prev) => ({ ...prev, imagen_url: url }));
+      else setPassageForm((prev) => ({ ...prev, imagen_url: url }));
+      toast.success("Imagen subida");
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al subir la imagen");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSaveQuestion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const { passage_id, ...fields } = questionForm;
+    const linkedPassage = passage_id === NO_PASSAGE ? null : passage_id;
+    // Matching options are only kept for matching questions
+    const optionFields =
+      fields.formato === "emparejamiento" ? { opcion_a: "", opcion_b: "", opcion_c: "", opcion_d: "" } : {};
+    const parsed = questionInputSchema.safeParse({ ...fields, ...optionFields, passage_key: linkedPassage });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0].message);
+      return;
+    }
+    const matchingError = matchingAnswerError(
+      parsed.data as QuestionInput,
+      linkedPassage ? passageOptions(passageById.get(linkedPassage)) : null,
+    );
+    if (matchingError) {
+      toast.error(matchingError);
+      return;
+    }
+
+    try {
+      const { passage_key: _key, ...question } = parsed.data as QuestionInput;
+      await saveQuestion(
+        { ...question, passage_id: linkedPassage },
+        user.id,
+        editingQuestion?.id,
+      );
+      toast.success(editingQuestion ? "Pregunta actualizada, vuelve a borrador" : "Pregunta creada como borrador");
+      setShowQuestionModal(false);
+      setEditingQuestion(null);
+      fetchData();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al guardar");
+    }
+  };
+
+  const handleTransition = async (question: BankQuestion, status: ReviewStatus) => {
+    if (!user) return;
+    try {
+      await setReviewStatus(question.id, status, user.id);
+      toast.success(`Pregunta en estado: ${REVIEW_STATUS_LABELS[status]}`);
+      fetchData();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al cambiar el estado");
+    }
+  };
+
+  const handleDeleteQuestion = async (id: string) => {
+    if (!confirm("¿Eliminar esta pregunta?")) return;
+    try {
+      await deleteQuestion(id);
+      toast.success("Pregunta eliminada");
+      fetchData();
+    } catch {
+      // Answered questions are kept for the students' history
+      toast.error("No se puede eliminar una pregunta ya respondida; retírala en su lugar");
+    }
+  };
+
+  const openPassageForm = (passage: BankPassage | null) => {
+    setEditingPassage(passage);
+    setPassageForm(
+      passage
+        ? {
+            area: passage.area,
+            kind: passage.kind,
+            title: passage.title || "",
+            content: passage.content,
+            imagen_url: passage.imagen_url || "",
+            options: passageOptions(passage).join("\n"),
+          }
+        : emptyPassageForm,
+    );
+  };
+
+  const handleSavePassage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    const options = passageForm.options
+      .split("\n")
+      .map((o) => o.trim())
+      .filter(Boolean);
+    if (options.length === 1 || options.length > ANSWER_LETTERS.length) {
+      toast.error("Las opciones para emparejar deben ser entre 2 y 8");
+      return;
+    }
+    try {
+      await savePassage(
+        {
+          area: passageForm.area,
+          kind: passageForm.kind,
+          title: passageForm.title || null,
+          content: passageForm.content,
+          imagen_url: passageForm.imagen_url || null,
+          options: options.length > 0 ? options : null,
+        },
+        user.id,
+        editingPassage?.id,
+      );
+      toast.success(editingPassage ? "Texto actualizado" : "Texto creado");
+      openPassageForm(null);
+      fetchData();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al guardar el texto");
+    }
+  };
+
+  const handleDeletePassage = async (id: string) => {
+    if (!confirm("¿Eliminar este texto? Sus preguntas quedarán sin texto compartido.")) return;
+    try {
+      await deletePassage(id);
+      toast.success("Texto eliminado");
+      fetchData();
+    } catch {
+      toast.error("Error al eliminar");
+    }
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+      setImportPreview(
+        previewImport(
+          text,
+          format,
+          questions.map((q) => q.enunciado),
+        ),
+      );
+    } catch (error: unknown) {
+      setImportPreview(null);
+      toast.error(error instanceof Error ? `Archivo no válido: ${error.message}` : "Archivo no válido");
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!user || !importPreview) return;
+    setImporting(true);
+    try {
+      const created = await importBank(importPreview, user.id);
+      toast.success(`${created} preguntas importadas como borrador`);
+      setShowImportModal(false);
+      setImportPreview(null);
+      fetchData();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al importar");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const file = await exportBank();
+      const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `banco-icfes-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Error al exportar");
+    }
+  };
+
+  const formPassages = passages.filter((p) => p.area === questionForm.area);
+  const isMatching = questionForm.formato === "emparejamiento";
+  const matchingOptions =
+    isMatching && questionForm.passage_id !== NO_PASSAGE ? passageOptions(passageById.get(questionForm.passage_id)) : [];
+  const answerLetters = isMatching ? ANSWER_LETTERS.slice(0, Math.max(matchingOptions.length, 2)) : ANSWER_LETTERS.slice(0, 4);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="w-5 h-5 text-primary" />
+              Banco de Preguntas ICFES
+            </CardTitle>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => { openPassageForm(null); setShowPassagesModal(true); }}>
+                <FileText className="w-4 h-4 mr-2" /> Textos compartidos
+              </Button>
+              <Button variant="outline" onClick={() => { setImportPreview(null); setShowImportModal(true); }}>
+                <Upload className="w-4 h-4 mr-2" /> Importar
+              </Button>
+              <Button variant="outline" onClick={handleExport}>
+                <Download className="w-4 h-4 mr-2" /> Exportar
+              </Button>
+              <Button onClick={() => openQuestionModal(null)}>
+                <Plus className="w-4 h-4 mr-2" /> Nueva Pregunta
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <Input
+              placeholder="Buscar por enunciado o competencia..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-xs"
+            />
+            <Select value={areaFilter} onValueChange={setAreaFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas las áreas</SelectItem>
+                {ICFES_AREAS.map((area) => (
+                  <SelectItem key={area} value={area}>{ICFES_AREA_LABELS[area]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos los estados</SelectItem>
+                {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{REVIEW_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : filteredQuestions.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No hay preguntas con estos filtros</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Enunciado</TableHead>
+                  <TableHead>Área</TableHead>
+                  <TableHead>Competencia</TableHead>
+                  <TableHead>Dificultad</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredQuestions.map((question) => {
+                  const status = question.review_status as ReviewStatus;
+                  const passage = question.passage_id ? passageById.get(question.passage_id) : undefined;
+                  return (
+                    <TableRow key={question.id}>
+                      <TableCell className="max-w-md">
+                        <p className="line-clamp-2">{question.enunciado}</p>
+                        {question.formato !== "seleccion" && (
+                          <Badge variant="secondary" className="text-xs mt-1">
+                            {QUESTION_FORMAT_LABELS[question.formato as QuestionFormat] ?? question.formato}
+                          </Badge>
+                        )}
+                        {passage && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Texto: {passage.title || passage.content.slice(0, 40)}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{areaLabel(question.area)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{question.competencia || "—"}</TableCell>
+                      <TableCell>{question.dificultad}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[status] ?? "outline"}>
+                          {REVIEW_STATUS_LABELS[status] ?? question.review_status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-2">
+                          {(REVIEW_TRANSITIONS[status] ?? []).map((transition) => (
+                            <Button
+                              key={transition.to}
+                              size="sm"
+                              variant={transition.to === "active" ? "default" : "outline"}
+                              onClick={() => handleTransition(question, transition.to)}
+                            >
+                              {transition.label}
+                            </Button>
+                          ))}
+                          <Button size="sm" variant="ghost" onClick={() => openQuestionModal(question)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDeleteQuestion(question.id)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Question Modal */}
+      <Dialog open={showQuestionModal} onOpenChange={setShowQuestionModal}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingQuestion ? "Editar Pregunta" : "Nueva Pregunta"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveQuestion} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Área *</Label>
+                <Select
+                  value={questionForm.area}
+                  onValueChange={(value) => setQuestionForm((prev) => ({ ...prev, area: value, passage_id: NO_PASSAGE }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ICFES_AREAS.map((area) => (
+                      <SelectItem key={area} value={area}>{ICFES_AREA_LABELS[area]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="competencia">Competencia</Label>
+                <Input
+                  id="competencia"
+                  placeholder="Ej: Interpretación y representación"
+                  value={questionForm.competencia}
+                  onChange={(e) => setQuestionForm((prev) => ({ ...prev, competencia: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Formato</Label>
+              <Select
+                value={questionForm.formato}
+                onValueChange={(value) => setQuestionForm((prev) => ({ ...prev, formato: value, respuesta_correcta: "A" }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(QUESTION_FORMAT_LABELS) as QuestionFormat[]).map((formato) => (
+                    <SelectItem key={formato} value={formato}>{QUESTION_FORMAT_LABELS[formato]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {questionForm.formato === "completar" && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Marca los espacios en el texto compartido como [1], [2]… y usa aquí el número del espacio.
+                </p>
+              )}
+              {isMatching && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Las opciones salen de la lista del texto compartido; cada pregunta es un enunciado para emparejar.
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label>Texto compartido{questionForm.formato !== "seleccion" ? " *" : ""}</Label>
+                <Select
+                  value={questionForm.passage_id}
+                  onValueChange={(value) => setQuestionForm((prev) => ({ ...prev, passage_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PASSAGE}>Sin texto compartido</SelectItem>
+                    {formPassages.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.title || p.content.slice(0, 50)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="passage_order">
+                  {questionForm.formato === "completar" ? "Número del espacio *" : "Orden en el texto"}
+                </Label>
+                <Input
+                  id="passage_order"
+                  type="number"
+                  min={1}
+                  disabled={questionForm.passage_id === NO_PASSAGE}
+                  value={questionForm.passage_order}
+                  onChange={(e) => setQuestionForm((prev) => ({ ...prev, passage_order: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="enunciado">Enunciado *</Label>
+              <Textarea
+                id="enunciado"
+                rows={4}
+                value={questionForm.enunciado}
+                onChange={(e) => setQuestionForm((prev) => ({ ...prev, enunciado: e.target.value }))}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="imagen_url">Imagen</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="imagen_url"
+                  placeholder="https://..."
+                  value={questionForm.imagen_url}
+                  onChange={(e) => setQuestionForm((prev) => ({ ...prev, imagen_url: e.target.value }))}
+                />
+                <Button type="button" variant="outline" disabled={uploading} asChild>
+                  <label className="cursor-pointer">
+                    {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => handleImageUpload(e.target.files?.[0], "question")}
+                    />
+                  </label>
+                </Button>
+              </div>
+              {questionForm.imagen_url && (
+                <img src={questionForm.imagen_url} alt="" className="mt-2 max-h-40 rounded border" />
+              )}
+            </div>
+
+            {isMatching ? (
+              <div className="rounded-lg border p-3 text-sm space-y-1">
+                {matchingOptions.length === 0 ? (
+                  <p className="text-muted-foreground">Elige un texto compartido con opciones para emparejar.</p>
+                ) : (
+                  matchingOptions.map((option, i) => (
+                    <p key={i}>
+                      <span className="font-semibold mr-2">{ANSWER_LETTERS[i]}.</span>
+                      {option}
+                    </p>
+                  ))
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                {(["a", "b", "c", "d"] as const).map((letter) => {
+                  const required = letter !== "d" || questionForm.formato === "seleccion";
+                  return (
+                    <div key={letter}>
+                      <Label htmlFor={`opcion_${letter}`}>
+                        Opción {letter.toUpperCase()}
+                        {required ? " *" : ""}
+                      </Label>
+                      <Input
+                        id={`opcion_${letter}`}
+                        value={questionForm[`opcion_${letter}`]}
+                        onChange={(e) => setQuestionForm((prev) => ({ ...prev, [`opcion_${letter}`]: e.target.value }))}
+                        required={required}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Respuesta correcta *</Label>
+                <Select
+                  value={questionForm.respuesta_correcta}
+                  onValueChange={(value) => setQuestionForm((prev) => ({ ...prev, respuesta_correcta: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {answerLetters.map((letter) => (
+                      <SelectItem key={letter} value={letter}>{letter}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Dificultad *</Label>
+                <Select
+                  value={questionForm.dificultad}
+                  onValueChange={(value) => setQuestionForm((prev) => ({ ...prev, dificultad: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["1", "2", "3", "4", "5"].map((level) => (
+                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="explicacion">Explicación</Label>
+              <Textarea
+                id="explicacion"
+                rows={3}
+                placeholder="Por qué la respuesta correcta lo es"
+                value={questionForm.explicacion}
+                onChange={(e) => setQuestionForm((prev) => ({ ...prev, explicacion: e.target.value }))}
+              />
+            </div>
+
+            {editingQuestion && editingQuestion.review_status !== "draft" && (
+              <p className="text-sm text-muted-foreground">
+                Al guardar, la pregunta vuelve a borrador y debe revisarse de nuevo antes de publicarse.
+              </p>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setShowQuestionModal(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1" disabled={uploading}>
+                {editingQuestion ? "Actualizar" : "Crear"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Passages Modal */}
+      <Dialog open={showPassagesModal} onOpenChange={setShowPassagesModal}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Textos compartidos</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSavePassage} className="space-y-4 border rounded-lg p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Área *</Label>
+                <Select
+                  value={passageForm.area}
+                  onValueChange={(value) => setPassageForm((prev) => ({ ...prev, area: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ICFES_AREAS.map((area) => (
+                      <SelectItem key={area} value={area}>{ICFES_AREA_LABELS[area]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Tipo</Label>
+                <Select
+                  value={passageForm.kind}
+                  onValueChange={(value) => setPassageForm((prev) => ({ ...prev, kind: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STIMULUS_KIND_LABELS) as StimulusKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>{STIMULUS_KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="passage_title">Título</Label>
+              <Input
+                id="passage_title"
+                value={passageForm.title}
+                onChange={(e) => setPassageForm((prev) => ({ ...prev, title: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="passage_content">Texto *</Label>
+              <Textarea
+                id="passage_content"
+                rows={6}
+                value={passageForm.content}
+                onChange={(e) => setPassageForm((prev) => ({ ...prev, content: e.target.value }))}
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                En los diálogos escribe una intervención por línea como «Nombre: texto». Para completar, marca los
+                espacios como [1], [2]…
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="passage_options">Opciones para emparejar</Label>
+              <Textarea
+                id="passage_options"
+                rows={4}
+                placeholder="Una opción por línea (de 2 a 8, se letran A–H)"
+                value={passageForm.options}
+                onChange={(e) => setPassageForm((prev) => ({ ...prev, options: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="passage_imagen_url">Imagen</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="passage_imagen_url"
+                  placeholder="https://..."
+                  value={passageForm.imagen_url}
+                  onChange={(e) => setPassageForm((prev) => ({ ...prev, imagen_url: e.target.value }))}
+                />
+                <Button type="button" variant="outline" disabled={uploading} asChild>
+                  <label className="cursor-pointer">
+                    {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => handleImageUpload(e.target.files?.[0], "passage")}
+                    />
+                  </label>
+                </Button>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              {editingPassage && (
+                <Button type="button" variant="outline" onClick={() => openPassageForm(null)}>
+                  Cancelar edición
+                </Button>
+              )}
+              <Button type="submit" disabled={uploading}>
+                {editingPassage ? "Actualizar texto" : "Agregar texto"}
+              </Button>
+            </div>
+          </form>
+
+          {passages.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">Aún no hay textos compartidos</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Texto</TableHead>
+                  <TableHead>Área</TableHead>
+                  <TableHead>Preguntas</TableHead>
+                  <TableHead>Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {passages.map((passage) => (
+                  <TableRow key={passage.id}>
+                    <TableCell className="max-w-sm">
+                      <p className="font-medium">{passage.title || "Sin título"}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{passage.content}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{areaLabel(passage.area)}</Badge>
+                    </TableCell>
+                    <TableCell>{questions.filter((q) => q.passage_id === passage.id).length}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => openPassageForm(passage)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDeletePassage(passage.id)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Modal */}
+      <Dialog open={showImportModal} onOpenChange={setShowImportModal}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Importar preguntas</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              CSV con las columnas area, competencia, enunciado, imagen_url, formato, opcion_a, opcion_b,
+              opcion_c, opcion_d, respuesta_correcta, dificultad, explicacion y, opcionalmente, passage_key,
+              passage_kind, passage_title, passage_content, passage_options (separadas por |) y passage_order;
+              o un JSON exportado desde aquí. Las preguntas importadas quedan como borrador.
+            </p>
+            <Input type="file" accept=".csv,.json" onChange={(e) => handleImportFile(e.target.files?.[0])} />
+
+            {importPreview && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Badge>{importPreview.questions.length} preguntas válidas</Badge>
+                  <Badge variant="secondary">{importPreview.passages.length} textos compartidos</Badge>
+                  <Badge variant="outline">{importPreview.duplicates.length} duplicadas</Badge>
+                  <Badge variant={importPreview.errors.length > 0 ? "destructive" : "outline"}>
+                    {importPreview.errors.length} con errores
+                  </Badge>
+                </div>
+
+                {importPreview.errors.length > 0 && (
+                  <div className="rounded-lg border border-destructive/40 p-3 text-sm space-y-1 max-h-48 overflow-y-auto">
+                    {importPreview.errors.map((error, i) => (
+                      <p key={i}>
+                        <span className="font-medium">{error.label}:</span> {error.messages.join("; ")}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {importPreview.duplicates.length > 0 && (
+                  <div className="rounded-lg border p-3 text-sm space-y-1 max-h-32 overflow-y-auto">
+                    <p className="font-medium">Se omitirán por estar repetidas:</p>
+                    {importPreview.duplicates.map((duplicate) => (
+                      <p key={duplicate.row} className="text-muted-foreground line-clamp-1">
+                        Fila {duplicate.row}: {duplicate.enunciado}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setShowImportModal(false)}>
+                Cancelar
+              </Button>
+              <Button
+                className="flex-1"
+                disabled={!importPreview || importPreview.questions.length === 0 || importing}
+                onClick={handleConfirmImport}
+              >
+                {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Importar {importPreview?.questions.length ?? 0} preguntas
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ADMIN_TRANSITIONS,
+  REDEMPTION_STATUS_LABELS,
+  REDEMPTION_STATUS_VARIANTS,
+  TRANSITION_ACTION_LABELS,
+  redemptionStatusLabel,
+  type RedemptionStatus,
+} from "@/lib/rewardRedemptions";
+import {
+  fetchRedemptionEvents,
+  fetchRedemptionQueue,
+  updateRedemptionStatus,
+  type RedemptionEvent,
+  type RedemptionWithReward,
+} from "@/services/rewardRedemptions";
+import { coinErrorMessage } from "@/services/coins";
+import { toast } from "sonner";
+import { CheckCircle, History, Loader2 } from "lucide-react";
+
+type QueueFilter = RedemptionStatus | "open" | "all";
+
+const ACTOR_LABELS: Record<string, string> = {
+  student: "Estudiante",
+  guardian: "Acudiente",
+  admin: "Administrador",
+  system: "Sistema",
+};
+
+// Fulfillment queue: approve, ship, deliver or reject (refunding the coins), with notes and history
+export const RedemptionQueue = () => {
+  const [filter, setFilter] = useState<QueueFilter>("open");
+  const [redemptions, setRedemptions] = useState<RedemptionWithReward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [action, setAction] = useState<{ redemption: RedemptionWithReward; to: RedemptionStatus } | null>(null);
+  const [history, setHistory] = useState<RedemptionWithReward | null>(null);
+  const [events, setEvents] = useState<RedemptionEvent[] | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchQueue(filter);
+  }, [filter]);
+
+  const fetchQueue = async (status: QueueFilter) => {
+    setLoading(true);
+    try {
+      setRedemptions(await fetchRedemptionQueue(status));
+    } catch (error) {
+      console.error('Error loading redemptions:', error);
+      toast.error("Error al cargar los canjes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openHistory = async (redemption: RedemptionWithReward) => {
+    setHistory(redemption);
+    setEvents(null);
+    setNote("");
+    try {
+      setEvents(await fetchRedemptionEvents(redemption.id));
+    } catch (error) {
+      console.error('Error loading redemption history:', error);
+      setEvents([]);
+    }
+  };
+
+  const openAction = (redemption: RedemptionWithReward, to: RedemptionStatus) => {
+    setAction({ redemption, to });
+    setNote("");
+  };
+
+  const handleAction = async () => {
+    if (!action) return;
+
+    setSaving(true);
+    try {
+      await updateRedemptionStatus(action.redemption.id, action.to, note.trim());
+      toast.success(`Canje ${REDEMPTION_STATUS_LABELS[action.to].toLowerCase()}`);
+      setAction(null);
+      fetchQueue(filter);
+    } catch (error: unknown) {
+      toast.error(coinErrorMessage(error, "Error al actualizar el canje"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!history || !note.trim()) return;
+
+    setSaving(true);
+    try {
+      await updateRedemptionStatus(history.id, history.status as RedemptionStatus, note.trim());
+      setNote("");
+      setEvents(await fetchRedemptionEvents(history.id));
+    } catch (error: unknown) {
+      toast.error(coinErrorMessage(error, "Error al guardar la nota"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-primary" />
+              Canjes
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Los premios digitales se entregan solos. Rechazar un canje devuelve las monedas y el stock.
+            </CardDescription>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Por atender</SelectItem>
+              {(Object.keys(REDEMPTION_STATUS_LABELS) as RedemptionStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{REDEMPTION_STATUS_LABELS[status]}</SelectItem>
+              ))}
+              <SelectItem value="all">Todos</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : redemptions.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No hay canjes en esta vista</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Estudiante</TableHead>
+                <TableHead>Premio</TableHead>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {redemptions.map(redemption => {
+                const status = redemption.status as RedemptionStatus;
+                return (
+                  <TableRow key={redemption.id}>
+                    <TableCell>{redemption.student_profiles?.full_name || 'Desconocido'}</TableCell>
+                    <TableCell>
+                      <p>{redemption.rewards?.name || 'Desconocido'}</p>
+                      {redemption.digital_code && (
+                        <p className="text-xs text-muted-foreground font-mono">{redemption.digital_code}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(redemption.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={REDEMPTION_STATUS_VARIANTS[status] ?? "outline"}>
+                        {redemptionStatusLabel(redemption.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-2">
+                        {(ADMIN_TRANSITIONS[status] ?? []).map(to => (
+                          <Button
+                            key={to}
+                            size="sm"
+                            variant={to === "rejected" ? "outline" : "default"}
+                            onClick={() => openAction(redemption, to)}
+                          >
+                            {TRANSITION_ACTION_LABELS[to]}
+                          </Button>
+                        ))}
+                        <Button size="sm" variant="ghost" onClick={() => openHistory(redemption)}>
+                          <History className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action && TRANSITION_ACTION_LABELS[action.to]}</DialogTitle>
+            <DialogDescription>
+              {action?.redemption.rewards?.name} · {action?.redemption.student_profiles?.full_name}
+              {action?.to === "rejected" && ` · se devolverán ${action.redemption.coins_spent ?? 0} monedas`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="redemption-note">Nota {action?.to === "shipped" ? '(guía o transportadora)' : '(opcional)'}</Label>
+            <Textarea id="redemption-note" value={note} onChange={(e) => setNote(e.target.value)} rows={3} />
+          </div>
+          <div className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setAction(null)}>
+              Cancelar
+            </Button>
+            <Button className="flex-1" onClick={handleAction} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!history} onOpenChange={(open) => !open && setHistory(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historial del canje</DialogTitle>
+            <DialogDescription>
+              {history?.rewards?.name} · {history?.student_profiles?.full_name}
+            </DialogDescription>
+          </DialogHeader>
+          {!events ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {events.map(event => (
+                <div key={event.id} className="rounded-lg border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {event.from_status && event.from_status !== event.to_status
+                        ? `${redemptionStatusLabel(event.from_status)} → ${redemptionStatusLabel(event.to_status)}`
+                        : event.from_status ? 'Nota' : redemptionStatusLabel(event.to_status)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {ACTOR_LABELS[event.actor_role] ?? event.actor_role} · {new Date(event.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {event.note && <p className="text-muted-foreground mt-1">{event.note}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="history-note">Agregar nota</Label>
+            <Textarea id="history-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+            <Button size="sm" onClick={handleAddNote} disabled={saving || !note.trim()}>
+              Guardar nota
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
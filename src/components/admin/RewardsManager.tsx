@@ -4,14 +4,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Plus, Edit, Trash2, Gift, Coins, CheckCircle, Loader2 } from "lucide-react";
-import { useAuth } from "@/hooks/useAuth";
+import { Plus, Edit, Trash2, Gift, Coins, Loader2 } from "lucide-react";
+import { FULFILLMENT_LABELS, parseRewardCodes, type FulfillmentType } from "@/lib/rewardRedemptions";
+import { addRewardCodes, fetchAvailableCodeCounts } from "@/services/rewardRedemptions";
+import { CoinRulesManager } from "./CoinRulesManager";
+import { RedemptionQueue } from "./RedemptionQueue";
 
 interface Reward {
   id: string;
@@ -20,32 +24,32 @@ interface Reward {
   cost_coins: number;
   category: string;
   is_active: boolean;
+  stock: number | null;
+  max_per_student: number | null;
+  fulfillment_type: string;
+  unlock_item_key: string | null;
 }
 
-interface Redemption {
-  id: string;
-  status: string;
-  created_at: string;
-  student_id: string;
-  reward_id: string;
-  rewards: { name: string; cost_coins: number } | null;
-  student_profiles: { full_name: string } | null;
-}
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  cost_coins: "",
+  category: "Digital",
+  is_active: true,
+  stock: "",
+  max_per_student: "",
+  fulfillment_type: "manual" as FulfillmentType,
+  unlock_item_key: "",
+  codes: ""
+};
 
 export const RewardsManager = () => {
-  const { user } = useAuth();
   const [rewards, setRewards] = useState<Reward[]>([]);
-  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [codeCounts, setCodeCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingReward, setEditingReward] = useState<Reward | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    description: "",
-    cost_coins: "",
-    category: "Digital",
-    is_active: true
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   useEffect(() => {
     fetchData();
@@ -54,21 +58,13 @@ export const RewardsManager = () => {
   const fetchData = async () => {
     setLoading(true);
     
-    const [rewardsRes, redemptionsRes] = await Promise.all([
+    const [rewardsRes, counts] = await Promise.all([
       supabase.from('rewards').select('*').order('name'),
-      supabase.from('reward_redemptions')
-        .select(`
-          id, status, created_at, student_id, reward_id,
-          rewards (name, cost_coins),
-          student_profiles!reward_redemptions_student_id_fkey (full_name)
-        `)
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false })
-        .limit(20)
+      fetchAvailableCodeCounts().catch(() => ({}))
     ]);
 
     setRewards(rewardsRes.data || []);
-    setRedemptions((redemptionsRes.data as unknown as Redemption[]) || []);
+    setCodeCounts(counts);
     setLoading(false);
   };
 
@@ -81,9 +77,14 @@ export const RewardsManager = () => {
         description: formData.description || null,
         cost_coins: parseInt(formData.cost_coins),
         category: formData.category,
-        is_active: formData.is_active
+        is_active: formData.is_active,
+        stock: formData.stock === "" ? null : parseInt(formData.stock),
+        max_per_student: formData.max_per_student === "" ? null : parseInt(formData.max_per_student),
+        fulfillment_type: formData.fulfillment_type,
+        unlock_item_key: formData.fulfillment_type === "unlock_item" ? formData.unlock_item_key.trim() || null : null
       };
 
+      let rewardId = editingReward?.id;
       if (editingReward) {
         const { error } = await supabase
           .from('rewards')
@@ -92,16 +93,23 @@ export const RewardsManager = () => {
         if (error) throw error;
         toast.success("Premio actualizado");
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('rewards')
-          .insert(rewardData);
+          .insert(rewardData)
+          .select('id')
+          .single();
         if (error) throw error;
+        rewardId = data.id;
         toast.success("Premio creado");
       }
 
+      if (formData.fulfillment_type === "digital_code" && rewardId) {
+        await addRewardCodes(rewardId, parseRewardCodes(formData.codes));
+      }
+
       setShowModal(false);
       setEditingReward(null);
-      setFormData({ name: "", description: "", cost_coins: "", category: "Digital", is_active: true });
+      setFormData(EMPTY_FORM);
       fetchData();
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Error al guardar";
@@ -121,26 +129,6 @@ export const RewardsManager = () => {
     }
   };
 
-  const handleDeliverRedemption = async (redemption: Redemption) => {
-    if (!user) return;
-
-    const { error } = await supabase
-      .from('reward_redemptions')
-      .update({
-        status: 'delivered',
-        delivered_at: new Date().toISOString(),
-        delivered_by_admin_id: user.id
-      })
-      .eq('id', redemption.id);
-
-    if (error) {
-      toast.error("Error al marcar como entregado");
-    } else {
-      toast.success("Premio marcado como entregado");
-      fetchData();
-    }
-  };
-
   const openEditModal = (reward: Reward) => {
     setEditingReward(reward);
     setFormData({
@@ -148,7 +136,12 @@ export const RewardsManager = () => {
       description: reward.description || "",
       cost_coins: reward.cost_coins.toString(),
       category: reward.category,
-      is_active: reward.is_active
+      is_active: reward.is_active,
+      stock: reward.stock?.toString() ?? "",
+      max_per_student: reward.max_per_student?.toString() ?? "",
+      fulfillment_type: reward.fulfillment_type as FulfillmentType,
+      unlock_item_key: reward.unlock_item_key ?? "",
+      codes: ""
     });
     setShowModal(true);
   };
@@ -165,7 +158,7 @@ export const RewardsManager = () => {
             </CardTitle>
             <Button onClick={() => {
               setEditingReward(null);
-              setFormData({ name: "", description: "", cost_coins: "", category: "Digital", is_active: true });
+              setFormData(EMPTY_FORM);
               setShowModal(true);
             }}>
               <Plus className="w-4 h-4 mr-2" /> Nuevo Premio
@@ -183,7 +176,9 @@ export const RewardsManager = () => {
                 <TableRow>
                   <TableHead>Nombre</TableHead>
                   <TableHead>Categoría</TableHead>
+                  <TableHead>Entrega</TableHead>
                   <TableHead>Costo</TableHead>
+                  <TableHead>Stock</TableHead>
                   <TableHead>Estado</TableHead>
                   <TableHead>Acciones</TableHead>
                 </TableRow>
@@ -195,12 +190,24 @@ export const RewardsManager = () => {
                     <TableCell>
                       <Badge variant="outline">{reward.category}</Badge>
                     </TableCell>
+                    <TableCell>
+                      {FULFILLMENT_LABELS[reward.fulfillment_type as FulfillmentType] ?? reward.fulfillment_type}
+                      {reward.fulfillment_type === "digital_code" && (
+                        <span className="text-xs text-muted-foreground"> · {codeCounts[reward.id] ?? 0} códigos</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <span className="flex items-center gap-1 text-gold">
                         <Coins className="w-3 h-3" />
                         {reward.cost_coins}
                       </span>
                     </TableCell>
+                    <TableCell>
+                      {reward.stock ?? '∞'}
+                      {reward.max_per_student !== null && (
+                        <span className="text-xs text-muted-foreground"> · máx. {reward.max_per_student}/estudiante</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <Badge variant={reward.is_active ? "default" : "secondary"}>
                         {reward.is_active ? "Activo" : "Inactivo"}
@@ -224,45 +231,9 @@ export const RewardsManager = () => {
         </CardContent>
       </Card>
 
-      {/* Pending Redemptions */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <CheckCircle className="w-5 h-5 text-primary" />
-            Canjes Pendientes
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {redemptions.length === 0 ? (
-            <p className="text-muted-foreground text-center py-4">No hay canjes pendientes</p>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Estudiante</TableHead>
-                  <TableHead>Premio</TableHead>
-                  <TableHead>Fecha</TableHead>
-                  <TableHead>Acción</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {redemptions.map(redemption => (
-                  <TableRow key={redemption.id}>
-                    <TableCell>{redemption.student_profiles?.full_name || 'Desconocido'}</TableCell>
-                    <TableCell>{redemption.rewards?.name || 'Desconocido'}</TableCell>
-                    <TableCell>{new Date(redemption.created_at).toLocaleDateString()}</TableCell>
-                    <TableCell>
-                      <Button size="sm" onClick={() => handleDeliverRedemption(redemption)}>
-                        <CheckCircle className="w-4 h-4 mr-1" /> Entregar
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+      <CoinRulesManager />
+
+      <RedemptionQueue />
 
       {/* Create/Edit Modal */}
       <Dialog open={showModal} onOpenChange={setShowModal}>
@@ -317,6 +288,73 @@ export const RewardsManager = () => {
                 </Select>
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="stock">Stock</Label>
+                <Input
+                  id="stock"
+                  type="number"
+                  min={0}
+                  value={formData.stock}
+                  onChange={(e) => setFormData(prev => ({ ...prev, stock: e.target.value }))}
+                  placeholder="Ilimitado"
+                />
+              </div>
+              <div>
+                <Label htmlFor="max_per_student">Máximo por estudiante</Label>
+                <Input
+                  id="max_per_student"
+                  type="number"
+                  min={1}
+                  value={formData.max_per_student}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_per_student: e.target.value }))}
+                  placeholder="Sin límite"
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Entrega</Label>
+              <Select
+                value={formData.fulfillment_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, fulfillment_type: value as FulfillmentType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FULFILLMENT_LABELS) as FulfillmentType[]).map(type => (
+                    <SelectItem key={type} value={type}>{FULFILLMENT_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.fulfillment_type === "unlock_item" && (
+              <div>
+                <Label htmlFor="unlock_item_key">Ítem a desbloquear *</Label>
+                <Input
+                  id="unlock_item_key"
+                  value={formData.unlock_item_key}
+                  onChange={(e) => setFormData(prev => ({ ...prev, unlock_item_key: e.target.value }))}
+                  placeholder="avatar_sombrero_dorado"
+                  required
+                />
+              </div>
+            )}
+            {formData.fulfillment_type === "digital_code" && (
+              <div>
+                <Label htmlFor="codes">
+                  Agregar códigos
+                  {editingReward && ` (${codeCounts[editingReward.id] ?? 0} disponibles)`}
+                </Label>
+                <Textarea
+                  id="codes"
+                  value={formData.codes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, codes: e.target.value }))}
+                  placeholder="Un código por línea"
+                  rows={4}
+                />
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <Switch
                 checked={formData.is_active}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { NICKNAME_PATTERN } from "@/lib/arena";
+import { arenaErrorMessage, saveArenaProfile, type ArenaProfile } from "@/services/arena";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface ArenaPrivacyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId: string;
+  profile: ArenaProfile | null;
+  hiddenByGuardian: boolean;
+  onSaved: () => void;
+}
+
+// Nickname and visibility in the rankings; a guardian can hide the student regardless
+export function ArenaPrivacyDialog({
+  open,
+  onOpenChange,
+  studentId,
+  profile,
+  hiddenByGuardian,
+  onSaved,
+}: ArenaPrivacyDialogProps) {
+  const [nickname, setNickname] = useState("");
+  const [hidden, setHidden] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setNickname(profile?.nickname ?? "");
+    setHidden(profile?.hide_from_leaderboards ?? false);
+  }, [open, profile]);
+
+  const trimmed = nickname.trim();
+  const nicknameValid = trimmed === "" || NICKNAME_PATTERN.test(trimmed);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nicknameValid) return;
+
+    setSaving(true);
+    try {
+      await saveArenaProfile(studentId, { nickname: trimmed || null, hide_from_leaderboards: hidden });
+      toast.success("Preferencias guardadas");
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(arenaErrorMessage(error, "No se pudieron guardar las preferencias"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Privacidad en la Arena</DialogTitle>
+          <DialogDescription>
+            Sin apodo, los demás solo ven tu primer nombre y la inicial de tu apellido.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="arena-nickname">Apodo</Label>
+            <Input
+              id="arena-nickname"
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              placeholder="Ej. Cometa_Azul"
+              maxLength={20}
+            />
+            {!nicknameValid && (
+              <p className="text-xs text-destructive mt-1">Usa entre 3 y 20 letras, números, espacios o guiones bajos</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="arena-hidden" checked={hidden} onCheckedChange={setHidden} />
+            <Label htmlFor="arena-hidden">No aparecer en los rankings</Label>
+          </div>
+          {hiddenByGuardian && (
+            <p className="text-sm text-muted-foreground">
+              Tu acudiente eligió que no aparezcas en los rankings. Puedes seguir jugando desafíos.
+            </p>
+          )}
+          <div className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="flex-1" disabled={saving || !nicknameValid}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Guardar
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
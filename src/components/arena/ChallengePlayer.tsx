@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { challengePhase } from "@/lib/arena";
+import {
+  arenaErrorMessage,
+  fetchChallengeQuestions,
+  fetchChallengeStandings,
+  submitChallengeAnswer,
+  type ArenaChallenge,
+  type ChallengeQuestion,
+  type ChallengeStanding,
+} from "@/services/arena";
+import { toast } from "sonner";
+import { Check, Coins, Loader2, Trophy, X } from "lucide-react";
+
+interface ChallengePlayerProps {
+  challenge: ArenaChallenge | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Answered = Record<string, { answer: string; is_correct: boolean }>;
+
+function Standings({ challengeId }: { challengeId: string }) {
+  const [rows, setRows] = useState<ChallengeStanding[] | null>(null);
+
+  useEffect(() => {
+    fetchChallengeStandings(challengeId)
+      .then(setRows)
+      .catch((error) => {
+        console.error("Error loading challenge standings:", error);
+        setRows([]);
+      });
+  }, [challengeId]);
+
+  if (!rows) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div
+          key={`${row.place}-${row.display_name}`}
+          className={`flex items-center justify-between rounded-lg p-2 text-sm ${
+            row.is_self ? "bg-primary/10 border border-primary/20" : "bg-muted/50"
+          }`}
+        >
+          <span>
+            <span className="font-bold mr-2">#{row.place}</span>
+            {row.display_name}
+          </span>
+          <span className="flex items-center gap-3 text-muted-foreground">
+            {row.correct_count}/{row.answered_count} correctas
+            {row.prize_coins > 0 && (
+              <span className="flex items-center gap-1 text-gold font-medium">
+                <Coins className="w-3 h-3" />
+                {row.prize_coins}
+              </span>
+            )}
+          </span>
+        </div>
+      ))}
+      {rows.length === 0 && <p className="text-sm text-muted-foreground">Aún no hay participantes</p>}
+    </div>
+  );
+}
+
+// Plays a challenge one question at a time; the server grades each answer as it is sent
+export function ChallengePlayer({ challenge, onOpenChange }: ChallengePlayerProps) {
+  const [questions, setQuestions] = useState<ChallengeQuestion[] | null>(null);
+  const [answered, setAnswered] = useState<Answered>({});
+  const [current, setCurrent] = useState(0);
+  const [sending, setSending] = useState(false);
+
+  const isOpen = !!challenge && challengePhase(challenge) === "open";
+
+  useEffect(() => {
+    if (!challenge) return;
+    setQuestions(null);
+    fetchChallengeQuestions(challenge.id)
+      .then(({ questions, answered }) => {
+        setQuestions(questions);
+        setAnswered(answered);
+        const next = questions.findIndex((q) => !answered[q.id]);
+        setCurrent(next === -1 ? questions.length : next);
+      })
+      .catch((error) => {
+        console.error("Error loading challenge questions:", error);
+        toast.error("No se pudo cargar el desafío");
+        setQuestions([]);
+      });
+  }, [challenge]);
+
+  const question = questions?.[current];
+  const result = question ? answered[question.id] : undefined;
+  const finished = !!questions && current >= questions.length;
+  const correct = Object.values(answered).filter((a) => a.is_correct).length;
+
+  const handleAnswer = async (letter: string) => {
+    if (!challenge || !question || result) return;
+    setSending(true);
+    try {
+      const response = await submitChallengeAnswer(challenge.id, question.id, letter);
+      setAnswered((prev) => ({
+        ...prev,
+        [question.id]: { answer: letter, is_correct: response.is_correct },
+      }));
+    } catch (error) {
+      toast.error(arenaErrorMessage(error, "No se pudo enviar la respuesta"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!challenge} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{challenge?.title}</DialogTitle>
+          <DialogDescription>
+            Los {challenge?.winner_count} mejores ganan {challenge?.prize_coins} monedas cada uno. En empate gana quien
+            termine primero.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!questions ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : finished || !isOpen ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 rounded-lg bg-gold/10 p-4">
+              <Trophy className="w-6 h-6 text-gold" />
+              <div>
+                <p className="font-medium">
+                  {correct} de {questions.length} correctas
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {isOpen ? "Los premios se entregan cuando termine el desafío." : "El desafío terminó."}
+                </p>
+              </div>
+            </div>
+            {challenge && <Standings challengeId={challenge.id} />}
+          </div>
+        ) : question ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Progress value={(current / questions.length) * 100} className="flex-1" />
+              <Badge variant="outline">
+                {current + 1}/{questions.length}
+              </Badge>
+            </div>
+            <p className="whitespace-pre-wrap text-foreground">{question.enunciado}</p>
+            {question.imagen_url && (
+              <img src={question.imagen_url} alt="" className="max-h-64 rounded-lg border mx-auto" />
+            )}
+            <div className="space-y-2">
+              {question.options.map((option) => {
+                const chosen = result?.answer === option.letter;
+                const isRight = chosen && result?.is_correct;
+                return (
+                  <Button
+                    key={option.letter}
+                    variant="outline"
+                    className={`w-full justify-start h-auto whitespace-normal text-left py-3 ${
+                      isRight ? "border-accent bg-accent/10" : chosen ? "border-destructive bg-destructive/10" : ""
+                    }`}
+                    disabled={sending || !!result}
+                    onClick={() => handleAnswer(option.letter)}
+                  >
+                    <span className="font-bold mr-3">{option.letter}.</span>
+                    {option.text}
+                    {isRight && <Check className="w-4 h-4 ml-auto text-accent shrink-0" />}
+                    {chosen && !result?.is_correct && <X className="w-4 h-4 ml-auto text-destructive shrink-0" />}
+                  </Button>
+                );
+              })}
+            </div>
+            {result && (
+              <div className="flex justify-end">
+                <Button onClick={() => setCurrent((i) => i + 1)}>
+                  {current + 1 < questions.length ? "Siguiente" : "Ver resultados"}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CHALLENGE_DIFFICULTY_LABELS,
+  DUEL_SOURCE_LABELS,
+  type ChallengeDifficulty,
+  type DuelSource,
+} from "@/lib/arena";
+import { ICFES_AREAS, ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+import { arenaErrorMessage } from "@/services/arena";
+import { createDuel, fetchDuelDecks } from "@/services/arenaDuels";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface DuelCreateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId: string;
+  onCreated: (duelId: string) => void;
+}
+
+const emptyForm = () => ({
+  source: "icfes" as DuelSource,
+  area: "matematicas" as IcfesArea,
+  difficulty: "medio" as ChallengeDifficulty,
+  deck_id: "",
+  question_count: "5",
+  seconds_per_question: "20",
+  max_players: "2",
+});
+
+// Sets up a duel in the lobby; friends join with the code it gets
+export function DuelCreateDialog({ open, onOpenChange, studentId, onCreated }: DuelCreateDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [decks, setDecks] = useState<Array<{ id: string; title: string }>>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(emptyForm());
+    fetchDuelDecks(studentId)
+      .then(setDecks)
+      .catch((error) => console.error("Error loading decks:", error));
+  }, [open, studentId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.source === "flashcards" && !formData.deck_id) {
+      toast.error("Elige un mazo");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { id } = await createDuel({
+        source: formData.source,
+        area: formData.source === "icfes" ? formData.area : null,
+        difficulty: formData.difficulty,
+        deck_id: formData.source === "flashcards" ? formData.deck_id : null,
+        question_count: parseInt(formData.question_count),
+        seconds_per_question: parseInt(formData.seconds_per_question),
+        max_players: parseInt(formData.max_players),
+      });
+      onOpenChange(false);
+      onCreated(id);
+    } catch (error) {
+      toast.error(arenaErrorMessage(error, "No se pudo crear el duelo"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Nuevo duelo</DialogTitle>
+          <DialogDescription>
+            Todos responden las mismas preguntas al mismo tiempo. Acertar rápido da más puntos.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div>
+            <Label>Preguntas de</Label>
+            <Select
+              value={formData.source}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, source: value as DuelSource }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DUEL_SOURCE_LABELS) as DuelSource[]).map(source => (
+                  <SelectItem key={source} value={source}>{DUEL_SOURCE_LABELS[source]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {formData.source === "icfes" ? (
+              <div>
+                <Label>Área</Label>
+                <Select
+                  value={formData.area}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, area: value as IcfesArea }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ICFES_AREAS.map(area => (
+                      <SelectItem key={area} value={area}>{ICFES_AREA_LABELS[area]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label>Mazo</Label>
+                <Select
+                  value={formData.deck_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, deck_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={decks.length === 0 ? "No tienes mazos" : "Elige un mazo"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {decks.map(deck => (
+                      <SelectItem key={deck.id} value={deck.id}>{deck.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Dificultad</Label>
+              <Select
+                value={formData.difficulty}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, difficulty: value as ChallengeDifficulty }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHALLENGE_DIFFICULTY_LABELS) as ChallengeDifficulty[]).map(difficulty => (
+                    <SelectItem key={difficulty} value={difficulty}>{CHALLENGE_DIFFICULTY_LABELS[difficulty]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {formData.source === "flashcards" && (
+            <p className="text-xs text-muted-foreground">
+              Las opciones salen de otras tarjetas del mazo, así que necesita al menos cuatro respuestas distintas.
+              La dificultad sigue cómo te ha ido a ti con cada tarjeta.
+            </p>
+          )}
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="duel-questions">Preguntas</Label>
+              <Input
+                id="duel-questions"
+                type="number"
+                min={3}
+                max={20}
+                value={formData.question_count}
+                onChange={(e) => setFormData(prev => ({ ...prev, question_count: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="duel-seconds">Segundos</Label>
+              <Input
+                id="duel-seconds"
+                type="number"
+                min={10}
+                max={60}
+                value={formData.seconds_per_question}
+                onChange={(e) => setFormData(prev => ({ ...prev, seconds_per_question: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="duel-players">Jugadores</Label>
+              <Input
+                id="duel-players"
+                type="number"
+                min={2}
+                max={6}
+                value={formData.max_players}
+                onChange={(e) => setFormData(prev => ({ ...prev, max_players: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+          <div className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="flex-1" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Crear duelo
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
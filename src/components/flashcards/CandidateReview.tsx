@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlashcardContent } from "./FlashcardContent";
+import { CANDIDATE_KIND_LABELS, type CandidateKind } from "@/lib/flashcardCandidates";
+import {
+  acceptCandidate,
+  dismissCandidate,
+  type FlashcardCandidate,
+  type FlashcardDeck,
+} from "@/services/flashcards";
+import { toast } from "sonner";
+import { Check, Loader2, X } from "lucide-react";
+
+interface CandidateReviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  candidates: FlashcardCandidate[];
+  decks: FlashcardDeck[];
+  onChanged: () => void;
+}
+
+function CandidateItem({
+  candidate,
+  decks,
+  onDone,
+}: {
+  candidate: FlashcardCandidate;
+  decks: FlashcardDeck[];
+  onDone: () => void;
+}) {
+  const [front, setFront] = useState(candidate.front);
+  const [back, setBack] = useState(candidate.back);
+  const [deckId, setDeckId] = useState(decks[0]?.id ?? "");
+  const [busy, setBusy] = useState<"accept" | "dismiss" | null>(null);
+
+  const handleAccept = async () => {
+    if (!deckId || !front.trim() || !back.trim()) return;
+    setBusy("accept");
+    try {
+      await acceptCandidate(candidate, deckId, { front: front.trim(), back: back.trim() });
+      toast.success("Tarjeta agregada al deck");
+      onDone();
+    } catch (error) {
+      console.error("Error accepting flashcard candidate:", error);
+      toast.error("No se pudo agregar la tarjeta");
+      setBusy(null);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setBusy("dismiss");
+    try {
+      await dismissCandidate(candidate.id);
+      onDone();
+    } catch (error) {
+      console.error("Error dismissing flashcard candidate:", error);
+      toast.error("No se pudo descartar la sugerencia");
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="secondary">{CANDIDATE_KIND_LABELS[candidate.kind as CandidateKind] ?? candidate.kind}</Badge>
+        <Badge variant="outline" className="truncate max-w-full">
+          {candidate.source_label}
+        </Badge>
+      </div>
+      <div className="space-y-2">
+        <Label>Frente</Label>
+        <Textarea value={front} onChange={(e) => setFront(e.target.value)} rows={2} />
+      </div>
+      <div className="space-y-2">
+        <Label>Reverso</Label>
+        <Textarea value={back} onChange={(e) => setBack(e.target.value)} rows={2} />
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="rounded-md bg-muted p-3">
+          <FlashcardContent text={front} />
+        </div>
+        <div className="rounded-md bg-muted p-3">
+          <FlashcardContent text={back} />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Select value={deckId} onValueChange={setDeckId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Elige un deck" />
+          </SelectTrigger>
+          <SelectContent>
+            {decks.map((deck) => (
+              <SelectItem key={deck.id} value={deck.id}>
+                {deck.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" onClick={handleDismiss} disabled={!!busy}>
+          {busy === "dismiss" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <X className="w-4 h-4 mr-2" />}
+          Descartar
+        </Button>
+        <Button onClick={handleAccept} disabled={!!busy || !deckId || !front.trim() || !back.trim()}>
+          {busy === "accept" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+          Agregar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Suggested cards waiting for the student: edit, pick a deck and accept, or dismiss
+export function CandidateReview({ open, onOpenChange, candidates, decks, onChanged }: CandidateReviewProps) {
+  const [handled, setHandled] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setHandled(new Set());
+  }, [candidates]);
+
+  const pending = candidates.filter((c) => !handled.has(c.id));
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next && handled.size > 0) onChanged();
+      }}
+    >
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Sugerencias de tarjetas</SheetTitle>
+          <SheetDescription>
+            Creadas a partir de tus tutorías, tus errores en ICFES y tus informes. Revísalas antes de agregarlas.
+          </SheetDescription>
+        </SheetHeader>
+
+        {decks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Crea un deck primero para poder agregar sugerencias.</p>
+        ) : pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tienes sugerencias pendientes.</p>
+        ) : (
+          <div className="space-y-4">
+            {pending.map((candidate) => (
+              <CandidateItem
+                key={candidate.id}
+                candidate={candidate}
+                decks={decks}
+                onDone={() => setHandled((prev) => new Set(prev).add(candidate.id))}
+              />
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
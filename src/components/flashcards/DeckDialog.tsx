@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createDeck, type DeckColor, type FlashcardDeck } from "@/services/flashcards";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const COLOR_LABELS: Record<DeckColor, string> = {
+  primary: "Azul",
+  accent: "Turquesa",
+  gold: "Dorado",
+};
+
+interface DeckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId: string;
+  onCreated: (deck: FlashcardDeck) => void;
+}
+
+export const DeckDialog = ({ open, onOpenChange, studentId, onCreated }: DeckDialogProps) => {
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [color, setColor] = useState<DeckColor>("primary");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    setSaving(true);
+
+    try {
+      const deck = await createDeck(studentId, {
+        title: title.trim(),
+        description: description.trim() || null,
+        color,
+      });
+      toast.success("Deck creado");
+      setTitle("");
+      setDescription("");
+      setColor("primary");
+      onCreated(deck);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating deck:", error);
+      toast.error("No se pudo crear el deck");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Crear deck</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="deck-title">Nombre</Label>
+            <Input
+              id="deck-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Ej: Derivadas"
+              maxLength={120}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deck-description">Descripción</Label>
+            <Textarea
+              id="deck-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Opcional"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <Select value={color} onValueChange={(value) => setColor(value as DeckColor)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COLOR_LABELS) as DeckColor[]).map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {COLOR_LABELS[c]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving || !title.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Crear
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
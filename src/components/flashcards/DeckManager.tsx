@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FlashcardContent } from "./FlashcardContent";
+import { isMastered, isNewCard } from "@/lib/flashcardScheduler";
+import {
+  deleteCard,
+  deleteDeck,
+  saveCard,
+  uploadFlashcardImage,
+  type CardDraft,
+  type DeckSummary,
+  type Flashcard,
+} from "@/services/flashcards";
+import { toast } from "sonner";
+import { ImagePlus, Loader2, Pencil, Trash2, X } from "lucide-react";
+
+interface DeckManagerProps {
+  deck: DeckSummary | null;
+  cards: Flashcard[];
+  studentId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const EMPTY_DRAFT: CardDraft = { front: "", back: "", front_image_url: null, back_image_url: null };
+
+function SideEditor({
+  label,
+  text,
+  imageUrl,
+  uploading,
+  onText,
+  onImage,
+  onRemoveImage,
+}: {
+  label: string;
+  text: string;
+  imageUrl: string | null;
+  uploading: boolean;
+  onText: (text: string) => void;
+  onImage: (file: File) => void;
+  onRemoveImage: () => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <label className="inline-flex items-center gap-1 text-xs text-primary cursor-pointer">
+          {uploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <ImagePlus className="w-3 h-3" />}
+          Imagen
+          <Input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            disabled={uploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImage(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <Textarea value={text} onChange={(e) => onText(e.target.value)} rows={3} placeholder="Usa $x^2$ para fórmulas" />
+      {imageUrl && (
+        <div className="relative inline-block">
+          <img src={imageUrl} alt="" className="max-h-24 rounded" />
+          <Button
+            type="button"
+            size="icon"
+            variant="secondary"
+            className="absolute -top-2 -right-2 h-6 w-6"
+            onClick={onRemoveImage}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Cards of one deck: add, edit with a live preview, delete; and deleting the deck itself
+export function DeckManager({ deck, cards, studentId, onClose, onChanged }: DeckManagerProps) {
+  const [draft, setDraft] = useState<CardDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState<"front" | "back" | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const deckCards = deck ? cards.filter((c) => c.deck_id === deck.id) : [];
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleImage = async (side: "front" | "back", file: File) => {
+    setUploading(side);
+    try {
+      const url = await uploadFlashcardImage(studentId, file);
+      setDraft((prev) => ({ ...prev, [`${side}_image_url`]: url }));
+    } catch (error) {
+      console.error("Error uploading flashcard image:", error);
+      toast.error("No se pudo subir la imagen");
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deck || !draft.front.trim() || !draft.back.trim()) return;
+    setSaving(true);
+    try {
+      await saveCard(studentId, deck.id, { ...draft, front: draft.front.trim(), back: draft.back.trim() }, editingId ?? undefined);
+      toast.success(editingId ? "Tarjeta actualizada" : "Tarjeta agregada");
+      resetDraft();
+      onChanged();
+    } catch (error) {
+      console.error("Error saving flashcard:", error);
+      toast.error("No se pudo guardar la tarjeta");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteCard = async (card: Flashcard) => {
+    if (!confirm("¿Eliminar esta tarjeta y su historial de repaso?")) return;
+    try {
+      await deleteCard(card.id);
+      if (editingId === card.id) resetDraft();
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting flashcard:", error);
+      toast.error("No se pudo eliminar la tarjeta");
+    }
+  };
+
+  const handleDeleteDeck = async () => {
+    if (!deck || !confirm(`¿Eliminar el deck "${deck.title}" con sus ${deck.total} tarjetas?`)) return;
+    try {
+      await deleteDeck(deck.id);
+      toast.success("Deck eliminado");
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error("Error deleting deck:", error);
+      toast.error("No se pudo eliminar el deck");
+    }
+  };
+
+  return (
+    <Sheet
+      open={!!deck}
+      onOpenChange={(open) => {
+        if (!open) {
+          resetDraft();
+          onClose();
+        }
+      }}
+    >
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>{deck?.title}</SheetTitle>
+          {deck?.description && <SheetDescription>{deck.description}</SheetDescription>}
+        </SheetHeader>
+
+        <form onSubmit={handleSave} className="space-y-4 rounded-lg border p-4">
+          <p className="font-medium">{editingId ? "Editar tarjeta" : "Nueva tarjeta"}</p>
+          <SideEditor
+            label="Frente"
+            text={draft.front}
+            imageUrl={draft.front_image_url}
+            uploading={uploading === "front"}
+            onText={(front) => setDraft((prev) => ({ ...prev, front }))}
+            onImage={(file) => handleImage("front", file)}
+            onRemoveImage={() => setDraft((prev) => ({ ...prev, front_image_url: null }))}
+          />
+          <SideEditor
+            label="Reverso"
+            text={draft.back}
+            imageUrl={draft.back_image_url}
+            uploading={uploading === "back"}
+            onText={(back) => setDraft((prev) => ({ ...prev, back }))}
+            onImage={(file) => handleImage("back", file)}
+            onRemoveImage={() => setDraft((prev) => ({ ...prev, back_image_url: null }))}
+          />
+          {(draft.front || draft.back) && (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="rounded-md bg-muted p-3">
+                <FlashcardContent text={draft.front} />
+              </div>
+              <div className="rounded-md bg-muted p-3">
+                <FlashcardContent text={draft.back} />
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="ghost" onClick={resetDraft}>
+                Cancelar
+              </Button>
+            )}
+            <Button type="submit" disabled={saving || !!uploading || !draft.front.trim() || !draft.back.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingId ? "Guardar" : "Agregar"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="mt-6 space-y-2">
+          <p className="text-sm text-muted-foreground">{deckCards.length} tarjetas</p>
+          {deckCards.map((card) => (
+            <div key={card.id} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <FlashcardContent text={card.front} />
+                {card.source_label && <p className="mt-1 text-xs text-muted-foreground">{card.source_label}</p>}
+              </div>
+              <Badge variant="outline" className="shrink-0">
+                {isNewCard(card) ? "Nueva" : isMastered(card) ? "Dominada" : `${card.interval_days} d`}
+              </Badge>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 shrink-0"
+                onClick={() => {
+                  setEditingId(card.id);
+                  setDraft({
+                    front: card.front,
+                    back: card.back,
+                    front_image_url: card.front_image_url,
+                    back_image_url: card.back_image_url,
+                  });
+                }}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => handleDeleteCard(card)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" className="mt-6 w-full text-destructive" onClick={handleDeleteDeck}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Eliminar deck
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import "katex/dist/katex.min.css";
+import { renderDelimitedMathHtml } from "@/lib/mathText";
+
+interface FlashcardContentProps {
+  text: string;
+  imageUrl?: string | null;
+  className?: string;
+}
+
+// One side of a card: text with $...$ formulas typeset by KaTeX, and an optional image
+export function FlashcardContent({ text, imageUrl, className }: FlashcardContentProps) {
+  const html = useMemo(() => renderDelimitedMathHtml(text), [text]);
+
+  return (
+    <div className={`space-y-3 ${className ?? ""}`}>
+      {imageUrl && <img src={imageUrl} alt="" className="max-h-48 mx-auto rounded-lg" loading="lazy" />}
+      <div className="leading-relaxed" dangerouslySetInnerHTML={{ __html: html }} />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { FlashcardContent } from "./FlashcardContent";
+import { REVIEW_GRADES, formatInterval, type ReviewGrade } from "@/lib/flashcardScheduler";
+import { gradeCard, type Flashcard } from "@/services/flashcards";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, Loader2, RotateCcw } from "lucide-react";
+
+interface ReviewSessionProps {
+  title: string;
+  queue: Flashcard[];
+  onExit: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  0: "border-red-300 text-red-600 hover:bg-red-50",
+  1: "border-orange-300 text-orange-600 hover:bg-orange-50",
+  2: "border-green-300 text-green-600 hover:bg-green-50",
+  3: "border-primary/40 text-primary hover:bg-primary/5",
+};
+
+// Runs through a queue: show the front, flip, grade. Cards graded "otra vez" go back
+// to the end of the queue so they are seen again before the session ends.
+export function ReviewSession({ title, queue: initialQueue, onExit }: ReviewSessionProps) {
+  const [queue, setQueue] = useState(initialQueue);
+  const [position, setPosition] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [graded, setGraded] = useState(0);
+  const [again, setAgain] = useState(0);
+
+  const card = queue[position];
+  const done = !card;
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!card || saving) return;
+    setSaving(true);
+    try {
+      const updated = await gradeCard(card, grade);
+      setGraded((n) => n + 1);
+      if (grade === 0) {
+        setAgain((n) => n + 1);
+        setQueue((prev) => [...prev, updated]);
+      }
+      setPosition((p) => p + 1);
+      setFlipped(false);
+    } catch (error) {
+      console.error("Error grading flashcard:", error);
+      toast.error("No se pudo guardar el repaso. Intenta de nuevo.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onExit}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Salir
+        </Button>
+        <p className="text-sm text-muted-foreground">
+          {title} · {Math.min(position + 1, queue.length)} / {queue.length}
+        </p>
+      </div>
+      <Progress value={queue.length > 0 ? (position / queue.length) * 100 : 100} className="h-2" />
+
+      {done ? (
+        <Card>
+          <CardContent className="p-8 text-center space-y-4">
+            <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto" />
+            <h2 className="text-xl font-bold text-foreground">¡Repaso completado!</h2>
+            <p className="text-muted-foreground">
+              Repasaste {graded} tarjetas{again > 0 ? ` y volviste a ver ${again} que te costaron` : ""}.
+            </p>
+            <Button onClick={onExit}>Volver a mis decks</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card className="min-h-[280px]">
+            <CardContent className="p-8 flex flex-col justify-center min-h-[280px] text-center text-lg">
+              <FlashcardContent text={card.front} imageUrl={card.front_image_url} />
+              {flipped && (
+                <>
+                  <hr className="my-6 border-border" />
+                  <FlashcardContent text={card.back} imageUrl={card.back_image_url} />
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {flipped ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {REVIEW_GRADES.map(({ grade, label }) => (
+                <Button
+                  key={grade}
+                  variant="outline"
+                  className={`h-auto py-3 flex flex-col ${GRADE_STYLES[grade]}`}
+                  disabled={saving}
+                  onClick={() => handleGrade(grade)}
+                >
+                  <span className="font-medium">{label}</span>
+                  <span className="text-xs opacity-75">{formatInterval(card, grade)}</span>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Button className="w-full" size="lg" onClick={() => setFlipped(true)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Mostrar respuesta
+            </Button>
+          )}
+          {saving && (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Guardando…
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { REDEMPTION_STATUS_VARIANTS, redemptionStatusLabel, type RedemptionStatus } from '@/lib/rewardRedemptions';
+import {
+  fetchGuardianApproval,
+  fetchStudentRedemptions,
+  guardianReviewRedemption,
+  setGuardianApproval
+} from '@/services/rewardRedemptions';
+import { coinErrorMessage } from '@/services/coins';
+import { Gift, Check, X, Loader2 } from 'lucide-react';
+
+interface RedemptionApprovalCardProps {
+  studentId: string;
+  studentName: string;
+}
+
+// Lets the guardian require approving Tienda Nova redemptions and review the ones waiting
+export function RedemptionApprovalCard({ studentId, studentName }: RedemptionApprovalCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data: approveRedemptions = false } = useQuery({
+    queryKey: ['guardian-student-redemption-approval', studentId],
+    queryFn: () => fetchGuardianApproval(studentId)
+  });
+
+  const { data: redemptions = [], isLoading } = useQuery({
+    queryKey: ['guardian-student-redemptions', studentId],
+    queryFn: () => fetchStudentRedemptions(studentId)
+  });
+
+  const waiting = redemptions.filter(r => r.status === 'pending_guardian');
+  const recent = redemptions.filter(r => r.status !== 'pending_guardian').slice(0, 5);
+
+  const toggleApproval = async (checked: boolean) => {
+    setBusy('toggle');
+    try {
+      await setGuardianApproval(studentId, checked);
+      queryClient.setQueryData(['guardian-student-redemption-approval', studentId], checked);
+    } catch (error) {
+      console.error('Error saving redemption approval:', error);
+      toast({ title: 'Error', description: 'No se pudo guardar la preferencia', variant: 'destructive' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const review = async (redemptionId: string, approve: boolean) => {
+    if (!approve && !confirm('¿Rechazar este canje? Las monedas se devolverán al estudiante.')) return;
+
+    setBusy(redemptionId);
+    try {
+      await guardianReviewRedemption(redemptionId, approve);
+      toast({ title: approve ? 'Canje aprobado' : 'Canje rechazado' });
+      queryClient.invalidateQueries({ queryKey: ['guardian-student-redemptions', studentId] });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: coinErrorMessage(error, 'No se pudo actualizar el canje'),
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="w-5 h-5 text-primary" />
+          Canjes en Tienda Nova
+        </CardTitle>
+        <CardDescription>
+          Premios que {studentName} canjea con sus monedas
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="approve-redemptions"
+            checked={approveRedemptions}
+            onCheckedChange={toggleApproval}
+            disabled={busy === 'toggle'}
+          />
+          <Label htmlFor="approve-redemptions">Aprobar cada canje antes de entregarlo</Label>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {waiting.map(redemption => (
+              <div key={redemption.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                <div>
+                  <p className="font-medium">{redemption.rewards?.name || 'Premio'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(redemption.created_at).toLocaleDateString('es-CO')} · {redemption.coins_spent ?? 0} monedas
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => review(redemption.id, false)} disabled={!!busy}>
+                    <X className="w-4 h-4 mr-1" />
+                    Rechazar
+                  </Button>
+                  <Button size="sm" onClick={() => review(redemption.id, true)} disabled={!!busy}>
+                    {busy === redemption.id ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                    Aprobar
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {recent.map(redemption => (
+              <div key={redemption.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {redemption.rewards?.name || 'Premio'}
+                  <span className="text-muted-foreground"> · {new Date(redemption.created_at).toLocaleDateString('es-CO')}</span>
+                </span>
+                <Badge variant={REDEMPTION_STATUS_VARIANTS[redemption.status as RedemptionStatus] ?? 'outline'}>
+                  {redemptionStatusLabel(redemption.status)}
+                </Badge>
+              </div>
+            ))}
+            {redemptions.length === 0 && (
+              <p className="text-sm text-muted-foreground">Aún no ha canjeado premios</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
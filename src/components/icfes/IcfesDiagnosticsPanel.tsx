@@ -0,0 +1,68 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { describePattern, type ErrorDiagnosis } from "@/lib/icfesDiagnostics";
+import { AlertTriangle, ArrowRight, CheckCircle2 } from "lucide-react";
+
+interface IcfesDiagnosticsPanelProps {
+  diagnosis: ErrorDiagnosis;
+}
+
+// Error patterns found across attempts, each with its evidence and what to do about it
+export function IcfesDiagnosticsPanel({ diagnosis }: IcfesDiagnosticsPanelProps) {
+  if (diagnosis.answers === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Completa algunas prácticas o un simulacro y aquí verás los errores que se repiten en tus respuestas.
+      </p>
+    );
+  }
+
+  if (diagnosis.patterns.length === 0) {
+    return (
+      <div className="flex items-start gap-2 text-sm text-muted-foreground">
+        <CheckCircle2 className="h-5 w-5 text-green-500 shrink-0" />
+        <p>
+          No encontramos errores recurrentes en tus últimos {diagnosis.attempts} intentos ({diagnosis.answers}{" "}
+          respuestas). Sigue practicando para mantenerlo así.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {diagnosis.patterns.map((pattern, i) => {
+        const { title, detail, advice } = describePattern(pattern);
+        return (
+          <div key={`${pattern.kind}-${pattern.competencia ?? i}`} className="rounded-lg border p-4 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-medium flex items-center gap-2">
+                <AlertTriangle
+                  className={`h-4 w-4 ${pattern.severity === "alta" ? "text-red-500" : "text-orange-500"}`}
+                />
+                {title}
+              </p>
+              <Badge variant={pattern.severity === "alta" ? "destructive" : "secondary"}>
+                Prioridad {pattern.severity}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">{detail}</p>
+            <p className="text-sm">{advice}</p>
+            {pattern.kind === "distractor" && pattern.area && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/app/icfes/entrenador?area=${pattern.area}&count=10`}>
+                  Practicar esta área
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Link>
+              </Button>
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">
+        Basado en tus últimos {diagnosis.attempts} intentos ({diagnosis.answers} respuestas).
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ICFES_AREAS, ICFES_AREA_LABELS } from "@/lib/icfesSimulacro";
+import { ICFES_GLOBAL_MAX, scoreTrend, trendDelta } from "@/lib/icfesScoring";
+import { TrendingDown, TrendingUp } from "lucide-react";
+
+const AREA_COLORS = {
+  matematicas: "hsl(217 91% 60%)",
+  lectura_critica: "hsl(25 95% 53%)",
+  ciencias: "hsl(142 71% 45%)",
+  sociales: "hsl(271 81% 56%)",
+  ingles: "hsl(346 77% 50%)",
+};
+
+const chartConfig = {
+  global: { label: "Puntaje global", color: "hsl(var(--primary))" },
+  ...Object.fromEntries(ICFES_AREAS.map((area) => [area, { label: ICFES_AREA_LABELS[area], color: AREA_COLORS[area] }])),
+} satisfies ChartConfig;
+
+interface IcfesTrendChartProps {
+  attempts: Array<{ completedAt: string; scoresByArea: unknown }>;
+}
+
+function DeltaBadge({ label, delta }: { label: string; delta: number | null }) {
+  if (delta === null) return null;
+  const Icon = delta >= 0 ? TrendingUp : TrendingDown;
+  return (
+    <Badge variant="outline" className={delta >= 0 ? "text-green-600 border-green-300" : "text-orange-600 border-orange-300"}>
+      <Icon className="h-3 w-3 mr-1" />
+      {label} {delta > 0 ? "+" : ""}
+      {delta}
+    </Badge>
+  );
+}
+
+// Global (0–500) and per-area (0–100) scores across completed attempts
+export function IcfesTrendChart({ attempts }: IcfesTrendChartProps) {
+  const [view, setView] = useState<"global" | "areas">("global");
+  const points = useMemo(() => scoreTrend(attempts), [attempts]);
+
+  const data = useMemo(
+    () =>
+      points.map((point) => ({
+        date: new Date(point.date).toLocaleDateString("es-CO", { day: "numeric", month: "short" }),
+        global: point.global ?? undefined,
+        ...point.scores,
+      })),
+    [points],
+  );
+
+  const globalPoints = points.filter((p) => p.global !== null).length;
+  const areasWithData = ICFES_AREAS.filter((area) => points.some((p) => p.scores[area] !== undefined));
+
+  if (points.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Completa simulacros o prácticas para ver cómo evolucionan tus puntajes.
+      </p>
+    );
+  }
+
+  const showGlobal = view === "global" && globalPoints > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          <Button size="sm" variant={view === "global" ? "default" : "outline"} onClick={() => setView("global")}>
+            Global
+          </Button>
+          <Button size="sm" variant={view === "areas" ? "default" : "outline"} onClick={() => setView("areas")}>
+            Por área
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {view === "global" ? (
+            <DeltaBadge label="Global" delta={trendDelta(points.map((p) => p.global))} />
+          ) : (
+            areasWithData.map((area) => (
+              <DeltaBadge
+                key={area}
+                label={ICFES_AREA_LABELS[area]}
+                delta={trendDelta(points.map((p) => p.scores[area]))}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      {view === "global" && globalPoints === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          El puntaje global aparece cuando completas un simulacro con las cinco áreas.
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+          <LineChart data={data} margin={{ left: 0, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis
+              domain={[0, showGlobal ? ICFES_GLOBAL_MAX : 100]}
+              tickLine={false}
+              axisLine={false}
+              width={36}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {showGlobal ? (
+              <Line dataKey="global" type="monotone" stroke="var(--color-global)" strokeWidth={2} connectNulls />
+            ) : (
+              areasWithData.map((area) => (
+                <Line
+                  key={area}
+                  dataKey={area}
+                  type="monotone"
+                  stroke={`var(--color-${area})`}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              ))
+            )}
+            {!showGlobal && <ChartLegend content={<ChartLegendContent />} />}
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useAuth } from "@/hooks/useAuth";
+import { useTutorSession, type IcfesTutorContext } from "@/hooks/useTutorSession";
+import { Loader2, Send, Sparkles } from "lucide-react";
+
+type WalkthroughQuestion = NonNullable<IcfesTutorContext["icfesQuestion"]>;
+
+interface IcfesWalkthroughProps {
+  review: { questionId: string; question: WalkthroughQuestion } | null;
+  onClose: () => void;
+}
+
+// Chat mounted per question, so the tutor starts fresh with that question as context
+function WalkthroughChat({ question }: { question: WalkthroughQuestion }) {
+  const { user } = useAuth();
+  const [input, setInput] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { messages, isLoading, isStreaming, sendMessage } = useTutorSession({
+    ageGroup: "HIGHSCHOOL",
+    studentName: user?.user_metadata?.full_name || "Estudiante",
+    studentId: user?.id,
+    sessionMode: "icfes",
+    icfesContext: { icfesQuestion: question },
+    ttsEnabled: false,
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading) return;
+    const text = input;
+    setInput("");
+    await sendMessage(text);
+  };
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-10rem)]">
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={`rounded-lg px-3 py-2 text-sm whitespace-pre-line ${
+              message.role === "assistant" ? "bg-muted mr-8" : "bg-primary text-primary-foreground ml-8"
+            }`}
+          >
+            {message.content}
+          </div>
+        ))}
+        {isLoading && !isStreaming && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Nova está pensando...
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+      <form onSubmit={handleSend} className="flex gap-2 pt-3 border-t mt-3">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Cuéntale a Nova cómo lo pensaste..."
+          disabled={isLoading}
+        />
+        <Button type="submit" size="icon" disabled={isLoading || !input.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// Socratic review of one wrong answer with the tutor in ICFES mode
+export function IcfesWalkthrough({ review, onClose }: IcfesWalkthroughProps) {
+  return (
+    <Sheet open={!!review} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg">
+        <SheetHeader className="mb-4">
+          <SheetTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            Revisa tu error con Nova
+          </SheetTitle>
+          {review && <SheetDescription className="line-clamp-3">{review.question.enunciado}</SheetDescription>}
+        </SheetHeader>
+        {review && <WalkthroughChat key={review.questionId} question={review.question} />}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,75 @@
+import { Flag } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+
+interface QuestionNavigatorProps {
+  blocks: Array<{ area: IcfesArea; questionIds: string[] }>;
+  currentIndex: number;
+  answers: Record<string, string>;
+  flagged: string[];
+  onSelect: (index: number) => void;
+}
+
+// Grid of the session's questions by area block: answered, flagged and current at a glance
+export function QuestionNavigator({ blocks, currentIndex, answers, flagged, onSelect }: QuestionNavigatorProps) {
+  const flaggedSet = new Set(flagged);
+  let offset = 0;
+
+  return (
+    <div className="space-y-4">
+      {blocks.map((block) => {
+        const start = offset;
+        offset += block.questionIds.length;
+        const answeredCount = block.questionIds.filter((id) => answers[id]).length;
+
+        return (
+          <div key={`${block.area}-${start}`}>
+            <div className="flex items-center justify-between mb-2 text-xs">
+              <span className="font-medium">{ICFES_AREA_LABELS[block.area]}</span>
+              <span className="text-muted-foreground">
+                {answeredCount}/{block.questionIds.length}
+              </span>
+            </div>
+            <div className="grid grid-cols-8 gap-1">
+              {block.questionIds.map((id, i) => {
+                const index = start + i;
+                const isCurrent = index === currentIndex;
+                const isAnswered = !!answers[id];
+                const isFlagged = flaggedSet.has(id);
+
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => onSelect(index)}
+                    title={`Pregunta ${index + 1}${isFlagged ? " (marcada para revisar)" : ""}`}
+                    className={cn(
+                      "relative h-8 rounded text-xs font-medium border transition-colors",
+                      isAnswered ? "bg-primary text-primary-foreground border-primary" : "bg-background hover:bg-muted",
+                      isCurrent && "ring-2 ring-offset-1 ring-orange-500",
+                    )}
+                  >
+                    {index + 1}
+                    {isFlagged && <Flag className="absolute -top-1 -right-1 h-3 w-3 text-amber-500 fill-amber-500" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground pt-2 border-t">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded bg-primary" /> Respondida
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded border" /> Sin responder
+        </span>
+        <span className="flex items-center gap-1">
+          <Flag className="h-3 w-3 text-amber-500 fill-amber-500" /> Para revisar
+        </span>
+      </div>
+    </div>
+  );
+}
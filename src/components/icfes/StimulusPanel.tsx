@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  STIMULUS_KIND_LABELS,
+  clozeSegments,
+  dialogueLines,
+  type IcfesPassage,
+  type StimulusKind,
+} from "@/lib/icfesItemSets";
+
+interface StimulusPanelProps {
+  passage: IcfesPassage;
+  // Cloze: the gap the current question answers, highlighted in the text
+  activeGap?: number | null;
+  // Position of the current question within its set
+  setPosition?: { index: number; total: number };
+  className?: string;
+}
+
+function ClozeText({ content, activeGap }: { content: string; activeGap?: number | null }) {
+  return (
+    <p className="whitespace-pre-line leading-relaxed">
+      {clozeSegments(content).map((segment, i) =>
+        "gap" in segment ? (
+          <span
+            key={i}
+            className={`inline-block min-w-[3rem] mx-1 px-2 border-b-2 text-center font-semibold ${
+              segment.gap === activeGap ? "border-primary bg-primary/10 text-primary" : "border-muted-foreground/40"
+            }`}
+          >
+            {segment.gap}
+          </span>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+// The shared text, chart or dialogue that a set of questions refers to
+export function StimulusPanel({ passage, activeGap, setPosition, className }: StimulusPanelProps) {
+  const kind = (passage.kind as StimulusKind) in STIMULUS_KIND_LABELS ? (passage.kind as StimulusKind) : "text";
+  const hasGaps = activeGap != null && clozeSegments(passage.content).some((s) => "gap" in s);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">{passage.title || STIMULUS_KIND_LABELS[kind]}</CardTitle>
+          {setPosition && setPosition.total > 1 && (
+            <Badge variant="outline" className="text-xs">
+              Pregunta {setPosition.index + 1} de {setPosition.total} sobre este texto
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm max-h-[60vh] overflow-y-auto">
+        {passage.imagen_url && (
+          <img
+            src={passage.imagen_url}
+            alt={passage.title || "Material de apoyo"}
+            className="max-w-full rounded-lg"
+            loading="lazy"
+          />
+        )}
+        {hasGaps ? (
+          <ClozeText content={passage.content} activeGap={activeGap} />
+        ) : kind === "dialogue" ? (
+          <div className="space-y-2">
+            {dialogueLines(passage.content).map((line, i) => (
+              <p key={i}>
+                {line.speaker && <span className="font-semibold mr-1">{line.speaker}:</span>}
+                {line.line}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <p className="whitespace-pre-line leading-relaxed">{passage.content}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
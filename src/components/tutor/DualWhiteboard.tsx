@@ -1,8 +1,20 @@
 import { useRef, useState, useEffect, useCallback, useImperativeHandle, forwardRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Eraser, Trash2, Pencil, Volume2, Lightbulb, Check } from "lucide-react";
-import katex from "katex";
 import "katex/dist/katex.min.css";
+import { renderMathHtml, renderLatexHtml } from "@/lib/mathText";
+import { simplifyStroke, type RecordBoardAction } from "@/lib/boardRecording";
+import type { AnyDrawingCommand } from "@/lib/drawingCommands";
+import {
+  canvasSurface,
+  drawCommandShape,
+  drawingScale,
+  renderDrawingCommands,
+  TUTOR_COLOR,
+  type ShapeCommand as DrawingCommand,
+} from "@/lib/drawingRenderer";
+
+export type { DrawingCommand };
 
 // Types for step-based tutoring
 export interface TutorStep {
@@ -15,23 +27,6 @@ export interface TutorStep {
   timeLimitSec?: number;
 }
 
-export interface DrawingCommand {
-  type: "circle" | "rect" | "line" | "arrow" | "text" | "freehand" | "clear";
-  x?: number;
-  y?: number;
-  x1?: number;
-  y1?: number;
-  x2?: number;
-  y2?: number;
-  radius?: number;
-  width?: number;
-  height?: number;
-  text?: string;
-  label?: string;
-  color?: string;
-  points?: Array<{ x: number; y: number }>;
-}
-
 export interface ValidationSpec {
   type: "shape_and_label_match" | "math_expression_match" | "structure_match" | "freeform_with_checks" | "hand_written_number_match";
   expectedShapes?: Array<{
@@ -57,6 +52,8 @@ export interface StudentCommand extends DrawingCommand {
 export interface DualWhiteboardRef {
   clearStudentLayer: () => void;
   playTutorDrawing: (commands: DrawingCommand[], animate?: boolean) => void;
+  // Commands from the tutor's drawing generator (lib/drawingCommands, 800 x 600 space)
+  playDrawingCommands: (commands: AnyDrawingCommand[]) => void;
   exportStudentCommands: () => StudentCommand[];
   takeSnapshot: () => string | null;
   getCanvasDimensions: () => { width: number; height: number };
@@ -66,6 +63,8 @@ interface DualWhiteboardProps {
   variant: "primary" | "highschool";
   className?: string;
   onStudentDraw?: () => void;
+  // Receives every board action, for session recording
+  onBoardAction?: RecordBoardAction;
   disabled?: boolean;
 }
 
@@ -84,49 +83,8 @@ const HIGHSCHOOL_COLORS = [
   { name: "Verde", value: "hsl(160, 70%, 50%)" },
 ];
 
-const TUTOR_COLOR = "hsl(280, 80%, 60%)";
-
-// Render math text with KaTeX
-function renderMathText(text: string): string {
-  let processed = text
-    .replace(/([a-zA-Z])(\^)(\d+)/g, "$1^{$3}")
-    .replace(/\(([^)]+)\)\^(\d+)/g, "($1)^{$2}")
-    .replace(/(\d+)\/(\d+)/g, "\\frac{$1}{$2}")
-    .replace(/sqrt\(([^)]+)\)/gi, "\\sqrt{$1}")
-    .replace(/√\(([^)]+)\)/g, "\\sqrt{$1}")
-    .replace(/√(\d+)/g, "\\sqrt{$1}");
-
-  const lines = processed.split("\n");
-  const renderedLines = lines.map((line) => {
-    const hasMath = /[\^_{}\\]|\\frac|\\sqrt/.test(line);
-    if (hasMath) {
-      try {
-        return katex.renderToString(line, {
-          throwOnError: false,
-          displayMode: false,
-          output: "html",
-        });
-      } catch {
-        return `<span>${escapeHtml(line)}</span>`;
-      }
-    }
-    return `<span>${escapeHtml(line)}</span>`;
-  });
-
-  return renderedLines.join("<br/>");
-}
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-}
-
 export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>(
-  function DualWhiteboard({ variant, className = "", onStudentDraw, disabled = false }, ref) {
+  function DualWhiteboard({ variant, className = "", onStudentDraw, onBoardAction, disabled = false }, ref) {
     const isPrimary = variant === "primary";
     const COLORS = isPrimary ? PRIMARY_COLORS : HIGHSCHOOL_COLORS;
 
@@ -137,7 +95,7 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
     const [isDrawing, setIsDrawing] = useState(false);
     const [tool, setTool] = useState<Tool>("pen");
     const [color, setColor] = useState(COLORS[0].value);
-    const [tutorMathElements, setTutorMathElements] = useState<Array<{ id: string; html: string; x: number; y: number; color: string }>>([]);
+    const [tutorMathElements, setTutorMathElements] = useState<Array<{ id: string; html: string; x: number; y: number; color: string; fontSize?: number }>>([]);
     const [studentCommands, setStudentCommands] = useState<StudentCommand[]>([]);
     
     const lastPointRef = useRef<{ x: number; y: number } | null>(null);
@@ -153,6 +111,7 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
           ctx.clearRect(0, 0, canvas.width, canvas.height);
         }
         setStudentCommands([]);
+        onBoardAction?.("student", { kind: "clear" });
       },
       playTutorDrawing: (commands: DrawingCommand[], animate = true) => {
         const canvas = tutorCanvasRef.current;
@@ -164,6 +123,8 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
         setTutorMathElements([]);
 
         const { width, height } = dimensionsRef.current;
+        onBoardAction?.("tutor", { kind: "clear" });
+        onBoardAction?.("tutor", { kind: "commands", commands, board: { width, height } });
 
         // Execute commands (with optional animation delay)
         commands.forEach((cmd, index) => {
@@ -173,6 +134,27 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
           }, delay);
         });
       },
+      playDrawingCommands: (commands: AnyDrawingCommand[]) => {
+        const canvas = tutorCanvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!ctx || !canvas) return;
+
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        const { width, height } = dimensionsRef.current;
+        onBoardAction?.("tutor", { kind: "clear" });
+        onBoardAction?.("tutor", { kind: "commands", commands, board: { width, height }, format: "drawing" });
+
+        // LaTeX goes to the KaTeX overlay, everything else is drawn on the tutor canvas
+        const latexElements: typeof tutorMathElements = [];
+        const surface = canvasSurface(ctx, {
+          scale: drawingScale(width, height),
+          onLatex: (latex, x, y, style) => {
+            latexElements.push({ id: crypto.randomUUID(), html: renderLatexHtml(latex), x, y, color: style.color, fontSize: style.size });
+          },
+        });
+        renderDrawingCommands(surface, commands);
+        setTutorMathElements(latexElements);
+      },
       exportStudentCommands: () => studentCommands,
       takeSnapshot: () => {
         const canvas = studentCanvasRef.current;
@@ -187,111 +169,32 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
       getCanvasDimensions: () => dimensionsRef.current,
     }));
 
-    // Execute a single drawing command on a canvas context
+    // Execute a single drawing command on the tutor layer (text goes to the KaTeX overlay)
     const executeDrawingCommand = useCallback((ctx: CanvasRenderingContext2D, cmd: DrawingCommand, canvasWidth: number, canvasHeight: number) => {
-      const cmdColor = cmd.color || TUTOR_COLOR;
-
       switch (cmd.type) {
         case "clear":
           ctx.clearRect(0, 0, canvasWidth, canvasHeight);
           setTutorMathElements([]);
           break;
 
-        case "circle":
-          if (cmd.x !== undefined && cmd.y !== undefined && cmd.radius !== undefined) {
-            const x = cmd.x <= 100 ? (cmd.x / 100) * canvasWidth : cmd.x;
-            const y = cmd.y <= 100 ? (cmd.y / 100) * canvasHeight : cmd.y;
-            const r = cmd.radius <= 100 ? (cmd.radius / 100) * Math.min(canvasWidth, canvasHeight) : cmd.radius;
-            
-            ctx.beginPath();
-            ctx.arc(x, y, r, 0, Math.PI * 2);
-            ctx.strokeStyle = cmdColor;
-            ctx.lineWidth = 3;
-            ctx.stroke();
-          }
-          break;
-
-        case "rect":
-          if (cmd.x !== undefined && cmd.y !== undefined && cmd.width !== undefined && cmd.height !== undefined) {
-            const x = cmd.x <= 100 ? (cmd.x / 100) * canvasWidth : cmd.x;
-            const y = cmd.y <= 100 ? (cmd.y / 100) * canvasHeight : cmd.y;
-            const w = cmd.width <= 100 ? (cmd.width / 100) * canvasWidth : cmd.width;
-            const h = cmd.height <= 100 ? (cmd.height / 100) * canvasHeight : cmd.height;
-            
-            ctx.strokeStyle = cmdColor;
-            ctx.lineWidth = 3;
-            ctx.strokeRect(x, y, w, h);
-          }
-          break;
-
-        case "line":
-          if (cmd.x1 !== undefined && cmd.y1 !== undefined && cmd.x2 !== undefined && cmd.y2 !== undefined) {
-            const x1 = cmd.x1 <= 100 ? (cmd.x1 / 100) * canvasWidth : cmd.x1;
-            const y1 = cmd.y1 <= 100 ? (cmd.y1 / 100) * canvasHeight : cmd.y1;
-            const x2 = cmd.x2 <= 100 ? (cmd.x2 / 100) * canvasWidth : cmd.x2;
-            const y2 = cmd.y2 <= 100 ? (cmd.y2 / 100) * canvasHeight : cmd.y2;
-            
-            ctx.beginPath();
-            ctx.moveTo(x1, y1);
-            ctx.lineTo(x2, y2);
-            ctx.strokeStyle = cmdColor;
-            ctx.lineWidth = 3;
-            ctx.stroke();
-          }
-          break;
-
-        case "arrow":
-          if (cmd.x1 !== undefined && cmd.y1 !== undefined && cmd.x2 !== undefined && cmd.y2 !== undefined) {
-            const x1 = cmd.x1 <= 100 ? (cmd.x1 / 100) * canvasWidth : cmd.x1;
-            const y1 = cmd.y1 <= 100 ? (cmd.y1 / 100) * canvasHeight : cmd.y1;
-            const x2 = cmd.x2 <= 100 ? (cmd.x2 / 100) * canvasWidth : cmd.x2;
-            const y2 = cmd.y2 <= 100 ? (cmd.y2 / 100) * canvasHeight : cmd.y2;
-            
-            const angle = Math.atan2(y2 - y1, x2 - x1);
-            const headLength = 15;
-            
-            ctx.beginPath();
-            ctx.moveTo(x1, y1);
-            ctx.lineTo(x2, y2);
-            ctx.lineTo(x2 - headLength * Math.cos(angle - Math.PI / 6), y2 - headLength * Math.sin(angle - Math.PI / 6));
-            ctx.moveTo(x2, y2);
-            ctx.lineTo(x2 - headLength * Math.cos(angle + Math.PI / 6), y2 - headLength * Math.sin(angle + Math.PI / 6));
-            ctx.strokeStyle = cmdColor;
-            ctx.lineWidth = 3;
-            ctx.stroke();
-          }
-          break;
-
         case "text":
           if (cmd.text && cmd.x !== undefined && cmd.y !== undefined) {
             const x = cmd.x <= 100 ? (cmd.x / 100) * canvasWidth : cmd.x;
             const y = cmd.y <= 100 ? (cmd.y / 100) * canvasHeight : cmd.y;
             
-            const html = renderMathText(cmd.text);
+            const html = renderMathHtml(cmd.text);
             setTutorMathElements(prev => [...prev, {
               id: crypto.randomUUID(),
               html,
               x,
               y,
-              color: cmdColor,
+              color: cmd.color || TUTOR_COLOR,
             }]);
           }
           break;
 
-        case "freehand":
-          if (cmd.points && cmd.points.length > 1) {
-            ctx.beginPath();
-            ctx.moveTo(cmd.points[0].x, cmd.points[0].y);
-            for (let i = 1; i < cmd.points.length; i++) {
-              ctx.lineTo(cmd.points[i].x, cmd.points[i].y);
-            }
-            ctx.strokeStyle = cmdColor;
-            ctx.lineWidth = 3;
-            ctx.lineCap = "round";
-            ctx.lineJoin = "round";
-            ctx.stroke();
-          }
-          break;
+        default:
+          drawCommandShape(ctx, cmd, canvasWidth, canvasHeight);
       }
     }, []);
 
@@ -385,6 +288,17 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
       const canvas = studentCanvasRef.current;
       if (canvas) canvas.releasePointerCapture(e.pointerId);
       
+      if (currentStrokeRef.current.length > 1) {
+        onBoardAction?.("student", {
+          kind: "stroke",
+          points: simplifyStroke(currentStrokeRef.current),
+          color: isPrimary ? color : "#FACC15",
+          width: tool === "eraser" ? 30 : 4,
+          erase: tool === "eraser",
+          board: { ...dimensionsRef.current },
+        });
+      }
+
       // Save the stroke as a command
       if (currentStrokeRef.current.length > 1 && tool === "pen") {
         const newCommand: StudentCommand = {
@@ -399,7 +313,7 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
       setIsDrawing(false);
       lastPointRef.current = null;
       currentStrokeRef.current = [];
-    }, [color, tool, disabled]);
+    }, [color, tool, disabled, isPrimary, onBoardAction]);
 
     const clearStudentCanvas = useCallback(() => {
       const canvas = studentCanvasRef.current;
@@ -407,7 +321,8 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
       if (!ctx || !canvas) return;
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       setStudentCommands([]);
-    }, []);
+      onBoardAction?.("student", { kind: "clear" });
+    }, [onBoardAction]);
 
     return (
       <div className={`flex flex-col gap-2 ${className}`}>
@@ -484,6 +399,7 @@ export const DualWhiteboard = forwardRef<DualWhiteboardRef, DualWhiteboardProps>
                   left: `${el.x}px`,
                   top: `${el.y}px`,
                   color: el.color,
+                  fontSize: el.fontSize ? `${el.fontSize}px` : undefined,
                   maxWidth: "calc(100% - 40px)",
                   fontFamily: isPrimary ? "inherit" : "monospace",
                 }}
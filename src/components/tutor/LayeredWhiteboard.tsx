@@ -1,15 +1,19 @@
 import { useRef, useState, useEffect, useCallback, useImperativeHandle, forwardRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Eraser, Trash2, Pencil } from "lucide-react";
-import katex from "katex";
 import "katex/dist/katex.min.css";
+import { renderMathHtml, renderLatexHtml } from "@/lib/mathText";
+import { simplifyStroke, type RecordBoardAction } from "@/lib/boardRecording";
+import type { AnyDrawingCommand } from "@/lib/drawingCommands";
+import { canvasSurface, drawingScale, renderDrawingCommands } from "@/lib/drawingRenderer";
 
 interface BoardAction {
-  type: "draw" | "clear" | "text";
+  type: "draw" | "clear" | "text" | "commands";
   color?: string;
   points?: { x: number; y: number }[];
   text?: string;
   position?: { x: number; y: number };
+  commands?: AnyDrawingCommand[]; // "commands": drawing commands in the 800 x 600 space
 }
 
 // NUEVO: tipos para whiteboard events del backend
@@ -30,6 +34,7 @@ interface LayeredWhiteboardProps {
   boardActions?: BoardAction[];
   whiteboardEvents?: WhiteboardEvent[]; // NUEVO
   onStudentDraw?: () => void;
+  onBoardAction?: RecordBoardAction; // Every board action, for session recording
 }
 
 export interface WhiteboardRef {
@@ -56,56 +61,6 @@ const HIGHSCHOOL_COLORS = [
 
 const TEACHER_COLOR = "hsl(280, 80%, 60%)"; // Purple for teacher
 
-// Helper to render math with KaTeX (handles mixed text + math)
-function renderMathText(text: string): string {
-  // Replace common patterns with LaTeX
-  let processed = text
-    // Handle x^2, y^3, etc. (variable followed by ^number)
-    .replace(/([a-zA-Z])(\^)(\d+)/g, "$1^{$3}")
-    // Handle (expression)^n
-    .replace(/\(([^)]+)\)\^(\d+)/g, "($1)^{$2}")
-    // Handle fractions like 1/2, a/b
-    .replace(/(\d+)\/(\d+)/g, "\\frac{$1}{$2}")
-    // Handle sqrt
-    .replace(/sqrt\(([^)]+)\)/gi, "\\sqrt{$1}")
-    .replace(/√\(([^)]+)\)/g, "\\sqrt{$1}")
-    .replace(/√(\d+)/g, "\\sqrt{$1}");
-
-  // Try to render each line, falling back to text if it fails
-  const lines = processed.split("\n");
-  const renderedLines = lines.map((line) => {
-    // Check if line contains math-like content
-    const hasMath = /[\^_{}\\]|\\frac|\\sqrt/.test(line);
-    
-    if (hasMath) {
-      try {
-        // Wrap the whole line in a math environment
-        return katex.renderToString(line, {
-          throwOnError: false,
-          displayMode: false,
-          output: "html",
-        });
-      } catch {
-        // If KaTeX fails, return as plain text
-        return `<span>${escapeHtml(line)}</span>`;
-      }
-    }
-    
-    return `<span>${escapeHtml(line)}</span>`;
-  });
-
-  return renderedLines.join("<br/>");
-}
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-}
-
 export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProps>(function LayeredWhiteboard(
   {
     className = "",
@@ -113,6 +68,7 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
     boardActions = [],
     whiteboardEvents = [], // NUEVO
     onStudentDraw,
+    onBoardAction,
   },
   ref,
 ) {
@@ -127,8 +83,9 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
   const [isDrawing, setIsDrawing] = useState(false);
   const [tool, setTool] = useState<Tool>("pen");
   const [color, setColor] = useState(COLORS[0].value);
-  const [mathElements, setMathElements] = useState<Array<{ id: string; html: string; x: number; y: number; color: string }>>([]);
+  const [mathElements, setMathElements] = useState<Array<{ id: string; html: string; x: number; y: number; color: string; fontSize?: number }>>([]);
   const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const currentStrokeRef = useRef<Array<{ x: number; y: number }>>([]);
   const dimensionsRef = useRef({ width: 0, height: 0 });
 
   // Expose methods to parent
@@ -139,6 +96,7 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
       if (ctx && canvas) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
       }
+      onBoardAction?.("student", { kind: "clear" });
     },
     clearTeacherLayer: () => {
       const canvas = teacherCanvasRef.current;
@@ -147,12 +105,36 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
         ctx.clearRect(0, 0, canvas.width, canvas.height);
       }
       setMathElements([]);
+      onBoardAction?.("tutor", { kind: "clear" });
     },
     executeAction: (action: BoardAction) => {
       const canvas = teacherCanvasRef.current;
       const ctx = canvas?.getContext("2d");
       if (!ctx || !canvas) return;
 
+      if (action.type === "clear") {
+        onBoardAction?.("tutor", { kind: "clear" });
+      } else if (action.type === "draw" && action.points && action.points.length > 1) {
+        onBoardAction?.("tutor", {
+          kind: "commands",
+          commands: [{ type: "freehand", points: action.points, color: action.color || TEACHER_COLOR }],
+          board: { ...dimensionsRef.current },
+        });
+      } else if (action.type === "text" && action.text && action.position) {
+        onBoardAction?.("tutor", {
+          kind: "commands",
+          commands: [{ type: "text", text: action.text, ...action.position, color: action.color || TEACHER_COLOR }],
+          board: { ...dimensionsRef.current },
+        });
+      } else if (action.type === "commands" && action.commands?.length) {
+        onBoardAction?.("tutor", {
+          kind: "commands",
+          commands: action.commands,
+          board: { ...dimensionsRef.current },
+          format: "drawing",
+        });
+      }
+
       if (action.type === "clear") {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
         setMathElements([]);
@@ -170,7 +152,7 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
         ctx.stroke();
       } else if (action.type === "text" && action.text && action.position) {
         // Use KaTeX for text
-        const html = renderMathText(action.text);
+        const html = renderMathHtml(action.text);
         setMathElements(prev => [...prev, {
           id: crypto.randomUUID(),
           html,
@@ -178,6 +160,18 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
           y: action.position!.y,
           color: action.color || TEACHER_COLOR,
         }]);
+      } else if (action.type === "commands" && action.commands?.length) {
+        // Drawn on top of what is already on the board; LaTeX goes to the KaTeX overlay
+        const { width, height } = dimensionsRef.current;
+        const latexElements: typeof mathElements = [];
+        const surface = canvasSurface(ctx, {
+          scale: drawingScale(width, height),
+          onLatex: (latex, x, y, style) => {
+            latexElements.push({ id: crypto.randomUUID(), html: renderLatexHtml(latex), x, y, color: style.color, fontSize: style.size });
+          },
+        });
+        renderDrawingCommands(surface, action.commands);
+        if (latexElements.length > 0) setMathElements(prev => [...prev, ...latexElements]);
       }
     },
     captureStudentDrawing: () => {
@@ -204,9 +198,11 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
     if (width === 0 || height === 0) return;
 
     const newMathElements: typeof mathElements = [];
+    const textCommands: Array<{ type: "text"; text: string; x: number; y: number; color: string }> = [];
 
     whiteboardEvents.forEach((event) => {
       if (event.type === "clear") {
+        onBoardAction?.("tutor", { kind: "clear" });
         // Clear canvas too
         const canvas = teacherCanvasRef.current;
         const ctx = canvas?.getContext("2d");
@@ -220,7 +216,8 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
         const y = event.y !== undefined ? (event.y <= 100 ? (event.y / 100) * height : event.y) : 20;
         const textColor = event.color || TEACHER_COLOR;
 
-        const html = renderMathText(event.text);
+        const html = renderMathHtml(event.text);
+        textCommands.push({ type: "text", text: event.text, x, y, color: textColor });
         newMathElements.push({
           id: event.id,
           html,
@@ -233,8 +230,15 @@ export const LayeredWhiteboard = forwardRef<WhiteboardRef, LayeredWhiteboardProp
 
     if (newMathElements.length > 0) {
       setMathElements(newMathElements);
+      // The new elements replace whatever text was on the board
+      onBoardAction?.("tutor", { kind: "clear" });
+      onBoardAction?.("tutor", {
+        kind: "commands",
+        commands: textCommands,
+        board: { width, height },
+      });
     }
-  }, [whiteboardEvents]);
+  }, [whiteboardEvents, onBoardAction]);
 
   // Execute board actions from backend (legacy format)
   useEffect(() => {
@@ -345,6 +349,7 @@ const getCoordinates = useCallback((e: React.PointerEvent): { x: number; y: numb
 
       setIsDrawing(true);
       lastPointRef.current = coords;
+      currentStrokeRef.current = [coords];
       onStudentDraw?.();
     },
     [getCoordinates, onStudentDraw],
@@ -378,6 +383,7 @@ const getCoordinates = useCallback((e: React.PointerEvent): { x: number; y: numb
       ctx.stroke();
 
       lastPointRef.current = coords;
+      currentStrokeRef.current.push(coords);
     },
     [isDrawing, tool, color, getCoordinates, isPrimary],
   );
@@ -389,16 +395,28 @@ const getCoordinates = useCallback((e: React.PointerEvent): { x: number; y: numb
     if (canvas) {
       canvas.releasePointerCapture(e.pointerId);
     }
+    if (currentStrokeRef.current.length > 1) {
+      onBoardAction?.("student", {
+        kind: "stroke",
+        points: simplifyStroke(currentStrokeRef.current),
+        color: isPrimary ? color : "#FACC15",
+        width: tool === "eraser" ? 30 : 4,
+        erase: tool === "eraser",
+        board: { ...dimensionsRef.current },
+      });
+    }
     setIsDrawing(false);
     lastPointRef.current = null;
-  }, []);
+    currentStrokeRef.current = [];
+  }, [onBoardAction, isPrimary, color, tool]);
 
   const clearStudentCanvas = useCallback(() => {
     const canvas = studentCanvasRef.current;
     const ctx = canvas?.getContext("2d");
     if (!ctx || !canvas) return;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-  }, []);
+    onBoardAction?.("student", { kind: "clear" });
+  }, [onBoardAction]);
 
   return (
     <div className={`flex flex-col gap-3 ${className}`}>
@@ -482,6 +500,7 @@ const getCoordinates = useCallback((e: React.PointerEvent): { x: number; y: numb
                 left: `${el.x}px`,
                 top: `${el.y}px`,
                 color: el.color,
+                fontSize: el.fontSize ? `${el.fontSize}px` : undefined,
                 maxWidth: "calc(100% - 40px)",
                 fontFamily: isPrimary ? "inherit" : "monospace",
               }}
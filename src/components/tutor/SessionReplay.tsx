@@ -0,0 +1,399 @@
+import { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Play, Pause, RotateCcw, Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { boardStateAt, type BoardState } from "@/lib/boardRecording";
+import { exportBoardSvg, exportSessionPdf, downloadBlob } from "@/lib/boardExport";
+import { fetchSessionRecording } from "@/services/sessionExport";
+import type { AnyDrawingCommand } from "@/lib/drawingCommands";
+import {
+  canvasSurface,
+  drawCommandShape,
+  drawingScale,
+  renderDrawingCommands,
+  TUTOR_COLOR,
+  type ShapeCommand,
+} from "@/lib/drawingRenderer";
+
+interface SessionReplayProps {
+  sessionId: string;
+  className?: string;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const testLine = line ? `${line} ${word}` : word;
+      if (ctx.measureText(testLine).width > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = testLine;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Paint the board as it was at one moment: tutor layer below, student layer on top
+function paintBoard(
+  tutorCanvas: HTMLCanvasElement,
+  studentCanvas: HTMLCanvasElement,
+  state: BoardState,
+  width: number,
+  height: number,
+  isPrimary: boolean,
+) {
+  const dpr = window.devicePixelRatio || 1;
+  const tutorCtx = tutorCanvas.getContext("2d");
+  const studentCtx = studentCanvas.getContext("2d");
+  if (!tutorCtx || !studentCtx) return;
+
+  for (const ctx of [tutorCtx, studentCtx]) {
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+  }
+
+  // Tutor message on the board, centered like in the live session
+  if (state.tutorText) {
+    tutorCtx.font = `bold ${isPrimary ? "18px" : "15px"} sans-serif`;
+    tutorCtx.fillStyle = isPrimary ? "#7C3AED" : "#A78BFA";
+    tutorCtx.textAlign = "center";
+    tutorCtx.textBaseline = "middle";
+    const lineHeight = isPrimary ? 26 : 22;
+    const lines = wrapLines(tutorCtx, state.tutorText, width - 60).slice(0, Math.floor((height - 20) / lineHeight));
+    let y = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    for (const line of lines) {
+      tutorCtx.fillText(line, width / 2, y);
+      y += lineHeight;
+    }
+  }
+
+  // Recorded actions are scaled from the board size they were drawn on
+  for (const { commands, board, format } of state.tutorCommands) {
+    const scale = Math.min(width / board.width, height / board.height) || 1;
+    tutorCtx.save();
+    tutorCtx.scale(scale, scale);
+    if (format === "drawing") {
+      const surface = canvasSurface(tutorCtx, { scale: drawingScale(board.width, board.height) });
+      renderDrawingCommands(surface, commands as AnyDrawingCommand[]);
+      tutorCtx.restore();
+      continue;
+    }
+    for (const cmd of commands as ShapeCommand[]) {
+      if (cmd.type === "text") {
+        if (!cmd.text || cmd.x === undefined || cmd.y === undefined) continue;
+        tutorCtx.font = `${isPrimary ? "18px" : "15px"} sans-serif`;
+        tutorCtx.fillStyle = cmd.color || TUTOR_COLOR;
+        tutorCtx.textAlign = "left";
+        tutorCtx.textBaseline = "top";
+        const x = cmd.x <= 100 ? (cmd.x / 100) * board.width : cmd.x;
+        const y = cmd.y <= 100 ? (cmd.y / 100) * board.height : cmd.y;
+        cmd.text.split("\n").forEach((line, i) => tutorCtx.fillText(line, x, y + i * 22));
+      } else {
+        drawCommandShape(tutorCtx, cmd, board.width, board.height);
+      }
+    }
+    tutorCtx.restore();
+  }
+
+  for (const stroke of state.studentStrokes) {
+    if (stroke.points.length < 2) continue;
+    const scale = Math.min(width / stroke.board.width, height / stroke.board.height) || 1;
+    studentCtx.save();
+    studentCtx.scale(scale, scale);
+    studentCtx.globalCompositeOperation = stroke.erase ? "destination-out" : "source-over";
+    studentCtx.strokeStyle = stroke.color;
+    studentCtx.lineWidth = stroke.width;
+    studentCtx.lineCap = "round";
+    studentCtx.lineJoin = "round";
+    studentCtx.beginPath();
+    studentCtx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    for (let i = 1; i < stroke.points.length; i++) {
+      studentCtx.lineTo(stroke.points[i].x, stroke.points[i].y);
+    }
+    studentCtx.stroke();
+    studentCtx.restore();
+  }
+}
+
+export function SessionReplay({ sessionId, className = "" }: SessionReplayProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["tutor-session-replay", sessionId],
+    queryFn: () => fetchSessionRecording(sessionId),
+  });
+
+  const messages = useMemo(() => data?.messages ?? [], [data]);
+  const events = useMemo(() => data?.events ?? [], [data]);
+  const isPrimary = data?.isPrimary ?? false;
+
+  // Everything is played relative to the first recorded moment
+  const { start, duration } = useMemo(() => {
+    const times = [...messages.map((m) => m.at), ...events.map((e) => e.occurredAt)];
+    if (times.length === 0) return { start: 0, duration: 0 };
+    const first = Math.min(...times);
+    return { start: first, duration: Math.max(...times) - first };
+  }, [messages, events]);
+
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const tutorCanvasRef = useRef<HTMLCanvasElement>(null);
+  const studentCanvasRef = useRef<HTMLCanvasElement>(null);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const [boardSize, setBoardSize] = useState({ width: 0, height: 0 });
+
+  // Keep the canvases matched to the container
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resize = () => {
+      const rect = container.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      for (const canvas of [tutorCanvasRef.current, studentCanvasRef.current]) {
+        if (!canvas) continue;
+        canvas.width = rect.width * dpr;
+        canvas.height = rect.height * dpr;
+        canvas.style.width = `${rect.width}px`;
+        canvas.style.height = `${rect.height}px`;
+      }
+      setBoardSize({ width: rect.width, height: rect.height });
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [data]);
+
+  const currentTime = start + position;
+  const boardState = useMemo(() => boardStateAt(events, currentTime), [events, currentTime]);
+
+  useEffect(() => {
+    const tutorCanvas = tutorCanvasRef.current;
+    const studentCanvas = studentCanvasRef.current;
+    if (!tutorCanvas || !studentCanvas || boardSize.width === 0) return;
+    paintBoard(tutorCanvas, studentCanvas, boardState, boardSize.width, boardSize.height, isPrimary);
+  }, [boardState, boardSize, isPrimary]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) * speed;
+      last = now;
+      setPosition((prev) => Math.min(prev + elapsed, duration));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (isPlaying && position >= duration) setIsPlaying(false);
+  }, [isPlaying, position, duration]);
+
+  const visibleMessages = useMemo(
+    () => messages.filter((m) => m.at <= currentTime),
+    [messages, currentTime],
+  );
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ block: "end" });
+  }, [visibleMessages.length]);
+
+  // Export the board as it is at the current position, with the whole transcript
+  const [exporting, setExporting] = useState(false);
+  const handleExport = async (format: "svg" | "pdf") => {
+    if (!data) return;
+    setExporting(true);
+    try {
+      const input = { state: boardState, isPrimary };
+      const baseName = `sesion-${sessionId.slice(0, 8)}`;
+      if (format === "svg") {
+        downloadBlob(await exportBoardSvg(input), `${baseName}.svg`);
+      } else {
+        const blob = await exportSessionPdf(input, {
+          title: "Sesión de tutoría",
+          studentName: data.studentName,
+          skill: data.skill,
+          startedAt: data.startedAt,
+          messages,
+        });
+        downloadBlob(blob, `${baseName}.pdf`);
+      }
+    } catch (err) {
+      console.error("Error exporting session:", err);
+      toast.error("No se pudo exportar la sesión.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePlayPause = useCallback(() => {
+    if (!isPlaying && position >= duration) setPosition(0);
+    setIsPlaying(!isPlaying);
+  }, [isPlaying, position, duration]);
+
+  if (isLoading) {
+    return <Skeleton className={`h-[360px] w-full ${className}`} />;
+  }
+
+  if (error || !data) {
+    return (
+      <p className={`text-center text-sm text-muted-foreground py-8 ${className}`}>
+        No se pudo cargar la grabación de esta sesión.
+      </p>
+    );
+  }
+
+  if (events.length === 0 && messages.length === 0) {
+    return (
+      <p className={`text-center text-sm text-muted-foreground py-8 ${className}`}>
+        Esta sesión no tiene grabación del tablero.
+      </p>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <div className="grid gap-3 md:grid-cols-[1fr_260px]">
+        {/* Board */}
+        <div
+          ref={containerRef}
+          className={`relative aspect-video rounded-xl border-2 overflow-hidden ${
+            isPrimary ? "bg-[hsl(45,80%,95%)] border-amber-300" : "bg-[hsl(222,30%,12%)] border-border"
+          }`}
+        >
+          <canvas ref={tutorCanvasRef} className="absolute inset-0" />
+          <canvas ref={studentCanvasRef} className="absolute inset-0" />
+          {events.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <span className="text-xs px-3 py-1 rounded-full bg-secondary/80 text-muted-foreground">
+                Sin acciones de tablero grabadas
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Chat in sync with the board */}
+        <ScrollArea className="h-[240px] md:h-auto md:max-h-[340px] rounded-lg border border-border bg-background p-3">
+          <div className="space-y-2">
+            {visibleMessages.map((msg, idx) => (
+              <button
+                key={idx}
+                type="button"
+                onClick={() => setPosition(msg.at - start)}
+                className={`block w-full text-left p-2 rounded-lg ${
+                  msg.role === "user" ? "bg-primary/10 ml-4" : "bg-secondary mr-4"
+                } ${idx === visibleMessages.length - 1 ? "ring-1 ring-primary/50" : ""}`}
+              >
+                <p className="text-[10px] font-medium text-muted-foreground mb-0.5">
+                  {msg.role === "user" ? "Estudiante" : "Tutor IA"} · {formatClock(msg.at - start)}
+                </p>
+                <p className="text-xs text-foreground whitespace-pre-wrap line-clamp-6">{msg.content}</p>
+              </button>
+            ))}
+            {visibleMessages.length === 0 && (
+              <p className="text-center text-muted-foreground text-xs">Aún no hay mensajes.</p>
+            )}
+            <div ref={chatEndRef} />
+          </div>
+        </ScrollArea>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={handlePlayPause} disabled={duration === 0}>
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => {
+            setIsPlaying(false);
+            setPosition(0);
+          }}
+          title="Volver al inicio"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+
+        <span className="text-xs tabular-nums text-muted-foreground w-20">
+          {formatClock(position)} / {formatClock(duration)}
+        </span>
+
+        <Slider
+          value={[position]}
+          onValueChange={(value) => setPosition(value[0])}
+          max={Math.max(duration, 1)}
+          step={100}
+          className="flex-1 cursor-pointer"
+        />
+
+        <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+          <SelectTrigger className="w-20 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEEDS.map((s) => (
+              <SelectItem key={s} value={String(s)}>
+                {s}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8" disabled={exporting}>
+              {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              Exportar
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport("svg")}>Tablero (SVG)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport("pdf")}>Tablero y chat (PDF)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
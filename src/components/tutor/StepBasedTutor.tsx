@@ -17,6 +17,7 @@ import {
 import { toast } from "sonner";
 import { DualWhiteboard, DualWhiteboardRef, TutorStep, DrawingCommand, StudentCommand, ValidationSpec } from "./DualWhiteboard";
 import { Link } from "react-router-dom";
+import { useBoardRecorder } from "@/hooks/useBoardRecorder";
 
 interface StepBasedTutorProps {
   variant: "primary" | "highschool";
@@ -24,6 +25,8 @@ interface StepBasedTutorProps {
   steps: TutorStep[];
   sessionId: string;
   userId?: string;
+  // Resume point returned by generate-tutor-steps (earlier steps count as done)
+  initialStepIndex?: number;
   onStepComplete?: (stepId: string, passed: boolean, attempts: number) => void;
   onAllStepsComplete?: () => void;
   ttsEnabled?: boolean;
@@ -45,6 +48,7 @@ export function StepBasedTutor({
   steps,
   sessionId,
   userId,
+  initialStepIndex = 0,
   onStepComplete,
   onAllStepsComplete,
   ttsEnabled = true,
@@ -52,13 +56,14 @@ export function StepBasedTutor({
 }: StepBasedTutorProps) {
   const isPrimary = variant === "primary";
   const whiteboardRef = useRef<DualWhiteboardRef>(null);
+  const { record: recordBoardAction } = useBoardRecorder(sessionId);
 
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [currentStepIndex, setCurrentStepIndex] = useState(initialStepIndex);
   const [stepStates, setStepStates] = useState<Record<string, StepState>>(() => {
     const initial: Record<string, StepState> = {};
     steps.forEach((step, index) => {
       initial[step.stepId] = {
-        status: index === 0 ? "active" : "locked",
+        status: index < initialStepIndex ? "correct" : index === initialStepIndex ? "active" : "locked",
         attempts: 0,
         hintIndex: -1,
       };
@@ -358,6 +363,7 @@ export function StepBasedTutor({
             variant={variant}
             className="flex-1"
             disabled={currentState?.status === "correct"}
+            onBoardAction={recordBoardAction}
             onStudentDraw={() => {
               if (currentState?.status === "incorrect") {
                 setStepStates(prev => ({
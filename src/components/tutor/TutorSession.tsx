@@ -2,6 +2,13 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   GraduationCap,
   ChevronLeft,
@@ -16,16 +23,35 @@ import {
   Trash2,
   Send,
   MessageSquare,
-  Mic
+  Mic,
+  Headphones,
+  Download
 } from "lucide-react";
+import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
 import { useTutorSession } from "@/hooks/useTutorSession";
+import { useVoiceRecorder } from "@/hooks/useVoiceRecorder";
+import { useVoiceConversation, type ConversationTurn } from "@/hooks/useVoiceConversation";
+import { useBoardRecorder } from "@/hooks/useBoardRecorder";
+import { simplifyStroke, boardStateAt } from "@/lib/boardRecording";
+import { exportBoardSvg, exportSessionPdf, downloadBlob } from "@/lib/boardExport";
+import { fetchSessionRecording, saveExportToRepository } from "@/services/sessionExport";
+import { VoiceButton } from "./VoiceButton";
 
 interface TutorSessionProps {
   variant: "primary" | "highschool";
+  // Drill on one ICFES competencia, handed off from the trainer results
+  icfesDrill?: { area: string; competencia: string } | null;
 }
 
-export function TutorSession({ variant }: TutorSessionProps) {
+const TURN_LABELS: Record<Exclude<ConversationTurn, "idle">, string> = {
+  listening: "Te escucho...",
+  student: "Hablando tú...",
+  thinking: "Nova está pensando...",
+  tutor: "Nova está hablando · habla para interrumpir",
+};
+
+export function TutorSession({ variant, icfesDrill }: TutorSessionProps) {
   const isPrimary = variant === "primary";
   const { user } = useAuth();
 
@@ -43,6 +69,7 @@ export function TutorSession({ variant }: TutorSessionProps) {
   const [tool, setTool] = useState<"pen" | "eraser">("pen");
   const [color, setColor] = useState(isPrimary ? "hsl(0, 90%, 60%)" : "hsl(210, 100%, 65%)");
   const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const currentStrokeRef = useRef<Array<{ x: number; y: number }>>([]);
 
   // Colors for palette
   const COLORS = isPrimary
@@ -62,18 +89,124 @@ export function TutorSession({ variant }: TutorSessionProps) {
   const {
     messages,
     isLoading,
+    isStreaming,
     isTutorSpeaking,
+    sessionId,
     sendMessage,
     stopTutorAudio,
+    interruptTutor,
   } = useTutorSession({
     ageGroup: isPrimary ? "PRIMARY" : "HIGHSCHOOL",
     studentName: user?.user_metadata?.full_name || "Estudiante",
     studentId: user?.id,
+    sessionMode: icfesDrill ? "icfes" : "default",
+    icfesContext: icfesDrill ? { icfesDrill } : undefined,
     ttsEnabled: true, // Always start enabled
   });
 
   const [ttsEnabled, setTtsEnabled] = useState(true);
 
+  // Board recording for session replay (teachers and guardians)
+  const { record: recordBoardAction, flush: flushBoardEvents } = useBoardRecorder(sessionId);
+  const recordedTutorMessageRef = useRef<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Export the board as it is now, built from the saved recording so it is vector output
+  const handleExport = async (target: "svg" | "pdf" | "repository") => {
+    if (!sessionId) return;
+    setIsExporting(true);
+    try {
+      await flushBoardEvents();
+      const recording = await fetchSessionRecording(sessionId);
+      const input = { state: boardStateAt(recording.events, Date.now()), isPrimary };
+      const baseName = `sesion-nova-${new Date().toISOString().slice(0, 10)}`;
+
+      if (target === "svg") {
+        downloadBlob(await exportBoardSvg(input), `${baseName}.svg`);
+        return;
+      }
+
+      const pdf = await exportSessionPdf(input, {
+        title: "Sesión Socrática con Nova",
+        studentName: recording.studentName,
+        skill: recording.skill,
+        startedAt: recording.startedAt,
+        messages: recording.messages,
+      });
+
+      if (target === "pdf") {
+        downloadBlob(pdf, `${baseName}.pdf`);
+      } else if (user) {
+        await saveExportToRepository({
+          blob: pdf,
+          fileName: `${baseName}.pdf`,
+          studentId: user.id,
+          description: "Tablero y conversación de la sesión con Nova",
+          subject: recording.skill,
+        });
+        toast.success("Guardado en tu repositorio");
+      }
+    } catch (error) {
+      console.error("Error exporting session:", error);
+      toast.error("No se pudo exportar la sesión");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Voice input: the transcript is sent as a regular message
+  const handleTranscription = useCallback((text: string) => {
+    sendMessage(text);
+  }, [sendMessage]);
+
+  const handleVoiceError = useCallback((error: string) => {
+    toast.error(error);
+  }, []);
+
+  const {
+    isRecording,
+    isProcessing: isTranscribing,
+    toggleRecording,
+  } = useVoiceRecorder({
+    onTranscription: handleTranscription,
+    onError: handleVoiceError,
+  });
+
+  const handleToggleRecording = () => {
+    if (!isRecording) stopTutorAudio();
+    toggleRecording();
+  };
+
+  // Hands-free conversation: the mic stays open, silence ends the student's turn
+  // and speaking over Nova cuts her off
+  const [conversationMode, setConversationMode] = useState(false);
+
+  const handleConversationTurn = useCallback((text: string) => {
+    sendMessage(text, undefined, "voice");
+  }, [sendMessage]);
+
+  const handleConversationError = useCallback((error: string, fatal: boolean) => {
+    toast.error(error);
+    if (fatal) setConversationMode(false);
+  }, []);
+
+  const { turn } = useVoiceConversation({
+    enabled: conversationMode,
+    isTutorSpeaking,
+    isTutorBusy: isLoading,
+    onUserTurn: handleConversationTurn,
+    onBargeIn: interruptTutor,
+    onError: handleConversationError,
+  });
+
+  const handleToggleConversation = () => {
+    if (!conversationMode) {
+      stopTutorAudio();
+      setTtsEnabled(true);
+    }
+    setConversationMode(!conversationMode);
+  };
+
   // Get the latest message to display on the board
   const latestAssistantMessage = messages
     .slice()
@@ -167,6 +300,14 @@ export function TutorSession({ variant }: TutorSessionProps) {
     drawOnTutorCanvas();
   }, [drawOnTutorCanvas, latestAssistantMessage]);
 
+  // The tutor board shows the latest reply: record it once it has finished streaming
+  useEffect(() => {
+    if (!latestAssistantMessage?.content || isStreaming) return;
+    if (recordedTutorMessageRef.current === latestAssistantMessage.id) return;
+    recordedTutorMessageRef.current = latestAssistantMessage.id;
+    recordBoardAction("tutor", { kind: "text", text: latestAssistantMessage.content });
+  }, [latestAssistantMessage, isStreaming, recordBoardAction]);
+
   useEffect(() => {
     initStudentCanvas();
     const handleResize = () => {
@@ -193,6 +334,7 @@ export function TutorSession({ variant }: TutorSessionProps) {
     if (!coords) return;
     setIsDrawing(true);
     lastPointRef.current = coords;
+    currentStrokeRef.current = [coords];
   }, [getCoordinates]);
 
   const draw = useCallback((e: React.PointerEvent) => {
@@ -226,15 +368,28 @@ export function TutorSession({ variant }: TutorSessionProps) {
     ctx.stroke();
 
     lastPointRef.current = coords;
+    currentStrokeRef.current.push(coords);
   }, [isDrawing, tool, color, getCoordinates, isPrimary]);
 
   const stopDrawing = useCallback((e: React.PointerEvent) => {
     e.preventDefault();
     const canvas = studentCanvasRef.current;
     if (canvas) canvas.releasePointerCapture(e.pointerId);
+    if (canvas && currentStrokeRef.current.length > 1) {
+      const rect = canvas.getBoundingClientRect();
+      recordBoardAction("student", {
+        kind: "stroke",
+        points: simplifyStroke(currentStrokeRef.current),
+        color,
+        width: tool === "eraser" ? 30 : 4,
+        erase: tool === "eraser",
+        board: { width: rect.width, height: rect.height },
+      });
+    }
     setIsDrawing(false);
     lastPointRef.current = null;
-  }, []);
+    currentStrokeRef.current = [];
+  }, [recordBoardAction, color, tool]);
 
   const clearStudentCanvas = useCallback(() => {
     const canvas = studentCanvasRef.current;
@@ -242,7 +397,8 @@ export function TutorSession({ variant }: TutorSessionProps) {
     if (ctx && canvas) {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
     }
-  }, []);
+    recordBoardAction("student", { kind: "clear" });
+  }, [recordBoardAction]);
 
   // Interaction Handlers
   const handleSendText = async () => {
@@ -298,6 +454,38 @@ export function TutorSession({ variant }: TutorSessionProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={!sessionId || isExporting}
+                title="Exportar tablero"
+              >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("svg")}>Descargar tablero (SVG)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("pdf")}>Descargar tablero y chat (PDF)</DropdownMenuItem>
+              {user && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleExport("repository")}>Guardar en mi repositorio</DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant={conversationMode ? "default" : "ghost"}
+            size="icon"
+            className="h-8 w-8"
+            onClick={handleToggleConversation}
+            title={conversationMode ? "Salir del modo conversación" : "Modo conversación (manos libres)"}
+          >
+            <Headphones className="w-4 h-4" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -418,6 +606,12 @@ export function TutorSession({ variant }: TutorSessionProps) {
             <Button variant="ghost" size="icon" onClick={handleRetry} title="Reiniciar" className="hover:bg-destructive/10">
               <RotateCcw className="w-5 h-5 text-muted-foreground" />
             </Button>
+            <VoiceButton
+              isRecording={isRecording}
+              isProcessing={isTranscribing}
+              onClick={handleToggleRecording}
+              disabled={isLoading || conversationMode}
+            />
           </div>
 
           {/* Main Chat Input Area */}
@@ -465,7 +659,21 @@ export function TutorSession({ variant }: TutorSessionProps) {
           </div>
         </div>
 
-        {isLoading && (
+        {conversationMode && turn !== "idle" ? (
+          <div
+            className={`absolute top-0 left-1/2 -translate-x-1/2 -translate-y-full mb-2 px-4 py-1 rounded-full backdrop-blur text-xs font-medium flex items-center gap-2 animate-in fade-in slide-in-from-bottom-2 ${turn === "student"
+                ? "bg-green-500/15 text-green-600"
+                : "bg-primary/10 text-primary"
+              }`}
+          >
+            {turn === "thinking" && <Loader2 className="w-3 h-3 animate-spin" />}
+            {turn === "tutor" && <Volume2 className="w-3 h-3 animate-pulse" />}
+            {(turn === "listening" || turn === "student") && (
+              <Mic className={`w-3 h-3 ${turn === "student" ? "animate-pulse" : ""}`} />
+            )}
+            {TURN_LABELS[turn]}
+          </div>
+        ) : isLoading && !isStreaming && (
           <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-full mb-2 px-4 py-1 rounded-full bg-primary/10 backdrop-blur text-xs font-medium text-primary flex items-center gap-2 animate-in fade-in slide-in-from-bottom-2">
             <Loader2 className="w-3 h-3 animate-spin" />
             Nova está pensando...
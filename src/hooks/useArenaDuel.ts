@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { duelPhase, type DuelPhase } from "@/lib/arena";
+import {
+  fetchDuelState,
+  finishDuel,
+  subscribeToDuel,
+  type DuelConnection,
+  type DuelState,
+} from "@/services/arenaDuels";
+
+const TICK_MS = 250;
+const RESYNC_MS = 1000;
+const FINISH_RETRY_MS = 2000;
+
+// Runs one duel on the client: keeps the state from arena_duel_state in sync through Realtime,
+// derives the shared clock from the server time, and refetches whenever a question opens or
+// closes or the connection comes back, so a reconnecting player catches up from the server
+export function useArenaDuel(duelId: string | undefined, studentId: string | null | undefined) {
+  const [state, setState] = useState<DuelState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [connection, setConnection] = useState<DuelConnection>("connecting");
+  const [onlineIds, setOnlineIds] = useState<string[]>([]);
+  const [phase, setPhase] = useState<DuelPhase>({ kind: "lobby" });
+
+  // server time minus local time, so every client counts down from the same instant
+  const offsetRef = useRef(0);
+  const stateRef = useRef<DuelState | null>(null);
+  const phaseRef = useRef<DuelPhase>({ kind: "lobby" });
+  const lastSyncRef = useRef(0);
+  const lastFinishRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    if (!duelId) return;
+    try {
+      const requestedAt = Date.now();
+      const next = await fetchDuelState(duelId);
+      const receivedAt = Date.now();
+      offsetRef.current = new Date(next.server_now).getTime() - (requestedAt + receivedAt) / 2;
+      stateRef.current = next;
+      phaseRef.current = duelPhase(next.duel, next.reveal_seconds, Date.now() + offsetRef.current);
+      setState(next);
+      setPhase(phaseRef.current);
+      setError(null);
+    } catch (err) {
+      console.error("Error loading duel:", err);
+      setError("No se pudo cargar el duelo");
+    }
+  }, [duelId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!duelId || !studentId) return;
+
+    const unsubscribe = subscribeToDuel(duelId, studentId, {
+      onChange: refresh,
+      onPresence: setOnlineIds,
+      onConnection: (next) => {
+        setConnection(next);
+        if (next === "live") refresh();
+      },
+    });
+
+    const handleOnline = () => refresh();
+    window.addEventListener("online", handleOnline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      unsubscribe();
+    };
+  }, [duelId, studentId, refresh]);
+
+  // One tick drives the countdown for every phase
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const current = stateRef.current;
+      if (!current) return;
+
+      const next = duelPhase(current.duel, current.reveal_seconds, Date.now() + offsetRef.current);
+      const prev = phaseRef.current;
+      if (JSON.stringify(prev) !== JSON.stringify(next)) {
+        phaseRef.current = next;
+        setPhase(next);
+      }
+
+      // The clock says a question is open or answered but the last state predates it: catch up
+      const behind =
+        (next.kind === "question" || next.kind === "reveal") &&
+        !current.questions.some((q) => q.position === next.position && (next.kind === "question" || q.correct_option !== null));
+      if (behind && Date.now() - lastSyncRef.current > RESYNC_MS) {
+        lastSyncRef.current = Date.now();
+        refresh();
+      }
+
+      // The server only closes the duel once its own clock is past the end, so keep asking
+      if (next.kind === "over" && current.duel.status === "active" && Date.now() - lastFinishRef.current > FINISH_RETRY_MS) {
+        lastFinishRef.current = Date.now();
+        finishDuel(current.duel.id)
+          .then(refresh)
+          .catch((err) => console.error("Error finishing duel:", err));
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { state, phase, error, connection, onlineIds, refresh };
+}
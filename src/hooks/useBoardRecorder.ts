@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { BoardAction, BoardActor, BoardEvent } from "@/lib/boardRecording";
+
+const FLUSH_INTERVAL_MS = 3000;
+// Events wait in memory until the session row exists (the first tutor reply creates it)
+const MAX_PENDING_EVENTS = 2000;
+
+// Records whiteboard actions for session replay and saves them in batches
+// to tutor_board_events once the session has an id
+export function useBoardRecorder(sessionId: string | null | undefined) {
+  const pendingRef = useRef<BoardEvent[]>([]);
+  const flushingRef = useRef(false);
+  const lastOccurredAtRef = useRef(0);
+  const sessionIdRef = useRef(sessionId);
+
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+  }, [sessionId]);
+
+  const flush = useCallback(async () => {
+    const currentSessionId = sessionIdRef.current;
+    if (!currentSessionId || flushingRef.current || pendingRef.current.length === 0) return;
+
+    const batch = pendingRef.current;
+    pendingRef.current = [];
+    flushingRef.current = true;
+
+    try {
+      const { error } = await supabase.from("tutor_board_events").insert(
+        batch.map(({ actor, action, occurredAt }) => {
+          const { kind, ...payload } = action;
+          return {
+            session_id: currentSessionId,
+            actor,
+            kind,
+            payload: payload as unknown as Json,
+            occurred_at: new Date(occurredAt).toISOString(),
+          };
+        }),
+      );
+
+      if (error) {
+        console.error("Error saving board events:", error);
+        // Keep them for the next flush, oldest first
+        pendingRef.current = [...batch, ...pendingRef.current].slice(-MAX_PENDING_EVENTS);
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, []);
+
+  const record = useCallback((actor: BoardActor, action: BoardAction) => {
+    // Strictly increasing times keep same-millisecond events (clear + redraw) in order on replay
+    const occurredAt = Math.max(Date.now(), lastOccurredAtRef.current + 1);
+    lastOccurredAtRef.current = occurredAt;
+    pendingRef.current.push({ actor, action, occurredAt });
+    if (pendingRef.current.length > MAX_PENDING_EVENTS) {
+      pendingRef.current.splice(0, pendingRef.current.length - MAX_PENDING_EVENTS);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionId) flush();
+  }, [sessionId, flush]);
+
+  useEffect(() => {
+    const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+    const handlePageHide = () => {
+      flush();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("pagehide", handlePageHide);
+      flush();
+    };
+  }, [flush]);
+
+  return { record, flush };
+}
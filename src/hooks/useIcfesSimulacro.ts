@@ -0,0 +1,368 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  SABER11_SESSIONS,
+  attemptRemainingSeconds,
+  remainingSeconds,
+  scoreSimulacro,
+  sessionQuestionIds,
+  type AnswerLetter,
+  type SimulacroProgress,
+} from "@/lib/icfesSimulacro";
+import {
+  createSimulacroAttempt,
+  fetchQuestionsByIds,
+  findInProgressSimulacro,
+  gradeIcfesAttempt,
+  saveSimulacroProgress,
+  type IcfesQuestion,
+  type SimulacroAttempt,
+} from "@/services/icfesAttempts";
+
+export type SimulacroPhase = "loading" | "intro" | "session" | "break" | "results" | "error";
+
+export type SimulacroResults = ReturnType<typeof scoreSimulacro>;
+
+const SAVE_DEBOUNCE_MS = 800;
+const HEARTBEAT_SECONDS = 15;
+
+// Runs a full simulacro: draws or resumes the attempt, keeps the session clock,
+// and saves the progress to icfes_attempts as the student goes
+export function useIcfesSimulacro(studentId: string | null | undefined) {
+  const [phase, setPhase] = useState<SimulacroPhase>("loading");
+  const [pendingAttempt, setPendingAttempt] = useState<SimulacroAttempt | null>(null);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SimulacroProgress | null>(null);
+  const [questions, setQuestions] = useState<IcfesQuestion[]>([]);
+  const [results, setResults] = useState<SimulacroResults | null>(null);
+  // False when the simulacro was finished after its time limit and got no result
+  const [resultCounted, setResultCounted] = useState(true);
+  const [attemptClock, setAttemptClock] = useState<Pick<SimulacroAttempt, "startedAt" | "timeLimitSeconds"> | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The clock ticks every second: keep the latest progress in a ref so saves don't lag behind
+  const progressRef = useRef<SimulacroProgress | null>(null);
+  const attemptIdRef = useRef<string | null>(null);
+  const attemptClockRef = useRef<Pick<SimulacroAttempt, "startedAt" | "timeLimitSeconds"> | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const questionStartRef = useRef(Date.now());
+  const closingRef = useRef(false);
+
+  useEffect(() => {
+    progressRef.current = progress;
+  }, [progress]);
+
+  useEffect(() => {
+    attemptIdRef.current = attemptId;
+  }, [attemptId]);
+
+  // The server stops counting the attempt at started_at + time_limit_seconds, breaks included
+  const attemptExpired = useCallback(() => {
+    const clock = attemptClockRef.current;
+    return clock ? attemptRemainingSeconds(clock.startedAt, clock.timeLimitSeconds) === 0 : false;
+  }, []);
+
+  const persist = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const id = attemptIdRef.current;
+    const current = progressRef.current;
+    if (!id || !current) return;
+    try {
+      await saveSimulacroProgress(id, current);
+    } catch (err) {
+      // The next save sends the whole state again
+      console.error("Error saving simulacro progress:", err);
+    }
+  }, []);
+
+  const schedulePersist = useCallback(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(persist, SAVE_DEBOUNCE_MS);
+  }, [persist]);
+
+  const updateProgress = useCallback((update: (prev: SimulacroProgress) => SimulacroProgress) => {
+    const prev = progressRef.current;
+    if (!prev) return;
+    const next = update(prev);
+    progressRef.current = next;
+    setProgress(next);
+    schedulePersist();
+  }, [schedulePersist]);
+
+  // Time spent on the question being left, added to its running total
+  const withQuestionTime = useCallback((prev: SimulacroProgress): SimulacroProgress => {
+    const ids = sessionQuestionIds(prev.sessions[prev.currentSession]);
+    const id = ids[prev.currentIndex];
+    const now = Date.now();
+    const seconds = Math.round((now - questionStartRef.current) / 1000);
+    questionStartRef.current = now;
+    if (!id || seconds <= 0) return prev;
+    return { ...prev, timeSpent: { ...prev.timeSpent, [id]: (prev.timeSpent[id] ?? 0) + seconds } };
+  }, []);
+
+  const loadSessionQuestions = useCallback(async (current: SimulacroProgress) => {
+    const ids = sessionQuestionIds(current.sessions[current.currentSession]);
+    setQuestions(await fetchQuestionsByIds(ids));
+    questionStartRef.current = Date.now();
+  }, []);
+
+  const openAttempt = useCallback(async (attempt: SimulacroAttempt) => {
+    attemptIdRef.current = attempt.id;
+    progressRef.current = attempt.progress;
+    attemptClockRef.current = { startedAt: attempt.startedAt, timeLimitSeconds: attempt.timeLimitSeconds };
+    setAttemptClock(attemptClockRef.current);
+    setAttemptId(attempt.id);
+    setProgress(attempt.progress);
+    setPendingAttempt(null);
+
+    const session = attempt.progress.sessions[attempt.progress.currentSession];
+    if (session.submitted) {
+      setPhase("break");
+      return;
+    }
+    await loadSessionQuestions(attempt.progress);
+    setPhase("session");
+  }, [loadSessionQuestions]);
+
+  // Look for an unfinished simulacro before offering a new one
+  useEffect(() => {
+    if (!studentId) return;
+    let cancelled = false;
+
+    findInProgressSimulacro(studentId)
+      .then((attempt) => {
+        if (cancelled) return;
+        setPendingAttempt(attempt);
+        setPhase("intro");
+      })
+      .catch((err) => {
+        console.error("Error loading simulacro:", err);
+        if (!cancelled) {
+          setError("No pudimos cargar tu simulacro.");
+          setPhase("error");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  const start = useCallback(async () => {
+    if (!studentId) return;
+    setIsBusy(true);
+    try {
+      // The server abandons the pending attempt, if any, when it opens the new one
+      await openAttempt(await createSimulacroAttempt());
+    } catch (err) {
+      console.error("Error starting simulacro:", err);
+      setError("No pudimos iniciar el simulacro. Intenta de nuevo.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [studentId, openAttempt]);
+
+  const resume = useCallback(async () => {
+    if (!pendingAttempt) return;
+    setIsBusy(true);
+    try {
+      await openAttempt(pendingAttempt);
+    } catch (err) {
+      console.error("Error resuming simulacro:", err);
+      setError("No pudimos recuperar el simulacro. Intenta de nuevo.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [pendingAttempt, openAttempt]);
+
+  const finish = useCallback(async (final: SimulacroProgress) => {
+    const id = attemptIdRef.current;
+    if (!id) return;
+
+    // Store the final state, then let the server grade it against the answer key and close the attempt
+    progressRef.current = final;
+    await persist();
+    const graded = await gradeIcfesAttempt({
+      attemptId: id,
+      answers: final.sessions.flatMap(sessionQuestionIds).map((questionId) => ({
+        questionId,
+        respuesta: final.answers[questionId] ?? null,
+        timeSpentSeconds: final.timeSpent[questionId] ?? 0,
+        previousAnswers: final.changes?.[questionId] ?? [],
+      })),
+    });
+
+    const verdicts = Object.fromEntries(graded.answers.map((a) => [a.questionId, a.isCorrect]));
+    setResultCounted(graded.counted !== false);
+    setResults(scoreSimulacro(final, verdicts));
+    setPhase("results");
+  }, [persist]);
+
+  // Close the current session (student's choice or time out) and move on.
+  // Calling it again after a failed save retries without touching the answers.
+  const submitSession = useCallback(async () => {
+    const prev = progressRef.current;
+    if (!prev || closingRef.current) return;
+    closingRef.current = true;
+    setIsBusy(true);
+    setError(null);
+
+    let next = prev;
+    if (!prev.sessions[prev.currentSession].submitted) {
+      const closed = withQuestionTime(prev);
+      const sessions = closed.sessions.map((s, i) => (i === closed.currentSession ? { ...s, submitted: true } : s));
+      next = { ...closed, sessions };
+      progressRef.current = next;
+      setProgress(next);
+    }
+
+    try {
+      if (next.currentSession < next.sessions.length - 1 && !attemptExpired()) {
+        await persist();
+        setPhase("break");
+      } else {
+        await finish(next);
+      }
+    } catch (err) {
+      console.error("Error closing simulacro session:", err);
+      setError("No pudimos guardar la sesión. Revisa tu conexión e intenta de nuevo.");
+    } finally {
+      closingRef.current = false;
+      setIsBusy(false);
+    }
+  }, [withQuestionTime, persist, finish, attemptExpired]);
+
+  const startNextSession = useCallback(async () => {
+    const prev = progressRef.current;
+    if (!prev) return;
+    // Skip sessions that ended up without questions (very small banks)
+    let nextSession = prev.currentSession + 1;
+    while (nextSession < prev.sessions.length && sessionQuestionIds(prev.sessions[nextSession]).length === 0) {
+      nextSession += 1;
+    }
+    if (nextSession >= prev.sessions.length || attemptExpired()) {
+      setIsBusy(true);
+      try {
+        await finish(prev);
+      } catch (err) {
+        console.error("Error finishing simulacro:", err);
+        setError("No pudimos guardar el simulacro. Revisa tu conexión e intenta de nuevo.");
+      } finally {
+        setIsBusy(false);
+      }
+      return;
+    }
+
+    const next = { ...prev, currentSession: nextSession, currentIndex: 0 };
+    progressRef.current = next;
+    setProgress(next);
+    setIsBusy(true);
+    try {
+      await persist();
+      await loadSessionQuestions(next);
+      setPhase("session");
+    } catch (err) {
+      console.error("Error starting simulacro session:", err);
+      setError("No pudimos cargar la siguiente sesión.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [finish, persist, loadSessionQuestions, attemptExpired]);
+
+  const answer = useCallback((questionId: string, letter: AnswerLetter) => {
+    updateProgress((prev) => {
+      const before = prev.answers[questionId];
+      if (before === letter) return prev;
+      const changes = before
+        ? { ...prev.changes, [questionId]: [...(prev.changes?.[questionId] ?? []), before] }
+        : prev.changes;
+      return { ...prev, answers: { ...prev.answers, [questionId]: letter }, changes };
+    });
+  }, [updateProgress]);
+
+  const toggleFlag = useCallback((questionId: string) => {
+    updateProgress((prev) => ({
+      ...prev,
+      flagged: prev.flagged.includes(questionId)
+        ? prev.flagged.filter((id) => id !== questionId)
+        : [...prev.flagged, questionId],
+    }));
+  }, [updateProgress]);
+
+  const goTo = useCallback((index: number) => {
+    updateProgress((prev) => {
+      const size = sessionQuestionIds(prev.sessions[prev.currentSession]).length;
+      if (index < 0 || index >= size || index === prev.currentIndex) return prev;
+      return { ...withQuestionTime(prev), currentIndex: index };
+    });
+  }, [updateProgress, withQuestionTime]);
+
+  // Session clock: counts while the session is open, saved with every heartbeat.
+  // A closed tab stops it, so a lost connection does not eat exam time.
+  useEffect(() => {
+    if (phase !== "session") return;
+
+    let ticks = 0;
+    const timer = setInterval(() => {
+      const prev = progressRef.current;
+      if (!prev || prev.sessions[prev.currentSession].submitted) return;
+      const sessions = prev.sessions.map((s, i) =>
+        i === prev.currentSession ? { ...s, elapsedSeconds: s.elapsedSeconds + 1 } : s,
+      );
+      const next = { ...prev, sessions };
+      progressRef.current = next;
+      setProgress(next);
+
+      ticks += 1;
+      if (remainingSeconds(next) === 0 || attemptExpired()) {
+        submitSession();
+      } else if (ticks % HEARTBEAT_SECONDS === 0) {
+        persist();
+      }
+    }, 1000);
+
+    const handlePageHide = () => {
+      persist();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, [phase, persist, submitSession, attemptExpired]);
+
+  // Save whatever is pending when leaving the page
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current) persist();
+    };
+  }, [persist]);
+
+  const currentSessionSpec = progress ? SABER11_SESSIONS[progress.currentSession] : null;
+  const attemptLeft = attemptClock ? attemptRemainingSeconds(attemptClock.startedAt, attemptClock.timeLimitSeconds) : null;
+  const sessionLeft = progress ? remainingSeconds(progress) : 0;
+
+  return {
+    phase,
+    pendingAttempt,
+    progress,
+    questions,
+    results,
+    resultCounted,
+    isBusy,
+    error,
+    currentSessionSpec,
+    remaining: attemptLeft === null ? sessionLeft : Math.min(sessionLeft, attemptLeft),
+    start,
+    resume,
+    answer,
+    toggleFlag,
+    goTo,
+    submitSession,
+    startNextSession,
+  };
+}
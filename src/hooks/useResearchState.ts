@@ -9,7 +9,8 @@ function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
-function loadReports(): Report[] {
+// Reports are kept in this browser only; also read by the flashcard generator
+export function loadReports(): Report[] {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
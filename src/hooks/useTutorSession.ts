@@ -1,6 +1,8 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
 import { normalizeMathText, mathTextForTTS } from "@/lib/mathText";
+import type { AnyDrawingCommand } from "@/lib/drawingCommands";
 
 interface Message {
   id: string;
@@ -9,8 +11,12 @@ interface Message {
   timestamp: Date;
   status?: "UNDERSTOOD" | "PARTIAL" | "CONFUSED";
   skill?: string;
+  inputMode?: TutorInputMode;
 }
 
+// How the student produced a message: typed/buttons or spoken in conversation mode
+export type TutorInputMode = "text" | "voice";
+
 // NUEVO: tipos para whiteboard events
 export type WhiteboardEventType = "draw_text" | "clear";
 
@@ -28,22 +34,138 @@ interface TutorResponse {
   status: "UNDERSTOOD" | "PARTIAL" | "CONFUSED";
   skill: string;
   sessionId?: string;
+  messageId?: string;
   boardActions?: any[];
   whiteboardEvents?: WhiteboardEvent[];
+  drawingCommands?: AnyDrawingCommand[];
   error?: string;
 }
 
+// Callbacks for the server-sent events emitted by socratic-tutor while streaming
+interface TutorStreamHandlers {
+  onReplyDelta?: (delta: string) => void;
+  onStatus?: (status: TutorResponse["status"]) => void;
+  onSkill?: (skill: string) => void;
+  onWhiteboardEvents?: (events: WhiteboardEvent[]) => void;
+  onDrawingCommands?: (commands: AnyDrawingCommand[]) => void;
+}
+
+// ICFES context sent with every turn in "icfes" mode: a wrong answer to walk through,
+// or a competencia to drill
+export interface IcfesTutorContext {
+  icfesQuestion?: {
+    area: string;
+    competencia: string | null;
+    passage: string | null;
+    enunciado: string;
+    options: Record<string, string>;
+    chosen: string | null;
+    correct: string;
+    explicacion: string | null;
+  };
+  icfesDrill?: { area: string; competencia: string };
+}
+
 interface UseTutorSessionOptions {
   ageGroup: "PRIMARY" | "HIGHSCHOOL";
   studentName: string;
   studentId?: string;
   languageMode?: "es" | "en" | "bridge";
-  sessionMode?: "default" | "ingles_integrador" | "mate_tableros";
+  sessionMode?: "default" | "ingles_integrador" | "mate_tableros" | "icfes";
+  icfesContext?: IcfesTutorContext;
   onBoardActions?: (actions: any[]) => void;
   onWhiteboardEvents?: (events: WhiteboardEvent[]) => void;
+  onDrawingCommands?: (commands: AnyDrawingCommand[]) => void;
   ttsEnabled?: boolean;
 }
 
+// Flow tags the tutor appends for the app; never shown or spoken
+const WAITING_TAG_REGEX = /\[ESPERANDO_TABLERO\]/i;
+const NEXT_STEP_TAG_REGEX = /\[SIGUIENTE_PASO\]/i;
+
+function stripFlowTags(text: string): string {
+  return text.replace(WAITING_TAG_REGEX, "").replace(NEXT_STEP_TAG_REGEX, "").trim();
+}
+
+// Split off the complete sentences of a partial reply so TTS can start early.
+// A sentence ends at . ! ? … or a line break followed by whitespace, so "3.5" is not split.
+function takeCompleteSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  const boundary = /[.!?…]+(?=\s)|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(buffer)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = buffer.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  return { sentences, rest: buffer.slice(start) };
+}
+
+// Parse the SSE body of a streaming socratic-tutor response
+async function readTutorStream(response: Response, handlers: TutorStreamHandlers): Promise<TutorResponse> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let reply = "";
+  let result: TutorResponse | null = null;
+
+  const handleEvent = (event: string, data: string) => {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "reply":
+        reply += payload.delta;
+        handlers.onReplyDelta?.(payload.delta);
+        break;
+      case "status":
+        handlers.onStatus?.(payload.status);
+        break;
+      case "skill":
+        handlers.onSkill?.(payload.skill);
+        break;
+      case "whiteboard":
+        handlers.onWhiteboardEvents?.(payload.whiteboardEvents);
+        break;
+      case "drawing":
+        handlers.onDrawingCommands?.(payload.drawingCommands);
+        break;
+      case "done":
+        result = payload;
+        break;
+      case "error":
+        throw new Error(payload.error || "Error al comunicarse con el tutor");
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let separatorIndex: number;
+    while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+      }
+      if (dataLines.length > 0) handleEvent(event, dataLines.join("\n"));
+    }
+  }
+
+  if (!result) {
+    throw new Error("La respuesta del tutor se interrumpió. Intenta de nuevo.");
+  }
+
+  return { ...result, reply: result.reply || reply };
+}
+
 // Call the Socratic Tutor backend
 async function callSocraticTutor(
   ageGroup: "PRIMARY" | "HIGHSCHOOL",
@@ -55,12 +177,23 @@ async function callSocraticTutor(
   imageBase64?: string,
   languageMode: "es" | "en" | "bridge" = "es",
   mode?: string, // NUEVO: modo de sesión
+  inputMode: TutorInputMode = "text",
+  handlers: TutorStreamHandlers = {},
+  icfesContext: IcfesTutorContext = {},
+  signal?: AbortSignal,
 ): Promise<TutorResponse> {
   const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+  // The student's JWT lets socratic-tutor count the turn toward their tutoring streak
+  const { data: { session } } = await supabase.auth.getSession();
 
   const response = await fetch(`${SUPABASE_URL}/functions/v1/socratic-tutor`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+    signal,
     body: JSON.stringify({
       ageGroup,
       userMessage,
@@ -71,6 +204,9 @@ async function callSocraticTutor(
       imageBase64,
       languageMode,
       mode, // NUEVO: enviar modo al backend
+      inputMode,
+      ...icfesContext,
+      stream: true,
     }),
   });
 
@@ -82,6 +218,12 @@ async function callSocraticTutor(
     throw new Error(errorData.error || "Error al comunicarse con el tutor");
   }
 
+  // Older deployments answer with a single JSON body even when streaming is requested
+  const contentType = response.headers.get("content-type") || "";
+  if (contentType.includes("text/event-stream") && response.body) {
+    return readTutorStream(response, handlers);
+  }
+
   return response.json();
 }
 
@@ -129,8 +271,10 @@ export function useTutorSession({
   studentId: externalStudentId,
   languageMode = "es",
   sessionMode = "default", // NUEVO
+  icfesContext,
   onBoardActions,
   onWhiteboardEvents,
+  onDrawingCommands,
   ttsEnabled = true,
 }: UseTutorSessionOptions) {
   const isPrimary = ageGroup === "PRIMARY";
@@ -142,6 +286,15 @@ export function useTutorSession({
         ? "¡Hola! 👋 Soy Nova, tu tutor de Inglés Integrador. Antes de empezar, cuéntame: ¿Qué temas estás viendo esta semana en tus otras clases como Sociales, Ciencias o Matemáticas? 📚"
         : "¡Hola! Soy Nova, tu tutor de Inglés Integrador. Para comenzar, ¿puedes contarme qué temas estás estudiando esta semana en tus otras materias (Sociales, Ciencias, Matemáticas, Ética, etc.)? Así podemos trabajar el inglés conectado con lo que ya estás aprendiendo.";
     }
+    if (sessionMode === "icfes" && icfesContext?.icfesQuestion) {
+      const { chosen, correct } = icfesContext.icfesQuestion;
+      return chosen
+        ? `Revisemos juntos esta pregunta. Elegiste la ${chosen} y la correcta era la ${correct}. Antes de explicarte nada: ¿qué te hizo pensar que la ${chosen} era la respuesta?`
+        : `Revisemos juntos esta pregunta que dejaste sin responder; la correcta era la ${correct}. ¿Qué parte del enunciado te hizo dudar?`;
+    }
+    if (sessionMode === "icfes" && icfesContext?.icfesDrill) {
+      return `¡Vamos a entrenar ${icfesContext.icfesDrill.competencia}! Fue la competencia que más te costó en tu última práctica. Escríbeme "listo" y te propongo la primera pregunta tipo ICFES.`;
+    }
     return isPrimary
       ? "¡Hola! 👋 Soy Nova, tu tutor. ¡Mantén presionado el micrófono y cuéntame en qué necesitas ayuda! También puedes dibujar en la pizarra."
       : "¡Hola! Soy Nova, tu tutor. Pulsa el micrófono para hablarme o dibuja en la pizarra mientras resuelves el ejercicio.";
@@ -157,6 +310,7 @@ export function useTutorSession({
   ]);
 
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [isTutorSpeaking, setIsTutorSpeaking] = useState(false);
   const [currentSkill, setCurrentSkill] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
@@ -166,11 +320,17 @@ export function useTutorSession({
   const studentId = externalStudentId || `guest_${Date.now()}`;
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  // Sentences are synthesized as soon as they stream in and played back in order.
+  // Bumping the generation discards everything still queued.
+  const speechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const speechGenerationRef = useRef(0);
+  const finishCurrentAudioRef = useRef<(() => void) | null>(null);
+  // The reply being fetched, so a new turn or a barge-in can cut it short
+  const requestAbortRef = useRef<AbortController | null>(null);
+
   // Initialize audio element
   useEffect(() => {
     audioRef.current = new Audio();
-    audioRef.current.onended = () => setIsTutorSpeaking(false);
-    audioRef.current.onerror = () => setIsTutorSpeaking(false);
 
     return () => {
       if (audioRef.current) {
@@ -181,43 +341,108 @@ export function useTutorSession({
   }, []);
 
   const stopTutorAudio = useCallback(() => {
+    speechGenerationRef.current += 1;
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
+    finishCurrentAudioRef.current?.();
     setIsTutorSpeaking(false);
   }, []);
 
-  const playTutorAudio = useCallback(async (audioUrl: string) => {
-    if (!audioRef.current) return;
+  // Barge-in: silence Nova and drop the rest of the reply still streaming in
+  const interruptTutor = useCallback(() => {
+    requestAbortRef.current?.abort();
+    stopTutorAudio();
+  }, [stopTutorAudio]);
+
+  // Resolves when the clip ends, fails or is stopped
+  const playTutorAudio = useCallback(
+    (audioUrl: string) =>
+      new Promise<void>((resolve) => {
+        const audio = audioRef.current;
+        if (!audio) return resolve();
+
+        const finish = () => {
+          audio.onended = null;
+          audio.onerror = null;
+          finishCurrentAudioRef.current = null;
+          resolve();
+        };
 
-    try {
-      audioRef.current.src = audioUrl;
-      setIsTutorSpeaking(true);
-      await audioRef.current.play();
-    } catch (error) {
-      console.error("Audio playback failed:", error);
-      setIsTutorSpeaking(false);
-    }
-  }, []);
+        finishCurrentAudioRef.current = finish;
+        audio.onended = finish;
+        audio.onerror = finish;
+        audio.src = audioUrl;
+        setIsTutorSpeaking(true);
+        audio.play().catch((error) => {
+          console.error("Audio playback failed:", error);
+          finish();
+        });
+      }),
+    [],
+  );
+
+  const enqueueTutorSpeech = useCallback(
+    (sentence: string) => {
+      const text = stripFlowTags(sentence);
+      if (!text) return;
+
+      const generation = speechGenerationRef.current;
+      // Start synthesis right away so the clip is ready when its turn comes
+      const audioPromise = generateTTS(text, ageGroup, languageMode);
+
+      const queued = speechQueueRef.current.then(async () => {
+        const audioUrl = await audioPromise;
+        if (!audioUrl || generation !== speechGenerationRef.current) return;
+        await playTutorAudio(audioUrl);
+      });
+      speechQueueRef.current = queued;
+
+      queued.then(() => {
+        if (speechQueueRef.current === queued) setIsTutorSpeaking(false);
+      });
+    },
+    [ageGroup, languageMode, playTutorAudio],
+  );
 
   const sendMessage = useCallback(
-    async (content: string, imageBase64?: string) => {
+    async (content: string, imageBase64?: string, inputMode: TutorInputMode = "text") => {
       if (!content.trim() && !imageBase64) return;
 
-      // Stop any playing audio first
+      // Stop any playing audio and any reply still in flight first
+      requestAbortRef.current?.abort();
+      const controller = new AbortController();
+      requestAbortRef.current = controller;
       stopTutorAudio();
+      // If the student stops or interrupts Nova mid-reply, the rest of it stays silent
+      const speechGeneration = speechGenerationRef.current;
+      const shouldSpeak = () => ttsEnabled && speechGenerationRef.current === speechGeneration;
 
       const userMessage: Message = {
         id: Date.now().toString(),
         role: "user",
         content: content || "📷 [Imagen subida]",
         timestamp: new Date(),
+        inputMode,
       };
 
       setMessages((prev) => [...prev, userMessage]);
       setIsLoading(true);
 
+      // The assistant message is created by the first streamed chunk and then filled in place
+      const assistantId = (Date.now() + 1).toString();
+      const upsertAssistantMessage = (patch: Partial<Message>) => {
+        setMessages((prev) =>
+          prev.some((m) => m.id === assistantId)
+            ? prev.map((m) => (m.id === assistantId ? { ...m, ...patch } : m))
+            : [...prev, { id: assistantId, role: "assistant", content: "", timestamp: new Date(), ...patch }],
+        );
+      };
+
+      let streamedReply = "";
+      let pendingSpeech = "";
+
       try {
         const chatHistory = messages.slice(1).map((m) => ({ role: m.role, content: m.content }));
 
@@ -230,9 +455,34 @@ export function useTutorSession({
           sessionId || undefined,
           imageBase64,
           languageMode,
-          sessionMode === "ingles_integrador" ? "ingles_integrador" : undefined, // NUEVO
+          sessionMode === "ingles_integrador" || sessionMode === "icfes" ? sessionMode : undefined, // NUEVO
+          inputMode,
+          {
+            onReplyDelta: (delta) => {
+              streamedReply += delta;
+              setIsStreaming(true);
+              upsertAssistantMessage({ content: normalizeMathText(stripFlowTags(streamedReply)) });
+
+              if (shouldSpeak()) {
+                const { sentences, rest } = takeCompleteSentences(pendingSpeech + delta);
+                sentences.forEach(enqueueTutorSpeech);
+                pendingSpeech = rest;
+              }
+            },
+            onStatus: (status) => upsertAssistantMessage({ status }),
+            onSkill: (skill) => {
+              upsertAssistantMessage({ skill });
+              setCurrentSkill(skill);
+            },
+            onWhiteboardEvents: (events) => onWhiteboardEvents?.(events),
+            onDrawingCommands: (commands) => onDrawingCommands?.(commands),
+          },
+          sessionMode === "icfes" ? icfesContext : undefined,
+          controller.signal,
         );
 
+        const wasStreamed = streamedReply.length > 0;
+
         if (response.sessionId && !sessionId) {
           setSessionId(response.sessionId);
         }
@@ -242,60 +492,46 @@ export function useTutorSession({
           onBoardActions(response.boardActions);
         }
 
-        // Handle whiteboard events
-        if (response.whiteboardEvents && onWhiteboardEvents) {
-          onWhiteboardEvents(response.whiteboardEvents);
+        // Streamed board content was already delivered through the handlers
+        if (!wasStreamed) {
+          if (response.whiteboardEvents && onWhiteboardEvents) {
+            onWhiteboardEvents(response.whiteboardEvents);
+          }
+          if (response.drawingCommands && onDrawingCommands) {
+            onDrawingCommands(response.drawingCommands);
+          }
         }
 
         // NUEVO: Procesar etiquetas y normalizar texto
-        const rawReply = response.reply || "";
-
-        // Detectar etiquetas de flujo
-        const waitingTagRegex = /\[ESPERANDO_TABLERO\]/i;
-        const nextStepTagRegex = /\[SIGUIENTE_PASO\]/i;
+        const rawReply = response.reply || streamedReply;
 
         // ¿Nova está esperando que el estudiante use el tablero?
-        const isWaiting = waitingTagRegex.test(rawReply);
-        setIsWaitingForBoard(isWaiting);
+        setIsWaitingForBoard(WAITING_TAG_REGEX.test(rawReply));
 
         // Eliminar etiquetas del texto visible para el estudiante
-        const replyWithoutTags = rawReply.replace(waitingTagRegex, "").replace(nextStepTagRegex, "").trim();
+        const replyWithoutTags = stripFlowTags(rawReply);
 
         // Normalizar la parte matemática para mostrarla en el chat
-        const normalizedReplyForChat = normalizeMathText(replyWithoutTags);
-
-        // Generate TTS only if enabled
-        let audioUrl: string | null = null;
-        if (ttsEnabled) {
-          try {
-            audioUrl = await generateTTS(replyWithoutTags, ageGroup, languageMode);
-          } catch (err) {
-            console.error("TTS generation failed:", err);
-          }
-        }
-
-        const aiResponse: Message = {
-          id: (Date.now() + 1).toString(),
-          role: "assistant",
-          content: normalizedReplyForChat, // NUEVO: usar texto normalizado
-          timestamp: new Date(),
+        upsertAssistantMessage({
+          content: normalizeMathText(replyWithoutTags), // NUEVO: usar texto normalizado
           status: response.status,
           skill: response.skill,
-        };
-
-        setMessages((prev) => [...prev, aiResponse]);
+        });
         setCurrentSkill(response.skill);
 
-        // Play audio response if TTS enabled
-        if (audioUrl && ttsEnabled) {
-          await playTutorAudio(audioUrl);
+        // Speak whatever did not end in a sentence boundary (or the whole reply for JSON responses)
+        if (shouldSpeak()) {
+          enqueueTutorSpeech(wasStreamed ? pendingSpeech : replyWithoutTags);
         }
       } catch (error) {
+        // Interrupted on purpose: whatever streamed in so far stays in the chat, and
+        // socratic-tutor saves the turn with the partial reply it had generated
+        if (controller.signal.aborted) return;
         console.error("Tutor error:", error);
         toast.error(error instanceof Error ? error.message : "Error al comunicarse con el tutor");
 
         const fallbackResponse: Message = {
-          id: (Date.now() + 1).toString(),
+          id: (Date.now() + 2).toString(),
           role: "assistant",
           content: isPrimary
             ? "¡Ups! Tuve un problemita. ¿Puedes intentar de nuevo? 🙏"
@@ -305,7 +541,12 @@ export function useTutorSession({
         };
         setMessages((prev) => [...prev, fallbackResponse]);
       } finally {
-        setIsLoading(false);
+        // A newer turn owns the loading state once it has replaced this one
+        if (requestAbortRef.current === controller) {
+          requestAbortRef.current = null;
+          setIsLoading(false);
+          setIsStreaming(false);
+        }
       }
     },
     [
@@ -316,10 +557,12 @@ export function useTutorSession({
       studentName,
       languageMode,
       sessionMode,
+      icfesContext,
       stopTutorAudio,
-      playTutorAudio,
+      enqueueTutorSpeech,
       onBoardActions,
       onWhiteboardEvents,
+      onDrawingCommands,
       isPrimary,
       ttsEnabled,
     ],
@@ -328,11 +571,13 @@ export function useTutorSession({
   return {
     messages,
     isLoading,
+    isStreaming,
     isTutorSpeaking,
     currentSkill,
     sessionId,
     isWaitingForBoard, // NUEVO
     sendMessage,
     stopTutorAudio,
+    interruptTutor,
   };
 }
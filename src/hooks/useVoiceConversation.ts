@@ -0,0 +1,271 @@
+import { useState, useRef, useEffect } from "react";
+import {
+  transcribeAudio,
+  TranscriptionError,
+  MAX_AUDIO_BYTES,
+  MIN_CONFIDENCE,
+  type TranscriptionResult,
+} from "@/hooks/useVoiceRecorder";
+
+// Whose turn it is in hands-free mode, for the on-screen indicator
+export type ConversationTurn = "idle" | "listening" | "student" | "thinking" | "tutor";
+
+interface UseVoiceConversationOptions {
+  enabled: boolean;
+  isTutorSpeaking: boolean;
+  isTutorBusy: boolean;
+  onUserTurn: (text: string, result: TranscriptionResult) => void;
+  // Must also end the reply in flight: the student's turn is sent while Nova may still be busy
+  onBargeIn: () => void;
+  // `fatal` errors (no microphone, permission denied) mean the mode cannot continue
+  onError?: (error: string, fatal: boolean) => void;
+  languageMode?: "es" | "en" | "bridge";
+}
+
+// Voice activity detection tuning (RMS of the raw waveform, 0..1)
+const VAD_FRAME_MS = 50;
+const SPEECH_START_FRAMES = 3; // ~150ms of sound before we call it speech
+const END_OF_TURN_SILENCE_MS = 1200;
+const MIN_SPEECH_MS = 400; // Shorter bursts are coughs, clicks or table knocks
+const MAX_TURN_MS = 30000;
+const MIN_RMS_THRESHOLD = 0.015;
+const NOISE_FLOOR_MULTIPLIER = 3;
+// Some of Nova's voice leaks into the mic even with echo cancellation,
+// so interrupting her needs a clearly louder onset
+const BARGE_IN_MULTIPLIER = 2;
+
+type VadPhase = "waiting" | "onset" | "speaking" | "transcribing";
+
+function readRms(analyser: AnalyserNode, buffer: Float32Array): number {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  return Math.sqrt(sum / buffer.length);
+}
+
+export function useVoiceConversation({
+  enabled,
+  isTutorSpeaking,
+  isTutorBusy,
+  onUserTurn,
+  onBargeIn,
+  onError,
+  languageMode = "es",
+}: UseVoiceConversationOptions) {
+  const [isStudentSpeaking, setIsStudentSpeaking] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
+  // The VAD loop runs outside React, so it reads the latest props through refs
+  const tutorSpeakingRef = useRef(isTutorSpeaking);
+  const tutorBusyRef = useRef(isTutorBusy);
+  const callbacksRef = useRef({ onUserTurn, onBargeIn, onError });
+
+  useEffect(() => {
+    tutorSpeakingRef.current = isTutorSpeaking;
+    tutorBusyRef.current = isTutorBusy;
+    callbacksRef.current = { onUserTurn, onBargeIn, onError };
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let vadTimer: ReturnType<typeof setInterval> | null = null;
+    let recorder: MediaRecorder | null = null;
+    let chunks: Blob[] = [];
+    let abortController: AbortController | null = null;
+
+    let phase: VadPhase = "waiting";
+    let loudFrames = 0;
+    let noiseFloor = MIN_RMS_THRESHOLD / NOISE_FLOOR_MULTIPLIER;
+    let speechStartedAt = 0;
+    let lastVoiceAt = 0;
+
+    const startCapture = (source: MediaStream) => {
+      chunks = [];
+      recorder = new MediaRecorder(source, {
+        mimeType: MediaRecorder.isTypeSupported("audio/webm") ? "audio/webm" : "audio/mp4",
+      });
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start(100);
+    };
+
+    const discardCapture = () => {
+      if (recorder && recorder.state !== "inactive") {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      recorder = null;
+      chunks = [];
+    };
+
+    const transcribeTurn = async (audioBlob: Blob) => {
+      setIsTranscribing(true);
+      abortController = new AbortController();
+      const controller = abortController;
+
+      try {
+        if (audioBlob.size > MAX_AUDIO_BYTES) {
+          throw new TranscriptionError("El audio es demasiado largo. Intenta con un mensaje más corto.");
+        }
+
+        const result = await transcribeAudio(audioBlob, languageMode, controller.signal);
+
+        // Low-confidence turns are usually background noise: keep listening silently
+        if (!result.text || result.confidence < MIN_CONFIDENCE) return;
+
+        if (!cancelled) callbacksRef.current.onUserTurn(result.text, result);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Conversation transcription failed:", err);
+        callbacksRef.current.onError?.(
+          err instanceof TranscriptionError ? err.message : "No se pudo transcribir el audio. Inténtalo de nuevo.",
+          false,
+        );
+      } finally {
+        if (!cancelled) {
+          setIsTranscribing(false);
+          phase = "waiting";
+        }
+      }
+    };
+
+    const finishCapture = () => {
+      const activeRecorder = recorder;
+      recorder = null;
+      setIsStudentSpeaking(false);
+
+      if (!activeRecorder || lastVoiceAt - speechStartedAt < MIN_SPEECH_MS) {
+        if (activeRecorder) {
+          activeRecorder.onstop = null;
+          activeRecorder.stop();
+        }
+        phase = "waiting";
+        return;
+      }
+
+      phase = "transcribing";
+      activeRecorder.onstop = () => {
+        transcribeTurn(new Blob(chunks, { type: activeRecorder.mimeType }));
+      };
+      activeRecorder.stop();
+    };
+
+    const tick = (analyser: AnalyserNode, buffer: Float32Array, source: MediaStream) => {
+      const rms = readRms(analyser, buffer);
+      const now = performance.now();
+      const tutorSpeaking = tutorSpeakingRef.current;
+      const threshold =
+        Math.max(MIN_RMS_THRESHOLD, noiseFloor * NOISE_FLOOR_MULTIPLIER) *
+        (tutorSpeaking ? BARGE_IN_MULTIPLIER : 1);
+      const isLoud = rms > threshold;
+
+      switch (phase) {
+        case "waiting":
+          // Nova is preparing an answer and not talking yet: nothing to interrupt
+          if (tutorBusyRef.current && !tutorSpeaking) return;
+
+          if (isLoud) {
+            // Start recording on the first loud frame so the first syllable is not lost
+            startCapture(source);
+            loudFrames = 1;
+            speechStartedAt = now;
+            phase = "onset";
+          } else if (!tutorSpeaking) {
+            noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+          }
+          return;
+
+        case "onset":
+          if (!isLoud) {
+            discardCapture();
+            phase = "waiting";
+            return;
+          }
+          loudFrames += 1;
+          if (loudFrames >= SPEECH_START_FRAMES) {
+            phase = "speaking";
+            lastVoiceAt = now;
+            setIsStudentSpeaking(true);
+            if (tutorSpeaking) callbacksRef.current.onBargeIn();
+          }
+          return;
+
+        case "speaking":
+          if (isLoud) lastVoiceAt = now;
+          if (now - lastVoiceAt >= END_OF_TURN_SILENCE_MS || now - speechStartedAt >= MAX_TURN_MS) {
+            finishCapture();
+          }
+          return;
+
+        case "transcribing":
+          return;
+      }
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+          },
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        audioContext = new AudioContext();
+        await audioContext.resume();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+
+        const buffer = new Float32Array(analyser.fftSize);
+        const source = stream;
+        vadTimer = setInterval(() => tick(analyser, buffer, source), VAD_FRAME_MS);
+      } catch (err) {
+        let errorMessage = "No se pudo acceder al micrófono.";
+
+        if (err instanceof Error) {
+          if (err.name === "NotAllowedError") {
+            errorMessage = "Permiso de micrófono denegado. Por favor, habilítalo en tu navegador.";
+          } else if (err.name === "NotFoundError") {
+            errorMessage = "No se encontró ningún micrófono en tu dispositivo.";
+          }
+        }
+
+        if (!cancelled) callbacksRef.current.onError?.(errorMessage, true);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (vadTimer) clearInterval(vadTimer);
+      discardCapture();
+      abortController?.abort();
+      stream?.getTracks().forEach((track) => track.stop());
+      audioContext?.close();
+      setIsStudentSpeaking(false);
+      setIsTranscribing(false);
+    };
+  }, [enabled, languageMode]);
+
+  let turn: ConversationTurn = "listening";
+  if (!enabled) turn = "idle";
+  else if (isStudentSpeaking) turn = "student";
+  else if (isTutorSpeaking) turn = "tutor";
+  else if (isTranscribing || isTutorBusy) turn = "thinking";
+
+  return { turn };
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 
 export interface VoiceRecorderState {
   isRecording: boolean;
@@ -6,24 +6,66 @@ export interface VoiceRecorderState {
   error: string | null;
 }
 
+export interface TranscriptionResult {
+  text: string;
+  confidence: number;
+  language: string | null;
+}
+
 interface UseVoiceRecorderOptions {
-  onTranscription: (text: string) => void;
+  onTranscription: (text: string, result: TranscriptionResult) => void;
   onError?: (error: string) => void;
+  languageMode?: "es" | "en" | "bridge";
+  maxDurationSeconds?: number;
 }
 
-// Placeholder function for transcription - will be replaced with OpenAI API call
-async function transcribeAudio(audioBlob: Blob): Promise<string> {
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-  
-  // Placeholder response - in production, send audioBlob to OpenAI Whisper API
-  console.log("Audio blob ready for transcription:", audioBlob.size, "bytes");
-  
-  // Return a placeholder message for now
-  return "Esto es un mensaje de prueba transcrito por voz.";
+// Recording limits (the speech-to-text function rejects anything over 10MB)
+const DEFAULT_MAX_DURATION_SECONDS = 60;
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+// Below this the transcript is probably noise or mumbling
+export const MIN_CONFIDENCE = 0.3;
+
+export class TranscriptionError extends Error {}
+
+// Send the recorded blob to the speech-to-text edge function
+export async function transcribeAudio(
+  audioBlob: Blob,
+  languageMode: "es" | "en" | "bridge",
+  signal: AbortSignal,
+): Promise<TranscriptionResult> {
+  const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+  const form = new FormData();
+  form.append("audio", audioBlob, audioBlob.type.includes("mp4") ? "audio.mp4" : "audio.webm");
+  form.append("languageMode", languageMode);
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/speech-to-text`, {
+    method: "POST",
+    body: form,
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    if (response.status === 413) {
+      throw new TranscriptionError("El audio es demasiado largo. Intenta con un mensaje más corto.");
+    }
+    if (response.status === 429) {
+      throw new TranscriptionError("Demasiadas solicitudes. Por favor, espera un momento.");
+    }
+    console.error("STT API error:", response.status, errorData);
+    throw new TranscriptionError("No se pudo transcribir el audio. Inténtalo de nuevo.");
+  }
+
+  return response.json();
 }
 
-export function useVoiceRecorder({ onTranscription, onError }: UseVoiceRecorderOptions) {
+export function useVoiceRecorder({
+  onTranscription,
+  onError,
+  languageMode = "es",
+  maxDurationSeconds = DEFAULT_MAX_DURATION_SECONDS,
+}: UseVoiceRecorderOptions) {
   const [state, setState] = useState<VoiceRecorderState>({
     isRecording: false,
     isProcessing: false,
@@ -32,63 +74,117 @@ export function useVoiceRecorder({ onTranscription, onError }: UseVoiceRecorderO
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const recordedBytesRef = useRef(0);
+  const discardRef = useRef(false);
+  const maxDurationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const clearMaxDurationTimer = () => {
+    if (maxDurationTimerRef.current) {
+      clearTimeout(maxDurationTimerRef.current);
+      maxDurationTimerRef.current = null;
+    }
+  };
+
+  const fail = useCallback(
+    (errorMessage: string) => {
+      setState({ isRecording: false, isProcessing: false, error: errorMessage });
+      onError?.(errorMessage);
+    },
+    [onError],
+  );
 
   const startRecording = useCallback(async () => {
     try {
       setState({ isRecording: true, isProcessing: false, error: null });
       chunksRef.current = [];
+      recordedBytesRef.current = 0;
+      discardRef.current = false;
 
-      const stream = await navigator.mediaDevices.getUserMedia({ 
+      const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
           echoCancellation: true,
           noiseSuppression: true,
           sampleRate: 16000,
-        } 
+        }
       });
 
       const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported("audio/webm") 
-          ? "audio/webm" 
+        mimeType: MediaRecorder.isTypeSupported("audio/webm")
+          ? "audio/webm"
           : "audio/mp4",
       });
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
+          recordedBytesRef.current += event.data.size;
+
+          // Stop early rather than record something the server will reject
+          if (recordedBytesRef.current >= MAX_AUDIO_BYTES && mediaRecorder.state === "recording") {
+            mediaRecorder.stop();
+          }
         }
       };
 
       mediaRecorder.onstop = async () => {
+        clearMaxDurationTimer();
         // Stop all tracks
         stream.getTracks().forEach((track) => track.stop());
+        mediaRecorderRef.current = null;
 
-        if (chunksRef.current.length === 0) {
+        if (discardRef.current || chunksRef.current.length === 0) {
           setState({ isRecording: false, isProcessing: false, error: null });
           return;
         }
 
         setState({ isRecording: false, isProcessing: true, error: null });
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+
         try {
-          const audioBlob = new Blob(chunksRef.current, { 
-            type: mediaRecorder.mimeType 
+          const audioBlob = new Blob(chunksRef.current, {
+            type: mediaRecorder.mimeType
           });
-          
-          const transcription = await transcribeAudio(audioBlob);
-          onTranscription(transcription);
+
+          if (audioBlob.size > MAX_AUDIO_BYTES) {
+            throw new TranscriptionError("El audio es demasiado largo. Intenta con un mensaje más corto.");
+          }
+
+          const result = await transcribeAudio(audioBlob, languageMode, abortController.signal);
+
+          if (!result.text || result.confidence < MIN_CONFIDENCE) {
+            throw new TranscriptionError("No te escuché bien. ¿Puedes repetirlo más despacio?");
+          }
+
+          onTranscription(result.text, result);
           setState({ isRecording: false, isProcessing: false, error: null });
         } catch (err) {
-          const errorMessage = "No se pudo transcribir el audio. Inténtalo de nuevo.";
-          setState({ isRecording: false, isProcessing: false, error: errorMessage });
-          onError?.(errorMessage);
+          if (abortController.signal.aborted) {
+            setState({ isRecording: false, isProcessing: false, error: null });
+            return;
+          }
+          console.error("Transcription failed:", err);
+          fail(err instanceof TranscriptionError ? err.message : "No se pudo transcribir el audio. Inténtalo de nuevo.");
+        } finally {
+          if (abortControllerRef.current === abortController) {
+            abortControllerRef.current = null;
+          }
         }
       };
 
       mediaRecorderRef.current = mediaRecorder;
       mediaRecorder.start(100); // Collect data every 100ms
+
+      maxDurationTimerRef.current = setTimeout(() => {
+        if (mediaRecorder.state === "recording") {
+          mediaRecorder.stop();
+        }
+      }, maxDurationSeconds * 1000);
     } catch (err) {
       let errorMessage = "No se pudo acceder al micrófono.";
-      
+
       if (err instanceof Error) {
         if (err.name === "NotAllowedError") {
           errorMessage = "Permiso de micrófono denegado. Por favor, habilítalo en tu navegador.";
@@ -97,10 +193,9 @@ export function useVoiceRecorder({ onTranscription, onError }: UseVoiceRecorderO
         }
       }
 
-      setState({ isRecording: false, isProcessing: false, error: errorMessage });
-      onError?.(errorMessage);
+      fail(errorMessage);
     }
-  }, [onTranscription, onError]);
+  }, [onTranscription, fail, languageMode, maxDurationSeconds]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording) {
@@ -108,6 +203,19 @@ export function useVoiceRecorder({ onTranscription, onError }: UseVoiceRecorderO
     }
   }, [state.isRecording]);
 
+  // Drop the current recording, or abort a transcription already in flight
+  const cancelRecording = useCallback(() => {
+    discardRef.current = true;
+    clearMaxDurationTimer();
+
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      mediaRecorderRef.current.stop();
+    }
+    abortControllerRef.current?.abort();
+
+    setState({ isRecording: false, isProcessing: false, error: null });
+  }, []);
+
   const toggleRecording = useCallback(() => {
     if (state.isRecording) {
       stopRecording();
@@ -116,10 +224,14 @@ export function useVoiceRecorder({ onTranscription, onError }: UseVoiceRecorderO
     }
   }, [state.isRecording, startRecording, stopRecording]);
 
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => cancelRecording, [cancelRecording]);
+
   return {
     ...state,
     startRecording,
     stopRecording,
+    cancelRecording,
     toggleRecording,
   };
 }
@@ -14,6 +14,446 @@ export type Database = {
   }
   public: {
     Tables: {
+      arena_challenge_answers: {
+        Row: {
+          answer: string
+          answered_at: string
+          is_correct: boolean
+          participant_id: string
+          question_id: string
+        }
+        Insert: {
+          answer: string
+          answered_at?: string
+          is_correct: boolean
+          participant_id: string
+          question_id: string
+        }
+        Update: {
+          answer?: string
+          answered_at?: string
+          is_correct?: boolean
+          participant_id?: string
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_challenge_answers_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "arena_challenge_participants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_challenge_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "icfes_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      arena_challenge_participants: {
+        Row: {
+          answered_count: number
+          challenge_id: string
+          correct_count: number
+          final_rank: number | null
+          finished_at: string | null
+          id: string
+          joined_at: string
+          prize_coins: number
+          student_id: string
+        }
+        Insert: {
+          answered_count?: number
+          challenge_id: string
+          correct_count?: number
+          final_rank?: number | null
+          finished_at?: string | null
+          id?: string
+          joined_at?: string
+          prize_coins?: number
+          student_id: string
+        }
+        Update: {
+          answered_count?: number
+          challenge_id?: string
+          correct_count?: number
+          final_rank?: number | null
+          finished_at?: string | null
+          id?: string
+          joined_at?: string
+          prize_coins?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_challenge_participants_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "arena_challenges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_challenge_participants_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      arena_challenge_questions: {
+        Row: {
+          challenge_id: string
+          position: number
+          question_id: string
+        }
+        Insert: {
+          challenge_id: string
+          position: number
+          question_id: string
+        }
+        Update: {
+          challenge_id?: string
+          position?: number
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_challenge_questions_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "arena_challenges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_challenge_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "icfes_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      arena_challenges: {
+        Row: {
+          area: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          difficulty: string
+          ends_at: string
+          grade_level: number | null
+          id: string
+          prize_coins: number
+          settled_at: string | null
+          starts_at: string
+          title: string
+          updated_at: string
+          winner_count: number
+        }
+        Insert: {
+          area: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          difficulty?: string
+          ends_at: string
+          grade_level?: number | null
+          id?: string
+          prize_coins: number
+          settled_at?: string | null
+          starts_at: string
+          title: string
+          updated_at?: string
+          winner_count?: number
+        }
+        Update: {
+          area?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          difficulty?: string
+          ends_at?: string
+          grade_level?: number | null
+          id?: string
+          prize_coins?: number
+          settled_at?: string | null
+          starts_at?: string
+          title?: string
+          updated_at?: string
+          winner_count?: number
+        }
+        Relationships: []
+      }
+      arena_duel_answers: {
+        Row: {
+          answered_at: string
+          duel_id: string
+          is_correct: boolean
+          option: string
+          points: number
+          position: number
+          student_id: string
+        }
+        Insert: {
+          answered_at?: string
+          duel_id: string
+          is_correct: boolean
+          option: string
+          points: number
+          position: number
+          student_id: string
+        }
+        Update: {
+          answered_at?: string
+          duel_id?: string
+          is_correct?: boolean
+          option?: string
+          points?: number
+          position?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_duel_answers_duel_id_fkey"
+            columns: ["duel_id"]
+            isOneToOne: false
+            referencedRelation: "arena_duels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      arena_duel_participants: {
+        Row: {
+          coins_awarded: number
+          correct_count: number
+          duel_id: string
+          final_rank: number | null
+          joined_at: string
+          score: number
+          student_id: string
+        }
+        Insert: {
+          coins_awarded?: number
+          correct_count?: number
+          duel_id: string
+          final_rank?: number | null
+          joined_at?: string
+          score?: number
+          student_id: string
+        }
+        Update: {
+          coins_awarded?: number
+          correct_count?: number
+          duel_id?: string
+          final_rank?: number | null
+          joined_at?: string
+          score?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_duel_participants_duel_id_fkey"
+            columns: ["duel_id"]
+            isOneToOne: false
+            referencedRelation: "arena_duels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_duel_participants_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      arena_duel_questions: {
+        Row: {
+          correct_option: string
+          duel_id: string
+          flashcard_id: string | null
+          options: Json
+          position: number
+          prompt: string
+          question_id: string | null
+        }
+        Insert: {
+          correct_option: string
+          duel_id: string
+          flashcard_id?: string | null
+          options: Json
+          position: number
+          prompt: string
+          question_id?: string | null
+        }
+        Update: {
+          correct_option?: string
+          duel_id?: string
+          flashcard_id?: string | null
+          options?: Json
+          position?: number
+          prompt?: string
+          question_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_duel_questions_duel_id_fkey"
+            columns: ["duel_id"]
+            isOneToOne: false
+            referencedRelation: "arena_duels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_duel_questions_flashcard_id_fkey"
+            columns: ["flashcard_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_duel_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "icfes_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      arena_duels: {
+        Row: {
+          area: string | null
+          code: string
+          created_at: string
+          deck_id: string | null
+          difficulty: string
+          finished_at: string | null
+          host_id: string
+          id: string
+          max_players: number
+          question_count: number
+          seconds_per_question: number
+          source: string
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          area?: string | null
+          code: string
+          created_at?: string
+          deck_id?: string | null
+          difficulty?: string
+          finished_at?: string | null
+          host_id: string
+          id?: string
+          max_players?: number
+          question_count: number
+          seconds_per_question?: number
+          source: string
+          started_at?: string | null
+          status?: string
+        }
+        Update: {
+          area?: string | null
+          code?: string
+          created_at?: string
+          deck_id?: string | null
+          difficulty?: string
+          finished_at?: string | null
+          host_id?: string
+          id?: string
+          max_players?: number
+          question_count?: number
+          seconds_per_question?: number
+          source?: string
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_duels_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_decks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "arena_duels_host_id_fkey"
+            columns: ["host_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      arena_profiles: {
+        Row: {
+          hide_from_leaderboards: boolean
+          nickname: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          hide_from_leaderboards?: boolean
+          nickname?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          hide_from_leaderboards?: boolean
+          nickname?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "arena_profiles_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: true
+            referencedRelation: "student_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      coin_earning_rules: {
+        Row: {
+          amount: number
+          conditions: Json
+          created_at: string
+          daily_cap: number | null
+          event_type: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          conditions?: Json
+          created_at?: string
+          daily_cap?: number | null
+          event_type: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          conditions?: Json
+          created_at?: string
+          daily_cap?: number | null
+          event_type?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       coin_transactions: {
         Row: {
           amount: number
@@ -21,6 +461,10 @@ export type Database = {
           created_by_admin_id: string | null
           id: string
           reason: string
+          redemption_id: string | null
+          rule_id: string | null
+          source_id: string | null
+          source_type: string | null
           student_id: string
           type: string
         }
@@ -30,6 +474,10 @@ export type Database = {
           created_by_admin_id?: string | null
           id?: string
           reason: string
+          redemption_id?: string | null
+          rule_id?: string | null
+          source_id?: string | null
+          source_type?: string | null
           student_id: string
           type: string
         }
@@ -39,10 +487,28 @@ export type Database = {
           created_by_admin_id?: string | null
           id?: string
           reason?: string
+          redemption_id?: string | null
+          rule_id?: string | null
+          source_id?: string | null
+          source_type?: string | null
           student_id?: string
           type?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "coin_transactions_redemption_id_fkey"
+            columns: ["redemption_id"]
+            isOneToOne: false
+            referencedRelation: "reward_redemptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_transactions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "coin_earning_rules"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "coin_transactions_student_id_fkey"
             columns: ["student_id"]
@@ -52,6 +518,232 @@ export type Database = {
           },
         ]
       }
+      flashcard_candidates: {
+        Row: {
+          back: string
+          card_id: string | null
+          created_at: string
+          front: string
+          id: string
+          kind: string
+          reviewed_at: string | null
+          source_id: string
+          source_label: string | null
+          source_type: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          back: string
+          card_id?: string | null
+          created_at?: string
+          front: string
+          id?: string
+          kind: string
+          reviewed_at?: string | null
+          source_id: string
+          source_label?: string | null
+          source_type: string
+          status?: string
+          student_id: string
+        }
+        Update: {
+          back?: string
+          card_id?: string | null
+          created_at?: string
+          front?: string
+          id?: string
+          kind?: string
+          reviewed_at?: string | null
+          source_id?: string
+          source_label?: string | null
+          source_type?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_candidates_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flashcard_decks: {
+        Row: {
+          color: string
+          created_at: string
+          description: string | null
+          id: string
+          student_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          student_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          student_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      flashcard_reviews: {
+        Row: {
+          card_id: string
+          deck_id: string
+          ease_factor: number
+          grade: number
+          id: string
+          interval_days: number
+          reviewed_at: string
+          student_id: string
+        }
+        Insert: {
+          card_id: string
+          deck_id: string
+          ease_factor: number
+          grade: number
+          id?: string
+          interval_days: number
+          reviewed_at?: string
+          student_id: string
+        }
+        Update: {
+          card_id?: string
+          deck_id?: string
+          ease_factor?: number
+          grade?: number
+          id?: string
+          interval_days?: number
+          reviewed_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_reviews_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flashcard_reviews_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_decks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flashcard_sources: {
+        Row: {
+          candidates_created: number
+          processed_at: string
+          source_id: string
+          source_type: string
+          student_id: string
+        }
+        Insert: {
+          candidates_created?: number
+          processed_at?: string
+          source_id: string
+          source_type: string
+          student_id: string
+        }
+        Update: {
+          candidates_created?: number
+          processed_at?: string
+          source_id?: string
+          source_type?: string
+          student_id?: string
+        }
+        Relationships: []
+      }
+      flashcards: {
+        Row: {
+          back: string
+          back_image_url: string | null
+          created_at: string
+          deck_id: string
+          due_at: string
+          ease_factor: number
+          front: string
+          front_image_url: string | null
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          repetitions: number
+          source_id: string | null
+          source_label: string | null
+          source_type: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          back: string
+          back_image_url?: string | null
+          created_at?: string
+          deck_id: string
+          due_at?: string
+          ease_factor?: number
+          front: string
+          front_image_url?: string | null
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          repetitions?: number
+          source_id?: string | null
+          source_label?: string | null
+          source_type?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          back?: string
+          back_image_url?: string | null
+          created_at?: string
+          deck_id?: string
+          due_at?: string
+          ease_factor?: number
+          front?: string
+          front_image_url?: string | null
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          repetitions?: number
+          source_id?: string | null
+          source_label?: string | null
+          source_type?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcards_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_decks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       guardian_profiles: {
         Row: {
           created_at: string
@@ -112,6 +804,35 @@ export type Database = {
         }
         Relationships: []
       }
+      guardian_student_settings: {
+        Row: {
+          approve_redemptions: boolean
+          hide_from_leaderboards: boolean
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          approve_redemptions?: boolean
+          hide_from_leaderboards?: boolean
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          approve_redemptions?: boolean
+          hide_from_leaderboards?: boolean
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_student_settings_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: true
+            referencedRelation: "student_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       homework_submissions: {
         Row: {
           homework_task_id: string
@@ -221,8 +942,11 @@ export type Database = {
           created_at: string
           id: string
           is_correct: boolean | null
+          position: number | null
+          previous_respuestas: string[]
           question_id: string
           respuesta: string | null
+          section: number | null
           student_id: string
           time_spent_seconds: number | null
         }
@@ -232,8 +956,11 @@ export type Database = {
           created_at?: string
           id?: string
           is_correct?: boolean | null
+          position?: number | null
+          previous_respuestas?: string[]
           question_id: string
           respuesta?: string | null
+          section?: number | null
           student_id: string
           time_spent_seconds?: number | null
         }
@@ -243,8 +970,11 @@ export type Database = {
           created_at?: string
           id?: string
           is_correct?: boolean | null
+          position?: number | null
+          previous_respuestas?: string[]
           question_id?: string
           respuesta?: string | null
+          section?: number | null
           student_id?: string
           time_spent_seconds?: number | null
         }
@@ -265,6 +995,32 @@ export type Database = {
           },
         ]
       }
+      icfes_attempt_question_sets: {
+        Row: {
+          attempt_id: string
+          created_at: string
+          sessions: Json
+        }
+        Insert: {
+          attempt_id: string
+          created_at?: string
+          sessions: Json
+        }
+        Update: {
+          attempt_id?: string
+          created_at?: string
+          sessions?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "icfes_attempt_question_sets_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: true
+            referencedRelation: "icfes_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       icfes_attempts: {
         Row: {
           areas: string[]
@@ -272,6 +1028,7 @@ export type Database = {
           created_at: string
           id: string
           mode: string
+          progress: Json | null
           score_global: number | null
           scores_by_area: Json | null
           started_at: string
@@ -287,6 +1044,7 @@ export type Database = {
           created_at?: string
           id?: string
           mode: string
+          progress?: Json | null
           score_global?: number | null
           scores_by_area?: Json | null
           started_at?: string
@@ -302,6 +1060,7 @@ export type Database = {
           created_at?: string
           id?: string
           mode?: string
+          progress?: Json | null
           score_global?: number | null
           scores_by_area?: Json | null
           started_at?: string
@@ -313,62 +1072,167 @@ export type Database = {
         }
         Relationships: []
       }
+      icfes_passages: {
+        Row: {
+          area: string
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          imagen_url: string | null
+          kind: string
+          options: Json | null
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          area: string
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          imagen_url?: string | null
+          kind?: string
+          options?: Json | null
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          area?: string
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          imagen_url?: string | null
+          kind?: string
+          options?: Json | null
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      icfes_percentile_reference: {
+        Row: {
+          created_at: string
+          id: string
+          min_score: number
+          percentile: number
+          reference_year: number
+          scope: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          min_score: number
+          percentile: number
+          reference_year: number
+          scope: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          min_score?: number
+          percentile?: number
+          reference_year?: number
+          scope?: string
+        }
+        Relationships: []
+      }
       icfes_questions: {
         Row: {
           area: string
+          calibrated_at: string | null
           competencia: string | null
           created_at: string
+          created_by: string | null
           dificultad: number
           enunciado: string
           explicacion: string | null
+          formato: string
           id: string
           imagen_url: string | null
+          irt_difficulty: number | null
+          irt_responses: number
           is_active: boolean
-          opcion_a: string
-          opcion_b: string
-          opcion_c: string
-          opcion_d: string
+          opcion_a: string | null
+          opcion_b: string | null
+          opcion_c: string | null
+          opcion_d: string | null
+          passage_id: string | null
+          passage_order: number | null
           respuesta_correcta: string
+          review_status: string
+          reviewed_at: string | null
+          reviewed_by: string | null
           updated_at: string
         }
         Insert: {
           area: string
+          calibrated_at?: string | null
           competencia?: string | null
           created_at?: string
+          created_by?: string | null
           dificultad?: number
           enunciado: string
           explicacion?: string | null
+          formato?: string
           id?: string
           imagen_url?: string | null
+          irt_difficulty?: number | null
+          irt_responses?: number
           is_active?: boolean
-          opcion_a: string
-          opcion_b: string
-          opcion_c: string
-          opcion_d: string
+          opcion_a?: string | null
+          opcion_b?: string | null
+          opcion_c?: string | null
+          opcion_d?: string | null
+          passage_id?: string | null
+          passage_order?: number | null
           respuesta_correcta: string
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           updated_at?: string
         }
         Update: {
           area?: string
+          calibrated_at?: string | null
           competencia?: string | null
           created_at?: string
+          created_by?: string | null
           dificultad?: number
           enunciado?: string
           explicacion?: string | null
+          formato?: string
           id?: string
           imagen_url?: string | null
+          irt_difficulty?: number | null
+          irt_responses?: number
           is_active?: boolean
-          opcion_a?: string
-          opcion_b?: string
-          opcion_c?: string
-          opcion_d?: string
+          opcion_a?: string | null
+          opcion_b?: string | null
+          opcion_c?: string | null
+          opcion_d?: string | null
+          passage_id?: string | null
+          passage_order?: number | null
           respuesta_correcta?: string
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "icfes_questions_passage_id_fkey"
+            columns: ["passage_id"]
+            isOneToOne: false
+            referencedRelation: "icfes_passages"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       icfes_results: {
         Row: {
+          attempt_id: string | null
           completed_at: string
           created_at: string
           id: string
@@ -378,6 +1242,7 @@ export type Database = {
           time_spent_seconds: number | null
         }
         Insert: {
+          attempt_id?: string | null
           completed_at?: string
           created_at?: string
           id?: string
@@ -387,6 +1252,7 @@ export type Database = {
           time_spent_seconds?: number | null
         }
         Update: {
+          attempt_id?: string | null
           completed_at?: string
           created_at?: string
           id?: string
@@ -395,17 +1261,29 @@ export type Database = {
           student_id?: string
           time_spent_seconds?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "icfes_results_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: true
+            referencedRelation: "icfes_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       icfes_stats: {
         Row: {
           avg_score_global: number | null
+          best_score_global: number | null
+          current_streak_days: number
           last_attempt_at: string | null
+          longest_streak_days: number
           score_ciencias: number | null
           score_ingles: number | null
           score_lectura_critica: number | null
           score_matematicas: number | null
           score_sociales: number | null
+          scores_by_competencia: Json
           strongest_area: string | null
           student_id: string
           total_correct: number
@@ -416,12 +1294,16 @@ export type Database = {
         }
         Insert: {
           avg_score_global?: number | null
+          best_score_global?: number | null
+          current_streak_days?: number
           last_attempt_at?: string | null
+          longest_streak_days?: number
           score_ciencias?: number | null
           score_ingles?: number | null
           score_lectura_critica?: number | null
           score_matematicas?: number | null
           score_sociales?: number | null
+          scores_by_competencia?: Json
           strongest_area?: string | null
           student_id: string
           total_correct?: number
@@ -432,12 +1314,16 @@ export type Database = {
         }
         Update: {
           avg_score_global?: number | null
+          best_score_global?: number | null
+          current_streak_days?: number
           last_attempt_at?: string | null
+          longest_streak_days?: number
           score_ciencias?: number | null
           score_ingles?: number | null
           score_lectura_critica?: number | null
           score_matematicas?: number | null
           score_sociales?: number | null
+          scores_by_competencia?: Json
           strongest_area?: string | null
           student_id?: string
           total_correct?: number
@@ -665,32 +1551,124 @@ export type Database = {
         }
         Relationships: []
       }
+      reward_codes: {
+        Row: {
+          assigned_at: string | null
+          code: string
+          created_at: string
+          id: string
+          redemption_id: string | null
+          reward_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          code: string
+          created_at?: string
+          id?: string
+          redemption_id?: string | null
+          reward_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          code?: string
+          created_at?: string
+          id?: string
+          redemption_id?: string | null
+          reward_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reward_codes_redemption_id_fkey"
+            columns: ["redemption_id"]
+            isOneToOne: true
+            referencedRelation: "reward_redemptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reward_codes_reward_id_fkey"
+            columns: ["reward_id"]
+            isOneToOne: false
+            referencedRelation: "rewards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reward_redemption_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: string
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          redemption_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          redemption_id: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          redemption_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reward_redemption_events_redemption_id_fkey"
+            columns: ["redemption_id"]
+            isOneToOne: false
+            referencedRelation: "reward_redemptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reward_redemptions: {
         Row: {
+          coins_spent: number | null
           created_at: string
           delivered_at: string | null
           delivered_by_admin_id: string | null
+          digital_code: string | null
           id: string
           reward_id: string
           status: string
+          status_changed_at: string
           student_id: string
         }
         Insert: {
+          coins_spent?: number | null
           created_at?: string
           delivered_at?: string | null
           delivered_by_admin_id?: string | null
+          digital_code?: string | null
           id?: string
           reward_id: string
           status?: string
+          status_changed_at?: string
           student_id: string
         }
         Update: {
+          coins_spent?: number | null
           created_at?: string
           delivered_at?: string | null
           delivered_by_admin_id?: string | null
+          digital_code?: string | null
           id?: string
           reward_id?: string
           status?: string
+          status_changed_at?: string
           student_id?: string
         }
         Relationships: [
@@ -716,9 +1694,13 @@ export type Database = {
           cost_coins: number
           created_at: string
           description: string | null
+          fulfillment_type: string
           id: string
           is_active: boolean
+          max_per_student: number | null
           name: string
+          stock: number | null
+          unlock_item_key: string | null
           updated_at: string
         }
         Insert: {
@@ -726,9 +1708,13 @@ export type Database = {
           cost_coins: number
           created_at?: string
           description?: string | null
+          fulfillment_type?: string
           id?: string
           is_active?: boolean
+          max_per_student?: number | null
           name: string
+          stock?: number | null
+          unlock_item_key?: string | null
           updated_at?: string
         }
         Update: {
@@ -736,9 +1722,13 @@ export type Database = {
           cost_coins?: number
           created_at?: string
           description?: string | null
+          fulfillment_type?: string
           id?: string
           is_active?: boolean
+          max_per_student?: number | null
           name?: string
+          stock?: number | null
+          unlock_item_key?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -980,6 +1970,101 @@ export type Database = {
           },
         ]
       }
+      student_unlocked_items: {
+        Row: {
+          id: string
+          item_key: string
+          reward_id: string | null
+          student_id: string
+          unlocked_at: string
+        }
+        Insert: {
+          id?: string
+          item_key: string
+          reward_id?: string | null
+          student_id: string
+          unlocked_at?: string
+        }
+        Update: {
+          id?: string
+          item_key?: string
+          reward_id?: string | null
+          student_id?: string
+          unlocked_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_unlocked_items_reward_id_fkey"
+            columns: ["reward_id"]
+            isOneToOne: false
+            referencedRelation: "rewards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_unlocked_items_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      tutor_activity_days: {
+        Row: {
+          created_at: string
+          day: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          day?: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          day?: string
+          student_id?: string
+        }
+        Relationships: []
+      }
+      tutor_board_events: {
+        Row: {
+          actor: string
+          created_at: string
+          id: string
+          kind: string
+          occurred_at: string
+          payload: Json
+          session_id: string
+        }
+        Insert: {
+          actor: string
+          created_at?: string
+          id?: string
+          kind: string
+          occurred_at: string
+          payload?: Json
+          session_id: string
+        }
+        Update: {
+          actor?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          occurred_at?: string
+          payload?: Json
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tutor_board_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tutor_drawings: {
         Row: {
           commands: Json
@@ -1026,6 +2111,7 @@ export type Database = {
           overall_status: string | null
           skill: string | null
           status_timeline: Json
+          step_problem: Json | null
           student_id: string
           student_name: string | null
           timestamp_end: string | null
@@ -1042,6 +2128,7 @@ export type Database = {
           overall_status?: string | null
           skill?: string | null
           status_timeline?: Json
+          step_problem?: Json | null
           student_id: string
           student_name?: string | null
           timestamp_end?: string | null
@@ -1058,6 +2145,7 @@ export type Database = {
           overall_status?: string | null
           skill?: string | null
           status_timeline?: Json
+          step_problem?: Json | null
           student_id?: string
           student_name?: string | null
           timestamp_end?: string | null
@@ -1139,6 +2227,239 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_adjust_coins: {
+        Args: {
+          _amount: number
+          _reason: string
+          _student_id: string
+        }
+        Returns: number
+      }
+      admin_icfes_questions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          area: string
+          calibrated_at: string | null
+          competencia: string | null
+          created_at: string
+          created_by: string | null
+          dificultad: number
+          enunciado: string
+          explicacion: string | null
+          formato: string
+          id: string
+          imagen_url: string | null
+          irt_difficulty: number | null
+          irt_responses: number
+          is_active: boolean
+          opcion_a: string | null
+          opcion_b: string | null
+          opcion_c: string | null
+          opcion_d: string | null
+          passage_id: string | null
+          passage_order: number | null
+          respuesta_correcta: string
+          review_status: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+        }[]
+      }
+      arena_challenge_list: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          answered_count: number
+          area: string
+          correct_count: number
+          description: string
+          difficulty: string
+          ends_at: string
+          final_rank: number
+          grade_level: number
+          id: string
+          joined: boolean
+          participant_count: number
+          prize_awarded: number
+          prize_coins: number
+          question_count: number
+          settled_at: string
+          starts_at: string
+          title: string
+          winner_count: number
+        }[]
+      }
+      arena_challenge_standings: {
+        Args: {
+          _challenge_id: string
+        }
+        Returns: {
+          answered_count: number
+          correct_count: number
+          display_name: string
+          finished: boolean
+          is_self: boolean
+          place: number
+          prize_coins: number
+        }[]
+      }
+      arena_display_name: {
+        Args: {
+          _full_name: string
+          _nickname: string
+        }
+        Returns: string
+      }
+      arena_duel_ends_at: {
+        Args: {
+          _question_count: number
+          _seconds_per_question: number
+          _started_at: string
+        }
+        Returns: string
+      }
+      arena_duel_hourly_limit: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      arena_duel_lobby_timeout: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      arena_duel_reveal_seconds: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      arena_duel_state: {
+        Args: { _duel_id: string }
+        Returns: Json
+      }
+      arena_leaderboard: {
+        Args: {
+          _limit?: number
+          _metric: string
+          _scope?: string
+          _window?: string
+        }
+        Returns: {
+          display_name: string
+          grade_level: number
+          is_self: boolean
+          place: number
+          score: number
+        }[]
+      }
+      arena_my_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      arena_window_start: {
+        Args: {
+          _window: string
+        }
+        Returns: string
+      }
+      award_event_coins: {
+        Args: {
+          _event?: Json
+          _event_type: string
+          _source_id: string
+          _source_type: string
+          _student_id: string
+        }
+        Returns: number
+      }
+      award_event_coins_safely: {
+        Args: {
+          _event: Json
+          _event_type: string
+          _source_id: string
+          _source_type: string
+          _student_id: string
+        }
+        Returns: undefined
+      }
+      award_tutor_session_coins: {
+        Args: {
+          _session_id: string
+        }
+        Returns: number
+      }
+      calibrate_icfes_questions: {
+        Args: {
+          _question_ids: string[]
+        }
+        Returns: undefined
+      }
+      check_icfes_practice_answers: {
+        Args: {
+          _answers: Json
+        }
+        Returns: Json
+      }
+      coin_apply: {
+        Args: {
+          _admin_id?: string
+          _amount: number
+          _reason: string
+          _redemption_id?: string
+          _rule_id?: string
+          _source_id?: string
+          _source_type?: string
+          _student_id: string
+          _type: string
+        }
+        Returns: number
+      }
+      coin_rule_matches: {
+        Args: {
+          _conditions: Json
+          _event: Json
+        }
+        Returns: boolean
+      }
+      create_arena_challenge: {
+        Args: {
+          _area: string
+          _description: string
+          _difficulty: string
+          _ends_at: string
+          _grade_level: number
+          _prize_coins: number
+          _question_count: number
+          _starts_at: string
+          _title: string
+          _winner_count: number
+        }
+        Returns: string
+      }
+      create_arena_duel: {
+        Args: {
+          _area: string
+          _deck_id: string
+          _difficulty: string
+          _max_players: number
+          _question_count: number
+          _seconds_per_question: number
+          _source: string
+        }
+        Returns: Json
+      }
+      expire_arena_duels: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      finish_arena_duel: {
+        Args: { _duel_id: string }
+        Returns: undefined
+      }
+      guardian_review_redemption: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _redemption_id: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1146,6 +2467,157 @@ export type Database = {
         }
         Returns: boolean
       }
+      icfes_error_patterns: {
+        Args: {
+          _student_id: string
+        }
+        Returns: Json
+      }
+      icfes_questions_in_open_simulacro: {
+        Args: {
+          _question_ids: string[]
+          _student_id: string
+        }
+        Returns: string[]
+      }
+      icfes_questions_in_play: {
+        Args: {
+          _question_ids: string[]
+        }
+        Returns: string[]
+      }
+      icfes_recent_answers: {
+        Args: {
+          _student_id: string
+        }
+        Returns: {
+          area: string
+          attempt_id: string
+          competencia: string
+          is_correct: boolean
+          position: number
+          previous_respuestas: string[]
+          question_id: string
+          respuesta: string
+          respuesta_correcta: string
+          section: number
+          section_size: number
+          statement_length: number
+          time_spent_seconds: number
+        }[]
+      }
+      is_duel_member: {
+        Args: { _duel_id: string }
+        Returns: boolean
+      }
+      join_arena_challenge: {
+        Args: {
+          _challenge_id: string
+        }
+        Returns: string
+      }
+      join_arena_duel: {
+        Args: { _code: string }
+        Returns: string
+      }
+      leave_arena_duel: {
+        Args: { _duel_id: string }
+        Returns: undefined
+      }
+      my_arena_duels: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          area: string
+          code: string
+          coins_awarded: number
+          created_at: string
+          final_rank: number
+          id: string
+          is_host: boolean
+          max_players: number
+          player_count: number
+          source: string
+          status: string
+        }[]
+      }
+      reconcile_coin_balances: {
+        Args: {
+          _apply?: boolean
+        }
+        Returns: {
+          applied: boolean
+          full_name: string
+          ledger_balance: number
+          ledger_earned: number
+          ledger_spent: number
+          stored_balance: number
+          stored_earned: number
+          stored_spent: number
+          student_id: string
+        }[]
+      }
+      redeem_reward: {
+        Args: {
+          _reward_id: string
+        }
+        Returns: Json
+      }
+      refresh_icfes_stats: {
+        Args: {
+          _student_id: string
+        }
+        Returns: undefined
+      }
+      reset_coin_balances: {
+        Args: {
+          _admin_id: string
+        }
+        Returns: number
+      }
+      settle_arena_challenge: {
+        Args: {
+          _challenge_id: string
+        }
+        Returns: number
+      }
+      settle_due_arena_challenges: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      start_arena_duel: {
+        Args: { _duel_id: string }
+        Returns: string
+      }
+      submit_arena_answer: {
+        Args: {
+          _answer: string
+          _challenge_id: string
+          _question_id: string
+        }
+        Returns: Json
+      }
+      submit_duel_answer: {
+        Args: { _duel_id: string; _option: string; _position: number }
+        Returns: Json
+      }
+      tutor_streaks: {
+        Args: {
+          _since?: string
+          _student_id: string
+        }
+        Returns: {
+          current_days: number
+          longest_days: number
+        }[]
+      }
+      update_redemption_status: {
+        Args: {
+          _note?: string
+          _redemption_id: string
+          _status: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "student" | "admin" | "guardian"
@@ -0,0 +1,111 @@
+// Arena leaderboards, challenges and duels: the options arena_leaderboard understands, how a
+// challenge is presented while it is upcoming, open or over, and the clock every duel shares.
+import { formatDistanceStrict } from "date-fns";
+import { es } from "date-fns/locale";
+
+export type LeaderboardMetric = "coins" | "icfes" | "streak" | "duels";
+export type LeaderboardScope = "global" | "grade" | "group";
+export type LeaderboardWindow = "weekly" | "monthly" | "all_time";
+export type ChallengeDifficulty = "facil" | "medio" | "dificil";
+export type ChallengePhase = "upcoming" | "open" | "ended";
+
+export const LEADERBOARD_METRICS: Record<LeaderboardMetric, { label: string; unit: string }> = {
+  coins: { label: "Monedas ganadas", unit: "monedas" },
+  icfes: { label: "Mejora ICFES", unit: "pts" },
+  streak: { label: "Racha de tutorías", unit: "días" },
+  duels: { label: "Duelos ganados", unit: "victorias" },
+};
+
+export const LEADERBOARD_SCOPES: Record<LeaderboardScope, string> = {
+  global: "Todos",
+  grade: "Mi grado",
+  group: "Mi grupo",
+};
+
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, string> = {
+  weekly: "Esta semana",
+  monthly: "Este mes",
+  all_time: "Histórico",
+};
+
+export const CHALLENGE_DIFFICULTY_LABELS: Record<ChallengeDifficulty, string> = {
+  facil: "Fácil",
+  medio: "Medio",
+  dificil: "Difícil",
+};
+
+export const CHALLENGE_DIFFICULTY_CLASSES: Record<ChallengeDifficulty, string> = {
+  facil: "border-accent/30 text-accent",
+  medio: "border-gold/30 text-gold",
+  dificil: "border-destructive/30 text-destructive",
+};
+
+// Same characters the arena_profiles nickname check accepts
+export const NICKNAME_PATTERN = /^[\p{L}\p{N}_ ]{3,20}$/u;
+
+export function challengePhase(challenge: { starts_at: string; ends_at: string }, now = new Date()): ChallengePhase {
+  if (now < new Date(challenge.starts_at)) return "upcoming";
+  if (now < new Date(challenge.ends_at)) return "open";
+  return "ended";
+}
+
+export function challengeTimeLabel(challenge: { starts_at: string; ends_at: string }, now = new Date()): string {
+  const phase = challengePhase(challenge, now);
+  if (phase === "upcoming") return `Empieza en ${formatDistanceStrict(new Date(challenge.starts_at), now, { locale: es })}`;
+  if (phase === "open") return `Termina en ${formatDistanceStrict(new Date(challenge.ends_at), now, { locale: es })}`;
+  return `Terminó hace ${formatDistanceStrict(new Date(challenge.ends_at), now, { locale: es })}`;
+}
+
+export type DuelSource = "icfes" | "flashcards";
+
+export const DUEL_SOURCE_LABELS: Record<DuelSource, string> = {
+  icfes: "Preguntas ICFES",
+  flashcards: "Mis flashcards",
+};
+
+export const DUEL_STATUS_LABELS: Record<string, string> = {
+  lobby: "En sala",
+  active: "En juego",
+  finished: "Terminado",
+  cancelled: "Cancelado",
+};
+
+export type DuelPhase =
+  | { kind: "lobby" }
+  | { kind: "countdown"; secondsLeft: number }
+  | { kind: "question"; position: number; secondsLeft: number }
+  | { kind: "reveal"; position: number; secondsLeft: number }
+  | { kind: "over" };
+
+// Mirrors the windows submit_duel_answer enforces: question n opens at
+// started_at + (n - 1) * (seconds_per_question + reveal) and stays open seconds_per_question
+export function duelPhase(
+  duel: { status: string; started_at: string | null; question_count: number; seconds_per_question: number },
+  revealSeconds: number,
+  nowMs: number
+): DuelPhase {
+  if (duel.status === "lobby") return { kind: "lobby" };
+  if (duel.status !== "active" || !duel.started_at) return { kind: "over" };
+
+  const elapsed = (nowMs - new Date(duel.started_at).getTime()) / 1000;
+  if (elapsed < 0) return { kind: "countdown", secondsLeft: Math.ceil(-elapsed) };
+
+  const slot = duel.seconds_per_question + revealSeconds;
+  const index = Math.floor(elapsed / slot);
+  if (index >= duel.question_count) return { kind: "over" };
+
+  const intoSlot = elapsed - index * slot;
+  if (intoSlot < duel.seconds_per_question) {
+    return { kind: "question", position: index + 1, secondsLeft: Math.ceil(duel.seconds_per_question - intoSlot) };
+  }
+  return { kind: "reveal", position: index + 1, secondsLeft: Math.ceil(slot - intoSlot) };
+}
+
+export function initialsOf(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0]?.toUpperCase() ?? "")
+    .join("");
+}
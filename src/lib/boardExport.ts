@@ -0,0 +1,626 @@
+// Vector export of a tutor whiteboard (SVG and multi-page PDF with the chat transcript).
+// The board is rebuilt from the recorded actions (see boardRecording.ts) instead of
+// copying canvas pixels: shapes and strokes become SVG paths and math elements are
+// laid out by KaTeX in the DOM, then copied glyph by glyph into <text> runs.
+
+import "katex/dist/katex.min.css";
+import { renderMathHtml, renderLatexHtml, mathTextForPdf } from "@/lib/mathText";
+import type { BoardSize, BoardState, ReplayMessage } from "@/lib/boardRecording";
+import type { AnyDrawingCommand } from "@/lib/drawingCommands";
+import { drawingScale, renderDrawingCommands, type DrawingSurface } from "@/lib/drawingRenderer";
+
+export interface BoardExportInput {
+  state: BoardState;
+  isPrimary: boolean;
+}
+
+export interface TranscriptInfo {
+  title: string;
+  studentName?: string | null;
+  skill?: string | null;
+  startedAt?: number;
+  messages: ReplayMessage[];
+}
+
+// Loose shape of the drawing commands stored in board events
+interface ExportCommand {
+  type: string;
+  x?: number;
+  y?: number;
+  x1?: number;
+  y1?: number;
+  x2?: number;
+  y2?: number;
+  radius?: number;
+  width?: number;
+  height?: number;
+  text?: string;
+  color?: string;
+  points?: Array<{ x: number; y: number }>;
+}
+
+interface UsedFont {
+  family: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface MathLayout {
+  width: number;
+  height: number;
+  markup: string;
+}
+
+const DEFAULT_BOARD: BoardSize = { width: 800, height: 500 };
+const TUTOR_COLOR = "hsl(280, 80%, 60%)";
+const PLAIN_FONT = "Helvetica, Arial, sans-serif";
+
+const BOARD_BACKGROUND = {
+  primary: "hsl(45, 80%, 95%)",
+  highschool: "hsl(222, 30%, 12%)",
+};
+
+// --- Helpers ---
+
+let scratchContext: CanvasRenderingContext2D | null = null;
+
+// SVG viewers and svg2pdf do not all understand hsl(): normalize to hex/rgba
+function toSvgColor(color: string): string {
+  scratchContext ??= document.createElement("canvas").getContext("2d");
+  if (!scratchContext) return color;
+  scratchContext.fillStyle = "#000000";
+  scratchContext.fillStyle = color;
+  return scratchContext.fillStyle;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Coordinates up to 100 are percentages of the board (same rule as the whiteboards)
+function resolve(value: number, size: number): number {
+  return value <= 100 ? (value / 100) * size : value;
+}
+
+function fontKey(font: UsedFont): string {
+  return `${font.family}|${font.bold ? "b" : ""}${font.italic ? "i" : ""}`;
+}
+
+// Largest board any action was drawn on, so nothing gets cropped
+function exportBoardSize(state: BoardState): BoardSize {
+  const boards = [...state.studentStrokes.map((s) => s.board), ...state.tutorCommands.map((c) => c.board)];
+  if (boards.length === 0) return DEFAULT_BOARD;
+  return {
+    width: Math.max(...boards.map((b) => b.width)),
+    height: Math.max(...boards.map((b) => b.height)),
+  };
+}
+
+// --- Math layout ---
+
+function measureAscent(style: CSSStyleDeclaration, fallbackHeight: number): number {
+  scratchContext ??= document.createElement("canvas").getContext("2d");
+  if (!scratchContext) return fallbackHeight * 0.8;
+  scratchContext.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+  const metrics = scratchContext.measureText("Hg");
+  return metrics.fontBoundingBoxAscent || fallbackHeight * 0.8;
+}
+
+// Nearest ancestor that clips its content (KaTeX hides the tail of \sqrt this way)
+function clipRect(element: Element, host: HTMLElement): DOMRect | null {
+  let parent = element.parentElement;
+  while (parent && parent !== host) {
+    if (getComputedStyle(parent).overflow === "hidden") return parent.getBoundingClientRect();
+    parent = parent.parentElement;
+  }
+  return null;
+}
+
+// Typeset `html` (KaTeX output) off-screen and copy the result into SVG markup positioned at (0, 0)
+async function layoutMath(
+  html: string,
+  fontSize: number,
+  color: string,
+  maxWidth: number,
+  forPdf: boolean,
+  usedFonts: Map<string, UsedFont>,
+): Promise<MathLayout> {
+  const host = document.createElement("div");
+  host.style.cssText = `position:fixed;left:-10000px;top:0;font-size:${fontSize}px;color:${color};font-family:${PLAIN_FONT};white-space:pre-wrap;max-width:${maxWidth}px;line-height:1.5`;
+  host.innerHTML = html;
+  document.body.appendChild(host);
+
+  try {
+    // KaTeX fonts load lazily: wait for them so the measurements are final
+    void host.offsetWidth;
+    await document.fonts.ready;
+
+    const origin = host.getBoundingClientRect();
+    const parts: string[] = [];
+    const range = document.createRange();
+    const walker = document.createTreeWalker(host, NodeFilter.SHOW_TEXT);
+
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const content = node.textContent ?? "";
+      const parent = node.parentElement;
+      if (!parent || !content.trim() || parent.closest("svg")) continue;
+
+      const style = getComputedStyle(parent);
+      const family = style.fontFamily.split(",")[0].replace(/["']/g, "").trim();
+      const isKatexFont = family.startsWith("KaTeX_");
+      const bold = parseInt(style.fontWeight, 10) >= 600;
+      const italic = style.fontStyle === "italic";
+      if (isKatexFont) {
+        const font = { family, bold, italic };
+        usedFonts.set(fontKey(font), font);
+      }
+
+      // Plain text can wrap over several lines: split it into one run per line
+      range.selectNodeContents(node);
+      const runs: Array<{ text: string; rect: DOMRect }> = [];
+      if (range.getClientRects().length <= 1) {
+        runs.push({ text: content, rect: range.getBoundingClientRect() });
+      } else {
+        let start = 0;
+        let lineTop: number | null = null;
+        for (let i = 0; i < content.length; i++) {
+          range.setStart(node, i);
+          range.setEnd(node, i + 1);
+          const top = range.getBoundingClientRect().top;
+          if (lineTop !== null && Math.abs(top - lineTop) > 1) {
+            range.setStart(node, start);
+            range.setEnd(node, i);
+            runs.push({ text: content.slice(start, i), rect: range.getBoundingClientRect() });
+            start = i;
+          }
+          lineTop = top;
+        }
+        range.setStart(node, start);
+        range.setEnd(node, content.length);
+        runs.push({ text: content.slice(start), rect: range.getBoundingClientRect() });
+      }
+
+      for (const run of runs) {
+        const runText = forPdf && !isKatexFont ? mathTextForPdf(run.text) : run.text;
+        if (!runText.trim() || run.rect.width === 0) continue;
+        const baseline = run.rect.top - origin.top + measureAscent(style, run.rect.height);
+        parts.push(
+          `<text x="${round(run.rect.left - origin.left)}" y="${round(baseline)}" font-family="${escapeXml(isKatexFont ? family : PLAIN_FONT)}" font-size="${round(parseFloat(style.fontSize))}" font-weight="${bold ? "bold" : "normal"}" font-style="${italic ? "italic" : "normal"}" fill="${toSvgColor(style.color)}" xml:space="preserve">${escapeXml(runText.trimEnd())}</text>`,
+        );
+      }
+    }
+
+    // Fraction bars, overlines and similar rules are CSS borders
+    host.querySelectorAll<HTMLElement>("*").forEach((element) => {
+      if (element.closest("svg")) return;
+      const style = getComputedStyle(element);
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0) return;
+      for (const side of ["Top", "Bottom"] as const) {
+        const width = parseFloat(style[`border${side}Width`]);
+        if (style[`border${side}Style`] !== "solid" || !width) continue;
+        const y = side === "Top" ? rect.top : rect.bottom - width;
+        parts.push(
+          `<rect x="${round(rect.left - origin.left)}" y="${round(y - origin.top)}" width="${round(rect.width)}" height="${round(width)}" fill="${toSvgColor(style[`border${side}Color`])}"/>`,
+        );
+      }
+    });
+
+    // Radicals and stretchy arrows are inline SVGs: nest them, cropped like on screen
+    const serializer = new XMLSerializer();
+    host.querySelectorAll("svg").forEach((svg) => {
+      if (svg.parentElement?.closest("svg")) return;
+      let rect = svg.getBoundingClientRect();
+      const clip = clipRect(svg, host);
+      if (clip) {
+        const right = Math.min(rect.right, clip.right);
+        rect = new DOMRect(rect.left, rect.top, Math.max(0, right - rect.left), rect.height);
+      }
+      if (rect.width === 0 || rect.height === 0) return;
+
+      const clone = svg.cloneNode(true) as SVGSVGElement;
+      const fill = toSvgColor(getComputedStyle(svg).color);
+      clone.removeAttribute("style");
+      clone.setAttribute("x", String(round(rect.left - origin.left)));
+      clone.setAttribute("y", String(round(rect.top - origin.top)));
+      clone.setAttribute("width", String(round(rect.width)));
+      clone.setAttribute("height", String(round(rect.height)));
+      clone.setAttribute("fill", fill);
+      clone.setAttribute("stroke", fill);
+      clone.setAttribute("stroke-width", "0");
+      parts.push(serializer.serializeToString(clone));
+    });
+
+    return { width: origin.width, height: origin.height, markup: parts.join("") };
+  } finally {
+    host.remove();
+  }
+}
+
+// --- KaTeX fonts ---
+
+// The TTF files are found through the @font-face rules of the loaded KaTeX stylesheet,
+// which already point at the bundled assets
+function katexFontUrl(font: UsedFont): string | null {
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue;
+    }
+    for (const rule of Array.from(rules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const family = rule.style.getPropertyValue("font-family").replace(/["']/g, "").trim();
+      if (family !== font.family) continue;
+      const weight = rule.style.getPropertyValue("font-weight") || "normal";
+      const bold = weight === "bold" || parseInt(weight, 10) >= 600;
+      const italic = rule.style.getPropertyValue("font-style") === "italic";
+      if (bold !== font.bold || italic !== font.italic) continue;
+      const match = rule.style.getPropertyValue("src").match(/url\(["']?([^"')]+\.ttf)["']?\)/);
+      if (match) return new URL(match[1], sheet.href ?? document.baseURI).href;
+    }
+  }
+  return null;
+}
+
+async function loadFontBase64(font: UsedFont): Promise<string | null> {
+  const url = katexFontUrl(font);
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  } catch (err) {
+    console.error("Error loading KaTeX font:", font.family, err);
+    return null;
+  }
+}
+
+// --- SVG ---
+
+function shapeMarkup(cmd: ExportCommand, width: number, height: number): string {
+  const stroke = `stroke="${toSvgColor(cmd.color || TUTOR_COLOR)}" stroke-width="3" fill="none"`;
+
+  switch (cmd.type) {
+    case "circle":
+      if (cmd.x === undefined || cmd.y === undefined || cmd.radius === undefined) return "";
+      return `<circle cx="${round(resolve(cmd.x, width))}" cy="${round(resolve(cmd.y, height))}" r="${round(cmd.radius <= 100 ? (cmd.radius / 100) * Math.min(width, height) : cmd.radius)}" ${stroke}/>`;
+
+    case "rect":
+      if (cmd.x === undefined || cmd.y === undefined || cmd.width === undefined || cmd.height === undefined) return "";
+      return `<rect x="${round(resolve(cmd.x, width))}" y="${round(resolve(cmd.y, height))}" width="${round(resolve(cmd.width, width))}" height="${round(resolve(cmd.height, height))}" ${stroke}/>`;
+
+    case "line":
+    case "arrow": {
+      if (cmd.x1 === undefined || cmd.y1 === undefined || cmd.x2 === undefined || cmd.y2 === undefined) return "";
+      const x1 = resolve(cmd.x1, width);
+      const y1 = resolve(cmd.y1, height);
+      const x2 = resolve(cmd.x2, width);
+      const y2 = resolve(cmd.y2, height);
+      let d = `M ${round(x1)} ${round(y1)} L ${round(x2)} ${round(y2)}`;
+      if (cmd.type === "arrow") {
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const headLength = 15;
+        d += ` L ${round(x2 - headLength * Math.cos(angle - Math.PI / 6))} ${round(y2 - headLength * Math.sin(angle - Math.PI / 6))}`;
+        d += ` M ${round(x2)} ${round(y2)} L ${round(x2 - headLength * Math.cos(angle + Math.PI / 6))} ${round(y2 - headLength * Math.sin(angle + Math.PI / 6))}`;
+      }
+      return `<path d="${d}" ${stroke}/>`;
+    }
+
+    case "freehand":
+      if (!cmd.points || cmd.points.length < 2) return "";
+      return `<polyline points="${cmd.points.map((p) => `${round(p.x)},${round(p.y)}`).join(" ")}" ${stroke} stroke-linecap="round" stroke-linejoin="round"/>`;
+
+    default:
+      return "";
+  }
+}
+
+// Drawing commands (800 x 600 space) as SVG. LaTeX is typeset afterwards: layout is async.
+async function drawingMarkup(
+  commands: AnyDrawingCommand[],
+  forPdf: boolean,
+  usedFonts: Map<string, UsedFont>,
+): Promise<string> {
+  const items: Array<string | Promise<string>> = [];
+  const anchors = { left: "start", center: "middle", right: "end" } as const;
+
+  const surface: DrawingSurface = {
+    path(points, style) {
+      if (points.length < 2) return;
+      const d = points.map((p, i) => `${i === 0 ? "M" : "L"} ${round(p.x)} ${round(p.y)}`).join(" ") + (style.closed ? " Z" : "");
+      const fill = style.fill ? `fill="${toSvgColor(style.fill)}" fill-opacity="${style.fillOpacity ?? 1}"` : `fill="none"`;
+      const stroke = style.stroke
+        ? `stroke="${toSvgColor(style.stroke)}" stroke-width="${style.width ?? 3}" stroke-linecap="round" stroke-linejoin="round"` +
+          (style.dash ? ` stroke-dasharray="${style.dash.join(" ")}"` : "")
+        : "";
+      items.push(`<path d="${d}" ${fill} ${stroke}/>`);
+    },
+    text(text, x, y, style) {
+      // Same baseline shift as the tutor message: svg2pdf ignores dominant-baseline
+      const shift = style.baseline === "top" ? style.size * 0.8 : style.baseline === "middle" ? style.size * 0.35 : 0;
+      items.push(
+        `<text x="${round(x)}" y="${round(y + shift)}" font-family="${PLAIN_FONT}" font-size="${style.size}" fill="${toSvgColor(style.color)}" text-anchor="${anchors[style.align ?? "left"]}">` +
+          `${escapeXml(forPdf ? mathTextForPdf(text) : text)}</text>`,
+      );
+    },
+    latex(latex, x, y, style) {
+      items.push(
+        layoutMath(renderLatexHtml(latex), style.size, style.color, 760, forPdf, usedFonts).then(
+          (math) => `<g transform="translate(${round(x)} ${round(y)})">${math.markup}</g>`,
+        ),
+      );
+    },
+    image(url, x, y, width, height) {
+      items.push(`<image href="${escapeXml(url)}" x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}"/>`);
+    },
+  };
+
+  renderDrawingCommands(surface, commands);
+  return (await Promise.all(items)).join("");
+}
+
+function wrapText(text: string, font: string, maxWidth: number): string[] {
+  scratchContext ??= document.createElement("canvas").getContext("2d");
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const testLine = line ? `${line} ${word}` : word;
+      if (scratchContext) scratchContext.font = font;
+      const tooWide = scratchContext ? scratchContext.measureText(testLine).width > maxWidth : testLine.length * 8 > maxWidth;
+      if (tooWide && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = testLine;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+async function buildBoardSvg(
+  { state, isPrimary }: BoardExportInput,
+  { forPdf, embedFonts }: { forPdf: boolean; embedFonts: boolean },
+): Promise<{ markup: string; size: BoardSize; fonts: UsedFont[] }> {
+  const size = exportBoardSize(state);
+  const background = toSvgColor(isPrimary ? BOARD_BACKGROUND.primary : BOARD_BACKGROUND.highschool);
+  const usedFonts = new Map<string, UsedFont>();
+  const layers: string[] = [];
+
+  // Tutor message shown on the board, centered like in the live session
+  if (state.tutorText) {
+    const fontSize = isPrimary ? 20 : 16;
+    const lineHeight = isPrimary ? 30 : 26;
+    const text = forPdf ? mathTextForPdf(state.tutorText) : state.tutorText;
+    const lines = wrapText(text, `bold ${fontSize}px sans-serif`, size.width - 60);
+    const top = size.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    layers.push(
+      `<g font-family="${PLAIN_FONT}" font-size="${fontSize}" font-weight="bold" fill="${toSvgColor(isPrimary ? "#7C3AED" : "#A78BFA")}" text-anchor="middle">` +
+        lines
+          .map((line, i) => `<text x="${round(size.width / 2)}" y="${round(top + i * lineHeight + fontSize * 0.35)}">${escapeXml(line)}</text>`)
+          .join("") +
+        `</g>`,
+    );
+  }
+
+  // Tutor drawings, scaled from the board they were drawn on
+  for (const { commands, board, format } of state.tutorCommands) {
+    const scale = Math.min(size.width / board.width, size.height / board.height) || 1;
+    if (format === "drawing") {
+      const markup = await drawingMarkup(commands as AnyDrawingCommand[], forPdf, usedFonts);
+      layers.push(`<g transform="scale(${round(scale * drawingScale(board.width, board.height))})">${markup}</g>`);
+      continue;
+    }
+    const items: string[] = [];
+    for (const cmd of commands as ExportCommand[]) {
+      if (cmd.type === "text") {
+        if (!cmd.text || cmd.x === undefined || cmd.y === undefined) continue;
+        const x = resolve(cmd.x, board.width);
+        const y = resolve(cmd.y, board.height);
+        const math = await layoutMath(renderMathHtml(cmd.text), isPrimary ? 18 : 16, cmd.color || TUTOR_COLOR, board.width - 40, forPdf, usedFonts);
+        items.push(`<g transform="translate(${round(x)} ${round(y)})">${math.markup}</g>`);
+      } else {
+        items.push(shapeMarkup(cmd, board.width, board.height));
+      }
+    }
+    layers.push(`<g transform="scale(${round(scale)})">${items.join("")}</g>`);
+  }
+
+  // Student strokes on top; the eraser paints the board color, as on the live board
+  for (const stroke of state.studentStrokes) {
+    if (stroke.points.length < 2) continue;
+    const scale = Math.min(size.width / stroke.board.width, size.height / stroke.board.height) || 1;
+    const points = stroke.points.map((p) => `${round(p.x * scale)},${round(p.y * scale)}`).join(" ");
+    layers.push(
+      `<polyline points="${points}" fill="none" stroke="${stroke.erase ? background : toSvgColor(stroke.color)}" stroke-width="${round(stroke.width * scale)}" stroke-linecap="round" stroke-linejoin="round"/>`,
+    );
+  }
+
+  const fonts = Array.from(usedFonts.values());
+  let defs = "";
+  if (embedFonts && fonts.length > 0) {
+    const faces = await Promise.all(
+      fonts.map(async (font) => {
+        const data = await loadFontBase64(font);
+        if (!data) return "";
+        return `@font-face{font-family:'${font.family}';font-weight:${font.bold ? "bold" : "normal"};font-style:${font.italic ? "italic" : "normal"};src:url(data:font/ttf;base64,${data}) format('truetype');}`;
+      }),
+    );
+    defs = `<defs><style>${faces.join("")}</style></defs>`;
+  }
+
+  const markup =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(size.width)}" height="${round(size.height)}" viewBox="0 0 ${round(size.width)} ${round(size.height)}">` +
+    defs +
+    `<rect x="0" y="0" width="${round(size.width)}" height="${round(size.height)}" fill="${background}"/>` +
+    layers.join("") +
+    `</svg>`;
+
+  return { markup, size, fonts };
+}
+
+/**
+ * Standalone SVG of the board, with the KaTeX fonts it uses embedded.
+ */
+export async function exportBoardSvg(input: BoardExportInput): Promise<Blob> {
+  const { markup } = await buildBoardSvg(input, { forPdf: false, embedFonts: true });
+  return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${markup}`], { type: "image/svg+xml" });
+}
+
+// --- PDF ---
+
+const PAGE_MARGIN = 40;
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * A4 PDF: the board (vector, KaTeX fonts embedded) on the first page followed by the
+ * chat transcript over as many pages as it needs.
+ */
+export async function exportSessionPdf(input: BoardExportInput, transcript: TranscriptInfo): Promise<Blob> {
+  const [{ jsPDF }, { svg2pdf }] = await Promise.all([import("jspdf"), import("svg2pdf.js")]);
+  const { markup, size, fonts } = await buildBoardSvg(input, { forPdf: true, embedFonts: false });
+
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+
+  for (const font of fonts) {
+    const data = await loadFontBase64(font);
+    if (!data) continue;
+    const fileName = `${font.family}-${font.bold ? "Bold" : ""}${font.italic ? "Italic" : ""}${!font.bold && !font.italic ? "Regular" : ""}.ttf`;
+    doc.addFileToVFS(fileName, data);
+    doc.addFont(fileName, font.family, `${font.bold ? "bold" : ""}${font.italic ? "italic" : ""}` || "normal");
+  }
+
+  // Header
+  let y = PAGE_MARGIN;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(mathTextForPdf(transcript.title), PAGE_MARGIN, y + 12);
+  y += 24;
+
+  const details = [
+    transcript.studentName,
+    transcript.skill,
+    transcript.startedAt ? new Date(transcript.startedAt).toLocaleString("es-CO", { dateStyle: "long", timeStyle: "short" }) : null,
+  ].filter(Boolean);
+  if (details.length > 0) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(110);
+    doc.text(mathTextForPdf(details.join(" · ")), PAGE_MARGIN, y + 8);
+    doc.setTextColor(0);
+    y += 20;
+  }
+
+  // Board
+  const boardScale = Math.min(contentWidth / size.width, (pageHeight * 0.55) / size.height);
+  const boardWidth = size.width * boardScale;
+  const boardHeight = size.height * boardScale;
+
+  const container = document.createElement("div");
+  container.style.cssText = "position:fixed;left:-10000px;top:0";
+  container.innerHTML = markup;
+  document.body.appendChild(container);
+  try {
+    const svgElement = container.querySelector("svg");
+    if (svgElement) {
+      await svg2pdf(svgElement, doc, { x: PAGE_MARGIN, y, width: boardWidth, height: boardHeight });
+    }
+  } finally {
+    container.remove();
+  }
+  y += boardHeight + 24;
+
+  // Transcript
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  ensureSpace(40);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(13);
+  doc.text("Conversación", PAGE_MARGIN, y + 10);
+  y += 24;
+
+  const sessionStart = transcript.startedAt ?? transcript.messages[0]?.at ?? 0;
+  if (transcript.messages.length === 0) {
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(10);
+    doc.text("No hay mensajes en esta sesión.", PAGE_MARGIN, y + 8);
+  }
+
+  for (const message of transcript.messages) {
+    const label = `${message.role === "user" ? "Estudiante" : "Tutor IA"} · ${formatOffset(message.at - sessionStart)}`;
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    const lines: string[] = message.content
+      .split("\n")
+      .flatMap((line) => doc.splitTextToSize(mathTextForPdf(line) || " ", contentWidth - 12) as string[]);
+
+    ensureSpace(30);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setTextColor(message.role === "user" ? 37 : 124, message.role === "user" ? 99 : 58, message.role === "user" ? 235 : 237);
+    doc.text(label, PAGE_MARGIN, y + 8);
+    doc.setTextColor(0);
+    y += 14;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    for (const line of lines) {
+      ensureSpace(14);
+      doc.text(line, PAGE_MARGIN + 12, y + 8);
+      y += 13;
+    }
+    y += 8;
+  }
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(140);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 20, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
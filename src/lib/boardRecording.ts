@@ -0,0 +1,155 @@
+// Whiteboard recording for tutor session replay.
+// Every board action is stored with the wall-clock time it happened so it can be
+// merged with the chat messages of the same tutor_sessions row.
+
+export type BoardActor = "student" | "tutor";
+
+export interface BoardPoint {
+  x: number;
+  y: number;
+}
+
+// Size of the board (CSS px) when the action happened, so replays can rescale it
+export interface BoardSize {
+  width: number;
+  height: number;
+}
+
+export type BoardAction =
+  | { kind: "stroke"; points: BoardPoint[]; color: string; width: number; erase?: boolean; board: BoardSize }
+  | { kind: "clear" }
+  | { kind: "text"; text: string }
+  // `format: "drawing"` marks commands from lib/drawingCommands (800 x 600 space);
+  // without it they are whiteboard step commands (percent or px of `board`)
+  | { kind: "commands"; commands: unknown[]; board: BoardSize; format?: "drawing" };
+
+export type BoardEventKind = BoardAction["kind"];
+
+export interface BoardEvent {
+  actor: BoardActor;
+  action: BoardAction;
+  occurredAt: number; // epoch ms
+}
+
+export type RecordBoardAction = (actor: BoardActor, action: BoardAction) => void;
+
+export interface ReplayMessage {
+  role: string;
+  content: string;
+  at: number; // epoch ms, the session start for legacy messages without timestamp
+}
+
+// Drop points closer than `minDistance` px and round to whole pixels:
+// pointer events fire far more often than a replay needs
+export function simplifyStroke(points: BoardPoint[], minDistance = 2): BoardPoint[] {
+  if (points.length <= 2) return points.map((p) => ({ x: Math.round(p.x), y: Math.round(p.y) }));
+
+  const simplified: BoardPoint[] = [{ x: Math.round(points[0].x), y: Math.round(points[0].y) }];
+  for (let i = 1; i < points.length - 1; i++) {
+    const last = simplified[simplified.length - 1];
+    if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= minDistance) {
+      simplified.push({ x: Math.round(points[i].x), y: Math.round(points[i].y) });
+    }
+  }
+  const end = points[points.length - 1];
+  simplified.push({ x: Math.round(end.x), y: Math.round(end.y) });
+  return simplified;
+}
+
+const BOARD_ACTORS: BoardActor[] = ["student", "tutor"];
+
+// Rebuild events from tutor_board_events rows, skipping anything malformed
+export function parseBoardEventRows(
+  rows: Array<{ actor: string; kind: string; payload: unknown; occurred_at: string }>,
+): BoardEvent[] {
+  const events: BoardEvent[] = [];
+
+  for (const row of rows) {
+    if (!BOARD_ACTORS.includes(row.actor as BoardActor)) continue;
+    const occurredAt = Date.parse(row.occurred_at);
+    if (Number.isNaN(occurredAt)) continue;
+    const payload = (row.payload && typeof row.payload === "object" ? row.payload : {}) as Record<string, unknown>;
+
+    let action: BoardAction | null = null;
+    switch (row.kind) {
+      case "stroke":
+        if (Array.isArray(payload.points) && payload.board) {
+          action = {
+            kind: "stroke",
+            points: payload.points as BoardPoint[],
+            color: typeof payload.color === "string" ? payload.color : "#FFFFFF",
+            width: typeof payload.width === "number" ? payload.width : 4,
+            erase: payload.erase === true,
+            board: payload.board as BoardSize,
+          };
+        }
+        break;
+      case "clear":
+        action = { kind: "clear" };
+        break;
+      case "text":
+        if (typeof payload.text === "string") action = { kind: "text", text: payload.text };
+        break;
+      case "commands":
+        if (Array.isArray(payload.commands) && payload.board) {
+          action = {
+            kind: "commands",
+            commands: payload.commands,
+            board: payload.board as BoardSize,
+            ...(payload.format === "drawing" ? { format: "drawing" as const } : {}),
+          };
+        }
+        break;
+    }
+
+    if (action) events.push({ actor: row.actor as BoardActor, action, occurredAt });
+  }
+
+  return events.sort((a, b) => a.occurredAt - b.occurredAt);
+}
+
+// Chat messages as stored in tutor_sessions.messages
+export function parseReplayMessages(raw: unknown, sessionStart: number): ReplayMessage[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((m): m is { role: string; content: string; timestamp?: string } =>
+      !!m && typeof m === "object" && typeof m.role === "string" && typeof m.content === "string",
+    )
+    .map((m) => {
+      const at = m.timestamp ? Date.parse(m.timestamp) : NaN;
+      return { role: m.role, content: m.content, at: Number.isNaN(at) ? sessionStart : at };
+    });
+}
+
+export interface BoardState {
+  studentStrokes: Extract<BoardAction, { kind: "stroke" }>[];
+  tutorText: string | null;
+  tutorCommands: Extract<BoardAction, { kind: "commands" }>[];
+}
+
+// What the board looked like at `time`: events are applied in order, a clear
+// wipes the actor's own layer, tutor drawings accumulate and tutor text
+// (the message shown on the board) replaces the previous one
+export function boardStateAt(events: BoardEvent[], time: number): BoardState {
+  const state: BoardState = { studentStrokes: [], tutorText: null, tutorCommands: [] };
+
+  for (const event of events) {
+    if (event.occurredAt > time) break;
+    const { action } = event;
+
+    if (event.actor === "student") {
+      if (action.kind === "stroke") state.studentStrokes.push(action);
+      else if (action.kind === "clear") state.studentStrokes = [];
+    } else if (action.kind === "clear") {
+      state.tutorText = null;
+      state.tutorCommands = [];
+    } else if (action.kind === "text") {
+      state.tutorText = action.text;
+    } else if (action.kind === "commands") {
+      state.tutorCommands.push(action);
+    }
+  }
+
+  return state;
+}
@@ -0,0 +1,74 @@
+// Learning events that can award coins, and the conditions each one understands.
+// Condition keys follow coin_rule_matches: min_/max_ compare numbers, others must be equal.
+import type { Json } from "@/integrations/supabase/types";
+
+export type CoinEventType =
+  | "tutor_session_understood"
+  | "remedial_week_completed"
+  | "homework_submitted"
+  | "icfes_score_improved"
+  | "arena_duel_won";
+
+export interface ConditionField {
+  key: string;
+  label: string;
+  kind: "number" | "boolean" | "text";
+}
+
+export type RuleConditions = Record<string, number | boolean | string>;
+
+export const COIN_EVENTS: Record<CoinEventType, { label: string; conditions: ConditionField[] }> = {
+  tutor_session_understood: {
+    label: "Tutoría comprendida",
+    conditions: [
+      { key: "min_distinct_student_messages", label: "Mínimo de mensajes distintos del estudiante", kind: "number" },
+      { key: "skill", label: "Solo esta habilidad", kind: "text" },
+    ],
+  },
+  remedial_week_completed: {
+    label: "Semana de refuerzo completada",
+    conditions: [{ key: "subject", label: "Solo esta materia", kind: "text" }],
+  },
+  homework_submitted: {
+    label: "Tarea entregada",
+    conditions: [{ key: "on_time", label: "Solo si se entrega a tiempo", kind: "boolean" }],
+  },
+  icfes_score_improved: {
+    label: "Mejora en simulacro ICFES",
+    conditions: [{ key: "min_improvement", label: "Mejora mínima sobre su mejor puntaje", kind: "number" }],
+  },
+  arena_duel_won: {
+    label: "Duelo ganado en la Arena",
+    conditions: [
+      { key: "min_players", label: "Mínimo de jugadores en el duelo", kind: "number" },
+      { key: "min_correct_count", label: "Mínimo de respuestas correctas", kind: "number" },
+    ],
+  },
+};
+
+export const COIN_EVENT_TYPES = Object.keys(COIN_EVENTS) as CoinEventType[];
+
+// Keeps only the conditions the event understands, with the right value types
+export function parseRuleConditions(eventType: CoinEventType, raw: Json | null): RuleConditions {
+  const source = raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+  const conditions: RuleConditions = {};
+  for (const field of COIN_EVENTS[eventType]?.conditions ?? []) {
+    const value = source[field.key];
+    if (field.kind === "number" && typeof value === "number") conditions[field.key] = value;
+    if (field.kind === "boolean" && typeof value === "boolean") conditions[field.key] = value;
+    if (field.kind === "text" && typeof value === "string" && value.trim()) conditions[field.key] = value.trim();
+  }
+  return conditions;
+}
+
+export function describeRuleConditions(eventType: CoinEventType, raw: Json | null): string {
+  const conditions = parseRuleConditions(eventType, raw);
+  return (COIN_EVENTS[eventType]?.conditions ?? [])
+    .filter((field) => field.key in conditions)
+    .map((field) => {
+      const value = conditions[field.key];
+      if (field.kind === "boolean") return value ? field.label : `No: ${field.label.toLowerCase()}`;
+      return `${field.label}: ${value}`;
+    })
+    .join(" · ");
+}
@@ -2,7 +2,22 @@
 // Canvas base: 800 x 600 (normalized coordinates)
 
 export interface DrawingCommand {
-  type: "circle" | "line" | "arrow" | "text" | "rect" | "image" | "group";
+  type:
+    | "circle"
+    | "line"
+    | "arrow"
+    | "text"
+    | "rect"
+    | "image"
+    | "group"
+    | "polygon"
+    | "path"
+    | "axes"
+    | "plot"
+    | "numberline"
+    | "fraction"
+    | "angle"
+    | "latex";
   // Common properties
   color?: string; // #RRGGBB format
   label?: string;
@@ -61,6 +76,96 @@ export interface GroupCommand extends DrawingCommand {
   commands: AnyDrawingCommand[];
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Closed shape (triangles, quadrilaterals...), optionally filled
+export interface PolygonCommand extends DrawingCommand {
+  type: "polygon";
+  points: Point[];
+  fill?: string;
+}
+
+// Open polyline
+export interface PathCommand extends DrawingCommand {
+  type: "path";
+  points: Point[];
+}
+
+// Canvas region (x, y, width, height) showing the math range [xMin, xMax] x [yMin, yMax]
+export interface PlotFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface AxesCommand extends DrawingCommand, PlotFrame {
+  type: "axes";
+  xStep?: number;
+  yStep?: number;
+  grid?: boolean;
+  xLabel?: string;
+  yLabel?: string;
+}
+
+// y = f(x) drawn over the same frame as its axes. `segments` are the sampled curve in
+// canvas coordinates, split where the function is undefined; the tutor function fills them in.
+export interface PlotCommand extends DrawingCommand, PlotFrame {
+  type: "plot";
+  expression: string;
+  from?: number;
+  to?: number;
+  segments?: Point[][];
+}
+
+export interface NumberLineCommand extends DrawingCommand {
+  type: "numberline";
+  x1: number;
+  x2: number;
+  y: number;
+  min: number;
+  max: number;
+  step?: number;
+  marks?: number[]; // values highlighted with a dot
+}
+
+export interface FractionCommand extends DrawingCommand {
+  type: "fraction";
+  shape: "bar" | "pie";
+  x: number; // bar: top-left corner, pie: center
+  y: number;
+  numerator: number;
+  denominator: number;
+  width?: number;
+  height?: number;
+  radius?: number;
+}
+
+// Angle at vertex (x, y), in degrees counterclockwise from the positive x axis
+export interface AngleCommand extends DrawingCommand {
+  type: "angle";
+  x: number;
+  y: number;
+  startAngle: number;
+  endAngle: number;
+  radius?: number;
+}
+
+export interface LatexCommand extends DrawingCommand {
+  type: "latex";
+  x: number;
+  y: number;
+  latex: string;
+  size?: number;
+}
+
 export type AnyDrawingCommand =
   | CircleCommand
   | LineCommand
@@ -68,13 +173,24 @@ export type AnyDrawingCommand =
   | TextCommand
   | RectCommand
   | ImageCommand
-  | GroupCommand;
+  | GroupCommand
+  | PolygonCommand
+  | PathCommand
+  | AxesCommand
+  | PlotCommand
+  | NumberLineCommand
+  | FractionCommand
+  | AngleCommand
+  | LatexCommand;
 
 // Validation constants
 export const CANVAS_WIDTH = 800;
 export const CANVAS_HEIGHT = 600;
 export const MAX_COMMANDS = 200;
 export const MAX_JSON_SIZE = 50 * 1024; // 50KB
+export const MAX_POINTS = 100;
+export const MAX_TICKS = 50;
+export const MAX_DENOMINATOR = 24;
 
 // Image URL allowlist
 const ALLOWED_IMAGE_DOMAINS = [
@@ -155,11 +271,135 @@ function validateCommand(cmd: AnyDrawingCommand): AnyDrawingCommand | null {
       if (nestedCommands.length === 0) return null;
       return { type: "group", commands: nestedCommands };
     }
+    case "polygon":
+    case "path": {
+      const p = cmd as PolygonCommand | PathCommand;
+      const points = validatePoints(p.points, p.type === "polygon" ? 3 : 2);
+      if (!points) return null;
+      if (p.type === "polygon") {
+        const fill = validateColor(p.fill);
+        return { ...p, color, points, fill: fill ?? undefined };
+      }
+      return { ...p, color, points };
+    }
+    case "axes": {
+      const a = cmd as AxesCommand;
+      const frame = validateFrame(a);
+      if (!frame) return null;
+      return {
+        ...a,
+        ...frame,
+        color,
+        xStep: tickStep(a.xStep, frame.xMax - frame.xMin),
+        yStep: tickStep(a.yStep, frame.yMax - frame.yMin),
+        grid: a.grid === true,
+        xLabel: validateLabel(a.xLabel),
+        yLabel: validateLabel(a.yLabel),
+      };
+    }
+    case "plot": {
+      // Plots are sampled server-side, where the expression parser lives
+      const p = cmd as PlotCommand;
+      const frame = validateFrame(p);
+      if (!frame || typeof p.expression !== "string" || p.expression.length > 100) return null;
+      if (!Array.isArray(p.segments)) return null;
+      const segments = p.segments
+        .map((segment) => validatePoints(segment, 2, 400))
+        .filter((segment): segment is Point[] => segment !== null)
+        .slice(0, 50);
+      if (segments.length === 0) return null;
+      return { ...p, ...frame, color, segments };
+    }
+    case "numberline": {
+      const n = cmd as NumberLineCommand;
+      if (!isValidCoord(n.x1, CANVAS_WIDTH) || !isValidCoord(n.x2, CANVAS_WIDTH) || n.x2 <= n.x1) return null;
+      if (!isValidCoord(n.y, CANVAS_HEIGHT)) return null;
+      if (!isFiniteNumber(n.min) || !isFiniteNumber(n.max) || n.max <= n.min) return null;
+      const marks = Array.isArray(n.marks)
+        ? n.marks.filter((m): m is number => isFiniteNumber(m) && m >= n.min && m <= n.max).slice(0, 20)
+        : [];
+      return { ...n, color, step: tickStep(n.step, n.max - n.min), marks };
+    }
+    case "fraction": {
+      const f = cmd as FractionCommand;
+      if (f.shape !== "bar" && f.shape !== "pie") return null;
+      if (!isValidCoord(f.x, CANVAS_WIDTH) || !isValidCoord(f.y, CANVAS_HEIGHT)) return null;
+      if (!Number.isInteger(f.denominator) || f.denominator < 1 || f.denominator > MAX_DENOMINATOR) return null;
+      if (!Number.isInteger(f.numerator) || f.numerator < 0 || f.numerator > f.denominator) return null;
+      if (f.shape === "bar") {
+        const width = typeof f.width === "number" ? clamp(f.width, 40, CANVAS_WIDTH - f.x) : Math.min(300, CANVAS_WIDTH - f.x);
+        const height = typeof f.height === "number" ? clamp(f.height, 20, CANVAS_HEIGHT - f.y) : Math.min(50, CANVAS_HEIGHT - f.y);
+        if (width <= 0 || height <= 0) return null;
+        return { ...f, color, width, height };
+      }
+      const radius = typeof f.radius === "number" ? clamp(f.radius, 20, 250) : 60;
+      return { ...f, color, radius };
+    }
+    case "angle": {
+      const a = cmd as AngleCommand;
+      if (!isValidCoord(a.x, CANVAS_WIDTH) || !isValidCoord(a.y, CANVAS_HEIGHT)) return null;
+      if (!isFiniteNumber(a.startAngle) || !isFiniteNumber(a.endAngle) || a.startAngle === a.endAngle) return null;
+      const radius = typeof a.radius === "number" ? clamp(a.radius, 10, 200) : 40;
+      return { ...a, color, radius };
+    }
+    case "latex": {
+      const l = cmd as LatexCommand;
+      if (!isValidCoord(l.x, CANVAS_WIDTH) || !isValidCoord(l.y, CANVAS_HEIGHT)) return null;
+      if (typeof l.latex !== "string" || l.latex.length === 0 || l.latex.length > 300) return null;
+      const size = typeof l.size === "number" ? clamp(l.size, 8, 72) : 24;
+      return { ...l, color, size, x: clamp(l.x, 0, CANVAS_WIDTH), y: clamp(l.y, 0, CANVAS_HEIGHT) };
+    }
     default:
       return null;
   }
 }
 
+function isFiniteNumber(val: unknown): val is number {
+  return typeof val === "number" && Number.isFinite(val);
+}
+
+function validatePoints(raw: unknown, min: number, max = MAX_POINTS): Point[] | null {
+  if (!Array.isArray(raw) || raw.length < min) return null;
+  const points: Point[] = [];
+  for (const p of raw.slice(0, max)) {
+    if (!p || typeof p !== "object") return null;
+    const { x, y } = p as Point;
+    if (!isValidCoord(x, CANVAS_WIDTH) || !isValidCoord(y, CANVAS_HEIGHT)) return null;
+    points.push({ x, y });
+  }
+  return points;
+}
+
+function validateFrame(f: PlotFrame): PlotFrame | null {
+  if (!isValidCoord(f.x, CANVAS_WIDTH) || !isValidCoord(f.y, CANVAS_HEIGHT)) return null;
+  if (typeof f.width !== "number" || f.width < 20 || typeof f.height !== "number" || f.height < 20) return null;
+  if (!isFiniteNumber(f.xMin) || !isFiniteNumber(f.xMax) || f.xMax <= f.xMin) return null;
+  if (!isFiniteNumber(f.yMin) || !isFiniteNumber(f.yMax) || f.yMax <= f.yMin) return null;
+  return {
+    x: f.x,
+    y: f.y,
+    width: Math.min(f.width, CANVAS_WIDTH - f.x),
+    height: Math.min(f.height, CANVAS_HEIGHT - f.y),
+    xMin: f.xMin,
+    xMax: f.xMax,
+    yMin: f.yMin,
+    yMax: f.yMax,
+  };
+}
+
+// Keep the requested tick step unless it would crowd the axis, then pick a round one
+function tickStep(step: unknown, range: number): number {
+  if (isFiniteNumber(step) && step > 0 && range / step <= MAX_TICKS) return step;
+  const rough = range / 10;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  return (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+}
+
+function validateLabel(label: unknown): string | undefined {
+  return typeof label === "string" && label.length > 0 ? label.slice(0, 20) : undefined;
+}
+
 function isValidCoord(val: unknown, max: number): boolean {
   return typeof val === "number" && val >= 0 && val <= max;
 }
@@ -193,12 +433,25 @@ export const DRAWING_COMMANDS_PROMPT = `Basándote en esta explicación: "<<COMP
   { "type":"text", "x":300, "y":150, "text":"?", "size":40, "color":"#FFE66D" }
 ]
 
+Primitivas matemáticas:
+- polygon: { "type":"polygon", "points":[{"x":100,"y":400},{"x":300,"y":400},{"x":200,"y":250}], "color":"#4ECDC4", "fill":"#4ECDC4" }
+- path: { "type":"path", "points":[{"x":100,"y":300},{"x":200,"y":250},{"x":300,"y":320}], "color":"#FFFFFF" }
+- axes: { "type":"axes", "x":100, "y":100, "width":400, "height":400, "xMin":-5, "xMax":5, "yMin":-5, "yMax":5, "xStep":1, "yStep":1, "grid":true, "xLabel":"x", "yLabel":"y" }
+- plot: { "type":"plot", "expression":"x^2 - 2", "x":100, "y":100, "width":400, "height":400, "xMin":-5, "xMax":5, "yMin":-5, "yMax":5, "color":"#FF6B6B" } (usa el mismo marco que sus ejes; "from"/"to" opcionales limitan el rango de x)
+- numberline: { "type":"numberline", "x1":100, "x2":700, "y":300, "min":-5, "max":5, "step":1, "marks":[-2, 3] }
+- fraction: { "type":"fraction", "shape":"bar", "x":250, "y":250, "width":300, "height":50, "numerator":3, "denominator":4 } o { "type":"fraction", "shape":"pie", "x":400, "y":300, "radius":80, "numerator":2, "denominator":5 }
+- angle: { "type":"angle", "x":200, "y":400, "startAngle":0, "endAngle":60, "radius":40, "label":"60°" } (grados, en sentido antihorario desde el eje x positivo)
+- latex: { "type":"latex", "x":300, "y":100, "latex":"\\\\frac{a}{b} + \\\\sqrt{x}", "size":28 }
+
 Reglas estrictas:
 - Solo devolver JSON válido (array de comandos).
 - Máximo 200 comandos.
 - Coordenadas X en [0,800], Y en [0,600].
 - Colors en formato hex #RRGGBB.
-- Tipos permitidos: circle, line, arrow, text, rect, image, group.
+- Tipos permitidos: circle, line, arrow, text, rect, image, group, polygon, path, axes, plot, numberline, fraction, angle, latex.
+- Para funciones usa axes + plot en lugar de dibujar la curva con líneas.
+- Para fracciones usa fraction (denominador máximo 24).
+- Para fórmulas usa latex en lugar de text.
 - Para imágenes solo devolver url si está en una lista de dominios permitidos.`;
 
 // Regex to detect when drawing is needed
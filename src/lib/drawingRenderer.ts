@@ -0,0 +1,469 @@
+// Renders sanitized drawing commands (800 x 600 space, see drawingCommands.ts) onto a
+// drawing surface. Every command is broken down into paths, text and LaTeX so the
+// whiteboards (canvas), the session replay and the SVG export draw them the same way.
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  type AnyDrawingCommand,
+  type PlotFrame,
+  type Point,
+} from "./drawingCommands";
+import { normalizeMathText } from "./mathText";
+
+export interface PathStyle {
+  stroke?: string;
+  fill?: string;
+  fillOpacity?: number;
+  width?: number;
+  closed?: boolean;
+  dash?: number[];
+}
+
+export interface TextStyle {
+  color: string;
+  size: number;
+  align?: "left" | "center" | "right";
+  baseline?: "top" | "middle" | "bottom";
+}
+
+export interface DrawingSurface {
+  path(points: Point[], style: PathStyle): void;
+  text(text: string, x: number, y: number, style: TextStyle): void;
+  latex(latex: string, x: number, y: number, style: TextStyle): void;
+  image(url: string, x: number, y: number, width: number, height: number): void;
+}
+
+const DEFAULT_COLOR = "#FFFFFF";
+const LINE_WIDTH = 3;
+const ARROW_HEAD = 15;
+
+// Scale that fits the 800 x 600 command space inside a board
+export function drawingScale(boardWidth: number, boardHeight: number): number {
+  return Math.min(boardWidth / CANVAS_WIDTH, boardHeight / CANVAS_HEIGHT) || 1;
+}
+
+export function renderDrawingCommands(surface: DrawingSurface, commands: AnyDrawingCommand[]) {
+  for (const cmd of commands) renderCommand(surface, cmd);
+}
+
+function arcPoints(cx: number, cy: number, r: number, from: number, to: number): Point[] {
+  const steps = Math.max(8, Math.ceil((Math.abs(to - from) / (Math.PI * 2)) * 64));
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = from + ((to - from) * i) / steps;
+    points.push({ x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
+  }
+  return points;
+}
+
+function arrowHead(surface: DrawingSurface, from: Point, to: Point, color: string, size = ARROW_HEAD) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  surface.path(
+    [
+      { x: to.x - size * Math.cos(angle - Math.PI / 6), y: to.y - size * Math.sin(angle - Math.PI / 6) },
+      to,
+      { x: to.x - size * Math.cos(angle + Math.PI / 6), y: to.y - size * Math.sin(angle + Math.PI / 6) },
+    ],
+    { stroke: color, width: LINE_WIDTH },
+  );
+}
+
+// Round tick labels: 0.30000000000000004 -> "0.3"
+function formatTick(value: number): string {
+  return String(Math.round(value * 1000) / 1000).replace("-", "−");
+}
+
+function ticks(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    values.push(Math.abs(v) < step * 1e-9 ? 0 : v);
+  }
+  return values;
+}
+
+function frameMapper(frame: PlotFrame) {
+  return {
+    x: (value: number) => frame.x + ((value - frame.xMin) / (frame.xMax - frame.xMin)) * frame.width,
+    y: (value: number) => frame.y + frame.height - ((value - frame.yMin) / (frame.yMax - frame.yMin)) * frame.height,
+  };
+}
+
+function renderCommand(surface: DrawingSurface, cmd: AnyDrawingCommand) {
+  const color = cmd.color || DEFAULT_COLOR;
+
+  switch (cmd.type) {
+    case "circle":
+      surface.path(arcPoints(cmd.x, cmd.y, cmd.radius, 0, Math.PI * 2), { stroke: color, width: LINE_WIDTH, closed: true });
+      if (cmd.label) surface.text(cmd.label, cmd.x, cmd.y, { color, size: 20, align: "center", baseline: "middle" });
+      break;
+
+    case "rect": {
+      const corners = [
+        { x: cmd.x, y: cmd.y },
+        { x: cmd.x + cmd.width, y: cmd.y },
+        { x: cmd.x + cmd.width, y: cmd.y + cmd.height },
+        { x: cmd.x, y: cmd.y + cmd.height },
+      ];
+      surface.path(corners, { stroke: color, width: LINE_WIDTH, closed: true });
+      if (cmd.label) {
+        surface.text(cmd.label, cmd.x + cmd.width / 2, cmd.y + cmd.height / 2, { color, size: 20, align: "center", baseline: "middle" });
+      }
+      break;
+    }
+
+    case "line":
+    case "arrow": {
+      const from = { x: cmd.x1, y: cmd.y1 };
+      const to = { x: cmd.x2, y: cmd.y2 };
+      surface.path([from, to], { stroke: color, width: LINE_WIDTH });
+      if (cmd.type === "arrow") arrowHead(surface, from, to, color);
+      if (cmd.label) {
+        surface.text(cmd.label, (from.x + to.x) / 2, (from.y + to.y) / 2 - 8, { color, size: 16, align: "center", baseline: "bottom" });
+      }
+      break;
+    }
+
+    case "text":
+      surface.text(cmd.text, cmd.x, cmd.y, { color, size: cmd.size ?? 20, baseline: "top" });
+      break;
+
+    case "image":
+      surface.image(cmd.url, cmd.x, cmd.y, cmd.width, cmd.height);
+      break;
+
+    case "group":
+      renderDrawingCommands(surface, cmd.commands);
+      break;
+
+    case "polygon":
+      surface.path(cmd.points, {
+        stroke: color,
+        width: LINE_WIDTH,
+        closed: true,
+        fill: cmd.fill,
+        fillOpacity: cmd.fill ? 0.35 : undefined,
+      });
+      if (cmd.label) {
+        const cx = cmd.points.reduce((sum, p) => sum + p.x, 0) / cmd.points.length;
+        const cy = cmd.points.reduce((sum, p) => sum + p.y, 0) / cmd.points.length;
+        surface.text(cmd.label, cx, cy, { color, size: 18, align: "center", baseline: "middle" });
+      }
+      break;
+
+    case "path":
+      surface.path(cmd.points, { stroke: color, width: LINE_WIDTH });
+      break;
+
+    case "axes": {
+      const map = frameMapper(cmd);
+      const xStep = cmd.xStep ?? 1;
+      const yStep = cmd.yStep ?? 1;
+      // Axes cross at the origin when it is visible, otherwise along the frame edge
+      const originX = map.x(Math.min(Math.max(0, cmd.xMin), cmd.xMax));
+      const originY = map.y(Math.min(Math.max(0, cmd.yMin), cmd.yMax));
+      const originVisible = cmd.xMin <= 0 && cmd.xMax >= 0 && cmd.yMin <= 0 && cmd.yMax >= 0;
+
+      if (cmd.grid) {
+        for (const v of ticks(cmd.xMin, cmd.xMax, xStep)) {
+          surface.path([{ x: map.x(v), y: cmd.y }, { x: map.x(v), y: cmd.y + cmd.height }], { stroke: color, width: 0.5, dash: [2, 4] });
+        }
+        for (const v of ticks(cmd.yMin, cmd.yMax, yStep)) {
+          surface.path([{ x: cmd.x, y: map.y(v) }, { x: cmd.x + cmd.width, y: map.y(v) }], { stroke: color, width: 0.5, dash: [2, 4] });
+        }
+      }
+
+      const xEnd = { x: cmd.x + cmd.width, y: originY };
+      const yEnd = { x: originX, y: cmd.y };
+      surface.path([{ x: cmd.x, y: originY }, xEnd], { stroke: color, width: 2 });
+      surface.path([{ x: originX, y: cmd.y + cmd.height }, yEnd], { stroke: color, width: 2 });
+      arrowHead(surface, { x: cmd.x, y: originY }, xEnd, color, 10);
+      arrowHead(surface, { x: originX, y: cmd.y + cmd.height }, yEnd, color, 10);
+
+      for (const v of ticks(cmd.xMin, cmd.xMax, xStep)) {
+        const x = map.x(v);
+        surface.path([{ x, y: originY - 4 }, { x, y: originY + 4 }], { stroke: color, width: 1.5 });
+        if (v !== 0 || !originVisible) surface.text(formatTick(v), x, originY + 7, { color, size: 12, align: "center", baseline: "top" });
+      }
+      for (const v of ticks(cmd.yMin, cmd.yMax, yStep)) {
+        const y = map.y(v);
+        surface.path([{ x: originX - 4, y }, { x: originX + 4, y }], { stroke: color, width: 1.5 });
+        if (v !== 0 || !originVisible) surface.text(formatTick(v), originX - 7, y, { color, size: 12, align: "right", baseline: "middle" });
+      }
+      if (originVisible) surface.text("0", originX - 6, originY + 6, { color, size: 12, align: "right", baseline: "top" });
+
+      if (cmd.xLabel) surface.text(cmd.xLabel, xEnd.x, originY - 10, { color, size: 16, align: "right", baseline: "bottom" });
+      if (cmd.yLabel) surface.text(cmd.yLabel, originX + 10, yEnd.y, { color, size: 16, baseline: "top" });
+      break;
+    }
+
+    case "plot":
+      for (const segment of cmd.segments ?? []) {
+        surface.path(segment, { stroke: color, width: LINE_WIDTH });
+      }
+      if (cmd.label && cmd.segments?.length) {
+        const lastSegment = cmd.segments[cmd.segments.length - 1];
+        const end = lastSegment[lastSegment.length - 1];
+        surface.text(cmd.label, end.x + 6, end.y, { color, size: 16, baseline: "middle" });
+      }
+      break;
+
+    case "numberline": {
+      const step = cmd.step ?? 1;
+      const toX = (value: number) => cmd.x1 + ((value - cmd.min) / (cmd.max - cmd.min)) * (cmd.x2 - cmd.x1);
+      const start = { x: cmd.x1 - 15, y: cmd.y };
+      const end = { x: cmd.x2 + 15, y: cmd.y };
+      surface.path([start, end], { stroke: color, width: 2 });
+      arrowHead(surface, start, end, color, 10);
+      arrowHead(surface, end, start, color, 10);
+
+      for (const v of ticks(cmd.min, cmd.max, step)) {
+        const x = toX(v);
+        surface.path([{ x, y: cmd.y - 8 }, { x, y: cmd.y + 8 }], { stroke: color, width: 2 });
+        surface.text(formatTick(v), x, cmd.y + 12, { color, size: 14, align: "center", baseline: "top" });
+      }
+      for (const mark of cmd.marks ?? []) {
+        surface.path(arcPoints(toX(mark), cmd.y, 6, 0, Math.PI * 2), { stroke: color, fill: color, fillOpacity: 1, width: 1, closed: true });
+      }
+      if (cmd.label) surface.text(cmd.label, (cmd.x1 + cmd.x2) / 2, cmd.y - 16, { color, size: 16, align: "center", baseline: "bottom" });
+      break;
+    }
+
+    case "fraction": {
+      const { numerator, denominator } = cmd;
+      const caption = cmd.label ?? `${numerator}/${denominator}`;
+
+      if (cmd.shape === "bar") {
+        const width = cmd.width ?? 300;
+        const height = cmd.height ?? 50;
+        const part = width / denominator;
+        for (let i = 0; i < denominator; i++) {
+          const x = cmd.x + i * part;
+          surface.path(
+            [
+              { x, y: cmd.y },
+              { x: x + part, y: cmd.y },
+              { x: x + part, y: cmd.y + height },
+              { x, y: cmd.y + height },
+            ],
+            { stroke: color, width: 2, closed: true, fill: i < numerator ? color : undefined, fillOpacity: 0.5 },
+          );
+        }
+        surface.text(caption, cmd.x + width / 2, cmd.y + height + 8, { color, size: 18, align: "center", baseline: "top" });
+      } else {
+        const radius = cmd.radius ?? 60;
+        const sector = (Math.PI * 2) / denominator;
+        for (let i = 0; i < denominator; i++) {
+          // Start at 12 o'clock and go clockwise, the way students shade pies
+          const from = -Math.PI / 2 + i * sector;
+          const points = denominator === 1
+            ? arcPoints(cmd.x, cmd.y, radius, 0, Math.PI * 2)
+            : [{ x: cmd.x, y: cmd.y }, ...arcPoints(cmd.x, cmd.y, radius, from, from + sector)];
+          surface.path(points, { stroke: color, width: 2, closed: true, fill: i < numerator ? color : undefined, fillOpacity: 0.5 });
+        }
+        surface.text(caption, cmd.x, cmd.y + radius + 8, { color, size: 18, align: "center", baseline: "top" });
+      }
+      break;
+    }
+
+    case "angle": {
+      const radius = cmd.radius ?? 40;
+      // Degrees counterclockwise (math convention) -> canvas radians, where y grows downwards
+      const from = (-cmd.startAngle * Math.PI) / 180;
+      const to = (-cmd.endAngle * Math.PI) / 180;
+      const rayLength = radius * 2.5;
+      surface.path(
+        [
+          { x: cmd.x + rayLength * Math.cos(from), y: cmd.y + rayLength * Math.sin(from) },
+          { x: cmd.x, y: cmd.y },
+          { x: cmd.x + rayLength * Math.cos(to), y: cmd.y + rayLength * Math.sin(to) },
+        ],
+        { stroke: color, width: 2 },
+      );
+      surface.path(arcPoints(cmd.x, cmd.y, radius, from, to), { stroke: color, width: 2 });
+      if (cmd.label) {
+        const middle = (from + to) / 2;
+        surface.text(cmd.label, cmd.x + (radius + 16) * Math.cos(middle), cmd.y + (radius + 16) * Math.sin(middle), {
+          color,
+          size: 16,
+          align: "center",
+          baseline: "middle",
+        });
+      }
+      break;
+    }
+
+    case "latex":
+      surface.latex(cmd.latex, cmd.x, cmd.y, { color, size: cmd.size ?? 24, baseline: "top" });
+      break;
+  }
+}
+
+/**
+ * Canvas surface. Coordinates are scaled by `scale`; LaTeX is handed to `onLatex`
+ * (the whiteboards typeset it in their KaTeX overlay) or drawn as readable text.
+ */
+export function canvasSurface(
+  ctx: CanvasRenderingContext2D,
+  {
+    scale = 1,
+    onLatex,
+  }: {
+    scale?: number;
+    onLatex?: (latex: string, x: number, y: number, style: TextStyle) => void;
+  } = {},
+): DrawingSurface {
+  const drawText = (text: string, x: number, y: number, style: TextStyle) => {
+    ctx.save();
+    ctx.font = `${Math.max(10, style.size * scale)}px sans-serif`;
+    ctx.fillStyle = style.color;
+    ctx.textAlign = style.align ?? "left";
+    ctx.textBaseline = style.baseline ?? "alphabetic";
+    ctx.fillText(text, x * scale, y * scale);
+    ctx.restore();
+  };
+
+  return {
+    path(points, style) {
+      if (points.length < 2) return;
+      ctx.save();
+      ctx.beginPath();
+      ctx.moveTo(points[0].x * scale, points[0].y * scale);
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x * scale, points[i].y * scale);
+      if (style.closed) ctx.closePath();
+      if (style.fill) {
+        ctx.globalAlpha = style.fillOpacity ?? 1;
+        ctx.fillStyle = style.fill;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      }
+      if (style.stroke) {
+        ctx.setLineDash(style.dash ?? []);
+        ctx.strokeStyle = style.stroke;
+        ctx.lineWidth = style.width ?? LINE_WIDTH;
+        ctx.lineCap = "round";
+        ctx.lineJoin = "round";
+        ctx.stroke();
+      }
+      ctx.restore();
+    },
+    text: drawText,
+    latex(latex, x, y, style) {
+      if (onLatex) onLatex(latex, x * scale, y * scale, { ...style, size: style.size * scale });
+      else drawText(normalizeMathText(latex), x, y, style);
+    },
+    image(url, x, y, width, height) {
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => ctx.drawImage(img, x * scale, y * scale, width * scale, height * scale);
+      img.src = url;
+    },
+  };
+}
+
+// Shapes of the step-based tutor (generate-tutor-steps), in board pixels or percentages
+export interface ShapeCommand {
+  type: "circle" | "rect" | "line" | "arrow" | "text" | "freehand" | "clear";
+  x?: number;
+  y?: number;
+  x1?: number;
+  y1?: number;
+  x2?: number;
+  y2?: number;
+  radius?: number;
+  width?: number;
+  height?: number;
+  text?: string;
+  label?: string;
+  color?: string;
+  points?: Array<{ x: number; y: number }>;
+}
+
+export const TUTOR_COLOR = "hsl(280, 80%, 60%)";
+
+// Draw a shape command of the step-based tutor on a canvas. Coordinates up to 100 are
+// percentages of the board. Used by DualWhiteboard and the session replay.
+export function drawCommandShape(ctx: CanvasRenderingContext2D, cmd: ShapeCommand, canvasWidth: number, canvasHeight: number) {
+  const cmdColor = cmd.color || TUTOR_COLOR;
+
+  switch (cmd.type) {
+    case "circle":
+      if (cmd.x !== undefined && cmd.y !== undefined && cmd.radius !== undefined) {
+        const x = cmd.x <= 100 ? (cmd.x / 100) * canvasWidth : cmd.x;
+        const y = cmd.y <= 100 ? (cmd.y / 100) * canvasHeight : cmd.y;
+        const r = cmd.radius <= 100 ? (cmd.radius / 100) * Math.min(canvasWidth, canvasHeight) : cmd.radius;
+
+        ctx.beginPath();
+        ctx.arc(x, y, r, 0, Math.PI * 2);
+        ctx.strokeStyle = cmdColor;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+      }
+      break;
+
+    case "rect":
+      if (cmd.x !== undefined && cmd.y !== undefined && cmd.width !== undefined && cmd.height !== undefined) {
+        const x = cmd.x <= 100 ? (cmd.x / 100) * canvasWidth : cmd.x;
+        const y = cmd.y <= 100 ? (cmd.y / 100) * canvasHeight : cmd.y;
+        const w = cmd.width <= 100 ? (cmd.width / 100) * canvasWidth : cmd.width;
+        const h = cmd.height <= 100 ? (cmd.height / 100) * canvasHeight : cmd.height;
+
+        ctx.strokeStyle = cmdColor;
+        ctx.lineWidth = 3;
+        ctx.strokeRect(x, y, w, h);
+      }
+      break;
+
+    case "line":
+      if (cmd.x1 !== undefined && cmd.y1 !== undefined && cmd.x2 !== undefined && cmd.y2 !== undefined) {
+        const x1 = cmd.x1 <= 100 ? (cmd.x1 / 100) * canvasWidth : cmd.x1;
+        const y1 = cmd.y1 <= 100 ? (cmd.y1 / 100) * canvasHeight : cmd.y1;
+        const x2 = cmd.x2 <= 100 ? (cmd.x2 / 100) * canvasWidth : cmd.x2;
+        const y2 = cmd.y2 <= 100 ? (cmd.y2 / 100) * canvasHeight : cmd.y2;
+
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.strokeStyle = cmdColor;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+      }
+      break;
+
+    case "arrow":
+      if (cmd.x1 !== undefined && cmd.y1 !== undefined && cmd.x2 !== undefined && cmd.y2 !== undefined) {
+        const x1 = cmd.x1 <= 100 ? (cmd.x1 / 100) * canvasWidth : cmd.x1;
+        const y1 = cmd.y1 <= 100 ? (cmd.y1 / 100) * canvasHeight : cmd.y1;
+        const x2 = cmd.x2 <= 100 ? (cmd.x2 / 100) * canvasWidth : cmd.x2;
+        const y2 = cmd.y2 <= 100 ? (cmd.y2 / 100) * canvasHeight : cmd.y2;
+
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const headLength = 15;
+
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.lineTo(x2 - headLength * Math.cos(angle - Math.PI / 6), y2 - headLength * Math.sin(angle - Math.PI / 6));
+        ctx.moveTo(x2, y2);
+        ctx.lineTo(x2 - headLength * Math.cos(angle + Math.PI / 6), y2 - headLength * Math.sin(angle + Math.PI / 6));
+        ctx.strokeStyle = cmdColor;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+      }
+      break;
+
+    case "freehand":
+      if (cmd.points && cmd.points.length > 1) {
+        ctx.beginPath();
+        ctx.moveTo(cmd.points[0].x, cmd.points[0].y);
+        for (let i = 1; i < cmd.points.length; i++) {
+          ctx.lineTo(cmd.points[i].x, cmd.points[i].y);
+        }
+        ctx.strokeStyle = cmdColor;
+        ctx.lineWidth = 3;
+        ctx.lineCap = "round";
+        ctx.lineJoin = "round";
+        ctx.stroke();
+      }
+      break;
+  }
+}
@@ -0,0 +1,31 @@
+// Candidate flashcards proposed by generate-flashcards, before the student accepts them
+import { analyzeText } from "@/lib/textAnalyzer";
+import type { Report } from "@/types/research";
+
+export type CandidateKind = "concept" | "formula" | "vocabulary" | "cloze";
+export type CandidateSourceType = "tutor_session" | "icfes_question" | "research_report";
+
+export const CANDIDATE_KIND_LABELS: Record<CandidateKind, string> = {
+  concept: "Concepto",
+  formula: "Fórmula",
+  vocabulary: "Vocabulario",
+  cloze: "Completar",
+};
+
+export const CANDIDATE_SOURCE_LABELS: Record<CandidateSourceType, string> = {
+  tutor_session: "Sesión de tutoría",
+  icfes_question: "Pregunta ICFES",
+  research_report: "Informe de investigación",
+};
+
+// What the generator gets from each research report: its key points, as analyzeText finds them
+export function researchReportSources(reports: Report[]): Array<{ id: string; title: string; keyPoints: string[] }> {
+  return reports
+    .filter((report) => report.sourceText.trim().length > 0)
+    .map((report) => ({
+      id: report.id,
+      title: report.title,
+      keyPoints: analyzeText(report.sourceText, report.language).keyPoints,
+    }))
+    .filter((report) => report.keyPoints.length > 0);
+}
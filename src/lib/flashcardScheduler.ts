@@ -0,0 +1,117 @@
+// SM-2 spaced repetition with four grades, as in Anki: "otra vez" sends the card back
+// to relearning, the others grow the interval by the card's ease factor. The daily
+// queue mixes due reviews with a capped number of new cards.
+
+export type ReviewGrade = 0 | 1 | 2 | 3;
+
+export const REVIEW_GRADES: Array<{ grade: ReviewGrade; label: string }> = [
+  { grade: 0, label: "Otra vez" },
+  { grade: 1, label: "Difícil" },
+  { grade: 2, label: "Bien" },
+  { grade: 3, label: "Fácil" },
+];
+
+export interface CardSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+}
+
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+// A failed card comes back within the same session
+const RELEARN_MINUTES = 10;
+// Cards whose interval reached three weeks count as mastered
+export const MASTERED_INTERVAL_DAYS = 21;
+export const NEW_CARDS_PER_DAY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isNewCard(card: Pick<CardSchedule, "last_reviewed_at">): boolean {
+  return card.last_reviewed_at === null;
+}
+
+export function isMastered(card: Pick<CardSchedule, "interval_days">): boolean {
+  return card.interval_days >= MASTERED_INTERVAL_DAYS;
+}
+
+export function isDue(card: Pick<CardSchedule, "due_at">, now = new Date()): boolean {
+  return new Date(card.due_at).getTime() <= now.getTime();
+}
+
+// Next interval in days for a grade; 0 means relearning today
+function nextInterval(card: CardSchedule, grade: ReviewGrade, ease: number): number {
+  if (grade === 0) return 0;
+  const previous = Math.max(1, card.interval_days);
+  if (card.repetitions === 0) return grade === 3 ? 4 : 1;
+  if (card.repetitions === 1 && grade !== 1) return grade === 3 ? 8 : 6;
+  if (grade === 1) return Math.max(previous + 1, Math.round(previous * 1.2));
+  return Math.max(previous + 1, Math.round(previous * ease * (grade === 3 ? 1.3 : 1)));
+}
+
+export function scheduleReview(card: CardSchedule, grade: ReviewGrade, now = new Date()): CardSchedule {
+  const easeDelta = grade === 0 ? -0.2 : grade === 1 ? -0.15 : grade === 3 ? 0.15 : 0;
+  const ease = Math.max(MIN_EASE, Math.round((card.ease_factor + easeDelta) * 100) / 100);
+  const interval = Math.min(MAX_INTERVAL_DAYS, nextInterval(card, grade, ease));
+  const due = grade === 0 ? now.getTime() + RELEARN_MINUTES * 60 * 1000 : now.getTime() + interval * DAY_MS;
+
+  return {
+    ease_factor: ease,
+    interval_days: interval,
+    repetitions: grade === 0 ? 0 : card.repetitions + 1,
+    lapses: grade === 0 && !isNewCard(card) ? card.lapses + 1 : card.lapses,
+    due_at: new Date(due).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
+
+// What each grade button would do, for the labels under them
+export function formatInterval(card: CardSchedule, grade: ReviewGrade): string {
+  const days = scheduleReview(card, grade).interval_days;
+  if (days === 0) return `${RELEARN_MINUTES} min`;
+  if (days < 30) return `${days} d`;
+  if (days < 365) return `${Math.round(days / 30)} m`;
+  return "1 año";
+}
+
+/**
+ * Today's queue: due reviews oldest first, then new cards in creation order up to
+ * what is left of the daily allowance.
+ */
+export function buildReviewQueue<T extends CardSchedule & { created_at: string }>(
+  cards: T[],
+  newIntroducedToday: number,
+  now = new Date(),
+): T[] {
+  const due = cards
+    .filter((c) => !isNewCard(c) && isDue(c, now))
+    .sort((a, b) => a.due_at.localeCompare(b.due_at));
+  const fresh = cards
+    .filter(isNewCard)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - newIntroducedToday));
+  return [...due, ...fresh];
+}
+
+// Calendar day in the student's time zone
+export function localDay(date: Date | string): string {
+  const d = typeof date === "string" ? new Date(date) : date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// Consecutive days with at least one review, still alive if the last one was yesterday
+export function reviewStreak(reviewDays: Iterable<string>, now = new Date()): number {
+  const days = new Set(reviewDays);
+  const cursor = new Date(now);
+  if (!days.has(localDay(cursor))) cursor.setDate(cursor.getDate() - 1);
+
+  let streak = 0;
+  while (days.has(localDay(cursor))) {
+    streak += 1;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+}
@@ -0,0 +1,144 @@
+// Adaptive ICFES practice on a Rasch (1PL) model: ability per area and competencia is
+// estimated from the student's graded answers, and the next question is the one that
+// tells us the most about that ability. Item difficulties come from icfes_questions.irt_difficulty,
+// calibrated server-side from every student's answers.
+
+export interface AdaptiveItem {
+  id: string;
+  competencia: string | null;
+  dificultad: number;
+  irt_difficulty: number | null;
+}
+
+export interface ItemResponse {
+  questionId: string;
+  competencia: string | null;
+  difficulty: number;
+  isCorrect: boolean;
+  answeredAt: string;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  se: number;
+  responses: number;
+}
+
+export interface AbilityProfile {
+  area: AbilityEstimate;
+  byCompetencia: Record<string, AbilityEstimate>;
+}
+
+// Same prior the calibration uses for items nobody has answered yet (dificultad 1–5 → b ≈ -1.6…1.6)
+export function priorDifficulty(dificultad: number): number {
+  return (dificultad - 3) * 0.8;
+}
+
+export function itemDifficulty(item: Pick<AdaptiveItem, "dificultad" | "irt_difficulty">): number {
+  return item.irt_difficulty ?? priorDifficulty(item.dificultad);
+}
+
+export function probabilityCorrect(theta: number, difficulty: number): number {
+  return 1 / (1 + Math.exp(-(theta - difficulty)));
+}
+
+// Fisher information of a Rasch item: highest where the student has even odds
+export function itemInformation(theta: number, difficulty: number): number {
+  const p = probabilityCorrect(theta, difficulty);
+  return p * (1 - p);
+}
+
+const THETA_GRID = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1);
+
+/**
+ * Expected a posteriori ability over a grid, with a normal prior. EAP stays finite
+ * for all-correct or all-wrong histories, which maximum likelihood does not.
+ */
+export function estimateAbility(
+  responses: Array<{ difficulty: number; isCorrect: boolean }>,
+  prior: { mean: number; sd: number } = { mean: 0, sd: 1 },
+): AbilityEstimate {
+  const logWeights = THETA_GRID.map((theta) => {
+    let log = -((theta - prior.mean) ** 2) / (2 * prior.sd ** 2);
+    for (const r of responses) {
+      const p = probabilityCorrect(theta, r.difficulty);
+      log += Math.log(r.isCorrect ? p : 1 - p);
+    }
+    return log;
+  });
+  const max = Math.max(...logWeights);
+  const weights = logWeights.map((w) => Math.exp(w - max));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  const theta = THETA_GRID.reduce((sum, t, i) => sum + t * weights[i], 0) / total;
+  const variance = THETA_GRID.reduce((sum, t, i) => sum + (t - theta) ** 2 * weights[i], 0) / total;
+  return { theta, se: Math.sqrt(variance), responses: responses.length };
+}
+
+// Competencia estimates shrink toward the area estimate until they have answers of their own
+export function estimateProfile(responses: ItemResponse[]): AbilityProfile {
+  const area = estimateAbility(responses);
+  const groups = new Map<string, ItemResponse[]>();
+  for (const r of responses) {
+    if (!r.competencia) continue;
+    groups.set(r.competencia, [...(groups.get(r.competencia) ?? []), r]);
+  }
+
+  const byCompetencia: Record<string, AbilityEstimate> = {};
+  for (const [competencia, group] of groups) {
+    byCompetencia[competencia] = estimateAbility(group, { mean: area.theta, sd: 0.7 });
+  }
+  return { area, byCompetencia };
+}
+
+export function abilityFor(profile: AbilityProfile, competencia: string | null): number {
+  const estimate = competencia ? profile.byCompetencia[competencia] : undefined;
+  return estimate ? estimate.theta : profile.area.theta;
+}
+
+// Days before a mastered item comes back, by how many times in a row it was answered right
+const REVIEW_INTERVAL_DAYS: Record<number, number> = { 2: 7, 3: 21, 4: 45 };
+const MAX_REVIEW_INTERVAL_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewState = "new" | "learning" | "due" | "mastered";
+
+/**
+ * Where an item stands for this student: mastered after two correct answers in a row,
+ * and due again once its review interval has passed.
+ */
+export function reviewState(history: ItemResponse[], now = Date.now()): ReviewState {
+  if (history.length === 0) return "new";
+  const sorted = [...history].sort((a, b) => a.answeredAt.localeCompare(b.answeredAt));
+  let streak = 0;
+  for (let i = sorted.length - 1; i >= 0 && sorted[i].isCorrect; i--) streak += 1;
+  if (streak < 2) return "learning";
+
+  const interval = REVIEW_INTERVAL_DAYS[streak] ?? MAX_REVIEW_INTERVAL_DAYS;
+  const last = new Date(sorted[sorted.length - 1].answeredAt).getTime();
+  return now - last >= interval * DAY_MS ? "due" : "mastered";
+}
+
+// Items the student may see now: everything except mastered items that are not yet due
+export function eligibleItems<T extends AdaptiveItem>(items: T[], history: ItemResponse[], now = Date.now()): T[] {
+  const byQuestion = new Map<string, ItemResponse[]>();
+  for (const r of history) byQuestion.set(r.questionId, [...(byQuestion.get(r.questionId) ?? []), r]);
+  return items.filter((item) => reviewState(byQuestion.get(item.id) ?? [], now) !== "mastered");
+}
+
+// Pick among the few most informative items so the same question doesn't always win
+const RANDOMESQUE_POOL = 3;
+
+export function selectNextItem<T extends AdaptiveItem>(
+  candidates: T[],
+  profile: AbilityProfile,
+  askedIds: Set<string>,
+): T | null {
+  const ranked = candidates
+    .filter((item) => !askedIds.has(item.id))
+    .map((item) => ({ item, information: itemInformation(abilityFor(profile, item.competencia), itemDifficulty(item)) }))
+    .sort((a, b) => b.information - a.information)
+    .slice(0, RANDOMESQUE_POOL);
+  if (ranked.length === 0) return null;
+  return ranked[Math.floor(Math.random() * ranked.length)].item;
+}
@@ -0,0 +1,98 @@
+// Recurring error patterns across a student's ICFES attempts. The detection runs in the
+// database (icfes_error_patterns) so the dashboard and generate-leveling-plan read the same
+// diagnosis; this module only parses the result and words it for the student.
+import { ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+
+export type ErrorPatternKind = "distractor" | "final_stretch" | "long_statements" | "second_guessing";
+export type ErrorPatternSeverity = "alta" | "media";
+
+export interface ErrorPattern {
+  kind: ErrorPatternKind;
+  severity: ErrorPatternSeverity;
+  // Only for distractor patterns, which are per competencia
+  area?: string;
+  competencia?: string;
+  evidence: Record<string, number | null>;
+}
+
+export interface ErrorDiagnosis {
+  attempts: number;
+  answers: number;
+  patterns: ErrorPattern[];
+}
+
+export interface PatternDescription {
+  title: string;
+  detail: string;
+  advice: string;
+}
+
+const KINDS: ErrorPatternKind[] = ["distractor", "final_stretch", "long_statements", "second_guessing"];
+
+export const EMPTY_DIAGNOSIS: ErrorDiagnosis = { attempts: 0, answers: 0, patterns: [] };
+
+// Rebuild what icfes_error_patterns returned, dropping anything this client doesn't know
+export function parseErrorDiagnosis(raw: unknown): ErrorDiagnosis {
+  if (!raw || typeof raw !== "object") return EMPTY_DIAGNOSIS;
+  const r = raw as { attempts?: unknown; answers?: unknown; patterns?: unknown };
+
+  const patterns = (Array.isArray(r.patterns) ? r.patterns : [])
+    .filter((p): p is ErrorPattern => !!p && typeof p === "object" && KINDS.includes(p.kind))
+    .map((p) => ({
+      kind: p.kind,
+      severity: p.severity === "alta" ? ("alta" as const) : ("media" as const),
+      area: typeof p.area === "string" ? p.area : undefined,
+      competencia: typeof p.competencia === "string" ? p.competencia : undefined,
+      evidence: p.evidence && typeof p.evidence === "object" ? p.evidence : {},
+    }));
+
+  return {
+    attempts: typeof r.attempts === "number" ? r.attempts : 0,
+    answers: typeof r.answers === "number" ? r.answers : 0,
+    // Most severe first, keeping the database order within each severity
+    patterns: [...patterns.filter((p) => p.severity === "alta"), ...patterns.filter((p) => p.severity === "media")],
+  };
+}
+
+function areaLabel(area: string | undefined): string {
+  return (area && ICFES_AREA_LABELS[area as IcfesArea]) || area || "";
+}
+
+export function describePattern(pattern: ErrorPattern): PatternDescription {
+  const e = pattern.evidence;
+  switch (pattern.kind) {
+    case "distractor":
+      return {
+        title: `Caes en los distractores de ${pattern.competencia}`,
+        detail:
+          `En ${areaLabel(pattern.area)} elegiste una opción incorrecta en ${e.wrong} de ${e.answered} preguntas ` +
+          `(${e.wrong_rate}%)` +
+          (e.repeated ? `, y en ${e.repeated} repetiste el mismo error en otro intento.` : "."),
+        advice: "Antes de marcar, explica por qué cada opción descartada es falsa; el distractor suele ser la opción casi correcta.",
+      };
+    case "final_stretch":
+      return {
+        title: "Se te acaba el tiempo al final",
+        detail:
+          `En el último tercio de tus pruebas dejas en blanco el ${e.blank_rate_last}% de las preguntas ` +
+          `(${e.blank_rate_rest}% antes) y aciertas el ${e.accuracy_last}% (${e.accuracy_rest}% antes).`,
+        advice: "Haz una primera pasada respondiendo lo seguro y marca las difíciles para volver; mira el reloj en cada bloque.",
+      };
+    case "long_statements":
+      return {
+        title: "Los enunciados largos te cuestan más",
+        detail:
+          `Aciertas el ${e.accuracy_long}% de las preguntas con enunciados de más de ${e.long_from_chars} caracteres, ` +
+          `frente al ${e.accuracy_short}% del resto.`,
+        advice: "Lee primero la pregunta final, subraya los datos clave y resume el enunciado en una frase antes de ver las opciones.",
+      };
+    case "second_guessing":
+      return {
+        title: "Cambias respuestas correctas por incorrectas",
+        detail:
+          `De ${e.changed} respuestas que cambiaste, ${e.correct_to_wrong} eran correctas antes del cambio ` +
+          `y solo ${e.wrong_to_correct} pasaron de incorrectas a correctas.`,
+        advice: "Cambia una respuesta solo si encuentras un dato concreto que la contradiga, no por una corazonada.",
+      };
+  }
+}
@@ -0,0 +1,124 @@
+// Item sets: several questions hanging off one stimulus (a text, chart or dialogue).
+// A set is always presented whole and in passage_order, both in practice and in the simulacro.
+import type { AnswerLetter } from "@/lib/icfesSimulacro";
+
+export type StimulusKind = "text" | "chart" | "dialogue";
+export type QuestionFormat = "seleccion" | "emparejamiento" | "completar";
+
+export const STIMULUS_KIND_LABELS: Record<StimulusKind, string> = {
+  text: "Texto",
+  chart: "Gráfica o tabla",
+  dialogue: "Diálogo",
+};
+
+export const QUESTION_FORMAT_LABELS: Record<QuestionFormat, string> = {
+  seleccion: "Selección múltiple",
+  emparejamiento: "Emparejamiento",
+  completar: "Completar texto (cloze)",
+};
+
+export const ANSWER_LETTERS: AnswerLetter[] = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+export interface IcfesPassage {
+  id: string;
+  kind: string;
+  title: string | null;
+  content: string;
+  imagen_url: string | null;
+  options: unknown;
+}
+
+export interface SetMember {
+  id: string;
+  passage_id: string | null;
+  passage_order: number | null;
+}
+
+export interface OptionSource {
+  formato: string;
+  opcion_a: string | null;
+  opcion_b: string | null;
+  opcion_c: string | null;
+  opcion_d: string | null;
+}
+
+// Shared A–H choices of a matching passage
+export function passageOptions(passage: Pick<IcfesPassage, "options"> | null | undefined): string[] {
+  if (!passage || !Array.isArray(passage.options)) return [];
+  return passage.options.filter((o): o is string => typeof o === "string" && o.trim() !== "");
+}
+
+// The lettered choices of a question: its own A–D, or the passage list for matching
+export function questionOptions(
+  question: OptionSource,
+  passage: Pick<IcfesPassage, "options"> | null | undefined,
+): Array<{ letter: AnswerLetter; text: string }> {
+  const texts =
+    question.formato === "emparejamiento"
+      ? passageOptions(passage)
+      : [question.opcion_a, question.opcion_b, question.opcion_c, question.opcion_d];
+  return texts
+    .map((text, i) => ({ letter: ANSWER_LETTERS[i], text }))
+    .filter((option): option is { letter: AnswerLetter; text: string } => !!option.text);
+}
+
+const byPassageOrder = (a: SetMember, b: SetMember) => (a.passage_order ?? 0) - (b.passage_order ?? 0);
+
+/**
+ * Splits a bank into units: each passage's questions in order, and standalone
+ * questions on their own. Sampling units instead of questions keeps sets whole.
+ */
+export function groupItemSets<T extends SetMember>(items: T[]): T[][] {
+  const sets = new Map<string, T[]>();
+  const units: T[][] = [];
+  for (const item of items) {
+    if (!item.passage_id) {
+      units.push([item]);
+      continue;
+    }
+    const set = sets.get(item.passage_id);
+    if (set) {
+      set.push(item);
+    } else {
+      const created = [item];
+      sets.set(item.passage_id, created);
+      units.push(created);
+    }
+  }
+  return units.map((unit) => (unit.length > 1 ? unit.sort(byPassageOrder) : unit));
+}
+
+// The rest of an item's set that has not been asked yet, in order (just the item when it stands alone)
+export function remainingSet<T extends SetMember>(item: T, bank: T[], askedIds: Set<string>): T[] {
+  if (!item.passage_id) return [item];
+  return bank
+    .filter((q) => q.passage_id === item.passage_id && (q.id === item.id || !askedIds.has(q.id)))
+    .sort(byPassageOrder);
+}
+
+/**
+ * Cloze texts mark their gaps as [1], [2]…; each gap is the question with that
+ * passage_order. Returns the text split into plain runs and gap numbers.
+ */
+export function clozeSegments(content: string): Array<{ text: string } | { gap: number }> {
+  const segments: Array<{ text: string } | { gap: number }> = [];
+  let last = 0;
+  for (const match of content.matchAll(/\[(\d+)\]/g)) {
+    if (match.index > last) segments.push({ text: content.slice(last, match.index) });
+    segments.push({ gap: Number(match[1]) });
+    last = match.index + match[0].length;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) });
+  return segments;
+}
+
+// Dialogue lines written as "Speaker: line"
+export function dialogueLines(content: string): Array<{ speaker: string | null; line: string }> {
+  return content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const match = line.match(/^\s*([^:]{1,30}):\s*(.*)$/);
+      return match ? { speaker: match[1].trim(), line: match[2] } : { speaker: null, line: line.trim() };
+    });
+}
@@ -0,0 +1,400 @@
+// Question bank authoring helpers: review workflow, CSV/JSON import with validation
+// and duplicate detection, and the JSON export used to move banks between environments.
+import { z } from "zod";
+import { ICFES_AREAS, type AnswerLetter } from "@/lib/icfesSimulacro";
+import {
+  ANSWER_LETTERS,
+  QUESTION_FORMAT_LABELS,
+  passageOptions,
+  STIMULUS_KIND_LABELS,
+  type QuestionFormat,
+  type StimulusKind,
+} from "@/lib/icfesItemSets";
+
+export type ReviewStatus = "draft" | "reviewed" | "active";
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Borrador",
+  reviewed: "Revisada",
+  active: "Publicada",
+};
+
+// Moves an author or reviewer can make from each status
+export const REVIEW_TRANSITIONS: Record<ReviewStatus, Array<{ to: ReviewStatus; label: string }>> = {
+  draft: [{ to: "reviewed", label: "Marcar revisada" }],
+  reviewed: [
+    { to: "active", label: "Publicar" },
+    { to: "draft", label: "Devolver a borrador" },
+  ],
+  active: [{ to: "draft", label: "Retirar" }],
+};
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform((value) => (value ? value : null));
+
+// Spelled out rather than z.infer: without strictNullChecks every inferred field is optional
+export interface QuestionInput {
+  area: string;
+  competencia: string | null;
+  enunciado: string;
+  imagen_url: string | null;
+  formato: QuestionFormat;
+  opcion_a: string | null;
+  opcion_b: string | null;
+  opcion_c: string | null;
+  opcion_d: string | null;
+  respuesta_correcta: AnswerLetter;
+  dificultad: number;
+  explicacion: string | null;
+  // Key of a passage in the same file; the export uses the passage id
+  passage_key: string | null;
+  passage_order: number | null;
+}
+
+export interface PassageInput {
+  key: string;
+  area: string;
+  kind: StimulusKind;
+  title: string | null;
+  content: string;
+  imagen_url: string | null;
+  // Shared choices for matching questions
+  options: string[] | null;
+}
+
+export const questionInputSchema = z.object({
+  area: z.enum(ICFES_AREAS as [string, ...string[]], { errorMap: () => ({ message: "Área no válida" }) }),
+  competencia: optionalText,
+  enunciado: z.string().trim().min(5, "El enunciado es muy corto"),
+  imagen_url: optionalText.refine((value) => !value || /^https?:\/\//.test(value), "La imagen debe ser una URL"),
+  // Empty cells are plain multiple choice
+  formato: z.preprocess(
+    (value) => (value === "" || value == null ? "seleccion" : value),
+    z.enum(Object.keys(QUESTION_FORMAT_LABELS) as [QuestionFormat, ...QuestionFormat[]], {
+      errorMap: () => ({ message: "El formato debe ser seleccion, emparejamiento o completar" }),
+    }),
+  ),
+  opcion_a: optionalText,
+  opcion_b: optionalText,
+  opcion_c: optionalText,
+  opcion_d: optionalText,
+  respuesta_correcta: z
+    .string()
+    .trim()
+    .transform((value) => value.toUpperCase())
+    .pipe(z.enum(ANSWER_LETTERS as [AnswerLetter, ...AnswerLetter[]], {
+      errorMap: () => ({ message: "La respuesta debe ser una letra de la A a la H" }),
+    })),
+  dificultad: z.coerce
+    .number({ invalid_type_error: "La dificultad debe ser un número" })
+    .int("La dificultad debe ser entera")
+    .min(1, "La dificultad va de 1 a 5")
+    .max(5, "La dificultad va de 1 a 5"),
+  explicacion: optionalText,
+  passage_key: optionalText,
+  // Empty CSV cells mean "no order"
+  passage_order: z.preprocess(
+    (value) => (value === "" || value === undefined ? null : value),
+    z.coerce.number().int().min(1, "El orden empieza en 1").nullable(),
+  ),
+}).superRefine((question, ctx) => {
+  // Matching answers against the passage list are checked once the passage is known
+  if (question.formato === "emparejamiento") {
+    if (!question.passage_key) {
+      ctx.addIssue({ code: "custom", path: ["passage_key"], message: "El emparejamiento necesita un texto compartido con opciones" });
+    }
+    return;
+  }
+
+  const required = question.formato === "completar" ? (["a", "b", "c"] as const) : (["a", "b", "c", "d"] as const);
+  for (const letter of required) {
+    if (!question[`opcion_${letter}`]) {
+      ctx.addIssue({ code: "custom", path: [`opcion_${letter}`], message: `Falta la opción ${letter.toUpperCase()}` });
+    }
+  }
+  const letters = ANSWER_LETTERS.slice(0, question.opcion_d ? 4 : 3);
+  if (!letters.includes(question.respuesta_correcta)) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["respuesta_correcta"],
+      message: `La respuesta debe ser ${letters.slice(0, -1).join(", ")} o ${letters[letters.length - 1]}`,
+    });
+  }
+  if (question.formato === "completar" && (!question.passage_key || !question.passage_order)) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["passage_order"],
+      message: "Completar texto necesita un texto compartido y el número del espacio en passage_order",
+    });
+  }
+});
+
+export const passageInputSchema = z.object({
+  key: z.string().trim().min(1, "El texto compartido necesita una clave"),
+  area: z.enum(ICFES_AREAS as [string, ...string[]], { errorMap: () => ({ message: "Área no válida" }) }),
+  kind: z.preprocess(
+    (value) => (value === "" || value == null ? "text" : value),
+    z.enum(Object.keys(STIMULUS_KIND_LABELS) as [StimulusKind, ...StimulusKind[]], {
+      errorMap: () => ({ message: "El tipo debe ser text, chart o dialogue" }),
+    }),
+  ),
+  title: optionalText,
+  content: z.string().trim().min(10, "El texto compartido es muy corto"),
+  imagen_url: optionalText,
+  // CSV cells list the matching choices separated by "|"
+  options: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value.split("|").map((o) => o.trim()).filter(Boolean)
+        : value,
+    z
+      .array(z.string().trim().min(1))
+      .min(2, "El emparejamiento necesita al menos 2 opciones")
+      .max(8, "El emparejamiento admite hasta 8 opciones (A–H)")
+      .nullable()
+      .optional()
+      .transform((value) => (value && value.length > 0 ? value : null)),
+  ),
+});
+
+export interface ImportRowError {
+  label: string;
+  messages: string[];
+}
+
+export interface ImportPreview {
+  passages: PassageInput[];
+  questions: Array<QuestionInput & { row: number }>;
+  errors: ImportRowError[];
+  // Rows whose statement is already in the bank or earlier in the file; they are skipped
+  duplicates: Array<{ row: number; enunciado: string }>;
+}
+
+// The export/import JSON layout
+export interface BankFile {
+  version: 1;
+  exported_at?: string;
+  passages: PassageInput[];
+  questions: QuestionInput[];
+}
+
+// Same statement regardless of case, accents, punctuation and whitespace
+export function normalizeStatement(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, and newlines inside quotes. */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * CSV rows to the bank file layout. Columns are the question fields plus optional
+ * passage_key / passage_kind / passage_title / passage_content / passage_options: rows
+ * sharing a passage_key share the passage, defined by the first row that carries its content.
+ */
+function csvToBankFile(text: string): { file: Omit<BankFile, "version">; rowOffset: number } {
+  const content = text.replace(/^\uFEFF/, "");
+  // Spreadsheets set to Spanish locales export with semicolons
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+  const [header, ...rows] = parseCsv(content, delimiter);
+  if (!header) throw new Error("El archivo está vacío");
+  const columns = header.map((h) => h.trim().toLowerCase());
+
+  const passages = new Map<string, Record<string, string>>();
+  const questions = rows.map((cells) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      record[column] = cells[i] ?? "";
+    });
+    const key = record.passage_key?.trim();
+    if (key && record.passage_content?.trim() && !passages.has(key)) {
+      passages.set(key, {
+        key,
+        area: record.area,
+        kind: record.passage_kind,
+        title: record.passage_title,
+        content: record.passage_content,
+        imagen_url: record.passage_imagen_url,
+        options: record.passage_options,
+      });
+    }
+    return record;
+  });
+
+  return {
+    file: {
+      passages: [...passages.values()] as unknown as PassageInput[],
+      questions: questions as unknown as QuestionInput[],
+    },
+    rowOffset: 2, // header is row 1
+  };
+}
+
+// A matching answer must be one of the passage's lettered choices
+export function matchingAnswerError(question: QuestionInput, options: string[] | null): string | null {
+  if (question.formato !== "emparejamiento") return null;
+  if (!options || options.length < 2) return "El texto compartido no tiene opciones para emparejar";
+  const letters = ANSWER_LETTERS.slice(0, options.length);
+  return letters.includes(question.respuesta_correcta)
+    ? null
+    : `respuesta_correcta: debe estar entre A y ${letters[letters.length - 1]}`;
+}
+
+function issueMessages(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "fila"}: ${issue.message}`);
+}
+
+/**
+ * Validates an import file against the schemas and the current bank. Nothing is written:
+ * the preview says what would be created, what is invalid and what is a duplicate.
+ */
+export function previewImport(
+  text: string,
+  format: "csv" | "json",
+  existingStatements: string[],
+): ImportPreview {
+  let raw: { passages?: unknown[]; questions?: unknown[] };
+  let rowOffset = 1;
+  if (format === "json") {
+    const parsed = JSON.parse(text);
+    raw = Array.isArray(parsed) ? { passages: [], questions: parsed } : parsed;
+  } else {
+    const csv = csvToBankFile(text);
+    raw = csv.file;
+    rowOffset = csv.rowOffset;
+  }
+
+  const errors: ImportRowError[] = [];
+  const passages: PassageInput[] = [];
+  for (const [i, item] of (raw.passages ?? []).entries()) {
+    const result = passageInputSchema.safeParse(item);
+    if (result.success) passages.push(result.data as PassageInput);
+    else errors.push({ label: `Texto compartido ${i + 1}`, messages: issueMessages(result.error) });
+  }
+  const passageByKey = new Map(passages.map((p) => [p.key, p]));
+
+  const seen = new Set(existingStatements.map(normalizeStatement));
+  const questions: ImportPreview["questions"] = [];
+  const duplicates: ImportPreview["duplicates"] = [];
+
+  for (const [i, item] of (raw.questions ?? []).entries()) {
+    const row = i + rowOffset;
+    const result = questionInputSchema.safeParse(item);
+    if (!result.success) {
+      errors.push({ label: `Fila ${row}`, messages: issueMessages(result.error) });
+      continue;
+    }
+    const question = result.data as QuestionInput;
+    const passage = question.passage_key ? passageByKey.get(question.passage_key) : undefined;
+    if (question.passage_key && !passage) {
+      errors.push({
+        label: `Fila ${row}`,
+        messages: [`passage_key: no existe el texto compartido "${question.passage_key}"`],
+      });
+      continue;
+    }
+    const matchingError = matchingAnswerError(question, passage?.options ?? null);
+    if (matchingError) {
+      errors.push({ label: `Fila ${row}`, messages: [matchingError] });
+      continue;
+    }
+    const fingerprint = normalizeStatement(question.enunciado);
+    if (seen.has(fingerprint)) {
+      duplicates.push({ row, enunciado: question.enunciado });
+      continue;
+    }
+    seen.add(fingerprint);
+    questions.push({ ...question, row });
+  }
+
+  return { passages, questions, errors, duplicates };
+}
+
+export function buildBankFile(
+  passages: Array<{
+    id: string;
+    area: string;
+    kind: string;
+    title: string | null;
+    content: string;
+    imagen_url: string | null;
+    options: unknown;
+  }>,
+  questions: Array<Omit<QuestionInput, "passage_key"> & { passage_id: string | null }>,
+): BankFile {
+  return {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    passages: passages.map((p) => ({
+      key: p.id,
+      area: p.area,
+      kind: p.kind as StimulusKind,
+      title: p.title,
+      content: p.content,
+      imagen_url: p.imagen_url,
+      options: passageOptions(p).length > 0 ? passageOptions(p) : null,
+    })),
+    questions: questions.map(({ passage_id, ...q }) => ({
+      area: q.area,
+      competencia: q.competencia,
+      enunciado: q.enunciado,
+      imagen_url: q.imagen_url,
+      formato: q.formato,
+      opcion_a: q.opcion_a,
+      opcion_b: q.opcion_b,
+      opcion_c: q.opcion_c,
+      opcion_d: q.opcion_d,
+      respuesta_correcta: q.respuesta_correcta,
+      dificultad: q.dificultad,
+      explicacion: q.explicacion,
+      passage_key: passage_id,
+      passage_order: q.passage_order ?? null,
+    })),
+  };
+}
@@ -0,0 +1,178 @@
+// Saber 11 style scores: each area on 0–100 and a weighted global on 0–500,
+// plus percentile bands read from a reference table (icfes_percentile_reference).
+import { ICFES_AREAS, type IcfesArea } from "@/lib/icfesSimulacro";
+
+// Official weights: the four core tests count three times as much as English
+export const ICFES_AREA_WEIGHTS: Record<IcfesArea, number> = {
+  matematicas: 3,
+  lectura_critica: 3,
+  ciencias: 3,
+  sociales: 3,
+  ingles: 1,
+};
+
+export const ICFES_GLOBAL_MAX = 500;
+
+export type PercentileScope = "global" | IcfesArea;
+
+// One row of the reference table: scores at or above minScore reach this percentile
+export interface PercentileReferenceRow {
+  scope: PercentileScope;
+  minScore: number;
+  percentile: number;
+}
+
+export interface PercentileBand {
+  from: number;
+  to: number;
+}
+
+export interface AreaResult {
+  area: IcfesArea;
+  score: number;
+  weight: number;
+  percentile: PercentileBand | null;
+}
+
+export interface IcfesScoreReport {
+  areas: AreaResult[];
+  global: number | null;
+  globalPercentile: PercentileBand | null;
+  // false when some area is missing: the global is then an estimate over the areas taken
+  complete: boolean;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Older rows use "lectura" for Lectura Crítica
+function normalizeArea(key: string): IcfesArea | null {
+  const area = key === "lectura" ? "lectura_critica" : key;
+  return ICFES_AREAS.includes(area as IcfesArea) ? (area as IcfesArea) : null;
+}
+
+// scores_by_area / scores_by_subject hold the percentage of correct answers per area
+export function areaScores(scoresByArea: unknown): Partial<Record<IcfesArea, number>> {
+  const scores: Partial<Record<IcfesArea, number>> = {};
+  if (!scoresByArea || typeof scoresByArea !== "object") return scores;
+  for (const [key, value] of Object.entries(scoresByArea as Record<string, unknown>)) {
+    const area = normalizeArea(key);
+    const number = typeof value === "number" ? value : Number(value);
+    if (area && Number.isFinite(number)) scores[area] = Math.round(clamp(number, 0, 100));
+  }
+  return scores;
+}
+
+/**
+ * Weighted global on 0–500: the weighted mean of the area scores, times five.
+ * Missing areas are left out of both sums instead of counting as zero.
+ */
+export function globalScore(scores: Partial<Record<IcfesArea, number>>): number | null {
+  let weighted = 0;
+  let weights = 0;
+  for (const area of ICFES_AREAS) {
+    const score = scores[area];
+    if (score === undefined) continue;
+    weighted += score * ICFES_AREA_WEIGHTS[area];
+    weights += ICFES_AREA_WEIGHTS[area];
+  }
+  if (weights === 0) return null;
+  return Math.round((weighted / weights) * (ICFES_GLOBAL_MAX / 100));
+}
+
+// The band between the highest reference row the score reaches and the next one
+export function percentileBand(
+  score: number,
+  scope: PercentileScope,
+  reference: PercentileReferenceRow[],
+): PercentileBand | null {
+  const rows = reference.filter((r) => r.scope === scope).sort((a, b) => a.minScore - b.minScore);
+  if (rows.length === 0) return null;
+
+  let index = -1;
+  while (index + 1 < rows.length && score >= rows[index + 1].minScore) index += 1;
+  if (index === -1) return { from: 0, to: rows[0].percentile };
+  const next = rows[index + 1];
+  return { from: rows[index].percentile, to: next ? next.percentile : 100 };
+}
+
+export function formatPercentileBand(band: PercentileBand): string {
+  if (band.to >= 100) return `Percentil ${band.from}+`;
+  return band.from === band.to ? `Percentil ${band.from}` : `Percentil ${band.from}–${band.to}`;
+}
+
+export function scoreReport(scoresByArea: unknown, reference: PercentileReferenceRow[] = []): IcfesScoreReport {
+  const scores = areaScores(scoresByArea);
+  const areas = ICFES_AREAS.filter((area) => scores[area] !== undefined).map((area) => ({
+    area,
+    score: scores[area]!,
+    weight: ICFES_AREA_WEIGHTS[area],
+    percentile: percentileBand(scores[area]!, area, reference),
+  }));
+  const global = globalScore(scores);
+
+  return {
+    areas,
+    global,
+    globalPercentile: global !== null ? percentileBand(global, "global", reference) : null,
+    complete: areas.length === ICFES_AREAS.length,
+  };
+}
+
+export interface ScoreTrendPoint {
+  date: string;
+  global: number | null;
+  scores: Partial<Record<IcfesArea, number>>;
+}
+
+// Points in chronological order; the global is only plotted for attempts covering every area
+export function scoreTrend(
+  attempts: Array<{ completedAt: string; scoresByArea: unknown }>,
+): ScoreTrendPoint[] {
+  return [...attempts]
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt))
+    .map((attempt) => {
+      const report = scoreReport(attempt.scoresByArea);
+      return {
+        date: attempt.completedAt,
+        global: report.complete ? report.global : null,
+        scores: Object.fromEntries(report.areas.map((a) => [a.area, a.score])),
+      };
+    });
+}
+
+// Change between the first and last score of a series, or null with fewer than two points
+export function trendDelta(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((v): v is number => typeof v === "number");
+  if (present.length < 2) return null;
+  return present[present.length - 1] - present[0];
+}
+
+export interface CompetenciaResult {
+  competencia: string;
+  correct: number;
+  total: number;
+}
+
+// Accuracy per competencia in one attempt, weakest first (more misses break ties)
+export function competenciaResults(
+  answers: Array<{ competencia: string | null; isCorrect: boolean }>,
+): CompetenciaResult[] {
+  const results = new Map<string, CompetenciaResult>();
+  for (const answer of answers) {
+    if (!answer.competencia) continue;
+    const entry = results.get(answer.competencia) ?? { competencia: answer.competencia, correct: 0, total: 0 };
+    entry.total += 1;
+    if (answer.isCorrect) entry.correct += 1;
+    results.set(answer.competencia, entry);
+  }
+  return [...results.values()].sort(
+    (a, b) => a.correct / a.total - b.correct / b.total || (b.total - b.correct) - (a.total - a.correct),
+  );
+}
+
+// The competencia to drill next: the weakest one with at least one miss
+export function weakestCompetencia(
+  answers: Array<{ competencia: string | null; isCorrect: boolean }>,
+): CompetenciaResult | null {
+  return competenciaResults(answers).find((r) => r.correct < r.total) ?? null;
+}
@@ -0,0 +1,170 @@
+// Full Saber 11 simulacro: two timed sessions, each made of area blocks.
+// The attempt state lives in icfes_attempts.progress so an interrupted
+// simulacro resumes on the same question with the same clock. The questions are
+// drawn on the server (supabase/functions/_shared/saber11.ts), which grades them
+// against this same blueprint.
+
+export type IcfesArea = "matematicas" | "lectura_critica" | "ciencias" | "sociales" | "ingles";
+// E–H only appear in English matching, where the choices are a shared list of up to eight
+export type AnswerLetter = "A" | "B" | "C" | "D" | "E" | "F" | "G" | "H";
+
+export const ICFES_AREAS: IcfesArea[] = ["matematicas", "lectura_critica", "ciencias", "sociales", "ingles"];
+
+export const ICFES_AREA_LABELS: Record<IcfesArea, string> = {
+  matematicas: "Matemáticas",
+  lectura_critica: "Lectura Crítica",
+  ciencias: "Ciencias Naturales",
+  sociales: "Sociales y Ciudadanas",
+  ingles: "Inglés",
+};
+
+export interface SimulacroBlock {
+  area: IcfesArea;
+  count: number;
+}
+
+export interface SimulacroSessionSpec {
+  number: 1 | 2;
+  durationSeconds: number;
+  blocks: SimulacroBlock[];
+}
+
+// Official distribution: 254 questions in two sessions of 4 h 30 min (mirrored in supabase/functions/_shared/saber11.ts)
+export const SABER11_SESSIONS: SimulacroSessionSpec[] = [
+  {
+    number: 1,
+    durationSeconds: 4.5 * 60 * 60,
+    blocks: [
+      { area: "matematicas", count: 25 },
+      { area: "lectura_critica", count: 41 },
+      { area: "sociales", count: 25 },
+      { area: "ciencias", count: 29 },
+    ],
+  },
+  {
+    number: 2,
+    durationSeconds: 4.5 * 60 * 60,
+    blocks: [
+      { area: "matematicas", count: 25 },
+      { area: "sociales", count: 25 },
+      { area: "ciencias", count: 29 },
+      { area: "ingles", count: 55 },
+    ],
+  },
+];
+
+export const SIMULACRO_TIME_LIMIT_SECONDS = SABER11_SESSIONS.reduce((sum, s) => sum + s.durationSeconds, 0);
+
+export interface SimulacroSessionProgress {
+  // Question ids in exam order, grouped by area block
+  blocks: Array<{ area: IcfesArea; questionIds: string[] }>;
+  elapsedSeconds: number;
+  submitted: boolean;
+}
+
+export interface SimulacroProgress {
+  version: 1;
+  sessions: SimulacroSessionProgress[];
+  currentSession: number;
+  currentIndex: number; // position inside the current session
+  answers: Record<string, AnswerLetter>;
+  // Options picked and then changed, oldest first; absent in progress saved before it existed
+  changes?: Record<string, AnswerLetter[]>;
+  flagged: string[];
+  timeSpent: Record<string, number>; // seconds per question id
+}
+
+export function sessionQuestionIds(session: SimulacroSessionProgress): string[] {
+  return session.blocks.flatMap((block) => block.questionIds);
+}
+
+export function remainingSeconds(progress: SimulacroProgress, sessionIndex = progress.currentSession): number {
+  const spec = SABER11_SESSIONS[sessionIndex];
+  const session = progress.sessions[sessionIndex];
+  if (!spec || !session) return 0;
+  return Math.max(0, spec.durationSeconds - session.elapsedSeconds);
+}
+
+// Seconds left before the whole attempt expires, counted from when the server opened it.
+// Unlike the session clocks it keeps running with the page closed; null when the attempt has no limit.
+export function attemptRemainingSeconds(startedAt: string, timeLimitSeconds: number | null, now = Date.now()): number | null {
+  if (!timeLimitSeconds) return null;
+  return Math.max(0, Math.floor((new Date(startedAt).getTime() + timeLimitSeconds * 1000 - now) / 1000));
+}
+
+const LETTERS: AnswerLetter[] = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+// Rebuild the progress saved in icfes_attempts.progress, or null if it is not a simulacro state
+export function parseSimulacroProgress(raw: unknown): SimulacroProgress | null {
+  if (!raw || typeof raw !== "object") return null;
+  const p = raw as Partial<SimulacroProgress>;
+  if (p.version !== 1 || !Array.isArray(p.sessions) || p.sessions.length !== SABER11_SESSIONS.length) return null;
+
+  const sessions = p.sessions.map((s) => ({
+    blocks: Array.isArray(s?.blocks)
+      ? s.blocks
+          .filter((b) => ICFES_AREAS.includes(b?.area) && Array.isArray(b.questionIds))
+          .map((b) => ({ area: b.area, questionIds: b.questionIds.filter((id) => typeof id === "string") }))
+      : [],
+    elapsedSeconds: typeof s?.elapsedSeconds === "number" ? s.elapsedSeconds : 0,
+    submitted: s?.submitted === true,
+  }));
+
+  const answers: Record<string, AnswerLetter> = {};
+  for (const [id, letter] of Object.entries(p.answers ?? {})) {
+    if (LETTERS.includes(letter as AnswerLetter)) answers[id] = letter as AnswerLetter;
+  }
+
+  const changes: Record<string, AnswerLetter[]> = {};
+  for (const [id, letters] of Object.entries(p.changes ?? {})) {
+    if (Array.isArray(letters)) changes[id] = letters.filter((l) => LETTERS.includes(l));
+  }
+
+  const currentSession = typeof p.currentSession === "number" ? Math.min(Math.max(0, p.currentSession), sessions.length - 1) : 0;
+  const sessionSize = sessionQuestionIds(sessions[currentSession]).length;
+
+  return {
+    version: 1,
+    sessions,
+    currentSession,
+    currentIndex: typeof p.currentIndex === "number" ? Math.min(Math.max(0, p.currentIndex), Math.max(0, sessionSize - 1)) : 0,
+    answers,
+    changes,
+    flagged: Array.isArray(p.flagged) ? p.flagged.filter((id) => typeof id === "string") : [],
+    timeSpent: p.timeSpent && typeof p.timeSpent === "object" ? { ...p.timeSpent } : {},
+  };
+}
+
+export interface AreaScore {
+  area: IcfesArea;
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+// Percentage of correct answers per area and overall, from the grader's verdict per question
+// (unanswered questions count as wrong)
+export function scoreSimulacro(
+  progress: SimulacroProgress,
+  isCorrect: Record<string, boolean>,
+): { byArea: AreaScore[]; correct: number; total: number; percentage: number } {
+  const totals = new Map<IcfesArea, { correct: number; total: number }>();
+  for (const session of progress.sessions) {
+    for (const block of session.blocks) {
+      const entry = totals.get(block.area) ?? { correct: 0, total: 0 };
+      for (const id of block.questionIds) {
+        entry.total += 1;
+        if (progress.answers[id] && isCorrect[id]) entry.correct += 1;
+      }
+      totals.set(block.area, entry);
+    }
+  }
+
+  const byArea = ICFES_AREAS.filter((area) => (totals.get(area)?.total ?? 0) > 0).map((area) => {
+    const { correct, total } = totals.get(area)!;
+    return { area, correct, total, percentage: Math.round((correct / total) * 100) };
+  });
+  const correct = byArea.reduce((sum, a) => sum + a.correct, 0);
+  const total = byArea.reduce((sum, a) => sum + a.total, 0);
+  return { byArea, correct, total, percentage: total > 0 ? Math.round((correct / total) * 100) : 0 };
+}
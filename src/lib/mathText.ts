@@ -1,3 +1,5 @@
+import katex from "katex";
+
 /**
  * Normalizes LaTeX/math notation to readable Unicode text.
  * Used for chat, whiteboard, and TTS in the tutor.
@@ -182,3 +184,106 @@ export function mathTextForTTS(text: string): string {
 
   return t;
 }
+
+/**
+ * Renders whiteboard text to HTML, typesetting math-looking lines with KaTeX.
+ * Shared by the whiteboards and the board export so both lay math out the same way.
+ */
+export function renderMathHtml(text: string): string {
+  const processed = text
+    .replace(/([a-zA-Z])(\^)(\d+)/g, "$1^{$3}")
+    .replace(/\(([^)]+)\)\^(\d+)/g, "($1)^{$2}")
+    .replace(/(\d+)\/(\d+)/g, "\\frac{$1}{$2}")
+    .replace(/sqrt\(([^)]+)\)/gi, "\\sqrt{$1}")
+    .replace(/√\(([^)]+)\)/g, "\\sqrt{$1}")
+    .replace(/√(\d+)/g, "\\sqrt{$1}");
+
+  return processed
+    .split("\n")
+    .map((line) => {
+      const hasMath = /[\^_{}\\]|\\frac|\\sqrt/.test(line);
+      if (hasMath) {
+        try {
+          return katex.renderToString(line, {
+            throwOnError: false,
+            displayMode: false,
+            output: "html",
+          });
+        } catch {
+          return `<span>${escapeHtml(line)}</span>`;
+        }
+      }
+      return `<span>${escapeHtml(line)}</span>`;
+    })
+    .join("<br/>");
+}
+
+// A LaTeX formula typeset as-is (drawing commands of type "latex")
+export function renderLatexHtml(latex: string): string {
+  return katex.renderToString(latex, { throwOnError: false, displayMode: false, output: "html" });
+}
+
+// Plain text with $...$ (inline) and $$...$$ (display) formulas, as written on flashcards
+export function renderDelimitedMathHtml(text: string): string {
+  const parts: string[] = [];
+  const pattern = /\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    parts.push(escapeHtml(text.slice(last, match.index)).replace(/\n/g, "<br/>"));
+    const display = match[1] !== undefined;
+    parts.push(
+      katex.renderToString(display ? match[1] : match[2], { throwOnError: false, displayMode: display, output: "html" }),
+    );
+    last = (match.index ?? 0) + match[0].length;
+  }
+  parts.push(escapeHtml(text.slice(last)).replace(/\n/g, "<br/>"));
+  return parts.join("");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+// Characters the standard PDF fonts (WinAnsi) can show beyond Latin-1
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+/**
+ * Converts math text for PDF export with the standard fonts, which only cover WinAnsi.
+ * Symbols outside it are spelled out; anything else unsupported (emoji) is dropped.
+ */
+export function mathTextForPdf(text: string): string {
+  let t = normalizeMathText(text);
+
+  t = t
+    .replace(/√/g, "raíz de ")
+    .replace(/≤/g, "<=")
+    .replace(/≥/g, ">=")
+    .replace(/≠/g, "!=")
+    .replace(/≈/g, "~")
+    .replace(/π/g, "pi")
+    .replace(/θ/g, "theta")
+    .replace(/α/g, "alfa")
+    .replace(/β/g, "beta")
+    .replace(/γ/g, "gamma")
+    .replace(/[δΔ]/g, "delta")
+    .replace(/∞/g, "infinito")
+    .replace(/→/g, "->")
+    .replace(/←/g, "<-")
+    .replace(/[⇒⇔]/g, "=>")
+    .replace(/∫/g, "integral ")
+    .replace(/Σ/g, "sumatoria ")
+    .replace(/ⁿ/g, "^n")
+    .replace(/−/g, "-");
+
+  return Array.from(t)
+    .filter((ch) => {
+      const code = ch.charCodeAt(0);
+      return ch === "\n" || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(ch);
+    })
+    .join("");
+}
@@ -0,0 +1,54 @@
+// Fulfillment states of a Tienda Nova redemption and the moves redemption_transition allows.
+export type RedemptionStatus = "pending_guardian" | "pending" | "approved" | "shipped" | "delivered" | "rejected";
+export type FulfillmentType = "manual" | "digital_code" | "unlock_item";
+
+export const REDEMPTION_STATUS_LABELS: Record<RedemptionStatus, string> = {
+  pending_guardian: "Esperando acudiente",
+  pending: "Pendiente",
+  approved: "Aprobado",
+  shipped: "Enviado",
+  delivered: "Entregado",
+  rejected: "Rechazado",
+};
+
+export const REDEMPTION_STATUS_VARIANTS: Record<RedemptionStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending_guardian: "outline",
+  pending: "secondary",
+  approved: "secondary",
+  shipped: "secondary",
+  delivered: "default",
+  rejected: "destructive",
+};
+
+// What an admin can do next from each status; pending_guardian belongs to the guardian
+export const ADMIN_TRANSITIONS: Record<RedemptionStatus, RedemptionStatus[]> = {
+  pending_guardian: ["rejected"],
+  pending: ["approved", "delivered", "rejected"],
+  approved: ["shipped", "delivered", "rejected"],
+  shipped: ["delivered"],
+  delivered: [],
+  rejected: [],
+};
+
+export const TRANSITION_ACTION_LABELS: Partial<Record<RedemptionStatus, string>> = {
+  approved: "Aprobar",
+  shipped: "Marcar enviado",
+  delivered: "Marcar entregado",
+  rejected: "Rechazar y reembolsar",
+};
+
+export const FULFILLMENT_LABELS: Record<FulfillmentType, string> = {
+  manual: "Entrega manual",
+  digital_code: "Código digital",
+  unlock_item: "Desbloquear ítem",
+};
+
+export const redemptionStatusLabel = (status: string): string =>
+  REDEMPTION_STATUS_LABELS[status as RedemptionStatus] ?? status;
+
+export const isOpenRedemption = (status: string): boolean =>
+  status !== "delivered" && status !== "rejected";
+
+// One code per line; blank lines and repeats are dropped
+export const parseRewardCodes = (text: string): string[] =>
+  Array.from(new Set(text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)));
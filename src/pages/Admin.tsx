@@ -6,13 +6,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import {
   GraduationCap, Users, Clock, Search, Home, Settings,
-  BarChart3, BookOpen, Gift, Coins, Loader2, UserPlus, Trash2, Eye
+  BarChart3, BookOpen, Gift, Coins, Loader2, UserPlus, Trash2, Eye, ClipboardList, Swords
 } from "lucide-react";
 import { EnrollStudentModal } from "@/components/admin/EnrollStudentModal";
 import { StudentDetailModal } from "@/components/admin/StudentDetailModal";
 import { RewardsManager } from "@/components/admin/RewardsManager";
 import { RemedialTemplatesManager } from "@/components/admin/RemedialTemplatesManager";
 import { CycleResetCard } from "@/components/admin/CycleResetCard";
+import { CoinReconciliationCard } from "@/components/admin/CoinReconciliationCard";
+import { IcfesQuestionBankManager } from "@/components/admin/IcfesQuestionBankManager";
+import { ArenaChallengesManager } from "@/components/admin/ArenaChallengesManager";
 import { useToast } from "@/hooks/use-toast";
 
 interface StudentProfile {
@@ -284,6 +287,14 @@ const Admin = () => {
                 <Gift className="w-4 h-4 mr-2" />
                 Tienda y Premios
               </TabsTrigger>
+              <TabsTrigger value="icfes">
+                <ClipboardList className="w-4 h-4 mr-2" />
+                Banco ICFES
+              </TabsTrigger>
+              <TabsTrigger value="arena">
+                <Swords className="w-4 h-4 mr-2" />
+                Arena
+              </TabsTrigger>
               <TabsTrigger value="settings">
                 <Settings className="w-4 h-4 mr-2" />
                 Configuración
@@ -423,7 +434,14 @@ const Admin = () => {
             <TabsContent value="rewards">
               <RewardsManager />
             </TabsContent>
-            <TabsContent value="settings">
+            <TabsContent value="icfes">
+              <IcfesQuestionBankManager />
+            </TabsContent>
+            <TabsContent value="arena">
+              <ArenaChallengesManager />
+            </TabsContent>
+            <TabsContent value="settings" className="space-y-6">
+              <CoinReconciliationCard />
               <CycleResetCard />
             </TabsContent>
           </Tabs>
@@ -17,6 +17,8 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SessionReplay } from "@/components/tutor/SessionReplay";
 import {
   GraduationCap,
   Home,
@@ -28,6 +30,7 @@ import {
   Shield,
   RefreshCw,
   Trash2, // NUEVO
+  PlayCircle,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { format, formatDistanceStrict } from "date-fns";
@@ -377,7 +380,7 @@ const AdminTutorSessions = () => {
 
       {/* Detail Dialog */}
       <Dialog open={detailOpen} onOpenChange={setDetailOpen}>
-        <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto flex flex-col">
           <DialogHeader>
             <DialogTitle className="font-display text-xl">
               Detalle de Sesión
@@ -454,38 +457,50 @@ const AdminTutorSessions = () => {
                 </div>
               )}
 
-              {/* Chat History */}
-              <div className="flex-1 min-h-0">
-                <p className="text-xs text-muted-foreground mb-2">
-                  Historial de Chat ({selectedSession.messages.length} mensajes)
-                </p>
-                <ScrollArea className="h-[300px] rounded-lg border border-border bg-background p-4">
-                  <div className="space-y-3">
-                    {selectedSession.messages.map((msg, idx) => (
-                      <div
-                        key={idx}
-                        className={`p-3 rounded-lg ${
-                          msg.role === "user"
-                            ? "bg-primary/10 ml-8"
-                            : "bg-secondary mr-8"
-                        }`}
-                      >
-                        <p className="text-xs font-medium text-muted-foreground mb-1">
-                          {msg.role === "user" ? "Estudiante" : "Tutor IA"}
+              {/* Chat History / Replay */}
+              <Tabs defaultValue="chat" className="flex-1 min-h-0">
+                <TabsList>
+                  <TabsTrigger value="chat">
+                    <MessageSquare className="w-4 h-4 mr-1" />
+                    Chat ({selectedSession.messages.length} mensajes)
+                  </TabsTrigger>
+                  <TabsTrigger value="replay">
+                    <PlayCircle className="w-4 h-4 mr-1" />
+                    Reproducir sesión
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="chat">
+                  <ScrollArea className="h-[300px] rounded-lg border border-border bg-background p-4">
+                    <div className="space-y-3">
+                      {selectedSession.messages.map((msg, idx) => (
+                        <div
+                          key={idx}
+                          className={`p-3 rounded-lg ${
+                            msg.role === "user"
+                              ? "bg-primary/10 ml-8"
+                              : "bg-secondary mr-8"
+                          }`}
+                        >
+                          <p className="text-xs font-medium text-muted-foreground mb-1">
+                            {msg.role === "user" ? "Estudiante" : "Tutor IA"}
+                          </p>
+                          <p className="text-sm text-foreground whitespace-pre-wrap">
+                            {msg.content}
+                          </p>
+                        </div>
+                      ))}
+                      {selectedSession.messages.length === 0 && (
+                        <p className="text-center text-muted-foreground text-sm">
+                          No hay mensajes en esta sesión.
                         </p>
-                        <p className="text-sm text-foreground whitespace-pre-wrap">
-                          {msg.content}
-                        </p>
-                      </div>
-                    ))}
-                    {selectedSession.messages.length === 0 && (
-                      <p className="text-center text-muted-foreground text-sm">
-                        No hay mensajes en esta sesión.
-                      </p>
-                    )}
-                  </div>
-                </ScrollArea>
-              </div>
+                      )}
+                    </div>
+                  </ScrollArea>
+                </TabsContent>
+                <TabsContent value="replay">
+                  <SessionReplay sessionId={selectedSession.id} />
+                </TabsContent>
+              </Tabs>
             </div>
           )}
         </DialogContent>
@@ -1,50 +1,185 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Trophy, Medal, Crown, Flame, Swords, Users, Star } from "lucide-react";
-
-const leaderboard = [
-  { rank: 1, name: "María García", points: 12450, streak: 15, avatar: "MG" },
-  { rank: 2, name: "Carlos López", points: 11200, streak: 12, avatar: "CL" },
-  { rank: 3, name: "Ana Martínez", points: 10800, streak: 10, avatar: "AM" },
-  { rank: 4, name: "Tú", points: 9500, streak: 7, avatar: "NS", isUser: true },
-  { rank: 5, name: "Diego Torres", points: 9200, streak: 8, avatar: "DT" },
-];
-
-const challenges = [
-  {
-    title: "Desafío Semanal de Matemáticas",
-    participants: 234,
-    prize: 500,
-    endsIn: "2 días",
-    difficulty: "Medio",
-  },
-  {
-    title: "Maratón de Ciencias",
-    participants: 156,
-    prize: 1000,
-    endsIn: "5 días",
-    difficulty: "Difícil",
-  },
-  {
-    title: "Quiz de Historia",
-    participants: 89,
-    prize: 300,
-    endsIn: "1 día",
-    difficulty: "Fácil",
-  },
-];
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChallengePlayer } from "@/components/arena/ChallengePlayer";
+import { ArenaPrivacyDialog } from "@/components/arena/ArenaPrivacyDialog";
+import { DuelCreateDialog } from "@/components/arena/DuelCreateDialog";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CHALLENGE_DIFFICULTY_CLASSES,
+  CHALLENGE_DIFFICULTY_LABELS,
+  DUEL_SOURCE_LABELS,
+  DUEL_STATUS_LABELS,
+  LEADERBOARD_METRICS,
+  LEADERBOARD_SCOPES,
+  LEADERBOARD_WINDOWS,
+  challengePhase,
+  challengeTimeLabel,
+  initialsOf,
+  type ChallengeDifficulty,
+  type DuelSource,
+  type LeaderboardMetric,
+  type LeaderboardScope,
+  type LeaderboardWindow,
+} from "@/lib/arena";
+import { ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+import {
+  arenaErrorMessage,
+  fetchArenaProfile,
+  fetchArenaStats,
+  fetchChallenges,
+  fetchGuardianLeaderboardHidden,
+  fetchLeaderboard,
+  joinChallenge,
+  settleDueChallenges,
+  type ArenaChallenge,
+  type ArenaProfile,
+  type ArenaStats,
+  type LeaderboardRow,
+} from "@/services/arena";
+import { fetchMyDuels, joinDuel, type MyDuel } from "@/services/arenaDuels";
+import { toast } from "sonner";
+import { Trophy, Medal, Crown, Flame, Swords, Users, Star, Loader2, EyeOff, Settings2, Zap, Plus } from "lucide-react";
 
 const Arena = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [metric, setMetric] = useState<LeaderboardMetric>("coins");
+  const [scope, setScope] = useState<LeaderboardScope>("global");
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("weekly");
+  const [leaderboard, setLeaderboard] = useState<LeaderboardRow[] | null>(null);
+  const [challenges, setChallenges] = useState<ArenaChallenge[] | null>(null);
+  const [stats, setStats] = useState<ArenaStats | null>(null);
+  const [profile, setProfile] = useState<ArenaProfile | null>(null);
+  const [hiddenByGuardian, setHiddenByGuardian] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [playing, setPlaying] = useState<ArenaChallenge | null>(null);
+  const [joining, setJoining] = useState<string | null>(null);
+  const [duels, setDuels] = useState<MyDuel[] | null>(null);
+  const [duelCode, setDuelCode] = useState("");
+  const [joiningDuel, setJoiningDuel] = useState(false);
+  const [showCreateDuel, setShowCreateDuel] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    loadLeaderboard(metric, scope, timeWindow);
+  }, [user, metric, scope, timeWindow]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadProfile(user.id);
+    loadDuels();
+    // Pay out anything that ended before listing, so results and stats are final
+    settleDueChallenges()
+      .catch((error) => console.error('Error settling challenges:', error))
+      .finally(() => {
+        loadChallenges();
+        loadStats();
+      });
+  }, [user]);
+
+  const loadLeaderboard = async (m: LeaderboardMetric, s: LeaderboardScope, w: LeaderboardWindow) => {
+    setLeaderboard(null);
+    try {
+      setLeaderboard(await fetchLeaderboard(m, s, w));
+    } catch (error) {
+      console.error('Error loading leaderboard:', error);
+      toast.error(arenaErrorMessage(error, "Error al cargar el ranking"));
+      setLeaderboard([]);
+    }
+  };
+
+  const loadChallenges = async () => {
+    try {
+      setChallenges(await fetchChallenges());
+    } catch (error) {
+      console.error('Error loading challenges:', error);
+      setChallenges([]);
+    }
+  };
+
+  const loadDuels = async () => {
+    try {
+      setDuels(await fetchMyDuels());
+    } catch (error) {
+      console.error('Error loading duels:', error);
+      setDuels([]);
+    }
+  };
+
+  const loadStats = async () => {
+    try {
+      setStats(await fetchArenaStats());
+    } catch (error) {
+      console.error('Error loading arena stats:', error);
+    }
+  };
+
+  const loadProfile = async (studentId: string) => {
+    try {
+      const [arenaProfile, guardianHidden] = await Promise.all([
+        fetchArenaProfile(studentId),
+        fetchGuardianLeaderboardHidden(studentId),
+      ]);
+      setProfile(arenaProfile);
+      setHiddenByGuardian(guardianHidden);
+    } catch (error) {
+      console.error('Error loading arena profile:', error);
+    }
+  };
+
+  const handlePlay = async (challenge: ArenaChallenge) => {
+    if (!challenge.joined) {
+      setJoining(challenge.id);
+      try {
+        await joinChallenge(challenge.id);
+      } catch (error) {
+        toast.error(arenaErrorMessage(error, "No se pudo unir al desafío"));
+        return;
+      } finally {
+        setJoining(null);
+      }
+    }
+    setPlaying(challenge);
+  };
+
+  const handleJoinDuel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setJoiningDuel(true);
+    try {
+      const duelId = await joinDuel(duelCode);
+      navigate(`/app/arena/duelo/${duelId}`);
+    } catch (error) {
+      toast.error(arenaErrorMessage(error, "No se pudo unir al duelo"));
+    } finally {
+      setJoiningDuel(false);
+    }
+  };
+
+  const me = leaderboard?.find((row) => row.is_self);
+  const hidden = hiddenByGuardian || profile?.hide_from_leaderboards;
+  const unit = LEADERBOARD_METRICS[metric].unit;
+
   return (
     <AppLayout>
       <div className="p-6 space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold text-foreground">Arena & Ranking</h1>
-          <p className="text-muted-foreground mt-1">
-            Compite con otros estudiantes y gana recompensas
-          </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Arena & Ranking</h1>
+            <p className="text-muted-foreground mt-1">
+              Compite con otros estudiantes y gana recompensas
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setShowPrivacy(true)}>
+            <Settings2 className="w-4 h-4 mr-2" />
+            {profile?.nickname ? `Apodo: ${profile.nickname}` : 'Privacidad'}
+          </Button>
         </div>
 
         {/* User Stats */}
@@ -56,8 +191,10 @@ const Arena = () => {
                   <Trophy className="w-5 h-5 text-gold" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">#12</p>
-                  <p className="text-xs text-muted-foreground">Tu ranking</p>
+                  <p className="text-2xl font-bold text-foreground">{me ? `#${me.place}` : '—'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {hidden ? 'Oculto en los rankings' : 'Tu ranking'}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -70,8 +207,10 @@ const Arena = () => {
                   <Star className="w-5 h-5 text-primary" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">9,500</p>
-                  <p className="text-xs text-muted-foreground">Puntos totales</p>
+                  <p className="text-2xl font-bold text-foreground">{Number(me?.score ?? 0).toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {LEADERBOARD_METRICS[metric].label} · {LEADERBOARD_WINDOWS[timeWindow].toLowerCase()}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -84,8 +223,8 @@ const Arena = () => {
                   <Flame className="w-5 h-5 text-accent" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">7 días</p>
-                  <p className="text-xs text-muted-foreground">Racha actual</p>
+                  <p className="text-2xl font-bold text-foreground">{stats?.current_streak_days ?? 0} días</p>
+                  <p className="text-xs text-muted-foreground">Racha de tutorías</p>
                 </div>
               </div>
             </CardContent>
@@ -98,69 +237,198 @@ const Arena = () => {
                   <Medal className="w-5 h-5 text-gold" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">15</p>
-                  <p className="text-xs text-muted-foreground">Medallas ganadas</p>
+                  <p className="text-2xl font-bold text-foreground">{stats?.challenges_won ?? 0}</p>
+                  <p className="text-xs text-muted-foreground">Desafíos ganados</p>
                 </div>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Duels */}
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Zap className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-foreground">Duelos en vivo</CardTitle>
+                  <CardDescription>
+                    Reta a tus amigos en tiempo real
+                    {stats && stats.duels_played > 0 && ` · has ganado ${stats.duels_won} de ${stats.duels_played}`}
+                  </CardDescription>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <form onSubmit={handleJoinDuel} className="flex gap-2">
+                  <Input
+                    value={duelCode}
+                    onChange={(e) => setDuelCode(e.target.value.toUpperCase())}
+                    placeholder="Código"
+                    maxLength={6}
+                    className="w-28 font-mono uppercase"
+                  />
+                  <Button type="submit" variant="outline" disabled={joiningDuel || duelCode.trim().length < 6}>
+                    {joiningDuel && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Unirme
+                  </Button>
+                </form>
+                <Button className="bg-gradient-primary hover:opacity-90" onClick={() => setShowCreateDuel(true)}>
+                  <Plus className="w-4 h-4 mr-1" /> Crear duelo
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          {duels && duels.length > 0 && (
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {duels.map((duel) => (
+                  <div
+                    key={duel.id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border border-border"
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">
+                        <span className="font-mono">{duel.code}</span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {duel.area
+                            ? ICFES_AREA_LABELS[duel.area as IcfesArea] ?? duel.area
+                            : DUEL_SOURCE_LABELS[duel.source as DuelSource] ?? duel.source}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {duel.player_count}/{duel.max_players} jugadores
+                        {duel.final_rank !== null && ` · puesto #${duel.final_rank}`}
+                        {duel.coins_awarded > 0 && ` · ganaste ${duel.coins_awarded} monedas`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={duel.status === "lobby" || duel.status === "active" ? "default" : "secondary"}>
+                        {DUEL_STATUS_LABELS[duel.status] ?? duel.status}
+                      </Badge>
+                      {duel.status !== "cancelled" && (
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/app/arena/duelo/${duel.id}`)}>
+                          {duel.status === "finished" ? "Resultados" : "Entrar"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          )}
+        </Card>
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Leaderboard */}
           <Card className="bg-card border-border">
-            <CardHeader>
+            <CardHeader className="space-y-4">
               <div className="flex items-center gap-3">
                 <div className="w-10 h-10 rounded-lg bg-gold/10 flex items-center justify-center">
                   <Crown className="w-5 h-5 text-gold" />
                 </div>
                 <div>
                   <CardTitle className="text-foreground">Tabla de Líderes</CardTitle>
-                  <CardDescription>Top estudiantes esta semana</CardDescription>
+                  <CardDescription>
+                    {LEADERBOARD_METRICS[metric].label} · {LEADERBOARD_WINDOWS[timeWindow].toLowerCase()}
+                  </CardDescription>
                 </div>
               </div>
+              <Tabs value={metric} onValueChange={(value) => setMetric(value as LeaderboardMetric)}>
+                <TabsList className="w-full">
+                  {(Object.keys(LEADERBOARD_METRICS) as LeaderboardMetric[]).map((key) => (
+                    <TabsTrigger key={key} value={key} className="flex-1 text-xs">
+                      {LEADERBOARD_METRICS[key].label}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={scope} onValueChange={(value) => setScope(value as LeaderboardScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LEADERBOARD_SCOPES) as LeaderboardScope[]).map((key) => (
+                      <SelectItem key={key} value={key}>{LEADERBOARD_SCOPES[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={timeWindow} onValueChange={(value) => setTimeWindow(value as LeaderboardWindow)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[]).map((key) => (
+                      <SelectItem key={key} value={key}>{LEADERBOARD_WINDOWS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                {leaderboard.map((user) => (
-                  <div
-                    key={user.rank}
-                    className={`flex items-center justify-between p-3 rounded-lg transition-colors ${
-                      user.isUser
-                        ? "bg-primary/10 border border-primary/20"
-                        : "bg-muted/50 border border-border hover:border-border/80"
-                    }`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
-                        user.rank === 1 ? "bg-gold text-gold-foreground" :
-                        user.rank === 2 ? "bg-gray-400 text-white" :
-                        user.rank === 3 ? "bg-amber-700 text-white" :
-                        "bg-muted text-muted-foreground"
-                      }`}>
-                        {user.rank}
+              {!leaderboard ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : leaderboard.length === 0 ? (
+                <p className="text-muted-foreground text-center py-6">
+                  Nadie ha sumado puntos aquí todavía. ¡Sé el primero!
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {leaderboard.map((row) => (
+                    <div
+                      key={`${row.place}-${row.display_name}`}
+                      className={`flex items-center justify-between p-3 rounded-lg transition-colors ${
+                        row.is_self
+                          ? "bg-primary/10 border border-primary/20"
+                          : "bg-muted/50 border border-border hover:border-border/80"
+                      }`}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                          row.place === 1 ? "bg-gold text-gold-foreground" :
+                          row.place === 2 ? "bg-gray-400 text-white" :
+                          row.place === 3 ? "bg-amber-700 text-white" :
+                          "bg-muted text-muted-foreground"
+                        }`}>
+                          {row.place}
+                        </div>
+                        <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center">
+                          <span className="text-xs font-bold text-primary-foreground">{initialsOf(row.display_name)}</span>
+                        </div>
+                        <div>
+                          <p className={`font-medium ${row.is_self ? "text-primary" : "text-foreground"}`}>
+                            {row.is_self ? `${row.display_name} (tú)` : row.display_name}
+                          </p>
+                          {row.grade_level !== null && (
+                            <p className="text-xs text-muted-foreground">Grado {row.grade_level}</p>
+                          )}
+                        </div>
                       </div>
-                      <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center">
-                        <span className="text-xs font-bold text-primary-foreground">{user.avatar}</span>
+                      <div className={`flex items-center gap-1 ${metric === "streak" ? "text-accent" : "text-gold"}`}>
+                        {metric === "streak" && <Flame className="w-4 h-4" />}
+                        <span className="text-sm font-medium">
+                          {Number(row.score).toLocaleString()} {unit}
+                        </span>
                       </div>
-                      <div>
-                        <p className={`font-medium ${user.isUser ? "text-primary" : "text-foreground"}`}>
-                          {user.name}
-                        </p>
-                        <p className="text-xs text-muted-foreground">{user.points.toLocaleString()} pts</p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-1 text-accent">
-                      <Flame className="w-4 h-4" />
-                      <span className="text-sm font-medium">{user.streak}</span>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
+              {hidden && (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground mt-4">
+                  <EyeOff className="w-3 h-3" />
+                  No apareces en los rankings{hiddenByGuardian ? ' por decisión de tu acudiente' : ''}.
+                </p>
+              )}
             </CardContent>
           </Card>
 
-          {/* Active Challenges */}
+          {/* Challenges */}
           <Card className="bg-card border-border">
             <CardHeader>
               <div className="flex items-center gap-3">
@@ -168,51 +436,116 @@ const Arena = () => {
                   <Swords className="w-5 h-5 text-accent" />
                 </div>
                 <div>
-                  <CardTitle className="text-foreground">Desafíos Activos</CardTitle>
+                  <CardTitle className="text-foreground">Desafíos</CardTitle>
                   <CardDescription>Compite y gana monedas Nova</CardDescription>
                 </div>
               </div>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                {challenges.map((challenge, idx) => (
-                  <div
-                    key={idx}
-                    className="p-4 rounded-lg bg-muted/50 border border-border hover:border-primary/30 transition-colors"
-                  >
-                    <div className="flex items-start justify-between mb-3">
-                      <div>
-                        <h4 className="font-medium text-foreground">{challenge.title}</h4>
-                        <div className="flex items-center gap-2 mt-1">
-                          <Users className="w-3 h-3 text-muted-foreground" />
-                          <span className="text-xs text-muted-foreground">{challenge.participants} participantes</span>
+              {!challenges ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : challenges.length === 0 ? (
+                <p className="text-muted-foreground text-center py-6">No hay desafíos por ahora</p>
+              ) : (
+                <div className="space-y-3">
+                  {challenges.map((challenge) => {
+                    const phase = challengePhase(challenge);
+                    const difficulty = challenge.difficulty as ChallengeDifficulty;
+                    const done = challenge.joined && challenge.answered_count >= challenge.question_count;
+                    return (
+                      <div
+                        key={challenge.id}
+                        className="p-4 rounded-lg bg-muted/50 border border-border hover:border-primary/30 transition-colors"
+                      >
+                        <div className="flex items-start justify-between mb-3">
+                          <div>
+                            <h4 className="font-medium text-foreground">{challenge.title}</h4>
+                            <div className="flex items-center gap-2 mt-1">
+                              <Users className="w-3 h-3 text-muted-foreground" />
+                              <span className="text-xs text-muted-foreground">
+                                {challenge.participant_count} participantes · {challenge.question_count} preguntas de{' '}
+                                {ICFES_AREA_LABELS[challenge.area as IcfesArea] ?? challenge.area}
+                              </span>
+                            </div>
+                          </div>
+                          <Badge variant="outline" className={`text-xs ${CHALLENGE_DIFFICULTY_CLASSES[difficulty] ?? ''}`}>
+                            {CHALLENGE_DIFFICULTY_LABELS[difficulty] ?? challenge.difficulty}
+                          </Badge>
                         </div>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <span className="text-gold font-semibold">{challenge.prize_coins}</span>
+                            <span className="text-xs text-muted-foreground">
+                              monedas · top {challenge.winner_count}
+                            </span>
+                          </div>
+                          {phase === "upcoming" ? (
+                            <Button size="sm" variant="outline" disabled>Próximamente</Button>
+                          ) : phase === "ended" ? (
+                            <Button size="sm" variant="outline" onClick={() => setPlaying(challenge)}>
+                              Resultados
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              className="bg-gradient-primary hover:opacity-90"
+                              onClick={() => handlePlay(challenge)}
+                              disabled={joining === challenge.id}
+                            >
+                              {joining === challenge.id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                              {done ? 'Ver resultados' : challenge.joined ? 'Continuar' : 'Participar'}
+                            </Button>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          {challengeTimeLabel(challenge)}
+                          {challenge.joined && ` · ${challenge.correct_count}/${challenge.question_count} correctas`}
+                          {challenge.final_rank !== null && ` · puesto #${challenge.final_rank}`}
+                          {challenge.prize_awarded > 0 && ` · ganaste ${challenge.prize_awarded} monedas`}
+                        </p>
                       </div>
-                      <Badge variant="outline" className={`text-xs ${
-                        challenge.difficulty === "Fácil" ? "border-accent/30 text-accent" :
-                        challenge.difficulty === "Medio" ? "border-gold/30 text-gold" :
-                        "border-destructive/30 text-destructive"
-                      }`}>
-                        {challenge.difficulty}
-                      </Badge>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <span className="text-gold font-semibold">{challenge.prize}</span>
-                        <span className="text-xs text-muted-foreground">monedas</span>
-                      </div>
-                      <Button size="sm" className="bg-gradient-primary hover:opacity-90">
-                        Participar
-                      </Button>
-                    </div>
-                    <p className="text-xs text-muted-foreground mt-2">Termina en {challenge.endsIn}</p>
-                  </div>
-                ))}
-              </div>
+                    );
+                  })}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
       </div>
+
+      <ChallengePlayer
+        challenge={playing}
+        onOpenChange={(open) => {
+          if (open) return;
+          setPlaying(null);
+          loadChallenges();
+        }}
+      />
+
+      {user && (
+        <DuelCreateDialog
+          open={showCreateDuel}
+          onOpenChange={setShowCreateDuel}
+          studentId={user.id}
+          onCreated={(duelId) => navigate(`/app/arena/duelo/${duelId}`)}
+        />
+      )}
+
+      {user && (
+        <ArenaPrivacyDialog
+          open={showPrivacy}
+          onOpenChange={setShowPrivacy}
+          studentId={user.id}
+          profile={profile}
+          hiddenByGuardian={hiddenByGuardian}
+          onSaved={() => {
+            loadProfile(user.id);
+            loadLeaderboard(metric, scope, timeWindow);
+          }}
+        />
+      )}
     </AppLayout>
   );
 };
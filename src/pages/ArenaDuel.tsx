@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { FlashcardContent } from "@/components/flashcards/FlashcardContent";
+import { useAuth } from "@/hooks/useAuth";
+import { useArenaDuel } from "@/hooks/useArenaDuel";
+import {
+  CHALLENGE_DIFFICULTY_LABELS,
+  DUEL_SOURCE_LABELS,
+  initialsOf,
+  type ChallengeDifficulty,
+  type DuelSource,
+} from "@/lib/arena";
+import { ICFES_AREA_LABELS, type IcfesArea } from "@/lib/icfesSimulacro";
+import { arenaErrorMessage } from "@/services/arena";
+import {
+  leaveDuel,
+  startDuel,
+  submitDuelAnswer,
+  type DuelAnswer,
+  type DuelParticipant,
+} from "@/services/arenaDuels";
+import { toast } from "sonner";
+import { ArrowLeft, Check, Coins, Copy, Crown, Loader2, Swords, Timer, Wifi, WifiOff, X } from "lucide-react";
+
+// Flashcards may carry $...$ formulas; ICFES questions are plain text
+function DuelText({ text, source, className }: { text: string; source: string; className?: string }) {
+  if (source === "flashcards") return <FlashcardContent text={text} className={className} />;
+  return <p className={`whitespace-pre-wrap ${className ?? ""}`}>{text}</p>;
+}
+
+function Scoreboard({ participants, onlineIds, final }: {
+  participants: DuelParticipant[];
+  onlineIds: string[];
+  final: boolean;
+}) {
+  const rows = final
+    ? [...participants].sort((a, b) => (a.final_rank ?? 99) - (b.final_rank ?? 99))
+    : participants;
+
+  return (
+    <div className="space-y-2">
+      {rows.map((player, index) => {
+        const online = onlineIds.includes(player.student_id);
+        return (
+          <div
+            key={player.student_id}
+            className={`flex items-center justify-between rounded-lg p-3 ${
+              player.is_self ? "bg-primary/10 border border-primary/20" : "bg-muted/50 border border-border"
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              <span className="w-6 text-sm font-bold text-muted-foreground">
+                {final && player.final_rank === 1 ? <Crown className="w-4 h-4 text-gold" /> : `#${player.final_rank ?? index + 1}`}
+              </span>
+              <div className="relative w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center">
+                <span className="text-xs font-bold text-primary-foreground">{initialsOf(player.display_name)}</span>
+                {!final && (
+                  <span
+                    className={`absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full border-2 border-card ${
+                      online ? "bg-accent" : "bg-muted-foreground"
+                    }`}
+                    title={online ? "Conectado" : "Desconectado"}
+                  />
+                )}
+              </div>
+              <div>
+                <p className={`font-medium text-sm ${player.is_self ? "text-primary" : "text-foreground"}`}>
+                  {player.is_self ? `${player.display_name} (tú)` : player.display_name}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {player.is_host ? "Anfitrión · " : ""}{player.correct_count} correctas
+                </p>
+              </div>
+            </div>
+            <div className="text-right">
+              <p className="font-semibold text-foreground">{player.score.toLocaleString()} pts</p>
+              {player.coins_awarded > 0 && (
+                <p className="flex items-center justify-end gap-1 text-xs text-gold">
+                  <Coins className="w-3 h-3" />
+                  {player.coins_awarded}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const ArenaDuel = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { state, phase, error, connection, onlineIds, refresh } = useArenaDuel(id, user?.id);
+  const [sent, setSent] = useState<Record<number, DuelAnswer>>({});
+  const [sending, setSending] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  if (error && !state) {
+    return (
+      <AppLayout>
+        <div className="p-6 space-y-4">
+          <p className="text-muted-foreground">{error}</p>
+          <Button variant="outline" onClick={() => navigate("/app/arena")}>
+            <ArrowLeft className="w-4 h-4 mr-2" /> Volver a la Arena
+          </Button>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!state) {
+    return (
+      <AppLayout>
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const { duel, participants, questions } = state;
+  const me = participants.find((p) => p.is_self);
+  const answers: Record<number, DuelAnswer> = { ...sent };
+  for (const answer of state.my_answers) answers[answer.position] = answer;
+
+  const position = phase.kind === "question" || phase.kind === "reveal" ? phase.position : null;
+  const question = position !== null ? questions.find((q) => q.position === position) : undefined;
+  const answer = position !== null ? answers[position] : undefined;
+  const subtitle = [
+    DUEL_SOURCE_LABELS[duel.source as DuelSource] ?? duel.source,
+    duel.area ? ICFES_AREA_LABELS[duel.area as IcfesArea] ?? duel.area : null,
+    CHALLENGE_DIFFICULTY_LABELS[duel.difficulty as ChallengeDifficulty] ?? duel.difficulty,
+    `${duel.question_count} preguntas de ${duel.seconds_per_question} s`,
+  ].filter(Boolean).join(" · ");
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      await startDuel(duel.id);
+      refresh();
+    } catch (err) {
+      toast.error(arenaErrorMessage(err, "No se pudo empezar el duelo"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (me?.is_host && !confirm("Si sales, el duelo se cancela para todos. ¿Salir?")) return;
+    setBusy(true);
+    try {
+      await leaveDuel(duel.id);
+      navigate("/app/arena");
+    } catch (err) {
+      toast.error(arenaErrorMessage(err, "No se pudo salir del duelo"));
+      setBusy(false);
+    }
+  };
+
+  const handleAnswer = async (letter: string) => {
+    if (position === null || answer || phase.kind !== "question") return;
+    setSending(true);
+    try {
+      const result = await submitDuelAnswer(duel.id, position, letter);
+      setSent((prev) => ({ ...prev, [position]: { position, option: letter, ...result } }));
+    } catch (err) {
+      toast.error(arenaErrorMessage(err, "No se pudo enviar la respuesta"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const copyCode = () => {
+    navigator.clipboard.writeText(duel.code)
+      .then(() => toast.success("Código copiado"))
+      .catch(() => toast.error("No se pudo copiar el código"));
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/app/arena")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+                <Swords className="w-7 h-7 text-accent" />
+                Duelo {duel.code}
+              </h1>
+              <p className="text-muted-foreground mt-1">{subtitle}</p>
+            </div>
+          </div>
+          {connection === "live" ? (
+            <Badge variant="outline" className="border-accent/30 text-accent">
+              <Wifi className="w-3 h-3 mr-1" /> En vivo
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="border-destructive/30 text-destructive">
+              <WifiOff className="w-3 h-3 mr-1" />
+              {connection === "connecting" ? "Conectando…" : "Reconectando…"}
+            </Badge>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="bg-card border-border lg:col-span-2">
+            {duel.status === "cancelled" ? (
+              <CardContent className="p-8 text-center space-y-4">
+                <p className="text-muted-foreground">El anfitrión canceló este duelo.</p>
+                <Button variant="outline" onClick={() => navigate("/app/arena")}>Volver a la Arena</Button>
+              </CardContent>
+            ) : phase.kind === "lobby" ? (
+              <>
+                <CardHeader>
+                  <CardTitle className="text-foreground">Sala de espera</CardTitle>
+                  <CardDescription>
+                    Comparte el código con tus amigos. Caben {duel.max_players} jugadores.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="flex items-center justify-center gap-3">
+                    <span className="text-4xl font-mono font-bold tracking-[0.3em] text-foreground">{duel.code}</span>
+                    <Button variant="ghost" size="icon" onClick={copyCode}>
+                      <Copy className="w-5 h-5" />
+                    </Button>
+                  </div>
+                  <div className="flex gap-3">
+                    <Button variant="outline" className="flex-1" onClick={handleLeave} disabled={busy}>
+                      {me?.is_host ? "Cancelar duelo" : "Salir"}
+                    </Button>
+                    {me?.is_host ? (
+                      <Button
+                        className="flex-1 bg-gradient-primary hover:opacity-90"
+                        onClick={handleStart}
+                        disabled={busy || participants.length < 2}
+                      >
+                        {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        {participants.length < 2 ? "Esperando jugadores…" : "Empezar"}
+                      </Button>
+                    ) : (
+                      <Button className="flex-1" disabled>
+                        Esperando al anfitrión…
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </>
+            ) : phase.kind === "countdown" ? (
+              <CardContent className="p-12 text-center">
+                <p className="text-muted-foreground">El duelo empieza en</p>
+                <p className="text-7xl font-bold text-primary mt-2">{phase.secondsLeft}</p>
+              </CardContent>
+            ) : phase.kind === "over" ? (
+              <>
+                <CardHeader>
+                  <CardTitle className="text-foreground">
+                    {duel.status !== "finished"
+                      ? "Calculando resultados…"
+                      : me?.final_rank === 1 ? "¡Ganaste el duelo!" : `Terminaste en el puesto #${me?.final_rank ?? "—"}`}
+                  </CardTitle>
+                  <CardDescription>
+                    {me ? `${me.correct_count} de ${duel.question_count} correctas · ${me.score.toLocaleString()} puntos` : null}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {duel.status !== "finished" ? (
+                    <div className="flex justify-center py-6">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                    </div>
+                  ) : (
+                    <>
+                      {me && me.coins_awarded > 0 && (
+                        <div className="flex items-center gap-3 rounded-lg bg-gold/10 p-4">
+                          <Coins className="w-6 h-6 text-gold" />
+                          <p className="font-medium">Ganaste {me.coins_awarded} monedas Nova</p>
+                        </div>
+                      )}
+                      <Scoreboard participants={participants} onlineIds={onlineIds} final />
+                    </>
+                  )}
+                  <Button variant="outline" onClick={() => navigate("/app/arena")}>Volver a la Arena</Button>
+                </CardContent>
+              </>
+            ) : question ? (
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-center gap-3">
+                  <Badge variant="outline">
+                    {question.position}/{duel.question_count}
+                  </Badge>
+                  {phase.kind === "question" ? (
+                    <>
+                      <Progress value={(phase.secondsLeft / duel.seconds_per_question) * 100} className="flex-1" />
+                      <span className="flex items-center gap-1 text-sm font-medium text-foreground w-12 justify-end">
+                        <Timer className="w-4 h-4" />
+                        {phase.secondsLeft}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground flex-1 text-right">
+                      Siguiente en {phase.secondsLeft} s
+                    </span>
+                  )}
+                </div>
+                <DuelText text={question.prompt} source={duel.source} className="text-foreground text-lg" />
+                <div className="space-y-2">
+                  {question.options.map((option) => {
+                    const chosen = answer?.option === option.letter;
+                    const isRight = question.correct_option === option.letter;
+                    const revealed = question.correct_option !== null;
+                    return (
+                      <Button
+                        key={option.letter}
+                        variant="outline"
+                        className={`w-full justify-start h-auto whitespace-normal text-left py-3 ${
+                          revealed && isRight
+                            ? "border-accent bg-accent/10"
+                            : revealed && chosen
+                              ? "border-destructive bg-destructive/10"
+                              : chosen ? "border-primary bg-primary/10" : ""
+                        }`}
+                        disabled={sending || !!answer || phase.kind !== "question"}
+                        onClick={() => handleAnswer(option.letter)}
+                      >
+                        <span className="font-bold mr-3">{option.letter}.</span>
+                        <DuelText text={option.text} source={duel.source} />
+                        {revealed && isRight && <Check className="w-4 h-4 ml-auto text-accent shrink-0" />}
+                        {revealed && chosen && !isRight && <X className="w-4 h-4 ml-auto text-destructive shrink-0" />}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <p className="text-sm text-muted-foreground text-center">
+                  {phase.kind === "question"
+                    ? answer ? "Respuesta enviada. Espera a que se acabe el tiempo." : "¡Responde rápido para sumar más puntos!"
+                    : answer ? answer.is_correct ? `¡Correcto! +${answer.points} puntos` : "Esta vez no" : "Se acabó el tiempo"}
+                </p>
+              </CardContent>
+            ) : (
+              <CardContent className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </CardContent>
+            )}
+          </Card>
+
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="text-foreground">Marcador</CardTitle>
+              <CardDescription>
+                {participants.length}/{duel.max_players} jugadores
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Scoreboard participants={participants} onlineIds={onlineIds} final={duel.status === "finished"} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default ArenaDuel;
@@ -1,42 +1,130 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Layers, Zap, Clock, Target, Plus, Play } from "lucide-react";
-
-const decks = [
-  {
-    title: "Cálculo Integral",
-    cards: 45,
-    mastered: 32,
-    dueToday: 8,
-    color: "primary",
-  },
-  {
-    title: "Vocabulario Inglés",
-    cards: 120,
-    mastered: 85,
-    dueToday: 15,
-    color: "accent",
-  },
-  {
-    title: "Fórmulas de Física",
-    cards: 30,
-    mastered: 18,
-    dueToday: 5,
-    color: "gold",
-  },
-  {
-    title: "Historia Universal",
-    cards: 60,
-    mastered: 42,
-    dueToday: 10,
-    color: "primary",
-  },
-];
+import { DeckDialog } from "@/components/flashcards/DeckDialog";
+import { DeckManager } from "@/components/flashcards/DeckManager";
+import { ReviewSession } from "@/components/flashcards/ReviewSession";
+import { CandidateReview } from "@/components/flashcards/CandidateReview";
+import { useAuth } from "@/hooks/useAuth";
+import { loadReports } from "@/hooks/useResearchState";
+import { buildReviewQueue } from "@/lib/flashcardScheduler";
+import { researchReportSources } from "@/lib/flashcardCandidates";
+import {
+  fetchFlashcardOverview,
+  fetchPendingCandidates,
+  generateFlashcardCandidates,
+  type Flashcard,
+  type FlashcardCandidate,
+  type FlashcardOverview,
+} from "@/services/flashcards";
+import { toast } from "sonner";
+import { Layers, Zap, Clock, Target, Plus, Play, Loader2, Sparkles } from "lucide-react";
+
+const colorClasses = {
+  primary: "border-primary/20 hover:border-primary/40",
+  accent: "border-accent/20 hover:border-accent/40",
+  gold: "border-gold/20 hover:border-gold/40",
+};
 
 const Flashcards = () => {
+  const { user } = useAuth();
+  const [overview, setOverview] = useState<FlashcardOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creatingDeck, setCreatingDeck] = useState(false);
+  const [managedDeckId, setManagedDeckId] = useState<string | null>(null);
+  const [review, setReview] = useState<{ title: string; queue: Flashcard[] } | null>(null);
+  const [candidates, setCandidates] = useState<FlashcardCandidate[]>([]);
+  const [reviewingCandidates, setReviewingCandidates] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  const loadOverview = useCallback(async () => {
+    if (!user) return;
+    try {
+      setOverview(await fetchFlashcardOverview(user.id));
+    } catch (error) {
+      console.error("Error loading flashcards:", error);
+      toast.error("No se pudieron cargar tus flashcards");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadCandidates = useCallback(async () => {
+    if (!user) return;
+    try {
+      setCandidates(await fetchPendingCandidates(user.id));
+    } catch (error) {
+      console.error("Error loading flashcard candidates:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadOverview();
+    loadCandidates();
+  }, [loadOverview, loadCandidates]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const created = await generateFlashcardCandidates(researchReportSources(loadReports()));
+      await loadCandidates();
+      if (created > 0) {
+        toast.success(`${created} tarjetas sugeridas listas para revisar`);
+        setReviewingCandidates(true);
+      } else {
+        toast.info("No encontramos material nuevo para sugerir tarjetas");
+      }
+    } catch (error) {
+      console.error("Error generating flashcard candidates:", error);
+      toast.error("No se pudieron generar sugerencias");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const decks = overview?.decks ?? [];
+  const cards = overview?.cards ?? [];
+  const newIntroducedToday = overview?.newIntroducedToday ?? 0;
+
+  // Daily queue across every deck, and each deck's share of it
+  const todayQueue = useMemo(
+    () => (overview ? buildReviewQueue(overview.cards, overview.newIntroducedToday) : []),
+    [overview],
+  );
+  const deckQueue = (deckId: string) => buildReviewQueue(cards.filter((c) => c.deck_id === deckId), newIntroducedToday);
+
+  const totalCards = cards.length;
+  const masteredCards = decks.reduce((sum, d) => sum + d.mastered, 0);
+  const managedDeck = decks.find((d) => d.id === managedDeckId) ?? null;
+
+  const startReview = (title: string, queue: Flashcard[]) => {
+    if (queue.length === 0) {
+      toast.info("No tienes tarjetas pendientes por hoy");
+      return;
+    }
+    setReview({ title, queue });
+  };
+
+  if (review) {
+    return (
+      <AppLayout>
+        <div className="p-6">
+          <ReviewSession
+            title={review.title}
+            queue={review.queue}
+            onExit={() => {
+              setReview(null);
+              loadOverview();
+            }}
+          />
+        </div>
+      </AppLayout>
+    );
+  }
+
   return (
     <AppLayout>
       <div className="p-6 space-y-6">
@@ -47,7 +135,7 @@ const Flashcards = () => {
               Sistema de repaso espaciado inteligente
             </p>
           </div>
-          <Button className="bg-gradient-primary hover:opacity-90">
+          <Button className="bg-gradient-primary hover:opacity-90" onClick={() => setCreatingDeck(true)} disabled={!user}>
             <Plus className="w-4 h-4 mr-2" />
             Crear Deck
           </Button>
@@ -63,10 +151,22 @@ const Flashcards = () => {
                 </div>
                 <div>
                   <h2 className="text-xl font-bold text-foreground">Repaso de Hoy</h2>
-                  <p className="text-muted-foreground">38 tarjetas pendientes de revisar</p>
+                  <p className="text-muted-foreground">
+                    {loading
+                      ? "Cargando…"
+                      : todayQueue.length > 0
+                        ? `${todayQueue.length} tarjetas pendientes de revisar`
+                        : overview && overview.reviewedToday > 0
+                          ? `¡Listo por hoy! Repasaste ${overview.reviewedToday} tarjetas`
+                          : "No tienes tarjetas pendientes"}
+                  </p>
                 </div>
               </div>
-              <Button className="bg-accent text-accent-foreground hover:opacity-90">
+              <Button
+                className="bg-accent text-accent-foreground hover:opacity-90"
+                onClick={() => startReview("Repaso de hoy", todayQueue)}
+                disabled={loading || todayQueue.length === 0}
+              >
                 <Play className="w-4 h-4 mr-2" />
                 Comenzar Repaso
               </Button>
@@ -74,6 +174,38 @@ const Flashcards = () => {
           </CardContent>
         </Card>
 
+        {/* Suggestions */}
+        <Card className="bg-card border-border">
+          <CardContent className="p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Sparkles className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <p className="font-medium text-foreground">Sugerencias</p>
+                  <p className="text-xs text-muted-foreground">
+                    {candidates.length > 0
+                      ? `${candidates.length} tarjetas sugeridas esperan tu revisión`
+                      : "Tarjetas a partir de tus tutorías, errores en ICFES e informes"}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {candidates.length > 0 && (
+                  <Button variant="outline" onClick={() => setReviewingCandidates(true)}>
+                    Revisar
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleGenerate} disabled={!user || generating}>
+                  {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                  Generar sugerencias
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <Card className="bg-card border-border">
@@ -83,7 +215,7 @@ const Flashcards = () => {
                   <Layers className="w-5 h-5 text-primary" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">255</p>
+                  <p className="text-2xl font-bold text-foreground">{loading ? "—" : totalCards}</p>
                   <p className="text-xs text-muted-foreground">Total de tarjetas</p>
                 </div>
               </div>
@@ -97,7 +229,7 @@ const Flashcards = () => {
                   <Target className="w-5 h-5 text-accent" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">177</p>
+                  <p className="text-2xl font-bold text-foreground">{loading ? "—" : masteredCards}</p>
                   <p className="text-xs text-muted-foreground">Dominadas</p>
                 </div>
               </div>
@@ -111,7 +243,7 @@ const Flashcards = () => {
                   <Clock className="w-5 h-5 text-gold" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-foreground">7</p>
+                  <p className="text-2xl font-bold text-foreground">{loading ? "—" : overview?.streak ?? 0}</p>
                   <p className="text-xs text-muted-foreground">Días de racha</p>
                 </div>
               </div>
@@ -122,52 +254,101 @@ const Flashcards = () => {
         {/* Decks */}
         <div>
           <h2 className="text-xl font-semibold text-foreground mb-4">Mis Decks</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {decks.map((deck, idx) => {
-              const colorClasses = {
-                primary: "border-primary/20 hover:border-primary/40",
-                accent: "border-accent/20 hover:border-accent/40",
-                gold: "border-gold/20 hover:border-gold/40",
-              };
-              const progressColor = deck.color === "gold" ? "bg-gold" : deck.color === "accent" ? "bg-accent" : "bg-primary";
-              const masteryPercent = Math.round((deck.mastered / deck.cards) * 100);
-
-              return (
-                <Card key={idx} className={`bg-card border transition-colors ${colorClasses[deck.color as keyof typeof colorClasses]}`}>
-                  <CardHeader className="pb-2">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-foreground">{deck.title}</CardTitle>
-                      <Badge variant="outline" className="border-gold/30 text-gold">
-                        {deck.dueToday} hoy
-                      </Badge>
-                    </div>
-                    <CardDescription>{deck.cards} tarjetas</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-3">
-                      <div>
-                        <div className="flex justify-between text-sm mb-1">
-                          <span className="text-muted-foreground">Dominio</span>
-                          <span className="text-foreground font-medium">{masteryPercent}%</span>
-                        </div>
-                        <Progress value={masteryPercent} className={`h-2 ${progressColor}`} />
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : decks.length === 0 ? (
+            <Card className="bg-card border-dashed">
+              <CardContent className="p-8 text-center text-muted-foreground">
+                Aún no tienes decks. Crea uno y agrega tus primeras tarjetas.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {decks.map((deck) => {
+                const color = (deck.color in colorClasses ? deck.color : "primary") as keyof typeof colorClasses;
+                const progressColor = color === "gold" ? "bg-gold" : color === "accent" ? "bg-accent" : "bg-primary";
+                const masteryPercent = deck.total > 0 ? Math.round((deck.mastered / deck.total) * 100) : 0;
+                const queue = deckQueue(deck.id);
+
+                return (
+                  <Card key={deck.id} className={`bg-card border transition-colors ${colorClasses[color]}`}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-foreground">{deck.title}</CardTitle>
+                        <Badge variant="outline" className="border-gold/30 text-gold">
+                          {queue.length} hoy
+                        </Badge>
                       </div>
-                      <div className="flex gap-2">
-                        <Button variant="outline" className="flex-1 border-border hover:border-primary/50">
-                          Estudiar
-                        </Button>
-                        <Button variant="ghost" className="px-3">
-                          <Plus className="w-4 h-4" />
-                        </Button>
+                      <CardDescription>
+                        {deck.total} tarjetas
+                        {deck.newCards > 0 && ` · ${deck.newCards} nuevas`}
+                        {deck.retention !== null && ` · ${deck.retention}% de aciertos (30 días)`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3">
+                        <div>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span className="text-muted-foreground">Dominio</span>
+                            <span className="text-foreground font-medium">{masteryPercent}%</span>
+                          </div>
+                          <Progress value={masteryPercent} className={`h-2 ${progressColor}`} />
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            className="flex-1 border-border hover:border-primary/50"
+                            onClick={() => startReview(deck.title, queue)}
+                            disabled={queue.length === 0}
+                          >
+                            Estudiar
+                          </Button>
+                          <Button variant="ghost" className="px-3" onClick={() => setManagedDeckId(deck.id)}>
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
+
+      {user && (
+        <>
+          <DeckDialog
+            open={creatingDeck}
+            onOpenChange={setCreatingDeck}
+            studentId={user.id}
+            onCreated={(deck) => {
+              loadOverview();
+              setManagedDeckId(deck.id);
+            }}
+          />
+          <DeckManager
+            deck={managedDeck}
+            cards={cards}
+            studentId={user.id}
+            onClose={() => setManagedDeckId(null)}
+            onChanged={loadOverview}
+          />
+          <CandidateReview
+            open={reviewingCandidates}
+            onOpenChange={setReviewingCandidates}
+            candidates={candidates}
+            decks={decks}
+            onChanged={() => {
+              loadOverview();
+              loadCandidates();
+            }}
+          />
+        </>
+      )}
     </AppLayout>
   );
 };
@@ -7,6 +7,16 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { IcfesTrendChart } from "@/components/icfes/IcfesTrendChart";
+import { IcfesDiagnosticsPanel } from "@/components/icfes/IcfesDiagnosticsPanel";
+import { formatPercentileBand, scoreReport, type PercentileReferenceRow } from "@/lib/icfesScoring";
+import { EMPTY_DIAGNOSIS, type ErrorDiagnosis } from "@/lib/icfesDiagnostics";
+import {
+  fetchErrorDiagnosis,
+  fetchPercentileReference,
+  fetchScoreHistory,
+  type ScoredAttempt,
+} from "@/services/icfesScores";
 import {
   Target,
   Brain,
@@ -19,6 +29,7 @@ import {
   FileText,
   Zap,
   Play,
+  Search,
 } from "lucide-react";
 
 interface ScoresBySubject {
@@ -56,6 +67,9 @@ export default function IcfesDashboard() {
   const { user, profile, loading: authLoading } = useAuth();
   const [results, setResults] = useState<IcfesResult[]>([]);
   const [stats, setStats] = useState<IcfesStats | null>(null);
+  const [reference, setReference] = useState<PercentileReferenceRow[]>([]);
+  const [history, setHistory] = useState<ScoredAttempt[]>([]);
+  const [diagnosis, setDiagnosis] = useState<ErrorDiagnosis>(EMPTY_DIAGNOSIS);
   const [loading, setLoading] = useState(true);
 
   const firstName = profile?.full_name?.split(" ")[0] || "Estudiante";
@@ -89,6 +103,21 @@ export default function IcfesDashboard() {
         setStats(statsData);
       }
 
+      // Percentile reference and score history for the trend chart
+      try {
+        const [referenceRows, attempts] = await Promise.all([fetchPercentileReference(), fetchScoreHistory(user.id)]);
+        setReference(referenceRows);
+        setHistory(attempts);
+      } catch (error) {
+        console.error("Error loading ICFES score history:", error);
+      }
+
+      try {
+        setDiagnosis(await fetchErrorDiagnosis(user.id));
+      } catch (error) {
+        console.error("Error loading ICFES error patterns:", error);
+      }
+
       setLoading(false);
     };
 
@@ -97,8 +126,14 @@ export default function IcfesDashboard() {
 
   const isLoading = authLoading || loading;
   const latestResult = results[0];
-  const globalScore = latestResult?.score_global ?? null;
-  const scoresBySubject: ScoresBySubject = (latestResult?.scores_by_subject as ScoresBySubject) || {};
+  // Area scores are weighted into the 0–500 global like the official Saber 11 formula
+  const latestReport = scoreReport(latestResult?.scores_by_subject, reference);
+  const globalScore = latestReport.global;
+  const scoresBySubject: ScoresBySubject = Object.fromEntries(latestReport.areas.map((a) => [a.area, a.score]));
+  const areaPercentile = (area: keyof ScoresBySubject) => {
+    const band = latestReport.areas.find((a) => a.area === area)?.percentile;
+    return band ? formatPercentileBand(band) : null;
+  };
   const mocksCompleted = results.length;
   const totalTimeMinutes = Math.round(results.reduce((sum, r) => sum + (r.time_spent_seconds || 0), 0) / 60);
   const suggestedGoal = globalScore ? globalScore + 30 : 350;
@@ -123,7 +158,7 @@ export default function IcfesDashboard() {
               </Link>
             </Button>
             <Button asChild variant="orange">
-              <Link to="/app/icfes/entrenador?area=matematicas&count=20">
+              <Link to="/app/icfes/simulacro">
                 Iniciar Simulacro
                 <ArrowRight className="ml-2 h-4 w-4" />
               </Link>
@@ -146,6 +181,12 @@ export default function IcfesDashboard() {
                 {isLoading ? "—" : globalScore !== null ? `${globalScore} / 500` : "Sin datos"}
               </p>
               <Progress value={globalScore !== null ? (globalScore / 500) * 100 : 0} className="mt-2 h-2" />
+              {!isLoading && globalScore !== null && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {latestReport.globalPercentile ? formatPercentileBand(latestReport.globalPercentile) : ""}
+                  {!latestReport.complete && " · estimado con las áreas presentadas"}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -220,8 +261,9 @@ export default function IcfesDashboard() {
 
         {/* Tabs */}
         <Tabs defaultValue="resumen" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-flex">
+          <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-flex">
             <TabsTrigger value="resumen">Resumen por área</TabsTrigger>
+            <TabsTrigger value="diagnostico">Diagnóstico de errores</TabsTrigger>
             <TabsTrigger value="entrenar">Entrenar por competencias</TabsTrigger>
             <TabsTrigger value="estrategias">Guías y estrategias</TabsTrigger>
           </TabsList>
@@ -244,6 +286,9 @@ export default function IcfesDashboard() {
                       {isLoading ? "—" : (scoresBySubject.matematicas ?? "—")} / 100
                     </p>
                     <Progress value={scoresBySubject.matematicas ?? 0} className="mt-2 h-2" />
+                    {areaPercentile("matematicas") && (
+                      <p className="text-xs text-muted-foreground mt-1">{areaPercentile("matematicas")}</p>
+                    )}
                   </div>
                   <Button variant="outline" className="w-full" asChild>
                     <Link to="/app/icfes/entrenador?area=matematicas&count=10">
@@ -269,6 +314,9 @@ export default function IcfesDashboard() {
                       {isLoading ? "—" : (scoresBySubject.lectura_critica ?? "—")} / 100
                     </p>
                     <Progress value={scoresBySubject.lectura_critica ?? 0} className="mt-2 h-2" />
+                    {areaPercentile("lectura_critica") && (
+                      <p className="text-xs text-muted-foreground mt-1">{areaPercentile("lectura_critica")}</p>
+                    )}
                   </div>
                   <Button variant="outline" className="w-full" asChild>
                     <Link to="/app/icfes/entrenador?area=lectura_critica&count=10">
@@ -296,6 +344,9 @@ export default function IcfesDashboard() {
                         {isLoading ? "—" : (scoresBySubject.sociales ?? "—")} / 100
                       </p>
                       <Progress value={scoresBySubject.sociales ?? 0} className="mt-1 h-2" />
+                      {areaPercentile("sociales") && (
+                        <p className="text-xs text-muted-foreground mt-1">{areaPercentile("sociales")}</p>
+                      )}
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Ciencias</p>
@@ -303,6 +354,9 @@ export default function IcfesDashboard() {
                         {isLoading ? "—" : (scoresBySubject.ciencias ?? "—")} / 100
                       </p>
                       <Progress value={scoresBySubject.ciencias ?? 0} className="mt-1 h-2" />
+                      {areaPercentile("ciencias") && (
+                        <p className="text-xs text-muted-foreground mt-1">{areaPercentile("ciencias")}</p>
+                      )}
                     </div>
                   </div>
                   <Button variant="outline" className="w-full" asChild>
@@ -314,6 +368,42 @@ export default function IcfesDashboard() {
                 </CardContent>
               </Card>
             </div>
+
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  Evolución de tus puntajes
+                </CardTitle>
+                <CardDescription>Puntaje global de tus simulacros y puntaje por área en cada intento.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? <p className="text-sm text-muted-foreground">Cargando…</p> : <IcfesTrendChart attempts={history} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Tab: Diagnóstico */}
+          <TabsContent value="diagnostico" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  Diagnóstico de errores
+                </CardTitle>
+                <CardDescription>
+                  Errores que se repiten en tus intentos: distractores, manejo del tiempo, enunciados largos y cambios
+                  de respuesta.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <p className="text-sm text-muted-foreground">Cargando…</p>
+                ) : (
+                  <IcfesDiagnosticsPanel diagnosis={diagnosis} />
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Tab: Entrenar */}
@@ -7,6 +7,20 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "@/hooks/use-toast";
+import { checkPracticeAnswers, fetchAnswerHistory, gradeIcfesAttempt } from "@/services/icfesAttempts";
+import {
+  eligibleItems,
+  estimateProfile,
+  itemDifficulty,
+  selectNextItem,
+  type ItemResponse,
+} from "@/lib/icfesAdaptive";
+import { questionOptions, remainingSet, type IcfesPassage } from "@/lib/icfesItemSets";
+import type { AnswerLetter } from "@/lib/icfesSimulacro";
+import { StimulusPanel } from "@/components/icfes/StimulusPanel";
+import { IcfesWalkthrough } from "@/components/icfes/IcfesWalkthrough";
+import { weakestCompetencia } from "@/lib/icfesScoring";
+import type { IcfesTutorContext } from "@/hooks/useTutorSession";
 import {
   ArrowLeft,
   ArrowRight,
@@ -21,29 +35,46 @@ import {
   XCircle,
   Trophy,
   Home,
+  Sparkles,
+  GraduationCap,
 } from "lucide-react";
 
 // ✅ Tipos alineados a la tabla real: public.icfes_questions
+// (sin respuesta_correcta ni explicacion: llegan del servidor al calificar)
 interface IcfesQuestion {
   id: string;
   area: string;
   competencia: string | null;
   enunciado: string;
   imagen_url: string | null;
-  opcion_a: string;
-  opcion_b: string;
-  opcion_c: string;
-  opcion_d: string;
-  respuesta_correcta: string; // "A" | "B" | "C" | "D"
+  formato: string; // "seleccion" | "emparejamiento" | "completar"
+  opcion_a: string | null;
+  opcion_b: string | null;
+  opcion_c: string | null;
+  opcion_d: string | null;
   dificultad: number;
-  explicacion: string | null;
   is_active: boolean;
+  irt_difficulty: number | null;
+  passage_id: string | null;
+  passage_order: number | null;
+  icfes_passages: IcfesPassage | null;
+}
+
+// Corrección de una pregunta devuelta por grade-icfes-attempt ("A"… "H"; null si está en juego en la Arena)
+interface Correction {
+  isCorrect: boolean;
+  respuestaCorrecta: string | null;
+  explicacion: string | null;
 }
 
+const QUESTION_COLUMNS =
+  "id, area, competencia, enunciado, imagen_url, formato, opcion_a, opcion_b, opcion_c, opcion_d, dificultad, is_active, irt_difficulty, passage_id, passage_order, icfes_passages(id, kind, title, content, imagen_url, options)";
+
 interface Answer {
   questionId: string;
-  respuesta: string | null; // "A" | "B" | "C" | "D"
+  respuesta: string | null; // "A"… "H"
   timeSpent: number;
+  previous: string[]; // opciones elegidas antes de la final
 }
 
 const AREA_ICONS: Record<string, typeof Brain> = {
@@ -76,22 +107,32 @@ export default function IcfesTrainer() {
   const [questions, setQuestions] = useState<IcfesQuestion[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [answers, setAnswers] = useState<Answer[]>([]);
+  // Práctica adaptativa: banco completo (para completar grupos), banco elegible, historial y meta de preguntas
+  const [bank, setBank] = useState<IcfesQuestion[]>([]);
+  const [pool, setPool] = useState<IcfesQuestion[]>([]);
+  const [history, setHistory] = useState<ItemResponse[]>([]);
+  const [targetCount, setTargetCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showResults, setShowResults] = useState(false);
+  const [corrections, setCorrections] = useState<Map<string, Correction>>(new Map());
+  const [advancing, setAdvancing] = useState(false);
   const [startTime, setStartTime] = useState<number>(Date.now());
   const [questionStartTime, setQuestionStartTime] = useState<number>(Date.now());
+  // Pregunta equivocada que se está revisando con Nova
+  const [walkthrough, setWalkthrough] = useState<{
+    questionId: string;
+    question: NonNullable<IcfesTutorContext["icfesQuestion"]>;
+  } | null>(null);
 
   // ✅ Función para cargar preguntas desde tu tabla real
   const loadQuestions = useCallback(async () => {
     setLoading(true);
     try {
-      // cast a any para evitar problema de tipos generados
-      const { data, error } = await (supabase
+      const { data, error } = await supabase
         .from("icfes_questions")
-        .select("*")
+        .select(QUESTION_COLUMNS)
         .eq("area", normalizedArea)
-        .eq("is_active", true)
-        .limit(count) as any);
+        .eq("is_active", true);
 
       if (error) throw error;
 
@@ -105,18 +146,22 @@ export default function IcfesTrainer() {
         return;
       }
 
-      // Mezclar preguntas
-      const shuffled: IcfesQuestion[] = [...(data as IcfesQuestion[])].sort(() => Math.random() - 0.5);
-      setQuestions(shuffled);
-
-      // Inicializar respuestas vacías
-      setAnswers(
-        shuffled.map((q) => ({
-          questionId: q.id,
-          respuesta: null,
-          timeSpent: 0,
-        })),
-      );
+      // ✅ Selección adaptativa: las dominadas no vuelven hasta que toque repasarlas;
+      // si todo el banco está dominado, se practica sobre el banco completo
+      // Las preguntas con texto compartido llegan con todo su grupo, en orden
+      const areaBank = data as IcfesQuestion[];
+      const pastAnswers = user?.id ? await fetchAnswerHistory(user.id, normalizedArea) : [];
+      const eligible = eligibleItems(areaBank, pastAnswers);
+      const candidates = eligible.length > 0 ? eligible : areaBank;
+      const first = selectNextItem(candidates, estimateProfile(pastAnswers), new Set());
+      const firstSet = first ? remainingSet(first, areaBank, new Set()) : [];
+
+      setBank(areaBank);
+      setPool(candidates);
+      setHistory(pastAnswers);
+      setTargetCount(Math.min(count, candidates.length));
+      setQuestions(firstSet);
+      setAnswers(firstSet.map((q) => ({ questionId: q.id, respuesta: null, timeSpent: 0, previous: [] })));
 
       setStartTime(Date.now());
       setQuestionStartTime(Date.now());
@@ -130,7 +175,7 @@ export default function IcfesTrainer() {
     } finally {
       setLoading(false);
     }
-  }, [normalizedArea, count]);
+  }, [normalizedArea, count, user?.id]);
 
   useEffect(() => {
     loadQuestions();
@@ -138,24 +183,68 @@ export default function IcfesTrainer() {
 
   const currentQuestion = questions[currentIndex];
 
-  const handleAnswer = (letter: "A" | "B" | "C" | "D") => {
+  const handleAnswer = (letter: AnswerLetter) => {
     const timeSpent = Date.now() - questionStartTime;
     const newAnswers = [...answers];
+    const prevAnswer = answers[currentIndex];
     newAnswers[currentIndex] = {
       questionId: currentQuestion.id,
       respuesta: letter,
       timeSpent,
+      previous:
+        prevAnswer?.respuesta && prevAnswer.respuesta !== letter
+          ? [...prevAnswer.previous, prevAnswer.respuesta]
+          : prevAnswer?.previous ?? [],
     };
     setAnswers(newAnswers);
   };
 
-  const handleNext = () => {
+  // La siguiente pregunta es la más informativa para la habilidad estimada con lo respondido hasta ahora.
+  // El servidor dice si cada respuesta es correcta sin revelar la clave; si falla, se usa solo el historial
+  const pickNextQuestion = async () => {
+    let verdicts = new Map<string, boolean | null>();
+    try {
+      verdicts = await checkPracticeAnswers(answers);
+    } catch (error) {
+      console.error("Error checking practice answers:", error);
+    }
+
+    const now = new Date().toISOString();
+    const sessionResponses: ItemResponse[] = answers.flatMap((ans, idx) => {
+      const isCorrect = verdicts.get(ans.questionId);
+      if (typeof isCorrect !== "boolean") return [];
+      return [{
+        questionId: ans.questionId,
+        competencia: questions[idx].competencia,
+        difficulty: itemDifficulty(questions[idx]),
+        isCorrect,
+        answeredAt: now,
+      }];
+    });
+    const profile = estimateProfile([...history, ...sessionResponses]);
+    return selectNextItem(pool, profile, new Set(questions.map((q) => q.id)));
+  };
+
+  const handleNext = async () => {
     if (currentIndex < questions.length - 1) {
       setCurrentIndex(currentIndex + 1);
       setQuestionStartTime(Date.now());
-    } else {
-      finishSession();
+      return;
+    }
+
+    setAdvancing(true);
+    const next = questions.length < targetCount ? await pickNextQuestion() : null;
+    if (!next) {
+      await finishSession();
+      setAdvancing(false);
+      return;
     }
+    setAdvancing(false);
+    const nextSet = remainingSet(next, bank, new Set(questions.map((q) => q.id)));
+    setQuestions([...questions, ...nextSet]);
+    setAnswers([...answers, ...nextSet.map((q) => ({ questionId: q.id, respuesta: null, timeSpent: 0, previous: [] }))]);
+    setCurrentIndex(currentIndex + 1);
+    setQuestionStartTime(Date.now());
   };
 
   const handlePrevious = () => {
@@ -165,49 +254,40 @@ export default function IcfesTrainer() {
     }
   };
 
-  // ✅ Guarda el intento usando columnas reales de public.icfes_attempts
+  // ✅ El servidor califica, guarda cada respuesta en icfes_answers y actualiza icfes_stats
   const finishSession = async () => {
-    const totalTimeMs = Date.now() - startTime;
-
-    const totalQuestions = questions.length;
-    const correctCount = answers.filter((ans, idx) => ans.respuesta === questions[idx].respuesta_correcta).length;
-
-    const scorePercentage = Math.round((correctCount / totalQuestions) * 100);
-    const elapsedSeconds = Math.floor(totalTimeMs / 1000);
-
     if (user?.id) {
       try {
-        const attemptRow = {
-          student_id: user.id,
-          mode: "practica" as const,
+        const graded = await gradeIcfesAttempt({
+          mode: "practica",
           areas: [normalizedArea],
-          total_questions: totalQuestions,
-          time_limit_seconds: null,
-          status: "completed",
-          started_at: new Date(startTime).toISOString(),
-          completed_at: new Date().toISOString(),
-          score_global: scorePercentage,
-          scores_by_area: { [normalizedArea]: scorePercentage },
-        };
-
-        const { error } = await supabase.from("icfes_attempts").insert([attemptRow]);
-
-        if (error) {
-          console.error("Supabase insert error icfes_attempts:", error);
-          throw error;
-        }
+          startedAt: new Date(startTime).toISOString(),
+          answers: answers.map((ans) => ({
+            questionId: ans.questionId,
+            respuesta: ans.respuesta,
+            timeSpentSeconds: Math.round(ans.timeSpent / 1000),
+            previousAnswers: ans.previous,
+          })),
+        });
 
+        setCorrections(new Map(graded.answers.map((a) => [a.questionId, a])));
         toast({
           title: "Sesión completada",
-          description: `Obtuviste ${correctCount} de ${totalQuestions} correctas.`,
+          description: `Obtuviste ${graded.correct} de ${graded.total} correctas.`,
         });
       } catch (err) {
-        console.error("Error saving attempt (catch):", err);
+        console.error("Error grading attempt:", err);
         toast({
           title: "Error al guardar el intento",
           description: "Tus resultados se muestran, pero no pudimos guardar el intento en la base de datos.",
           variant: "destructive",
         });
+        // Sin el calificador solo sabemos qué respuestas fueron correctas, no la clave
+        const verdicts = await checkPracticeAnswers(answers).catch(() => new Map<string, boolean | null>());
+        setCorrections(new Map(answers.map((ans) => [
+          ans.questionId,
+          { isCorrect: verdicts.get(ans.questionId) === true, respuestaCorrecta: null, explicacion: null },
+        ])));
       }
     }
 
@@ -217,16 +297,21 @@ export default function IcfesTrainer() {
   const results = useMemo(() => {
     if (!showResults) return null;
 
-    const correctCount = answers.filter((ans, idx) => ans.respuesta === questions[idx].respuesta_correcta).length;
+    const isCorrect = (id: string) => corrections.get(id)?.isCorrect === true;
+    const correctCount = questions.filter((q) => isCorrect(q.id)).length;
     const percentage = Math.round((correctCount / questions.length) * 100);
+    const weakest = weakestCompetencia(
+      questions.map((q) => ({ competencia: q.competencia, isCorrect: isCorrect(q.id) })),
+    );
 
     return {
       correctCount,
       incorrectCount: questions.length - correctCount,
       percentage,
       totalTime: Math.floor((Date.now() - startTime) / 1000),
+      weakest,
     };
-  }, [showResults, answers, questions, startTime]);
+  }, [showResults, corrections, questions, startTime]);
 
   if (loading) {
     return (
@@ -258,6 +343,31 @@ export default function IcfesTrainer() {
     );
   }
 
+  // El tutor arranca con la pregunta, la opción elegida y la correcta como contexto
+  const openWalkthrough = (question: IcfesQuestion, chosen: string | null, correction: Correction) => {
+    setWalkthrough({
+      questionId: question.id,
+      question: {
+        area: AREA_LABELS[question.area] || question.area,
+        competencia: question.competencia,
+        passage: question.icfes_passages?.content ?? null,
+        enunciado: question.enunciado,
+        options: Object.fromEntries(
+          questionOptions(question, question.icfes_passages).map((option) => [option.letter, option.text]),
+        ),
+        chosen,
+        correct: correction.respuestaCorrecta,
+        explicacion: correction.explicacion,
+      },
+    });
+  };
+
+  // Sesión con el tutor enfocada en la competencia más débil de este intento
+  const practiceWeakest = (competencia: string) => {
+    const params = new URLSearchParams({ icfes_area: normalizedArea, competencia });
+    navigate(`/app/tutor-ia/highschool?${params.toString()}`);
+  };
+
   if (showResults && results) {
     const AreaIcon = AREA_ICONS[normalizedArea] || Brain;
 
@@ -306,6 +416,71 @@ export default function IcfesTrainer() {
               <Progress value={results.percentage} className="h-3" />
             </div>
 
+            {results.weakest && (
+              <Card className="border-primary/30 bg-primary/5">
+                <CardContent className="pt-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium">Tu punto más débil: {results.weakest.competencia}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Acertaste {results.weakest.correct} de {results.weakest.total} en esta competencia.
+                    </p>
+                  </div>
+                  <Button onClick={() => practiceWeakest(results.weakest!.competencia)}>
+                    <GraduationCap className="mr-2 h-4 w-4" />
+                    Practicar con Nova
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">Revisión de tus respuestas</h3>
+              {questions.map((question, idx) => {
+                const chosen = answers[idx]?.respuesta ?? null;
+                const correction = corrections.get(question.id);
+                const isCorrect = correction?.isCorrect === true;
+                const options = questionOptions(question, question.icfes_passages);
+                const optionText = (letter: string | null) => options.find((o) => o.letter === letter)?.text;
+                return (
+                  <Card key={question.id} className={isCorrect ? "" : "border-red-200"}>
+                    <CardContent className="pt-4 space-y-2 text-sm">
+                      <div className="flex items-start gap-2">
+                        {isCorrect ? (
+                          <CheckCircle2 className="h-5 w-5 text-green-500 shrink-0" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-red-500 shrink-0" />
+                        )}
+                        <p className="font-medium whitespace-pre-line">
+                          {idx + 1}. {question.enunciado}
+                        </p>
+                      </div>
+                      {!isCorrect && (
+                        <p className="text-muted-foreground">
+                          Tu respuesta: {chosen ? `${chosen}. ${optionText(chosen) ?? ""}` : "sin responder"}
+                        </p>
+                      )}
+                      {correction?.respuestaCorrecta ? (
+                        <p>
+                          Respuesta correcta: {correction.respuestaCorrecta}. {optionText(correction.respuestaCorrecta)}
+                        </p>
+                      ) : (
+                        <p className="text-muted-foreground">
+                          La respuesta correcta no está disponible por ahora (la pregunta puede estar en juego en la Arena o en tu simulacro sin terminar).
+                        </p>
+                      )}
+                      {correction?.explicacion && <p className="text-muted-foreground">{correction.explicacion}</p>}
+                      {!isCorrect && correction?.respuestaCorrecta && (
+                        <Button size="sm" variant="outline" onClick={() => openWalkthrough(question, chosen, correction)}>
+                          <Sparkles className="mr-2 h-4 w-4" />
+                          Revisar con Nova paso a paso
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
             <div className="flex gap-3">
               <Button onClick={() => navigate("/app/icfes")} variant="outline" className="flex-1">
                 <Home className="mr-2 h-4 w-4" />
@@ -318,16 +493,23 @@ export default function IcfesTrainer() {
             </div>
           </CardContent>
         </Card>
+
+        <IcfesWalkthrough review={walkthrough} onClose={() => setWalkthrough(null)} />
       </div>
     );
   }
 
   const AreaIcon = AREA_ICONS[normalizedArea] || Brain;
-  const progress = ((currentIndex + 1) / questions.length) * 100;
+  // Un grupo de preguntas puede pasar un poco de la meta: no se corta a la mitad
+  const totalCount = Math.max(targetCount, questions.length);
+  const progress = ((currentIndex + 1) / totalCount) * 100;
+  const isLastQuestion = currentIndex === questions.length - 1 && questions.length >= targetCount;
   const currentAnswer = answers[currentIndex]?.respuesta;
+  const passage = currentQuestion.icfes_passages;
+  const setIds = passage ? questions.filter((q) => q.passage_id === currentQuestion.passage_id).map((q) => q.id) : [];
 
   return (
-    <div className="container mx-auto p-6 max-w-4xl">
+    <div className={`container mx-auto p-6 ${passage ? "max-w-6xl" : "max-w-4xl"}`}>
       {/* Header */}
       <div className="mb-6">
         <div className="flex items-center justify-between mb-4">
@@ -344,7 +526,7 @@ export default function IcfesTrainer() {
         <div className="space-y-2">
           <div className="flex justify-between text-sm text-muted-foreground">
             <span>
-              Pregunta {currentIndex + 1} de {questions.length}
+              Pregunta {currentIndex + 1} de {totalCount}
             </span>
             <span>Dificultad: {currentQuestion.dificultad}</span>
           </div>
@@ -352,50 +534,54 @@ export default function IcfesTrainer() {
         </div>
       </div>
 
-      {/* Question Card */}
-      <Card className="mb-6">
-        <CardHeader>
-          <div className="flex items-start justify-between">
-            <div className="flex-1">
-              <CardTitle className="text-xl mb-2">{currentQuestion.enunciado}</CardTitle>
-              {currentQuestion.competencia && (
-                <Badge variant="secondary" className="text-xs">
-                  {currentQuestion.competencia}
-                </Badge>
-              )}
+      <div className={passage ? "grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6" : "mb-6"}>
+        {passage && (
+          <StimulusPanel
+            passage={passage}
+            activeGap={currentQuestion.formato === "completar" ? currentQuestion.passage_order : null}
+            setPosition={{ index: setIds.indexOf(currentQuestion.id), total: setIds.length }}
+            className="h-fit lg:sticky lg:top-4"
+          />
+        )}
+
+        {/* Question Card */}
+        <Card className="h-fit">
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <CardTitle className="text-xl mb-2">{currentQuestion.enunciado}</CardTitle>
+                {currentQuestion.competencia && (
+                  <Badge variant="secondary" className="text-xs">
+                    {currentQuestion.competencia}
+                  </Badge>
+                )}
+              </div>
             </div>
-          </div>
-          {currentQuestion.imagen_url && (
-            <img
-              src={currentQuestion.imagen_url}
-              alt="Imagen de la pregunta ICFES"
-              className="mt-4 max-w-full rounded-lg"
-              loading="lazy"
-            />
-          )}
-        </CardHeader>
-        <CardContent className="space-y-3">
-          {(
-            [
-              { letter: "A" as const, text: currentQuestion.opcion_a },
-              { letter: "B" as const, text: currentQuestion.opcion_b },
-              { letter: "C" as const, text: currentQuestion.opcion_c },
-              { letter: "D" as const, text: currentQuestion.opcion_d },
-            ] as const
-          ).map((option) => (
-            <Button
-              key={option.letter}
-              variant={currentAnswer === option.letter ? "default" : "outline"}
-              className="w-full justify-start text-left h-auto py-4 px-4"
-              onClick={() => handleAnswer(option.letter)}
-            >
-              <span className="font-semibold mr-3">{option.letter}.</span>
-              <span className="flex-1">{option.text}</span>
-              {currentAnswer === option.letter && <CheckCircle2 className="h-5 w-5 ml-2" />}
-            </Button>
-          ))}
-        </CardContent>
-      </Card>
+            {currentQuestion.imagen_url && (
+              <img
+                src={currentQuestion.imagen_url}
+                alt="Imagen de la pregunta ICFES"
+                className="mt-4 max-w-full rounded-lg"
+                loading="lazy"
+              />
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {questionOptions(currentQuestion, passage).map((option) => (
+              <Button
+                key={option.letter}
+                variant={currentAnswer === option.letter ? "default" : "outline"}
+                className="w-full justify-start text-left h-auto py-4 px-4"
+                onClick={() => handleAnswer(option.letter)}
+              >
+                <span className="font-semibold mr-3">{option.letter}.</span>
+                <span className="flex-1">{option.text}</span>
+                {currentAnswer === option.letter && <CheckCircle2 className="h-5 w-5 ml-2" />}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
 
       {/* Navigation */}
       <div className="flex gap-3">
@@ -403,8 +589,8 @@ export default function IcfesTrainer() {
           <ArrowLeft className="mr-2 h-4 w-4" />
           Anterior
         </Button>
-        <Button onClick={handleNext} disabled={!currentAnswer} className="flex-1">
-          {currentIndex === questions.length - 1 ? "Finalizar" : "Siguiente"}
+        <Button onClick={handleNext} disabled={!currentAnswer || advancing} className="flex-1">
+          {isLastQuestion ? "Finalizar" : "Siguiente"}
           <ArrowRight className="ml-2 h-4 w-4" />
         </Button>
       </div>
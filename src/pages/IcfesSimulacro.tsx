@@ -0,0 +1,456 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useIcfesSimulacro } from "@/hooks/useIcfesSimulacro";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { QuestionNavigator } from "@/components/icfes/QuestionNavigator";
+import { StimulusPanel } from "@/components/icfes/StimulusPanel";
+import { ICFES_AREA_LABELS, SABER11_SESSIONS, SIMULACRO_TIME_LIMIT_SECONDS, sessionQuestionIds } from "@/lib/icfesSimulacro";
+import { questionOptions } from "@/lib/icfesItemSets";
+import { globalScore } from "@/lib/icfesScoring";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Clock,
+  Flag,
+  Home,
+  Loader2,
+  Play,
+  RotateCcw,
+  Trophy,
+  CheckCircle2,
+  Coffee,
+} from "lucide-react";
+
+function formatCountdown(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.round((totalSeconds % 3600) / 60);
+  return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+}
+
+export default function IcfesSimulacro() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const {
+    phase,
+    pendingAttempt,
+    progress,
+    questions,
+    results,
+    resultCounted,
+    isBusy,
+    error,
+    currentSessionSpec,
+    remaining,
+    start,
+    resume,
+    answer,
+    toggleFlag,
+    goTo,
+    submitSession,
+    startNextSession,
+  } = useIcfesSimulacro(user?.id);
+
+  const session = progress ? progress.sessions[progress.currentSession] : null;
+  const sessionIds = useMemo(() => (session ? sessionQuestionIds(session) : []), [session]);
+  const questionsById = useMemo(() => new Map(questions.map((q) => [q.id, q])), [questions]);
+
+  if (phase === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Preparando simulacro...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === "error") {
+    return (
+      <div className="container mx-auto p-6 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Simulacro no disponible</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate("/app/icfes")}>
+              <Home className="mr-2 h-4 w-4" />
+              Volver al inicio
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (phase === "intro") {
+    const pendingSession = pendingAttempt?.progress.sessions[pendingAttempt.progress.currentSession];
+    const pendingAnswered = pendingAttempt ? Object.keys(pendingAttempt.progress.answers).length : 0;
+
+    return (
+      <div className="container mx-auto p-6 max-w-3xl space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/app/icfes")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Simulacro Saber 11</CardTitle>
+            <CardDescription>
+              Dos sesiones cronometradas, como el examen real. Puedes marcar preguntas para revisar y moverte libremente
+              dentro de cada sesión. Si se cierra la página, tu avance queda guardado, pero tienes{" "}
+              {formatDuration(SIMULACRO_TIME_LIMIT_SECONDS)} desde que empiezas para terminar las dos sesiones.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {SABER11_SESSIONS.map((spec) => (
+              <div key={spec.number} className="rounded-lg border p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="font-semibold">Sesión {spec.number}</p>
+                  <Badge variant="outline" className="gap-1">
+                    <Clock className="h-3 w-3" />
+                    {formatDuration(spec.durationSeconds)}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {spec.blocks.map((block) => (
+                    <Badge key={block.area} variant="secondary">
+                      {ICFES_AREA_LABELS[block.area]} · {block.count}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {pendingAttempt && pendingSession ? (
+              <div className="rounded-lg border border-orange-300 bg-orange-50 dark:bg-orange-950/20 p-4 space-y-3">
+                <p className="text-sm">
+                  Tienes un simulacro sin terminar: sesión {pendingAttempt.progress.currentSession + 1},{" "}
+                  {pendingAnswered} preguntas respondidas.
+                </p>
+                <div className="flex gap-3">
+                  <Button variant="orange" onClick={resume} disabled={isBusy} className="flex-1">
+                    {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                    Continuar
+                  </Button>
+                  <Button variant="outline" onClick={start} disabled={isBusy} className="flex-1">
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Empezar de nuevo
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="orange" onClick={start} disabled={isBusy} className="w-full">
+                {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                Comenzar simulacro
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (phase === "break" && progress) {
+    const isLast = progress.currentSession >= progress.sessions.length - 1;
+
+    return (
+      <div className="container mx-auto p-6 max-w-2xl">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+              <Coffee className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle className="text-2xl">Sesión {progress.currentSession + 1} finalizada</CardTitle>
+            <CardDescription>
+              {isLast
+                ? "Tus respuestas están guardadas."
+                : "Tus respuestas están guardadas. Tómate un descanso antes de la siguiente sesión."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => navigate("/app/icfes")} className="flex-1">
+                <Home className="mr-2 h-4 w-4" />
+                Continuar más tarde
+              </Button>
+              <Button variant="orange" onClick={startNextSession} disabled={isBusy} className="flex-1">
+                {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isLast ? "Ver resultados" : `Iniciar sesión ${progress.currentSession + 2}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (phase === "results" && results) {
+    const global = globalScore(Object.fromEntries(results.byArea.map((a) => [a.area, a.percentage])));
+
+    return (
+      <div className="container mx-auto p-6 max-w-4xl">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+              <Trophy className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle className="text-3xl">¡Simulacro completado!</CardTitle>
+            {global !== null && <p className="text-4xl font-bold text-primary">{global} / 500</p>}
+            <CardDescription>
+              {results.correct} de {results.total} correctas · {results.percentage}% de acierto
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {!resultCounted && (
+              <Alert>
+                <AlertDescription>
+                  Terminaste después del tiempo límite: puedes revisar tus respuestas, pero este resultado no cuenta
+                  para tu historial ni para la Arena.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-4">
+              {results.byArea.map((area) => (
+                <div key={area.area}>
+                  <div className="flex justify-between mb-2 text-sm">
+                    <span className="font-medium">{ICFES_AREA_LABELS[area.area]}</span>
+                    <span className="text-muted-foreground">
+                      {area.correct}/{area.total} · {area.percentage}%
+                    </span>
+                  </div>
+                  <Progress value={area.percentage} className="h-3" />
+                </div>
+              ))}
+            </div>
+            <Button onClick={() => navigate("/app/icfes")} className="w-full">
+              <Home className="mr-2 h-4 w-4" />
+              Volver al inicio
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!progress || !session || !currentSessionSpec) return null;
+
+  const currentId = sessionIds[progress.currentIndex];
+  const currentQuestion = currentId ? questionsById.get(currentId) : undefined;
+  const currentAnswer = currentId ? progress.answers[currentId] : undefined;
+  const isFlagged = currentId ? progress.flagged.includes(currentId) : false;
+  const currentArea = session.blocks.find((b) => currentId && b.questionIds.includes(currentId))?.area;
+  const answeredCount = sessionIds.filter((id) => progress.answers[id]).length;
+  const flaggedCount = sessionIds.filter((id) => progress.flagged.includes(id)).length;
+  const isLastQuestion = progress.currentIndex >= sessionIds.length - 1;
+  const lowTime = remaining <= 5 * 60;
+  const passage = currentQuestion?.icfes_passages ?? null;
+  const setIds = passage
+    ? sessionIds.filter((id) => questionsById.get(id)?.passage_id === currentQuestion?.passage_id)
+    : [];
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 max-w-6xl">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" onClick={() => navigate("/app/icfes")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Salir
+          </Button>
+          <Badge variant="outline">
+            Sesión {currentSessionSpec.number} de {SABER11_SESSIONS.length}
+          </Badge>
+          {currentArea && <Badge variant="secondary">{ICFES_AREA_LABELS[currentArea]}</Badge>}
+        </div>
+        <div className="flex items-center gap-3">
+          <div
+            className={`flex items-center gap-2 font-mono text-lg font-semibold ${lowTime ? "text-destructive animate-pulse" : ""}`}
+            title="Tiempo restante de la sesión"
+          >
+            <Clock className="h-5 w-5" />
+            {formatCountdown(remaining)}
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="orange" disabled={isBusy}>
+                {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Terminar sesión
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>¿Terminar la sesión {currentSessionSpec.number}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Respondiste {answeredCount} de {sessionIds.length} preguntas
+                  {flaggedCount > 0 ? ` y tienes ${flaggedCount} marcadas para revisar` : ""}. Después de terminar no
+                  podrás volver a esta sesión.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Seguir respondiendo</AlertDialogCancel>
+                <AlertDialogAction onClick={submitSession}>Terminar sesión</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertDescription className="flex items-center justify-between gap-3">
+            {error}
+            <Button size="sm" variant="outline" onClick={submitSession} disabled={isBusy}>
+              Reintentar
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_300px] gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>
+                Pregunta {progress.currentIndex + 1} de {sessionIds.length}
+              </span>
+              <span>{answeredCount} respondidas</span>
+            </div>
+            <Progress value={sessionIds.length ? (answeredCount / sessionIds.length) * 100 : 0} className="h-2" />
+          </div>
+
+          {currentQuestion && passage && (
+            <StimulusPanel
+              passage={passage}
+              activeGap={currentQuestion.formato === "completar" ? currentQuestion.passage_order : null}
+              setPosition={{ index: setIds.indexOf(currentQuestion.id), total: setIds.length }}
+            />
+          )}
+
+          {currentQuestion ? (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1">
+                    <CardTitle className="text-lg mb-2 whitespace-pre-line">{currentQuestion.enunciado}</CardTitle>
+                    {currentQuestion.competencia && (
+                      <Badge variant="secondary" className="text-xs">
+                        {currentQuestion.competencia}
+                      </Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant={isFlagged ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => toggleFlag(currentQuestion.id)}
+                    title="Marcar para revisar"
+                  >
+                    <Flag className={`h-4 w-4 mr-1 ${isFlagged ? "text-amber-500 fill-amber-500" : ""}`} />
+                    {isFlagged ? "Marcada" : "Revisar"}
+                  </Button>
+                </div>
+                {currentQuestion.imagen_url && (
+                  <img
+                    src={currentQuestion.imagen_url}
+                    alt="Imagen de la pregunta ICFES"
+                    className="mt-4 max-w-full rounded-lg"
+                    loading="lazy"
+                  />
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {questionOptions(currentQuestion, passage).map((option) => (
+                  <Button
+                    key={option.letter}
+                    variant={currentAnswer === option.letter ? "default" : "outline"}
+                    className="w-full justify-start text-left h-auto py-4 px-4 whitespace-normal"
+                    onClick={() => answer(currentQuestion.id, option.letter)}
+                  >
+                    <span className="font-semibold mr-3">{option.letter}.</span>
+                    <span className="flex-1">{option.text}</span>
+                    {currentAnswer === option.letter && <CheckCircle2 className="h-5 w-5 ml-2" />}
+                  </Button>
+                ))}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="py-10 text-center text-muted-foreground">
+                {sessionIds.length === 0
+                  ? "Esta sesión no tiene preguntas disponibles. Termínala para continuar."
+                  : "Esta pregunta ya no está disponible. Continúa con la siguiente."}
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => goTo(progress.currentIndex - 1)}
+              disabled={progress.currentIndex === 0}
+              className="flex-1"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Anterior
+            </Button>
+            <Button onClick={() => goTo(progress.currentIndex + 1)} disabled={isLastQuestion} className="flex-1">
+              Siguiente
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Card className="h-fit lg:sticky lg:top-4">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Preguntas de la sesión</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <QuestionNavigator
+              blocks={session.blocks}
+              currentIndex={progress.currentIndex}
+              answers={progress.answers}
+              flagged={progress.flagged}
+              onSelect={goTo}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
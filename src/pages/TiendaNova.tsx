@@ -3,10 +3,15 @@ import { AppLayout } from "@/components/layout/AppLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { coinErrorMessage, fetchEarningRules, redeemReward, type CoinEarningRule } from "@/services/coins";
+import { COIN_EVENTS, describeRuleConditions, type CoinEventType } from "@/lib/coinRules";
+import { REDEMPTION_STATUS_VARIANTS, redemptionStatusLabel, type RedemptionStatus } from "@/lib/rewardRedemptions";
+import { fetchStudentRedemptions, type RedemptionWithReward } from "@/services/rewardRedemptions";
 import { toast } from "sonner";
-import { Coins, Gift, Sparkles, ShoppingBag, Loader2 } from "lucide-react";
+import { Coins, Gift, Sparkles, ShoppingBag, Loader2, Receipt } from "lucide-react";
 
 interface Reward {
   id: string;
@@ -14,6 +19,7 @@ interface Reward {
   description: string | null;
   cost_coins: number;
   category: string;
+  stock: number | null;
 }
 
 interface StudentCoins {
@@ -26,6 +32,9 @@ const TiendaNova = () => {
   const [coins, setCoins] = useState<StudentCoins | null>(null);
   const [loading, setLoading] = useState(true);
   const [redeeming, setRedeeming] = useState<string | null>(null);
+  const [earningRules, setEarningRules] = useState<CoinEarningRule[] | null>(null);
+  const [showEarning, setShowEarning] = useState(false);
+  const [redemptions, setRedemptions] = useState<RedemptionWithReward[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -55,6 +64,8 @@ const TiendaNova = () => {
         .maybeSingle();
       
       setCoins(coinsData || { balance: 0 });
+
+      setRedemptions(await fetchStudentRedemptions(user.id));
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -72,51 +83,39 @@ const TiendaNova = () => {
 
     setRedeeming(reward.id);
     try {
-      // Create redemption
-      const { error: redemptionError } = await supabase
-        .from('reward_redemptions')
-        .insert({
-          student_id: user.id,
-          reward_id: reward.id,
-          status: 'pending'
-        });
-
-      if (redemptionError) throw redemptionError;
-
-      // Create spend transaction
-      const { error: txError } = await supabase
-        .from('coin_transactions')
-        .insert({
-          student_id: user.id,
-          amount: -reward.cost_coins,
-          type: 'spend',
-          reason: `Canje: ${reward.name}`
-        });
-
-      if (txError) throw txError;
-
-      // Update balance
-      const newBalance = coins.balance - reward.cost_coins;
-      const { error: updateError } = await supabase
-        .from('student_coins')
-        .update({ 
-          balance: newBalance,
-          total_spent: (coins as any).total_spent ? (coins as any).total_spent + reward.cost_coins : reward.cost_coins
-        })
-        .eq('student_id', user.id);
-
-      if (updateError) throw updateError;
+      const { balance, status } = await redeemReward(reward.id);
 
-      setCoins({ balance: newBalance });
-      toast.success("¡Premio canjeado! El administrador te lo entregará pronto.");
+      setCoins({ balance });
+      setRewards(prev => prev.map(r => r.id === reward.id && r.stock !== null ? { ...r, stock: r.stock - 1 } : r));
+      if (status === 'delivered') {
+        toast.success("¡Premio canjeado y entregado! Míralo en Mis canjes.");
+      } else if (status === 'pending_guardian') {
+        toast.success("¡Premio canjeado! Tu acudiente debe aprobarlo.");
+      } else {
+        toast.success("¡Premio canjeado! El administrador te lo entregará pronto.");
+      }
+      setRedemptions(await fetchStudentRedemptions(user.id));
     } catch (error) {
       console.error('Error redeeming:', error);
-      toast.error("Error al canjear el premio");
+      toast.error(coinErrorMessage(error, "Error al canjear el premio"));
+      // Balance or stock changed elsewhere, e.g. another tab or the last unit went to someone else
+      fetchData();
     } finally {
       setRedeeming(null);
     }
   };
 
+  const openEarning = async () => {
+    setShowEarning(true);
+    if (earningRules) return;
+    try {
+      setEarningRules(await fetchEarningRules());
+    } catch (error) {
+      console.error('Error fetching coin rules:', error);
+      setEarningRules([]);
+    }
+  };
+
   const getCategoryIcon = (category: string) => {
     switch (category.toLowerCase()) {
       case 'digital':
@@ -163,6 +162,7 @@ const TiendaNova = () => {
             {rewards.map((reward) => {
               const IconComponent = getCategoryIcon(reward.category);
               const canAfford = (coins?.balance || 0) >= reward.cost_coins;
+              const soldOut = reward.stock === 0;
               
               return (
                 <Card key={reward.id} className="bg-card border-border hover:border-gold/30 transition-colors group">
@@ -183,11 +183,14 @@ const TiendaNova = () => {
                       <div className="flex items-center gap-2">
                         <Coins className="w-4 h-4 text-gold" />
                         <span className="text-lg font-bold text-gold">{reward.cost_coins}</span>
+                        {reward.stock !== null && reward.stock > 0 && (
+                          <span className="text-xs text-muted-foreground">· quedan {reward.stock}</span>
+                        )}
                       </div>
                       <Button 
                         onClick={() => handleRedeem(reward)}
-                        disabled={!canAfford || redeeming === reward.id}
-                        className={canAfford 
+                        disabled={!canAfford || soldOut || redeeming === reward.id}
+                        className={canAfford && !soldOut
                           ? "bg-gradient-gold text-gold-foreground hover:opacity-90" 
                           : "bg-muted text-muted-foreground"
                         }
@@ -197,7 +200,7 @@ const TiendaNova = () => {
                         ) : (
                           <>
                             <ShoppingBag className="w-4 h-4 mr-2" />
-                            {canAfford ? 'Canjear' : 'Sin fondos'}
+                            {soldOut ? 'Agotado' : canAfford ? 'Canjear' : 'Sin fondos'}
                           </>
                         )}
                       </Button>
@@ -209,6 +212,38 @@ const TiendaNova = () => {
           </div>
         )}
 
+        {/* Redemption history */}
+        {redemptions.length > 0 && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-foreground">
+                <Receipt className="w-5 h-5 text-gold" />
+                Mis canjes
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {redemptions.map((redemption) => (
+                <div key={redemption.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div>
+                    <p className="font-medium text-foreground">{redemption.rewards?.name || 'Premio'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(redemption.created_at).toLocaleDateString()}
+                      {redemption.coins_spent !== null && ` · ${redemption.coins_spent} monedas`}
+                      {redemption.status === 'rejected' && ' · monedas devueltas'}
+                    </p>
+                    {redemption.digital_code && (
+                      <p className="mt-1 font-mono text-sm text-gold select-all">{redemption.digital_code}</p>
+                    )}
+                  </div>
+                  <Badge variant={REDEMPTION_STATUS_VARIANTS[redemption.status as RedemptionStatus] ?? "outline"}>
+                    {redemptionStatusLabel(redemption.status)}
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Earn More Section */}
         <Card className="bg-gradient-to-br from-gold/10 to-accent/10 border-gold/20">
           <CardContent className="p-6">
@@ -222,13 +257,51 @@ const TiendaNova = () => {
                   <p className="text-muted-foreground">Completa desafíos y tutorías para ganar más</p>
                 </div>
               </div>
-              <Button variant="outline" className="border-gold/30 text-gold hover:bg-gold/10">
+              <Button variant="outline" className="border-gold/30 text-gold hover:bg-gold/10" onClick={openEarning}>
                 Ver cómo ganar
               </Button>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={showEarning} onOpenChange={setShowEarning}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cómo ganar monedas</DialogTitle>
+            <DialogDescription>Las monedas llegan solas cuando completas estas actividades.</DialogDescription>
+          </DialogHeader>
+          {!earningRules ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : earningRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Por ahora no hay actividades que den monedas.</p>
+          ) : (
+            <div className="space-y-3">
+              {earningRules.map((rule) => {
+                const conditions = describeRuleConditions(rule.event_type as CoinEventType, rule.conditions);
+                return (
+                  <div key={rule.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                    <div>
+                      <p className="font-medium text-foreground">{rule.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {COIN_EVENTS[rule.event_type as CoinEventType]?.label}
+                        {conditions && ` · ${conditions}`}
+                        {rule.daily_cap !== null && ` · hasta ${rule.daily_cap} por día`}
+                      </p>
+                    </div>
+                    <span className="flex items-center gap-1 font-bold text-gold shrink-0">
+                      <Coins className="w-4 h-4" />
+                      +{rule.amount}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </AppLayout>
   );
 };
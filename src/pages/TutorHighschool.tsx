@@ -1,10 +1,22 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { TutorSession } from "@/components/tutor/TutorSession";
 
 const TutorHighschool = () => {
+  const [searchParams] = useSearchParams();
+  const icfesArea = searchParams.get("icfes_area");
+  const competencia = searchParams.get("competencia");
+
+  // Coming from the ICFES trainer: drill on the weakest competencia of the attempt
+  const icfesDrill = useMemo(
+    () => (icfesArea && competencia ? { area: icfesArea, competencia } : null),
+    [icfesArea, competencia],
+  );
+
   return (
     <AppLayout>
-      <TutorSession variant="highschool" />
+      <TutorSession key={icfesDrill?.competencia ?? "default"} variant="highschool" icfesDrill={icfesDrill} />
     </AppLayout>
   );
 };
@@ -1,5 +1,6 @@
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { GuardianSidebar } from '@/components/layout/GuardianSidebar';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,8 +8,17 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SessionReplay } from '@/components/tutor/SessionReplay';
+import { RedemptionApprovalCard } from '@/components/guardian/RedemptionApprovalCard';
+import { IcfesTrendChart } from '@/components/icfes/IcfesTrendChart';
+import { formatPercentileBand, scoreReport } from '@/lib/icfesScoring';
+import { fetchPercentileReference, fetchScoreHistory } from '@/services/icfesScores';
+import { fetchGuardianLeaderboardHidden, setGuardianLeaderboardHidden } from '@/services/arena';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
 import { gradeToLevel, levelLabels } from '@/types/guardian';
 import { 
   ArrowLeft, 
@@ -17,12 +27,16 @@ import {
   Calendar, 
   BookOpen,
   Target,
-  TrendingUp
+  TrendingUp,
+  PlayCircle
 } from 'lucide-react';
 
 export default function StudentProgress() {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [replaySessionId, setReplaySessionId] = useState<string | null>(null);
 
   // Fetch student profile
   const { data: student, isLoading: loadingStudent } = useQuery({
@@ -58,6 +72,24 @@ export default function StudentProgress() {
     enabled: !!id
   });
 
+  // Fetch recent tutor sessions for replay
+  const { data: recentSessions } = useQuery({
+    queryKey: ['guardian-student-recent-sessions', id],
+    queryFn: async () => {
+      if (!id) return [];
+      const { data, error } = await supabase
+        .from('tutor_sessions')
+        .select('id, timestamp_start, skill, overall_status')
+        .eq('student_id', id)
+        .order('timestamp_start', { ascending: false })
+        .limit(10);
+      
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id
+  });
+
   // Fetch ICFES stats
   const { data: icfesStats } = useQuery({
     queryKey: ['guardian-student-icfes', id],
@@ -75,6 +107,37 @@ export default function StudentProgress() {
     enabled: !!id
   });
 
+  // Completed ICFES attempts for the score trend
+  const { data: icfesHistory = [] } = useQuery({
+    queryKey: ['guardian-student-icfes-history', id],
+    queryFn: () => fetchScoreHistory(id!),
+    enabled: !!id
+  });
+
+  const { data: percentileReference = [] } = useQuery({
+    queryKey: ['icfes-percentile-reference'],
+    queryFn: fetchPercentileReference,
+    staleTime: Infinity
+  });
+
+  // Guardian's own opt-out from the Arena rankings
+  const { data: hiddenFromLeaderboards = false } = useQuery({
+    queryKey: ['guardian-student-leaderboard-hidden', id],
+    queryFn: () => fetchGuardianLeaderboardHidden(id!),
+    enabled: !!id
+  });
+
+  const toggleLeaderboards = async (visible: boolean) => {
+    if (!id) return;
+    try {
+      await setGuardianLeaderboardHidden(id, !visible);
+      queryClient.setQueryData(['guardian-student-leaderboard-hidden', id], !visible);
+    } catch (error) {
+      console.error('Error saving leaderboard visibility:', error);
+      toast({ title: 'Error', description: 'No se pudo guardar la preferencia', variant: 'destructive' });
+    }
+  };
+
   if (loadingStudent) {
     return (
       <SidebarProvider>
@@ -119,6 +182,8 @@ export default function StudentProgress() {
 
   const level = gradeToLevel(student.grade_level);
   const tokenPercentage = (student.tokens_used_this_month / student.token_allowance) * 100;
+  const latestSimulacro = [...icfesHistory].reverse().find(attempt => attempt.mode === 'full');
+  const latestReport = latestSimulacro ? scoreReport(latestSimulacro.scoresByArea, percentileReference) : null;
 
   return (
     <SidebarProvider>
@@ -196,17 +261,54 @@ export default function StudentProgress() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    {icfesStats?.avg_score_global 
-                      ? Math.round(Number(icfesStats.avg_score_global)) 
-                      : '--'}
+                    {latestReport?.global != null ? `${latestReport.global} / 500` : '--'}
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">
+                    {latestReport?.globalPercentile
+                      ? `${formatPercentileBand(latestReport.globalPercentile)} · `
+                      : ''}
                     {icfesStats?.total_questions_answered || 0} preguntas respondidas
                   </p>
                 </CardContent>
               </Card>
             </div>
 
+            {/* Recent Sessions */}
+            {recentSessions && recentSessions.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <PlayCircle className="w-5 h-5 text-primary" />
+                    Sesiones Recientes
+                  </CardTitle>
+                  <CardDescription>
+                    Reproduce el tablero y el chat para ver cómo trabajó tu estudiante
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {recentSessions.map(session => (
+                      <div key={session.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                        <div>
+                          <p className="font-medium">{session.skill || 'Sesión de tutoría'}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(session.timestamp_start).toLocaleString('es-CO', {
+                              dateStyle: 'medium',
+                              timeStyle: 'short'
+                            })}
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => setReplaySessionId(session.id)}>
+                          <PlayCircle className="w-4 h-4 mr-1" />
+                          Reproducir
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* ICFES Details */}
             {icfesStats && (
               <Card>
@@ -256,6 +358,26 @@ export default function StudentProgress() {
               </Card>
             )}
 
+            {/* ICFES Trend */}
+            {icfesHistory.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5 text-primary" />
+                    Evolución ICFES
+                  </CardTitle>
+                  <CardDescription>
+                    Puntaje global de los simulacros (0–500) y puntaje por área (0–100) en cada intento
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <IcfesTrendChart attempts={icfesHistory} />
+                </CardContent>
+              </Card>
+            )}
+
+            <RedemptionApprovalCard studentId={student.user_id} studentName={student.full_name} />
+
             {/* Account Info */}
             <Card className="mt-6">
               <CardHeader>
@@ -292,6 +414,15 @@ export default function StudentProgress() {
                       })}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Aparece en los rankings de la Arena</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Switch checked={!hiddenFromLeaderboards} onCheckedChange={toggleLeaderboards} />
+                      <span className="text-sm font-medium">
+                        {hiddenFromLeaderboards ? 'Oculto' : 'Con nombre corto o apodo'}
+                      </span>
+                    </div>
+                  </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Estado</p>
                     <Badge variant={student.status === 'active' ? 'default' : 'secondary'}>
@@ -304,6 +435,15 @@ export default function StudentProgress() {
           </div>
         </main>
       </div>
+
+      <Dialog open={!!replaySessionId} onOpenChange={open => !open && setReplaySessionId(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Reproducción de la sesión</DialogTitle>
+          </DialogHeader>
+          {replaySessionId && <SessionReplay sessionId={replaySessionId} />}
+        </DialogContent>
+      </Dialog>
     </SidebarProvider>
   );
 }
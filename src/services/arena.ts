@@ -0,0 +1,235 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type {
+  ChallengeDifficulty,
+  LeaderboardMetric,
+  LeaderboardScope,
+  LeaderboardWindow,
+} from "@/lib/arena";
+
+type Functions = Database["public"]["Functions"];
+
+export type LeaderboardRow = Functions["arena_leaderboard"]["Returns"][number];
+export type ArenaChallenge = Functions["arena_challenge_list"]["Returns"][number];
+export type ChallengeStanding = Functions["arena_challenge_standings"]["Returns"][number];
+export type ArenaProfile = Tables<"arena_profiles">;
+
+export interface ArenaStats {
+  current_streak_days: number;
+  longest_streak_days: number;
+  challenges_won: number;
+  challenges_played: number;
+  duels_won: number;
+  duels_played: number;
+}
+
+export interface ChallengeQuestion {
+  id: string;
+  position: number;
+  enunciado: string;
+  imagen_url: string | null;
+  options: Array<{ letter: string; text: string }>;
+}
+
+export interface ChallengeDraft {
+  title: string;
+  description: string;
+  area: string;
+  difficulty: ChallengeDifficulty;
+  question_count: number;
+  grade_level: number | null;
+  starts_at: string;
+  ends_at: string;
+  prize_coins: number;
+  winner_count: number;
+}
+
+// Messages raised by the arena functions in the database
+const ARENA_ERROR_MESSAGES: Record<string, string> = {
+  challenge_not_open: "Este desafío no está abierto",
+  challenge_not_for_grade: "Este desafío es para otro grado",
+  not_joined: "Primero únete al desafío",
+  question_not_in_challenge: "La pregunta no pertenece al desafío",
+  already_answered: "Ya respondiste esta pregunta",
+  not_enough_questions: "No hay suficientes preguntas para esa área y dificultad",
+  invalid_leaderboard: "Ranking no válido",
+  deck_not_found: "No encontramos ese mazo",
+  duel_not_found: "No hay ningún duelo con ese código",
+  duel_already_started: "Ese duelo ya empezó",
+  duel_full: "Ese duelo ya está lleno",
+  duel_expired: "Ese duelo ya no está disponible",
+  too_many_duels: "Creaste muchos duelos seguidos. Espera un rato antes de crear otro",
+  duel_needs_players: "Se necesitan al menos dos jugadores",
+  duel_not_active: "El duelo no está en juego",
+  question_not_in_duel: "La pregunta no pertenece al duelo",
+  question_closed: "Se acabó el tiempo para esta pregunta",
+  not_allowed: "No tienes permiso para esta acción",
+  not_authenticated: "Debes iniciar sesión",
+};
+
+export const arenaErrorMessage = (error: unknown, fallback: string): string => {
+  const { message = "", code } = (error as { message?: string; code?: string } | null) ?? {};
+  if (code === "23505") return "Ese apodo ya está en uso";
+  if (code === "23514") return "El apodo debe tener entre 3 y 20 letras, números o espacios";
+  return ARENA_ERROR_MESSAGES[message] ?? fallback;
+};
+
+export const fetchLeaderboard = async (
+  metric: LeaderboardMetric,
+  scope: LeaderboardScope,
+  window: LeaderboardWindow,
+): Promise<LeaderboardRow[]> => {
+  const { data, error } = await supabase.rpc("arena_leaderboard", {
+    _metric: metric,
+    _scope: scope,
+    _window: window,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchArenaStats = async (): Promise<ArenaStats> => {
+  const { data, error } = await supabase.rpc("arena_my_stats");
+
+  if (error) throw error;
+  return data as unknown as ArenaStats;
+};
+
+// Ended challenges are paid out lazily; whoever opens the Arena first triggers it
+export const settleDueChallenges = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc("settle_due_arena_challenges");
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchChallenges = async (): Promise<ArenaChallenge[]> => {
+  const { data, error } = await supabase.rpc("arena_challenge_list");
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchChallengeStandings = async (challengeId: string): Promise<ChallengeStanding[]> => {
+  const { data, error } = await supabase.rpc("arena_challenge_standings", { _challenge_id: challengeId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const joinChallenge = async (challengeId: string) => {
+  const { error } = await supabase.rpc("join_arena_challenge", { _challenge_id: challengeId });
+  if (error) throw error;
+};
+
+// The question set in order, without the answers; the student's earlier answers come along
+export const fetchChallengeQuestions = async (
+  challengeId: string,
+): Promise<{ questions: ChallengeQuestion[]; answered: Record<string, { answer: string; is_correct: boolean }> }> => {
+  const { data, error } = await supabase
+    .from("arena_challenge_questions")
+    .select("position, icfes_questions (id, enunciado, imagen_url, opcion_a, opcion_b, opcion_c, opcion_d)")
+    .eq("challenge_id", challengeId)
+    .order("position");
+
+  if (error) throw error;
+
+  const questions = (data || [])
+    .filter((row) => row.icfes_questions)
+    .map((row) => {
+      const q = row.icfes_questions;
+      const options = [
+        { letter: "A", text: q.opcion_a },
+        { letter: "B", text: q.opcion_b },
+        { letter: "C", text: q.opcion_c },
+        { letter: "D", text: q.opcion_d },
+      ].filter((option): option is { letter: string; text: string } => !!option.text);
+      return { id: q.id, position: row.position, enunciado: q.enunciado, imagen_url: q.imagen_url, options };
+    });
+
+  const { data: answers, error: answersError } = await supabase
+    .from("arena_challenge_answers")
+    .select("question_id, answer, is_correct, arena_challenge_participants!inner (challenge_id)")
+    .eq("arena_challenge_participants.challenge_id", challengeId);
+
+  if (answersError) throw answersError;
+
+  const answered: Record<string, { answer: string; is_correct: boolean }> = {};
+  for (const row of answers || []) answered[row.question_id] = { answer: row.answer, is_correct: row.is_correct };
+  return { questions, answered };
+};
+
+export const submitChallengeAnswer = async (
+  challengeId: string,
+  questionId: string,
+  answer: string,
+): Promise<{ is_correct: boolean; finished: boolean }> => {
+  const { data, error } = await supabase.rpc("submit_arena_answer", {
+    _challenge_id: challengeId,
+    _question_id: questionId,
+    _answer: answer,
+  });
+
+  if (error) throw error;
+  return data as { is_correct: boolean; finished: boolean };
+};
+
+export const fetchArenaProfile = async (studentId: string): Promise<ArenaProfile | null> => {
+  const { data, error } = await supabase
+    .from("arena_profiles")
+    .select("*")
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const saveArenaProfile = async (studentId: string, profile: { nickname: string | null; hide_from_leaderboards: boolean }) => {
+  const { error } = await supabase.from("arena_profiles").upsert({ student_id: studentId, ...profile });
+  if (error) throw error;
+};
+
+// A guardian's choice wins over the student's own visibility setting
+export const fetchGuardianLeaderboardHidden = async (studentId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from("guardian_student_settings")
+    .select("hide_from_leaderboards")
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.hide_from_leaderboards ?? false;
+};
+
+export const setGuardianLeaderboardHidden = async (studentId: string, hidden: boolean) => {
+  const { error } = await supabase
+    .from("guardian_student_settings")
+    .upsert({ student_id: studentId, hide_from_leaderboards: hidden });
+
+  if (error) throw error;
+};
+
+export const createChallenge = async (draft: ChallengeDraft): Promise<string> => {
+  const { data, error } = await supabase.rpc("create_arena_challenge", {
+    _title: draft.title,
+    _description: draft.description,
+    _area: draft.area,
+    _difficulty: draft.difficulty,
+    _question_count: draft.question_count,
+    _grade_level: draft.grade_level,
+    _starts_at: draft.starts_at,
+    _ends_at: draft.ends_at,
+    _prize_coins: draft.prize_coins,
+    _winner_count: draft.winner_count,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteChallenge = async (id: string) => {
+  const { error } = await supabase.from("arena_challenges").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,174 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type { ChallengeDifficulty, DuelSource } from "@/lib/arena";
+
+type Functions = Database["public"]["Functions"];
+
+export type ArenaDuel = Tables<"arena_duels">;
+export type MyDuel = Functions["my_arena_duels"]["Returns"][number];
+export type DuelConnection = "connecting" | "live" | "reconnecting";
+
+export interface DuelParticipant {
+  student_id: string;
+  display_name: string;
+  score: number;
+  correct_count: number;
+  final_rank: number | null;
+  coins_awarded: number;
+  is_host: boolean;
+  is_self: boolean;
+}
+
+export interface DuelQuestion {
+  position: number;
+  prompt: string;
+  options: Array<{ letter: string; text: string }>;
+  // Only sent once the question has closed
+  correct_option: string | null;
+}
+
+export interface DuelAnswer {
+  position: number;
+  option: string;
+  is_correct: boolean;
+  points: number;
+}
+
+export interface DuelState {
+  server_now: string;
+  reveal_seconds: number;
+  duel: ArenaDuel;
+  participants: DuelParticipant[];
+  questions: DuelQuestion[];
+  my_answers: DuelAnswer[];
+}
+
+export interface DuelDraft {
+  source: DuelSource;
+  area: string | null;
+  difficulty: ChallengeDifficulty;
+  deck_id: string | null;
+  question_count: number;
+  seconds_per_question: number;
+  max_players: number;
+}
+
+export const fetchMyDuels = async (): Promise<MyDuel[]> => {
+  const { data, error } = await supabase.rpc("my_arena_duels");
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The host's decks to draw flashcard questions from
+export const fetchDuelDecks = async (studentId: string): Promise<Array<{ id: string; title: string }>> => {
+  const { data, error } = await supabase
+    .from("flashcard_decks")
+    .select("id, title")
+    .eq("student_id", studentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createDuel = async (draft: DuelDraft): Promise<{ id: string; code: string }> => {
+  const { data, error } = await supabase.rpc("create_arena_duel", {
+    _source: draft.source,
+    _area: draft.area,
+    _difficulty: draft.difficulty,
+    _deck_id: draft.deck_id,
+    _question_count: draft.question_count,
+    _seconds_per_question: draft.seconds_per_question,
+    _max_players: draft.max_players,
+  });
+
+  if (error) throw error;
+  return data as { id: string; code: string };
+};
+
+export const joinDuel = async (code: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("join_arena_duel", { _code: code });
+
+  if (error) throw error;
+  return data;
+};
+
+export const leaveDuel = async (duelId: string) => {
+  const { error } = await supabase.rpc("leave_arena_duel", { _duel_id: duelId });
+  if (error) throw error;
+};
+
+export const startDuel = async (duelId: string) => {
+  const { error } = await supabase.rpc("start_arena_duel", { _duel_id: duelId });
+  if (error) throw error;
+};
+
+export const fetchDuelState = async (duelId: string): Promise<DuelState> => {
+  const { data, error } = await supabase.rpc("arena_duel_state", { _duel_id: duelId });
+
+  if (error) throw error;
+  return data as unknown as DuelState;
+};
+
+// Graded on the server against its own clock, so a late or repeated answer is rejected there
+export const submitDuelAnswer = async (
+  duelId: string,
+  position: number,
+  option: string,
+): Promise<{ is_correct: boolean; points: number }> => {
+  const { data, error } = await supabase.rpc("submit_duel_answer", {
+    _duel_id: duelId,
+    _position: position,
+    _option: option,
+  });
+
+  if (error) throw error;
+  return data as { is_correct: boolean; points: number };
+};
+
+// Safe to call from every client: only the first call after the last question does anything
+export const finishDuel = async (duelId: string) => {
+  const { error } = await supabase.rpc("finish_arena_duel", { _duel_id: duelId });
+  if (error) throw error;
+};
+
+/*
+ * Follows a duel over Realtime: any change to the duel row or the scoreboard calls onChange,
+ * presence reports who has the duel open, and onConnection reports drops. The client keeps
+ * retrying the channel on its own; callers should refetch the state once it is live again,
+ * since changes made while disconnected are not replayed. Returns the unsubscribe function.
+ */
+export const subscribeToDuel = (
+  duelId: string,
+  studentId: string,
+  handlers: {
+    onChange: () => void;
+    onPresence: (onlineIds: string[]) => void;
+    onConnection: (connection: DuelConnection) => void;
+  },
+): (() => void) => {
+  const channel = supabase.channel(`arena-duel:${duelId}`, { config: { presence: { key: studentId } } });
+
+  channel
+    .on("postgres_changes", { event: "*", schema: "public", table: "arena_duels", filter: `id=eq.${duelId}` }, handlers.onChange)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "arena_duel_participants", filter: `duel_id=eq.${duelId}` },
+      handlers.onChange,
+    )
+    .on("presence", { event: "sync" }, () => handlers.onPresence(Object.keys(channel.presenceState())))
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        handlers.onConnection("live");
+        channel.track({ online_at: new Date().toISOString() });
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        handlers.onConnection("reconnecting");
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
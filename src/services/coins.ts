@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type { CoinEventType, RuleConditions } from "@/lib/coinRules";
+
+export type CoinDrift = Database["public"]["Functions"]["reconcile_coin_balances"]["Returns"][number];
+export type CoinEarningRule = Tables<"coin_earning_rules">;
+
+export interface EarningRuleDraft {
+  event_type: CoinEventType;
+  name: string;
+  conditions: RuleConditions;
+  amount: number;
+  daily_cap: number | null;
+  is_active: boolean;
+}
+
+// Messages raised by the coin functions in the database, as the student or admin should read them
+const COIN_ERROR_MESSAGES: Record<string, string> = {
+  insufficient_balance: "Saldo de monedas insuficiente",
+  out_of_stock: "Este premio está agotado",
+  redemption_limit_reached: "Ya alcanzaste el límite de canjes de este premio",
+  reward_unavailable: "Este premio ya no está disponible",
+  redemption_not_found: "El canje no existe",
+  invalid_redemption_transition: "El canje ya no está en un estado que permita esta acción",
+  invalid_amount: "La cantidad debe ser distinta de cero",
+  not_allowed: "No tienes permiso para esta acción",
+  not_authenticated: "Debes iniciar sesión",
+};
+
+export const coinErrorMessage = (error: unknown, fallback: string): string => {
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return COIN_ERROR_MESSAGES[message] ?? fallback;
+};
+
+// Redeems a reward for the signed-in student; status tells whether it was delivered right away
+export const redeemReward = async (rewardId: string): Promise<{ balance: number; status: string }> => {
+  const { data, error } = await supabase.rpc("redeem_reward", { _reward_id: rewardId });
+
+  if (error) throw error;
+  return data as { balance: number; status: string };
+};
+
+// Admin grant (positive amount) or deduction (negative amount)
+export const adjustCoins = async (studentId: string, amount: number, reason: string): Promise<number> => {
+  const { data, error } = await supabase.rpc("admin_adjust_coins", {
+    _student_id: studentId,
+    _amount: amount,
+    _reason: reason,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Students whose cached balance differs from their ledger; with apply, the balances are rebuilt
+export const reconcileCoinBalances = async (apply: boolean): Promise<CoinDrift[]> => {
+  const { data, error } = await supabase.rpc("reconcile_coin_balances", { _apply: apply });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Admins get every rule; students only see active ones through RLS
+export const fetchEarningRules = async (): Promise<CoinEarningRule[]> => {
+  const { data, error } = await supabase
+    .from("coin_earning_rules")
+    .select("*")
+    .order("event_type")
+    .order("amount", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveEarningRule = async (rule: EarningRuleDraft, id?: string) => {
+  const { error } = id
+    ? await supabase.from("coin_earning_rules").update(rule).eq("id", id)
+    : await supabase.from("coin_earning_rules").insert(rule);
+  if (error) throw error;
+};
+
+export const deleteEarningRule = async (id: string) => {
+  const { error } = await supabase.from("coin_earning_rules").delete().eq("id", id);
+  if (error) throw error;
+};
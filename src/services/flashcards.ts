@@ -0,0 +1,217 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  isDue,
+  isMastered,
+  isNewCard,
+  localDay,
+  reviewStreak,
+  scheduleReview,
+  type ReviewGrade,
+} from "@/lib/flashcardScheduler";
+
+export type FlashcardDeck = Tables<"flashcard_decks">;
+export type Flashcard = Tables<"flashcards">;
+export type FlashcardCandidate = Tables<"flashcard_candidates">;
+export type DeckColor = "primary" | "accent" | "gold";
+
+export interface DeckSummary extends FlashcardDeck {
+  total: number;
+  mastered: number;
+  dueToday: number;
+  newCards: number;
+  // Share of this deck's reviews in the last 30 days not graded "otra vez"
+  retention: number | null;
+}
+
+export interface FlashcardOverview {
+  decks: DeckSummary[];
+  cards: Flashcard[];
+  streak: number;
+  reviewedToday: number;
+  newIntroducedToday: number;
+}
+
+export type CardDraft = Pick<Flashcard, "front" | "back" | "front_image_url" | "back_image_url">;
+
+const MEDIA_BUCKET = "flashcard-media";
+const STATS_WINDOW_DAYS = 30;
+// Reviews read for the streak; a year of daily practice
+const STREAK_LOOKBACK_DAYS = 366;
+
+// Decks with their cards and review history, summarized for the flashcards page
+export const fetchFlashcardOverview = async (studentId: string): Promise<FlashcardOverview> => {
+  const since = new Date();
+  since.setDate(since.getDate() - STREAK_LOOKBACK_DAYS);
+
+  const [decksRes, cardsRes, reviewsRes] = await Promise.all([
+    supabase.from("flashcard_decks").select("*").eq("student_id", studentId).order("created_at", { ascending: true }),
+    supabase.from("flashcards").select("*").eq("student_id", studentId),
+    supabase
+      .from("flashcard_reviews")
+      .select("card_id, deck_id, grade, reviewed_at")
+      .eq("student_id", studentId)
+      .gte("reviewed_at", since.toISOString())
+      .order("reviewed_at", { ascending: true }),
+  ]);
+
+  if (decksRes.error) throw decksRes.error;
+  if (cardsRes.error) throw cardsRes.error;
+  if (reviewsRes.error) throw reviewsRes.error;
+
+  const cards = cardsRes.data || [];
+  const reviews = reviewsRes.data || [];
+  const now = new Date();
+  const today = localDay(now);
+  const statsSince = now.getTime() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+  // A card's first review is the day it was introduced
+  const firstReview = new Map<string, string>();
+  for (const review of reviews) {
+    if (!firstReview.has(review.card_id)) firstReview.set(review.card_id, review.reviewed_at);
+  }
+  const newIntroducedToday = [...firstReview.values()].filter((at) => localDay(at) === today).length;
+
+  const decks = (decksRes.data || []).map((deck) => {
+    const deckCards = cards.filter((c) => c.deck_id === deck.id);
+    const recent = reviews.filter((r) => r.deck_id === deck.id && new Date(r.reviewed_at).getTime() >= statsSince);
+    return {
+      ...deck,
+      total: deckCards.length,
+      mastered: deckCards.filter(isMastered).length,
+      dueToday: deckCards.filter((c) => !isNewCard(c) && isDue(c, now)).length,
+      newCards: deckCards.filter(isNewCard).length,
+      retention: recent.length > 0 ? Math.round((recent.filter((r) => r.grade > 0).length / recent.length) * 100) : null,
+    };
+  });
+
+  return {
+    decks,
+    cards,
+    streak: reviewStreak(reviews.map((r) => localDay(r.reviewed_at)), now),
+    reviewedToday: reviews.filter((r) => localDay(r.reviewed_at) === today).length,
+    newIntroducedToday,
+  };
+};
+
+export const createDeck = async (
+  studentId: string,
+  deck: { title: string; description: string | null; color: DeckColor },
+): Promise<FlashcardDeck> => {
+  const { data, error } = await supabase
+    .from("flashcard_decks")
+    .insert({ ...deck, student_id: studentId })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteDeck = async (deckId: string) => {
+  const { error } = await supabase.from("flashcard_decks").delete().eq("id", deckId);
+  if (error) throw error;
+};
+
+export const saveCard = async (studentId: string, deckId: string, card: CardDraft, id?: string) => {
+  if (id) {
+    const { error } = await supabase.from("flashcards").update(card).eq("id", id);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("flashcards").insert({ ...card, deck_id: deckId, student_id: studentId });
+  if (error) throw error;
+};
+
+export const deleteCard = async (cardId: string) => {
+  const { error } = await supabase.from("flashcards").delete().eq("id", cardId);
+  if (error) throw error;
+};
+
+// Apply a grade: the card gets its next schedule and the review is logged
+export const gradeCard = async (card: Flashcard, grade: ReviewGrade): Promise<Flashcard> => {
+  const schedule = scheduleReview(card, grade);
+  const { data, error } = await supabase.from("flashcards").update(schedule).eq("id", card.id).select("*").single();
+  if (error) throw error;
+
+  const { error: reviewError } = await supabase.from("flashcard_reviews").insert({
+    card_id: card.id,
+    deck_id: card.deck_id,
+    student_id: card.student_id,
+    grade,
+    interval_days: schedule.interval_days,
+    ease_factor: schedule.ease_factor,
+    reviewed_at: schedule.last_reviewed_at!,
+  });
+  if (reviewError) throw reviewError;
+
+  return data;
+};
+
+// Uploads a card image to the student's folder and returns its public URL
+export const uploadFlashcardImage = async (studentId: string, file: File): Promise<string> => {
+  const path = `${studentId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+  const { error } = await supabase.storage.from(MEDIA_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Ask the generator for new candidates from tutor sessions, ICFES mistakes and research reports
+export const generateFlashcardCandidates = async (
+  researchReports: Array<{ id: string; title: string; keyPoints: string[] }>,
+): Promise<number> => {
+  const { data, error } = await supabase.functions.invoke("generate-flashcards", { body: { researchReports } });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data?.created ?? 0;
+};
+
+export const fetchPendingCandidates = async (studentId: string): Promise<FlashcardCandidate[]> => {
+  const { data, error } = await supabase
+    .from("flashcard_candidates")
+    .select("*")
+    .eq("student_id", studentId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The accepted (possibly edited) candidate becomes a new card that keeps its source
+export const acceptCandidate = async (
+  candidate: FlashcardCandidate,
+  deckId: string,
+  card: Pick<Flashcard, "front" | "back">,
+) => {
+  const { data, error } = await supabase
+    .from("flashcards")
+    .insert({
+      ...card,
+      deck_id: deckId,
+      student_id: candidate.student_id,
+      source_type: candidate.source_type,
+      source_id: candidate.source_id,
+      source_label: candidate.source_label,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  const { error: candidateError } = await supabase
+    .from("flashcard_candidates")
+    .update({ status: "accepted", card_id: data.id, reviewed_at: new Date().toISOString() })
+    .eq("id", candidate.id);
+  if (candidateError) throw candidateError;
+};
+
+export const dismissCandidate = async (candidateId: string) => {
+  const { error } = await supabase
+    .from("flashcard_candidates")
+    .update({ status: "dismissed", reviewed_at: new Date().toISOString() })
+    .eq("id", candidateId);
+  if (error) throw error;
+};
@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { parseSimulacroProgress, type SimulacroProgress } from "@/lib/icfesSimulacro";
+import { itemDifficulty, type ItemResponse } from "@/lib/icfesAdaptive";
+import type { IcfesPassage } from "@/lib/icfesItemSets";
+
+export interface IcfesQuestion {
+  id: string;
+  area: string;
+  competencia: string | null;
+  enunciado: string;
+  imagen_url: string | null;
+  formato: string;
+  opcion_a: string | null;
+  opcion_b: string | null;
+  opcion_c: string | null;
+  opcion_d: string | null;
+  dificultad: number;
+  passage_id: string | null;
+  passage_order: number | null;
+  icfes_passages: IcfesPassage | null;
+}
+
+export interface GradeAnswerInput {
+  questionId: string;
+  respuesta: string | null;
+  timeSpentSeconds?: number;
+  // Options picked before the final one, oldest first
+  previousAnswers?: string[];
+}
+
+// What grade-icfes-attempt sends back once the attempt is stored
+export interface GradedAttempt {
+  attemptId: string;
+  // False for a simulacro graded after its time limit: corrected, but without a result
+  counted: boolean;
+  scoreGlobal: number;
+  scoresByArea: Record<string, number>;
+  correct: number;
+  total: number;
+  // Key and explanation are null for questions in play in an open Arena challenge or duel.
+  // Practice leaves out inactive questions and those of the student's unfinished simulacro.
+  answers: Array<{ questionId: string; isCorrect: boolean; respuestaCorrecta: string | null; explicacion: string | null }>;
+}
+
+export interface SimulacroAttempt {
+  id: string;
+  startedAt: string;
+  timeLimitSeconds: number | null;
+  progress: SimulacroProgress;
+}
+
+// No answer key or explanation while the attempt is open: grade-icfes-attempt returns them at the end
+const QUESTION_COLUMNS =
+  "id, area, competencia, enunciado, imagen_url, formato, opcion_a, opcion_b, opcion_c, opcion_d, dificultad, passage_id, passage_order, icfes_passages(id, kind, title, content, imagen_url, options)";
+
+// The student's unfinished simulacro, if any
+export const findInProgressSimulacro = async (studentId: string): Promise<SimulacroAttempt | null> => {
+  const { data, error } = await supabase
+    .from("icfes_attempts")
+    .select("id, started_at, time_limit_seconds, progress")
+    .eq("student_id", studentId)
+    .eq("mode", "full")
+    .eq("status", "in_progress")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const progress = parseSimulacroProgress(data.progress);
+  return progress
+    ? { id: data.id, startedAt: data.started_at, timeLimitSeconds: data.time_limit_seconds, progress }
+    : null;
+};
+
+// Opens a new attempt; the server draws both sessions and abandons any unfinished one
+export const createSimulacroAttempt = async (): Promise<SimulacroAttempt> => {
+  const { data, error } = await supabase.functions.invoke("start-icfes-simulacro", { body: {} });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  const progress = parseSimulacroProgress(data.progress);
+  if (!progress) throw new Error("Invalid simulacro progress");
+  return { id: data.id, startedAt: data.startedAt, timeLimitSeconds: data.timeLimitSeconds, progress };
+};
+
+export const saveSimulacroProgress = async (attemptId: string, progress: SimulacroProgress) => {
+  const { error } = await supabase
+    .from("icfes_attempts")
+    .update({ progress: progress as unknown as Json })
+    .eq("id", attemptId);
+
+  if (error) throw error;
+};
+
+export const abandonSimulacro = async (attemptId: string) => {
+  const { error } = await supabase
+    .from("icfes_attempts")
+    .update({ status: "abandoned", completed_at: new Date().toISOString() })
+    .eq("id", attemptId);
+
+  if (error) throw error;
+};
+
+// Questions by id, in the order given
+export const fetchQuestionsByIds = async (ids: string[]): Promise<IcfesQuestion[]> => {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase.from("icfes_questions").select(QUESTION_COLUMNS).in("id", ids);
+
+  if (error) throw error;
+  const byId = new Map((data || []).map((q) => [q.id, q as IcfesQuestion]));
+  return ids.map((id) => byId.get(id)).filter((q): q is IcfesQuestion => !!q);
+};
+
+// The student's answered (not skipped) questions in one area, oldest first,
+// with each question's current calibrated difficulty
+export const fetchAnswerHistory = async (studentId: string, area: string): Promise<ItemResponse[]> => {
+  const { data, error } = await supabase
+    .from("icfes_answers")
+    .select("question_id, is_correct, created_at, icfes_questions!inner(area, competencia, dificultad, irt_difficulty)")
+    .eq("student_id", studentId)
+    .eq("icfes_questions.area", area)
+    .not("respuesta", "is", null)
+    .order("created_at", { ascending: true })
+    .limit(1000);
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    questionId: row.question_id,
+    competencia: row.icfes_questions.competencia,
+    difficulty: itemDifficulty(row.icfes_questions),
+    isCorrect: row.is_correct === true,
+    answeredAt: row.created_at,
+  }));
+};
+
+// Whether each practice answer so far is right, without the key (null for questions in play
+// in the Arena or in the student's unfinished simulacro). One answer per question per call.
+// Adaptive practice uses it to pick the next question.
+export const checkPracticeAnswers = async (
+  answers: Array<{ questionId: string; respuesta: string | null }>,
+): Promise<Map<string, boolean | null>> => {
+  const { data, error } = await supabase.rpc("check_icfes_practice_answers", {
+    _answers: answers.map((a) => ({ question_id: a.questionId, respuesta: a.respuesta })),
+  });
+
+  if (error) throw error;
+  const rows = (data || []) as Array<{ question_id: string; is_correct: boolean | null }>;
+  return new Map(rows.map((row) => [row.question_id, row.is_correct]));
+};
+
+// Grading runs server-side: answers are checked against respuesta_correcta, stored in
+// icfes_answers and folded into icfes_stats. Pass attemptId to close an open attempt,
+// or mode/areas/startedAt to record a practice session.
+export const gradeIcfesAttempt = async (
+  payload:
+    | { attemptId: string; answers: GradeAnswerInput[] }
+    | { mode: "practica" | "area"; areas: string[]; startedAt: string; answers: GradeAnswerInput[] },
+): Promise<GradedAttempt> => {
+  const { data, error } = await supabase.functions.invoke("grade-icfes-attempt", { body: payload });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as GradedAttempt;
+};
@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { QuestionFormat } from "@/lib/icfesItemSets";
+import {
+  buildBankFile,
+  type BankFile,
+  type ImportPreview,
+  type QuestionInput,
+  type ReviewStatus,
+} from "@/lib/icfesQuestionBank";
+
+export type BankQuestion = Tables<"icfes_questions">;
+export type BankPassage = Tables<"icfes_passages">;
+
+const MEDIA_BUCKET = "icfes-media";
+
+// Whole bank, every status, for the admin editor. Keys and explanations are not readable
+// from the table, so the questions come through admin_icfes_questions.
+export const fetchBank = async (): Promise<{ questions: BankQuestion[]; passages: BankPassage[] }> => {
+  const [questionsRes, passagesRes] = await Promise.all([
+    supabase.rpc("admin_icfes_questions"),
+    supabase.from("icfes_passages").select("*").order("created_at", { ascending: false }),
+  ]);
+
+  if (questionsRes.error) throw questionsRes.error;
+  if (passagesRes.error) throw passagesRes.error;
+  return { questions: questionsRes.data || [], passages: passagesRes.data || [] };
+};
+
+export type QuestionDraft = Omit<QuestionInput, "passage_key"> & { passage_id: string | null };
+
+// Edits send the question back to draft so it is reviewed again before students see it
+export const saveQuestion = async (question: QuestionDraft, userId: string, id?: string) => {
+  if (id) {
+    const { error } = await supabase
+      .from("icfes_questions")
+      .update({ ...question, review_status: "draft", reviewed_by: null, reviewed_at: null })
+      .eq("id", id);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from("icfes_questions")
+    .insert({ ...question, review_status: "draft", created_by: userId });
+  if (error) throw error;
+};
+
+export const setReviewStatus = async (id: string, status: ReviewStatus, userId: string) => {
+  const { error } = await supabase
+    .from("icfes_questions")
+    .update({
+      review_status: status,
+      reviewed_by: status === "draft" ? null : userId,
+      reviewed_at: status === "draft" ? null : new Date().toISOString(),
+    })
+    .eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteQuestion = async (id: string) => {
+  const { error } = await supabase.from("icfes_questions").delete().eq("id", id);
+  if (error) throw error;
+};
+
+export const savePassage = async (
+  passage: Pick<BankPassage, "area" | "kind" | "title" | "content" | "imagen_url" | "options">,
+  userId: string,
+  id?: string,
+) => {
+  if (id) {
+    const { error } = await supabase.from("icfes_passages").update(passage).eq("id", id);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("icfes_passages").insert({ ...passage, created_by: userId });
+  if (error) throw error;
+};
+
+export const deletePassage = async (id: string) => {
+  const { error } = await supabase.from("icfes_passages").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// Uploads a question or passage image and returns its public URL
+export const uploadIcfesMedia = async (file: File): Promise<string> => {
+  const path = `${Date.now()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+  const { error } = await supabase.storage.from(MEDIA_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+/**
+ * Writes a validated preview: passages first, then the questions pointing at them.
+ * Imported questions always start as drafts.
+ */
+export const importBank = async (preview: ImportPreview, userId: string): Promise<number> => {
+  const passageIds = new Map<string, string>();
+  if (preview.passages.length > 0) {
+    const { data, error } = await supabase
+      .from("icfes_passages")
+      .insert(
+        preview.passages.map((p) => ({
+          area: p.area,
+          kind: p.kind,
+          title: p.title,
+          content: p.content,
+          imagen_url: p.imagen_url,
+          options: p.options,
+          created_by: userId,
+        })),
+      )
+      .select("id");
+    if (error) throw error;
+    // Inserted rows come back in input order
+    (data || []).forEach((row, i) => passageIds.set(preview.passages[i].key, row.id));
+  }
+
+  if (preview.questions.length === 0) return 0;
+  const { error } = await supabase.from("icfes_questions").insert(
+    preview.questions.map(({ row: _row, passage_key, ...q }) => ({
+      ...q,
+      passage_id: passage_key ? passageIds.get(passage_key) ?? null : null,
+      review_status: "draft",
+      created_by: userId,
+    })),
+  );
+  if (error) throw error;
+  return preview.questions.length;
+};
+
+export const exportBank = async (): Promise<BankFile> => {
+  const { questions, passages } = await fetchBank();
+  return buildBankFile(
+    passages,
+    questions.map((q) => ({
+      area: q.area,
+      competencia: q.competencia,
+      enunciado: q.enunciado,
+      imagen_url: q.imagen_url,
+      formato: q.formato as QuestionFormat,
+      opcion_a: q.opcion_a,
+      opcion_b: q.opcion_b,
+      opcion_c: q.opcion_c,
+      opcion_d: q.opcion_d,
+      respuesta_correcta: q.respuesta_correcta as QuestionInput["respuesta_correcta"],
+      dificultad: q.dificultad,
+      explicacion: q.explicacion,
+      passage_id: q.passage_id,
+      passage_order: q.passage_order,
+    })),
+  );
+};
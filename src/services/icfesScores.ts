@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PercentileReferenceRow, PercentileScope } from "@/lib/icfesScoring";
+import { parseErrorDiagnosis, type ErrorDiagnosis } from "@/lib/icfesDiagnostics";
+
+export interface ScoredAttempt {
+  id: string;
+  mode: string;
+  completedAt: string;
+  scoresByArea: unknown;
+}
+
+// The most recent year of the reference table, per scope
+export const fetchPercentileReference = async (): Promise<PercentileReferenceRow[]> => {
+  const { data, error } = await supabase
+    .from("icfes_percentile_reference")
+    .select("scope, min_score, percentile, reference_year");
+
+  if (error) throw error;
+
+  const latestYear = new Map<string, number>();
+  for (const row of data || []) {
+    latestYear.set(row.scope, Math.max(latestYear.get(row.scope) ?? 0, row.reference_year));
+  }
+  return (data || [])
+    .filter((row) => row.reference_year === latestYear.get(row.scope))
+    .map((row) => ({ scope: row.scope as PercentileScope, minScore: row.min_score, percentile: row.percentile }));
+};
+
+// Completed attempts of a student, oldest first
+export const fetchScoreHistory = async (studentId: string, limit = 30): Promise<ScoredAttempt[]> => {
+  const { data, error } = await supabase
+    .from("icfes_attempts")
+    .select("id, mode, completed_at, scores_by_area")
+    .eq("student_id", studentId)
+    .eq("status", "completed")
+    .not("completed_at", "is", null)
+    .order("completed_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || [])
+    .map((row) => ({ id: row.id, mode: row.mode, completedAt: row.completed_at!, scoresByArea: row.scores_by_area }))
+    .reverse();
+};
+
+// Recurring error patterns over the student's recent attempts
+export const fetchErrorDiagnosis = async (studentId: string): Promise<ErrorDiagnosis> => {
+  const { data, error } = await supabase.rpc("icfes_error_patterns", { _student_id: studentId });
+
+  if (error) throw error;
+  return parseErrorDiagnosis(data);
+};
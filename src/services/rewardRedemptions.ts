@@ -0,0 +1,122 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { RedemptionStatus } from "@/lib/rewardRedemptions";
+
+export type RedemptionEvent = Tables<"reward_redemption_events">;
+
+export interface RedemptionWithReward extends Tables<"reward_redemptions"> {
+  rewards: { name: string; category: string; fulfillment_type: string } | null;
+  student_profiles: { full_name: string } | null;
+}
+
+const REDEMPTION_SELECT = `
+  *,
+  rewards (name, category, fulfillment_type),
+  student_profiles!reward_redemptions_student_id_fkey (full_name)
+`;
+
+// Admin queue; without a status, every redemption that is not finished yet
+export const fetchRedemptionQueue = async (status: RedemptionStatus | "open" | "all"): Promise<RedemptionWithReward[]> => {
+  let query = supabase
+    .from("reward_redemptions")
+    .select(REDEMPTION_SELECT)
+    .order("created_at", { ascending: status === "open" })
+    .limit(100);
+
+  if (status === "open") query = query.not("status", "in", "(delivered,rejected)");
+  else if (status !== "all") query = query.eq("status", status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as unknown as RedemptionWithReward[]) || [];
+};
+
+// Redemptions of one student; RLS lets the student and their guardian read them
+export const fetchStudentRedemptions = async (studentId: string): Promise<RedemptionWithReward[]> => {
+  const { data, error } = await supabase
+    .from("reward_redemptions")
+    .select(REDEMPTION_SELECT)
+    .eq("student_id", studentId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return (data as unknown as RedemptionWithReward[]) || [];
+};
+
+export const fetchRedemptionEvents = async (redemptionId: string): Promise<RedemptionEvent[]> => {
+  const { data, error } = await supabase
+    .from("reward_redemption_events")
+    .select("*")
+    .eq("redemption_id", redemptionId)
+    .order("created_at");
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Passing the current status only adds the note to the history
+export const updateRedemptionStatus = async (redemptionId: string, status: RedemptionStatus, note?: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("update_redemption_status", {
+    _redemption_id: redemptionId,
+    _status: status,
+    _note: note || undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const guardianReviewRedemption = async (redemptionId: string, approve: boolean, note?: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("guardian_review_redemption", {
+    _redemption_id: redemptionId,
+    _approve: approve,
+    _note: note || undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchGuardianApproval = async (studentId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from("guardian_student_settings")
+    .select("approve_redemptions")
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.approve_redemptions ?? false;
+};
+
+export const setGuardianApproval = async (studentId: string, approve: boolean) => {
+  const { error } = await supabase
+    .from("guardian_student_settings")
+    .upsert({ student_id: studentId, approve_redemptions: approve });
+
+  if (error) throw error;
+};
+
+// Codes not handed out yet, per reward
+export const fetchAvailableCodeCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from("reward_codes")
+    .select("reward_id")
+    .is("redemption_id", null);
+
+  if (error) throw error;
+  return (data || []).reduce<Record<string, number>>((counts, row) => {
+    counts[row.reward_id] = (counts[row.reward_id] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+// Codes already loaded for the reward are skipped
+export const addRewardCodes = async (rewardId: string, codes: string[]) => {
+  if (codes.length === 0) return;
+  const { error } = await supabase
+    .from("reward_codes")
+    .upsert(codes.map((code) => ({ reward_id: rewardId, code })), { onConflict: "reward_id,code", ignoreDuplicates: true });
+
+  if (error) throw error;
+};
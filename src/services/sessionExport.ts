@@ -0,0 +1,95 @@
+import { getISOWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  parseBoardEventRows,
+  parseReplayMessages,
+  type BoardEvent,
+  type ReplayMessage,
+} from "@/lib/boardRecording";
+
+export const REPOSITORY_BUCKET = "repository";
+
+export interface SessionRecording {
+  studentId: string;
+  studentName: string | null;
+  skill: string | null;
+  isPrimary: boolean;
+  startedAt: number;
+  messages: ReplayMessage[];
+  events: BoardEvent[];
+}
+
+// Chat and board events of a tutor session, ready to replay or export
+export const fetchSessionRecording = async (sessionId: string): Promise<SessionRecording> => {
+  const [sessionResult, eventsResult] = await Promise.all([
+    supabase
+      .from("tutor_sessions")
+      .select("student_id, student_name, skill, messages, timestamp_start, age_group")
+      .eq("id", sessionId)
+      .single(),
+    supabase
+      .from("tutor_board_events")
+      .select("actor, kind, payload, occurred_at")
+      .eq("session_id", sessionId)
+      .order("occurred_at", { ascending: true }),
+  ]);
+
+  if (sessionResult.error) throw sessionResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+
+  const session = sessionResult.data;
+  const startedAt = Date.parse(session.timestamp_start);
+  return {
+    studentId: session.student_id,
+    studentName: session.student_name,
+    skill: session.skill,
+    isPrimary: session.age_group.toUpperCase() === "PRIMARY",
+    startedAt,
+    messages: parseReplayMessages(session.messages, startedAt),
+    events: parseBoardEventRows(eventsResult.data || []),
+  };
+};
+
+// Upload an exported file to the student's folder and list it in their repository.
+// `file_url` keeps the storage path: the bucket is private, read it with a signed URL.
+export const saveExportToRepository = async ({
+  blob,
+  fileName,
+  studentId,
+  description,
+  subject,
+}: {
+  blob: Blob;
+  fileName: string;
+  studentId: string;
+  description?: string;
+  subject?: string | null;
+}) => {
+  const path = `${studentId}/${Date.now()}-${fileName}`;
+  const { error: uploadError } = await supabase.storage
+    .from(REPOSITORY_BUCKET)
+    .upload(path, blob, { contentType: blob.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("repository_items")
+    .insert({
+      student_id: studentId,
+      file_name: fileName,
+      file_type: blob.type,
+      file_url: path,
+      description: description ?? null,
+      subject: subject ?? null,
+      week_label: `Semana ${getISOWeek(new Date())}`,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Do not leave an orphan file behind
+    await supabase.storage.from(REPOSITORY_BUCKET).remove([path]);
+    throw error;
+  }
+  return data;
+};
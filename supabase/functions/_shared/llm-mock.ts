@@ -0,0 +1,188 @@
+// Deterministic fixtures for LLM_PROVIDER=mock.
+// Replies depend only on the task and the request text, so local runs and tests are repeatable.
+
+import type { LlmMessage, LlmRequest } from "./llm.ts";
+
+function messageText(message: LlmMessage | undefined): string {
+  if (!message) return "";
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : "[imagen]"))
+    .join(" ");
+}
+
+function lastUserText(messages: LlmMessage[]): string {
+  return messageText([...messages].reverse().find((m) => m.role === "user")).trim();
+}
+
+// Stable 32-bit FNV-1a hash used to pick between fixture variants
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function pick<T>(options: T[], seed: string): T {
+  return options[hash(seed) % options.length];
+}
+
+// Reads "Label: value" lines that the functions put in their user prompts
+function promptField(text: string, label: string, fallback: string): string {
+  const match = text.match(new RegExp(`${label}:\\s*(.+)`, "i"));
+  return match ? match[1].trim() : fallback;
+}
+
+function tutorReply(userText: string): string {
+  const topic = userText.replace(/\s+/g, " ").substring(0, 80) || "tu pregunta";
+  return pick(
+    [
+      `¡Buena pregunta! Hablemos de "${topic}". ¿Qué datos te da el problema? Cuéntame qué crees que deberíamos hacer primero.`,
+      `Vamos paso a paso con "${topic}". Paso 1: identifiquemos lo que nos piden. ¿Qué operación crees que corresponde aquí?`,
+      `Muy bien que lo intentes. Sobre "${topic}", ¿puedes explicarme con tus palabras qué entendiste del enunciado?`,
+    ],
+    userText,
+  );
+}
+
+const MOCK_DRAWING = [
+  { type: "circle", x: 250, y: 300, radius: 60, color: "#FF6B6B", label: "A" },
+  { type: "arrow", x1: 320, y1: 300, x2: 480, y2: 300, color: "#95E1D3" },
+  { type: "circle", x: 550, y: 300, radius: 60, color: "#4ECDC4", label: "B" },
+  { type: "text", x: 400, y: 180, text: "?", size: 40, color: "#FFE66D" },
+];
+
+function tutorSteps(userText: string) {
+  const skill = promptField(userText, "Habilidad", "suma de fracciones");
+  return {
+    problemText: `Practiquemos ${skill}: resuelve 1/2 + 1/4 paso a paso.`,
+    steps: [
+      {
+        tutorText: "Dibuja un círculo para representar el entero y escribe 1/2 en su interior.",
+        tutorDrawingCommands: [{ type: "text", x: 400, y: 80, text: "1/2 + 1/4 = ?" }],
+        validationSpec: {
+          type: "shape_and_label_match",
+          expectedShapes: [{ type: "circle", approxX: 50, approxY: 50, tolerancePx: 200, labelRegex: "1/2", relative: true }],
+        },
+        hintSequence: ["Un círculo grande en el centro sirve.", "Escribe 1/2 dentro del círculo.", "Dibuja el círculo y escribe 1/2 adentro."],
+      },
+      {
+        tutorText: "¿Cuál es el denominador común de 2 y 4? Escríbelo en tu tablero.",
+        tutorDrawingCommands: [],
+        validationSpec: { type: "hand_written_number_match", expectedNumbers: [{ value: 4, tolerance: 0 }] },
+        hintSequence: ["Busca un número que sea múltiplo de 2 y de 4.", "4 es múltiplo de 2.", "El denominador común es 4."],
+      },
+      {
+        tutorText: "Escribe la suma con denominador común y su resultado.",
+        tutorDrawingCommands: [],
+        validationSpec: { type: "math_expression_match", expectedExpression: "2/4+1/4=3/4" },
+        hintSequence: ["1/2 es lo mismo que 2/4.", "Suma los numeradores: 2 + 1.", "2/4 + 1/4 = 3/4"],
+      },
+    ],
+  };
+}
+
+function levelingPlan(userText: string) {
+  const subject = userText.match(/estudiante de ([^.\n]+)/i)?.[1]?.trim() || "Matemáticas";
+  return {
+    topic: `Fundamentos de ${subject}`,
+    goals: `Reforzar las bases de ${subject} y ganar confianza con ejercicios guiados durante 4 semanas.`,
+    difficulty_level: 2,
+    total_sessions: 16,
+    weekly_plan: [1, 2, 3, 4].map((week) => ({
+      week,
+      focus: `Semana ${week}: ${["diagnóstico y repaso", "conceptos clave", "práctica guiada", "aplicación y cierre"][week - 1]}`,
+      topics: [`${subject} ${week}.1`, `${subject} ${week}.2`],
+      sessions: 4,
+      activities: ["Ejercicios guiados con Nova", "Mini reto en el tablero"],
+    })),
+    recommended_sessions: [1, 2, 3, 4].map((week) => ({
+      topic: `${subject}: sesión clave semana ${week}`,
+      estimated_minutes: 30,
+      difficulty: week <= 2 ? "básico" : "intermedio",
+      week,
+    })),
+  };
+}
+
+function remedialPlan(userText: string) {
+  const subject = promptField(userText, "Materia", "General");
+  return {
+    weeks: [1, 2, 3, 4].map((week_number) => ({
+      week_number,
+      topic: `${subject}: ${["conceptos básicos", "procedimientos", "resolución de problemas", "repaso integrador"][week_number - 1]}`,
+      objectives: `Al final de la semana ${week_number} el estudiante aplica lo trabajado en ${subject} en ejercicios cortos y explica su razonamiento.`,
+    })),
+  };
+}
+
+function homeworkAssignment(userText: string) {
+  const topic = promptField(userText, "Tema de la semana", "el tema de la semana");
+  return {
+    description: `Tarea sobre ${topic}:\n1. Resuelve el ejercicio 1 mostrando cada paso.\n2. Resuelve el ejercicio 2 y explica qué operación usaste.\n3. Inventa un problema parecido y resuélvelo.\n4. Toma una foto clara de tu cuaderno y súbela.`,
+    exercises_count: 4,
+  };
+}
+
+function homeworkEvaluation(userText: string) {
+  const score = pick([72, 85, 91, 95], userText);
+  return {
+    score,
+    feedback:
+      score >= 90
+        ? "Muy buen trabajo: los procedimientos están completos y bien organizados."
+        : "Vas por buen camino, pero hay pasos sin justificar y algunos errores de cálculo.",
+    tips: score >= 90 ? [] : ["Escribe cada paso en una línea distinta.", "Verifica el resultado reemplazándolo en el problema."],
+    approved: score >= 90,
+  };
+}
+
+function whatsappSummary(userText: string): string {
+  const name = promptField(userText, "Nombre", "el estudiante");
+  const guardian = promptField(userText, "Nombre del acudiente", "Estimado acudiente");
+  return `Hola ${guardian} 👋\n\nEste es el resumen semanal de ${name} en Nova Schola 📚\n\n✅ Participó en sus sesiones de tutoría y trabajó con constancia.\n💪 Sigue reforzando los temas donde tuvo dudas.\n\nPróximo paso: practicar 15 minutos diarios con Nova. ¡Gracias por acompañar su aprendizaje! 🌟`;
+}
+
+// One concept card per "Fuente S<n>" block in the prompt
+function flashcardCandidates(userText: string) {
+  const sources = [...userText.matchAll(/Fuente (S\d+)[^:\n]*:\s*(.+)/g)];
+  return {
+    cards: sources.map(([, source, text]) => ({
+      source,
+      kind: "concept",
+      front: `¿Qué idea clave trabajaste en: ${text.substring(0, 60)}?`,
+      back: text.substring(0, 160),
+    })),
+  };
+}
+
+export function mockCompletion(request: LlmRequest): string {
+  const userText = lastUserText(request.messages);
+
+  switch (request.task) {
+    case "tutor.reply":
+      return tutorReply(userText);
+    case "tutor.drawing":
+      return JSON.stringify(MOCK_DRAWING);
+    case "tutor.steps":
+      return JSON.stringify(tutorSteps(userText));
+    case "leveling-plan":
+      return JSON.stringify(levelingPlan(userText));
+    case "remedial-plan":
+      return JSON.stringify(remedialPlan(userText));
+    case "homework.assign":
+      return JSON.stringify(homeworkAssignment(userText));
+    case "homework.evaluate":
+      return JSON.stringify(homeworkEvaluation(userText));
+    case "whatsapp-summary":
+      return whatsappSummary(userText);
+    case "flashcards.generate":
+      return JSON.stringify(flashcardCandidates(userText));
+    case "session.notes":
+      return "Se trabajó el tema de la sesión con preguntas guiadas. El estudiante avanzó con algo de apoyo. Se recomienda practicar dos ejercicios similares antes de la próxima sesión.";
+    default:
+      return `Respuesta simulada para: ${userText.substring(0, 120)}`;
+  }
+}
@@ -0,0 +1,397 @@
+// Shared LLM access for the AI edge functions.
+//
+// The provider is chosen with the LLM_PROVIDER env var:
+//   - "lovable" (default): Lovable AI Gateway, needs LOVABLE_API_KEY
+//   - "mock": deterministic offline replies, no network or API key needed
+//
+// Optional tuning: LLM_TIMEOUT_MS (default 30000), LLM_MAX_RETRIES (default 2).
+
+import { mockCompletion } from "./llm-mock.ts";
+
+export type LlmRole = "system" | "user" | "assistant";
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string | LlmContentPart[];
+}
+
+// Identifies the call site; used for logging and to pick mock fixtures
+export type LlmTask =
+  | "tutor.reply"
+  | "tutor.drawing"
+  | "tutor.steps"
+  | "leveling-plan"
+  | "remedial-plan"
+  | "homework.assign"
+  | "homework.evaluate"
+  | "whatsapp-summary"
+  | "session.notes"
+  | "flashcards.generate";
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  usage: LlmUsage;
+  provider: string;
+  model: string;
+}
+
+export interface LlmStream {
+  deltas: AsyncGenerator<string>;
+  // Final usage; only complete once `deltas` is exhausted
+  usage: () => LlmUsage;
+}
+
+export interface LlmProvider {
+  name: string;
+  chat(request: LlmRequest): Promise<LlmResponse>;
+  openStream(request: LlmRequest): Promise<LlmStream>;
+}
+
+export type LlmErrorCode =
+  | "NOT_CONFIGURED"
+  | "RATE_LIMITED"
+  | "PAYMENT_REQUIRED"
+  | "TIMEOUT"
+  | "INVALID_JSON"
+  | "PROVIDER_ERROR";
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public code: LlmErrorCode,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+
+  get retryable(): boolean {
+    return this.code === "RATE_LIMITED" || this.code === "TIMEOUT" || (this.code === "PROVIDER_ERROR" && this.status >= 500);
+  }
+}
+
+export const DEFAULT_MODEL = "google/gemini-2.5-flash";
+const LOVABLE_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DEFAULT_TIMEOUT_MS = Number(Deno.env.get("LLM_TIMEOUT_MS")) || 30000;
+const DEFAULT_MAX_RETRIES = Number(Deno.env.get("LLM_MAX_RETRIES") ?? 2);
+
+// ===== Token accounting =====
+
+// Rough estimate (≈4 characters per token) for providers that do not report usage
+export function estimateUsage(messages: LlmMessage[], completion: string): LlmUsage {
+  const promptChars = messages.reduce((sum, m) => {
+    if (typeof m.content === "string") return sum + m.content.length;
+    return sum + m.content.reduce((partSum, part) => partSum + (part.type === "text" ? part.text.length : 0), 0);
+  }, 0);
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function usageFromGateway(usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined): LlmUsage | null {
+  if (!usage) return null;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
+function logUsage(provider: string, task: LlmTask, usage: LlmUsage) {
+  console.log(
+    `[llm] provider=${provider} task=${task} tokens=${usage.totalTokens} (prompt ${usage.promptTokens}, completion ${usage.completionTokens})`,
+  );
+}
+
+// ===== Lovable AI Gateway provider =====
+
+function errorFromStatus(status: number, body: string): LlmError {
+  console.error(`[llm] AI Gateway error: ${status} - ${body.substring(0, 500)}`);
+  if (status === 429) return new LlmError("Rate limits exceeded", "RATE_LIMITED", 429);
+  if (status === 402) return new LlmError("AI credits exhausted", "PAYMENT_REQUIRED", 402);
+  return new LlmError(`AI Gateway error: ${status}`, "PROVIDER_ERROR", status);
+}
+
+function createLovableProvider(): LlmProvider {
+  const apiKey = Deno.env.get("LOVABLE_API_KEY");
+
+  // Sends the request and hands the response to `read` before the timeout is cleared
+  async function post<T>(request: LlmRequest, stream: boolean, read: (response: Response) => Promise<T>): Promise<T> {
+    if (!apiKey) {
+      throw new LlmError("LOVABLE_API_KEY is not configured", "NOT_CONFIGURED", 500);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(LOVABLE_GATEWAY_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: request.model ?? DEFAULT_MODEL,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw errorFromStatus(response.status, await response.text());
+      }
+
+      return await read(response);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw new LlmError("AI request timed out", "TIMEOUT", 504);
+      }
+      if (error instanceof TypeError) {
+        // fetch network failure
+        throw new LlmError(`AI request failed: ${error.message}`, "PROVIDER_ERROR", 503);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    name: "lovable",
+
+    chat(request) {
+      return post(request, false, async (response) => {
+        const data = await response.json();
+        const content = data.choices?.[0]?.message?.content ?? "";
+        return {
+          content,
+          usage: usageFromGateway(data.usage) ?? estimateUsage(request.messages, content),
+          provider: "lovable",
+          model: data.model ?? request.model ?? DEFAULT_MODEL,
+        };
+      });
+    },
+
+    // The timeout covers the connection; once headers arrive the body is read without a deadline
+    openStream(request) {
+      return post(request, true, async (response) => {
+        if (!response.body) {
+          throw new LlmError("AI Gateway returned an empty stream", "PROVIDER_ERROR", 502);
+        }
+
+        let usage: LlmUsage | null = null;
+        let completion = "";
+        const body = response.body;
+
+        async function* deltas(): AsyncGenerator<string> {
+          const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = "";
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += value;
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+              const line = buffer.slice(0, newlineIndex).trim();
+              buffer = buffer.slice(newlineIndex + 1);
+
+              if (!line.startsWith("data:")) continue;
+              const payload = line.slice(5).trim();
+              if (payload === "[DONE]") return;
+
+              try {
+                const chunk = JSON.parse(payload);
+                usage = usageFromGateway(chunk.usage) ?? usage;
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                  completion += delta;
+                  yield delta;
+                }
+              } catch {
+                console.warn("[llm] Skipping malformed stream chunk:", payload.substring(0, 100));
+              }
+            }
+          }
+        }
+
+        return {
+          deltas: deltas(),
+          usage: () => usage ?? estimateUsage(request.messages, completion),
+        };
+      });
+    },
+  };
+}
+
+// ===== Mock provider =====
+
+function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+
+    async chat(request) {
+      const content = mockCompletion(request);
+      return { content, usage: estimateUsage(request.messages, content), provider: "mock", model: "mock" };
+    },
+
+    async openStream(request) {
+      const content = mockCompletion(request);
+
+      async function* deltas(): AsyncGenerator<string> {
+        // Word-sized chunks, like a real stream
+        for (const piece of content.match(/\S+\s*/g) ?? []) {
+          yield piece;
+        }
+      }
+
+      return { deltas: deltas(), usage: () => estimateUsage(request.messages, content) };
+    },
+  };
+}
+
+let cachedProvider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (Deno.env.get("LLM_PROVIDER") || "lovable").toLowerCase();
+  if (name === "mock") {
+    cachedProvider = createMockProvider();
+  } else {
+    if (name !== "lovable") {
+      console.warn(`[llm] Unknown LLM_PROVIDER "${name}", using lovable`);
+    }
+    cachedProvider = createLovableProvider();
+  }
+
+  console.log(`[llm] Using provider: ${cachedProvider.name}`);
+  return cachedProvider;
+}
+
+// ===== Public helpers =====
+
+async function withRetries<T>(task: LlmTask, retries: number, run: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const canRetry = error instanceof LlmError && error.retryable && attempt < retries;
+      if (!canRetry) throw error;
+
+      const delayMs = 500 * 2 ** attempt;
+      console.warn(`[llm] ${task} failed (${(error as LlmError).code}), retrying in ${delayMs}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+export async function chatCompletion(request: LlmRequest): Promise<LlmResponse> {
+  const provider = getLlmProvider();
+  const response = await withRetries(request.task, request.retries ?? DEFAULT_MAX_RETRIES, () => provider.chat(request));
+  logUsage(provider.name, request.task, response.usage);
+  return response;
+}
+
+// Retries only cover opening the stream; a stream that fails midway is not replayed
+export async function openChatStream(request: LlmRequest): Promise<LlmStream> {
+  const provider = getLlmProvider();
+  const stream = await withRetries(request.task, request.retries ?? DEFAULT_MAX_RETRIES, () => provider.openStream(request));
+
+  async function* deltas(): AsyncGenerator<string> {
+    yield* stream.deltas;
+    logUsage(provider.name, request.task, stream.usage());
+  }
+
+  return { deltas: deltas(), usage: stream.usage };
+}
+
+// Extract a JSON value from model output (tolerates ```json fences and surrounding prose)
+export function parseJsonContent<T>(text: string): T | null {
+  const cleaned = text
+    .replace(/```json\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    const match = cleaned.match(/[[{][\s\S]*[\]}]/);
+    if (!match) return null;
+    try {
+      return JSON.parse(match[0]) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Chat completion whose reply must be JSON; asks once more if the first reply does not parse
+export async function chatJson<T>(request: LlmRequest): Promise<{ data: T; response: LlmResponse }> {
+  let response = await chatCompletion(request);
+  let data = parseJsonContent<T>(response.content);
+
+  if (data === null) {
+    console.warn(`[llm] ${request.task} returned invalid JSON, asking again`);
+    response = await chatCompletion({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: "assistant", content: response.content },
+        { role: "user", content: "Tu respuesta no era JSON válido. Devuelve SOLO el JSON, sin texto adicional." },
+      ],
+    });
+    data = parseJsonContent<T>(response.content);
+  }
+
+  if (data === null) {
+    console.error(`[llm] ${request.task} JSON parse failed:`, response.content.substring(0, 500));
+    throw new LlmError("Error al procesar la respuesta de IA", "INVALID_JSON", 500);
+  }
+
+  return { data, response };
+}
+
+const LLM_ERROR_MESSAGES: Record<LlmErrorCode, string> = {
+  NOT_CONFIGURED: "AI service not configured",
+  RATE_LIMITED: "Demasiadas solicitudes. Por favor, espera un momento e intenta de nuevo.",
+  PAYMENT_REQUIRED: "Se agotaron los créditos de IA. Contacta al administrador.",
+  TIMEOUT: "El servicio de IA tardó demasiado en responder. Intenta de nuevo.",
+  INVALID_JSON: "Error al procesar la respuesta de IA",
+  PROVIDER_ERROR: "Error al comunicarse con el servicio de IA",
+};
+
+// Standard HTTP response for provider failures; null when `error` is not an LlmError
+export function llmErrorResponse(error: unknown, corsHeaders: Record<string, string>): Response | null {
+  if (!(error instanceof LlmError)) return null;
+
+  const status = error.code === "PROVIDER_ERROR" ? 502 : error.status;
+  return new Response(
+    JSON.stringify({ error: LLM_ERROR_MESSAGES[error.code], code: error.code }),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
@@ -0,0 +1,440 @@
+// Small math expression parser/evaluator for grading student answers.
+// Handles what students actually write on the board: fractions, powers, roots,
+// implicit multiplication (2x, 3(x+1)), ×/÷/− glyphs, decimal commas and
+// equations with several sides (2/4 + 1/4 = 3/4).
+
+export type MathNode =
+  | { kind: "num"; value: number }
+  | { kind: "var"; name: string }
+  | { kind: "neg"; arg: MathNode }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode }
+  | { kind: "call"; fn: MathFunction; arg: MathNode };
+
+type MathFunction = "sqrt" | "cbrt" | "abs" | "sin" | "cos" | "tan" | "ln" | "log";
+
+export class MathParseError extends Error {}
+
+const FUNCTIONS: Record<string, MathFunction> = {
+  sqrt: "sqrt",
+  raiz: "sqrt",
+  cbrt: "cbrt",
+  abs: "abs",
+  sin: "sin",
+  sen: "sin",
+  cos: "cos",
+  tan: "tan",
+  ln: "ln",
+  log: "log",
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI };
+
+type Token =
+  | { type: "num"; value: number }
+  | { type: "ident"; name: string }
+  | { type: "fn"; fn: MathFunction }
+  | { type: "op"; op: "+" | "-" | "*" | "/" | "^" }
+  | { type: "lparen" }
+  | { type: "rparen" };
+
+export interface NormalizeOptions {
+  // Read "x" between numbers as multiplication (2x3) when the problem has no variable x
+  xIsTimes?: boolean;
+}
+
+// Rewrite glyphs, light LaTeX and handwriting habits into plain ASCII math
+export function normalizeMathInput(text: string, { xIsTimes = false }: NormalizeOptions = {}): string {
+  let s = text
+    .replace(/\\frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, "(($1)/($2))")
+    .replace(/\\sqrt\s*\{([^{}]*)\}/g, "sqrt($1)")
+    .replace(/\\(cdot|times)/g, "*")
+    .replace(/\\div/g, "/")
+    .replace(/\\left|\\right|\\,|\\!|\$/g, "")
+    .replace(/[×·∙⋅]/g, "*")
+    .replace(/[÷:]/g, "/")
+    .replace(/[−–—]/g, "-")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/√/g, "sqrt")
+    .replace(/∛/g, "cbrt")
+    .replace(/π/g, "pi")
+    .replace(/[[{]/g, "(")
+    .replace(/[\]}]/g, ")")
+    .replace(/(\d),(\d)/g, "$1.$2")
+    .toLowerCase();
+
+  if (xIsTimes) {
+    s = s.replace(/(\d)\s*x\s*(?=\d)/g, "$1*");
+  }
+
+  return s;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[\d.]/.test(ch)) {
+      const match = input.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) throw new MathParseError(`Número inválido en "${input}"`);
+      tokens.push({ type: "num", value: parseFloat(match[1]) });
+      i += match[1].length;
+      continue;
+    }
+
+    if (/[a-zñ]/.test(ch)) {
+      const word = input.slice(i).match(/^[a-zñ]+/)![0];
+      i += word.length;
+
+      // Known names first (longest match), then split the rest into one-letter variables: xy -> x*y
+      let rest = word;
+      while (rest) {
+        const name = Object.keys({ ...FUNCTIONS, ...CONSTANTS })
+          .filter((n) => rest.startsWith(n))
+          .sort((a, b) => b.length - a.length)[0];
+        if (name && FUNCTIONS[name]) {
+          tokens.push({ type: "fn", fn: FUNCTIONS[name] });
+          rest = rest.slice(name.length);
+        } else if (name) {
+          tokens.push({ type: "ident", name });
+          rest = rest.slice(name.length);
+        } else {
+          tokens.push({ type: "ident", name: rest[0] });
+          rest = rest.slice(1);
+        }
+      }
+      continue;
+    }
+
+    if ("+-*/^".includes(ch)) {
+      tokens.push({ type: "op", op: ch as "+" | "-" | "*" | "/" | "^" });
+    } else if (ch === "(") {
+      tokens.push({ type: "lparen" });
+    } else if (ch === ")") {
+      tokens.push({ type: "rparen" });
+    } else {
+      throw new MathParseError(`Símbolo no reconocido "${ch}"`);
+    }
+    i++;
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): MathNode {
+    if (this.tokens.length === 0) throw new MathParseError("Expresión vacía");
+    const node = this.expression();
+    if (this.pos < this.tokens.length) throw new MathParseError("Sobran símbolos al final");
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(op: string): boolean {
+    const t = this.peek();
+    return t?.type === "op" && t.op === op;
+  }
+
+  // Tokens that can start a factor, which is what makes "2x" or "3(x+1)" a product
+  private startsFactor(): boolean {
+    const t = this.peek();
+    return !!t && (t.type === "num" || t.type === "ident" || t.type === "fn" || t.type === "lparen");
+  }
+
+  private expression(): MathNode {
+    let node = this.term();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = (this.tokens[this.pos++] as { op: "+" | "-" }).op;
+      node = { kind: "bin", op, left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  private term(): MathNode {
+    let node = this.unary();
+    for (;;) {
+      if (this.isOp("*") || this.isOp("/")) {
+        const op = (this.tokens[this.pos++] as { op: "*" | "/" }).op;
+        node = { kind: "bin", op, left: node, right: this.unary() };
+      } else if (this.startsFactor()) {
+        node = { kind: "bin", op: "*", left: node, right: this.power() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private unary(): MathNode {
+    if (this.isOp("-")) {
+      this.pos++;
+      return { kind: "neg", arg: this.unary() };
+    }
+    if (this.isOp("+")) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): MathNode {
+    const base = this.primary();
+    if (this.isOp("^")) {
+      this.pos++;
+      // Right associative, and allows 2^-1
+      return { kind: "bin", op: "^", left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private primary(): MathNode {
+    const t = this.tokens[this.pos++];
+    if (!t) throw new MathParseError("La expresión termina antes de tiempo");
+
+    switch (t.type) {
+      case "num":
+        return { kind: "num", value: t.value };
+      case "ident":
+        return t.name in CONSTANTS ? { kind: "num", value: CONSTANTS[t.name] } : { kind: "var", name: t.name };
+      case "fn":
+        return { kind: "call", fn: t.fn, arg: this.primary() };
+      case "lparen": {
+        const inner = this.expression();
+        if (this.peek()?.type !== "rparen") throw new MathParseError("Falta cerrar un paréntesis");
+        this.pos++;
+        return inner;
+      }
+      default:
+        throw new MathParseError("Símbolo inesperado");
+    }
+  }
+}
+
+export function parseMathExpression(text: string, options?: NormalizeOptions): MathNode {
+  return new Parser(tokenize(normalizeMathInput(text, options))).parse();
+}
+
+// "2/4 + 1/4 = 3/4" -> ["2/4 + 1/4", "3/4"]
+export function splitEquationSides(text: string): string[] {
+  return text
+    .split(/=|≈/)
+    .map((side) => side.trim())
+    .filter(Boolean);
+}
+
+export function collectVariables(node: MathNode, into = new Set<string>()): Set<string> {
+  switch (node.kind) {
+    case "var":
+      into.add(node.name);
+      break;
+    case "neg":
+    case "call":
+      collectVariables(node.arg, into);
+      break;
+    case "bin":
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+  }
+  return into;
+}
+
+export function evaluateMath(node: MathNode, vars: Record<string, number> = {}): number {
+  switch (node.kind) {
+    case "num":
+      return node.value;
+    case "var":
+      return node.name in vars ? vars[node.name] : NaN;
+    case "neg":
+      return -evaluateMath(node.arg, vars);
+    case "call": {
+      const x = evaluateMath(node.arg, vars);
+      switch (node.fn) {
+        case "sqrt":
+          return Math.sqrt(x);
+        case "cbrt":
+          return Math.cbrt(x);
+        case "abs":
+          return Math.abs(x);
+        case "sin":
+          return Math.sin(x);
+        case "cos":
+          return Math.cos(x);
+        case "tan":
+          return Math.tan(x);
+        case "ln":
+          return Math.log(x);
+        case "log":
+          return Math.log10(x);
+      }
+      return NaN;
+    }
+    case "bin": {
+      const a = evaluateMath(node.left, vars);
+      const b = evaluateMath(node.right, vars);
+      switch (node.op) {
+        case "+":
+          return a + b;
+        case "-":
+          return a - b;
+        case "*":
+          return a * b;
+        case "/":
+          return a / b;
+        case "^":
+          return Math.pow(a, b);
+      }
+    }
+  }
+}
+
+export function countNodes(node: MathNode): number {
+  switch (node.kind) {
+    case "num":
+    case "var":
+      return 1;
+    case "neg":
+    case "call":
+      return 1 + countNodes(node.arg);
+    case "bin":
+      return 1 + countNodes(node.left) + countNodes(node.right);
+  }
+}
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+// A constant written in final form: 3, -2, 0.75, 3/4 (reduced), -3/4
+export function isSimplifiedConstant(node: MathNode): boolean {
+  if (node.kind === "num") return true;
+  if (node.kind === "neg") return node.arg.kind === "num";
+  if (node.kind === "bin" && node.op === "/") {
+    const num = node.left.kind === "neg" ? node.left.arg : node.left;
+    const den = node.right;
+    return (
+      num.kind === "num" &&
+      den.kind === "num" &&
+      Number.isInteger(num.value) &&
+      Number.isInteger(den.value) &&
+      den.value > 1 &&
+      gcd(num.value, den.value) === 1
+    );
+  }
+  return false;
+}
+
+// Deterministic PRNG so the same answer always gets the same grade
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SAMPLE_POINTS = 10;
+const MIN_VALID_SAMPLES = 4;
+
+// Random assignments for the variables, kept away from 0 and ±1 where
+// different expressions often coincide
+function samplePoints(variables: string[]): Array<Record<string, number>> {
+  if (variables.length === 0) return [{}];
+  const random = mulberry32(variables.join("").length * 7919 + 17);
+  return Array.from({ length: SAMPLE_POINTS }, () => {
+    const point: Record<string, number> = {};
+    for (const v of variables) {
+      const magnitude = 1.3 + random() * 3.7;
+      point[v] = random() < 0.5 ? -magnitude : magnitude;
+    }
+    return point;
+  });
+}
+
+function close(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= tolerance + 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+export type Equivalence = "equal" | "negated" | "different";
+
+// Compare two expressions by evaluating them at the same random points.
+// Points where either side is undefined (√ of a negative, division by 0) are skipped.
+export function compareExpressions(a: MathNode, b: MathNode, tolerance = 1e-6): Equivalence {
+  const variables = [...collectVariables(b, collectVariables(a))].sort();
+  const points = samplePoints(variables);
+
+  let valid = 0;
+  let equal = true;
+  let negated = true;
+  let allZero = true;
+
+  for (const point of points) {
+    const x = evaluateMath(a, point);
+    const y = evaluateMath(b, point);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+
+    valid++;
+    if (!close(x, y, tolerance)) equal = false;
+    if (!close(x, -y, tolerance)) negated = false;
+    if (!close(x, 0, tolerance)) allZero = false;
+  }
+
+  if (valid < Math.min(MIN_VALID_SAMPLES, points.length)) return "different";
+  if (equal) return "equal";
+  if (negated && !allZero) return "negated";
+  return "different";
+}
+
+// Two equations L1 = R1 and L2 = R2 are equivalent when L2 - R2 = k (L1 - R1)
+// for a constant k ≠ 0, e.g. "y = 2x + 3" and "2x - y + 3 = 0"
+export function equationsEquivalent(
+  first: [MathNode, MathNode],
+  second: [MathNode, MathNode],
+): boolean {
+  const f: MathNode = { kind: "bin", op: "-", left: first[0], right: first[1] };
+  const g: MathNode = { kind: "bin", op: "-", left: second[0], right: second[1] };
+  const variables = [...collectVariables(g, collectVariables(f))].sort();
+  if (variables.length === 0) return false;
+
+  let ratio: number | null = null;
+  let valid = 0;
+
+  for (const point of samplePoints(variables)) {
+    const x = evaluateMath(f, point);
+    const y = evaluateMath(g, point);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    valid++;
+
+    if (Math.abs(x) < 1e-9) {
+      if (Math.abs(y) > 1e-9) return false;
+      continue;
+    }
+    const k = y / x;
+    if (ratio === null) {
+      if (Math.abs(k) < 1e-9) return false;
+      ratio = k;
+    } else if (!close(k, ratio, 1e-6)) {
+      return false;
+    }
+  }
+
+  return ratio !== null && valid >= MIN_VALID_SAMPLES;
+}
@@ -0,0 +1,160 @@
+// Saber 11 simulacro blueprint and draw, shared by start-icfes-simulacro and grade-icfes-attempt.
+// The blueprint mirrors SABER11_SESSIONS in src/lib/icfesSimulacro.ts; keep both in step.
+
+export const ICFES_AREAS = ["matematicas", "lectura_critica", "ciencias", "sociales", "ingles"];
+
+export interface SessionSpec {
+  durationSeconds: number;
+  blocks: Array<{ area: string; count: number }>;
+}
+
+// Official distribution: 254 questions in two sessions of 4 h 30 min
+export const SABER11_SESSIONS: SessionSpec[] = [
+  {
+    durationSeconds: 4.5 * 60 * 60,
+    blocks: [
+      { area: "matematicas", count: 25 },
+      { area: "lectura_critica", count: 41 },
+      { area: "sociales", count: 25 },
+      { area: "ciencias", count: 29 },
+    ],
+  },
+  {
+    durationSeconds: 4.5 * 60 * 60,
+    blocks: [
+      { area: "matematicas", count: 25 },
+      { area: "sociales", count: 25 },
+      { area: "ciencias", count: 29 },
+      { area: "ingles", count: 55 },
+    ],
+  },
+];
+
+export const SIMULACRO_TIME_LIMIT_SECONDS = SABER11_SESSIONS.reduce((sum, s) => sum + s.durationSeconds, 0);
+
+export interface DrawnSession {
+  blocks: Array<{ area: string; questionIds: string[] }>;
+}
+
+interface BankQuestion {
+  id: string;
+  area: string;
+  passage_id: string | null;
+  passage_order: number | null;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Each passage's questions in passage order, and standalone questions on their own (groupItemSets in src/lib/icfesItemSets.ts)
+function groupItemSets(items: BankQuestion[]): BankQuestion[][] {
+  const sets = new Map<string, BankQuestion[]>();
+  const units: BankQuestion[][] = [];
+  for (const item of items) {
+    if (!item.passage_id) {
+      units.push([item]);
+      continue;
+    }
+    const set = sets.get(item.passage_id);
+    if (set) {
+      set.push(item);
+    } else {
+      const created = [item];
+      sets.set(item.passage_id, created);
+      units.push(created);
+    }
+  }
+  return units.map((unit) => unit.sort((a, b) => (a.passage_order ?? 0) - (b.passage_order ?? 0)));
+}
+
+// Takes whole units from the front of `pool` until `count` questions; a set that would overflow
+// is left for a later block, unless nothing has been taken yet
+function takeUnits(pool: string[][], count: number): string[] {
+  const taken: string[] = [];
+  for (let i = 0; i < pool.length && taken.length < count; ) {
+    if (taken.length + pool[i].length <= count || taken.length === 0) {
+      taken.push(...pool.splice(i, 1)[0]);
+    } else {
+      i++;
+    }
+  }
+  return taken;
+}
+
+/**
+ * Picks the questions of both sessions from the bank without repeating any.
+ * When an area has fewer questions than the exam needs, they are split between
+ * its blocks in proportion to the official counts. Questions sharing a passage
+ * are drawn together and stay in passage order.
+ */
+export function drawSimulacroSessions(bank: BankQuestion[]): DrawnSession[] {
+  const pools = new Map<string, string[][]>();
+  for (const area of ICFES_AREAS) {
+    const units = groupItemSets(bank.filter((q) => q.area === area)).map((unit) => unit.map((q) => q.id));
+    pools.set(area, shuffle(units));
+  }
+
+  const needed = new Map<string, number>();
+  for (const spec of SABER11_SESSIONS) {
+    for (const block of spec.blocks) needed.set(block.area, (needed.get(block.area) ?? 0) + block.count);
+  }
+
+  return SABER11_SESSIONS.map((spec) => ({
+    blocks: spec.blocks.map((block) => {
+      const pool = pools.get(block.area) ?? [];
+      const available = pool.reduce((sum, unit) => sum + unit.length, 0);
+      const total = needed.get(block.area) ?? block.count;
+      // `pool` shrinks as blocks take questions, so share what is left over what is still needed
+      const take = Math.min(block.count, available, Math.round((available * block.count) / total));
+      needed.set(block.area, total - block.count);
+      return { area: block.area, questionIds: take > 0 ? takeUnits(pool, take) : [] };
+    }).filter((block) => block.questionIds.length > 0),
+  }));
+}
+
+/**
+ * Why a drawn question set does not fit the blueprint, or null when it does:
+ * one entry per session, blocks in the session's area order, no question twice,
+ * every question in its block's area and no block above its official count
+ * (except a lone passage longer than the block, which the draw keeps whole).
+ */
+export function blueprintViolation(
+  sessions: DrawnSession[],
+  questions: Map<string, { area: string; passage_id: string | null }>,
+): string | null {
+  if (!Array.isArray(sessions) || sessions.length !== SABER11_SESSIONS.length) return "wrong number of sessions";
+
+  const seen = new Set<string>();
+  for (const [i, session] of sessions.entries()) {
+    const spec = SABER11_SESSIONS[i];
+    let specIndex = 0;
+    for (const block of session.blocks ?? []) {
+      while (specIndex < spec.blocks.length && spec.blocks[specIndex].area !== block.area) specIndex++;
+      if (specIndex === spec.blocks.length) return `session ${i + 1} has an unexpected ${block.area} block`;
+
+      const ids = Array.isArray(block.questionIds) ? block.questionIds : [];
+      if (ids.length === 0) return `session ${i + 1} has an empty ${block.area} block`;
+      const passages = new Set(ids.map((id) => questions.get(id)?.passage_id ?? null));
+      const lonePassage = passages.size === 1 && !passages.has(null);
+      if (ids.length > spec.blocks[specIndex].count && !lonePassage) {
+        return `session ${i + 1} has too many ${block.area} questions`;
+      }
+
+      for (const id of ids) {
+        if (seen.has(id)) return `question ${id} is drawn twice`;
+        seen.add(id);
+        // A question deleted since the draw is skipped by the grader, not a violation
+        const question = questions.get(id);
+        if (question && question.area !== block.area) return `question ${id} is not a ${block.area} question`;
+      }
+      specIndex++;
+    }
+  }
+  return seen.size > 0 ? null : "no questions";
+}
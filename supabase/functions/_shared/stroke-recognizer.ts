@@ -0,0 +1,586 @@
+// Offline recognizer for student whiteboard strokes.
+// Turns the freehand strokes DualWhiteboard exports into typed shapes
+// (circle, line, arrow, rect, triangle) with fitted parameters, and groups
+// small strokes into handwritten text (digits and + − × ÷ = / ( ) .) read with
+// the $P point-cloud recognizer (Vatavu, Anthony & Wobbrock, 2012).
+
+import type { StudentCommand } from "./validation-spec.ts";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface Stroke {
+  points: Point[];
+  box: Box;
+  size: number;
+}
+
+export interface RecognizerOptions {
+  // Strokes up to this size (px) are read as handwriting, larger ones as shapes.
+  // Use Infinity when the step only expects writing.
+  glyphMaxSize?: number;
+}
+
+const DEFAULT_GLYPH_MAX_SIZE = 80;
+const RESAMPLE_POINTS = 64;
+const DOT_MAX_SIZE = 6;
+const LINE_STRAIGHTNESS = 0.92;
+const CLOSED_GAP_RATIO = 0.25;
+const CORNER_WINDOW = 3;
+const CORNER_MIN_TURN = Math.PI / 4;
+const CIRCLE_MAX_DEVIATION = 0.22;
+const ARROW_HEAD_REACH = 30;
+
+// ---------------------------------------------------------------------------
+// Geometry helpers
+
+function dist(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function boundingBox(points: Point[]): Box {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+function unionBox(boxes: Box[]): Box {
+  return {
+    minX: Math.min(...boxes.map((b) => b.minX)),
+    minY: Math.min(...boxes.map((b) => b.minY)),
+    maxX: Math.max(...boxes.map((b) => b.maxX)),
+    maxY: Math.max(...boxes.map((b) => b.maxY)),
+  };
+}
+
+function boxCenter(box: Box): Point {
+  return { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 };
+}
+
+function pathLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += dist(points[i - 1], points[i]);
+  return length;
+}
+
+function resamplePath(points: Point[], n: number): Point[] {
+  const interval = pathLength(points) / (n - 1);
+  if (interval === 0) return Array.from({ length: n }, () => ({ ...points[0] }));
+
+  const src = points.map((p) => ({ ...p }));
+  const result: Point[] = [{ ...src[0] }];
+  let accumulated = 0;
+
+  for (let i = 1; i < src.length; i++) {
+    const d = dist(src[i - 1], src[i]);
+    if (accumulated + d >= interval && d > 0) {
+      const t = (interval - accumulated) / d;
+      const q = { x: src[i - 1].x + t * (src[i].x - src[i - 1].x), y: src[i - 1].y + t * (src[i].y - src[i - 1].y) };
+      result.push(q);
+      src.splice(i, 0, q);
+      accumulated = 0;
+    } else {
+      accumulated += d;
+    }
+  }
+
+  while (result.length < n) result.push({ ...src[src.length - 1] });
+  return result.slice(0, n);
+}
+
+function toStroke(points: Point[]): Stroke {
+  const box = boundingBox(points);
+  return { points, box, size: Math.max(box.maxX - box.minX, box.maxY - box.minY) };
+}
+
+function angleBetween(a: Point, b: Point, c: Point): number {
+  const a1 = Math.atan2(b.y - a.y, b.x - a.x);
+  const a2 = Math.atan2(c.y - b.y, c.x - b.x);
+  let diff = Math.abs(a2 - a1);
+  if (diff > Math.PI) diff = 2 * Math.PI - diff;
+  return diff;
+}
+
+// Indices where the path turns sharply (local maxima of the turning angle)
+function findCorners(points: Point[], closed: boolean): number[] {
+  const n = points.length;
+  const k = CORNER_WINDOW;
+  const turn = points.map((_, i) => {
+    if (!closed && (i < k || i >= n - k)) return 0;
+    const prev = points[(i - k + n) % n];
+    const next = points[(i + k) % n];
+    return angleBetween(prev, points[i], next);
+  });
+
+  const corners: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (turn[i] < CORNER_MIN_TURN) continue;
+    let isMax = true;
+    for (let j = -k; j <= k; j++) {
+      const idx = closed ? (i + j + n) % n : i + j;
+      if (j === 0 || idx < 0 || idx >= n) continue;
+      // Plateaus count once, at their first point
+      if (turn[idx] > turn[i] || (turn[idx] === turn[i] && j < 0)) {
+        isMax = false;
+        break;
+      }
+    }
+    if (isMax) corners.push(i);
+  }
+  return corners;
+}
+
+// ---------------------------------------------------------------------------
+// Shapes
+
+type RecognizedShape = StudentCommand & { type: "circle" | "line" | "arrow" | "rect" | "triangle" };
+
+function isStraight(stroke: Stroke): boolean {
+  const pts = stroke.points;
+  const length = pathLength(pts);
+  return length > 0 && dist(pts[0], pts[pts.length - 1]) / length >= LINE_STRAIGHTNESS;
+}
+
+function recognizeShape(stroke: Stroke): RecognizedShape | null {
+  const raw = stroke.points;
+  const start = raw[0];
+  const end = raw[raw.length - 1];
+  const { box } = stroke;
+  const diagonal = Math.hypot(box.maxX - box.minX, box.maxY - box.minY);
+
+  if (isStraight(stroke)) {
+    return { type: "line", x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+  }
+
+  const closed = dist(start, end) <= CLOSED_GAP_RATIO * diagonal;
+  const pts = resamplePath(closed ? [...raw, start] : raw, RESAMPLE_POINTS + (closed ? 1 : 0)).slice(0, RESAMPLE_POINTS);
+  const corners = findCorners(pts, closed);
+
+  if (!closed) {
+    return recognizeSingleStrokeArrow(pts, corners);
+  }
+
+  const center = {
+    x: pts.reduce((s, p) => s + p.x, 0) / pts.length,
+    y: pts.reduce((s, p) => s + p.y, 0) / pts.length,
+  };
+  const radii = pts.map((p) => dist(p, center));
+  const meanRadius = radii.reduce((s, r) => s + r, 0) / radii.length;
+  const deviation = Math.sqrt(radii.reduce((s, r) => s + (r - meanRadius) ** 2, 0) / radii.length) / (meanRadius || 1);
+
+  if (corners.length === 3) {
+    return {
+      type: "triangle",
+      x: center.x,
+      y: center.y,
+      points: corners.map((i) => ({ x: pts[i].x, y: pts[i].y })),
+    };
+  }
+  if (corners.length === 4 || corners.length === 5) {
+    return { type: "rect", x: box.minX, y: box.minY, width: box.maxX - box.minX, height: box.maxY - box.minY };
+  }
+  if (deviation <= CIRCLE_MAX_DEVIATION) {
+    return { type: "circle", x: center.x, y: center.y, radius: meanRadius };
+  }
+  return null;
+}
+
+// A shaft drawn in one go with the head at the end: one long segment, then a short hook
+function recognizeSingleStrokeArrow(pts: Point[], corners: number[]): RecognizedShape | null {
+  if (corners.length < 1 || corners.length > 3) return null;
+  const tip = pts[corners[0]];
+  const shaft = pathLength(pts.slice(0, corners[0] + 1));
+  const total = pathLength(pts);
+  const shaftIsStraight = dist(pts[0], tip) / (shaft || 1) >= LINE_STRAIGHTNESS;
+  const headStaysNearTip = pts.slice(corners[0]).every((p) => dist(p, tip) <= Math.max(ARROW_HEAD_REACH, shaft * 0.35));
+
+  if (shaftIsStraight && shaft >= total * 0.55 && headStaysNearTip) {
+    return { type: "arrow", x1: pts[0].x, y1: pts[0].y, x2: tip.x, y2: tip.y };
+  }
+  return null;
+}
+
+// A short "V" stroke whose apex sits on a line end turns that line into an arrow
+function attachArrowHead(line: RecognizedShape, head: Stroke): RecognizedShape | null {
+  const pts = resamplePath(head.points, 24);
+  const apexIndex = findCorners(pts, false)[0];
+  if (apexIndex === undefined) return null;
+  const apex = pts[apexIndex];
+
+  const from = { x: line.x1!, y: line.y1! };
+  const to = { x: line.x2!, y: line.y2! };
+  if (dist(apex, to) <= ARROW_HEAD_REACH) {
+    return { type: "arrow", x1: from.x, y1: from.y, x2: to.x, y2: to.y };
+  }
+  if (dist(apex, from) <= ARROW_HEAD_REACH) {
+    return { type: "arrow", x1: to.x, y1: to.y, x2: from.x, y2: from.y };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Handwriting: $P point-cloud recognizer
+
+interface CloudPoint extends Point {
+  id: number;
+}
+
+const CLOUD_SIZE = 32;
+const MAX_CLOUD_DISTANCE = 2.5;
+
+function arc(cx: number, cy: number, rx: number, ry: number, fromDeg: number, toDeg: number, steps = 16): Point[] {
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const a = ((fromDeg + ((toDeg - fromDeg) * i) / steps) * Math.PI) / 180;
+    return { x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) };
+  });
+}
+
+function pts(...coords: Array<[number, number]>): Point[] {
+  return coords.map(([x, y]) => ({ x, y }));
+}
+
+// Glyph templates in a 100x100 box (y grows downwards), several variants where
+// students commonly write a character differently. Digits are squeezed to
+// handwriting proportions when the clouds are built.
+const DIGIT_ASPECT = 0.65;
+
+const GLYPH_TEMPLATES: Array<{ char: string; strokes: Point[][] }> = [
+  { char: "0", strokes: [arc(50, 50, 30, 50, -90, 270, 24)] },
+  { char: "1", strokes: [pts([35, 20], [50, 0], [50, 100])] },
+  { char: "1", strokes: [pts([35, 20], [50, 0], [50, 100]), pts([30, 100], [70, 100])] },
+  { char: "2", strokes: [[...arc(50, 28, 32, 28, 180, 405), ...pts([15, 100], [85, 100])]] },
+  { char: "3", strokes: [[...arc(50, 25, 30, 25, 200, 450), ...arc(50, 75, 32, 25, 270, 520)]] },
+  { char: "4", strokes: [pts([55, 0], [10, 65], [85, 65]), pts([65, 30], [65, 100])] },
+  { char: "4", strokes: [pts([20, 0], [15, 60], [80, 60]), pts([65, 0], [65, 100])] },
+  { char: "5", strokes: [[...pts([80, 0], [25, 0], [22, 42]), ...arc(50, 68, 32, 30, 225, 510)]] },
+  { char: "5", strokes: [[...pts([25, 0], [22, 42]), ...arc(50, 68, 32, 30, 225, 510)], pts([25, 0], [80, 0])] },
+  { char: "6", strokes: [[...pts([70, 0], [40, 25]), ...arc(50, 70, 27, 30, 200, 560)]] },
+  { char: "7", strokes: [pts([10, 0], [90, 0], [35, 100])] },
+  { char: "7", strokes: [pts([10, 0], [90, 0], [35, 100]), pts([35, 50], [75, 50])] },
+  { char: "8", strokes: [[...arc(50, 25, 22, 25, 90, 450), ...arc(50, 75, 28, 25, 270, 630)]] },
+  { char: "9", strokes: [[...arc(45, 28, 28, 28, 0, 360), ...pts([73, 28], [70, 100])]] },
+  { char: "+", strokes: [pts([50, 10], [50, 90]), pts([10, 50], [90, 50])] },
+  { char: "=", strokes: [pts([10, 35], [90, 35]), pts([10, 65], [90, 65])] },
+  { char: "x", strokes: [pts([15, 15], [85, 85]), pts([85, 15], [15, 85])] },
+  { char: "÷", strokes: [pts([10, 50], [90, 50]), pts([50, 15], [52, 17]), pts([50, 85], [52, 87])] },
+  { char: "(", strokes: [arc(85, 50, 55, 55, 125, 235)] },
+  { char: ")", strokes: [arc(15, 50, 55, 55, -55, 55)] },
+];
+
+function toCloud(strokes: Point[][]): CloudPoint[] {
+  const points: CloudPoint[] = strokes.flatMap((stroke, id) => stroke.map((p) => ({ ...p, id })));
+  const length = strokes.reduce((s, stroke) => s + pathLength(stroke), 0);
+  const interval = length / (CLOUD_SIZE - 1);
+
+  let cloud: CloudPoint[];
+  if (interval === 0) {
+    cloud = Array.from({ length: CLOUD_SIZE }, () => ({ ...points[0] }));
+  } else {
+    const src = points.map((p) => ({ ...p }));
+    cloud = [{ ...src[0] }];
+    let accumulated = 0;
+    for (let i = 1; i < src.length; i++) {
+      if (src[i].id !== src[i - 1].id) continue;
+      const d = dist(src[i - 1], src[i]);
+      if (accumulated + d >= interval && d > 0) {
+        const t = (interval - accumulated) / d;
+        const q = {
+          x: src[i - 1].x + t * (src[i].x - src[i - 1].x),
+          y: src[i - 1].y + t * (src[i].y - src[i - 1].y),
+          id: src[i].id,
+        };
+        cloud.push(q);
+        src.splice(i, 0, q);
+        accumulated = 0;
+      } else {
+        accumulated += d;
+      }
+    }
+    while (cloud.length < CLOUD_SIZE) cloud.push({ ...src[src.length - 1] });
+    cloud = cloud.slice(0, CLOUD_SIZE);
+  }
+
+  // Uniform scale keeps the aspect ratio, so "1", "-" and "/" stay distinct
+  const box = boundingBox(cloud);
+  const size = Math.max(box.maxX - box.minX, box.maxY - box.minY) || 1;
+  const scaled = cloud.map((p) => ({ x: (p.x - box.minX) / size, y: (p.y - box.minY) / size, id: p.id }));
+  const cx = scaled.reduce((s, p) => s + p.x, 0) / scaled.length;
+  const cy = scaled.reduce((s, p) => s + p.y, 0) / scaled.length;
+  return scaled.map((p) => ({ x: p.x - cx, y: p.y - cy, id: p.id }));
+}
+
+const TEMPLATE_CLOUDS = GLYPH_TEMPLATES.map((t) => ({
+  char: t.char,
+  cloud: toCloud(
+    /\d/.test(t.char) ? t.strokes.map((stroke) => stroke.map((p) => ({ x: p.x * DIGIT_ASPECT, y: p.y }))) : t.strokes,
+  ),
+}));
+
+function cloudDistance(a: CloudPoint[], b: CloudPoint[], start: number): number {
+  const n = a.length;
+  const matched = new Array<boolean>(n).fill(false);
+  let sum = 0;
+  let i = start;
+  do {
+    let best = Infinity;
+    let bestIndex = -1;
+    for (let j = 0; j < n; j++) {
+      if (matched[j]) continue;
+      const d = dist(a[i], b[j]);
+      if (d < best) {
+        best = d;
+        bestIndex = j;
+      }
+    }
+    matched[bestIndex] = true;
+    const weight = 1 - ((i - start + n) % n) / n;
+    sum += weight * best;
+    i = (i + 1) % n;
+  } while (i !== start);
+  return sum;
+}
+
+function greedyCloudMatch(a: CloudPoint[], b: CloudPoint[]): number {
+  const step = Math.floor(Math.sqrt(a.length));
+  let min = Infinity;
+  for (let i = 0; i < a.length; i += step) {
+    min = Math.min(min, cloudDistance(a, b, i), cloudDistance(b, a, i));
+  }
+  return min;
+}
+
+// Straight single strokes are read from their angle, which is more reliable
+// than matching a cloud of collinear points
+function recognizeGlyph(strokes: Stroke[]): string {
+  const box = unionBox(strokes.map((s) => s.box));
+  const size = Math.max(box.maxX - box.minX, box.maxY - box.minY);
+  if (size <= DOT_MAX_SIZE) return ".";
+
+  if (strokes.length === 1 && isStraight(strokes[0])) {
+    const p = strokes[0].points;
+    const a = p[0];
+    const b = p[p.length - 1];
+    const angle = (Math.atan2(Math.abs(b.y - a.y), Math.abs(b.x - a.x)) * 180) / Math.PI;
+    if (angle < 25) return "-";
+    if (angle > 65) return "1";
+    // Going up to the right is "/", down to the right is a backslash we read as "1"
+    return (b.x - a.x) * (b.y - a.y) < 0 ? "/" : "1";
+  }
+
+  if (strokes.length === 2 && strokes.every(isStraight)) {
+    const flat = strokes.every((s) => s.box.maxY - s.box.minY < (s.box.maxX - s.box.minX) * 0.4);
+    if (flat) return "=";
+  }
+
+  const cloud = toCloud(strokes.map((s) => s.points));
+  let best = "?";
+  let bestDistance = Infinity;
+  for (const template of TEMPLATE_CLOUDS) {
+    const d = greedyCloudMatch(cloud, template.cloud);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = template.char;
+    }
+  }
+  return bestDistance <= MAX_CLOUD_DISTANCE ? best : "?";
+}
+
+// ---------------------------------------------------------------------------
+// Layout: strokes -> glyphs -> rows of text
+
+interface Glyph {
+  text: string;
+  box: Box;
+}
+
+function horizontalOverlap(a: Box, b: Box): number {
+  const overlap = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX);
+  const narrower = Math.min(a.maxX - a.minX, b.maxX - b.minX) || 1;
+  return overlap / narrower;
+}
+
+// Strokes that overlap horizontally belong to the same character ("+", "=", "4", "÷")
+function groupIntoCharacters(strokes: Stroke[]): Stroke[][] {
+  const sorted = [...strokes].sort((a, b) => a.box.minX - b.box.minX);
+  const groups: Stroke[][] = [];
+
+  for (const stroke of sorted) {
+    const group = groups.find((g) => {
+      const box = unionBox(g.map((s) => s.box));
+      const extent = Math.max(box.maxX - box.minX, box.maxY - box.minY, stroke.size, DOT_MAX_SIZE * 2);
+      const verticalGap = Math.max(stroke.box.minY - box.maxY, box.minY - stroke.box.maxY, 0);
+      return horizontalOverlap(box, stroke.box) > 0.3 && verticalGap < extent * 0.6;
+    });
+    if (group) group.push(stroke);
+    else groups.push([stroke]);
+  }
+  return groups;
+}
+
+function isFlatLine(stroke: Stroke): boolean {
+  const width = stroke.box.maxX - stroke.box.minX;
+  return isStraight(stroke) && stroke.box.maxY - stroke.box.minY < width * 0.25;
+}
+
+// A horizontal bar with writing above and below it is a fraction: read both
+// halves separately and join them as (num)/(den)
+function extractFractions(strokes: Stroke[]): { glyphs: Glyph[]; rest: Stroke[] } {
+  const glyphs: Glyph[] = [];
+  let rest = [...strokes];
+
+  const bars = strokes.filter(isFlatLine).sort((a, b) => (b.box.maxX - b.box.minX) - (a.box.maxX - a.box.minX));
+  for (const bar of bars) {
+    if (!rest.includes(bar)) continue;
+    const width = bar.box.maxX - bar.box.minX;
+    const barY = (bar.box.minY + bar.box.maxY) / 2;
+    const within = (s: Stroke) => {
+      const c = boxCenter(s.box);
+      return s !== bar && c.x >= bar.box.minX - width * 0.1 && c.x <= bar.box.maxX + width * 0.1;
+    };
+    const above = rest.filter((s) => within(s) && s.box.maxY <= barY && barY - s.box.maxY < width);
+    const below = rest.filter((s) => within(s) && s.box.minY >= barY && s.box.minY - barY < width);
+
+    if (above.some((s) => !isFlatLine(s)) && below.some((s) => !isFlatLine(s))) {
+      const numerator = readRows(above).map((g) => g.text).join(" ");
+      const denominator = readRows(below).map((g) => g.text).join(" ");
+      const parts = [...above, bar, ...below];
+      glyphs.push({ text: `(${numerator})/(${denominator})`, box: unionBox(parts.map((s) => s.box)) });
+      rest = rest.filter((s) => !parts.includes(s));
+    }
+  }
+
+  return { glyphs, rest };
+}
+
+// Glyphs -> one text item per row, left to right
+function readRows(strokes: Stroke[]): Glyph[] {
+  const { glyphs: fractions, rest } = extractFractions(strokes);
+  const glyphs: Glyph[] = [
+    ...fractions,
+    ...groupIntoCharacters(rest).map((group) => ({
+      text: recognizeGlyph(group),
+      box: unionBox(group.map((s) => s.box)),
+    })),
+  ];
+  if (glyphs.length === 0) return [];
+
+  const heights = glyphs.map((g) => g.box.maxY - g.box.minY).filter((h) => h > DOT_MAX_SIZE);
+  const lineHeight = heights.length > 0 ? heights.reduce((s, h) => s + h, 0) / heights.length : 20;
+
+  const rows: Glyph[][] = [];
+  for (const glyph of [...glyphs].sort((a, b) => boxCenter(a.box).y - boxCenter(b.box).y)) {
+    const row = rows.find((r) => Math.abs(boxCenter(unionBox(r.map((g) => g.box))).y - boxCenter(glyph.box).y) < lineHeight * 0.6);
+    if (row) row.push(glyph);
+    else rows.push([glyph]);
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.box.minX - b.box.minX);
+    let text = "";
+    row.forEach((glyph, i) => {
+      const gap = i > 0 ? glyph.box.minX - row[i - 1].box.maxX : 0;
+      text += (gap > lineHeight * 0.9 ? " " : "") + glyph.text;
+    });
+    return { text, box: unionBox(row.map((g) => g.box)) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+
+// Where a label near the shape should sit, and how far away it may be
+function labelAnchor(shape: RecognizedShape): { anchor: Point; reach: number } {
+  if (shape.type === "line" || shape.type === "arrow") {
+    const from = { x: shape.x1!, y: shape.y1! };
+    const to = { x: shape.x2!, y: shape.y2! };
+    return { anchor: { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }, reach: Math.max(40, dist(from, to) / 2) };
+  }
+  if (shape.type === "rect") {
+    return {
+      anchor: { x: shape.x! + shape.width! / 2, y: shape.y! + shape.height! / 2 },
+      reach: Math.max(shape.width!, shape.height!) / 2 + 40,
+    };
+  }
+  return { anchor: { x: shape.x!, y: shape.y! }, reach: (shape.radius ?? 40) + 40 };
+}
+
+// Each piece of text labels the closest shape within reach
+function assignLabels(shapes: RecognizedShape[], texts: Glyph[]): RecognizedShape[] {
+  const labels = shapes.map(() => [] as string[]);
+  const anchors = shapes.map(labelAnchor);
+
+  for (const text of texts) {
+    const center = boxCenter(text.box);
+    let best = -1;
+    let bestDistance = Infinity;
+    anchors.forEach(({ anchor, reach }, i) => {
+      const d = dist(center, anchor);
+      if (d <= reach && d < bestDistance) {
+        best = i;
+        bestDistance = d;
+      }
+    });
+    if (best !== -1) labels[best].push(text.text);
+  }
+
+  return shapes.map((shape, i) => (labels[i].length > 0 ? { ...shape, label: labels[i].join(" ") } : shape));
+}
+
+// Replace freehand strokes with what they look like. Commands that are already
+// typed pass through untouched, and strokes nobody can read stay as freehand.
+export function recognizeStudentCommands(
+  commands: StudentCommand[],
+  { glyphMaxSize = DEFAULT_GLYPH_MAX_SIZE }: RecognizerOptions = {},
+): StudentCommand[] {
+  const passthrough: StudentCommand[] = [];
+  const glyphStrokes: Stroke[] = [];
+  const shapeStrokes: Stroke[] = [];
+
+  for (const cmd of commands) {
+    if (cmd.type !== "freehand" || !cmd.points || cmd.points.length === 0) {
+      passthrough.push(cmd);
+      continue;
+    }
+    const stroke = toStroke(cmd.points);
+    (stroke.size <= glyphMaxSize ? glyphStrokes : shapeStrokes).push(stroke);
+  }
+
+  const shapes: RecognizedShape[] = [];
+  const unrecognized: Stroke[] = [];
+  for (const stroke of shapeStrokes) {
+    const shape = recognizeShape(stroke);
+    if (shape) shapes.push(shape);
+    else unrecognized.push(stroke);
+  }
+
+  // Arrow heads are small strokes, so they arrive with the handwriting
+  const remainingGlyphStrokes = glyphStrokes.filter((stroke) => {
+    for (let i = 0; i < shapes.length; i++) {
+      if (shapes[i].type !== "line") continue;
+      const arrow = attachArrowHead(shapes[i], stroke);
+      if (arrow) {
+        shapes[i] = arrow;
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const texts = readRows(remainingGlyphStrokes);
+  const labeledShapes = assignLabels(shapes, texts);
+
+  return [
+    ...passthrough,
+    ...labeledShapes,
+    ...texts.map((t) => ({ type: "text", x: boxCenter(t.box).x, y: boxCenter(t.box).y, text: t.text })),
+    ...unrecognized.map((s) => ({ type: "freehand", points: s.points })),
+  ];
+}
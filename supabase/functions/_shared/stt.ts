@@ -0,0 +1,141 @@
+// Shared speech-to-text access for edge functions.
+//
+// The backend is chosen with the STT_PROVIDER env var:
+//   - "elevenlabs" (default): ElevenLabs Scribe, needs ELEVENLABS_API_KEY
+//   - "stub": fixed transcript, no network or API key needed (local runs and tests)
+
+export type SttLanguageMode = "es" | "en" | "bridge";
+
+export interface SttRequest {
+  audio: Blob;
+  languageMode: SttLanguageMode;
+}
+
+export interface SttResult {
+  text: string;
+  // 0–1, how sure the backend is about the transcript
+  confidence: number;
+  // ISO 639 code detected or forced (e.g. "es", "en")
+  language: string | null;
+  provider: string;
+}
+
+export interface SttProvider {
+  name: string;
+  transcribe(request: SttRequest): Promise<SttResult>;
+}
+
+export class SttError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "SttError";
+  }
+}
+
+const ELEVENLABS_STT_URL = "https://api.elevenlabs.io/v1/speech-to-text";
+const ELEVENLABS_STT_MODEL = "scribe_v1";
+const STT_TIMEOUT_MS = 30000;
+
+// Bridge mode mixes both languages, so the language is left to auto-detection
+const ELEVENLABS_LANGUAGE_CODES: Record<SttLanguageMode, string | null> = {
+  es: "spa",
+  en: "eng",
+  bridge: null,
+};
+
+interface ScribeWord {
+  text: string;
+  type?: string;
+  logprob?: number;
+}
+
+function createElevenLabsProvider(): SttProvider {
+  const apiKey = Deno.env.get("ELEVENLABS_API_KEY");
+
+  return {
+    name: "elevenlabs",
+
+    async transcribe({ audio, languageMode }) {
+      if (!apiKey) {
+        throw new SttError("ElevenLabs API key no configurada", 500);
+      }
+
+      const form = new FormData();
+      form.append("file", audio, audio.type.includes("mp4") ? "audio.mp4" : "audio.webm");
+      form.append("model_id", ELEVENLABS_STT_MODEL);
+      form.append("tag_audio_events", "false");
+      const languageCode = ELEVENLABS_LANGUAGE_CODES[languageMode];
+      if (languageCode) form.append("language_code", languageCode);
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), STT_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(ELEVENLABS_STT_URL, {
+          method: "POST",
+          headers: { "xi-api-key": apiKey },
+          body: form,
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`❌ ElevenLabs STT error: ${response.status} - ${errorText}`);
+          throw new SttError(`ElevenLabs STT error: ${response.status}`, response.status === 429 ? 429 : 502);
+        }
+
+        const data = await response.json();
+        const words: ScribeWord[] = (data.words || []).filter((w: ScribeWord) => w.type === "word");
+        const wordProbabilities = words
+          .filter((w) => typeof w.logprob === "number")
+          .map((w) => Math.exp(w.logprob!));
+
+        const confidence =
+          wordProbabilities.length > 0
+            ? wordProbabilities.reduce((sum, p) => sum + p, 0) / wordProbabilities.length
+            : data.language_probability ?? 0;
+
+        return {
+          text: (data.text || "").trim(),
+          confidence: Math.round(confidence * 100) / 100,
+          language: data.language_code ? String(data.language_code).substring(0, 2) : null,
+          provider: "elevenlabs",
+        };
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          throw new SttError("La transcripción tardó demasiado", 504);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+function createStubProvider(): SttProvider {
+  return {
+    name: "stub",
+
+    async transcribe({ audio, languageMode }) {
+      const text =
+        languageMode === "en"
+          ? "This is a test voice message."
+          : "Esto es un mensaje de prueba transcrito por voz.";
+      console.log(`🧪 STT stub: ${audio.size} bytes, lang=${languageMode}`);
+      return { text, confidence: 1, language: languageMode === "en" ? "en" : "es", provider: "stub" };
+    },
+  };
+}
+
+export function getSttProvider(): SttProvider {
+  const name = (Deno.env.get("STT_PROVIDER") || "elevenlabs").toLowerCase();
+  if (name === "stub") return createStubProvider();
+  if (name !== "elevenlabs") {
+    console.warn(`⚠️ Unknown STT_PROVIDER "${name}", using elevenlabs`);
+  }
+  return createElevenLabsProvider();
+}
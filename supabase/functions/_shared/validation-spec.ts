@@ -0,0 +1,156 @@
+// Validation specs that tell validate-step how to grade a whiteboard step.
+// Shared so that anything generating steps produces specs validate-step understands.
+
+export const VALIDATION_TYPES = [
+  "shape_and_label_match",
+  "math_expression_match",
+  "structure_match",
+  "freeform_with_checks",
+  "hand_written_number_match",
+] as const;
+
+export type ValidationType = typeof VALIDATION_TYPES[number];
+
+export const CHECK_TYPES = ["contains_text", "has_drawing"] as const;
+
+export interface ValidationSpec {
+  type: ValidationType;
+  expectedShapes?: Array<{
+    type: string;
+    approxX: number;
+    approxY: number;
+    tolerancePx?: number;
+    labelRegex?: string;
+    relative?: boolean;
+  }>;
+  minMatches?: number;
+  expectedExpression?: string;
+  toleranceNumeric?: number;
+  expectedNumbers?: Array<{ value: number; tolerance: number }>;
+  allowPartialDetection?: boolean;
+  checks?: Array<{ checkType: string; regex?: string }>;
+  acceptanceThreshold?: number;
+}
+
+export interface StudentCommand {
+  type: string;
+  x?: number;
+  y?: number;
+  x1?: number;
+  y1?: number;
+  x2?: number;
+  y2?: number;
+  radius?: number;
+  width?: number;
+  height?: number;
+  label?: string;
+  text?: string;
+  color?: string;
+  points?: Array<{ x: number; y: number }>;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Returns the problems found in a spec (empty when validate-step can grade it).
+// Specs come from the LLM or from the database, so nothing is assumed about their shape.
+export function checkValidationSpec(value: unknown): string[] {
+  if (!value || typeof value !== "object") return ["spec must be an object"];
+  const spec = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!VALIDATION_TYPES.includes(spec.type as ValidationType)) {
+    return [`unknown type "${String(spec.type)}"`];
+  }
+
+  if (spec.acceptanceThreshold !== undefined) {
+    if (!isFiniteNumber(spec.acceptanceThreshold) || spec.acceptanceThreshold <= 0 || spec.acceptanceThreshold > 1) {
+      errors.push("acceptanceThreshold must be in (0, 1]");
+    }
+  }
+  if (spec.toleranceNumeric !== undefined && (!isFiniteNumber(spec.toleranceNumeric) || spec.toleranceNumeric < 0)) {
+    errors.push("toleranceNumeric must be a non-negative number");
+  }
+
+  switch (spec.type as ValidationType) {
+    case "shape_and_label_match": {
+      const shapes = spec.expectedShapes;
+      if (!Array.isArray(shapes) || shapes.length === 0) {
+        errors.push("expectedShapes must be a non-empty array");
+        break;
+      }
+      shapes.forEach((shape, i) => {
+        if (!shape || typeof shape !== "object") {
+          errors.push(`expectedShapes[${i}] must be an object`);
+          return;
+        }
+        if (typeof shape.type !== "string" || !shape.type) errors.push(`expectedShapes[${i}].type is required`);
+        if (!isFiniteNumber(shape.approxX) || !isFiniteNumber(shape.approxY)) {
+          errors.push(`expectedShapes[${i}] needs numeric approxX/approxY`);
+        }
+        if (shape.tolerancePx !== undefined && (!isFiniteNumber(shape.tolerancePx) || shape.tolerancePx <= 0)) {
+          errors.push(`expectedShapes[${i}].tolerancePx must be positive`);
+        }
+        if (shape.labelRegex !== undefined && (typeof shape.labelRegex !== "string" || !isValidRegex(shape.labelRegex))) {
+          errors.push(`expectedShapes[${i}].labelRegex is not a valid regex`);
+        }
+      });
+      if (spec.minMatches !== undefined) {
+        if (!Number.isInteger(spec.minMatches) || (spec.minMatches as number) < 1 || (spec.minMatches as number) > shapes.length) {
+          errors.push("minMatches must be between 1 and expectedShapes.length");
+        }
+      }
+      break;
+    }
+    case "math_expression_match":
+      if (typeof spec.expectedExpression !== "string" || !spec.expectedExpression.trim()) {
+        errors.push("expectedExpression is required");
+      }
+      break;
+    case "hand_written_number_match": {
+      const numbers = spec.expectedNumbers;
+      if (!Array.isArray(numbers) || numbers.length === 0) {
+        errors.push("expectedNumbers must be a non-empty array");
+        break;
+      }
+      numbers.forEach((n, i) => {
+        if (!n || !isFiniteNumber(n.value)) errors.push(`expectedNumbers[${i}].value must be a number`);
+        if (n && n.tolerance !== undefined && (!isFiniteNumber(n.tolerance) || n.tolerance < 0)) {
+          errors.push(`expectedNumbers[${i}].tolerance must be a non-negative number`);
+        }
+      });
+      break;
+    }
+    case "freeform_with_checks": {
+      const checks = spec.checks;
+      if (!Array.isArray(checks) || checks.length === 0) {
+        errors.push("checks must be a non-empty array");
+        break;
+      }
+      checks.forEach((check, i) => {
+        if (!check || !CHECK_TYPES.includes(check.checkType)) {
+          errors.push(`checks[${i}].checkType must be one of ${CHECK_TYPES.join(", ")}`);
+          return;
+        }
+        if (check.checkType === "contains_text" && (typeof check.regex !== "string" || !isValidRegex(check.regex))) {
+          errors.push(`checks[${i}].regex is required and must be a valid regex`);
+        }
+      });
+      break;
+    }
+    case "structure_match":
+      break;
+  }
+
+  return errors;
+}
@@ -52,40 +52,10 @@ serve(async (req) => {
 
     console.log('Starting cycle reset...');
 
-    // Get all students with balances
-    const { data: studentsWithCoins, error: coinsError } = await supabaseAdmin
-      .from('student_coins')
-      .select('student_id, balance')
-      .gt('balance', 0);
-
-    if (coinsError) {
-      throw new Error(`Failed to fetch coins: ${coinsError.message}`);
-    }
-
-    // Create reset transactions for each student
-    const resetTransactions = (studentsWithCoins || []).map(student => ({
-      student_id: student.student_id,
-      amount: -student.balance,
-      type: 'adjust',
-      reason: 'Reinicio de ciclo académico',
-      created_by_admin_id: user.id
-    }));
-
-    if (resetTransactions.length > 0) {
-      const { error: txError } = await supabaseAdmin
-        .from('coin_transactions')
-        .insert(resetTransactions);
-
-      if (txError) {
-        console.error('Transaction insert error:', txError);
-      }
-    }
-
-    // Reset all balances to 0
-    const { error: resetError } = await supabaseAdmin
-      .from('student_coins')
-      .update({ balance: 0 })
-      .neq('student_id', '00000000-0000-0000-0000-000000000000'); // Update all
+    // Zero every balance in one locked transaction, logged to the ledger as a reset
+    const { data: resetCount, error: resetError } = await supabaseAdmin.rpc('reset_coin_balances', {
+      _admin_id: user.id,
+    });
 
     if (resetError) {
       throw new Error(`Failed to reset balances: ${resetError.message}`);
@@ -106,7 +76,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
-        reset_count: studentsWithCoins?.length || 0,
+        reset_count: resetCount ?? 0,
         message: 'Academic cycle reset successfully'
       }),
       { 
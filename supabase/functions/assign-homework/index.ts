@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { chatCompletion, llmErrorResponse, parseJsonContent } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,14 +25,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!lovableApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -101,33 +94,14 @@ ${sessionSummary ? `Resumen de la sesión de tutoría:\n${sessionSummary}` : ''}
 
 Genera una tarea con ejercicios prácticos que el estudiante pueda resolver en papel y subir una foto.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-      }),
+    const { content: generatedText } = await chatCompletion({
+      task: 'homework.assign',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: 'Error generating homework' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiData = await response.json();
-    const generatedText = aiData.choices?.[0]?.message?.content;
-
     if (!generatedText) {
       return new Response(
         JSON.stringify({ error: 'No homework generated' }),
@@ -135,21 +109,11 @@ Genera una tarea con ejercicios prácticos que el estudiante pueda resolver en p
       );
     }
 
-    // Parse the JSON response
-    let homeworkData;
-    try {
-      const cleanedText = generatedText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      homeworkData = JSON.parse(cleanedText);
-    } catch (parseError) {
-      // If parsing fails, use the raw text as description
-      homeworkData = {
-        description: generatedText,
-        exercises_count: 4
-      };
-    }
+    // Parse the JSON response; if parsing fails, use the raw text as description
+    const homeworkData = parseJsonContent<{ description: string; exercises_count: number }>(generatedText) ?? {
+      description: generatedText,
+      exercises_count: 4
+    };
 
     // Calculate due date (2 days from now)
     const dueDate = new Date();
@@ -186,6 +150,10 @@ Genera una tarea con ejercicios prácticos que el estudiante pueda resolver en p
 
   } catch (error) {
     console.error('Error in assign-homework:', error);
+
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { chatCompletion, llmErrorResponse, parseJsonContent, type LlmMessage } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,14 +25,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!lovableApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -108,7 +101,7 @@ ${imageBase64 ? 'El estudiante ha subido una imagen de su trabajo. Analiza la im
 
 Proporciona una evaluación justa y constructiva.`;
 
-    const messages: any[] = [
+    const messages: LlmMessage[] = [
       { role: 'system', content: systemPrompt }
     ];
 
@@ -124,39 +117,9 @@ Proporciona una evaluación justa y constructiva.`;
       messages.push({ role: 'user', content: userPrompt });
     }
 
-    console.log('Calling Lovable AI Gateway for homework evaluation...');
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: messages,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limits exceeded' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: 'Error evaluating with AI' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    console.log('Calling AI provider for homework evaluation...');
 
-    const aiData = await response.json();
-    const generatedText = aiData.choices?.[0]?.message?.content;
+    const { content: generatedText } = await chatCompletion({ task: 'homework.evaluate', messages });
 
     if (!generatedText) {
       return new Response(
@@ -166,15 +129,9 @@ Proporciona una evaluación justa y constructiva.`;
     }
 
     // Parse the JSON response
-    let evalData;
-    try {
-      const cleanedText = generatedText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      evalData = JSON.parse(cleanedText);
-    } catch (parseError) {
-      console.error('Error parsing AI response:', parseError, generatedText);
+    let evalData = parseJsonContent<{ score?: number; feedback?: string; tips?: string[]; approved?: boolean }>(generatedText);
+    if (!evalData) {
+      console.error('Error parsing AI response:', generatedText);
       // Default to a passing grade if parsing fails
       evalData = {
         score: 75,
@@ -267,6 +224,10 @@ Proporciona una evaluación justa y constructiva.`;
 
   } catch (error) {
     console.error('Error in evaluate-homework:', error);
+
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
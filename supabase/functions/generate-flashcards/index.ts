@@ -0,0 +1,253 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { chatJson, llmErrorResponse } from "../_shared/llm.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type SourceType = "tutor_session" | "icfes_question" | "research_report";
+
+// Research reports live in the browser, so the client sends their key points
+interface ResearchReportInput {
+  id: string;
+  title: string;
+  keyPoints: string[];
+}
+
+interface RequestBody {
+  researchReports?: ResearchReportInput[];
+}
+
+interface CandidateSource {
+  type: SourceType;
+  id: string;
+  label: string;
+  content: string;
+}
+
+interface GeneratedCard {
+  source?: unknown;
+  kind?: unknown;
+  front?: unknown;
+  back?: unknown;
+}
+
+const KINDS = ["concept", "formula", "vocabulary", "cloze"];
+// Per run, so one generation stays a reviewable batch and a single LLM call
+const MAX_SOURCES = 12;
+const MAX_CARDS_PER_SOURCE = 3;
+const MAX_FIELD_LENGTH = 500;
+
+const SYSTEM_PROMPT = `Eres Nova, tutora de un colegio colombiano. Conviertes material de estudio de un estudiante en flashcards para repaso espaciado.
+
+Tipos de tarjeta:
+- "concept": pregunta sobre una idea o definición; el reverso la explica en una o dos frases.
+- "formula": pide una fórmula o su uso; escribe las fórmulas en LaTeX entre $...$.
+- "vocabulary": una palabra o expresión (por ejemplo en inglés) y su significado con un ejemplo corto.
+- "cloze": una frase clave con un hueco "____" en el frente; el reverso es lo que va en el hueco.
+
+Reglas:
+- Solo tarjetas sobre lo que el estudiante necesita recordar, nunca sobre la conversación en sí.
+- Cada tarjeta se entiende sola, sin el material original.
+- Como máximo ${MAX_CARDS_PER_SOURCE} tarjetas por fuente; si una fuente no tiene nada que valga la pena, no generes tarjetas para ella.
+- Frente y reverso breves (menos de 300 caracteres).
+
+Responde SOLO con JSON válido:
+{"cards": [{"source": "S1", "kind": "concept", "front": "...", "back": "..."}]}`;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function clip(text: string, max: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > max ? `${clean.substring(0, max)}…` : clean;
+}
+
+// The last turns of a tutor chat, which is where the worked-out ideas end up
+function sessionExcerpt(messages: unknown): string {
+  if (!Array.isArray(messages)) return "";
+  return messages
+    .filter((m) => m && (m.role === "user" || m.role === "assistant") && typeof m.content === "string")
+    .slice(-12)
+    .map((m) => `${m.role === "user" ? "Estudiante" : "Nova"}: ${clip(m.content, 300)}`)
+    .join("\n");
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = ((await req.json().catch(() => ({}))) ?? {}) as RequestBody;
+
+    // Sources already processed are not offered again, whether or not they gave candidates
+    const { data: seenRows, error: seenError } = await supabaseAdmin
+      .from("flashcard_sources")
+      .select("source_type, source_id")
+      .eq("student_id", user.id);
+    if (seenError) throw seenError;
+    const seen = new Set((seenRows || []).map((r) => `${r.source_type}:${r.source_id}`));
+
+    const sources: CandidateSource[] = [];
+    const addSource = (source: CandidateSource) => {
+      if (source.content && !seen.has(`${source.type}:${source.id}`)) sources.push(source);
+    };
+
+    const { data: sessions, error: sessionsError } = await supabaseAdmin
+      .from("tutor_sessions")
+      .select("id, skill, messages, created_at")
+      .eq("student_id", user.id)
+      .not("skill", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(10);
+    if (sessionsError) throw sessionsError;
+
+    for (const session of sessions || []) {
+      addSource({
+        type: "tutor_session",
+        id: session.id,
+        label: `Tutoría: ${session.skill} (${String(session.created_at).substring(0, 10)})`,
+        content: sessionExcerpt(session.messages),
+      });
+    }
+
+    // Wrong ICFES answers whose question explains the right one
+    const { data: misses, error: missesError } = await supabaseAdmin
+      .from("icfes_answers")
+      .select(
+        "question_id, icfes_questions!inner(id, area, competencia, enunciado, explicacion, respuesta_correcta, opcion_a, opcion_b, opcion_c, opcion_d)",
+      )
+      .eq("student_id", user.id)
+      .eq("is_correct", false)
+      .not("respuesta", "is", null)
+      .not("icfes_questions.explicacion", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(40);
+    if (missesError) throw missesError;
+
+    // The key of a question still in play in the Arena stays hidden until it is over
+    const { data: inPlayRows, error: inPlayError } = await supabaseAdmin.rpc("icfes_questions_in_play", {
+      _question_ids: [...new Set((misses || []).map((m) => m.question_id))],
+    });
+    if (inPlayError) throw inPlayError;
+    const inPlay = new Set<string>((inPlayRows as string[] | null) || []);
+
+    const questionIds = new Set<string>();
+    for (const miss of misses || []) {
+      const q = miss.icfes_questions as unknown as Record<string, string | null>;
+      if (questionIds.has(miss.question_id) || inPlay.has(miss.question_id)) continue;
+      questionIds.add(miss.question_id);
+      const correct = q[`opcion_${String(q.respuesta_correcta).toLowerCase()}`];
+      addSource({
+        type: "icfes_question",
+        id: miss.question_id,
+        label: `ICFES ${q.area}${q.competencia ? `: ${q.competencia}` : ""}`,
+        content: [
+          `Pregunta: ${clip(q.enunciado ?? "", 600)}`,
+          `Respuesta correcta: ${q.respuesta_correcta}${correct ? ` (${clip(correct, 200)})` : ""}`,
+          `Explicación: ${clip(q.explicacion ?? "", 600)}`,
+        ].join("\n"),
+      });
+    }
+
+    for (const report of Array.isArray(body.researchReports) ? body.researchReports : []) {
+      if (!report || typeof report.id !== "string" || !Array.isArray(report.keyPoints)) continue;
+      const points = report.keyPoints.filter((p) => typeof p === "string" && p.trim()).slice(0, 6);
+      addSource({
+        type: "research_report",
+        id: report.id.substring(0, 100),
+        label: `Informe: ${clip(String(report.title || "Sin título"), 80)}`,
+        content: points.map((p) => `- ${clip(p, 300)}`).join("\n"),
+      });
+    }
+
+    const batch = sources.slice(0, MAX_SOURCES);
+    if (batch.length === 0) {
+      return jsonResponse({ created: 0, sources: 0 });
+    }
+
+    const userPrompt = batch
+      .map((s, i) => `Fuente S${i + 1} (${s.label}):\n${s.content}`)
+      .join("\n\n");
+
+    const { data } = await chatJson<{ cards?: GeneratedCard[] }>({
+      task: "flashcards.generate",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: 0.4,
+    });
+
+    const perSource = new Map<number, number>();
+    const rows = (Array.isArray(data.cards) ? data.cards : []).flatMap((card) => {
+      const index = Number(String(card.source ?? "").replace(/^S/i, "")) - 1;
+      const source = batch[index];
+      if (!source || typeof card.front !== "string" || typeof card.back !== "string") return [];
+      if (!card.front.trim() || !card.back.trim()) return [];
+      const count = perSource.get(index) ?? 0;
+      if (count >= MAX_CARDS_PER_SOURCE) return [];
+      perSource.set(index, count + 1);
+
+      return [{
+        student_id: user.id,
+        source_type: source.type,
+        source_id: source.id,
+        source_label: source.label,
+        kind: KINDS.includes(card.kind as string) ? (card.kind as string) : "concept",
+        front: card.front.trim().substring(0, MAX_FIELD_LENGTH),
+        back: card.back.trim().substring(0, MAX_FIELD_LENGTH),
+      }];
+    });
+
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin.from("flashcard_candidates").insert(rows);
+      if (error) throw error;
+    }
+
+    const { error: sourcesError } = await supabaseAdmin.from("flashcard_sources").upsert(
+      batch.map((source, index) => ({
+        student_id: user.id,
+        source_type: source.type,
+        source_id: source.id,
+        candidates_created: perSource.get(index) ?? 0,
+      })),
+      { onConflict: "student_id,source_type,source_id", ignoreDuplicates: true },
+    );
+    if (sourcesError) throw sourcesError;
+
+    console.log(`Generated ${rows.length} flashcard candidates from ${batch.length} sources for ${user.id}`);
+
+    return jsonResponse({ created: rows.length, sources: batch.length });
+  } catch (error) {
+    console.error("Error in generate-flashcards:", error);
+
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
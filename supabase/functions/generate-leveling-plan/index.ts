@@ -1,12 +1,59 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { chatJson, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Output of the icfes_error_patterns RPC (see src/lib/icfesDiagnostics.ts)
+interface IcfesErrorPattern {
+  kind: 'distractor' | 'final_stretch' | 'long_statements' | 'second_guessing';
+  severity: 'alta' | 'media';
+  area?: string;
+  competencia?: string;
+  evidence: Record<string, number | null>;
+}
+
+// Plan subjects and the ICFES area whose competencias they cover
+const SUBJECT_ICFES_AREAS: Record<string, string> = {
+  'matemáticas': 'matematicas',
+  'física': 'ciencias',
+  'química': 'ciencias',
+  'biología': 'ciencias',
+  'ciencias': 'ciencias',
+  'lectura crítica': 'lectura_critica',
+  'español': 'lectura_critica',
+  'sociales': 'sociales',
+  'inglés': 'ingles',
+};
+
+// One line per pattern, with the numbers, for the prompt
+function describeIcfesPattern(p: IcfesErrorPattern): string {
+  const e = p.evidence;
+  switch (p.kind) {
+    case 'distractor':
+      return `Elige distractores en la competencia "${p.competencia}" (${p.area}): ${e.wrong} de ${e.answered} respuestas incorrectas, ${e.repeated} errores repetidos con la misma opción`;
+    case 'final_stretch':
+      return `Se queda sin tiempo al final de las pruebas: deja en blanco el ${e.blank_rate_last}% del último tercio (${e.blank_rate_rest}% antes), acierta ${e.accuracy_last}% frente a ${e.accuracy_rest}%`;
+    case 'long_statements':
+      return `Baja con enunciados largos (más de ${e.long_from_chars} caracteres): acierta ${e.accuracy_long}% frente a ${e.accuracy_short}% en el resto`;
+    case 'second_guessing':
+      return `Cambia respuestas correctas por incorrectas: ${e.correct_to_wrong} veces, contra ${e.wrong_to_correct} cambios que sí lo corrigieron`;
+  }
+}
+
+interface LevelingPlanResponse {
+  topic?: string;
+  goals?: string;
+  difficulty_level?: number;
+  total_sessions?: number;
+  weekly_plan?: unknown[];
+  recommended_sessions?: unknown[];
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -25,15 +72,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!lovableApiKey) {
-      console.error('LOVABLE_API_KEY is not configured');
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -82,6 +120,20 @@ serve(async (req) => {
       };
     });
 
+    // Recurring ICFES errors: patterns of this subject's area plus the ones that cut across areas
+    const { data: icfesDiagnosis, error: diagnosisError } = await supabase.rpc('icfes_error_patterns', {
+      _student_id: studentId,
+    });
+
+    if (diagnosisError) {
+      console.error('Error fetching ICFES error patterns:', diagnosisError);
+    }
+
+    const subjectArea = SUBJECT_ICFES_AREAS[String(subject).toLowerCase()];
+    const icfesPatterns = ((icfesDiagnosis?.patterns ?? []) as IcfesErrorPattern[]).filter(
+      (p) => p.kind !== 'distractor' || p.area === subjectArea
+    );
+
     // Create the AI prompt
     const systemPrompt = `Eres un experto en pedagogía y planificación educativa. Tu tarea es crear un plan de nivelación personalizado para un estudiante.
 
@@ -125,82 +177,31 @@ ${sessionAnalysis.length > 0
   : '- Sin sesiones previas registradas'
 }
 
+Errores recurrentes en sus prácticas ICFES (análisis de sus respuestas, prioridad entre paréntesis):
+${icfesPatterns.length > 0
+  ? icfesPatterns.map(p => `- (${p.severity}) ${describeIcfesPattern(p)}`).join('\n')
+  : '- Sin patrones de error detectados'
+}
+
 Por favor genera un plan estructurado que:
 1. Comience con los conceptos más básicos si el estudiante muestra dificultades
 2. Incluya 4 sesiones por semana (16 en total)
 3. Progrese gradualmente en dificultad
-4. Se enfoque en ${subject} con ejemplos prácticos`;
-
-    console.log('Calling Lovable AI Gateway for leveling plan generation...');
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-      }),
+4. Se enfoque en ${subject} con ejemplos prácticos
+5. Dedique sesiones concretas a corregir cada error recurrente de la lista, empezando por los de prioridad alta`;
+
+    console.log('Calling AI provider for leveling plan generation...');
+
+    const { data: planData } = await chatJson<LevelingPlanResponse>({
+      task: 'leveling-plan',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.7,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Límite de solicitudes excedido. Intenta de nuevo en unos minutos.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'Se requiere agregar créditos a la cuenta de Lovable AI.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: 'Error al generar el plan con IA' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiData = await response.json();
-    const generatedText = aiData.choices?.[0]?.message?.content;
-
-    if (!generatedText) {
-      console.error('No content in AI response');
-      return new Response(
-        JSON.stringify({ error: 'No se pudo generar el plan' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    console.log('AI Response received, parsing...');
-
-    // Parse the JSON response
-    let planData;
-    try {
-      // Remove markdown code blocks if present
-      const cleanedText = generatedText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      planData = JSON.parse(cleanedText);
-    } catch (parseError) {
-      console.error('Error parsing AI response:', parseError, generatedText);
-      return new Response(
-        JSON.stringify({ error: 'Error al procesar la respuesta de IA' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    console.log('AI Response received and parsed');
 
     // Calculate end date (4 weeks from now)
     const startDate = new Date();
@@ -252,6 +253,10 @@ Por favor genera un plan estructurado que:
 
   } catch (error) {
     console.error('Error in generate-leveling-plan:', error);
+
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Error desconocido' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
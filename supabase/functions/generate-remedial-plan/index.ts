@@ -1,12 +1,17 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { chatJson, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface RemedialPlanResponse {
+  weeks?: Array<{ week_number: number; topic: string; objectives: string }>;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -24,15 +29,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!lovableApiKey) {
-      console.error('LOVABLE_API_KEY is not configured');
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -116,69 +112,18 @@ ${programGoals ? `Objetivos del programa: ${programGoals}` : ''}
 El plan debe progresar desde los conceptos más fundamentales hasta aplicaciones más complejas, 
 considerando el currículo colombiano y estándares internacionales para esta materia y nivel.`;
 
-    console.log('Calling Lovable AI Gateway for remedial plan generation...');
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limits exceeded' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: 'Error generating plan with AI' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiData = await response.json();
-    const generatedText = aiData.choices?.[0]?.message?.content;
+    console.log('Calling AI provider for remedial plan generation...');
 
-    if (!generatedText) {
-      console.error('No content in AI response');
-      return new Response(
-        JSON.stringify({ error: 'No plan generated' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Parse the JSON response
-    let planData;
-    try {
-      const cleanedText = generatedText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      planData = JSON.parse(cleanedText);
-    } catch (parseError) {
-      console.error('Error parsing AI response:', parseError, generatedText);
-      return new Response(
-        JSON.stringify({ error: 'Error parsing AI response' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const { data: planData } = await chatJson<RemedialPlanResponse>({
+      task: 'remedial-plan',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+    });
 
     // Insert the weeks into remedial_program_weeks
-    const weeksToInsert = (planData.weeks || []).map((week: any) => ({
+    const weeksToInsert = (planData.weeks || []).map((week) => ({
       student_program_id: studentProgramId,
       week_number: week.week_number,
       topic: week.topic,
@@ -218,6 +163,10 @@ considerando el currículo colombiano y estándares internacionales para esta ma
 
   } catch (error) {
     console.error('Error in generate-remedial-plan:', error);
+
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,390 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { chatJson, llmErrorResponse, type LlmContentPart, type LlmMessage } from "../_shared/llm.ts";
+import { checkValidationSpec, VALIDATION_TYPES, type ValidationSpec } from "../_shared/validation-spec.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Either generate a new problem (grade/subject/skill, optional image)
+// or pass an existing sessionId to resume where the student stopped
+interface RequestBody {
+  sessionId?: string;
+  studentId?: string;
+  studentName?: string;
+  grade?: number;
+  subject?: string;
+  skill?: string;
+  problemText?: string;
+  imageBase64?: string;
+}
+
+// Same shape DualWhiteboard plays back
+interface StepDrawingCommand {
+  type: "circle" | "rect" | "line" | "arrow" | "text" | "freehand" | "clear";
+  x?: number;
+  y?: number;
+  x1?: number;
+  y1?: number;
+  x2?: number;
+  y2?: number;
+  radius?: number;
+  width?: number;
+  height?: number;
+  text?: string;
+  label?: string;
+  color?: string;
+  points?: Array<{ x: number; y: number }>;
+}
+
+interface TutorStep {
+  stepId: string;
+  stepIndex: number;
+  tutorText: string;
+  tutorDrawingCommands: StepDrawingCommand[];
+  validationSpec: ValidationSpec;
+  hintSequence: string[];
+  timeLimitSec?: number;
+}
+
+interface GeneratedStep {
+  tutorText?: unknown;
+  tutorDrawingCommands?: unknown;
+  validationSpec?: unknown;
+  hintSequence?: unknown;
+  timeLimitSec?: unknown;
+}
+
+interface GeneratedPlan {
+  problemText?: string;
+  steps?: GeneratedStep[];
+}
+
+interface StepProblem {
+  grade: number | null;
+  subject: string;
+  skill: string;
+  problemText: string;
+}
+
+const MIN_STEPS = 2;
+const MAX_STEPS = 8;
+const MAX_HINTS = 3;
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+const DRAWING_TYPES = ["circle", "rect", "line", "arrow", "text", "freehand", "clear"];
+const NUMERIC_FIELDS = ["x", "y", "x1", "y1", "x2", "y2", "radius", "width", "height"] as const;
+
+const STEPS_SYSTEM_PROMPT = `Eres Nova, tutora de un colegio colombiano. Diseñas problemas guiados paso a paso para resolver en un tablero digital de ${CANVAS_WIDTH}x${CANVAS_HEIGHT} px.
+
+Devuelve SOLO un JSON con esta forma:
+{
+  "problemText": "enunciado completo del problema",
+  "steps": [
+    {
+      "tutorText": "instrucción corta del paso, en segunda persona",
+      "tutorDrawingCommands": [ { "type": "text", "x": 400, "y": 80, "text": "..." } ],
+      "validationSpec": { ... },
+      "hintSequence": ["pista suave", "pista más directa", "casi la respuesta"],
+      "timeLimitSec": 120
+    }
+  ]
+}
+
+Reglas:
+- Entre ${MIN_STEPS} y ${MAX_STEPS} pasos, en orden; cada paso pide UNA acción que el estudiante hace en el tablero.
+- tutorDrawingCommands usa solo: circle (x, y, radius), rect (x, y, width, height), line/arrow (x1, y1, x2, y2), text (x, y, text). Coordenadas dentro del tablero.
+- validationSpec.type debe ser uno de: ${VALIDATION_TYPES.join(", ")}.
+  - shape_and_label_match: "expectedShapes": [{ "type": "circle|rect|triangle|line|arrow|text|any", "approxX", "approxY", "tolerancePx", "labelRegex"?, "relative"? }] (relative=true usa escala 0-100).
+  - math_expression_match: "expectedExpression" con la expresión esperada, p. ej. "2/4+1/4=3/4".
+  - hand_written_number_match: "expectedNumbers": [{ "value", "tolerance" }].
+  - freeform_with_checks: "checks": [{ "checkType": "contains_text", "regex" } | { "checkType": "has_drawing" }].
+- Las expresiones regulares deben ser válidas en JavaScript.
+- Exactamente ${MAX_HINTS} pistas por paso, de la más suave a la más directa, sin regalar la respuesta en la primera.
+- Lenguaje adecuado al grado del estudiante.`;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function sanitizeDrawingCommand(value: unknown): StepDrawingCommand | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (!DRAWING_TYPES.includes(raw.type as string)) return null;
+
+  const cmd: StepDrawingCommand = { type: raw.type as StepDrawingCommand["type"] };
+  for (const field of NUMERIC_FIELDS) {
+    const n = raw[field];
+    if (typeof n === "number" && Number.isFinite(n)) {
+      const max = field.startsWith("y") || field === "height" ? CANVAS_HEIGHT : CANVAS_WIDTH;
+      cmd[field] = Math.max(0, Math.min(max, n));
+    }
+  }
+  if (typeof raw.text === "string") cmd.text = raw.text.substring(0, 200);
+  if (typeof raw.label === "string") cmd.label = raw.label.substring(0, 50);
+  if (typeof raw.color === "string") cmd.color = raw.color;
+  if (Array.isArray(raw.points)) {
+    cmd.points = raw.points
+      .filter((p) => p && typeof p.x === "number" && typeof p.y === "number")
+      .map((p) => ({ x: p.x, y: p.y }));
+  }
+  return cmd;
+}
+
+// Turn the model output into TutorSteps. Steps whose spec validate-step could
+// not grade are reported instead of saved.
+function normalizePlan(plan: GeneratedPlan): { steps: TutorStep[]; problems: string[] } {
+  const steps: TutorStep[] = [];
+  const problems: string[] = [];
+
+  (Array.isArray(plan.steps) ? plan.steps : []).slice(0, MAX_STEPS).forEach((raw, i) => {
+    const label = `Paso ${i + 1}`;
+    if (typeof raw?.tutorText !== "string" || !raw.tutorText.trim()) {
+      problems.push(`${label}: falta tutorText`);
+      return;
+    }
+
+    const specErrors = checkValidationSpec(raw.validationSpec);
+    if (specErrors.length > 0) {
+      problems.push(`${label}: validationSpec inválido (${specErrors.join("; ")})`);
+      return;
+    }
+
+    const hints = Array.isArray(raw.hintSequence)
+      ? raw.hintSequence.filter((h): h is string => typeof h === "string" && h.trim().length > 0).slice(0, MAX_HINTS)
+      : [];
+    if (hints.length === 0) {
+      problems.push(`${label}: hintSequence vacío`);
+      return;
+    }
+
+    const stepIndex = steps.length;
+    steps.push({
+      stepId: `step_${stepIndex + 1}`,
+      stepIndex,
+      tutorText: raw.tutorText.trim(),
+      tutorDrawingCommands: Array.isArray(raw.tutorDrawingCommands)
+        ? raw.tutorDrawingCommands.map(sanitizeDrawingCommand).filter((c): c is StepDrawingCommand => c !== null)
+        : [],
+      validationSpec: raw.validationSpec as ValidationSpec,
+      hintSequence: hints,
+      timeLimitSec:
+        typeof raw.timeLimitSec === "number" && raw.timeLimitSec > 0 ? Math.round(raw.timeLimitSec) : undefined,
+    });
+  });
+
+  return { steps, problems };
+}
+
+async function generatePlan(
+  problem: Omit<StepProblem, "problemText"> & { problemText?: string },
+  imageBase64?: string,
+): Promise<{ problemText: string; steps: TutorStep[] }> {
+  const userText = [
+    `Grado: ${problem.grade ?? "no especificado"}`,
+    `Materia: ${problem.subject}`,
+    `Habilidad: ${problem.skill}`,
+    problem.problemText ? `Enunciado del estudiante: ${problem.problemText}` : "",
+    imageBase64
+      ? "El estudiante subió una foto de su problema: úsalo como enunciado."
+      : problem.problemText
+        ? "Usa el enunciado del estudiante tal como está."
+        : "Inventa un problema adecuado para practicar la habilidad.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const userContent: LlmContentPart[] = [{ type: "text", text: userText }];
+  if (imageBase64) {
+    const url = imageBase64.startsWith("data:") ? imageBase64 : `data:image/jpeg;base64,${imageBase64}`;
+    userContent.push({ type: "image_url", image_url: { url } });
+  }
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: STEPS_SYSTEM_PROMPT },
+    { role: "user", content: imageBase64 ? userContent : userText },
+  ];
+
+  const { data, response } = await chatJson<GeneratedPlan>({
+    task: "tutor.steps",
+    messages,
+    maxTokens: 4096,
+    temperature: 0.4,
+  });
+  let plan = data;
+  let { steps, problems } = normalizePlan(plan);
+
+  // One repair round: tell the model exactly what validate-step would reject
+  if (problems.length > 0) {
+    console.warn(`[generate-tutor-steps] Repairing plan: ${problems.join(" | ")}`);
+    const repaired = await chatJson<GeneratedPlan>({
+      task: "tutor.steps",
+      messages: [
+        ...messages,
+        { role: "assistant", content: response.content },
+        {
+          role: "user",
+          content: `Corrige estos problemas y devuelve el JSON completo otra vez:\n- ${problems.join("\n- ")}`,
+        },
+      ],
+      maxTokens: 4096,
+      temperature: 0.2,
+    });
+    const retry = normalizePlan(repaired.data);
+    if (retry.steps.length >= steps.length) {
+      plan = repaired.data;
+      ({ steps, problems } = retry);
+    }
+    if (problems.length > 0) {
+      console.warn(`[generate-tutor-steps] Dropping invalid steps: ${problems.join(" | ")}`);
+    }
+  }
+
+  const problemText = (typeof plan.problemText === "string" && plan.problemText.trim()) || problem.problemText || "";
+  if (steps.length < MIN_STEPS || !problemText) {
+    throw new Error("No se pudo generar un problema paso a paso válido. Intenta de nuevo.");
+  }
+
+  return { problemText, steps };
+}
+
+interface TutorStepRow {
+  step_id: string;
+  step_index: number;
+  tutor_text: string;
+  tutor_drawing_commands: unknown;
+  validation_spec: unknown;
+  hint_sequence: unknown;
+  time_limit_sec: number | null;
+}
+
+function stepFromRow(row: TutorStepRow): TutorStep {
+  return {
+    stepId: row.step_id,
+    stepIndex: row.step_index,
+    tutorText: row.tutor_text,
+    tutorDrawingCommands: (row.tutor_drawing_commands as StepDrawingCommand[]) || [],
+    validationSpec: row.validation_spec as ValidationSpec,
+    hintSequence: (row.hint_sequence as string[]) || [],
+    timeLimitSec: row.time_limit_sec ?? undefined,
+  };
+}
+
+// Resume at the first step without a passing attempt
+async function loadSession(supabase: ReturnType<typeof createClient>, sessionId: string) {
+  const [{ data: session }, { data: stepRows, error: stepsError }, { data: attempts }] = await Promise.all([
+    supabase.from("tutor_sessions").select("id, step_problem").eq("id", sessionId).maybeSingle(),
+    supabase.from("tutor_steps").select("*").eq("session_id", sessionId).order("step_index", { ascending: true }),
+    supabase.from("student_attempts").select("step_id").eq("session_id", sessionId).eq("passed", true),
+  ]);
+
+  if (stepsError) throw stepsError;
+  if (!session || !stepRows || stepRows.length === 0) return null;
+
+  const steps = (stepRows as TutorStepRow[]).map(stepFromRow);
+  const passed = new Set((attempts || []).map((a: { step_id: string }) => a.step_id));
+  const firstPending = steps.findIndex((step) => !passed.has(step.stepId));
+  const problem = (session.step_problem as StepProblem | null) || null;
+
+  return {
+    sessionId,
+    problemText: problem?.problemText || "",
+    skill: problem?.skill || null,
+    steps,
+    resumeStepIndex: firstPending === -1 ? steps.length : firstPending,
+    completed: firstPending === -1,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+    const { sessionId, studentId, studentName, grade, subject, skill, problemText, imageBase64 } = body;
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    if (sessionId) {
+      const existing = await loadSession(supabase, sessionId);
+      if (existing) {
+        console.log(`[generate-tutor-steps] Resuming session ${sessionId} at step ${existing.resumeStepIndex}`);
+        return jsonResponse(existing);
+      }
+    }
+
+    if (!studentId || !subject || (!skill && !imageBase64 && !problemText)) {
+      return jsonResponse({ error: "Missing required fields: studentId, subject and skill (or a problem image)" }, 400);
+    }
+
+    console.log(
+      `[generate-tutor-steps] Student: ${studentId}, Grade: ${grade ?? "?"}, Subject: ${subject}, Skill: ${skill || "-"}, Has image: ${!!imageBase64}`,
+    );
+
+    const problem = { grade: grade ?? null, subject, skill: skill || subject, problemText };
+    const plan = await generatePlan(problem, imageBase64);
+    const stepProblem: StepProblem = { ...problem, problemText: plan.problemText };
+
+    let currentSessionId = sessionId;
+    if (currentSessionId) {
+      await supabase.from("tutor_sessions").update({ step_problem: stepProblem }).eq("id", currentSessionId);
+    } else {
+      const { data: session, error: sessionError } = await supabase
+        .from("tutor_sessions")
+        .insert({
+          student_id: studentId,
+          student_name: studentName || null,
+          age_group: !grade || grade <= 5 ? "PRIMARY" : "HIGHSCHOOL",
+          skill: stepProblem.skill,
+          step_problem: stepProblem,
+          messages: [],
+          status_timeline: [],
+        })
+        .select("id")
+        .single();
+
+      if (sessionError || !session) throw sessionError || new Error("Could not create session");
+      currentSessionId = session.id;
+    }
+
+    const { error: insertError } = await supabase.from("tutor_steps").insert(
+      plan.steps.map((step) => ({
+        session_id: currentSessionId,
+        step_id: step.stepId,
+        step_index: step.stepIndex,
+        tutor_text: step.tutorText,
+        tutor_drawing_commands: step.tutorDrawingCommands,
+        validation_spec: step.validationSpec,
+        hint_sequence: step.hintSequence,
+        time_limit_sec: step.timeLimitSec ?? null,
+      })),
+    );
+    if (insertError) throw insertError;
+
+    console.log(`[generate-tutor-steps] Saved ${plan.steps.length} steps for session ${currentSessionId}`);
+
+    return jsonResponse({
+      sessionId: currentSessionId,
+      problemText: plan.problemText,
+      skill: stepProblem.skill,
+      steps: plan.steps,
+      resumeStepIndex: 0,
+      completed: false,
+    });
+  } catch (error) {
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
+    console.error("[generate-tutor-steps] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
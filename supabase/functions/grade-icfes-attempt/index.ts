@@ -0,0 +1,350 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { blueprintViolation, type DrawnSession } from "../_shared/saber11.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// E–H are only valid for English matching questions, whose choices come from the passage
+const LETTERS = ["A", "B", "C", "D", "E", "F", "G", "H"];
+const PRACTICE_MODES = ["practica", "area"];
+// A practice session is short; a simulacro has at most the blueprint's 254 questions
+const MAX_PRACTICE_ANSWERS = 100;
+const MAX_ANSWERS = 300;
+// Per-question time is client-measured; cap it so a tab left open doesn't inflate the totals
+const MAX_SECONDS_PER_QUESTION = 60 * 60;
+// Slack past a simulacro's time limit for the last save and the grading request to arrive
+const DEADLINE_GRACE_SECONDS = 5 * 60;
+// Saber 11 weights, as in src/lib/icfesScoring.ts: the global is the weighted mean of the areas times five
+const AREA_WEIGHTS: Record<string, number> = {
+  matematicas: 3,
+  lectura_critica: 3,
+  ciencias: 3,
+  sociales: 3,
+  ingles: 1,
+};
+
+interface SubmittedAnswer {
+  questionId: string;
+  respuesta: string | null;
+  timeSpentSeconds?: number;
+  // Options picked before the final one, oldest first
+  previousAnswers?: string[];
+}
+
+interface RequestBody {
+  // Grade an open attempt (simulacro) ...
+  attemptId?: string;
+  // ... or a practice session that is recorded now
+  mode?: string;
+  areas?: string[];
+  startedAt?: string;
+  answers: SubmittedAnswer[];
+}
+
+interface GradedQuestion {
+  id: string;
+  area: string;
+  passage_id: string | null;
+  is_active: boolean;
+  respuesta_correcta: string;
+  explicacion: string | null;
+}
+
+function weightedGlobal(scoresByArea: Record<string, number>): number {
+  let weighted = 0;
+  let weights = 0;
+  for (const [area, score] of Object.entries(scoresByArea)) {
+    const weight = AREA_WEIGHTS[area] ?? 0;
+    weighted += score * weight;
+    weights += weight;
+  }
+  return weights > 0 ? Math.round((weighted / weights) * 5) : 0;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = (await req.json()) as RequestBody;
+    if (!Array.isArray(body.answers)) {
+      return jsonResponse({ error: "answers is required" }, 400);
+    }
+    if (body.answers.length > MAX_ANSWERS) {
+      return jsonResponse({ error: "Too many answers" }, 400);
+    }
+
+    // Last answer wins if a question is sent twice
+    const submitted = new Map<string, SubmittedAnswer>();
+    for (const answer of body.answers) {
+      if (answer && typeof answer.questionId === "string") submitted.set(answer.questionId, answer);
+    }
+
+    let attemptId = body.attemptId ?? null;
+    let mode: string;
+    // Timed sections in order: the simulacro sessions, or the practice as a single one
+    let sections: string[][];
+    let drawn: DrawnSession[] | null = null;
+    // A simulacro graded after its time limit is closed without a result
+    let late = false;
+
+    if (attemptId) {
+      const { data: attempt, error: attemptError } = await supabaseAdmin
+        .from("icfes_attempts")
+        .select("id, student_id, mode, status, started_at, time_limit_seconds")
+        .eq("id", attemptId)
+        .maybeSingle();
+
+      if (attemptError) throw attemptError;
+      if (!attempt || attempt.student_id !== user.id) {
+        return jsonResponse({ error: "Attempt not found" }, 404);
+      }
+      if (attempt.status !== "in_progress") {
+        return jsonResponse({ error: "Attempt is not open" }, 409);
+      }
+      mode = attempt.mode;
+
+      // A simulacro is graded over the questions start-icfes-simulacro drew, never over what the
+      // client saved in progress: unanswered ones count as wrong, answers outside the set are ignored
+      const { data: questionSet, error: setError } = await supabaseAdmin
+        .from("icfes_attempt_question_sets")
+        .select("sessions")
+        .eq("attempt_id", attemptId)
+        .maybeSingle();
+      if (setError) throw setError;
+      if (mode !== "full" || !questionSet) {
+        return jsonResponse({ error: "Attempt has no question set" }, 409);
+      }
+      drawn = questionSet.sessions as DrawnSession[];
+      sections = drawn.map((session) => (session.blocks ?? []).flatMap((block) => block.questionIds ?? []));
+
+      if (attempt.time_limit_seconds) {
+        const deadline =
+          new Date(attempt.started_at).getTime() + (attempt.time_limit_seconds + DEADLINE_GRACE_SECONDS) * 1000;
+        late = Date.now() > deadline;
+      }
+    } else {
+      if (!body.mode || !PRACTICE_MODES.includes(body.mode)) {
+        return jsonResponse({ error: "mode must be practica or area when no attemptId is given" }, 400);
+      }
+      if (submitted.size > MAX_PRACTICE_ANSWERS) {
+        return jsonResponse({ error: `A practice session has at most ${MAX_PRACTICE_ANSWERS} questions` }, 400);
+      }
+      mode = body.mode;
+      sections = [[...submitted.keys()]];
+    }
+
+    // Where each question sat, for the error-pattern diagnostics
+    const placement = new Map<string, { section: number; position: number }>();
+    sections.forEach((ids, i) => ids.forEach((id, position) => placement.set(id, { section: i + 1, position })));
+    const questionIds = [...placement.keys()];
+
+    if (questionIds.length === 0) {
+      return jsonResponse({ error: "No questions to grade" }, 400);
+    }
+
+    // Service role: inactive questions still grade attempts that drew them
+    const { data: questionRows, error: questionsError } = await supabaseAdmin
+      .from("icfes_questions")
+      .select("id, area, passage_id, is_active, respuesta_correcta, explicacion")
+      .in("id", questionIds);
+
+    if (questionsError) throw questionsError;
+    const questions = new Map(((questionRows || []) as GradedQuestion[]).map((q) => [q.id, q]));
+    if (drawn) {
+      const violation = blueprintViolation(drawn, questions);
+      if (violation) {
+        console.error(`Attempt ${attemptId} does not fit the Saber 11 blueprint: ${violation}`);
+        return jsonResponse({ error: "Attempt does not fit the simulacro blueprint" }, 409);
+      }
+    } else {
+      // Practice gives the key back, so it only takes active questions, and never those of a
+      // simulacro the student still has open
+      const { data: lockedRows, error: lockedError } = await supabaseAdmin.rpc("icfes_questions_in_open_simulacro", {
+        _student_id: user.id,
+        _question_ids: [...questions.keys()],
+      });
+      if (lockedError) throw lockedError;
+      const locked = new Set((lockedRows || []) as string[]);
+      for (const [id, question] of questions) {
+        if (!question.is_active || locked.has(id)) questions.delete(id);
+      }
+    }
+    const graded = questionIds.filter((id) => questions.has(id));
+    if (graded.length === 0) {
+      return jsonResponse({ error: "Questions not found" }, 400);
+    }
+
+    const byArea = new Map<string, { correct: number; total: number }>();
+    let correct = 0;
+    let totalTime = 0;
+    const answerRows = graded.map((id) => {
+      const question = questions.get(id)!;
+      const answer = submitted.get(id);
+      const respuesta = answer?.respuesta && LETTERS.includes(answer.respuesta) ? answer.respuesta : null;
+      const isCorrect = respuesta === question.respuesta_correcta;
+      const seconds = Math.min(MAX_SECONDS_PER_QUESTION, Math.max(0, Math.round(Number(answer?.timeSpentSeconds) || 0)));
+      const previous = Array.isArray(answer?.previousAnswers)
+        ? answer.previousAnswers.filter((letter) => LETTERS.includes(letter)).slice(-LETTERS.length)
+        : [];
+
+      const area = byArea.get(question.area) ?? { correct: 0, total: 0 };
+      area.total += 1;
+      if (isCorrect) {
+        area.correct += 1;
+        correct += 1;
+      }
+      byArea.set(question.area, area);
+      totalTime += seconds;
+
+      return { questionId: id, respuesta, isCorrect, seconds, previous, ...placement.get(id)! };
+    });
+
+    const scoresByArea = Object.fromEntries(
+      [...byArea].map(([area, s]) => [area, Math.round((s.correct / s.total) * 100)]),
+    );
+    const scoreGlobal = Math.round((correct / graded.length) * 100);
+    const completedAt = new Date().toISOString();
+
+    const isPractice = !attemptId;
+    if (isPractice) {
+      const { data, error } = await supabaseAdmin
+        .from("icfes_attempts")
+        .insert({
+          student_id: user.id,
+          mode,
+          areas: Array.isArray(body.areas) && body.areas.length > 0 ? body.areas : [...byArea.keys()],
+          total_questions: graded.length,
+          status: "completed",
+          started_at: body.startedAt ?? completedAt,
+          completed_at: completedAt,
+          score_global: scoreGlobal,
+          scores_by_area: scoresByArea,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+      attemptId = data.id;
+    }
+
+    const { error: answersError } = await supabaseAdmin.from("icfes_answers").upsert(
+      answerRows.map((a) => ({
+        attempt_id: attemptId,
+        question_id: a.questionId,
+        student_id: user.id,
+        respuesta: a.respuesta,
+        is_correct: a.isCorrect,
+        time_spent_seconds: a.seconds,
+        section: a.section,
+        position: a.position,
+        previous_respuestas: a.previous,
+      })),
+      { onConflict: "attempt_id,question_id" },
+    );
+    if (answersError) throw answersError;
+
+    // Only a simulacro finished in time gets a result (trends, leaderboard, coin rules)
+    if (mode === "full" && !late) {
+      const { error } = await supabaseAdmin.from("icfes_results").upsert(
+        {
+          attempt_id: attemptId,
+          student_id: user.id,
+          score_global: weightedGlobal(scoresByArea),
+          scores_by_subject: scoresByArea,
+          time_spent_seconds: totalTime,
+          completed_at: completedAt,
+        },
+        { onConflict: "attempt_id" },
+      );
+      if (error) throw error;
+    }
+
+    // Close the open attempt last, so a failed grading can be retried. A late one keeps its graded
+    // answers for practice stats but is closed as abandoned, without scores
+    if (!isPractice) {
+      const { error } = await supabaseAdmin
+        .from("icfes_attempts")
+        .update(
+          late
+            ? { status: "abandoned", completed_at: completedAt }
+            : {
+              status: "completed",
+              completed_at: completedAt,
+              total_questions: graded.length,
+              score_global: scoreGlobal,
+              scores_by_area: scoresByArea,
+            },
+        )
+        .eq("id", attemptId);
+      if (error) throw error;
+    }
+
+    const { error: statsError } = await supabaseAdmin.rpc("refresh_icfes_stats", { _student_id: user.id });
+    if (statsError) {
+      // The attempt is graded; stats catch up on the next one
+      console.error("Error refreshing icfes_stats:", statsError);
+    }
+
+    // Item difficulties for adaptive practice move with the new answers
+    const { error: calibrationError } = await supabaseAdmin.rpc("calibrate_icfes_questions", {
+      _question_ids: answerRows.filter((a) => a.respuesta !== null).map((a) => a.questionId),
+    });
+    if (calibrationError) {
+      console.error("Error calibrating icfes_questions:", calibrationError);
+    }
+
+    // Questions in an open Arena challenge or duel are graded, but their key stays on the server
+    const { data: inPlayRows, error: inPlayError } = await supabaseAdmin.rpc("icfes_questions_in_play", {
+      _question_ids: graded,
+    });
+    if (inPlayError) throw inPlayError;
+    const inPlay = new Set((inPlayRows || []) as string[]);
+
+    console.log(`Graded ICFES attempt ${attemptId} (${mode}): ${correct}/${graded.length}${late ? " after the time limit" : ""}`);
+
+    return jsonResponse({
+      attemptId,
+      counted: !late,
+      scoreGlobal,
+      scoresByArea,
+      correct,
+      total: graded.length,
+      answers: answerRows.map((a) => ({
+        questionId: a.questionId,
+        isCorrect: a.isCorrect,
+        respuestaCorrecta: inPlay.has(a.questionId) ? null : questions.get(a.questionId)!.respuesta_correcta,
+        explicacion: inPlay.has(a.questionId) ? null : questions.get(a.questionId)!.explicacion,
+      })),
+    });
+  } catch (error) {
+    console.error("Error in grade-icfes-attempt:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
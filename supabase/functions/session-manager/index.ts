@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -54,8 +55,7 @@ function computeOverallStatus(
 
 async function generateSessionNotes(
   supabase: any,
-  session: any,
-  apiKey: string
+  session: any
 ): Promise<string> {
   const messages = session.messages || [];
   const skill = session.skill || "General";
@@ -84,29 +84,18 @@ Genera un resumen profesional que incluya:
 Responde SOLO con el resumen, sin introducción ni explicación adicional.`;
 
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash-lite",
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 300,
-        temperature: 0.5,
-      }),
+    const { content } = await chatCompletion({
+      task: "session.notes",
+      model: "google/gemini-2.5-flash-lite",
+      messages: [
+        { role: "user", content: prompt }
+      ],
+      maxTokens: 300,
+      temperature: 0.5,
+      retries: 0,
     });
 
-    if (!response.ok) {
-      console.error('[session-manager] Notes generation failed:', await response.text());
-      return `Sesión de ${skill}. Estado: ${overallStatus === 'UNDERSTOOD' ? 'Comprendido' : overallStatus === 'CONFUSED' ? 'Necesita refuerzo' : 'Parcialmente comprendido'}.`;
-    }
-
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || `Sesión de ${skill}. Requiere seguimiento.`;
+    return content || `Sesión de ${skill}. Requiere seguimiento.`;
   } catch (error) {
     console.error('[session-manager] Notes generation error:', error);
     return `Sesión de ${skill}. Estado: ${overallStatus === 'UNDERSTOOD' ? 'Comprendido' : overallStatus === 'CONFUSED' ? 'Necesita refuerzo' : 'Parcialmente comprendido'}.`;
@@ -121,7 +110,6 @@ serve(async (req) => {
 
   const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
   const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-  const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
 
   if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
     return new Response(
@@ -244,7 +232,7 @@ serve(async (req) => {
       const overallStatus = computeOverallStatus(session.status_timeline);
 
       // Generate notes
-      const notes = await generateSessionNotes(supabase, session, LOVABLE_API_KEY!);
+      const notes = await generateSessionNotes(supabase, session);
 
       // Update session
       const { error: updateError } = await supabase
@@ -263,11 +251,30 @@ serve(async (req) => {
 
       console.log(`[session-manager] Session ${sessionId} ended. Status: ${overallStatus}`);
 
+      // Coins only go to the signed-in student who owns the session, for the first time it
+      // closes as understood; awarding never fails the request
+      let coinsAwarded = 0;
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (overallStatus === 'UNDERSTOOD' && session.overall_status !== 'UNDERSTOOD' && token) {
+        const { data: { user } } = await supabase.auth.getUser(token);
+        if (user && user.id === session.student_id) {
+          const { data: awarded, error: awardError } = await supabase.rpc('award_tutor_session_coins', {
+            _session_id: sessionId,
+          });
+          if (awardError) {
+            console.error('[session-manager] Coin award error:', awardError);
+          } else {
+            coinsAwarded = awarded ?? 0;
+          }
+        }
+      }
+
       return new Response(
         JSON.stringify({ 
           success: true, 
           overallStatus, 
-          notes 
+          notes,
+          coinsAwarded
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
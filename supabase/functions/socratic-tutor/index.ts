@@ -1,6 +1,16 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  chatCompletion,
+  llmErrorResponse,
+  openChatStream,
+  parseJsonContent,
+  type LlmContentPart,
+  type LlmMessage,
+  type LlmRequest,
+} from "../_shared/llm.ts";
+import { collectVariables, evaluateMath, parseMathExpression, splitEquationSides, type MathNode } from "../_shared/math-expression.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,6 +23,7 @@ interface ChatMessage {
   status?: string;
   skill?: string;
   timestamp?: string;
+  inputMode?: "text" | "voice";
 }
 
 interface RequestBody {
@@ -35,17 +46,56 @@ interface RequestBody {
   icfesScoresByArea?: Record<string, number>;
   icfesWeakTopics?: string[];
   icfesExamDate?: string;
+  // A practice question the student got wrong, to walk through it
+  icfesQuestion?: IcfesQuestionContext;
+  // Drill on one competencia, from the trainer's results
+  icfesDrill?: { area: string; competencia: string };
   // Classroom context
   classroomTaskText?: string;
   classroomSubject?: string;
   classroomResources?: string;
   // Session time
   sessionMinutesLeft?: number;
+  // Respond with server-sent events instead of a single JSON body
+  stream?: boolean;
+  // How the student produced this message (hands-free conversation sends "voice")
+  inputMode?: "text" | "voice";
+}
+
+interface IcfesQuestionContext {
+  area: string;
+  competencia?: string | null;
+  passage?: string | null;
+  enunciado: string;
+  options: Record<string, string>;
+  chosen: string | null;
+  correct: string;
+  explicacion?: string | null;
+}
+
+// Drawing command types (same shapes as src/lib/drawingCommands.ts)
+interface DrawingPoint {
+  x: number;
+  y: number;
 }
 
-// Drawing command types
 interface DrawingCommand {
-  type: "circle" | "line" | "arrow" | "text" | "rect" | "image" | "group";
+  type:
+    | "circle"
+    | "line"
+    | "arrow"
+    | "text"
+    | "rect"
+    | "image"
+    | "group"
+    | "polygon"
+    | "path"
+    | "axes"
+    | "plot"
+    | "numberline"
+    | "fraction"
+    | "angle"
+    | "latex";
   color?: string;
   label?: string;
   x?: number;
@@ -61,6 +111,35 @@ interface DrawingCommand {
   size?: number;
   url?: string;
   commands?: DrawingCommand[];
+  points?: DrawingPoint[];
+  fill?: string;
+  // axes / plot frame: canvas region and the math range it shows
+  xMin?: number;
+  xMax?: number;
+  yMin?: number;
+  yMax?: number;
+  xStep?: number;
+  yStep?: number;
+  grid?: boolean;
+  xLabel?: string;
+  yLabel?: string;
+  expression?: string;
+  from?: number;
+  to?: number;
+  segments?: DrawingPoint[][];
+  // numberline
+  min?: number;
+  max?: number;
+  step?: number;
+  marks?: number[];
+  // fraction
+  shape?: "bar" | "pie";
+  numerator?: number;
+  denominator?: number;
+  // angle
+  startAngle?: number;
+  endAngle?: number;
+  latex?: string;
 }
 
 const NOVA_SYSTEM_PROMPT = `Eres el PROFESOR VIRTUAL de Nova Schola, una plataforma colombiana de aprendizaje para colegios. 
@@ -540,6 +619,15 @@ Esquema de comandos:
 - arrow: { "type":"arrow", "x1":250, "y1":200, "x2":350, "y2":200, "color":"#95E1D3" }
 - text: { "type":"text", "x":300, "y":150, "text":"Ejemplo", "size":24, "color":"#FFE66D" }
 - rect: { "type":"rect", "x":50, "y":50, "width":100, "height":60, "color":"#4ECDC4", "label":"A" }
+- polygon: { "type":"polygon", "points":[{"x":100,"y":400},{"x":300,"y":400},{"x":200,"y":250}], "color":"#4ECDC4", "fill":"#4ECDC4", "label":"A" }
+- path: { "type":"path", "points":[{"x":100,"y":300},{"x":200,"y":250},{"x":300,"y":320}], "color":"#FFFFFF" }
+- axes: { "type":"axes", "x":100, "y":100, "width":400, "height":400, "xMin":-5, "xMax":5, "yMin":-5, "yMax":5, "xStep":1, "yStep":1, "grid":true, "xLabel":"x", "yLabel":"y" }
+- plot: { "type":"plot", "expression":"2x + 1", "x":100, "y":100, "width":400, "height":400, "xMin":-5, "xMax":5, "yMin":-5, "yMax":5, "color":"#FF6B6B", "label":"y = 2x + 1" }
+- numberline: { "type":"numberline", "x1":100, "x2":700, "y":300, "min":-5, "max":5, "step":1, "marks":[-2, 3] }
+- fraction: { "type":"fraction", "shape":"bar", "x":250, "y":250, "width":300, "height":50, "numerator":3, "denominator":4 }
+- fraction: { "type":"fraction", "shape":"pie", "x":400, "y":300, "radius":80, "numerator":2, "denominator":5 }
+- angle: { "type":"angle", "x":200, "y":400, "startAngle":0, "endAngle":60, "radius":40, "label":"60°" }
+- latex: { "type":"latex", "x":300, "y":100, "latex":"\\\\frac{a}{b} + \\\\sqrt{x}", "size":28 }
 
 Reglas:
 - Máximo 50 comandos
@@ -548,6 +636,10 @@ Reglas:
 - Usar colores vibrantes y contrastantes
 - Para primaria: formas simples y grandes
 - Para bachillerato: diagramas más técnicos
+- Funciones: usa axes y plot con el MISMO marco (x, y, width, height, xMin, xMax, yMin, yMax); "expression" solo en términos de x ("from"/"to" opcionales limitan el dominio)
+- Recta numérica: numberline; fracciones: fraction (bar o pie, denominador máximo 24)
+- Ángulos: angle, en grados y en sentido antihorario desde el eje x positivo
+- Fórmulas: latex en lugar de text
 
 Contexto a dibujar:`;
 
@@ -567,6 +659,8 @@ function buildSystemPrompt(
     icfesScoresByArea?: Record<string, number>;
     icfesWeakTopics?: string[];
     icfesExamDate?: string;
+    icfesQuestion?: IcfesQuestionContext;
+    icfesDrill?: { area: string; competencia: string };
     classroomTaskText?: string;
     classroomSubject?: string;
     sessionMinutesLeft?: number;
@@ -637,6 +731,11 @@ function buildSystemPrompt(
     hasContext = true;
   }
 
+  if (context.icfesDrill) {
+    contextBlock += `\n- Entrenamiento enfocado: competencia "${context.icfesDrill.competencia}" del área ${context.icfesDrill.area}. Es la competencia en la que más falló en su última práctica: propone preguntas tipo ICFES de esa competencia, una a la vez, y sube la dificultad a medida que acierte.`;
+    hasContext = true;
+  }
+
   if (context.classroomTaskText) {
     contextBlock += `\n- Tarea de Classroom: "${context.classroomTaskText}"`;
     hasContext = true;
@@ -656,9 +755,40 @@ function buildSystemPrompt(
     prompt += contextBlock;
   }
 
+  if (context.icfesQuestion) {
+    prompt += buildIcfesQuestionBlock(context.icfesQuestion);
+  }
+
   return prompt;
 }
 
+// The wrong answer being walked through: the tutor already knows the key, the student already saw it
+function buildIcfesQuestionBlock(question: IcfesQuestionContext): string {
+  const options = Object.entries(question.options)
+    .map(([letter, text]) => `${letter}. ${text}`)
+    .join("\n");
+
+  return `
+
+====================
+PREGUNTA ICFES A REVISAR
+====================
+Área: ${question.area}${question.competencia ? `\nCompetencia: ${question.competencia}` : ""}
+${question.passage ? `\nTexto de la pregunta:\n${question.passage}\n` : ""}
+Enunciado: ${question.enunciado}
+${options}
+
+El estudiante eligió: ${question.chosen ?? "no respondió"}
+Respuesta correcta: ${question.correct}${question.explicacion ? `\nExplicación del banco: ${question.explicacion}` : ""}
+
+Cómo acompañarlo:
+- El estudiante ya sabe cuál era la respuesta correcta; el objetivo es que entienda POR QUÉ.
+- Empieza preguntándole qué lo llevó a elegir su opción, sin juzgar.
+- Guíalo con preguntas cortas hasta que él mismo vea por qué su opción falla y la correcta funciona.
+- Señala la trampa típica de esa opción (lectura apresurada, dato irrelevante, cálculo incompleto…).
+- Cierra con una estrategia concreta para reconocer este tipo de pregunta en el examen.`;
+}
+
 function determineComprehensionStatus(
   userMessage: string,
   aiReply: string,
@@ -857,7 +987,23 @@ function sanitizeDrawingCommands(rawCommands: unknown): DrawingCommand[] {
   const commandsArray = rawCommands.length > 200 ? rawCommands.slice(0, 200) : rawCommands;
 
   const sanitized: DrawingCommand[] = [];
-  const validTypes = ["circle", "line", "arrow", "text", "rect", "image", "group"];
+  const validTypes = [
+    "circle",
+    "line",
+    "arrow",
+    "text",
+    "rect",
+    "image",
+    "group",
+    "polygon",
+    "path",
+    "axes",
+    "plot",
+    "numberline",
+    "fraction",
+    "angle",
+    "latex",
+  ];
 
   for (const cmd of commandsArray) {
     if (!cmd || typeof cmd !== "object" || !("type" in cmd)) continue;
@@ -914,11 +1060,170 @@ function validateCommand(cmd: DrawingCommand): DrawingCommand | null {
       if (nestedCommands.length === 0) return null;
       return { type: "group", commands: nestedCommands };
     }
+    case "polygon":
+    case "path": {
+      const points = validatePoints(cmd.points, cmd.type === "polygon" ? 3 : 2);
+      if (!points) return null;
+      const fill = cmd.type === "polygon" ? validateColor(cmd.fill) ?? undefined : undefined;
+      return { ...cmd, color, points, fill };
+    }
+    case "axes": {
+      const frame = validateFrame(cmd);
+      if (!frame) return null;
+      return {
+        ...cmd,
+        ...frame,
+        color,
+        xStep: tickStep(cmd.xStep, frame.xMax - frame.xMin),
+        yStep: tickStep(cmd.yStep, frame.yMax - frame.yMin),
+        grid: cmd.grid === true,
+        xLabel: validateLabel(cmd.xLabel),
+        yLabel: validateLabel(cmd.yLabel),
+      };
+    }
+    case "plot": {
+      const frame = validateFrame(cmd);
+      if (!frame || typeof cmd.expression !== "string" || cmd.expression.length > 100) return null;
+      const segments = samplePlot(cmd.expression, frame, cmd.from, cmd.to);
+      if (!segments) return null;
+      return { ...cmd, ...frame, color, segments };
+    }
+    case "numberline": {
+      if (!isValidCoord(cmd.x1, 800) || !isValidCoord(cmd.x2, 800) || cmd.x2! <= cmd.x1!) return null;
+      if (!isValidCoord(cmd.y, 600)) return null;
+      if (!isFiniteNumber(cmd.min) || !isFiniteNumber(cmd.max) || cmd.max <= cmd.min) return null;
+      const { min, max } = cmd;
+      const marks = Array.isArray(cmd.marks)
+        ? cmd.marks.filter((m): m is number => isFiniteNumber(m) && m >= min && m <= max).slice(0, 20)
+        : [];
+      return { ...cmd, color, step: tickStep(cmd.step, max - min), marks };
+    }
+    case "fraction": {
+      if (cmd.shape !== "bar" && cmd.shape !== "pie") return null;
+      if (!isValidCoord(cmd.x, 800) || !isValidCoord(cmd.y, 600)) return null;
+      const { numerator, denominator } = cmd;
+      if (!Number.isInteger(denominator) || denominator! < 1 || denominator! > 24) return null;
+      if (!Number.isInteger(numerator) || numerator! < 0 || numerator! > denominator!) return null;
+      if (cmd.shape === "bar") {
+        const width = typeof cmd.width === "number" ? clamp(cmd.width, 40, 800 - cmd.x!) : Math.min(300, 800 - cmd.x!);
+        const height = typeof cmd.height === "number" ? clamp(cmd.height, 20, 600 - cmd.y!) : Math.min(50, 600 - cmd.y!);
+        if (width <= 0 || height <= 0) return null;
+        return { ...cmd, color, width, height };
+      }
+      const radius = typeof cmd.radius === "number" ? clamp(cmd.radius, 20, 250) : 60;
+      return { ...cmd, color, radius };
+    }
+    case "angle": {
+      if (!isValidCoord(cmd.x, 800) || !isValidCoord(cmd.y, 600)) return null;
+      if (!isFiniteNumber(cmd.startAngle) || !isFiniteNumber(cmd.endAngle) || cmd.startAngle === cmd.endAngle) return null;
+      const radius = typeof cmd.radius === "number" ? clamp(cmd.radius, 10, 200) : 40;
+      return { ...cmd, color, radius };
+    }
+    case "latex": {
+      if (!isValidCoord(cmd.x, 800) || !isValidCoord(cmd.y, 600)) return null;
+      if (typeof cmd.latex !== "string" || cmd.latex.length === 0 || cmd.latex.length > 300) return null;
+      const size = typeof cmd.size === "number" ? clamp(cmd.size, 8, 72) : 24;
+      return { ...cmd, color, size, x: clamp(cmd.x!, 0, 800), y: clamp(cmd.y!, 0, 600) };
+    }
     default:
       return null;
   }
 }
 
+type PlotFrame = Required<Pick<DrawingCommand, "x" | "y" | "width" | "height" | "xMin" | "xMax" | "yMin" | "yMax">>;
+
+function isFiniteNumber(val: unknown): val is number {
+  return typeof val === "number" && Number.isFinite(val);
+}
+
+function validatePoints(raw: unknown, min: number): DrawingPoint[] | null {
+  if (!Array.isArray(raw) || raw.length < min) return null;
+  const points: DrawingPoint[] = [];
+  for (const p of raw.slice(0, 100)) {
+    if (!p || typeof p !== "object") return null;
+    const { x, y } = p as DrawingPoint;
+    if (!isValidCoord(x, 800) || !isValidCoord(y, 600)) return null;
+    points.push({ x, y });
+  }
+  return points;
+}
+
+function validateFrame(cmd: DrawingCommand): PlotFrame | null {
+  if (!isValidCoord(cmd.x, 800) || !isValidCoord(cmd.y, 600)) return null;
+  if (typeof cmd.width !== "number" || cmd.width < 20 || typeof cmd.height !== "number" || cmd.height < 20) return null;
+  if (!isFiniteNumber(cmd.xMin) || !isFiniteNumber(cmd.xMax) || cmd.xMax <= cmd.xMin) return null;
+  if (!isFiniteNumber(cmd.yMin) || !isFiniteNumber(cmd.yMax) || cmd.yMax <= cmd.yMin) return null;
+  return {
+    x: cmd.x!,
+    y: cmd.y!,
+    width: Math.min(cmd.width, 800 - cmd.x!),
+    height: Math.min(cmd.height, 600 - cmd.y!),
+    xMin: cmd.xMin,
+    xMax: cmd.xMax,
+    yMin: cmd.yMin,
+    yMax: cmd.yMax,
+  };
+}
+
+// Keep the requested tick step unless it would crowd the axis (> 50 ticks), then pick a round one
+function tickStep(step: unknown, range: number): number {
+  if (isFiniteNumber(step) && step > 0 && range / step <= 50) return step;
+  const rough = range / 10;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  return (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+}
+
+function validateLabel(label: unknown): string | undefined {
+  return typeof label === "string" && label.length > 0 ? label.slice(0, 20) : undefined;
+}
+
+const PLOT_SAMPLES = 200;
+
+// Sample y = f(x) into canvas points. The curve is split where f is undefined,
+// leaves the frame or jumps (asymptotes), so clients only draw polylines.
+function samplePlot(expression: string, frame: PlotFrame, from?: number, to?: number): DrawingPoint[][] | null {
+  let node: MathNode;
+  try {
+    // "y = 2x + 1" and "f(x) = 2x + 1" -> "2x + 1"
+    const sides = splitEquationSides(expression);
+    node = parseMathExpression(sides[sides.length - 1] ?? "");
+  } catch {
+    return null;
+  }
+  if ([...collectVariables(node)].some((name) => name !== "x")) return null;
+
+  const start = isFiniteNumber(from) ? Math.max(from, frame.xMin) : frame.xMin;
+  const end = isFiniteNumber(to) ? Math.min(to, frame.xMax) : frame.xMax;
+  if (end <= start) return null;
+
+  const toCanvasX = (x: number) => frame.x + ((x - frame.xMin) / (frame.xMax - frame.xMin)) * frame.width;
+  const toCanvasY = (y: number) => frame.y + frame.height - ((y - frame.yMin) / (frame.yMax - frame.yMin)) * frame.height;
+
+  const segments: DrawingPoint[][] = [];
+  let current: DrawingPoint[] = [];
+  const closeSegment = () => {
+    if (current.length >= 2) segments.push(current);
+    current = [];
+  };
+
+  for (let i = 0; i <= PLOT_SAMPLES; i++) {
+    const x = start + ((end - start) * i) / PLOT_SAMPLES;
+    const y = evaluateMath(node, { x });
+    if (!Number.isFinite(y) || y < frame.yMin || y > frame.yMax) {
+      closeSegment();
+      continue;
+    }
+    const point = { x: Math.round(toCanvasX(x) * 10) / 10, y: Math.round(toCanvasY(y) * 10) / 10 };
+    const previous = current[current.length - 1];
+    if (previous && Math.abs(point.y - previous.y) > frame.height * 0.8) closeSegment();
+    current.push(point);
+  }
+  closeSegment();
+
+  return segments.length > 0 ? segments.slice(0, 50) : null;
+}
+
 function isValidCoord(val: unknown, max: number): boolean {
   return typeof val === "number" && val >= 0 && val <= max;
 }
@@ -937,7 +1242,6 @@ function validateColor(color: unknown): string | null {
 async function generateDrawingCommands(
   reply: string,
   ageGroup: "PRIMARY" | "HIGHSCHOOL",
-  apiKey: string,
 ): Promise<DrawingCommand[]> {
   try {
     // Extract the drawing description from the reply
@@ -952,38 +1256,21 @@ Descripción del dibujo: ${drawDescription}
 
 Devuelve SOLO el array JSON, sin explicaciones.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 2048,
-        temperature: 0.3,
-      }),
+    // Drawings are optional: one attempt, and any failure just skips them
+    const { content } = await chatCompletion({
+      task: "tutor.drawing",
+      messages: [{ role: "user", content: prompt }],
+      maxTokens: 2048,
+      temperature: 0.3,
+      retries: 0,
     });
 
-    if (!response.ok) {
-      console.error("[generateDrawingCommands] AI request failed:", response.status);
-      return [];
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || "";
-
-    // Try to parse JSON from the response
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
+    const commands = parseJsonContent<unknown>(content);
+    if (!Array.isArray(commands)) {
       console.error("[generateDrawingCommands] No JSON array found in response");
       return [];
     }
 
-    const commands = JSON.parse(jsonMatch[0]);
     return sanitizeDrawingCommands(commands);
   } catch (error) {
     console.error("[generateDrawingCommands] Error:", error);
@@ -991,6 +1278,269 @@ Devuelve SOLO el array JSON, sin explicaciones.`;
   }
 }
 
+// ===== Turn completion (shared by JSON and streaming responses) =====
+
+type TutorStreamEvent = "reply" | "status" | "skill" | "whiteboard" | "drawing" | "done" | "error";
+
+type EmitTutorEvent = (event: TutorStreamEvent, data: unknown) => void;
+
+interface TutorTurnContext {
+  supabase: ReturnType<typeof createClient>;
+  ageGroup: "PRIMARY" | "HIGHSCHOOL";
+  userMessage: string;
+  chatHistory: ChatMessage[];
+  studentId: string;
+  studentName?: string;
+  sessionId?: string;
+  inputMode: "text" | "voice";
+  profileData: { tokens_used_this_month: number; token_allowance: number } | null;
+  // The request carried the student's own JWT, so the turn counts toward their tutoring streak
+  signedByStudent: boolean;
+}
+
+interface TutorTurnResult {
+  reply: string;
+  status: "UNDERSTOOD" | "PARTIAL" | "CONFUSED";
+  skill: string;
+  sessionId?: string;
+  messageId: string;
+  whiteboardEvents: Array<{ id: string; type: "clear" | "draw_text"; text?: string; x?: number; y?: number; color?: string }>;
+  drawingCommands?: DrawingCommand[];
+}
+
+const FALLBACK_REPLY = "Lo siento, no pude generar una respuesta. ¿Podrías intentar de nuevo?";
+
+// Analyze the finished reply, generate board content and persist the exchange.
+// `emit` receives each piece as soon as it is ready (no-op for JSON clients).
+async function completeTutorTurn(
+  reply: string,
+  ctx: TutorTurnContext,
+  emit: EmitTutorEvent = () => {},
+): Promise<TutorTurnResult> {
+  const { supabase, ageGroup, userMessage, chatHistory, studentId, studentName, sessionId, inputMode, profileData, signedByStudent } = ctx;
+
+  // Determine comprehension status
+  const status = determineComprehensionStatus(userMessage, reply, chatHistory);
+  emit("status", { status });
+
+  // Extract skill topic
+  const skill = extractSkillFromContext(userMessage, chatHistory, reply);
+  emit("skill", { skill });
+
+  console.log(`[socratic-tutor] Response generated. Status: ${status}, Skill: ${skill}`);
+
+  // Generate message ID for this response
+  const messageId = `msg_${crypto.randomUUID()}`;
+
+  // Build whiteboard events (legacy format for backward compatibility)
+  const boardText = buildBoardTextFromReply(reply, skill, ageGroup);
+  const whiteboardEvents: TutorTurnResult["whiteboardEvents"] = boardText
+    ? [
+        {
+          id: crypto.randomUUID(),
+          type: "clear",
+        },
+        {
+          id: crypto.randomUUID(),
+          type: "draw_text",
+          text: boardText,
+          x: 10,
+          y: 10,
+          color: "#8B5CF6",
+        },
+      ]
+    : [];
+
+  console.log(`[socratic-tutor] Whiteboard events generated: ${whiteboardEvents.length} events`);
+  if (whiteboardEvents.length > 0) {
+    emit("whiteboard", { whiteboardEvents });
+  }
+
+  // Check if drawing is needed
+  const needsDrawing = DRAWING_TRIGGER_REGEX.test(userMessage) || DRAWING_TRIGGER_REGEX.test(reply);
+  let drawingCommands: DrawingCommand[] = [];
+
+  if (needsDrawing) {
+    console.log(`[socratic-tutor] Drawing detected, generating commands...`);
+    drawingCommands = await generateDrawingCommands(reply, ageGroup);
+    console.log(`[socratic-tutor] Generated ${drawingCommands.length} drawing commands`);
+    if (drawingCommands.length > 0) {
+      emit("drawing", { drawingCommands });
+    }
+  }
+
+  // Create or update session in database
+  let currentSessionId = sessionId;
+
+  const newMessage = {
+    role: "user",
+    content: userMessage,
+    inputMode,
+    timestamp: new Date().toISOString(),
+  };
+
+  const newAssistantMessage = {
+    role: "assistant",
+    content: reply,
+    status,
+    skill,
+    messageId,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (!currentSessionId) {
+    const { data: sessionData, error: sessionError } = await supabase
+      .from("tutor_sessions")
+      .insert({
+        student_id: studentId,
+        student_name: studentName || studentId,
+        age_group: ageGroup,
+        messages: [newMessage, newAssistantMessage],
+        status_timeline: [{ status, timestamp: new Date().toISOString(), skill }],
+        skill,
+        is_active: true,
+      })
+      .select("id")
+      .single();
+
+    if (sessionError) {
+      console.error("[socratic-tutor] Session creation error:", sessionError);
+    } else {
+      currentSessionId = sessionData.id;
+      console.log(`[socratic-tutor] Created new session: ${currentSessionId}`);
+    }
+  } else {
+    const { data: existingSession } = await supabase
+      .from("tutor_sessions")
+      .select("messages, status_timeline")
+      .eq("id", currentSessionId)
+      .maybeSingle();
+
+    if (existingSession) {
+      const updatedMessages = [...(existingSession.messages || []), newMessage, newAssistantMessage];
+      const updatedTimeline = [
+        ...(existingSession.status_timeline || []),
+        { status, timestamp: new Date().toISOString(), skill },
+      ];
+
+      const { error: updateError } = await supabase
+        .from("tutor_sessions")
+        .update({
+          messages: updatedMessages,
+          status_timeline: updatedTimeline,
+          skill,
+        })
+        .eq("id", currentSessionId);
+
+      if (updateError) {
+        console.error("[socratic-tutor] Session update error:", updateError);
+      }
+    }
+  }
+
+  // Streaks are counted from tutor_activity_days, which only this function writes
+  if (signedByStudent && currentSessionId) {
+    const { error: activityError } = await supabase
+      .from("tutor_activity_days")
+      .upsert({ student_id: studentId }, { onConflict: "student_id,day", ignoreDuplicates: true });
+
+    if (activityError) {
+      console.error("[socratic-tutor] Failed to record tutor activity:", activityError);
+    }
+  }
+
+  // Persist drawing commands to database
+  if (drawingCommands.length > 0 && currentSessionId) {
+    const { error: drawingError } = await supabase
+      .from("tutor_drawings")
+      .insert({
+        session_id: currentSessionId,
+        message_id: messageId,
+        commands: drawingCommands,
+      });
+
+    if (drawingError) {
+      console.error("[socratic-tutor] Failed to save drawing:", drawingError);
+    } else {
+      console.log(`[socratic-tutor] Drawing saved for message ${messageId}`);
+    }
+  }
+
+  // Deduct token from allowance
+  if (profileData) {
+    const { error: tokenError } = await supabase
+      .from("student_profiles")
+      .update({
+        tokens_used_this_month: profileData.tokens_used_this_month + 1,
+      })
+      .eq("user_id", studentId);
+
+    if (tokenError) {
+      console.error("[socratic-tutor] Token update error:", tokenError);
+    } else {
+      console.log(
+        `[socratic-tutor] Token deducted. New usage: ${profileData.tokens_used_this_month + 1}/${profileData.token_allowance}`,
+      );
+    }
+  }
+
+  return {
+    reply,
+    status,
+    skill,
+    sessionId: currentSessionId,
+    messageId,
+    whiteboardEvents,
+    drawingCommands: drawingCommands.length > 0 ? drawingCommands : undefined,
+  };
+}
+
+// ===== Streaming (server-sent events) =====
+
+// Relay the reply text as it arrives, then the turn analysis, as SSE events.
+// If the student cuts Nova off (the client aborts the request), the turn is still
+// completed with the part of the reply generated so far, so it is saved and charged.
+function streamTutorTurn(replyDeltas: AsyncGenerator<string>, ctx: TutorTurnContext): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: EmitTutorEvent = (event, data) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        let reply = "";
+        for await (const delta of replyDeltas) {
+          if (cancelled) break;
+          reply += delta;
+          emit("reply", { delta });
+        }
+
+        if (!reply && !cancelled) {
+          reply = FALLBACK_REPLY;
+          emit("reply", { delta: reply });
+        }
+
+        console.log(`[socratic-tutor] AI stream ${cancelled ? "interrupted" : "finished"}, ${reply.length} chars`);
+
+        const result = await completeTutorTurn(reply, ctx, emit);
+        emit("done", result);
+      } catch (error) {
+        console.error("[socratic-tutor] Stream error:", error);
+        emit("error", { error: error instanceof Error ? error.message : "Error desconocido" });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -1016,26 +1566,30 @@ serve(async (req) => {
       icfesScoresByArea,
       icfesWeakTopics,
       icfesExamDate,
+      icfesQuestion,
+      icfesDrill,
       classroomTaskText,
       classroomSubject,
       sessionMinutesLeft,
+      stream = false,
+      inputMode,
     } = body;
 
+    const wantsStream = stream || (req.headers.get("accept") || "").includes("text/event-stream");
+
     console.log(
-      `[socratic-tutor] Student: ${studentId}, Age group: ${ageGroup}, Mode: ${mode}, Session: ${sessionId || "new"}, Has image: ${!!imageBase64}`,
+      `[socratic-tutor] Student: ${studentId}, Age group: ${ageGroup}, Mode: ${mode}, Session: ${sessionId || "new"}, Has image: ${!!imageBase64}, Stream: ${wantsStream}, Input: ${inputMode || "text"}`,
     );
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!LOVABLE_API_KEY) {
-      console.error("[socratic-tutor] LOVABLE_API_KEY is not configured");
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
 
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    const { data: { user: caller } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    const signedByStudent = !!caller && caller.id === studentId;
+
     // Check token allowance before proceeding
     const { data: profileData, error: profileError } = await supabase
       .from("student_profiles")
@@ -1114,13 +1668,15 @@ serve(async (req) => {
       icfesScoresByArea,
       icfesWeakTopics,
       icfesExamDate,
+      icfesQuestion,
+      icfesDrill,
       classroomTaskText,
       classroomSubject,
       sessionMinutesLeft,
     });
 
     // Build messages array for AI
-    const messages: any[] = [{ role: "system", content: systemPrompt }];
+    const messages: LlmMessage[] = [{ role: "system", content: systemPrompt }];
 
     // Add chat history
     for (const msg of chatHistory) {
@@ -1131,10 +1687,10 @@ serve(async (req) => {
     }
 
     // Build the final user message with optional image (for vision)
-    let userContent: any;
+    let userContent: string | LlmContentPart[];
 
     if (imageUrl || imageBase64) {
-      const contentParts: any[] = [];
+      const contentParts: LlmContentPart[] = [];
 
       if (userMessage) {
         contentParts.push({
@@ -1172,232 +1728,58 @@ serve(async (req) => {
       content: userContent,
     });
 
-    console.log(`[socratic-tutor] Sending request to Lovable AI (gemini-2.5-flash) with ${messages.length} messages`);
-
-    // Call Lovable AI Gateway
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: messages,
-        max_tokens: 1024,
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[socratic-tutor] AI Gateway error: ${response.status} - ${errorText}`);
-
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({
-            error: "Demasiadas solicitudes. Por favor, espera un momento e intenta de nuevo.",
-            code: "RATE_LIMITED",
-          }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-        );
-      }
-
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({
-            error: "Se agotaron los créditos de IA. Contacta al administrador.",
-            code: "PAYMENT_REQUIRED",
-          }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-        );
-      }
+    console.log(`[socratic-tutor] Sending request to AI provider with ${messages.length} messages`);
 
-      throw new Error(`AI Gateway error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const reply =
-      data.choices?.[0]?.message?.content || "Lo siento, no pude generar una respuesta. ¿Podrías intentar de nuevo?";
-
-    console.log(`[socratic-tutor] AI response received, tokens used: ${data.usage?.total_tokens || "N/A"}`);
-
-    // Determine comprehension status
-    const status = determineComprehensionStatus(userMessage, reply, chatHistory);
-
-    // Extract skill topic
-    const skill = extractSkillFromContext(userMessage, chatHistory, reply);
-
-    console.log(`[socratic-tutor] Response generated. Status: ${status}, Skill: ${skill}`);
-
-    // Generate message ID for this response
-    const messageId = `msg_${crypto.randomUUID()}`;
-
-    // Check if drawing is needed
-    const needsDrawing = DRAWING_TRIGGER_REGEX.test(userMessage) || DRAWING_TRIGGER_REGEX.test(reply);
-    let drawingCommands: DrawingCommand[] = [];
-
-    if (needsDrawing) {
-      console.log(`[socratic-tutor] Drawing detected, generating commands...`);
-      drawingCommands = await generateDrawingCommands(reply, ageGroup, LOVABLE_API_KEY);
-      console.log(`[socratic-tutor] Generated ${drawingCommands.length} drawing commands`);
-
-      // Persist drawing commands to database
-      if (drawingCommands.length > 0 && sessionId) {
-        const { error: drawingError } = await supabase
-          .from("tutor_drawings")
-          .insert({
-            session_id: sessionId,
-            message_id: messageId,
-            commands: drawingCommands,
-          });
-
-        if (drawingError) {
-          console.error("[socratic-tutor] Failed to save drawing:", drawingError);
-        } else {
-          console.log(`[socratic-tutor] Drawing saved for message ${messageId}`);
-        }
-      }
-    }
-
-    // Build whiteboard events (legacy format for backward compatibility)
-    const boardText = buildBoardTextFromReply(reply, skill, ageGroup);
-    const whiteboardEvents = boardText
-      ? [
-          {
-            id: crypto.randomUUID(),
-            type: "clear" as const,
-          },
-          {
-            id: crypto.randomUUID(),
-            type: "draw_text" as const,
-            text: boardText,
-            x: 10,
-            y: 10,
-            color: "#8B5CF6",
-          },
-        ]
-      : [];
-
-    console.log(`[socratic-tutor] Whiteboard events generated: ${whiteboardEvents.length} events`);
-
-    // Create or update session in database
-    let currentSessionId = sessionId;
-
-    const newMessage = {
-      role: "user",
-      content: userMessage,
-      timestamp: new Date().toISOString(),
+    const llmRequest: LlmRequest = {
+      task: "tutor.reply",
+      messages,
+      maxTokens: 1024,
+      temperature: 0.7,
     };
 
-    const newAssistantMessage = {
-      role: "assistant",
-      content: reply,
-      status,
-      skill,
-      messageId,
-      timestamp: new Date().toISOString(),
+    const turnContext: TutorTurnContext = {
+      supabase,
+      ageGroup,
+      userMessage,
+      chatHistory,
+      studentId,
+      studentName,
+      sessionId,
+      inputMode: inputMode === "voice" ? "voice" : "text",
+      profileData,
+      signedByStudent,
     };
 
-    if (!currentSessionId) {
-      const { data: sessionData, error: sessionError } = await supabase
-        .from("tutor_sessions")
-        .insert({
-          student_id: studentId,
-          student_name: studentName || studentId,
-          age_group: ageGroup,
-          messages: [newMessage, newAssistantMessage],
-          status_timeline: [{ status, timestamp: new Date().toISOString(), skill }],
-          skill,
-          is_active: true,
-        })
-        .select("id")
-        .single();
-
-      if (sessionError) {
-        console.error("[socratic-tutor] Session creation error:", sessionError);
-      } else {
-        currentSessionId = sessionData.id;
-        console.log(`[socratic-tutor] Created new session: ${currentSessionId}`);
-
-        // Save drawing with new session ID
-        if (drawingCommands.length > 0) {
-          const { error: drawingError } = await supabase
-            .from("tutor_drawings")
-            .insert({
-              session_id: currentSessionId,
-              message_id: messageId,
-              commands: drawingCommands,
-            });
-
-          if (drawingError) {
-            console.error("[socratic-tutor] Failed to save drawing:", drawingError);
-          }
-        }
-      }
-    } else {
-      const { data: existingSession } = await supabase
-        .from("tutor_sessions")
-        .select("messages, status_timeline")
-        .eq("id", currentSessionId)
-        .maybeSingle();
-
-      if (existingSession) {
-        const updatedMessages = [...(existingSession.messages || []), newMessage, newAssistantMessage];
-        const updatedTimeline = [
-          ...(existingSession.status_timeline || []),
-          { status, timestamp: new Date().toISOString(), skill },
-        ];
-
-        const { error: updateError } = await supabase
-          .from("tutor_sessions")
-          .update({
-            messages: updatedMessages,
-            status_timeline: updatedTimeline,
-            skill,
-          })
-          .eq("id", currentSessionId);
-
-        if (updateError) {
-          console.error("[socratic-tutor] Session update error:", updateError);
-        }
-      }
+    if (wantsStream) {
+      // Opening the stream can still fail with a plain JSON error (rate limit, credits...)
+      const llmStream = await openChatStream(llmRequest);
+      console.log(`[socratic-tutor] Streaming response to client`);
+      return new Response(streamTutorTurn(llmStream.deltas, turnContext), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
     }
 
-    // Deduct token from allowance
-    if (profileData) {
-      const { error: tokenError } = await supabase
-        .from("student_profiles")
-        .update({
-          tokens_used_this_month: profileData.tokens_used_this_month + 1,
-        })
-        .eq("user_id", studentId);
+    const { content, usage } = await chatCompletion(llmRequest);
+    const reply = content || FALLBACK_REPLY;
 
-      if (tokenError) {
-        console.error("[socratic-tutor] Token update error:", tokenError);
-      } else {
-        console.log(
-          `[socratic-tutor] Token deducted. New usage: ${profileData.tokens_used_this_month + 1}/${profileData.token_allowance}`,
-        );
-      }
-    }
+    console.log(`[socratic-tutor] AI response received, tokens used: ${usage.totalTokens}`);
+
+    const result = await completeTutorTurn(reply, turnContext);
 
     // Return response with drawing commands
-    return new Response(
-      JSON.stringify({
-        reply,
-        status,
-        skill,
-        sessionId: currentSessionId,
-        messageId,
-        whiteboardEvents,
-        drawingCommands: drawingCommands.length > 0 ? drawingCommands : undefined,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
   } catch (error) {
     console.error("[socratic-tutor] Error:", error);
 
+    const llmResponse = llmErrorResponse(error, corsHeaders);
+    if (llmResponse) return llmResponse;
+
     return new Response(
       JSON.stringify({
         error: error instanceof Error ? error.message : "Error desconocido",
@@ -0,0 +1,63 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getSttProvider, SttError, type SttLanguageMode } from "../_shared/stt.ts";
+
+// Límites (el cliente corta antes; esto protege el backend)
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+const ALLOWED_AUDIO_TYPES = ["audio/webm", "audio/mp4", "audio/ogg", "audio/mpeg", "audio/wav"];
+const LANGUAGE_MODES: SttLanguageMode[] = ["es", "en", "bridge"];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // multipart/form-data: audio (webm/mp4 blob) + languageMode
+    const form = await req.formData();
+    const audio = form.get("audio");
+    const requestedMode = String(form.get("languageMode") || "es") as SttLanguageMode;
+    const languageMode = LANGUAGE_MODES.includes(requestedMode) ? requestedMode : "es";
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return jsonResponse({ error: "Audio vacío" }, 400);
+    }
+
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return jsonResponse({ error: "El audio es demasiado largo" }, 413);
+    }
+
+    // Strip codec parameters: "audio/webm;codecs=opus" -> "audio/webm"
+    const baseType = audio.type.split(";")[0].trim();
+    if (baseType && !ALLOWED_AUDIO_TYPES.includes(baseType)) {
+      return jsonResponse({ error: `Formato de audio no soportado: ${baseType}` }, 415);
+    }
+
+    const provider = getSttProvider();
+    console.log(`🎧 STT Request: provider=${provider.name}, lang=${languageMode}, bytes=${audio.size}, type=${baseType || "?"}`);
+
+    const result = await provider.transcribe({ audio, languageMode });
+
+    console.log(`✅ Transcripción: ${result.text.length} chars, confianza ${result.confidence}`);
+
+    return jsonResponse(result);
+  } catch (error: unknown) {
+    console.error("❌ Error en speech-to-text:", error);
+    if (error instanceof SttError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    const errorMessage = error instanceof Error ? error.message : "Error interno del servidor";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,115 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { ICFES_AREAS, SIMULACRO_TIME_LIMIT_SECONDS, drawSimulacroSessions } from "../_shared/saber11.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Opens a full simulacro: the questions are drawn here and copied to icfes_attempt_question_sets,
+// which students cannot write, so grade-icfes-attempt grades the set that was actually drawn
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "No authorization header" }, 401);
+    }
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: bank, error: bankError } = await supabaseAdmin
+      .from("icfes_questions")
+      .select("id, area, passage_id, passage_order")
+      .eq("is_active", true);
+    if (bankError) throw bankError;
+
+    const sessions = drawSimulacroSessions(bank || []);
+    const totalQuestions = sessions.reduce(
+      (sum, s) => sum + s.blocks.reduce((n, b) => n + b.questionIds.length, 0),
+      0,
+    );
+    if (totalQuestions === 0) {
+      return jsonResponse({ error: "No hay preguntas activas en el banco" }, 409);
+    }
+
+    // One open simulacro per student: starting over abandons the previous one
+    const now = new Date().toISOString();
+    const { error: abandonError } = await supabaseAdmin
+      .from("icfes_attempts")
+      .update({ status: "abandoned", completed_at: now })
+      .eq("student_id", user.id)
+      .eq("mode", "full")
+      .eq("status", "in_progress");
+    if (abandonError) throw abandonError;
+
+    // A fresh SimulacroProgress (src/lib/icfesSimulacro.ts), which the client saves as it goes
+    const progress = {
+      version: 1,
+      sessions: sessions.map((s) => ({ blocks: s.blocks, elapsedSeconds: 0, submitted: false })),
+      currentSession: 0,
+      currentIndex: 0,
+      answers: {},
+      changes: {},
+      flagged: [],
+      timeSpent: {},
+    };
+
+    const { data: attempt, error: attemptError } = await supabaseAdmin
+      .from("icfes_attempts")
+      .insert({
+        student_id: user.id,
+        mode: "full",
+        areas: ICFES_AREAS,
+        total_questions: totalQuestions,
+        time_limit_seconds: SIMULACRO_TIME_LIMIT_SECONDS,
+        status: "in_progress",
+        started_at: now,
+        progress,
+      })
+      .select("id, started_at, time_limit_seconds")
+      .single();
+    if (attemptError) throw attemptError;
+
+    const { error: setError } = await supabaseAdmin
+      .from("icfes_attempt_question_sets")
+      .insert({ attempt_id: attempt.id, sessions });
+    if (setError) {
+      // An attempt without its set could never be graded
+      await supabaseAdmin.from("icfes_attempts").delete().eq("id", attempt.id);
+      throw setError;
+    }
+
+    console.log(`Started simulacro ${attempt.id} for ${user.id}: ${totalQuestions} questions`);
+
+    return jsonResponse({
+      id: attempt.id,
+      startedAt: attempt.started_at,
+      timeLimitSeconds: attempt.time_limit_seconds,
+      progress,
+    });
+  } catch (error) {
+    console.error("Error in start-icfes-simulacro:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
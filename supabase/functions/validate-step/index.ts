@@ -1,47 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { StudentCommand, ValidationSpec } from "../_shared/validation-spec.ts";
+import { recognizeStudentCommands } from "../_shared/stroke-recognizer.ts";
+import {
+  collectVariables,
+  compareExpressions,
+  equationsEquivalent,
+  isSimplifiedConstant,
+  parseMathExpression,
+  splitEquationSides,
+  type MathNode,
+} from "../_shared/math-expression.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface ValidationSpec {
-  type: "shape_and_label_match" | "math_expression_match" | "structure_match" | "freeform_with_checks" | "hand_written_number_match";
-  expectedShapes?: Array<{
-    type: string;
-    approxX: number;
-    approxY: number;
-    tolerancePx?: number;
-    labelRegex?: string;
-    relative?: boolean;
-  }>;
-  minMatches?: number;
-  expectedExpression?: string;
-  toleranceNumeric?: number;
-  expectedNumbers?: Array<{ value: number; tolerance: number }>;
-  allowPartialDetection?: boolean;
-  checks?: Array<{ checkType: string; regex?: string }>;
-  acceptanceThreshold?: number;
-}
-
-interface StudentCommand {
-  type: string;
-  x?: number;
-  y?: number;
-  x1?: number;
-  y1?: number;
-  x2?: number;
-  y2?: number;
-  radius?: number;
-  width?: number;
-  height?: number;
-  label?: string;
-  text?: string;
-  color?: string;
-  points?: Array<{ x: number; y: number }>;
-}
-
 interface RequestBody {
   sessionId: string;
   stepId: string;
@@ -63,6 +38,14 @@ interface ValidationResult {
   feedbackMessage: string;
 }
 
+// What each validator returns; the math check can also pick the hint and add feedback
+interface CheckResult {
+  score: number;
+  failedChecks: string[];
+  suggestedHintIndex?: number;
+  feedback?: string[];
+}
+
 // Normalize math expressions for comparison
 function normalizeMathExpression(expr: string): string {
   return expr
@@ -109,6 +92,16 @@ function getShapeCentroid(cmd: StudentCommand, canvasWidth = 800, canvasHeight =
   return null;
 }
 
+// Names specs use for the primitives the stroke recognizer produces
+const SHAPE_ALIASES: Record<string, string> = {
+  rectangle: "rect",
+  square: "rect",
+  triangulo: "triangle",
+  circulo: "circle",
+  flecha: "arrow",
+  linea: "line",
+};
+
 // Validate shape and label matching
 function validateShapeAndLabel(
   studentCommands: StudentCommand[],
@@ -132,9 +125,9 @@ function validateShapeAndLabel(
     let found = false;
     for (const cmd of studentCommands) {
       // Check type match (flexible - circles can be detected from freehand too)
-      const typeMatches = cmd.type === expected.type || 
-        (expected.type === "circle" && cmd.type === "freehand") ||
-        (expected.type === "shape" && ["circle", "rect", "freehand"].includes(cmd.type));
+      const expectedType = SHAPE_ALIASES[expected.type] || expected.type;
+      const typeMatches = cmd.type === expectedType ||
+        (expectedType === "shape" && ["circle", "rect", "triangle", "freehand"].includes(cmd.type));
 
       if (!typeMatches && expected.type !== "any") continue;
 
@@ -171,41 +164,137 @@ function validateShapeAndLabel(
   return { score: Math.min(score, 1), failedChecks };
 }
 
-// Validate math expression matching
+// Plain-text comparison for expected expressions the parser cannot read
+function validateMathExpressionText(studentText: string, expectedExpression: string): CheckResult {
+  const expectedNormalized = normalizeMathExpression(expectedExpression);
+  const studentNormalized = normalizeMathExpression(studentText);
+
+  if (expectedNormalized && studentNormalized.includes(expectedNormalized)) {
+    return { score: 1, failedChecks: [] };
+  }
+
+  return { score: 0, failedChecks: ["expression_mismatch"] };
+}
+
+// Name each side of the expected equation so feedback can point at it
+function describePart(index: number, total: number): string {
+  if (total === 1) return "tu respuesta";
+  if (index === total - 1) return "el resultado";
+  if (index === 0) return "el planteamiento";
+  return `el paso ${index + 1}`;
+}
+
+// Validate math expression matching: every side of the expected expression
+// ("2/4 + 1/4 = 3/4" has two) must be equivalent to some side the student wrote
 function validateMathExpression(
   studentCommands: StudentCommand[],
   spec: ValidationSpec
-): { score: number; failedChecks: string[] } {
-  const failedChecks: string[] = [];
-  const expectedNormalized = normalizeMathExpression(spec.expectedExpression || "");
+): CheckResult {
+  const expectedExpression = spec.expectedExpression || "";
+  const tolerance = spec.toleranceNumeric ?? 1e-6;
 
-  // Collect all text from student commands
-  const studentText = studentCommands
+  // Each text command on its own, and everything together for answers split across commands
+  const texts = studentCommands
     .filter(cmd => cmd.type === "text" || cmd.text)
     .map(cmd => cmd.text || cmd.label || "")
-    .join(" ");
+    .filter(text => text.trim());
+  const studentText = texts.join(" ");
 
-  const studentNormalized = normalizeMathExpression(studentText);
+  if (!studentText.trim()) {
+    return { score: 0, failedChecks: ["no_content"], suggestedHintIndex: 0 };
+  }
 
-  if (studentNormalized.includes(expectedNormalized) || expectedNormalized.includes(studentNormalized)) {
-    return { score: 1, failedChecks: [] };
+  let expectedSides: MathNode[];
+  try {
+    expectedSides = splitEquationSides(expectedExpression).map(side => parseMathExpression(side));
+  } catch {
+    console.warn(`Expected expression could not be parsed, comparing as text: ${expectedExpression}`);
+    return validateMathExpressionText(studentText, expectedExpression);
+  }
+  if (expectedSides.length === 0) {
+    return validateMathExpressionText(studentText, expectedExpression);
   }
 
-  // Partial match - check if key parts are present
-  const expectedParts = expectedNormalized.split(/[=+\-*/]/);
-  let matchedParts = 0;
-  for (const part of expectedParts) {
-    if (part && studentNormalized.includes(part)) {
-      matchedParts++;
+  // Handwritten "2x3" means 2×3 unless the problem actually uses x
+  const expectedVariables = new Set<string>();
+  expectedSides.forEach(side => collectVariables(side, expectedVariables));
+  const parseOptions = { xIsTimes: !expectedVariables.has("x") };
+
+  const studentEquations: MathNode[][] = [];
+  for (const text of [...texts.flatMap(t => t.split(/\n|;/)), studentText]) {
+    try {
+      const sides = splitEquationSides(text).map(side => parseMathExpression(side, parseOptions));
+      if (sides.length > 0) studentEquations.push(sides);
+    } catch {
+      // Words or unfinished work: other pieces may still parse
     }
   }
 
-  const score = expectedParts.length > 0 ? matchedParts / expectedParts.length : 0;
+  if (studentEquations.length === 0) {
+    return {
+      score: 0,
+      failedChecks: ["expression_unreadable"],
+      suggestedHintIndex: 0,
+      feedback: ["No pude leer tu expresión; escríbela con números y símbolos claros."],
+    };
+  }
+
+  // A rearranged equation (y = 2x + 3 vs 2x - y + 3 = 0) is fully correct
+  if (expectedSides.length === 2 && expectedVariables.size > 0) {
+    const rearranged = studentEquations.some(
+      sides => sides.length === 2 && equationsEquivalent([expectedSides[0], expectedSides[1]], [sides[0], sides[1]])
+    );
+    if (rearranged) return { score: 1, failedChecks: [] };
+  }
+
+  const studentSides = studentEquations.flat();
+  const failedChecks: string[] = [];
+  const feedback: string[] = [];
+  let matched = 0;
+  let firstWrongPart = -1;
+  let onlySignErrors = true;
+
+  expectedSides.forEach((expected, i) => {
+    const part = describePart(i, expectedSides.length);
+    const comparisons = studentSides.map(side => ({ side, result: compareExpressions(expected, side, tolerance) }));
+    const equal = comparisons.find(c => c.result === "equal");
+
+    if (equal) {
+      matched++;
+      // The result should be in final form: 3/4 rather than 6/8 or 2/4 + 1/4
+      if (i === expectedSides.length - 1 && isSimplifiedConstant(expected) && !comparisons.some(
+        c => c.result === "equal" && isSimplifiedConstant(c.side)
+      )) {
+        failedChecks.push("expression_not_simplified");
+        feedback.push(`Simplifica ${part} hasta su forma más sencilla.`);
+      }
+      return;
+    }
+
+    if (firstWrongPart === -1) firstWrongPart = i;
+    if (comparisons.some(c => c.result === "negated")) {
+      failedChecks.push(`sign_error_part_${i + 1}`);
+      feedback.push(`Revisa el signo en ${part}.`);
+    } else {
+      onlySignErrors = false;
+      failedChecks.push(`missing_part_${i + 1}`);
+      feedback.push(`${part.charAt(0).toUpperCase()}${part.slice(1)} no coincide todavía.`);
+    }
+  });
+
+  const score = matched / expectedSides.length;
   if (score < 1) {
     failedChecks.push("expression_mismatch");
   }
 
-  return { score, failedChecks };
+  return {
+    score,
+    failedChecks,
+    // Hints follow the solution path: point at the first part that went wrong,
+    // and only nudge gently when the only problem is a sign
+    suggestedHintIndex: firstWrongPart === -1 ? undefined : onlySignErrors ? 0 : Math.min(firstWrongPart, 2),
+    feedback,
+  };
 }
 
 // Validate freeform with checks
@@ -284,20 +373,27 @@ function validateStudentAttempt(
   canvasHeight = 600
 ): ValidationResult {
   const acceptanceThreshold = spec.acceptanceThreshold || 0.75;
-  let result: { score: number; failedChecks: string[] };
+  let result: CheckResult;
+
+  // Grade what the freehand strokes actually are (shapes, digits, symbols).
+  // Steps that only expect writing read every stroke as handwriting.
+  const expectsWritingOnly = spec.type === "hand_written_number_match" || spec.type === "math_expression_match";
+  const commands = recognizeStudentCommands(studentCommands, {
+    glyphMaxSize: expectsWritingOnly ? Infinity : undefined,
+  });
 
   switch (spec.type) {
     case "shape_and_label_match":
-      result = validateShapeAndLabel(studentCommands, spec, canvasWidth, canvasHeight);
+      result = validateShapeAndLabel(commands, spec, canvasWidth, canvasHeight);
       break;
     case "math_expression_match":
-      result = validateMathExpression(studentCommands, spec);
+      result = validateMathExpression(commands, spec);
       break;
     case "freeform_with_checks":
-      result = validateFreeformWithChecks(studentCommands, spec);
+      result = validateFreeformWithChecks(commands, spec);
       break;
     case "hand_written_number_match":
-      result = validateHandWrittenNumbers(studentCommands, spec);
+      result = validateHandWrittenNumbers(commands, spec);
       break;
     default:
       // Structure match or unknown - basic validation
@@ -333,10 +429,17 @@ function validateStudentAttempt(
   if (result.failedChecks.some(c => c.includes("missing_shape"))) {
     feedbackMessage += " Falta dibujar algún elemento.";
   }
-  if (result.failedChecks.includes("expression_mismatch")) {
+  if (result.feedback && result.feedback.length > 0) {
+    feedbackMessage += ` ${result.feedback.join(" ")}`;
+  } else if (result.failedChecks.includes("expression_mismatch")) {
     feedbackMessage += " Revisa tu expresión matemática.";
   }
 
+  // Validators that know which part failed pick the hint themselves
+  if (!ok && result.suggestedHintIndex !== undefined) {
+    suggestedHintIndex = result.suggestedHintIndex;
+  }
+
   return {
     ok,
     score: result.score,
@@ -0,0 +1,8 @@
+-- Problem definition for step-by-step sessions (grade, subject, skill, problemText)
+ALTER TABLE public.tutor_sessions
+  ADD COLUMN IF NOT EXISTS step_problem JSONB;
+
+-- Resuming looks up passed attempts per session
+CREATE INDEX IF NOT EXISTS idx_student_attempts_passed
+  ON public.student_attempts(session_id, step_id)
+  WHERE passed = true;
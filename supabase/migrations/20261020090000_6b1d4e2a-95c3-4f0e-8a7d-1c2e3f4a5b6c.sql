@@ -0,0 +1,34 @@
+-- Timestamped whiteboard actions (student strokes, tutor drawings, clears) for session replay
+CREATE TABLE IF NOT EXISTS public.tutor_board_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES public.tutor_sessions(id) ON DELETE CASCADE,
+  actor text NOT NULL CHECK (actor IN ('student', 'tutor')),
+  kind text NOT NULL CHECK (kind IN ('stroke', 'clear', 'text', 'commands')),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Replays read a whole session in order
+CREATE INDEX idx_tutor_board_events_session ON public.tutor_board_events(session_id, occurred_at);
+
+-- Enable RLS
+ALTER TABLE public.tutor_board_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same access model as tutor_sessions and tutor_drawings)
+CREATE POLICY "Public can read board events"
+  ON public.tutor_board_events
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public can insert board events"
+  ON public.tutor_board_events
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can manage board events"
+  ON public.tutor_board_events
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+COMMENT ON TABLE public.tutor_board_events IS 'Timestamped tutor and student whiteboard actions used to replay a tutor session';
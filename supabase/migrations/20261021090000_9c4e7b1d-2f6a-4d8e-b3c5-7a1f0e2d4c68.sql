@@ -0,0 +1,21 @@
+-- Private storage for repository uploads (exported whiteboards, evidence files).
+-- Objects live under <student_id>/...; repository_items.file_url stores the object path.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('repository', 'repository', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Students can upload to their repository folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'repository' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Students can read their repository files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'repository' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Students can delete their repository files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'repository' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can manage repository files"
+  ON storage.objects FOR ALL
+  USING (bucket_id = 'repository' AND has_role(auth.uid(), 'admin'::app_role));
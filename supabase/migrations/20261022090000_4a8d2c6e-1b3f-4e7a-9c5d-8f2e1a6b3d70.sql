@@ -0,0 +1,8 @@
+-- Timed Saber 11 simulacro: the attempt keeps its questions, answers, flags and
+-- per-session clock so it can be resumed after a closed tab or lost connection
+ALTER TABLE public.icfes_attempts
+  ADD COLUMN progress JSONB;
+
+-- Resume lookup: the student's open attempt of a given mode
+CREATE INDEX idx_icfes_attempts_student_status
+  ON public.icfes_attempts(student_id, status, mode);
@@ -0,0 +1,159 @@
+-- ICFES grading moves to the grade-icfes-attempt edge function: it re-checks every
+-- answer against respuesta_correcta, writes icfes_answers and refreshes icfes_stats.
+-- Students keep writing their open attempts, but scores are only set by the server.
+
+-- One graded row per question and attempt, so a retried grading overwrites instead of duplicating
+CREATE UNIQUE INDEX idx_icfes_answers_attempt_question
+  ON public.icfes_answers(attempt_id, question_id);
+
+-- Simulacro results shown in IcfesDashboard, one per graded full attempt
+ALTER TABLE public.icfes_results
+  ADD COLUMN attempt_id UUID UNIQUE REFERENCES public.icfes_attempts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.icfes_stats
+  ADD COLUMN scores_by_competencia JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN best_score_global INTEGER,
+  ADD COLUMN current_streak_days INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN longest_streak_days INTEGER NOT NULL DEFAULT 0;
+
+-- Students may open, save and abandon attempts; completing one is the grader's job
+DROP POLICY "Students can create their own attempts" ON public.icfes_attempts;
+CREATE POLICY "Students can create their own attempts"
+ON public.icfes_attempts FOR INSERT
+WITH CHECK (auth.uid() = student_id AND status = 'in_progress' AND score_global IS NULL);
+
+DROP POLICY "Students can update their own attempts" ON public.icfes_attempts;
+CREATE POLICY "Students can update their own open attempts"
+ON public.icfes_attempts FOR UPDATE
+USING (auth.uid() = student_id AND status = 'in_progress')
+WITH CHECK (auth.uid() = student_id AND status IN ('in_progress', 'abandoned') AND score_global IS NULL);
+
+DROP POLICY "Students can create their own answers" ON public.icfes_answers;
+DROP POLICY "Students can update their own answers" ON public.icfes_answers;
+DROP POLICY "Students can insert their own stats" ON public.icfes_stats;
+DROP POLICY "Students can update their own stats" ON public.icfes_stats;
+DROP POLICY "Students can insert their own icfes results" ON public.icfes_results;
+
+-- Rebuild a student's icfes_stats row from their graded answers and completed attempts
+CREATE OR REPLACE FUNCTION public.refresh_icfes_stats(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _area_scores JSONB;
+  _competencias JSONB;
+  _total_answered INTEGER;
+  _total_correct INTEGER;
+  _total_time INTEGER;
+  _avg_score NUMERIC(5,2);
+  _best_score INTEGER;
+  _last_attempt TIMESTAMP WITH TIME ZONE;
+  _weakest TEXT;
+  _strongest TEXT;
+  _day DATE;
+  _prev_day DATE;
+  _streak INTEGER := 0;
+  _longest INTEGER := 0;
+BEGIN
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE a.is_correct), COALESCE(SUM(a.time_spent_seconds), 0)
+  INTO _total_answered, _total_correct, _total_time
+  FROM icfes_answers a
+  WHERE a.student_id = _student_id;
+
+  -- Accuracy per area over every graded answer
+  SELECT COALESCE(jsonb_object_agg(area, percentage), '{}'::jsonb)
+  INTO _area_scores
+  FROM (
+    SELECT q.area, ROUND(100.0 * COUNT(*) FILTER (WHERE a.is_correct) / COUNT(*), 2) AS percentage
+    FROM icfes_answers a
+    JOIN icfes_questions q ON q.id = a.question_id
+    WHERE a.student_id = _student_id
+    GROUP BY q.area
+  ) s;
+
+  -- { area: { competencia: { correct, total, percentage } } }
+  SELECT COALESCE(jsonb_object_agg(area, competencias), '{}'::jsonb)
+  INTO _competencias
+  FROM (
+    SELECT area, jsonb_object_agg(competencia, jsonb_build_object(
+      'correct', correct,
+      'total', total,
+      'percentage', ROUND(100.0 * correct / total, 2)
+    )) AS competencias
+    FROM (
+      SELECT q.area, COALESCE(q.competencia, 'General') AS competencia,
+        COUNT(*) FILTER (WHERE a.is_correct) AS correct, COUNT(*) AS total
+      FROM icfes_answers a
+      JOIN icfes_questions q ON q.id = a.question_id
+      WHERE a.student_id = _student_id
+      GROUP BY q.area, COALESCE(q.competencia, 'General')
+    ) c
+    GROUP BY area
+  ) s;
+
+  SELECT key INTO _weakest FROM jsonb_each_text(_area_scores) ORDER BY value::numeric ASC, key LIMIT 1;
+  SELECT key INTO _strongest FROM jsonb_each_text(_area_scores) ORDER BY value::numeric DESC, key LIMIT 1;
+
+  SELECT ROUND(AVG(score_global), 2), MAX(score_global), MAX(completed_at)
+  INTO _avg_score, _best_score, _last_attempt
+  FROM icfes_attempts
+  WHERE student_id = _student_id AND status = 'completed';
+
+  -- Consecutive days (Colombia time) with at least one completed attempt
+  FOR _day IN
+    SELECT DISTINCT (completed_at AT TIME ZONE 'America/Bogota')::date
+    FROM icfes_attempts
+    WHERE student_id = _student_id AND status = 'completed' AND completed_at IS NOT NULL
+    ORDER BY 1
+  LOOP
+    IF _prev_day IS NOT NULL AND _day = _prev_day + 1 THEN
+      _streak := _streak + 1;
+    ELSE
+      _streak := 1;
+    END IF;
+    _longest := GREATEST(_longest, _streak);
+    _prev_day := _day;
+  END LOOP;
+
+  -- The current streak is broken once a whole day goes by without practice
+  IF _prev_day IS NULL OR _prev_day < (now() AT TIME ZONE 'America/Bogota')::date - 1 THEN
+    _streak := 0;
+  END IF;
+
+  INSERT INTO icfes_stats (
+    student_id, total_questions_answered, total_correct, avg_score_global,
+    score_matematicas, score_lectura_critica, score_ciencias, score_sociales, score_ingles,
+    weakest_area, strongest_area, total_time_spent_seconds, last_attempt_at,
+    scores_by_competencia, best_score_global, current_streak_days, longest_streak_days
+  ) VALUES (
+    _student_id, _total_answered, _total_correct, _avg_score,
+    (_area_scores->>'matematicas')::numeric, (_area_scores->>'lectura_critica')::numeric,
+    (_area_scores->>'ciencias')::numeric, (_area_scores->>'sociales')::numeric,
+    (_area_scores->>'ingles')::numeric,
+    _weakest, _strongest, _total_time, _last_attempt,
+    _competencias, _best_score, _streak, _longest
+  )
+  ON CONFLICT (student_id) DO UPDATE SET
+    total_questions_answered = EXCLUDED.total_questions_answered,
+    total_correct = EXCLUDED.total_correct,
+    avg_score_global = EXCLUDED.avg_score_global,
+    score_matematicas = EXCLUDED.score_matematicas,
+    score_lectura_critica = EXCLUDED.score_lectura_critica,
+    score_ciencias = EXCLUDED.score_ciencias,
+    score_sociales = EXCLUDED.score_sociales,
+    score_ingles = EXCLUDED.score_ingles,
+    weakest_area = EXCLUDED.weakest_area,
+    strongest_area = EXCLUDED.strongest_area,
+    total_time_spent_seconds = EXCLUDED.total_time_spent_seconds,
+    last_attempt_at = EXCLUDED.last_attempt_at,
+    scores_by_competencia = EXCLUDED.scores_by_competencia,
+    best_score_global = EXCLUDED.best_score_global,
+    current_streak_days = EXCLUDED.current_streak_days,
+    longest_streak_days = EXCLUDED.longest_streak_days;
+END;
+$$;
+
+-- Only the grader (service role) refreshes stats
+REVOKE EXECUTE ON FUNCTION public.refresh_icfes_stats(UUID) FROM PUBLIC, anon, authenticated;
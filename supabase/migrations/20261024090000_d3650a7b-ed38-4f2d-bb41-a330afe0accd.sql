@@ -0,0 +1,61 @@
+-- Percentile reference for Saber 11 style scores. Each row says that a score at or
+-- above min_score reaches the given national percentile; admins replace the rows
+-- when a new year of results is published.
+CREATE TABLE public.icfes_percentile_reference (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('global', 'matematicas', 'lectura_critica', 'ciencias', 'sociales', 'ingles')),
+  min_score INTEGER NOT NULL CHECK (min_score >= 0 AND min_score <= 500),
+  percentile INTEGER NOT NULL CHECK (percentile >= 0 AND percentile <= 100),
+  reference_year INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (scope, reference_year, min_score)
+);
+
+ALTER TABLE public.icfes_percentile_reference ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the percentile reference"
+ON public.icfes_percentile_reference FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage the percentile reference"
+ON public.icfes_percentile_reference FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Approximate national distribution (global mean ≈ 255, area means ≈ 50)
+INSERT INTO public.icfes_percentile_reference (scope, min_score, percentile, reference_year)
+SELECT 'global', v.min_score, v.percentile, 2024
+FROM (VALUES
+  (150, 2), (180, 8), (200, 15), (220, 27), (240, 40), (260, 54),
+  (280, 67), (300, 78), (320, 87), (340, 93), (360, 96), (380, 98), (400, 99)
+) AS v(min_score, percentile);
+
+INSERT INTO public.icfes_percentile_reference (scope, min_score, percentile, reference_year)
+SELECT a.scope, v.min_score, v.percentile, 2024
+FROM (VALUES ('matematicas'), ('lectura_critica'), ('ciencias'), ('sociales'), ('ingles')) AS a(scope)
+CROSS JOIN (VALUES
+  (30, 3), (35, 8), (40, 15), (45, 28), (50, 43), (55, 58),
+  (60, 72), (65, 83), (70, 91), (75, 96), (80, 98), (90, 99)
+) AS v(min_score, percentile);
+
+-- Guardians follow their students' ICFES progress
+CREATE POLICY "Guardians can view their students' icfes attempts"
+ON public.icfes_attempts FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_profiles sp
+  WHERE sp.user_id = icfes_attempts.student_id AND sp.guardian_id = auth.uid()
+));
+
+CREATE POLICY "Guardians can view their students' icfes stats"
+ON public.icfes_stats FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_profiles sp
+  WHERE sp.user_id = icfes_stats.student_id AND sp.guardian_id = auth.uid()
+));
+
+CREATE POLICY "Guardians can view their students' icfes results"
+ON public.icfes_results FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_profiles sp
+  WHERE sp.user_id = icfes_results.student_id AND sp.guardian_id = auth.uid()
+));
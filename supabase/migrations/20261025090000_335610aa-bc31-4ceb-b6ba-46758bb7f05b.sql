@@ -0,0 +1,55 @@
+-- Rasch difficulty per question for adaptive practice, calibrated from everyone's answers.
+-- NULL until the question is answered; clients then fall back to the dificultad prior.
+ALTER TABLE public.icfes_questions
+  ADD COLUMN irt_difficulty NUMERIC(6,3),
+  ADD COLUMN irt_responses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN calibrated_at TIMESTAMP WITH TIME ZONE;
+
+-- Own answer history by area for ability estimates
+CREATE INDEX idx_icfes_answers_student_question ON public.icfes_answers(student_id, question_id);
+
+/*
+ * b = mean ability of the respondents - logit(share correct), with each respondent's
+ * ability approximated from their overall accuracy in icfes_stats. The estimate is
+ * shrunk toward the dificultad prior ((dificultad - 3) * 0.8, as in src/lib/icfesAdaptive.ts)
+ * with the weight of 20 answers, so a handful of responses can't swing an item.
+ * Skipped questions (respuesta NULL) say nothing about difficulty and are left out.
+ */
+CREATE OR REPLACE FUNCTION public.calibrate_icfes_questions(_question_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH student_ability AS (
+    SELECT student_id,
+      LN((total_correct + 0.5) / (total_questions_answered - total_correct + 0.5)) AS theta
+    FROM icfes_stats
+  ),
+  item_stats AS (
+    SELECT a.question_id,
+      COUNT(*) AS responses,
+      COUNT(*) FILTER (WHERE a.is_correct) AS correct,
+      AVG(COALESCE(sa.theta, 0)) AS mean_theta
+    FROM icfes_answers a
+    LEFT JOIN student_ability sa ON sa.student_id = a.student_id
+    WHERE a.question_id = ANY(_question_ids) AND a.respuesta IS NOT NULL
+    GROUP BY a.question_id
+  )
+  UPDATE icfes_questions q SET
+    irt_difficulty = ROUND((
+      (s.responses * (s.mean_theta - LN((s.correct + 0.5) / (s.responses - s.correct + 0.5))))
+      + 20 * (q.dificultad - 3) * 0.8
+    ) / (s.responses + 20), 3),
+    irt_responses = s.responses,
+    calibrated_at = now()
+  FROM item_stats s
+  WHERE q.id = s.question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calibrate_icfes_questions(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Calibrate what has been answered so far
+SELECT public.calibrate_icfes_questions(ARRAY(SELECT DISTINCT question_id FROM public.icfes_answers));
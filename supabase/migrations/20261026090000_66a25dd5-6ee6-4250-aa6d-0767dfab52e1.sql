@@ -0,0 +1,70 @@
+-- ICFES question bank authoring: shared reading passages, a draft → reviewed → active
+-- review workflow that drives is_active, and a public bucket for question images.
+
+CREATE TABLE public.icfes_passages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  area TEXT NOT NULL CHECK (area IN ('matematicas', 'lectura_critica', 'ciencias', 'sociales', 'ingles')),
+  title TEXT,
+  content TEXT NOT NULL,
+  imagen_url TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.icfes_passages ENABLE ROW LEVEL SECURITY;
+
+-- Passages are only reachable through active questions, so reading them is harmless
+CREATE POLICY "Authenticated users can view passages"
+ON public.icfes_passages FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage passages"
+ON public.icfes_passages FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_icfes_passages_updated_at
+BEFORE UPDATE ON public.icfes_passages
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.icfes_questions
+  ADD COLUMN passage_id UUID REFERENCES public.icfes_passages(id) ON DELETE SET NULL,
+  ADD COLUMN passage_order INTEGER,
+  ADD COLUMN review_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (review_status IN ('draft', 'reviewed', 'active')),
+  ADD COLUMN created_by UUID,
+  ADD COLUMN reviewed_by UUID,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Questions already in the bank keep their current visibility
+UPDATE public.icfes_questions SET review_status = CASE WHEN is_active THEN 'active' ELSE 'draft' END;
+
+CREATE INDEX idx_icfes_questions_passage ON public.icfes_questions(passage_id);
+CREATE INDEX idx_icfes_questions_review_status ON public.icfes_questions(review_status);
+
+-- is_active follows the review status: only published questions reach students
+CREATE OR REPLACE FUNCTION public.sync_icfes_question_active()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_active := NEW.review_status = 'active';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_icfes_question_active
+BEFORE INSERT OR UPDATE OF review_status, is_active ON public.icfes_questions
+FOR EACH ROW EXECUTE FUNCTION public.sync_icfes_question_active();
+
+-- Question and passage images, readable by anyone with the link
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('icfes-media', 'icfes-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can manage icfes media"
+  ON storage.objects FOR ALL
+  USING (bucket_id = 'icfes-media' AND has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (bucket_id = 'icfes-media' AND has_role(auth.uid(), 'admin'::app_role));
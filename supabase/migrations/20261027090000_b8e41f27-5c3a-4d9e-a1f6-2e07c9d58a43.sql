@@ -0,0 +1,38 @@
+-- Item sets: a stimulus (text, chart or dialogue) shared by several questions, and the
+-- English formats of Saber 11: matching against a shared A–H list, and cloze texts whose
+-- gaps are answered one question per gap.
+
+ALTER TABLE public.icfes_passages
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'text' CHECK (kind IN ('text', 'chart', 'dialogue')),
+  -- Shared choices for matching questions, lettered A, B, C… in order
+  ADD COLUMN options JSONB CHECK (
+    options IS NULL OR (jsonb_typeof(options) = 'array' AND jsonb_array_length(options) BETWEEN 2 AND 8)
+  );
+
+ALTER TABLE public.icfes_questions
+  ADD COLUMN formato TEXT NOT NULL DEFAULT 'seleccion'
+    CHECK (formato IN ('seleccion', 'emparejamiento', 'completar'));
+
+-- Matching takes its options from the passage and cloze gaps may have only three
+ALTER TABLE public.icfes_questions
+  ALTER COLUMN opcion_a DROP NOT NULL,
+  ALTER COLUMN opcion_b DROP NOT NULL,
+  ALTER COLUMN opcion_c DROP NOT NULL,
+  ALTER COLUMN opcion_d DROP NOT NULL,
+  ADD CONSTRAINT icfes_questions_formato_options_check CHECK (
+    CASE formato
+      WHEN 'seleccion' THEN opcion_a IS NOT NULL AND opcion_b IS NOT NULL AND opcion_c IS NOT NULL AND opcion_d IS NOT NULL
+      WHEN 'completar' THEN opcion_a IS NOT NULL AND opcion_b IS NOT NULL AND opcion_c IS NOT NULL
+      ELSE passage_id IS NOT NULL
+    END
+  );
+
+ALTER TABLE public.icfes_questions DROP CONSTRAINT icfes_questions_respuesta_correcta_check;
+ALTER TABLE public.icfes_questions
+  ADD CONSTRAINT icfes_questions_respuesta_correcta_check
+  CHECK (respuesta_correcta IN ('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'));
+
+ALTER TABLE public.icfes_answers DROP CONSTRAINT icfes_answers_respuesta_check;
+ALTER TABLE public.icfes_answers
+  ADD CONSTRAINT icfes_answers_respuesta_check
+  CHECK (respuesta IN ('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'));
@@ -0,0 +1,222 @@
+-- Error-pattern diagnostics over a student's ICFES answers, shown in IcfesDashboard and
+-- passed to generate-leveling-plan. The grader now also records where each question sat
+-- in its timed section and which options the student picked before the final one.
+ALTER TABLE public.icfes_answers
+  ADD COLUMN section INTEGER,
+  ADD COLUMN position INTEGER,
+  ADD COLUMN previous_respuestas TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.icfes_answers.section IS 'Timed section of the attempt: simulacro session number, 1 for practice';
+COMMENT ON COLUMN public.icfes_answers.position IS '0-based order of the question inside its section';
+COMMENT ON COLUMN public.icfes_answers.previous_respuestas IS 'Options chosen and then changed, oldest first';
+
+-- Answers of the student's last 30 completed attempts, with what the diagnostics look at.
+-- Security definer: retired questions are hidden from students but still explain their answers.
+CREATE OR REPLACE FUNCTION public.icfes_recent_answers(_student_id UUID)
+RETURNS TABLE (
+  attempt_id UUID,
+  question_id UUID,
+  area TEXT,
+  competencia TEXT,
+  respuesta TEXT,
+  respuesta_correcta TEXT,
+  is_correct BOOLEAN,
+  time_spent_seconds INTEGER,
+  statement_length INTEGER,
+  section INTEGER,
+  "position" INTEGER,
+  section_size INTEGER,
+  previous_respuestas TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.attempt_id, a.question_id, q.area, COALESCE(q.competencia, 'General'), a.respuesta,
+    q.respuesta_correcta, COALESCE(a.is_correct, false), a.time_spent_seconds, char_length(q.enunciado),
+    a.section, a.position, (COUNT(*) OVER (PARTITION BY a.attempt_id, a.section))::integer,
+    a.previous_respuestas
+  FROM icfes_answers a
+  JOIN icfes_questions q ON q.id = a.question_id
+  WHERE a.student_id = _student_id
+    AND a.attempt_id IN (
+      SELECT t.id FROM icfes_attempts t
+      WHERE t.student_id = _student_id AND t.status = 'completed'
+      ORDER BY t.completed_at DESC NULLS LAST
+      LIMIT 30
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.icfes_recent_answers(UUID) FROM PUBLIC, anon, authenticated;
+
+/*
+ * Recurring misconceptions, each with the numbers behind it:
+ * - distractor: in a competencia, at least half of the answered questions end on a wrong
+ *   option (chosen, not skipped); "repeated" counts questions missed twice with the same option
+ * - final_stretch: in sections of 9+ questions, the last third is left blank or drops 15+
+ *   points of accuracy against the first two thirds
+ * - long_statements: accuracy on the longest third of statements is 15+ points below the rest
+ * - second_guessing: at least 3 correct answers changed to wrong ones, more than the reverse
+ * Thresholds need enough answers so a single bad session does not become a diagnosis.
+ */
+CREATE OR REPLACE FUNCTION public.icfes_error_patterns(_student_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patterns JSONB;
+  _attempts INTEGER;
+  _answers INTEGER;
+  _stretch RECORD;
+  _length RECORD;
+  _changes RECORD;
+BEGIN
+  IF _student_id IS DISTINCT FROM auth.uid()
+    AND COALESCE(auth.role(), '') <> 'service_role'
+    AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Not allowed to read ICFES answers of another student';
+  END IF;
+
+  SELECT COUNT(DISTINCT r.attempt_id), COUNT(*) INTO _attempts, _answers
+  FROM icfes_recent_answers(_student_id) r;
+
+  WITH recent AS (
+    SELECT * FROM icfes_recent_answers(_student_id)
+  ),
+  by_competencia AS (
+    SELECT r.area, r.competencia,
+      COUNT(*) FILTER (WHERE r.respuesta IS NOT NULL) AS answered,
+      COUNT(*) FILTER (WHERE r.respuesta IS NOT NULL AND NOT r.is_correct) AS wrong
+    FROM recent r
+    GROUP BY r.area, r.competencia
+  ),
+  repeats AS (
+    SELECT s.area, s.competencia, COUNT(*) AS repeated
+    FROM (
+      SELECT r.area, r.competencia
+      FROM recent r
+      WHERE r.respuesta IS NOT NULL AND NOT r.is_correct
+      GROUP BY r.area, r.competencia, r.question_id, r.respuesta
+      HAVING COUNT(*) >= 2
+    ) s
+    GROUP BY s.area, s.competencia
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'kind', 'distractor',
+    'area', c.area,
+    'competencia', c.competencia,
+    'severity', CASE WHEN c.wrong >= 0.7 * c.answered OR COALESCE(p.repeated, 0) >= 2 THEN 'alta' ELSE 'media' END,
+    'evidence', jsonb_build_object(
+      'answered', c.answered,
+      'wrong', c.wrong,
+      'wrong_rate', ROUND(100.0 * c.wrong / c.answered),
+      'repeated', COALESCE(p.repeated, 0)
+    )
+  ) ORDER BY c.wrong::numeric / c.answered DESC, c.wrong DESC), '[]'::jsonb)
+  INTO _patterns
+  FROM by_competencia c
+  LEFT JOIN repeats p ON p.area = c.area AND p.competencia = c.competencia
+  WHERE c.answered >= 6 AND c.wrong >= 0.5 * c.answered;
+
+  SELECT
+    COUNT(DISTINCT s.attempt_id) AS attempts,
+    COUNT(*) FILTER (WHERE s.last_third) AS last_total,
+    COUNT(*) FILTER (WHERE s.last_third AND s.respuesta IS NULL) AS last_blank,
+    COUNT(*) FILTER (WHERE s.last_third AND s.is_correct) AS last_correct,
+    ROUND(AVG(s.time_spent_seconds) FILTER (WHERE s.last_third AND s.respuesta IS NOT NULL)) AS last_seconds,
+    COUNT(*) FILTER (WHERE NOT s.last_third) AS rest_total,
+    COUNT(*) FILTER (WHERE NOT s.last_third AND s.respuesta IS NULL) AS rest_blank,
+    COUNT(*) FILTER (WHERE NOT s.last_third AND s.is_correct) AS rest_correct,
+    ROUND(AVG(s.time_spent_seconds) FILTER (WHERE NOT s.last_third AND s.respuesta IS NOT NULL)) AS rest_seconds
+  INTO _stretch
+  FROM (
+    SELECT r.*, r.position >= r.section_size * 2 / 3.0 AS last_third
+    FROM icfes_recent_answers(_student_id) r
+    WHERE r.position IS NOT NULL AND r.section_size >= 9
+  ) s;
+
+  IF _stretch.last_total >= 10 AND _stretch.rest_total >= 10 AND (
+    (_stretch.last_blank >= 0.2 * _stretch.last_total
+      AND _stretch.last_blank::numeric / _stretch.last_total >= 2 * _stretch.rest_blank::numeric / _stretch.rest_total)
+    OR _stretch.last_correct::numeric / _stretch.last_total
+      <= _stretch.rest_correct::numeric / _stretch.rest_total - 0.15
+  ) THEN
+    _patterns := _patterns || jsonb_build_object(
+      'kind', 'final_stretch',
+      'severity', CASE WHEN _stretch.last_blank >= 0.35 * _stretch.last_total THEN 'alta' ELSE 'media' END,
+      'evidence', jsonb_build_object(
+        'attempts', _stretch.attempts,
+        'blank_rate_last', ROUND(100.0 * _stretch.last_blank / _stretch.last_total),
+        'blank_rate_rest', ROUND(100.0 * _stretch.rest_blank / _stretch.rest_total),
+        'accuracy_last', ROUND(100.0 * _stretch.last_correct / _stretch.last_total),
+        'accuracy_rest', ROUND(100.0 * _stretch.rest_correct / _stretch.rest_total),
+        'seconds_last', _stretch.last_seconds,
+        'seconds_rest', _stretch.rest_seconds
+      )
+    );
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE l.band = 3) AS long_total,
+    COUNT(*) FILTER (WHERE l.band = 3 AND l.is_correct) AS long_correct,
+    MIN(l.statement_length) FILTER (WHERE l.band = 3) AS long_from,
+    COUNT(*) FILTER (WHERE l.band < 3) AS short_total,
+    COUNT(*) FILTER (WHERE l.band < 3 AND l.is_correct) AS short_correct
+  INTO _length
+  FROM (
+    SELECT r.*, ntile(3) OVER (ORDER BY r.statement_length) AS band
+    FROM icfes_recent_answers(_student_id) r
+    WHERE r.respuesta IS NOT NULL
+  ) l;
+
+  IF _length.long_total >= 8 AND _length.short_total >= 8
+    AND _length.long_correct::numeric / _length.long_total
+      <= _length.short_correct::numeric / _length.short_total - 0.15 THEN
+    _patterns := _patterns || jsonb_build_object(
+      'kind', 'long_statements',
+      'severity', CASE
+        WHEN _length.long_correct::numeric / _length.long_total
+          <= _length.short_correct::numeric / _length.short_total - 0.3 THEN 'alta'
+        ELSE 'media'
+      END,
+      'evidence', jsonb_build_object(
+        'accuracy_long', ROUND(100.0 * _length.long_correct / _length.long_total),
+        'accuracy_short', ROUND(100.0 * _length.short_correct / _length.short_total),
+        'long_from_chars', _length.long_from,
+        'answered', _length.long_total + _length.short_total
+      )
+    );
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE cardinality(r.previous_respuestas) > 0) AS changed,
+    COUNT(*) FILTER (WHERE NOT r.is_correct AND r.respuesta_correcta = ANY(r.previous_respuestas)) AS correct_to_wrong,
+    COUNT(*) FILTER (WHERE r.is_correct AND cardinality(r.previous_respuestas) > 0) AS wrong_to_correct
+  INTO _changes
+  FROM icfes_recent_answers(_student_id) r;
+
+  IF _changes.correct_to_wrong >= 3 AND _changes.correct_to_wrong > _changes.wrong_to_correct THEN
+    _patterns := _patterns || jsonb_build_object(
+      'kind', 'second_guessing',
+      'severity', CASE WHEN _changes.correct_to_wrong >= 2 * GREATEST(_changes.wrong_to_correct, 1) THEN 'alta' ELSE 'media' END,
+      'evidence', jsonb_build_object(
+        'changed', _changes.changed,
+        'correct_to_wrong', _changes.correct_to_wrong,
+        'wrong_to_correct', _changes.wrong_to_correct
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempts', _attempts,
+    'answers', _answers,
+    'patterns', _patterns
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.icfes_error_patterns(UUID) TO authenticated;
@@ -0,0 +1,96 @@
+-- Spaced-repetition flashcards: decks and cards per student, scheduled with SM-2
+-- (src/lib/flashcardScheduler.ts). Every grading is logged in flashcard_reviews,
+-- which feeds the review streak and the per-deck statistics.
+
+CREATE TABLE public.flashcard_decks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  description TEXT,
+  color TEXT NOT NULL DEFAULT 'primary' CHECK (color IN ('primary', 'accent', 'gold')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.flashcards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deck_id UUID NOT NULL REFERENCES public.flashcard_decks(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL,
+  -- Text with $...$ / $$...$$ math, rendered with KaTeX
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  front_image_url TEXT,
+  back_image_url TEXT,
+  -- SM-2 state; a card with repetitions = 0 and no last_reviewed_at is new
+  ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.flashcard_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  card_id UUID NOT NULL REFERENCES public.flashcards(id) ON DELETE CASCADE,
+  deck_id UUID NOT NULL REFERENCES public.flashcard_decks(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL,
+  -- 0 = otra vez, 1 = difícil, 2 = bien, 3 = fácil
+  grade SMALLINT NOT NULL CHECK (grade BETWEEN 0 AND 3),
+  interval_days INTEGER NOT NULL,
+  ease_factor NUMERIC(4,2) NOT NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.flashcard_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can manage their own decks"
+ON public.flashcard_decks FOR ALL
+USING (auth.uid() = student_id)
+WITH CHECK (auth.uid() = student_id);
+
+CREATE POLICY "Students can manage their own cards"
+ON public.flashcards FOR ALL
+USING (auth.uid() = student_id)
+WITH CHECK (
+  auth.uid() = student_id
+  AND EXISTS (SELECT 1 FROM public.flashcard_decks d WHERE d.id = deck_id AND d.student_id = auth.uid())
+);
+
+CREATE POLICY "Students can view their own reviews"
+ON public.flashcard_reviews FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE POLICY "Students can log their own reviews"
+ON public.flashcard_reviews FOR INSERT
+WITH CHECK (auth.uid() = student_id);
+
+CREATE INDEX idx_flashcard_decks_student ON public.flashcard_decks(student_id);
+CREATE INDEX idx_flashcards_deck ON public.flashcards(deck_id);
+CREATE INDEX idx_flashcards_student_due ON public.flashcards(student_id, due_at);
+CREATE INDEX idx_flashcard_reviews_student_date ON public.flashcard_reviews(student_id, reviewed_at);
+
+CREATE TRIGGER update_flashcard_decks_updated_at
+BEFORE UPDATE ON public.flashcard_decks
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_flashcards_updated_at
+BEFORE UPDATE ON public.flashcards
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Card images, public for rendering; students write under <student_id>/...
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('flashcard-media', 'flashcard-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Students can upload flashcard images to their folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'flashcard-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Students can delete their flashcard images"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'flashcard-media' AND (storage.foldername(name))[1] = auth.uid()::text);
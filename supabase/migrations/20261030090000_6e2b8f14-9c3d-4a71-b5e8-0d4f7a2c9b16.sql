@@ -0,0 +1,41 @@
+-- Flashcard candidates generated from what students already produce: tutor sessions,
+-- ICFES questions they got wrong and research report key points. The generate-flashcards
+-- function writes them; the student edits and accepts them into a deck, or dismisses them.
+-- Cards remember their source so a card can be traced back to its session or question.
+
+ALTER TABLE public.flashcards
+  ADD COLUMN source_type TEXT CHECK (source_type IN ('tutor_session', 'icfes_question', 'research_report')),
+  ADD COLUMN source_id TEXT,
+  ADD COLUMN source_label TEXT;
+
+CREATE TABLE public.flashcard_candidates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('tutor_session', 'icfes_question', 'research_report')),
+  -- tutor_sessions.id, icfes_questions.id, or the id of a report kept in the browser
+  source_id TEXT NOT NULL,
+  source_label TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('concept', 'formula', 'vocabulary', 'cloze')),
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+  card_id UUID REFERENCES public.flashcards(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.flashcard_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Candidates are created by the generator (service role); students only triage them
+CREATE POLICY "Students can view their own flashcard candidates"
+ON public.flashcard_candidates FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE POLICY "Students can review their own flashcard candidates"
+ON public.flashcard_candidates FOR UPDATE
+USING (auth.uid() = student_id)
+WITH CHECK (auth.uid() = student_id AND status IN ('accepted', 'dismissed'));
+
+CREATE INDEX idx_flashcard_candidates_student_status ON public.flashcard_candidates(student_id, status);
+-- The generator skips sources it has already turned into candidates
+CREATE INDEX idx_flashcard_candidates_source ON public.flashcard_candidates(student_id, source_type, source_id);
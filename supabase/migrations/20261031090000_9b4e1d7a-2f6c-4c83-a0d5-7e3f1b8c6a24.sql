@@ -0,0 +1,277 @@
+-- Coin balances only change through the functions below: each one writes the ledger row
+-- (coin_transactions) and the cached balance (student_coins) in the same transaction, with
+-- the student's balance row locked so concurrent redemptions cannot overspend.
+ALTER TABLE public.rewards
+  ADD COLUMN stock INTEGER CHECK (stock IS NULL OR stock >= 0),
+  ADD COLUMN max_per_student INTEGER CHECK (max_per_student IS NULL OR max_per_student > 0);
+
+COMMENT ON COLUMN public.rewards.stock IS 'Units left to redeem; NULL means unlimited';
+COMMENT ON COLUMN public.rewards.max_per_student IS 'Redemptions allowed per student, refunded ones excluded; NULL means no limit';
+
+-- What the student paid, so a refund returns that even if the price changed since
+ALTER TABLE public.reward_redemptions ADD COLUMN coins_spent INTEGER;
+
+UPDATE public.reward_redemptions rr
+SET coins_spent = r.cost_coins
+FROM public.rewards r
+WHERE r.id = rr.reward_id AND rr.coins_spent IS NULL;
+
+ALTER TABLE public.reward_redemptions DROP CONSTRAINT IF EXISTS reward_redemptions_status_check;
+ALTER TABLE public.reward_redemptions
+  ADD CONSTRAINT reward_redemptions_status_check CHECK (status IN ('pending', 'delivered', 'refunded'));
+
+ALTER TABLE public.coin_transactions DROP CONSTRAINT IF EXISTS coin_transactions_type_check;
+ALTER TABLE public.coin_transactions
+  ADD CONSTRAINT coin_transactions_type_check CHECK (type IN ('earn', 'spend', 'refund', 'adjust'));
+
+ALTER TABLE public.coin_transactions
+  ADD COLUMN redemption_id UUID REFERENCES public.reward_redemptions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_coin_transactions_student ON public.coin_transactions(student_id, created_at);
+
+-- Older admin adjustments were clamped in the browser, so existing rows are left to reconciliation
+ALTER TABLE public.student_coins
+  ADD CONSTRAINT student_coins_balance_non_negative CHECK (balance >= 0) NOT VALID;
+
+-- Students no longer write coins or redemptions directly
+DROP POLICY IF EXISTS "Students can insert spend transactions" ON public.coin_transactions;
+DROP POLICY IF EXISTS "Students can create their own redemptions" ON public.reward_redemptions;
+
+/*
+ * The single write path for coins. Positive amounts other than refunds count as earned,
+ * negative amounts as spent, and refunds give back what was spent. Raises
+ * insufficient_balance instead of letting the balance go below zero.
+ */
+CREATE OR REPLACE FUNCTION public.coin_apply(
+  _student_id UUID,
+  _amount INTEGER,
+  _type TEXT,
+  _reason TEXT,
+  _admin_id UUID DEFAULT NULL,
+  _redemption_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance INTEGER;
+BEGIN
+  IF _amount IS NULL OR _amount = 0 THEN
+    RAISE EXCEPTION 'invalid_amount';
+  END IF;
+
+  INSERT INTO student_coins (student_id, balance, total_earned, total_spent)
+  VALUES (_student_id, 0, 0, 0)
+  ON CONFLICT (student_id) DO NOTHING;
+
+  SELECT balance INTO _balance FROM student_coins WHERE student_id = _student_id FOR UPDATE;
+
+  IF _balance + _amount < 0 THEN
+    RAISE EXCEPTION 'insufficient_balance';
+  END IF;
+
+  INSERT INTO coin_transactions (student_id, amount, type, reason, created_by_admin_id, redemption_id)
+  VALUES (_student_id, _amount, _type, _reason, _admin_id, _redemption_id);
+
+  UPDATE student_coins SET
+    balance = balance + _amount,
+    total_earned = total_earned + CASE WHEN _amount > 0 AND _type <> 'refund' THEN _amount ELSE 0 END,
+    total_spent = total_spent
+      + CASE WHEN _amount < 0 THEN -_amount ELSE 0 END
+      - CASE WHEN _type = 'refund' THEN _amount ELSE 0 END
+  WHERE student_id = _student_id
+  RETURNING balance INTO _balance;
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.coin_apply(UUID, INTEGER, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Redeem a reward for the calling student: stock, per-student limit and balance are checked
+-- with the reward and balance rows locked, and every write rolls back together.
+CREATE OR REPLACE FUNCTION public.redeem_reward(_reward_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _reward rewards%ROWTYPE;
+  _redeemed INTEGER;
+  _redemption_id UUID;
+  _balance INTEGER;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _reward FROM rewards WHERE id = _reward_id FOR UPDATE;
+  IF NOT FOUND OR NOT _reward.is_active THEN
+    RAISE EXCEPTION 'reward_unavailable';
+  END IF;
+
+  IF _reward.stock IS NOT NULL AND _reward.stock <= 0 THEN
+    RAISE EXCEPTION 'out_of_stock';
+  END IF;
+
+  IF _reward.max_per_student IS NOT NULL THEN
+    SELECT COUNT(*) INTO _redeemed
+    FROM reward_redemptions
+    WHERE student_id = _student_id AND reward_id = _reward_id AND status <> 'refunded';
+
+    IF _redeemed >= _reward.max_per_student THEN
+      RAISE EXCEPTION 'redemption_limit_reached';
+    END IF;
+  END IF;
+
+  INSERT INTO reward_redemptions (student_id, reward_id, status, coins_spent)
+  VALUES (_student_id, _reward_id, 'pending', _reward.cost_coins)
+  RETURNING id INTO _redemption_id;
+
+  _balance := coin_apply(_student_id, -_reward.cost_coins, 'spend', 'Canje: ' || _reward.name, NULL, _redemption_id);
+
+  IF _reward.stock IS NOT NULL THEN
+    UPDATE rewards SET stock = stock - 1 WHERE id = _reward_id;
+  END IF;
+
+  RETURN jsonb_build_object('redemption_id', _redemption_id, 'balance', _balance);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.redeem_reward(UUID) TO authenticated;
+
+-- Admin cancels a pending redemption: the coins go back and the unit returns to stock
+CREATE OR REPLACE FUNCTION public.refund_redemption(_redemption_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption reward_redemptions%ROWTYPE;
+  _reward_name TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  SELECT * INTO _redemption FROM reward_redemptions WHERE id = _redemption_id FOR UPDATE;
+  IF NOT FOUND OR _redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'redemption_not_refundable';
+  END IF;
+
+  UPDATE reward_redemptions SET status = 'refunded' WHERE id = _redemption_id;
+
+  SELECT name INTO _reward_name FROM rewards WHERE id = _redemption.reward_id;
+  UPDATE rewards SET stock = stock + 1 WHERE id = _redemption.reward_id AND stock IS NOT NULL;
+
+  IF COALESCE(_redemption.coins_spent, 0) = 0 THEN
+    RETURN (SELECT balance FROM student_coins WHERE student_id = _redemption.student_id);
+  END IF;
+
+  RETURN coin_apply(
+    _redemption.student_id,
+    _redemption.coins_spent,
+    'refund',
+    COALESCE(NULLIF(trim(_reason), ''), 'Reembolso: ' || COALESCE(_reward_name, 'premio')),
+    auth.uid(),
+    _redemption_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refund_redemption(UUID, TEXT) TO authenticated;
+
+-- Manual admin grant (positive) or deduction (negative), as in AdjustCoinsModal
+CREATE OR REPLACE FUNCTION public.admin_adjust_coins(_student_id UUID, _amount INTEGER, _reason TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  RETURN coin_apply(_student_id, _amount, 'adjust', _reason, auth.uid(), NULL);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_adjust_coins(UUID, INTEGER, TEXT) TO authenticated;
+
+/*
+ * Rebuilds student_coins from the coin_transactions ledger and returns every student whose
+ * cached numbers drifted from it. With _apply the drift is corrected, except where the ledger
+ * itself sums below zero: those need a manual adjustment and come back with applied = false.
+ */
+CREATE OR REPLACE FUNCTION public.reconcile_coin_balances(_apply BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  student_id UUID,
+  full_name TEXT,
+  stored_balance INTEGER,
+  ledger_balance INTEGER,
+  stored_earned INTEGER,
+  ledger_earned INTEGER,
+  stored_spent INTEGER,
+  ledger_spent INTEGER,
+  applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  -- Lock the cached balances so nothing moves between comparing and correcting
+  PERFORM 1 FROM student_coins FOR UPDATE;
+
+  CREATE TEMP TABLE _coin_drift ON COMMIT DROP AS
+  WITH ledger AS (
+    SELECT t.student_id,
+      SUM(t.amount)::integer AS balance,
+      COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0 AND t.type <> 'refund'), 0)::integer AS earned,
+      (COALESCE(SUM(-t.amount) FILTER (WHERE t.amount < 0), 0)
+        - COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'refund'), 0))::integer AS spent
+    FROM coin_transactions t
+    GROUP BY t.student_id
+  )
+  SELECT sp.user_id AS student_id, sp.full_name,
+    COALESCE(c.balance, 0) AS stored_balance, COALESCE(l.balance, 0) AS ledger_balance,
+    COALESCE(c.total_earned, 0) AS stored_earned, COALESCE(l.earned, 0) AS ledger_earned,
+    COALESCE(c.total_spent, 0) AS stored_spent, COALESCE(l.spent, 0) AS ledger_spent
+  FROM student_profiles sp
+  LEFT JOIN student_coins c ON c.student_id = sp.user_id
+  LEFT JOIN ledger l ON l.student_id = sp.user_id
+  WHERE COALESCE(c.balance, 0) <> COALESCE(l.balance, 0)
+    OR COALESCE(c.total_earned, 0) <> COALESCE(l.earned, 0)
+    OR COALESCE(c.total_spent, 0) <> COALESCE(l.spent, 0);
+
+  IF _apply THEN
+    INSERT INTO student_coins AS c (student_id, balance, total_earned, total_spent)
+    SELECT d.student_id, d.ledger_balance, d.ledger_earned, d.ledger_spent
+    FROM _coin_drift d
+    WHERE d.ledger_balance >= 0
+    ON CONFLICT ON CONSTRAINT student_coins_pkey DO UPDATE SET
+      balance = EXCLUDED.balance,
+      total_earned = EXCLUDED.total_earned,
+      total_spent = EXCLUDED.total_spent;
+  END IF;
+
+  RETURN QUERY
+  SELECT d.student_id, d.full_name, d.stored_balance, d.ledger_balance, d.stored_earned,
+    d.ledger_earned, d.stored_spent, d.ledger_spent, _apply AND d.ledger_balance >= 0
+  FROM _coin_drift d
+  ORDER BY abs(d.ledger_balance - d.stored_balance) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reconcile_coin_balances(BOOLEAN) TO authenticated;
@@ -0,0 +1,404 @@
+-- Coins earned automatically from learning events. Admins edit the rules in RewardsManager;
+-- triggers on the event tables describe each event and award_event_coins applies every
+-- matching rule through coin_apply, so awards land in the same ledger as everything else.
+CREATE TABLE public.coin_earning_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'tutor_session_understood', 'remedial_week_completed', 'homework_submitted', 'icfes_score_improved'
+  )),
+  name TEXT NOT NULL,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  daily_cap INTEGER CHECK (daily_cap IS NULL OR daily_cap > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.coin_earning_rules.conditions IS
+  'Checked against the event: min_<key> / max_<key> compare numbers, any other key must equal the event value';
+COMMENT ON COLUMN public.coin_earning_rules.daily_cap IS 'Most coins one student can earn from this rule per day';
+
+ALTER TABLE public.coin_earning_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on coin_earning_rules"
+ON public.coin_earning_rules FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Students see the active rules in Tienda Nova ("Ver cómo ganar")
+CREATE POLICY "Authenticated users can view active coin rules"
+ON public.coin_earning_rules FOR SELECT
+TO authenticated
+USING (is_active = true);
+
+CREATE TRIGGER update_coin_earning_rules_updated_at
+BEFORE UPDATE ON public.coin_earning_rules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.coin_earning_rules (event_type, name, conditions, amount, daily_cap) VALUES
+  ('tutor_session_understood', 'Tutoría comprendida', '{"min_distinct_student_messages": 3}', 10, 30),
+  ('remedial_week_completed', 'Semana de refuerzo completada', '{}', 50, NULL),
+  ('homework_submitted', 'Tarea entregada a tiempo', '{"on_time": true}', 15, 30),
+  ('icfes_score_improved', 'Mejoró su puntaje ICFES', '{"min_improvement": 5}', 25, NULL);
+
+-- Where an earned transaction came from
+ALTER TABLE public.coin_transactions
+  ADD COLUMN rule_id UUID REFERENCES public.coin_earning_rules(id) ON DELETE SET NULL,
+  ADD COLUMN source_type TEXT,
+  ADD COLUMN source_id TEXT;
+
+-- A rule pays once per source, even if the event fires twice
+CREATE UNIQUE INDEX idx_coin_transactions_rule_source
+  ON public.coin_transactions(rule_id, source_type, source_id)
+  WHERE rule_id IS NOT NULL;
+
+-- coin_apply gains the source reference; callers passing six arguments are unchanged
+DROP FUNCTION public.coin_apply(UUID, INTEGER, TEXT, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.coin_apply(
+  _student_id UUID,
+  _amount INTEGER,
+  _type TEXT,
+  _reason TEXT,
+  _admin_id UUID DEFAULT NULL,
+  _redemption_id UUID DEFAULT NULL,
+  _rule_id UUID DEFAULT NULL,
+  _source_type TEXT DEFAULT NULL,
+  _source_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance INTEGER;
+BEGIN
+  IF _amount IS NULL OR _amount = 0 THEN
+    RAISE EXCEPTION 'invalid_amount';
+  END IF;
+
+  INSERT INTO student_coins (student_id, balance, total_earned, total_spent)
+  VALUES (_student_id, 0, 0, 0)
+  ON CONFLICT (student_id) DO NOTHING;
+
+  SELECT balance INTO _balance FROM student_coins WHERE student_id = _student_id FOR UPDATE;
+
+  IF _balance + _amount < 0 THEN
+    RAISE EXCEPTION 'insufficient_balance';
+  END IF;
+
+  INSERT INTO coin_transactions (
+    student_id, amount, type, reason, created_by_admin_id, redemption_id, rule_id, source_type, source_id
+  )
+  VALUES (_student_id, _amount, _type, _reason, _admin_id, _redemption_id, _rule_id, _source_type, _source_id);
+
+  UPDATE student_coins SET
+    balance = balance + _amount,
+    total_earned = total_earned + CASE WHEN _amount > 0 AND _type <> 'refund' THEN _amount ELSE 0 END,
+    total_spent = total_spent
+      + CASE WHEN _amount < 0 THEN -_amount ELSE 0 END
+      - CASE WHEN _type = 'refund' THEN _amount ELSE 0 END
+  WHERE student_id = _student_id
+  RETURNING balance INTO _balance;
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.coin_apply(UUID, INTEGER, TEXT, TEXT, UUID, UUID, UUID, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Whether an event (as a JSON object of facts) satisfies a rule's conditions
+CREATE OR REPLACE FUNCTION public.coin_rule_matches(_conditions JSONB, _event JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _key TEXT;
+  _expected JSONB;
+  _actual JSONB;
+BEGIN
+  FOR _key, _expected IN SELECT * FROM jsonb_each(COALESCE(_conditions, '{}'::jsonb)) LOOP
+    IF _key LIKE 'min\_%' OR _key LIKE 'max\_%' THEN
+      _actual := _event -> substring(_key FROM 5);
+      IF jsonb_typeof(_actual) IS DISTINCT FROM 'number' OR jsonb_typeof(_expected) <> 'number' THEN
+        RETURN false;
+      END IF;
+      IF _key LIKE 'min\_%' AND _actual::numeric < _expected::numeric THEN
+        RETURN false;
+      END IF;
+      IF _key LIKE 'max\_%' AND _actual::numeric > _expected::numeric THEN
+        RETURN false;
+      END IF;
+    ELSIF (_event -> _key) IS DISTINCT FROM _expected THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+/*
+ * Applies every active rule for the event and returns the coins awarded. Skipped, per rule:
+ * sources it already paid for, awards that would pass its daily cap, and events flagged
+ * is_repeat (the same material handed in again, which should not pay twice).
+ */
+CREATE OR REPLACE FUNCTION public.award_event_coins(
+  _student_id UUID,
+  _event_type TEXT,
+  _source_type TEXT,
+  _source_id TEXT,
+  _event JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule coin_earning_rules%ROWTYPE;
+  _earned_today INTEGER;
+  _awarded INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM student_profiles WHERE user_id = _student_id) THEN
+    RETURN 0;
+  END IF;
+
+  IF COALESCE((_event ->> 'is_repeat')::boolean, false) THEN
+    RETURN 0;
+  END IF;
+
+  FOR _rule IN
+    SELECT * FROM coin_earning_rules
+    WHERE event_type = _event_type AND is_active
+    ORDER BY created_at
+  LOOP
+    CONTINUE WHEN NOT coin_rule_matches(_rule.conditions, _event);
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM coin_transactions
+      WHERE rule_id = _rule.id AND source_type = _source_type AND source_id = _source_id
+    );
+
+    IF _rule.daily_cap IS NOT NULL THEN
+      SELECT COALESCE(SUM(amount), 0) INTO _earned_today
+      FROM coin_transactions
+      WHERE student_id = _student_id AND rule_id = _rule.id
+        AND created_at >= date_trunc('day', now() AT TIME ZONE 'America/Bogota') AT TIME ZONE 'America/Bogota';
+      CONTINUE WHEN _earned_today + _rule.amount > _rule.daily_cap;
+    END IF;
+
+    PERFORM coin_apply(
+      _student_id,
+      _rule.amount,
+      'earn',
+      _rule.name || COALESCE(': ' || NULLIF(_event ->> 'label', ''), ''),
+      NULL,
+      NULL,
+      _rule.id,
+      _source_type,
+      _source_id
+    );
+    _awarded := _awarded + _rule.amount;
+  END LOOP;
+
+  RETURN _awarded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_event_coins(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Awarding never blocks the learning event itself; failures are only logged
+CREATE OR REPLACE FUNCTION public.award_event_coins_safely(
+  _student_id UUID,
+  _event_type TEXT,
+  _source_type TEXT,
+  _source_id TEXT,
+  _event JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM award_event_coins(_student_id, _event_type, _source_type, _source_id, _event);
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Coin award for % % failed: %', _event_type, _source_id, SQLERRM;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_event_coins_safely(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Tutor session closed as UNDERSTOOD. Counting distinct student messages keeps a chat of
+-- the same answer pasted over and over from qualifying.
+CREATE OR REPLACE FUNCTION public.coin_event_tutor_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_messages INTEGER;
+  _distinct_messages INTEGER;
+BEGIN
+  IF NEW.overall_status IS DISTINCT FROM 'UNDERSTOOD' OR OLD.overall_status IS NOT DISTINCT FROM 'UNDERSTOOD' THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.student_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*), COUNT(DISTINCT lower(regexp_replace(trim(m ->> 'content'), '\s+', ' ', 'g')))
+  INTO _student_messages, _distinct_messages
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(NEW.messages) = 'array' THEN NEW.messages ELSE '[]'::jsonb END) m
+  WHERE m ->> 'role' = 'user' AND COALESCE(trim(m ->> 'content'), '') <> '';
+
+  PERFORM award_event_coins_safely(
+    NEW.student_id::uuid,
+    'tutor_session_understood',
+    'tutor_session',
+    NEW.id::text,
+    jsonb_build_object(
+      'label', NEW.skill,
+      'skill', NEW.skill,
+      'age_group', NEW.age_group,
+      'student_messages', _student_messages,
+      'distinct_student_messages', _distinct_messages
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_coins_on_tutor_session_understood
+AFTER UPDATE OF overall_status ON public.tutor_sessions
+FOR EACH ROW EXECUTE FUNCTION public.coin_event_tutor_session();
+
+CREATE OR REPLACE FUNCTION public.coin_event_remedial_week()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program RECORD;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT student_id, subject INTO _program FROM student_remedial_programs WHERE id = NEW.student_program_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM award_event_coins_safely(
+    _program.student_id,
+    'remedial_week_completed',
+    'remedial_week',
+    NEW.id::text,
+    jsonb_build_object(
+      'label', 'semana ' || NEW.week_number || ' (' || NEW.topic || ')',
+      'subject', _program.subject,
+      'week_number', NEW.week_number
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_coins_on_remedial_week_completed
+AFTER UPDATE OF status ON public.remedial_program_weeks
+FOR EACH ROW EXECUTE FUNCTION public.coin_event_remedial_week();
+
+-- Homework handed in. A file already handed in for another task is a repeat and pays nothing.
+CREATE OR REPLACE FUNCTION public.coin_event_homework_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task RECORD;
+  _file_url TEXT;
+  _is_repeat BOOLEAN := false;
+BEGIN
+  SELECT id, week_number, due_date, description INTO _task FROM homework_tasks WHERE id = NEW.homework_task_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.repository_item_id IS NOT NULL THEN
+    SELECT file_url INTO _file_url FROM repository_items WHERE id = NEW.repository_item_id;
+    SELECT EXISTS (
+      SELECT 1
+      FROM homework_submissions s
+      LEFT JOIN repository_items r ON r.id = s.repository_item_id
+      WHERE s.student_id = NEW.student_id
+        AND s.id <> NEW.id
+        AND s.homework_task_id <> NEW.homework_task_id
+        AND (s.repository_item_id = NEW.repository_item_id OR r.file_url = _file_url)
+    ) INTO _is_repeat;
+  END IF;
+
+  PERFORM award_event_coins_safely(
+    NEW.student_id,
+    'homework_submitted',
+    'homework_task',
+    _task.id::text,
+    jsonb_build_object(
+      'label', 'tarea de la semana ' || _task.week_number,
+      'week_number', _task.week_number,
+      'on_time', _task.due_date IS NULL OR (NEW.submitted_at AT TIME ZONE 'America/Bogota')::date <= _task.due_date,
+      'is_repeat', _is_repeat
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_coins_on_homework_submitted
+AFTER INSERT ON public.homework_submissions
+FOR EACH ROW EXECUTE FUNCTION public.coin_event_homework_submission();
+
+-- A full simulacro above the student's previous best. Measuring against the best, not the
+-- last result, means dropping and recovering the same points does not pay again.
+CREATE OR REPLACE FUNCTION public.coin_event_icfes_result()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous_best INTEGER;
+BEGIN
+  SELECT MAX(score_global) INTO _previous_best
+  FROM icfes_results
+  WHERE student_id = NEW.student_id AND id <> NEW.id AND completed_at < NEW.completed_at;
+
+  IF NEW.score_global IS NULL OR _previous_best IS NULL OR NEW.score_global <= _previous_best THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM award_event_coins_safely(
+    NEW.student_id,
+    'icfes_score_improved',
+    'icfes_attempt',
+    COALESCE(NEW.attempt_id, NEW.id)::text,
+    jsonb_build_object(
+      'label', _previous_best || ' → ' || NEW.score_global,
+      'score', NEW.score_global,
+      'previous_best', _previous_best,
+      'improvement', NEW.score_global - _previous_best
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_coins_on_icfes_result
+AFTER INSERT ON public.icfes_results
+FOR EACH ROW EXECUTE FUNCTION public.coin_event_icfes_result();
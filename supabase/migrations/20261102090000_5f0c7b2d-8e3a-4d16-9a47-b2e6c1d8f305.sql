@@ -0,0 +1,395 @@
+-- Fulfillment of Tienda Nova redemptions:
+--   pending_guardian -> pending -> approved -> shipped -> delivered, or rejected (coins refunded).
+-- Every status change or note is kept in reward_redemption_events. Digital rewards are
+-- delivered as soon as nothing else has to approve them.
+ALTER TABLE public.rewards
+  ADD COLUMN fulfillment_type TEXT NOT NULL DEFAULT 'manual'
+    CHECK (fulfillment_type IN ('manual', 'digital_code', 'unlock_item')),
+  ADD COLUMN unlock_item_key TEXT;
+
+COMMENT ON COLUMN public.rewards.fulfillment_type IS
+  'manual: an admin ships and delivers it; digital_code: hands out a code from reward_codes; unlock_item: unlocks unlock_item_key';
+
+-- Pool of codes for digital_code rewards, handed out one per redemption
+CREATE TABLE public.reward_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reward_id UUID NOT NULL REFERENCES public.rewards(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  redemption_id UUID UNIQUE,
+  assigned_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (reward_id, code)
+);
+
+CREATE INDEX idx_reward_codes_available ON public.reward_codes(reward_id) WHERE redemption_id IS NULL;
+
+ALTER TABLE public.reward_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on reward_codes"
+ON public.reward_codes FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Items unlocked by unlock_item rewards (for example an avatar accessory)
+CREATE TABLE public.student_unlocked_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.student_profiles(user_id) ON DELETE CASCADE,
+  item_key TEXT NOT NULL,
+  reward_id UUID REFERENCES public.rewards(id) ON DELETE SET NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (student_id, item_key)
+);
+
+ALTER TABLE public.student_unlocked_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on student_unlocked_items"
+ON public.student_unlocked_items FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students can view their own unlocked items"
+ON public.student_unlocked_items FOR SELECT
+USING (auth.uid() = student_id);
+
+-- A guardian can require approving each redemption of a (usually younger) student.
+-- Kept apart from student_profiles, which students can update themselves.
+CREATE TABLE public.guardian_student_settings (
+  student_id UUID NOT NULL PRIMARY KEY REFERENCES public.student_profiles(user_id) ON DELETE CASCADE,
+  approve_redemptions BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.guardian_student_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on guardian_student_settings"
+ON public.guardian_student_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Guardians manage settings of their students"
+ON public.guardian_student_settings FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.student_profiles sp
+  WHERE sp.user_id = guardian_student_settings.student_id AND sp.guardian_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.student_profiles sp
+  WHERE sp.user_id = guardian_student_settings.student_id AND sp.guardian_id = auth.uid()
+));
+
+CREATE POLICY "Students can view their own guardian settings"
+ON public.guardian_student_settings FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE TRIGGER update_guardian_student_settings_updated_at
+BEFORE UPDATE ON public.guardian_student_settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Redemptions: new states, the delivered code, and when the status last changed
+ALTER TABLE public.reward_redemptions DROP CONSTRAINT IF EXISTS reward_redemptions_status_check;
+UPDATE public.reward_redemptions SET status = 'rejected' WHERE status = 'refunded';
+ALTER TABLE public.reward_redemptions
+  ADD CONSTRAINT reward_redemptions_status_check
+    CHECK (status IN ('pending_guardian', 'pending', 'approved', 'shipped', 'delivered', 'rejected')),
+  ADD COLUMN digital_code TEXT,
+  ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.reward_codes
+  ADD CONSTRAINT reward_codes_redemption_id_fkey
+    FOREIGN KEY (redemption_id) REFERENCES public.reward_redemptions(id) ON DELETE SET NULL;
+
+CREATE POLICY "Guardians can view redemptions of their students"
+ON public.reward_redemptions FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_profiles sp
+  WHERE sp.user_id = reward_redemptions.student_id AND sp.guardian_id = auth.uid()
+));
+
+-- Audit trail: who moved a redemption, from where to where, and why
+CREATE TABLE public.reward_redemption_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  redemption_id UUID NOT NULL REFERENCES public.reward_redemptions(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  note TEXT,
+  actor_id UUID,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('student', 'guardian', 'admin', 'system')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reward_redemption_events_redemption ON public.reward_redemption_events(redemption_id, created_at);
+
+ALTER TABLE public.reward_redemption_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on reward_redemption_events"
+ON public.reward_redemption_events FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students and guardians can view redemption events"
+ON public.reward_redemption_events FOR SELECT
+USING (EXISTS (
+  SELECT 1
+  FROM public.reward_redemptions rr
+  JOIN public.student_profiles sp ON sp.user_id = rr.student_id
+  WHERE rr.id = reward_redemption_events.redemption_id
+    AND (rr.student_id = auth.uid() OR sp.guardian_id = auth.uid())
+));
+
+-- Past redemptions start their history where they are now
+INSERT INTO public.reward_redemption_events (redemption_id, from_status, to_status, actor_role, created_at)
+SELECT id, NULL, status, 'system', created_at FROM public.reward_redemptions;
+
+-- Hands out a code or unlocks the item of a digital reward and marks the redemption delivered.
+-- Without codes left it stays pending for an admin. Returns the resulting status.
+CREATE OR REPLACE FUNCTION public.deliver_digital_redemption(_redemption_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption reward_redemptions%ROWTYPE;
+  _reward rewards%ROWTYPE;
+  _code reward_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO _redemption FROM reward_redemptions WHERE id = _redemption_id FOR UPDATE;
+  SELECT * INTO _reward FROM rewards WHERE id = _redemption.reward_id;
+
+  IF _redemption.status <> 'pending' OR _reward.fulfillment_type = 'manual' THEN
+    RETURN _redemption.status;
+  END IF;
+
+  IF _reward.fulfillment_type = 'digital_code' THEN
+    SELECT * INTO _code FROM reward_codes
+    WHERE reward_id = _reward.id AND redemption_id IS NULL
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      INSERT INTO reward_redemption_events (redemption_id, from_status, to_status, note, actor_role)
+      VALUES (_redemption_id, 'pending', 'pending', 'No quedan códigos: requiere entrega manual', 'system');
+      RETURN 'pending';
+    END IF;
+
+    UPDATE reward_codes SET redemption_id = _redemption_id, assigned_at = now() WHERE id = _code.id;
+    UPDATE reward_redemptions SET digital_code = _code.code WHERE id = _redemption_id;
+  ELSIF _reward.unlock_item_key IS NOT NULL THEN
+    INSERT INTO student_unlocked_items (student_id, item_key, reward_id)
+    VALUES (_redemption.student_id, _reward.unlock_item_key, _reward.id)
+    ON CONFLICT (student_id, item_key) DO NOTHING;
+  ELSE
+    RETURN 'pending';
+  END IF;
+
+  UPDATE reward_redemptions SET status = 'delivered', status_changed_at = now(), delivered_at = now()
+  WHERE id = _redemption_id;
+
+  INSERT INTO reward_redemption_events (redemption_id, from_status, to_status, note, actor_role)
+  VALUES (_redemption_id, 'pending', 'delivered', 'Entrega digital automática', 'system');
+
+  RETURN 'delivered';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.deliver_digital_redemption(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Moves a redemption and records it. Rejecting refunds the coins and returns the unit to stock.
+CREATE OR REPLACE FUNCTION public.redemption_transition(
+  _redemption_id UUID,
+  _to_status TEXT,
+  _note TEXT,
+  _actor_id UUID,
+  _actor_role TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption reward_redemptions%ROWTYPE;
+  _reward rewards%ROWTYPE;
+  _note_text TEXT := NULLIF(trim(COALESCE(_note, '')), '');
+BEGIN
+  SELECT * INTO _redemption FROM reward_redemptions WHERE id = _redemption_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'redemption_not_found';
+  END IF;
+  SELECT * INTO _reward FROM rewards WHERE id = _redemption.reward_id;
+
+  -- Same status: only a note for the history
+  IF _to_status = _redemption.status THEN
+    IF _note_text IS NOT NULL THEN
+      INSERT INTO reward_redemption_events (redemption_id, from_status, to_status, note, actor_id, actor_role)
+      VALUES (_redemption_id, _redemption.status, _redemption.status, _note_text, _actor_id, _actor_role);
+    END IF;
+    RETURN _redemption.status;
+  END IF;
+
+  IF NOT (
+    (_redemption.status = 'pending_guardian' AND _to_status IN ('pending', 'rejected'))
+    OR (_redemption.status = 'pending' AND _to_status IN ('approved', 'delivered', 'rejected'))
+    OR (_redemption.status = 'approved' AND _to_status IN ('shipped', 'delivered', 'rejected'))
+    OR (_redemption.status = 'shipped' AND _to_status = 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'invalid_redemption_transition';
+  END IF;
+
+  IF _to_status = 'rejected' THEN
+    UPDATE rewards SET stock = stock + 1 WHERE id = _redemption.reward_id AND stock IS NOT NULL;
+    IF COALESCE(_redemption.coins_spent, 0) > 0 THEN
+      PERFORM coin_apply(
+        _redemption.student_id,
+        _redemption.coins_spent,
+        'refund',
+        'Reembolso: ' || COALESCE(_reward.name, 'premio'),
+        CASE WHEN _actor_role = 'admin' THEN _actor_id END,
+        _redemption_id
+      );
+    END IF;
+  END IF;
+
+  UPDATE reward_redemptions SET
+    status = _to_status,
+    status_changed_at = now(),
+    delivered_at = CASE WHEN _to_status = 'delivered' THEN now() ELSE delivered_at END,
+    delivered_by_admin_id = CASE WHEN _to_status = 'delivered' AND _actor_role = 'admin' THEN _actor_id ELSE delivered_by_admin_id END
+  WHERE id = _redemption_id;
+
+  INSERT INTO reward_redemption_events (redemption_id, from_status, to_status, note, actor_id, actor_role)
+  VALUES (_redemption_id, _redemption.status, _to_status, _note_text, _actor_id, _actor_role);
+
+  -- Once nobody else has to approve it, a digital reward delivers itself
+  IF _to_status = 'pending' THEN
+    RETURN deliver_digital_redemption(_redemption_id);
+  END IF;
+
+  RETURN _to_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redemption_transition(UUID, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Redeeming now starts the workflow: waiting for the guardian if they asked to approve,
+-- otherwise pending (and delivered right away for digital rewards).
+CREATE OR REPLACE FUNCTION public.redeem_reward(_reward_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id UUID := auth.uid();
+  _reward rewards%ROWTYPE;
+  _redeemed INTEGER;
+  _redemption_id UUID;
+  _balance INTEGER;
+  _needs_guardian BOOLEAN;
+  _status TEXT;
+BEGIN
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _reward FROM rewards WHERE id = _reward_id FOR UPDATE;
+  IF NOT FOUND OR NOT _reward.is_active THEN
+    RAISE EXCEPTION 'reward_unavailable';
+  END IF;
+
+  IF _reward.stock IS NOT NULL AND _reward.stock <= 0 THEN
+    RAISE EXCEPTION 'out_of_stock';
+  END IF;
+
+  IF _reward.max_per_student IS NOT NULL THEN
+    SELECT COUNT(*) INTO _redeemed
+    FROM reward_redemptions
+    WHERE student_id = _student_id AND reward_id = _reward_id AND status <> 'rejected';
+
+    IF _redeemed >= _reward.max_per_student THEN
+      RAISE EXCEPTION 'redemption_limit_reached';
+    END IF;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM guardian_student_settings gs
+    JOIN student_profiles sp ON sp.user_id = gs.student_id
+    WHERE gs.student_id = _student_id AND gs.approve_redemptions AND sp.guardian_id IS NOT NULL
+  ) INTO _needs_guardian;
+
+  _status := CASE WHEN _needs_guardian THEN 'pending_guardian' ELSE 'pending' END;
+
+  INSERT INTO reward_redemptions (student_id, reward_id, status, coins_spent)
+  VALUES (_student_id, _reward_id, _status, _reward.cost_coins)
+  RETURNING id INTO _redemption_id;
+
+  INSERT INTO reward_redemption_events (redemption_id, from_status, to_status, actor_id, actor_role)
+  VALUES (_redemption_id, NULL, _status, _student_id, 'student');
+
+  _balance := coin_apply(_student_id, -_reward.cost_coins, 'spend', 'Canje: ' || _reward.name, NULL, _redemption_id);
+
+  IF _reward.stock IS NOT NULL THEN
+    UPDATE rewards SET stock = stock - 1 WHERE id = _reward_id;
+  END IF;
+
+  IF _status = 'pending' THEN
+    _status := deliver_digital_redemption(_redemption_id);
+  END IF;
+
+  RETURN jsonb_build_object('redemption_id', _redemption_id, 'balance', _balance, 'status', _status);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.redeem_reward(UUID) TO authenticated;
+
+-- Guardian decision on a redemption waiting for them
+CREATE OR REPLACE FUNCTION public.guardian_review_redemption(_redemption_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM reward_redemptions rr
+    JOIN student_profiles sp ON sp.user_id = rr.student_id
+    WHERE rr.id = _redemption_id AND sp.guardian_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  IF (SELECT status FROM reward_redemptions WHERE id = _redemption_id) <> 'pending_guardian' THEN
+    RAISE EXCEPTION 'invalid_redemption_transition';
+  END IF;
+
+  RETURN redemption_transition(
+    _redemption_id,
+    CASE WHEN _approve THEN 'pending' ELSE 'rejected' END,
+    _note,
+    auth.uid(),
+    'guardian'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.guardian_review_redemption(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Admin moves a redemption through the queue, or adds a note by passing its current status
+CREATE OR REPLACE FUNCTION public.update_redemption_status(_redemption_id UUID, _status TEXT, _note TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  RETURN redemption_transition(_redemption_id, _status, _note, auth.uid(), 'admin');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_redemption_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Rejecting with refund replaces the earlier refund-only function
+DROP FUNCTION public.refund_redemption(UUID, TEXT);
@@ -0,0 +1,680 @@
+-- Arena: leaderboards computed from learning activity and challenges that pay into the coin ledger.
+
+-- How a student appears in the Arena. Without a nickname only the first name and an initial
+-- are shown; hidden students are left out of every ranking.
+CREATE TABLE public.arena_profiles (
+  student_id UUID NOT NULL PRIMARY KEY REFERENCES public.student_profiles(user_id) ON DELETE CASCADE,
+  nickname TEXT CHECK (nickname IS NULL OR nickname ~ '^[[:alnum:]_ áéíóúÁÉÍÓÚñÑüÜ]{3,20}$'),
+  hide_from_leaderboards BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_arena_profiles_nickname ON public.arena_profiles(lower(nickname)) WHERE nickname IS NOT NULL;
+
+ALTER TABLE public.arena_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on arena_profiles"
+ON public.arena_profiles FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students manage their own arena profile"
+ON public.arena_profiles FOR ALL
+USING (auth.uid() = student_id)
+WITH CHECK (auth.uid() = student_id);
+
+CREATE TRIGGER update_arena_profiles_updated_at
+BEFORE UPDATE ON public.arena_profiles
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Guardians can keep a student out of the rankings regardless of the student's own choice
+ALTER TABLE public.guardian_student_settings
+  ADD COLUMN hide_from_leaderboards BOOLEAN NOT NULL DEFAULT false;
+
+-- Challenges: a fixed question set open between starts_at and ends_at
+CREATE TABLE public.arena_challenges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  area TEXT NOT NULL,
+  difficulty TEXT NOT NULL DEFAULT 'medio' CHECK (difficulty IN ('facil', 'medio', 'dificil')),
+  grade_level INTEGER,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  prize_coins INTEGER NOT NULL CHECK (prize_coins > 0),
+  winner_count INTEGER NOT NULL DEFAULT 3 CHECK (winner_count > 0),
+  settled_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_arena_challenges_ends_at ON public.arena_challenges(ends_at);
+
+ALTER TABLE public.arena_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on arena_challenges"
+ON public.arena_challenges FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view arena challenges"
+ON public.arena_challenges FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_arena_challenges_updated_at
+BEFORE UPDATE ON public.arena_challenges
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.arena_challenge_questions (
+  challenge_id UUID NOT NULL REFERENCES public.arena_challenges(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.icfes_questions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (challenge_id, question_id)
+);
+
+ALTER TABLE public.arena_challenge_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on arena_challenge_questions"
+ON public.arena_challenge_questions FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- The question set stays hidden until the challenge opens
+CREATE POLICY "Authenticated users can view questions of open challenges"
+ON public.arena_challenge_questions FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.arena_challenges c
+  WHERE c.id = arena_challenge_questions.challenge_id AND c.starts_at <= now()
+));
+
+CREATE TABLE public.arena_challenge_participants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  challenge_id UUID NOT NULL REFERENCES public.arena_challenges(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.student_profiles(user_id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  answered_count INTEGER NOT NULL DEFAULT 0,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  final_rank INTEGER,
+  prize_coins INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (challenge_id, student_id)
+);
+
+ALTER TABLE public.arena_challenge_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on arena_challenge_participants"
+ON public.arena_challenge_participants FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students can view their own participations"
+ON public.arena_challenge_participants FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE TABLE public.arena_challenge_answers (
+  participant_id UUID NOT NULL REFERENCES public.arena_challenge_participants(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.icfes_questions(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (participant_id, question_id)
+);
+
+ALTER TABLE public.arena_challenge_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on arena_challenge_answers"
+ON public.arena_challenge_answers FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students can view their own challenge answers"
+ON public.arena_challenge_answers FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.arena_challenge_participants p
+  WHERE p.id = arena_challenge_answers.participant_id AND p.student_id = auth.uid()
+));
+
+-- Name shown in rankings: nickname, or first name plus the initial of the next word
+CREATE OR REPLACE FUNCTION public.arena_display_name(_full_name TEXT, _nickname TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    NULLIF(trim(_nickname), ''),
+    split_part(trim(_full_name), ' ', 1)
+      || COALESCE(' ' || upper(left(NULLIF(split_part(trim(_full_name), ' ', 2), ''), 1)) || '.', '')
+  );
+$$;
+
+-- Start of the leaderboard window in Bogotá time; all_time has no start
+CREATE OR REPLACE FUNCTION public.arena_window_start(_window TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE _window
+    WHEN 'weekly' THEN date_trunc('week', now() AT TIME ZONE 'America/Bogota') AT TIME ZONE 'America/Bogota'
+    WHEN 'monthly' THEN date_trunc('month', now() AT TIME ZONE 'America/Bogota') AT TIME ZONE 'America/Bogota'
+    ELSE '-infinity'::timestamptz
+  END;
+$$;
+
+-- Runs of consecutive Bogotá days with at least one tutor session since _since:
+-- the longest one, and the one still alive (last day today or yesterday)
+CREATE OR REPLACE FUNCTION public.tutor_streaks(_student_id UUID, _since TIMESTAMP WITH TIME ZONE DEFAULT '-infinity')
+RETURNS TABLE (longest_days INTEGER, current_days INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT DISTINCT (timestamp_start AT TIME ZONE 'America/Bogota')::date AS day
+    FROM tutor_sessions
+    WHERE student_id = _student_id::text AND timestamp_start >= _since
+  ),
+  runs AS (
+    SELECT COUNT(*)::integer AS length, MAX(day) AS last_day
+    FROM (SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::integer AS grp FROM days) d
+    GROUP BY grp
+  )
+  SELECT
+    COALESCE(MAX(length), 0),
+    COALESCE(MAX(length) FILTER (WHERE last_day >= (now() AT TIME ZONE 'America/Bogota')::date - 1), 0)
+  FROM runs;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tutor_streaks(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Ranking for one metric, scope and window. Returns the top _limit plus the caller's own row.
+--   coins:  coins earned (type 'earn') in the window
+--   icfes:  best global score in the window minus the best before it (or the first in the window)
+--   streak: longest run of consecutive days with tutor sessions in the window
+-- Scopes: global, grade (same grade as the caller) and group (students of the caller's guardian,
+-- which is how a family or a school account groups its students).
+CREATE OR REPLACE FUNCTION public.arena_leaderboard(
+  _metric TEXT,
+  _scope TEXT DEFAULT 'global',
+  _window TEXT DEFAULT 'weekly',
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  place BIGINT,
+  display_name TEXT,
+  score NUMERIC,
+  grade_level INTEGER,
+  is_self BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _me UUID := auth.uid();
+  _my_grade INTEGER;
+  _my_guardian UUID;
+  _since TIMESTAMP WITH TIME ZONE := arena_window_start(_window);
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF _metric NOT IN ('coins', 'icfes', 'streak')
+    OR _scope NOT IN ('global', 'grade', 'group')
+    OR _window NOT IN ('weekly', 'monthly', 'all_time') THEN
+    RAISE EXCEPTION 'invalid_leaderboard';
+  END IF;
+
+  SELECT sp.grade_level, sp.guardian_id INTO _my_grade, _my_guardian
+  FROM student_profiles sp WHERE sp.user_id = _me;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT sp.user_id, sp.full_name, sp.grade_level, ap.nickname
+    FROM student_profiles sp
+    LEFT JOIN arena_profiles ap ON ap.student_id = sp.user_id
+    LEFT JOIN guardian_student_settings gs ON gs.student_id = sp.user_id
+    WHERE NOT COALESCE(ap.hide_from_leaderboards, false)
+      AND NOT COALESCE(gs.hide_from_leaderboards, false)
+      AND (
+        _scope = 'global'
+        OR (_scope = 'grade' AND sp.grade_level = _my_grade)
+        OR (_scope = 'group' AND sp.guardian_id = _my_guardian)
+      )
+  ),
+  scores AS (
+    SELECT m.user_id,
+      CASE _metric
+        WHEN 'coins' THEN (
+          SELECT COALESCE(SUM(ct.amount), 0)
+          FROM coin_transactions ct
+          WHERE ct.student_id = m.user_id AND ct.type = 'earn' AND ct.created_at >= _since
+        )::numeric
+        WHEN 'icfes' THEN GREATEST(
+          (
+            SELECT MAX(r.score_global) FROM icfes_results r
+            WHERE r.student_id = m.user_id AND r.completed_at >= _since
+          ) - COALESCE(
+            (
+              SELECT MAX(r.score_global) FROM icfes_results r
+              WHERE r.student_id = m.user_id AND r.completed_at < _since
+            ),
+            (
+              SELECT r.score_global FROM icfes_results r
+              WHERE r.student_id = m.user_id AND r.completed_at >= _since AND r.score_global IS NOT NULL
+              ORDER BY r.completed_at
+              LIMIT 1
+            )
+          ),
+          0
+        )::numeric
+        ELSE (SELECT ts.longest_days FROM tutor_streaks(m.user_id, _since) ts)::numeric
+      END AS score
+    FROM members m
+  ),
+  ranked AS (
+    SELECT s.user_id, s.score, RANK() OVER (ORDER BY s.score DESC) AS place
+    FROM scores s
+    WHERE s.score > 0
+  )
+  SELECT r.place, arena_display_name(m.full_name, m.nickname), r.score, m.grade_level, r.user_id = _me
+  FROM ranked r
+  JOIN members m ON m.user_id = r.user_id
+  WHERE r.place <= _limit OR r.user_id = _me
+  ORDER BY r.place, 2;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_leaderboard(TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- Header numbers of the Arena page for the signed-in student
+CREATE OR REPLACE FUNCTION public.arena_my_stats()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _streaks RECORD;
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _streaks FROM tutor_streaks(_me);
+
+  RETURN jsonb_build_object(
+    'current_streak_days', _streaks.current_days,
+    'longest_streak_days', _streaks.longest_days,
+    'challenges_won', (
+      SELECT COUNT(*) FROM arena_challenge_participants
+      WHERE student_id = _me AND prize_coins > 0
+    ),
+    'challenges_played', (
+      SELECT COUNT(*) FROM arena_challenge_participants
+      WHERE student_id = _me AND answered_count > 0
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_my_stats() TO authenticated;
+
+-- Admin creates a challenge with a random set of active multiple-choice questions of the area
+CREATE OR REPLACE FUNCTION public.create_arena_challenge(
+  _title TEXT,
+  _description TEXT,
+  _area TEXT,
+  _difficulty TEXT,
+  _question_count INTEGER,
+  _grade_level INTEGER,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _ends_at TIMESTAMP WITH TIME ZONE,
+  _prize_coins INTEGER,
+  _winner_count INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _challenge_id UUID;
+  _picked INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  INSERT INTO arena_challenges (
+    title, description, area, difficulty, grade_level, starts_at, ends_at, prize_coins, winner_count, created_by
+  )
+  VALUES (
+    _title, NULLIF(trim(COALESCE(_description, '')), ''), _area, _difficulty, _grade_level,
+    _starts_at, _ends_at, _prize_coins, _winner_count, auth.uid()
+  )
+  RETURNING id INTO _challenge_id;
+
+  INSERT INTO arena_challenge_questions (challenge_id, question_id, position)
+  SELECT _challenge_id, q.id, ROW_NUMBER() OVER (ORDER BY random())
+  FROM (
+    SELECT id FROM icfes_questions
+    WHERE area = _area
+      AND review_status = 'active'
+      AND formato = 'seleccion'
+      AND passage_id IS NULL
+      AND CASE _difficulty
+        WHEN 'facil' THEN dificultad <= 2
+        WHEN 'dificil' THEN dificultad >= 4
+        ELSE dificultad BETWEEN 2 AND 4
+      END
+    ORDER BY random()
+    LIMIT _question_count
+  ) q;
+
+  GET DIAGNOSTICS _picked = ROW_COUNT;
+  IF _picked < _question_count THEN
+    RAISE EXCEPTION 'not_enough_questions';
+  END IF;
+
+  RETURN _challenge_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_arena_challenge(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) TO authenticated;
+
+-- Challenges the caller can see (their grade or open to all; admins see every one),
+-- recent finished ones included, with participation numbers and the caller's own progress
+CREATE OR REPLACE FUNCTION public.arena_challenge_list()
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  area TEXT,
+  difficulty TEXT,
+  grade_level INTEGER,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  prize_coins INTEGER,
+  winner_count INTEGER,
+  settled_at TIMESTAMP WITH TIME ZONE,
+  question_count INTEGER,
+  participant_count INTEGER,
+  joined BOOLEAN,
+  answered_count INTEGER,
+  correct_count INTEGER,
+  final_rank INTEGER,
+  prize_awarded INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _me UUID := auth.uid();
+  _is_admin BOOLEAN := has_role(auth.uid(), 'admin'::app_role);
+  _my_grade INTEGER;
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT sp.grade_level INTO _my_grade FROM student_profiles sp WHERE sp.user_id = _me;
+
+  RETURN QUERY
+  SELECT
+    c.id, c.title, c.description, c.area, c.difficulty, c.grade_level,
+    c.starts_at, c.ends_at, c.prize_coins, c.winner_count, c.settled_at,
+    (SELECT COUNT(*)::integer FROM arena_challenge_questions q WHERE q.challenge_id = c.id),
+    (SELECT COUNT(*)::integer FROM arena_challenge_participants p WHERE p.challenge_id = c.id),
+    me.id IS NOT NULL,
+    COALESCE(me.answered_count, 0),
+    COALESCE(me.correct_count, 0),
+    me.final_rank,
+    COALESCE(me.prize_coins, 0)
+  FROM arena_challenges c
+  LEFT JOIN arena_challenge_participants me ON me.challenge_id = c.id AND me.student_id = _me
+  WHERE _is_admin
+    OR ((c.grade_level IS NULL OR c.grade_level = _my_grade) AND c.ends_at > now() - interval '14 days')
+  ORDER BY c.ends_at <= now(), c.ends_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_challenge_list() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.join_arena_challenge(_challenge_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _challenge arena_challenges%ROWTYPE;
+  _participant_id UUID;
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _challenge FROM arena_challenges WHERE id = _challenge_id;
+  IF NOT FOUND OR now() < _challenge.starts_at OR now() >= _challenge.ends_at THEN
+    RAISE EXCEPTION 'challenge_not_open';
+  END IF;
+
+  IF _challenge.grade_level IS NOT NULL AND _challenge.grade_level IS DISTINCT FROM (
+    SELECT grade_level FROM student_profiles WHERE user_id = _me
+  ) THEN
+    RAISE EXCEPTION 'challenge_not_for_grade';
+  END IF;
+
+  INSERT INTO arena_challenge_participants (challenge_id, student_id)
+  VALUES (_challenge_id, _me)
+  ON CONFLICT (challenge_id, student_id) DO NOTHING;
+
+  SELECT id INTO _participant_id FROM arena_challenge_participants
+  WHERE challenge_id = _challenge_id AND student_id = _me;
+
+  RETURN _participant_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_arena_challenge(UUID) TO authenticated;
+
+-- Grades one answer on the server; each question counts once
+CREATE OR REPLACE FUNCTION public.submit_arena_answer(_challenge_id UUID, _question_id UUID, _answer TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _challenge arena_challenges%ROWTYPE;
+  _participant arena_challenge_participants%ROWTYPE;
+  _correct_answer TEXT;
+  _is_correct BOOLEAN;
+  _total INTEGER;
+BEGIN
+  SELECT * INTO _challenge FROM arena_challenges WHERE id = _challenge_id;
+  IF NOT FOUND OR now() < _challenge.starts_at OR now() >= _challenge.ends_at THEN
+    RAISE EXCEPTION 'challenge_not_open';
+  END IF;
+
+  SELECT * INTO _participant FROM arena_challenge_participants
+  WHERE challenge_id = _challenge_id AND student_id = _me
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_joined';
+  END IF;
+
+  SELECT q.respuesta_correcta INTO _correct_answer
+  FROM arena_challenge_questions cq
+  JOIN icfes_questions q ON q.id = cq.question_id
+  WHERE cq.challenge_id = _challenge_id AND cq.question_id = _question_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'question_not_in_challenge';
+  END IF;
+
+  _is_correct := upper(trim(_answer)) = upper(trim(_correct_answer));
+
+  INSERT INTO arena_challenge_answers (participant_id, question_id, answer, is_correct)
+  VALUES (_participant.id, _question_id, _answer, _is_correct)
+  ON CONFLICT (participant_id, question_id) DO NOTHING;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'already_answered';
+  END IF;
+
+  SELECT COUNT(*) INTO _total FROM arena_challenge_questions WHERE challenge_id = _challenge_id;
+
+  UPDATE arena_challenge_participants SET
+    answered_count = answered_count + 1,
+    correct_count = correct_count + CASE WHEN _is_correct THEN 1 ELSE 0 END,
+    finished_at = CASE WHEN answered_count + 1 >= _total THEN now() ELSE finished_at END
+  WHERE id = _participant.id;
+
+  RETURN jsonb_build_object(
+    'is_correct', _is_correct,
+    'correct_answer', _correct_answer,
+    'finished', _participant.answered_count + 1 >= _total
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_arena_answer(UUID, UUID, TEXT) TO authenticated;
+
+-- Standings of one challenge; hidden students keep their place under an anonymous name
+CREATE OR REPLACE FUNCTION public.arena_challenge_standings(_challenge_id UUID)
+RETURNS TABLE (
+  place BIGINT,
+  display_name TEXT,
+  correct_count INTEGER,
+  answered_count INTEGER,
+  finished BOOLEAN,
+  prize_coins INTEGER,
+  is_self BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(p.final_rank, ROW_NUMBER() OVER (
+      ORDER BY p.correct_count DESC, p.finished_at ASC NULLS LAST, p.joined_at
+    ))::bigint,
+    CASE
+      WHEN COALESCE(ap.hide_from_leaderboards, false) OR COALESCE(gs.hide_from_leaderboards, false)
+        THEN 'Participante anónimo'
+      ELSE arena_display_name(sp.full_name, ap.nickname)
+    END,
+    p.correct_count,
+    p.answered_count,
+    p.finished_at IS NOT NULL,
+    p.prize_coins,
+    p.student_id = auth.uid()
+  FROM arena_challenge_participants p
+  JOIN student_profiles sp ON sp.user_id = p.student_id
+  LEFT JOIN arena_profiles ap ON ap.student_id = p.student_id
+  LEFT JOIN guardian_student_settings gs ON gs.student_id = p.student_id
+  WHERE p.challenge_id = _challenge_id
+  ORDER BY 1
+  LIMIT 50;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_challenge_standings(UUID) TO authenticated;
+
+-- Ranks every participant of an ended challenge and pays prize_coins to the top winner_count
+-- (most correct answers, then who finished first). Runs once per challenge.
+CREATE OR REPLACE FUNCTION public.settle_arena_challenge(_challenge_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _challenge arena_challenges%ROWTYPE;
+  _winner RECORD;
+  _paid INTEGER := 0;
+BEGIN
+  SELECT * INTO _challenge FROM arena_challenges WHERE id = _challenge_id FOR UPDATE;
+  IF NOT FOUND OR _challenge.settled_at IS NOT NULL OR now() < _challenge.ends_at THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE arena_challenge_participants p
+  SET final_rank = ranked.place
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY correct_count DESC, finished_at ASC NULLS LAST, joined_at) AS place
+    FROM arena_challenge_participants
+    WHERE challenge_id = _challenge_id
+  ) ranked
+  WHERE p.id = ranked.id;
+
+  FOR _winner IN
+    SELECT id, student_id FROM arena_challenge_participants
+    WHERE challenge_id = _challenge_id AND final_rank <= _challenge.winner_count AND correct_count > 0
+  LOOP
+    PERFORM coin_apply(
+      _winner.student_id,
+      _challenge.prize_coins,
+      'earn',
+      'Desafío Arena: ' || _challenge.title,
+      NULL,
+      NULL,
+      NULL,
+      'arena_challenge',
+      _challenge_id::text
+    );
+    UPDATE arena_challenge_participants SET prize_coins = _challenge.prize_coins WHERE id = _winner.id;
+    _paid := _paid + 1;
+  END LOOP;
+
+  UPDATE arena_challenges SET settled_at = now() WHERE id = _challenge_id;
+
+  RETURN _paid;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_arena_challenge(UUID) FROM PUBLIC, anon, authenticated;
+
+-- There is no scheduler, so the Arena page settles whatever has ended when it loads.
+-- Settlement only depends on stored answers, so anyone may trigger it.
+CREATE OR REPLACE FUNCTION public.settle_due_arena_challenges()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _challenge_id UUID;
+  _settled INTEGER := 0;
+BEGIN
+  FOR _challenge_id IN
+    SELECT id FROM arena_challenges WHERE settled_at IS NULL AND ends_at <= now()
+  LOOP
+    PERFORM settle_arena_challenge(_challenge_id);
+    _settled := _settled + 1;
+  END LOOP;
+
+  RETURN _settled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_due_arena_challenges() TO authenticated;
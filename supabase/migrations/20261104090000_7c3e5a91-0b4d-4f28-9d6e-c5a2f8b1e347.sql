@@ -0,0 +1,747 @@
+-- Arena duels: 1v1 or small-group quizzes played at the same time over Supabase Realtime.
+-- The question set is drawn on the server and answers are checked there (clients cannot read
+-- icfes_questions.respuesta_correcta since 20261109090000); every question has a window
+-- (seconds_per_question to answer, then a short reveal) counted from started_at, so all
+-- clients share one clock and submit_duel_answer can check the timing itself.
+
+-- Duel wins pay through the coin rules, so admins set the amount and the daily cap
+ALTER TABLE public.coin_earning_rules DROP CONSTRAINT IF EXISTS coin_earning_rules_event_type_check;
+ALTER TABLE public.coin_earning_rules
+  ADD CONSTRAINT coin_earning_rules_event_type_check CHECK (event_type IN (
+    'tutor_session_understood', 'remedial_week_completed', 'homework_submitted', 'icfes_score_improved',
+    'arena_duel_won'
+  ));
+
+INSERT INTO public.coin_earning_rules (event_type, name, conditions, amount, daily_cap) VALUES
+  ('arena_duel_won', 'Duelo ganado', '{"min_correct_count": 3}', 15, 45);
+
+CREATE TABLE public.arena_duels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  host_id UUID NOT NULL REFERENCES public.student_profiles(user_id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'lobby' CHECK (status IN ('lobby', 'active', 'finished', 'cancelled')),
+  source TEXT NOT NULL CHECK (source IN ('icfes', 'flashcards')),
+  area TEXT,
+  difficulty TEXT NOT NULL DEFAULT 'medio' CHECK (difficulty IN ('facil', 'medio', 'dificil')),
+  deck_id UUID REFERENCES public.flashcard_decks(id) ON DELETE SET NULL,
+  question_count INTEGER NOT NULL CHECK (question_count BETWEEN 3 AND 20),
+  seconds_per_question INTEGER NOT NULL DEFAULT 20 CHECK (seconds_per_question BETWEEN 10 AND 60),
+  max_players INTEGER NOT NULL DEFAULT 2 CHECK (max_players BETWEEN 2 AND 6),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.arena_duel_participants (
+  duel_id UUID NOT NULL REFERENCES public.arena_duels(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.student_profiles(user_id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  score INTEGER NOT NULL DEFAULT 0,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  final_rank INTEGER,
+  coins_awarded INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (duel_id, student_id)
+);
+
+CREATE INDEX idx_arena_duel_participants_student ON public.arena_duel_participants(student_id);
+
+-- Answers are only ever read through duel_state, which hides them until the window closes
+CREATE TABLE public.arena_duel_questions (
+  duel_id UUID NOT NULL REFERENCES public.arena_duels(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  prompt TEXT NOT NULL,
+  options JSONB NOT NULL,
+  correct_option TEXT NOT NULL,
+  question_id UUID REFERENCES public.icfes_questions(id) ON DELETE SET NULL,
+  flashcard_id UUID REFERENCES public.flashcards(id) ON DELETE SET NULL,
+  PRIMARY KEY (duel_id, position)
+);
+
+CREATE TABLE public.arena_duel_answers (
+  duel_id UUID NOT NULL REFERENCES public.arena_duels(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  student_id UUID NOT NULL,
+  option TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  points INTEGER NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (duel_id, position, student_id)
+);
+
+-- Policies on participants need to look at the same table; this keeps them from recursing
+CREATE OR REPLACE FUNCTION public.is_duel_member(_duel_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM arena_duel_participants WHERE duel_id = _duel_id AND student_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.arena_duels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.arena_duel_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.arena_duel_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.arena_duel_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on arena_duels"
+ON public.arena_duels FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Duel members can view their duels"
+ON public.arena_duels FOR SELECT
+USING (is_duel_member(id));
+
+CREATE POLICY "Admins can do everything on arena_duel_participants"
+ON public.arena_duel_participants FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Duel members can view everyone in their duels"
+ON public.arena_duel_participants FOR SELECT
+USING (is_duel_member(duel_id));
+
+CREATE POLICY "Admins can do everything on arena_duel_questions"
+ON public.arena_duel_questions FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can do everything on arena_duel_answers"
+ON public.arena_duel_answers FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students can view their own duel answers"
+ON public.arena_duel_answers FOR SELECT
+USING (auth.uid() = student_id);
+
+-- Clients follow status changes and the scoreboard through postgres_changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.arena_duels;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.arena_duel_participants;
+
+-- Seconds between one question closing and the next opening, while the answer is shown
+CREATE OR REPLACE FUNCTION public.arena_duel_reveal_seconds()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT 4 $$;
+
+/*
+ * Creates a duel in the lobby with its question set already drawn:
+ *   icfes:      active multiple-choice questions of the area at the difficulty
+ *   flashcards: cards of one of the host's decks; the other options are backs of other cards
+ *               of the same deck, and difficulty follows how hard the host finds each card
+ */
+CREATE OR REPLACE FUNCTION public.create_arena_duel(
+  _source TEXT,
+  _area TEXT,
+  _difficulty TEXT,
+  _deck_id UUID,
+  _question_count INTEGER,
+  _seconds_per_question INTEGER,
+  _max_players INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _duel_id UUID;
+  _code TEXT;
+  _picked INTEGER;
+BEGIN
+  IF _me IS NULL OR NOT EXISTS (SELECT 1 FROM student_profiles WHERE user_id = _me) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  IF _source = 'flashcards' AND NOT EXISTS (
+    SELECT 1 FROM flashcard_decks WHERE id = _deck_id AND student_id = _me
+  ) THEN
+    RAISE EXCEPTION 'deck_not_found';
+  END IF;
+
+  LOOP
+    _code := upper(substr(md5(random()::text), 1, 6));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM arena_duels WHERE code = _code);
+  END LOOP;
+
+  INSERT INTO arena_duels (
+    code, host_id, source, area, difficulty, deck_id, question_count, seconds_per_question, max_players
+  )
+  VALUES (
+    _code, _me, _source, CASE WHEN _source = 'icfes' THEN _area END, _difficulty,
+    CASE WHEN _source = 'flashcards' THEN _deck_id END, _question_count, _seconds_per_question, _max_players
+  )
+  RETURNING id INTO _duel_id;
+
+  INSERT INTO arena_duel_participants (duel_id, student_id) VALUES (_duel_id, _me);
+
+  IF _source = 'icfes' THEN
+    INSERT INTO arena_duel_questions (duel_id, position, prompt, options, correct_option, question_id)
+    SELECT _duel_id, ROW_NUMBER() OVER (), q.enunciado,
+      jsonb_build_array(
+        jsonb_build_object('letter', 'A', 'text', q.opcion_a),
+        jsonb_build_object('letter', 'B', 'text', q.opcion_b),
+        jsonb_build_object('letter', 'C', 'text', q.opcion_c),
+        jsonb_build_object('letter', 'D', 'text', q.opcion_d)
+      ),
+      upper(trim(q.respuesta_correcta)),
+      q.id
+    FROM (
+      SELECT * FROM icfes_questions
+      WHERE area = _area
+        AND review_status = 'active'
+        AND formato = 'seleccion'
+        AND passage_id IS NULL
+        AND imagen_url IS NULL
+        AND opcion_a IS NOT NULL AND opcion_b IS NOT NULL AND opcion_c IS NOT NULL AND opcion_d IS NOT NULL
+        AND CASE _difficulty
+          WHEN 'facil' THEN dificultad <= 2
+          WHEN 'dificil' THEN dificultad >= 4
+          ELSE dificultad BETWEEN 2 AND 4
+        END
+      ORDER BY random()
+      LIMIT _question_count
+    ) q;
+  ELSE
+    INSERT INTO arena_duel_questions (duel_id, position, prompt, options, correct_option, flashcard_id)
+    SELECT _duel_id, ROW_NUMBER() OVER (), card.front,
+      (
+        SELECT jsonb_agg(jsonb_build_object('letter', chr(64 + o.n::integer), 'text', o.text) ORDER BY o.n)
+        FROM (SELECT ROW_NUMBER() OVER (ORDER BY random()) AS n, choice.text FROM (
+          SELECT card.back AS text
+          UNION ALL
+          (
+            SELECT d.back FROM (
+              SELECT DISTINCT other.back FROM flashcards other
+              WHERE other.deck_id = card.deck_id AND other.id <> card.id AND other.back <> card.back
+            ) d
+            ORDER BY random()
+            LIMIT 3
+          )
+        ) choice) o
+      ),
+      '',
+      card.id
+    FROM (
+      SELECT * FROM flashcards f
+      WHERE f.deck_id = _deck_id
+        -- Needs three distinct wrong answers to be a fair question
+        AND (
+          SELECT COUNT(DISTINCT other.back) FROM flashcards other
+          WHERE other.deck_id = f.deck_id AND other.back <> f.back
+        ) >= 3
+        AND CASE _difficulty
+          WHEN 'facil' THEN ease_factor >= 2.5
+          WHEN 'dificil' THEN ease_factor < 2.3 OR lapses > 0
+          ELSE true
+        END
+      ORDER BY random()
+      LIMIT _question_count
+    ) card;
+
+    -- The correct letter is wherever the card's own back landed after shuffling
+    UPDATE arena_duel_questions dq
+    SET correct_option = (
+      SELECT o ->> 'letter' FROM jsonb_array_elements(dq.options) o
+      WHERE o ->> 'text' = (SELECT back FROM flashcards WHERE id = dq.flashcard_id)
+      LIMIT 1
+    )
+    WHERE dq.duel_id = _duel_id;
+  END IF;
+
+  SELECT COUNT(*) INTO _picked FROM arena_duel_questions WHERE duel_id = _duel_id;
+  IF _picked < _question_count THEN
+    RAISE EXCEPTION 'not_enough_questions';
+  END IF;
+
+  RETURN jsonb_build_object('id', _duel_id, 'code', _code);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_arena_duel(TEXT, TEXT, TEXT, UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.join_arena_duel(_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _duel arena_duels%ROWTYPE;
+BEGIN
+  IF _me IS NULL OR NOT EXISTS (SELECT 1 FROM student_profiles WHERE user_id = _me) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  SELECT * INTO _duel FROM arena_duels WHERE code = upper(trim(_code)) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'duel_not_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM arena_duel_participants WHERE duel_id = _duel.id AND student_id = _me) THEN
+    RETURN _duel.id;
+  END IF;
+
+  IF _duel.status <> 'lobby' THEN
+    RAISE EXCEPTION 'duel_already_started';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM arena_duel_participants WHERE duel_id = _duel.id) >= _duel.max_players THEN
+    RAISE EXCEPTION 'duel_full';
+  END IF;
+
+  INSERT INTO arena_duel_participants (duel_id, student_id) VALUES (_duel.id, _me);
+  RETURN _duel.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_arena_duel(TEXT) TO authenticated;
+
+-- Leaving the lobby; when the host leaves, the duel is cancelled for everyone
+CREATE OR REPLACE FUNCTION public.leave_arena_duel(_duel_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel arena_duels%ROWTYPE;
+BEGIN
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id FOR UPDATE;
+  IF NOT FOUND OR _duel.status <> 'lobby' THEN
+    RETURN;
+  END IF;
+
+  IF _duel.host_id = auth.uid() THEN
+    UPDATE arena_duels SET status = 'cancelled', finished_at = now() WHERE id = _duel_id;
+  ELSE
+    DELETE FROM arena_duel_participants WHERE duel_id = _duel_id AND student_id = auth.uid();
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_arena_duel(UUID) TO authenticated;
+
+-- The host starts the clock a few seconds ahead so every client sees the first question together
+CREATE OR REPLACE FUNCTION public.start_arena_duel(_duel_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel arena_duels%ROWTYPE;
+  _started_at TIMESTAMP WITH TIME ZONE := now() + interval '5 seconds';
+BEGIN
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id FOR UPDATE;
+  IF NOT FOUND OR _duel.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  IF _duel.status <> 'lobby' THEN
+    RAISE EXCEPTION 'duel_already_started';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM arena_duel_participants WHERE duel_id = _duel_id) < 2 THEN
+    RAISE EXCEPTION 'duel_needs_players';
+  END IF;
+
+  UPDATE arena_duels SET status = 'active', started_at = _started_at WHERE id = _duel_id;
+  RETURN _started_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_arena_duel(UUID) TO authenticated;
+
+-- Grades one answer against the server clock: 100 points for a right answer plus up to 50
+-- for answering fast. Only the open question counts and only once.
+CREATE OR REPLACE FUNCTION public.submit_duel_answer(_duel_id UUID, _position INTEGER, _option TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _duel arena_duels%ROWTYPE;
+  _correct_option TEXT;
+  _opens_at TIMESTAMP WITH TIME ZONE;
+  _closes_at TIMESTAMP WITH TIME ZONE;
+  _is_correct BOOLEAN;
+  _points INTEGER := 0;
+BEGIN
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id;
+  IF NOT FOUND OR _duel.status <> 'active' THEN
+    RAISE EXCEPTION 'duel_not_active';
+  END IF;
+
+  IF NOT is_duel_member(_duel_id) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  SELECT correct_option INTO _correct_option
+  FROM arena_duel_questions WHERE duel_id = _duel_id AND position = _position;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'question_not_in_duel';
+  END IF;
+
+  _opens_at := _duel.started_at
+    + make_interval(secs => (_position - 1) * (_duel.seconds_per_question + arena_duel_reveal_seconds()));
+  _closes_at := _opens_at + make_interval(secs => _duel.seconds_per_question);
+
+  IF now() < _opens_at OR now() > _closes_at THEN
+    RAISE EXCEPTION 'question_closed';
+  END IF;
+
+  _is_correct := upper(trim(_option)) = _correct_option;
+  IF _is_correct THEN
+    _points := 100 + round(50 * extract(epoch FROM (_closes_at - now())) / _duel.seconds_per_question)::integer;
+  END IF;
+
+  INSERT INTO arena_duel_answers (duel_id, position, student_id, option, is_correct, points)
+  VALUES (_duel_id, _position, _me, upper(trim(_option)), _is_correct, _points)
+  ON CONFLICT (duel_id, position, student_id) DO NOTHING;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'already_answered';
+  END IF;
+
+  UPDATE arena_duel_participants SET
+    score = score + _points,
+    correct_count = correct_count + CASE WHEN _is_correct THEN 1 ELSE 0 END
+  WHERE duel_id = _duel_id AND student_id = _me;
+
+  RETURN jsonb_build_object('is_correct', _is_correct, 'points', _points);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_duel_answer(UUID, INTEGER, TEXT) TO authenticated;
+
+-- Everything a client needs to (re)draw the duel: questions whose window has opened, answers
+-- only for windows that have closed, the scoreboard, and the server time to sync the clock
+CREATE OR REPLACE FUNCTION public.arena_duel_state(_duel_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel arena_duels%ROWTYPE;
+  _slot INTEGER;
+BEGIN
+  IF NOT is_duel_member(_duel_id) AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id;
+  _slot := _duel.seconds_per_question + arena_duel_reveal_seconds();
+
+  RETURN jsonb_build_object(
+    'server_now', now(),
+    'reveal_seconds', arena_duel_reveal_seconds(),
+    'duel', to_jsonb(_duel),
+    'participants', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'student_id', p.student_id,
+        'display_name', arena_display_name(sp.full_name, ap.nickname),
+        'score', p.score,
+        'correct_count', p.correct_count,
+        'final_rank', p.final_rank,
+        'coins_awarded', p.coins_awarded,
+        'is_host', p.student_id = _duel.host_id,
+        'is_self', p.student_id = auth.uid()
+      ) ORDER BY p.score DESC, p.joined_at)
+      FROM arena_duel_participants p
+      JOIN student_profiles sp ON sp.user_id = p.student_id
+      LEFT JOIN arena_profiles ap ON ap.student_id = p.student_id
+      WHERE p.duel_id = _duel_id
+    ), '[]'::jsonb),
+    'questions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'position', q.position,
+        'prompt', q.prompt,
+        'options', q.options,
+        'correct_option', CASE
+          WHEN _duel.status = 'finished'
+            OR now() > _duel.started_at + make_interval(secs => (q.position - 1) * _slot + _duel.seconds_per_question)
+          THEN q.correct_option
+        END
+      ) ORDER BY q.position)
+      FROM arena_duel_questions q
+      WHERE q.duel_id = _duel_id
+        AND _duel.started_at IS NOT NULL
+        AND now() >= _duel.started_at + make_interval(secs => (q.position - 1) * _slot)
+    ), '[]'::jsonb),
+    'my_answers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'position', a.position, 'option', a.option, 'is_correct', a.is_correct, 'points', a.points
+      ) ORDER BY a.position)
+      FROM arena_duel_answers a
+      WHERE a.duel_id = _duel_id AND a.student_id = auth.uid()
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_duel_state(UUID) TO authenticated;
+
+-- Closes a duel once its last window is over: ranks by score, then right answers, then who
+-- joined first, and pays the winner through the arena_duel_won coin rules. Any member may
+-- call it; it only acts once.
+CREATE OR REPLACE FUNCTION public.finish_arena_duel(_duel_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel arena_duels%ROWTYPE;
+  _winner arena_duel_participants%ROWTYPE;
+  _players INTEGER;
+  _awarded INTEGER := 0;
+BEGIN
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id FOR UPDATE;
+  IF NOT FOUND OR _duel.status <> 'active' THEN
+    RETURN;
+  END IF;
+
+  IF now() < _duel.started_at + make_interval(
+    secs => _duel.question_count * (_duel.seconds_per_question + arena_duel_reveal_seconds())
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE arena_duel_participants p
+  SET final_rank = ranked.place
+  FROM (
+    SELECT student_id, ROW_NUMBER() OVER (ORDER BY score DESC, correct_count DESC, joined_at) AS place
+    FROM arena_duel_participants
+    WHERE duel_id = _duel_id
+  ) ranked
+  WHERE p.duel_id = _duel_id AND p.student_id = ranked.student_id;
+
+  UPDATE arena_duels SET status = 'finished', finished_at = now() WHERE id = _duel_id;
+
+  SELECT COUNT(*) INTO _players FROM arena_duel_participants WHERE duel_id = _duel_id;
+  SELECT * INTO _winner FROM arena_duel_participants WHERE duel_id = _duel_id AND final_rank = 1;
+
+  IF _winner.score > 0 THEN
+    -- A failed award must not leave the duel unfinished
+    BEGIN
+      _awarded := award_event_coins(
+        _winner.student_id,
+        'arena_duel_won',
+        'arena_duel',
+        _duel_id::text,
+        jsonb_build_object(
+          'players', _players,
+          'correct_count', _winner.correct_count,
+          'label', 'duelo de ' || _players || ' jugadores'
+        )
+      );
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Coin award for duel % failed: %', _duel_id, SQLERRM;
+    END;
+
+    UPDATE arena_duel_participants SET coins_awarded = _awarded
+    WHERE duel_id = _duel_id AND student_id = _winner.student_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.finish_arena_duel(UUID) TO authenticated;
+
+-- Duels the caller is in, newest first, for the Arena page
+CREATE OR REPLACE FUNCTION public.my_arena_duels()
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  status TEXT,
+  source TEXT,
+  area TEXT,
+  player_count INTEGER,
+  max_players INTEGER,
+  is_host BOOLEAN,
+  final_rank INTEGER,
+  coins_awarded INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.id, d.code, d.status, d.source, d.area,
+    (SELECT COUNT(*)::integer FROM arena_duel_participants p WHERE p.duel_id = d.id),
+    d.max_players,
+    d.host_id = auth.uid(),
+    me.final_rank,
+    me.coins_awarded,
+    d.created_at
+  FROM arena_duels d
+  JOIN arena_duel_participants me ON me.duel_id = d.id AND me.student_id = auth.uid()
+  WHERE d.status IN ('lobby', 'active') OR d.created_at > now() - interval '7 days'
+  ORDER BY d.status IN ('lobby', 'active') DESC, d.created_at DESC
+  LIMIT 10;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.my_arena_duels() TO authenticated;
+
+-- Ranking for one metric, scope and window. Returns the top _limit plus the caller's own row.
+--   coins:  coins earned (type 'earn') in the window
+--   icfes:  best global score in the window minus the best before it (or the first in the window)
+--   streak: longest run of consecutive days with tutor sessions in the window
+--   duels:  duels won in the window
+-- Scopes: global, grade (same grade as the caller) and group (students of the caller's guardian,
+-- which is how a family or a school account groups its students).
+CREATE OR REPLACE FUNCTION public.arena_leaderboard(
+  _metric TEXT,
+  _scope TEXT DEFAULT 'global',
+  _window TEXT DEFAULT 'weekly',
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  place BIGINT,
+  display_name TEXT,
+  score NUMERIC,
+  grade_level INTEGER,
+  is_self BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _me UUID := auth.uid();
+  _my_grade INTEGER;
+  _my_guardian UUID;
+  _since TIMESTAMP WITH TIME ZONE := arena_window_start(_window);
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF _metric NOT IN ('coins', 'icfes', 'streak', 'duels')
+    OR _scope NOT IN ('global', 'grade', 'group')
+    OR _window NOT IN ('weekly', 'monthly', 'all_time') THEN
+    RAISE EXCEPTION 'invalid_leaderboard';
+  END IF;
+
+  SELECT sp.grade_level, sp.guardian_id INTO _my_grade, _my_guardian
+  FROM student_profiles sp WHERE sp.user_id = _me;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT sp.user_id, sp.full_name, sp.grade_level, ap.nickname
+    FROM student_profiles sp
+    LEFT JOIN arena_profiles ap ON ap.student_id = sp.user_id
+    LEFT JOIN guardian_student_settings gs ON gs.student_id = sp.user_id
+    WHERE NOT COALESCE(ap.hide_from_leaderboards, false)
+      AND NOT COALESCE(gs.hide_from_leaderboards, false)
+      AND (
+        _scope = 'global'
+        OR (_scope = 'grade' AND sp.grade_level = _my_grade)
+        OR (_scope = 'group' AND sp.guardian_id = _my_guardian)
+      )
+  ),
+  scores AS (
+    SELECT m.user_id,
+      CASE _metric
+        WHEN 'coins' THEN (
+          SELECT COALESCE(SUM(ct.amount), 0)
+          FROM coin_transactions ct
+          WHERE ct.student_id = m.user_id AND ct.type = 'earn' AND ct.created_at >= _since
+        )::numeric
+        WHEN 'icfes' THEN GREATEST(
+          (
+            SELECT MAX(r.score_global) FROM icfes_results r
+            WHERE r.student_id = m.user_id AND r.completed_at >= _since
+          ) - COALESCE(
+            (
+              SELECT MAX(r.score_global) FROM icfes_results r
+              WHERE r.student_id = m.user_id AND r.completed_at < _since
+            ),
+            (
+              SELECT r.score_global FROM icfes_results r
+              WHERE r.student_id = m.user_id AND r.completed_at >= _since AND r.score_global IS NOT NULL
+              ORDER BY r.completed_at
+              LIMIT 1
+            )
+          ),
+          0
+        )::numeric
+        WHEN 'duels' THEN (
+          SELECT COUNT(*)
+          FROM arena_duel_participants dp
+          JOIN arena_duels d ON d.id = dp.duel_id
+          WHERE dp.student_id = m.user_id AND dp.final_rank = 1 AND d.finished_at >= _since
+        )::numeric
+        ELSE (SELECT ts.longest_days FROM tutor_streaks(m.user_id, _since) ts)::numeric
+      END AS score
+    FROM members m
+  ),
+  ranked AS (
+    SELECT s.user_id, s.score, RANK() OVER (ORDER BY s.score DESC) AS place
+    FROM scores s
+    WHERE s.score > 0
+  )
+  SELECT r.place, arena_display_name(m.full_name, m.nickname), r.score, m.grade_level, r.user_id = _me
+  FROM ranked r
+  JOIN members m ON m.user_id = r.user_id
+  WHERE r.place <= _limit OR r.user_id = _me
+  ORDER BY r.place, 2;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_leaderboard(TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- Header numbers of the Arena page for the signed-in student
+CREATE OR REPLACE FUNCTION public.arena_my_stats()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _streaks RECORD;
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _streaks FROM tutor_streaks(_me);
+
+  RETURN jsonb_build_object(
+    'current_streak_days', _streaks.current_days,
+    'longest_streak_days', _streaks.longest_days,
+    'challenges_won', (
+      SELECT COUNT(*) FROM arena_challenge_participants
+      WHERE student_id = _me AND prize_coins > 0
+    ),
+    'challenges_played', (
+      SELECT COUNT(*) FROM arena_challenge_participants
+      WHERE student_id = _me AND answered_count > 0
+    ),
+    'duels_won', (
+      SELECT COUNT(*) FROM arena_duel_participants dp
+      JOIN arena_duels d ON d.id = dp.duel_id
+      WHERE dp.student_id = _me AND dp.final_rank = 1 AND d.status = 'finished'
+    ),
+    'duels_played', (
+      SELECT COUNT(*) FROM arena_duel_participants dp
+      JOIN arena_duels d ON d.id = dp.duel_id
+      WHERE dp.student_id = _me AND d.status = 'finished'
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_my_stats() TO authenticated;
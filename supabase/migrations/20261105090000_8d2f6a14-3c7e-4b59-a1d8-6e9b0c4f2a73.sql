@@ -0,0 +1,60 @@
+-- Simulacros are opened by the start-icfes-simulacro edge function, which draws the questions
+-- and keeps a copy where students cannot write it. grade-icfes-attempt grades that copy and
+-- checks the clock from started_at, so neither the question set nor the time limit can be
+-- changed from the client.
+
+-- The question set each full attempt drew, in exam order: [{ blocks: [{ area, questionIds }] }]
+-- No student policies: only the service role writes and reads it
+CREATE TABLE public.icfes_attempt_question_sets (
+  attempt_id UUID NOT NULL PRIMARY KEY REFERENCES public.icfes_attempts(id) ON DELETE CASCADE,
+  sessions JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.icfes_attempt_question_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view attempt question sets"
+ON public.icfes_attempt_question_sets FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Attempts are created by the server only: simulacros by start-icfes-simulacro,
+-- practice sessions by grade-icfes-attempt once they are graded
+DROP POLICY "Students can create their own attempts" ON public.icfes_attempts;
+
+-- Students still save progress and abandon open attempts, but what the attempt is
+-- (mode, size, clock) stays as the server opened it
+CREATE OR REPLACE FUNCTION public.guard_icfes_attempt_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' OR has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.student_id IS DISTINCT FROM OLD.student_id
+    OR NEW.mode IS DISTINCT FROM OLD.mode
+    OR NEW.areas IS DISTINCT FROM OLD.areas
+    OR NEW.total_questions IS DISTINCT FROM OLD.total_questions
+    OR NEW.time_limit_seconds IS DISTINCT FROM OLD.time_limit_seconds
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'attempt_locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_icfes_attempt_update
+BEFORE UPDATE ON public.icfes_attempts
+FOR EACH ROW EXECUTE FUNCTION public.guard_icfes_attempt_update();
+
+-- Open simulacros drawn on the client have no locked set and could not be graded
+UPDATE public.icfes_attempts a
+SET status = 'abandoned', completed_at = now()
+WHERE a.mode = 'full'
+  AND a.status = 'in_progress'
+  AND NOT EXISTS (SELECT 1 FROM public.icfes_attempt_question_sets s WHERE s.attempt_id = a.id);
@@ -0,0 +1,54 @@
+-- Tutor session coins are awarded by session-manager, not by a trigger. tutor_sessions
+-- was writable by anyone, so flipping overall_status from any client paid out; now only
+-- the edge functions (service role) write sessions, and session-manager awards the coins
+-- after checking that the caller is the student who owns the session.
+
+DROP POLICY "Allow public insert to sessions" ON public.tutor_sessions;
+DROP POLICY "Allow public update to sessions" ON public.tutor_sessions;
+
+DROP TRIGGER award_coins_on_tutor_session_understood ON public.tutor_sessions;
+DROP FUNCTION public.coin_event_tutor_session();
+
+-- Pays the tutor_session_understood rules for a session closed as UNDERSTOOD. Counting
+-- distinct student messages keeps a chat of the same answer pasted over and over from qualifying.
+CREATE OR REPLACE FUNCTION public.award_tutor_session_coins(_session_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session tutor_sessions%ROWTYPE;
+  _student_messages INTEGER;
+  _distinct_messages INTEGER;
+BEGIN
+  SELECT * INTO _session FROM tutor_sessions WHERE id = _session_id;
+  IF NOT FOUND OR _session.overall_status IS DISTINCT FROM 'UNDERSTOOD' THEN
+    RETURN 0;
+  END IF;
+  IF _session.student_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COUNT(*), COUNT(DISTINCT lower(regexp_replace(trim(m ->> 'content'), '\s+', ' ', 'g')))
+  INTO _student_messages, _distinct_messages
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_session.messages) = 'array' THEN _session.messages ELSE '[]'::jsonb END) m
+  WHERE m ->> 'role' = 'user' AND COALESCE(trim(m ->> 'content'), '') <> '';
+
+  RETURN award_event_coins(
+    _session.student_id::uuid,
+    'tutor_session_understood',
+    'tutor_session',
+    _session.id::text,
+    jsonb_build_object(
+      'label', _session.skill,
+      'skill', _session.skill,
+      'age_group', _session.age_group,
+      'student_messages', _student_messages,
+      'distinct_student_messages', _distinct_messages
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_tutor_session_coins(UUID) FROM PUBLIC, anon, authenticated;
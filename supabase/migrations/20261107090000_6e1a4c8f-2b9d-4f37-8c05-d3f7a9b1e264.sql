@@ -0,0 +1,64 @@
+-- Homework coins: a submission only counts for the student who owns the task, "on time"
+-- uses the server clock instead of the client-supplied submitted_at, and the payout is
+-- keyed on task and student so nobody else's row can block the owner's award.
+
+-- Students can only hand in their own tasks
+DROP POLICY "Students can insert their own submissions" ON public.homework_submissions;
+CREATE POLICY "Students can insert their own submissions"
+  ON public.homework_submissions FOR INSERT
+  WITH CHECK (
+    student_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM homework_tasks t WHERE t.id = homework_task_id AND t.student_id = auth.uid())
+  );
+
+-- Existing homework payouts move to the new source key, so they are not paid a second time
+UPDATE public.coin_transactions
+SET source_id = source_id || ':' || student_id
+WHERE source_type = 'homework_task' AND source_id NOT LIKE '%:%';
+
+-- Homework handed in. A file already handed in for another task is a repeat and pays nothing.
+CREATE OR REPLACE FUNCTION public.coin_event_homework_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task RECORD;
+  _file_url TEXT;
+  _is_repeat BOOLEAN := false;
+BEGIN
+  SELECT id, student_id, week_number, due_date, description INTO _task
+  FROM homework_tasks WHERE id = NEW.homework_task_id;
+  IF NOT FOUND OR _task.student_id IS DISTINCT FROM NEW.student_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.repository_item_id IS NOT NULL THEN
+    SELECT file_url INTO _file_url FROM repository_items WHERE id = NEW.repository_item_id;
+    SELECT EXISTS (
+      SELECT 1
+      FROM homework_submissions s
+      LEFT JOIN repository_items r ON r.id = s.repository_item_id
+      WHERE s.student_id = NEW.student_id
+        AND s.id <> NEW.id
+        AND s.homework_task_id <> NEW.homework_task_id
+        AND (s.repository_item_id = NEW.repository_item_id OR r.file_url = _file_url)
+    ) INTO _is_repeat;
+  END IF;
+
+  PERFORM award_event_coins_safely(
+    NEW.student_id,
+    'homework_submitted',
+    'homework_task',
+    _task.id::text || ':' || NEW.student_id::text,
+    jsonb_build_object(
+      'label', 'tarea de la semana ' || _task.week_number,
+      'week_number', _task.week_number,
+      'on_time', _task.due_date IS NULL OR (now() AT TIME ZONE 'America/Bogota')::date <= _task.due_date,
+      'is_repeat', _is_repeat
+    )
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- student_profiles.guardian_id decides who approves a student's redemptions and who manages
+-- guardian_student_settings, but students can update their own profile row. Only admins
+-- and the service role (guardian-create-student) may set or change it from now on.
+
+-- Nobody is their own guardian (cleared before the guard, which would block this update)
+UPDATE public.student_profiles SET guardian_id = NULL WHERE guardian_id = user_id;
+
+CREATE OR REPLACE FUNCTION public.guard_student_guardian()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' OR has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Profiles created at sign-up run without a user session and keep what they were given
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.user_id = auth.uid() THEN
+      NEW.guardian_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.guardian_id IS DISTINCT FROM OLD.guardian_id THEN
+    RAISE EXCEPTION 'guardian_locked';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_student_guardian
+BEFORE INSERT OR UPDATE OF guardian_id ON public.student_profiles
+FOR EACH ROW EXECUTE FUNCTION public.guard_student_guardian();
@@ -0,0 +1,159 @@
+-- The answer key and explanations of icfes_questions leave the database only through the
+-- graders: grade-icfes-attempt, submit_arena_answer, the duel functions and the practice
+-- checker below. Clients keep reading every other column; admins read the whole bank
+-- through admin_icfes_questions.
+
+-- A column REVOKE does nothing while the table-wide grant exists, so grant columns one by one.
+-- New columns are not readable by clients until they are added here.
+REVOKE SELECT ON public.icfes_questions FROM anon, authenticated;
+GRANT SELECT (
+  id, area, competencia, enunciado, imagen_url, formato,
+  opcion_a, opcion_b, opcion_c, opcion_d, dificultad,
+  passage_id, passage_order, is_active, review_status, reviewed_by, reviewed_at,
+  irt_difficulty, irt_responses, calibrated_at, created_by, created_at, updated_at
+) ON public.icfes_questions TO anon, authenticated;
+
+-- Questions that decide an Arena result right now: those of challenges that have not
+-- ended yet and of duels still in the lobby or being played. Their key is never handed out.
+CREATE OR REPLACE FUNCTION public.icfes_questions_in_play(_question_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cq.question_id
+  FROM arena_challenge_questions cq
+  JOIN arena_challenges c ON c.id = cq.challenge_id
+  WHERE cq.question_id = ANY(_question_ids) AND c.ends_at > now()
+  UNION
+  SELECT dq.question_id
+  FROM arena_duel_questions dq
+  JOIN arena_duels d ON d.id = dq.duel_id
+  WHERE dq.question_id = ANY(_question_ids) AND d.status IN ('lobby', 'active');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.icfes_questions_in_play(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Challenge answers only say whether they were right: the challenge is still open, so the
+-- key would pass from one student to the next
+CREATE OR REPLACE FUNCTION public.submit_arena_answer(_challenge_id UUID, _question_id UUID, _answer TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _challenge arena_challenges%ROWTYPE;
+  _participant arena_challenge_participants%ROWTYPE;
+  _correct_answer TEXT;
+  _is_correct BOOLEAN;
+  _total INTEGER;
+BEGIN
+  SELECT * INTO _challenge FROM arena_challenges WHERE id = _challenge_id;
+  IF NOT FOUND OR now() < _challenge.starts_at OR now() >= _challenge.ends_at THEN
+    RAISE EXCEPTION 'challenge_not_open';
+  END IF;
+
+  SELECT * INTO _participant FROM arena_challenge_participants
+  WHERE challenge_id = _challenge_id AND student_id = _me
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_joined';
+  END IF;
+
+  SELECT q.respuesta_correcta INTO _correct_answer
+  FROM arena_challenge_questions cq
+  JOIN icfes_questions q ON q.id = cq.question_id
+  WHERE cq.challenge_id = _challenge_id AND cq.question_id = _question_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'question_not_in_challenge';
+  END IF;
+
+  _is_correct := upper(trim(_answer)) = upper(trim(_correct_answer));
+
+  INSERT INTO arena_challenge_answers (participant_id, question_id, answer, is_correct)
+  VALUES (_participant.id, _question_id, _answer, _is_correct)
+  ON CONFLICT (participant_id, question_id) DO NOTHING;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'already_answered';
+  END IF;
+
+  SELECT COUNT(*) INTO _total FROM arena_challenge_questions WHERE challenge_id = _challenge_id;
+
+  UPDATE arena_challenge_participants SET
+    answered_count = answered_count + 1,
+    correct_count = correct_count + CASE WHEN _is_correct THEN 1 ELSE 0 END,
+    finished_at = CASE WHEN answered_count + 1 >= _total THEN now() ELSE finished_at END
+  WHERE id = _participant.id;
+
+  RETURN jsonb_build_object(
+    'is_correct', _is_correct,
+    'finished', _participant.answered_count + 1 >= _total
+  );
+END;
+$$;
+
+/*
+ * Whether each practice answer is right, for adaptive practice to pick the next question.
+ * Takes [{ question_id, respuesta }] and returns [{ question_id, is_correct }]; only active
+ * questions are checked, and is_correct is null for those in play in the Arena.
+ * The key itself comes back only from grade-icfes-attempt once the session is graded.
+ */
+CREATE OR REPLACE FUNCTION public.check_icfes_practice_answers(_answers JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ids UUID[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+  IF jsonb_typeof(_answers) IS DISTINCT FROM 'array' OR jsonb_array_length(_answers) > 100 THEN
+    RAISE EXCEPTION 'invalid_answers';
+  END IF;
+
+  SELECT array_agg((a ->> 'question_id')::uuid) INTO _ids
+  FROM jsonb_array_elements(_answers) a
+  WHERE (a ->> 'question_id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'question_id', q.id,
+      'is_correct', CASE
+        WHEN q.id IN (SELECT icfes_questions_in_play(_ids)) THEN NULL
+        ELSE (a ->> 'respuesta') IS NOT DISTINCT FROM q.respuesta_correcta
+      END
+    ))
+    FROM jsonb_array_elements(_answers) a
+    JOIN icfes_questions q ON q.id::text = a ->> 'question_id'
+    WHERE q.is_active
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_icfes_practice_answers(JSONB) TO authenticated;
+
+-- Whole bank with keys and explanations, every status, for the admin editor and export
+CREATE OR REPLACE FUNCTION public.admin_icfes_questions()
+RETURNS SETOF public.icfes_questions
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  RETURN QUERY SELECT * FROM icfes_questions ORDER BY created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_icfes_questions() TO authenticated;
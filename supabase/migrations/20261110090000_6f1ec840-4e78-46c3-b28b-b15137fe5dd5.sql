@@ -0,0 +1,166 @@
+-- Arena leaderboards only rank data the server writes. tutor_sessions rows come from
+-- socratic-tutor for whatever studentId the request names, so tutoring streaks move to
+-- tutor_activity_days, which socratic-tutor fills only when the request carries the
+-- student's own JWT. The icfes metric only counts simulacros drawn by start-icfes-simulacro;
+-- coins need no change, since every payout now happens on the server.
+
+-- One row per student and Bogotá day with at least one tutor turn. Written by the service role only.
+-- Streaks start over from this migration: earlier tutor_sessions cannot tell who was tutored.
+CREATE TABLE public.tutor_activity_days (
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day DATE NOT NULL DEFAULT (now() AT TIME ZONE 'America/Bogota')::date,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (student_id, day)
+);
+
+ALTER TABLE public.tutor_activity_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can do everything on tutor_activity_days"
+ON public.tutor_activity_days FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students can view their own tutor activity"
+ON public.tutor_activity_days FOR SELECT
+USING (auth.uid() = student_id);
+
+-- Runs of consecutive Bogotá days with tutoring since _since:
+-- the longest one, and the one still alive (last day today or yesterday)
+CREATE OR REPLACE FUNCTION public.tutor_streaks(_student_id UUID, _since TIMESTAMP WITH TIME ZONE DEFAULT '-infinity')
+RETURNS TABLE (longest_days INTEGER, current_days INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT day
+    FROM tutor_activity_days
+    WHERE student_id = _student_id
+      AND day >= (_since AT TIME ZONE 'America/Bogota')::date
+  ),
+  runs AS (
+    SELECT COUNT(*)::integer AS length, MAX(day) AS last_day
+    FROM (SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::integer AS grp FROM days) d
+    GROUP BY grp
+  )
+  SELECT
+    COALESCE(MAX(length), 0),
+    COALESCE(MAX(length) FILTER (WHERE last_day >= (now() AT TIME ZONE 'America/Bogota')::date - 1), 0)
+  FROM runs;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tutor_streaks(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Ranking for one metric, scope and window. Returns the top _limit plus the caller's own row.
+--   coins:  coins earned (type 'earn') in the window
+--   icfes:  best global score in the window minus the best before it (or the first in the window),
+--           counting only simulacros drawn and graded on the server
+--   streak: longest run of consecutive days of tutoring (tutor_activity_days) in the window
+--   duels:  duels won in the window
+-- Scopes: global, grade (same grade as the caller) and group (students of the caller's guardian,
+-- which is how a family or a school account groups its students).
+CREATE OR REPLACE FUNCTION public.arena_leaderboard(
+  _metric TEXT,
+  _scope TEXT DEFAULT 'global',
+  _window TEXT DEFAULT 'weekly',
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  place BIGINT,
+  display_name TEXT,
+  score NUMERIC,
+  grade_level INTEGER,
+  is_self BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _me UUID := auth.uid();
+  _my_grade INTEGER;
+  _my_guardian UUID;
+  _since TIMESTAMP WITH TIME ZONE := arena_window_start(_window);
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF _metric NOT IN ('coins', 'icfes', 'streak', 'duels')
+    OR _scope NOT IN ('global', 'grade', 'group')
+    OR _window NOT IN ('weekly', 'monthly', 'all_time') THEN
+    RAISE EXCEPTION 'invalid_leaderboard';
+  END IF;
+
+  SELECT sp.grade_level, sp.guardian_id INTO _my_grade, _my_guardian
+  FROM student_profiles sp WHERE sp.user_id = _me;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT sp.user_id, sp.full_name, sp.grade_level, ap.nickname
+    FROM student_profiles sp
+    LEFT JOIN arena_profiles ap ON ap.student_id = sp.user_id
+    LEFT JOIN guardian_student_settings gs ON gs.student_id = sp.user_id
+    WHERE NOT COALESCE(ap.hide_from_leaderboards, false)
+      AND NOT COALESCE(gs.hide_from_leaderboards, false)
+      AND (
+        _scope = 'global'
+        OR (_scope = 'grade' AND sp.grade_level = _my_grade)
+        OR (_scope = 'group' AND sp.guardian_id = _my_guardian)
+      )
+  ),
+  scores AS (
+    SELECT m.user_id,
+      CASE _metric
+        WHEN 'coins' THEN (
+          SELECT COALESCE(SUM(ct.amount), 0)
+          FROM coin_transactions ct
+          WHERE ct.student_id = m.user_id AND ct.type = 'earn' AND ct.created_at >= _since
+        )::numeric
+        WHEN 'icfes' THEN GREATEST(
+          (
+            SELECT MAX(r.score_global) FROM icfes_results r
+            JOIN icfes_attempt_question_sets qs ON qs.attempt_id = r.attempt_id
+            WHERE r.student_id = m.user_id AND r.completed_at >= _since
+          ) - COALESCE(
+            (
+              SELECT MAX(r.score_global) FROM icfes_results r
+              JOIN icfes_attempt_question_sets qs ON qs.attempt_id = r.attempt_id
+              WHERE r.student_id = m.user_id AND r.completed_at < _since
+            ),
+            (
+              SELECT r.score_global FROM icfes_results r
+              JOIN icfes_attempt_question_sets qs ON qs.attempt_id = r.attempt_id
+              WHERE r.student_id = m.user_id AND r.completed_at >= _since AND r.score_global IS NOT NULL
+              ORDER BY r.completed_at
+              LIMIT 1
+            )
+          ),
+          0
+        )::numeric
+        WHEN 'duels' THEN (
+          SELECT COUNT(*)
+          FROM arena_duel_participants dp
+          JOIN arena_duels d ON d.id = dp.duel_id
+          WHERE dp.student_id = m.user_id AND dp.final_rank = 1 AND d.finished_at >= _since
+        )::numeric
+        ELSE (SELECT ts.longest_days FROM tutor_streaks(m.user_id, _since) ts)::numeric
+      END AS score
+    FROM members m
+  ),
+  ranked AS (
+    SELECT s.user_id, s.score, RANK() OVER (ORDER BY s.score DESC) AS place
+    FROM scores s
+    WHERE s.score > 0
+  )
+  SELECT r.place, arena_display_name(m.full_name, m.nickname), r.score, m.grade_level, r.user_id = _me
+  FROM ranked r
+  JOIN members m ON m.user_id = r.user_id
+  WHERE r.place <= _limit OR r.user_id = _me
+  ORDER BY r.place, 2;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.arena_leaderboard(TEXT, TEXT, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,27 @@
+-- generate-flashcards skipped only sources that already had candidates, so a source the
+-- model found nothing in was sent again on every run. Each processed source is now
+-- recorded here, with how many candidates it gave, and is not offered again.
+
+CREATE TABLE public.flashcard_sources (
+  student_id UUID NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('tutor_session', 'icfes_question', 'research_report')),
+  source_id TEXT NOT NULL,
+  candidates_created INTEGER NOT NULL DEFAULT 0,
+  processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (student_id, source_type, source_id)
+);
+
+ALTER TABLE public.flashcard_sources ENABLE ROW LEVEL SECURITY;
+
+-- Written by the generator (service role) only
+CREATE POLICY "Students can view their own flashcard sources"
+ON public.flashcard_sources FOR SELECT
+USING (auth.uid() = student_id);
+
+-- Sources processed before this table existed are the ones that gave candidates
+INSERT INTO public.flashcard_sources (student_id, source_type, source_id, candidates_created, processed_at)
+SELECT student_id, source_type, source_id, COUNT(*), MIN(created_at)
+FROM public.flashcard_candidates
+GROUP BY student_id, source_type, source_id;
+
+DROP INDEX public.idx_flashcard_candidates_source;
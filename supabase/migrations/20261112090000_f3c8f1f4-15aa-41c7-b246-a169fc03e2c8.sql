@@ -0,0 +1,24 @@
+-- Practice grading hands back the key of every question it grades, so it must not grade the
+-- questions of a simulacro the student still has open: posting them as a practice session
+-- would give away the key before the simulacro is handed in.
+
+-- Which of _question_ids belong to an in-progress simulacro of _student_id
+CREATE OR REPLACE FUNCTION public.icfes_questions_in_open_simulacro(_student_id UUID, _question_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT qid::uuid
+  FROM icfes_attempts a
+  JOIN icfes_attempt_question_sets qs ON qs.attempt_id = a.id
+  CROSS JOIN LATERAL jsonb_array_elements(qs.sessions) s
+  CROSS JOIN LATERAL jsonb_array_elements(s -> 'blocks') b
+  CROSS JOIN LATERAL jsonb_array_elements_text(b -> 'questionIds') qid
+  WHERE a.student_id = _student_id
+    AND a.status = 'in_progress'
+    AND qid::uuid = ANY(_question_ids);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.icfes_questions_in_open_simulacro(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,43 @@
+-- check_icfes_practice_answers let a student send every letter for the same question in one
+-- call and read the key off the verdicts, including for questions of their own open simulacro.
+-- Now a call may answer each question once, and open simulacro questions get no verdict.
+
+CREATE OR REPLACE FUNCTION public.check_icfes_practice_answers(_answers JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ids UUID[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+  IF jsonb_typeof(_answers) IS DISTINCT FROM 'array' OR jsonb_array_length(_answers) > 100 THEN
+    RAISE EXCEPTION 'invalid_answers';
+  END IF;
+  IF (SELECT COUNT(*) <> COUNT(DISTINCT a ->> 'question_id') FROM jsonb_array_elements(_answers) a) THEN
+    RAISE EXCEPTION 'invalid_answers';
+  END IF;
+
+  SELECT array_agg((a ->> 'question_id')::uuid) INTO _ids
+  FROM jsonb_array_elements(_answers) a
+  WHERE (a ->> 'question_id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'question_id', q.id,
+      'is_correct', CASE
+        WHEN q.id IN (SELECT icfes_questions_in_play(_ids)) THEN NULL
+        WHEN q.id IN (SELECT icfes_questions_in_open_simulacro(auth.uid(), _ids)) THEN NULL
+        ELSE (a ->> 'respuesta') IS NOT DISTINCT FROM q.respuesta_correcta
+      END
+    ))
+    FROM jsonb_array_elements(_answers) a
+    JOIN icfes_questions q ON q.id::text = a ->> 'question_id'
+    WHERE q.is_active
+  ), '[]'::jsonb);
+END;
+$$;
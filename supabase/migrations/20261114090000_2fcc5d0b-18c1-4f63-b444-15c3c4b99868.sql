@@ -0,0 +1,36 @@
+-- Students could update every column of their own homework_tasks, so moving due_date (or
+-- clearing it) made any submission pay as on time, and last_score or feedback could be
+-- written by hand. Students may now only mark a task as submitted; the rest is written by
+-- assign-homework and evaluate-homework (service role) or by admins.
+
+CREATE OR REPLACE FUNCTION public.guard_homework_task_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' OR has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.student_program_id IS DISTINCT FROM OLD.student_program_id
+    OR NEW.student_id IS DISTINCT FROM OLD.student_id
+    OR NEW.week_number IS DISTINCT FROM OLD.week_number
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.due_date IS DISTINCT FROM OLD.due_date
+    OR NEW.last_score IS DISTINCT FROM OLD.last_score
+    OR NEW.feedback IS DISTINCT FROM OLD.feedback
+    OR NEW.session_id IS DISTINCT FROM OLD.session_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'submitted') THEN
+    RAISE EXCEPTION 'homework_task_locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_homework_task_update
+BEFORE UPDATE ON public.homework_tasks
+FOR EACH ROW EXECUTE FUNCTION public.guard_homework_task_update();
@@ -0,0 +1,362 @@
+-- Duels held back the key of their questions (icfes_questions_in_play) for as long as they
+-- stayed in the lobby or active, and nothing closed a lobby the host walked away from or an
+-- active duel nobody finished. Lobbies now expire, duels past their last window count as
+-- over, both are swept whenever a duel is created, and hosts can only open a few per hour.
+
+-- How long a lobby waits for players before it is cancelled
+CREATE OR REPLACE FUNCTION public.arena_duel_lobby_timeout()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT interval '30 minutes' $$;
+
+-- Duels one host may create per hour
+CREATE OR REPLACE FUNCTION public.arena_duel_hourly_limit()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT 10 $$;
+
+-- When the last question's window (answer time plus reveal) closes
+CREATE OR REPLACE FUNCTION public.arena_duel_ends_at(
+  _started_at TIMESTAMP WITH TIME ZONE,
+  _question_count INTEGER,
+  _seconds_per_question INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT _started_at + make_interval(secs => _question_count * (_seconds_per_question + arena_duel_reveal_seconds()))
+$$;
+
+CREATE INDEX idx_arena_duels_open ON public.arena_duels(status, created_at) WHERE status IN ('lobby', 'active');
+
+-- Unchanged, but for the end time now shared with the sweep and icfes_questions_in_play
+CREATE OR REPLACE FUNCTION public.finish_arena_duel(_duel_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel arena_duels%ROWTYPE;
+  _winner arena_duel_participants%ROWTYPE;
+  _players INTEGER;
+  _awarded INTEGER := 0;
+BEGIN
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id FOR UPDATE;
+  IF NOT FOUND OR _duel.status <> 'active' THEN
+    RETURN;
+  END IF;
+
+  IF now() < arena_duel_ends_at(_duel.started_at, _duel.question_count, _duel.seconds_per_question) THEN
+    RETURN;
+  END IF;
+
+  UPDATE arena_duel_participants p
+  SET final_rank = ranked.place
+  FROM (
+    SELECT student_id, ROW_NUMBER() OVER (ORDER BY score DESC, correct_count DESC, joined_at) AS place
+    FROM arena_duel_participants
+    WHERE duel_id = _duel_id
+  ) ranked
+  WHERE p.duel_id = _duel_id AND p.student_id = ranked.student_id;
+
+  UPDATE arena_duels SET status = 'finished', finished_at = now() WHERE id = _duel_id;
+
+  SELECT COUNT(*) INTO _players FROM arena_duel_participants WHERE duel_id = _duel_id;
+  SELECT * INTO _winner FROM arena_duel_participants WHERE duel_id = _duel_id AND final_rank = 1;
+
+  IF _winner.score > 0 THEN
+    -- A failed award must not leave the duel unfinished
+    BEGIN
+      _awarded := award_event_coins(
+        _winner.student_id,
+        'arena_duel_won',
+        'arena_duel',
+        _duel_id::text,
+        jsonb_build_object(
+          'players', _players,
+          'correct_count', _winner.correct_count,
+          'label', 'duelo de ' || _players || ' jugadores'
+        )
+      );
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Coin award for duel % failed: %', _duel_id, SQLERRM;
+    END;
+
+    UPDATE arena_duel_participants SET coins_awarded = _awarded
+    WHERE duel_id = _duel_id AND student_id = _winner.student_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.finish_arena_duel(UUID) TO authenticated;
+
+-- Cancels lobbies past the timeout and finishes active duels past their last window
+CREATE OR REPLACE FUNCTION public.expire_arena_duels()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel_id UUID;
+BEGIN
+  UPDATE arena_duels SET status = 'cancelled', finished_at = now()
+  WHERE status = 'lobby' AND created_at < now() - arena_duel_lobby_timeout();
+
+  FOR _duel_id IN
+    SELECT id FROM arena_duels
+    WHERE status = 'active' AND arena_duel_ends_at(started_at, question_count, seconds_per_question) <= now()
+  LOOP
+    PERFORM finish_arena_duel(_duel_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_arena_duels() FROM PUBLIC, anon, authenticated;
+
+SELECT public.expire_arena_duels();
+
+CREATE OR REPLACE FUNCTION public.create_arena_duel(
+  _source TEXT,
+  _area TEXT,
+  _difficulty TEXT,
+  _deck_id UUID,
+  _question_count INTEGER,
+  _seconds_per_question INTEGER,
+  _max_players INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _duel_id UUID;
+  _code TEXT;
+  _picked INTEGER;
+BEGIN
+  IF _me IS NULL OR NOT EXISTS (SELECT 1 FROM student_profiles WHERE user_id = _me) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  PERFORM expire_arena_duels();
+
+  -- Every duel holds back the key of its questions while it is open, so lobbies are capped per
+  -- host: a few per hour, and a new one replaces the host's lobby still waiting for players
+  IF (SELECT COUNT(*) FROM arena_duels WHERE host_id = _me AND created_at > now() - interval '1 hour')
+    >= arena_duel_hourly_limit() THEN
+    RAISE EXCEPTION 'too_many_duels';
+  END IF;
+  UPDATE arena_duels SET status = 'cancelled', finished_at = now() WHERE host_id = _me AND status = 'lobby';
+
+  IF _source = 'flashcards' AND NOT EXISTS (
+    SELECT 1 FROM flashcard_decks WHERE id = _deck_id AND student_id = _me
+  ) THEN
+    RAISE EXCEPTION 'deck_not_found';
+  END IF;
+
+  LOOP
+    _code := upper(substr(md5(random()::text), 1, 6));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM arena_duels WHERE code = _code);
+  END LOOP;
+
+  INSERT INTO arena_duels (
+    code, host_id, source, area, difficulty, deck_id, question_count, seconds_per_question, max_players
+  )
+  VALUES (
+    _code, _me, _source, CASE WHEN _source = 'icfes' THEN _area END, _difficulty,
+    CASE WHEN _source = 'flashcards' THEN _deck_id END, _question_count, _seconds_per_question, _max_players
+  )
+  RETURNING id INTO _duel_id;
+
+  INSERT INTO arena_duel_participants (duel_id, student_id) VALUES (_duel_id, _me);
+
+  IF _source = 'icfes' THEN
+    INSERT INTO arena_duel_questions (duel_id, position, prompt, options, correct_option, question_id)
+    SELECT _duel_id, ROW_NUMBER() OVER (), q.enunciado,
+      jsonb_build_array(
+        jsonb_build_object('letter', 'A', 'text', q.opcion_a),
+        jsonb_build_object('letter', 'B', 'text', q.opcion_b),
+        jsonb_build_object('letter', 'C', 'text', q.opcion_c),
+        jsonb_build_object('letter', 'D', 'text', q.opcion_d)
+      ),
+      upper(trim(q.respuesta_correcta)),
+      q.id
+    FROM (
+      SELECT * FROM icfes_questions
+      WHERE area = _area
+        AND review_status = 'active'
+        AND formato = 'seleccion'
+        AND passage_id IS NULL
+        AND imagen_url IS NULL
+        AND opcion_a IS NOT NULL AND opcion_b IS NOT NULL AND opcion_c IS NOT NULL AND opcion_d IS NOT NULL
+        AND CASE _difficulty
+          WHEN 'facil' THEN dificultad <= 2
+          WHEN 'dificil' THEN dificultad >= 4
+          ELSE dificultad BETWEEN 2 AND 4
+        END
+      ORDER BY random()
+      LIMIT _question_count
+    ) q;
+  ELSE
+    INSERT INTO arena_duel_questions (duel_id, position, prompt, options, correct_option, flashcard_id)
+    SELECT _duel_id, ROW_NUMBER() OVER (), card.front,
+      (
+        SELECT jsonb_agg(jsonb_build_object('letter', chr(64 + o.n::integer), 'text', o.text) ORDER BY o.n)
+        FROM (SELECT ROW_NUMBER() OVER (ORDER BY random()) AS n, choice.text FROM (
+          SELECT card.back AS text
+          UNION ALL
+          (
+            SELECT d.back FROM (
+              SELECT DISTINCT other.back FROM flashcards other
+              WHERE other.deck_id = card.deck_id AND other.id <> card.id AND other.back <> card.back
+            ) d
+            ORDER BY random()
+            LIMIT 3
+          )
+        ) choice) o
+      ),
+      '',
+      card.id
+    FROM (
+      SELECT * FROM flashcards f
+      WHERE f.deck_id = _deck_id
+        -- Needs three distinct wrong answers to be a fair question
+        AND (
+          SELECT COUNT(DISTINCT other.back) FROM flashcards other
+          WHERE other.deck_id = f.deck_id AND other.back <> f.back
+        ) >= 3
+        AND CASE _difficulty
+          WHEN 'facil' THEN ease_factor >= 2.5
+          WHEN 'dificil' THEN ease_factor < 2.3 OR lapses > 0
+          ELSE true
+        END
+      ORDER BY random()
+      LIMIT _question_count
+    ) card;
+
+    -- The correct letter is wherever the card's own back landed after shuffling
+    UPDATE arena_duel_questions dq
+    SET correct_option = (
+      SELECT o ->> 'letter' FROM jsonb_array_elements(dq.options) o
+      WHERE o ->> 'text' = (SELECT back FROM flashcards WHERE id = dq.flashcard_id)
+      LIMIT 1
+    )
+    WHERE dq.duel_id = _duel_id;
+  END IF;
+
+  SELECT COUNT(*) INTO _picked FROM arena_duel_questions WHERE duel_id = _duel_id;
+  IF _picked < _question_count THEN
+    RAISE EXCEPTION 'not_enough_questions';
+  END IF;
+
+  RETURN jsonb_build_object('id', _duel_id, 'code', _code);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_arena_duel(TEXT, TEXT, TEXT, UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.join_arena_duel(_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _me UUID := auth.uid();
+  _duel arena_duels%ROWTYPE;
+BEGIN
+  IF _me IS NULL OR NOT EXISTS (SELECT 1 FROM student_profiles WHERE user_id = _me) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  SELECT * INTO _duel FROM arena_duels WHERE code = upper(trim(_code)) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'duel_not_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM arena_duel_participants WHERE duel_id = _duel.id AND student_id = _me) THEN
+    RETURN _duel.id;
+  END IF;
+
+  IF _duel.status = 'lobby' AND _duel.created_at < now() - arena_duel_lobby_timeout() THEN
+    RAISE EXCEPTION 'duel_expired';
+  END IF;
+
+  IF _duel.status <> 'lobby' THEN
+    RAISE EXCEPTION 'duel_already_started';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM arena_duel_participants WHERE duel_id = _duel.id) >= _duel.max_players THEN
+    RAISE EXCEPTION 'duel_full';
+  END IF;
+
+  INSERT INTO arena_duel_participants (duel_id, student_id) VALUES (_duel.id, _me);
+  RETURN _duel.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_arena_duel(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.start_arena_duel(_duel_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duel arena_duels%ROWTYPE;
+  _started_at TIMESTAMP WITH TIME ZONE := now() + interval '5 seconds';
+BEGIN
+  SELECT * INTO _duel FROM arena_duels WHERE id = _duel_id FOR UPDATE;
+  IF NOT FOUND OR _duel.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  IF _duel.status = 'lobby' AND _duel.created_at < now() - arena_duel_lobby_timeout() THEN
+    RAISE EXCEPTION 'duel_expired';
+  END IF;
+
+  IF _duel.status <> 'lobby' THEN
+    RAISE EXCEPTION 'duel_already_started';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM arena_duel_participants WHERE duel_id = _duel_id) < 2 THEN
+    RAISE EXCEPTION 'duel_needs_players';
+  END IF;
+
+  UPDATE arena_duels SET status = 'active', started_at = _started_at WHERE id = _duel_id;
+  RETURN _started_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_arena_duel(UUID) TO authenticated;
+
+-- Questions that decide an Arena result right now: those of challenges that have not
+-- ended yet, of lobbies younger than the timeout and of active duels before their last window
+CREATE OR REPLACE FUNCTION public.icfes_questions_in_play(_question_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cq.question_id
+  FROM arena_challenge_questions cq
+  JOIN arena_challenges c ON c.id = cq.challenge_id
+  WHERE cq.question_id = ANY(_question_ids) AND c.ends_at > now()
+  UNION
+  SELECT dq.question_id
+  FROM arena_duel_questions dq
+  JOIN arena_duels d ON d.id = dq.duel_id
+  WHERE dq.question_id = ANY(_question_ids)
+    AND (
+      (d.status = 'lobby' AND d.created_at > now() - arena_duel_lobby_timeout())
+      OR (d.status = 'active' AND now() < arena_duel_ends_at(d.started_at, d.question_count, d.seconds_per_question))
+    );
+$$;
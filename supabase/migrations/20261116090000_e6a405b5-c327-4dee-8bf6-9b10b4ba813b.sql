@@ -0,0 +1,112 @@
+-- The cycle reset read every balance and then zeroed them one coin_apply call at a time, so a
+-- spend or an award landing in between left balances half reset, and each zeroing counted as
+-- spending. The reset now runs as one locked statement and writes its own ledger type, which
+-- the reconciliation leaves out of total_spent.
+
+ALTER TABLE public.coin_transactions DROP CONSTRAINT coin_transactions_type_check;
+ALTER TABLE public.coin_transactions
+  ADD CONSTRAINT coin_transactions_type_check CHECK (type IN ('earn', 'spend', 'refund', 'adjust', 'reset'));
+
+-- Zeroes every balance in a single transaction and returns how many students had coins
+CREATE OR REPLACE FUNCTION public.reset_coin_balances(_admin_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  -- Blocks coin_apply and new wallets until the reset commits
+  LOCK TABLE student_coins IN SHARE ROW EXCLUSIVE MODE;
+
+  INSERT INTO coin_transactions (student_id, amount, type, reason, created_by_admin_id)
+  SELECT c.student_id, -c.balance, 'reset', 'Reinicio de ciclo académico', _admin_id
+  FROM student_coins c
+  WHERE c.balance <> 0;
+
+  UPDATE student_coins SET balance = 0 WHERE balance <> 0;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reset_coin_balances(UUID) FROM PUBLIC, anon, authenticated;
+
+/*
+ * Rebuilds student_coins from the coin_transactions ledger and returns every student whose
+ * cached numbers drifted from it. With _apply the drift is corrected, except where the ledger
+ * itself sums below zero: those need a manual adjustment and come back with applied = false.
+ * Cycle resets move the balance but are not spending.
+ */
+CREATE OR REPLACE FUNCTION public.reconcile_coin_balances(_apply BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  student_id UUID,
+  full_name TEXT,
+  stored_balance INTEGER,
+  ledger_balance INTEGER,
+  stored_earned INTEGER,
+  ledger_earned INTEGER,
+  stored_spent INTEGER,
+  ledger_spent INTEGER,
+  applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'not_allowed';
+  END IF;
+
+  -- Lock the cached balances so nothing moves between comparing and correcting
+  PERFORM 1 FROM student_coins FOR UPDATE;
+
+  CREATE TEMP TABLE _coin_drift ON COMMIT DROP AS
+  WITH ledger AS (
+    SELECT t.student_id,
+      SUM(t.amount)::integer AS balance,
+      COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0 AND t.type <> 'refund'), 0)::integer AS earned,
+      (COALESCE(SUM(-t.amount) FILTER (WHERE t.amount < 0 AND t.type <> 'reset'), 0)
+        - COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'refund'), 0))::integer AS spent
+    FROM coin_transactions t
+    GROUP BY t.student_id
+  )
+  SELECT sp.user_id AS student_id, sp.full_name,
+    COALESCE(c.balance, 0) AS stored_balance, COALESCE(l.balance, 0) AS ledger_balance,
+    COALESCE(c.total_earned, 0) AS stored_earned, COALESCE(l.earned, 0) AS ledger_earned,
+    COALESCE(c.total_spent, 0) AS stored_spent, COALESCE(l.spent, 0) AS ledger_spent
+  FROM student_profiles sp
+  LEFT JOIN student_coins c ON c.student_id = sp.user_id
+  LEFT JOIN ledger l ON l.student_id = sp.user_id
+  WHERE COALESCE(c.balance, 0) <> COALESCE(l.balance, 0)
+    OR COALESCE(c.total_earned, 0) <> COALESCE(l.earned, 0)
+    OR COALESCE(c.total_spent, 0) <> COALESCE(l.spent, 0);
+
+  IF _apply THEN
+    INSERT INTO student_coins AS c (student_id, balance, total_earned, total_spent)
+    SELECT d.student_id, d.ledger_balance, d.ledger_earned, d.ledger_spent
+    FROM _coin_drift d
+    WHERE d.ledger_balance >= 0
+    ON CONFLICT ON CONSTRAINT student_coins_pkey DO UPDATE SET
+      balance = EXCLUDED.balance,
+      total_earned = EXCLUDED.total_earned,
+      total_spent = EXCLUDED.total_spent;
+  END IF;
+
+  RETURN QUERY
+  SELECT d.student_id, d.full_name, d.stored_balance, d.ledger_balance, d.stored_earned,
+    d.ledger_earned, d.stored_spent, d.ledger_spent, _apply AND d.ledger_balance >= 0
+  FROM _coin_drift d
+  ORDER BY abs(d.ledger_balance - d.stored_balance) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reconcile_coin_balances(BOOLEAN) TO authenticated;
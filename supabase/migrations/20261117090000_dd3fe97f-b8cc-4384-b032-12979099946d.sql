@@ -0,0 +1,79 @@
+-- award_event_coins summed what a rule had paid today before taking any lock, so two events
+-- for the same student committing together both saw room under the daily cap and both paid.
+-- The student's wallet row is now locked first, which serializes awards per student.
+
+/*
+ * Applies every active rule for the event and returns the coins awarded. Skipped, per rule:
+ * sources it already paid for, awards that would pass its daily cap, and events flagged
+ * is_repeat (the same material handed in again, which should not pay twice).
+ */
+CREATE OR REPLACE FUNCTION public.award_event_coins(
+  _student_id UUID,
+  _event_type TEXT,
+  _source_type TEXT,
+  _source_id TEXT,
+  _event JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule coin_earning_rules%ROWTYPE;
+  _earned_today INTEGER;
+  _awarded INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM student_profiles WHERE user_id = _student_id) THEN
+    RETURN 0;
+  END IF;
+
+  IF COALESCE((_event ->> 'is_repeat')::boolean, false) THEN
+    RETURN 0;
+  END IF;
+
+  -- Hold the wallet so the daily sums below cannot race another award for this student
+  INSERT INTO student_coins (student_id, balance, total_earned, total_spent)
+  VALUES (_student_id, 0, 0, 0)
+  ON CONFLICT (student_id) DO NOTHING;
+
+  PERFORM 1 FROM student_coins WHERE student_id = _student_id FOR UPDATE;
+
+  FOR _rule IN
+    SELECT * FROM coin_earning_rules
+    WHERE event_type = _event_type AND is_active
+    ORDER BY created_at
+  LOOP
+    CONTINUE WHEN NOT coin_rule_matches(_rule.conditions, _event);
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM coin_transactions
+      WHERE rule_id = _rule.id AND source_type = _source_type AND source_id = _source_id
+    );
+
+    IF _rule.daily_cap IS NOT NULL THEN
+      SELECT COALESCE(SUM(amount), 0) INTO _earned_today
+      FROM coin_transactions
+      WHERE student_id = _student_id AND rule_id = _rule.id
+        AND created_at >= date_trunc('day', now() AT TIME ZONE 'America/Bogota') AT TIME ZONE 'America/Bogota';
+      CONTINUE WHEN _earned_today + _rule.amount > _rule.daily_cap;
+    END IF;
+
+    PERFORM coin_apply(
+      _student_id,
+      _rule.amount,
+      'earn',
+      _rule.name || COALESCE(': ' || NULLIF(_event ->> 'label', ''), ''),
+      NULL,
+      NULL,
+      _rule.id,
+      _source_type,
+      _source_id
+    );
+    _awarded := _awarded + _rule.amount;
+  END LOOP;
+
+  RETURN _awarded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_event_coins(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;